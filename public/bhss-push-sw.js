@@ -1,3 +1,110 @@
+// BHSS service worker: app-shell caching for offline/slow connections, plus
+// web push. The file name predates the app shell and is kept so existing push
+// registrations keep working.
+
+// Filled in at build time by the `precacheServiceWorker` plugin in
+// vite.config.ts. In dev the list is empty and fetches are not intercepted.
+const BUILD_VERSION = "dev"
+const PRECACHE_URLS = []
+
+const PRECACHE = `bhss-precache-${BUILD_VERSION}`
+const INSTRUCTION_IMAGES = "bhss-instruction-images-v1"
+const INSTRUCTION_IMAGE_PREFIXES = ["/attendanceimage/", "/deliveryimage/"]
+const MAX_INSTRUCTION_IMAGES = 40
+
+self.addEventListener("install", (event) => {
+  if (BUILD_VERSION === "dev") return
+  // No skipWaiting here: the app asks first (see src/lib/pwa.ts)
+  event.waitUntil(caches.open(PRECACHE).then((cache) => cache.addAll(PRECACHE_URLS)))
+})
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    (async () => {
+      const keys = await caches.keys()
+      await Promise.all(
+        keys
+          .filter((key) => key.startsWith("bhss-precache-") && key !== PRECACHE)
+          .map((key) => caches.delete(key))
+      )
+      await self.clients.claim()
+    })()
+  )
+})
+
+self.addEventListener("message", (event) => {
+  if (event.data?.type === "bhss:skip-waiting") self.skipWaiting()
+})
+
+async function trimCache(name, max) {
+  const cache = await caches.open(name)
+  const keys = await cache.keys()
+  for (const key of keys.slice(0, Math.max(0, keys.length - max))) await cache.delete(key)
+}
+
+// Routes are client-side, so every navigation gets the cached index.html
+async function appShell(request) {
+  const cached = await caches.match("/", { cacheName: PRECACHE })
+  if (cached) return cached
+  return fetch(request)
+}
+
+async function cacheFirst(request) {
+  const cached = await caches.match(request, { cacheName: PRECACHE })
+  if (cached) return cached
+  const res = await fetch(request)
+  if (res.ok) {
+    const cache = await caches.open(PRECACHE)
+    cache.put(request, res.clone())
+  }
+  return res
+}
+
+// Instruction screenshots rarely change: show the cached copy at once and
+// refresh it in the background
+async function staleWhileRevalidate(event) {
+  const cache = await caches.open(INSTRUCTION_IMAGES)
+  const cached = await cache.match(event.request)
+  const network = fetch(event.request)
+    .then(async (res) => {
+      if (res.ok) {
+        await cache.put(event.request, res.clone())
+        await trimCache(INSTRUCTION_IMAGES, MAX_INSTRUCTION_IMAGES)
+      }
+      return res
+    })
+    .catch((e) => {
+      if (cached) return cached
+      throw e
+    })
+  if (cached) {
+    event.waitUntil(network)
+    return cached
+  }
+  return network
+}
+
+self.addEventListener("fetch", (event) => {
+  if (BUILD_VERSION === "dev") return
+  const { request } = event
+  if (request.method !== "GET") return
+  const url = new URL(request.url)
+  // The API lives on its own origin and is never cached here
+  if (url.origin !== self.location.origin) return
+
+  if (request.mode === "navigate") {
+    event.respondWith(appShell(request))
+    return
+  }
+  if (INSTRUCTION_IMAGE_PREFIXES.some((prefix) => url.pathname.startsWith(prefix))) {
+    event.respondWith(staleWhileRevalidate(event))
+    return
+  }
+  if (url.pathname.startsWith("/assets/") || PRECACHE_URLS.includes(url.pathname)) {
+    event.respondWith(cacheFirst(request))
+  }
+})
+
 self.addEventListener("push", (event) => {
   let data = {}
   try {
@@ -29,14 +136,16 @@ self.addEventListener("push", (event) => {
 
 self.addEventListener("notificationclick", (event) => {
   event.notification.close()
-  const url = event.notification?.data?.url || "/"
+  // `url` is an app route such as /calendar?id=… (see src/lib/routes.ts)
+  const url = new URL(event.notification?.data?.url || "/", self.location.origin).href
 
   event.waitUntil(
     (async () => {
       const allClients = await self.clients.matchAll({ type: "window", includeUncontrolled: true })
       for (const client of allClients) {
         if ("focus" in client) {
-          client.navigate(url)
+          // Let the open app route in place so unsaved state and the socket survive
+          client.postMessage({ type: "bhss:navigate", url })
           return client.focus()
         }
       }
@@ -3,6 +3,9 @@ import "./App.css"
 import { AdminSidebarLayout } from "./admin/admin-sidebar-layout"
 import { LoginPage, type AuthUser } from "./login/login-page"
 import { UserSidebarLayout } from "./users/user-sidebar-layout"
+import { roleOf, ROLE_DEFINITIONS } from "./lib/permissions"
+import { listenForServiceWorkerNavigation, navigate } from "./lib/router"
+import { useSessionStore } from "./stores/session-store"
 import { Toaster, toast } from "sonner"
 
 type AuthState = {
@@ -41,6 +44,7 @@ function installTokenExpiryInterceptor(onExpired: () => void) {
 
 function App() {
   const [auth, setAuth] = useState<AuthState | null>(null)
+  const setSessionUser = useSessionStore((s) => s.setUser)
   const [authError, setAuthError] = useState<string | null>(null)
   const interceptorInstalledRef = useRef(false)
 
@@ -52,11 +56,12 @@ function App() {
       const parsed = JSON.parse(raw) as AuthState
       if (parsed?.token && parsed?.user) {
         setAuth(parsed)
+        setSessionUser(parsed.user)
       }
     } catch {
       // ignore
     }
-  }, [])
+  }, [setSessionUser])
 
   // Install the global fetch interceptor once, wired to handleExpiredToken
   useEffect(() => {
@@ -66,6 +71,7 @@ function App() {
     const cleanup = installTokenExpiryInterceptor(() => {
       localStorage.removeItem("bhss_auth")
       setAuth(null)
+      useSessionStore.getState().setUser(null)
       toast.error("Your session has expired. Please log in again.", {
         duration: 5000,
         position: "top-center",
@@ -74,15 +80,23 @@ function App() {
     return cleanup
   }, [])
 
+  // Notification clicks reuse this tab; see public/bhss-push-sw.js
+  useEffect(() => listenForServiceWorkerNavigation(), [])
+
   const handleLogin = (payload: AuthState) => {
     localStorage.setItem("bhss_auth", JSON.stringify(payload))
     setAuth(payload)
+    setSessionUser(payload.user)
     setAuthError(null)
   }
 
   const handleLogout = () => {
     localStorage.removeItem("bhss_auth")
     setAuth(null)
+    setSessionUser(null)
+    // Deep links only survive the login screen when the session expired;
+    // an explicit logout starts the next session from the home page.
+    navigate("/", { replace: true })
   }
 
   if (!auth) {
@@ -99,7 +113,8 @@ function App() {
     )
   }
 
-  if (auth.user.role === "admin") {
+  // Supervisors and auditors share the admin portal; the sidebar shows what their role allows
+  if (ROLE_DEFINITIONS[roleOf(auth.user)].portal === "admin") {
     return (
       <>
         <Toaster richColors position="top-center" />
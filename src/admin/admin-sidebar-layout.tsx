@@ -1,12 +1,14 @@
-import React, { useState } from "react"
+import React, { useEffect, useMemo, useState } from "react"
 import {
   LayoutDashboard,
   Building2,
   BarChart3,
   CalendarDays,
+  CalendarClock,
   Megaphone,
   ShoppingCart,
   Package,
+  Boxes,
   ClipboardCheck,
   ClipboardList,
   Truck,
@@ -15,6 +17,7 @@ import {
   FileText,
   TriangleAlert,
   ChevronRight,
+  History,
 } from "lucide-react"
 import {
   Sidebar,
@@ -35,7 +38,10 @@ import {
 } from "@/components/ui/sidebar"
 import { Button } from "@/components/ui/button"
 import { Separator } from "@/components/ui/separator"
-import { useAdminNavStore } from "./admin-nav-store"
+import { UpdateAvailablePrompt } from "@/components/update-available-prompt"
+import { usePermissions, type Feature } from "@/lib/permissions"
+import { ADMIN_ROUTES, toAdminPath } from "@/lib/routes"
+import { navigate, useLocation } from "@/lib/router"
 import { IdleScreensaver } from "./components/idle-screensaver"
 import { Dashboard } from "./pages/dashboard"
 import { SchoolDirectory } from "./pages/school-directory"
@@ -52,11 +58,15 @@ import {
   DistributionRice,
   DistributionWater,
 } from "./pages/distribution"
+import { AdminDistributionReconciliation } from "./pages/distribution-reconciliation"
 import { Attendance } from "./pages/attendance"
+import { AdminInventory } from "./pages/inventory"
 import { AdminUsers } from "./pages/users"
+import { AdminAuditLog } from "./pages/audit-log"
 import { AdminDelivery } from "./pages/delivery"
 import { AdminDeliverySummary } from "./pages/delivery-summary"
 import { AdminDeliveryConcernSummary } from "./pages/delivery-concern-summary"
+import { AdminDeliverySchedule } from "./pages/delivery-schedule"
 import { AdminEventCalendar } from "./pages/event-calendar"
 import { AdminEventAnnouncements } from "./pages/event-announcements"
 import { AdminFileSubmissions } from "./pages/file-submissions"
@@ -70,13 +80,18 @@ type AdminSidebarLayoutProps = {
 
 type MenuSubItem = {
   title: string
+  path: string
   icon?: any
+  /** Defaults to the parent item's feature. */
+  feature?: Feature
   component: () => React.ReactElement
 }
 
 type MenuItem = {
   title: string
+  path: string
   icon: any
+  feature: Feature
   component?: () => React.ReactElement
   subItems?: MenuSubItem[]
 }
@@ -84,120 +99,210 @@ type MenuItem = {
 const menuItems: MenuItem[] = [
   {
     title: "Dashboard",
+    path: ADMIN_ROUTES.dashboard,
     icon: LayoutDashboard,
+    feature: "dashboard",
     component: Dashboard,
   },
   {
     title: "Event Calendar",
+    path: ADMIN_ROUTES.eventCalendar,
     icon: CalendarDays,
+    feature: "events",
     component: AdminEventCalendar,
     subItems: [
       {
         title: "Announcements",
+        path: ADMIN_ROUTES.announcements,
         icon: Megaphone,
+        feature: "announcements",
         component: AdminEventAnnouncements,
       },
     ],
   },
   {
     title: "School Directory",
+    path: ADMIN_ROUTES.schoolDirectory,
     icon: Building2,
+    feature: "schoolDirectory",
     component: SchoolDirectory,
   },
   {
     title: "Data Analysis",
+    path: ADMIN_ROUTES.dataAnalysis,
     icon: BarChart3,
+    feature: "dataAnalysis",
     component: DataAnalysis,
   },
   {
     title: "Procurement",
+    path: ADMIN_ROUTES.procurement,
     icon: ShoppingCart,
+    feature: "procurement",
     component: Procurement,
   },
   {
     title: "Delivery",
+    path: ADMIN_ROUTES.delivery,
     icon: Truck,
+    feature: "delivery",
     component: AdminDelivery,
     subItems: [
       {
         title: "Summary",
+        path: ADMIN_ROUTES.deliverySummary,
         icon: FileText,
         component: AdminDeliverySummary,
       },
       {
         title: "Concern Summary",
+        path: ADMIN_ROUTES.deliveryConcerns,
         icon: TriangleAlert,
         component: AdminDeliveryConcernSummary,
       },
+      {
+        title: "Schedule",
+        path: ADMIN_ROUTES.deliverySchedule,
+        icon: CalendarClock,
+        component: AdminDeliverySchedule,
+      },
     ],
   },
   {
     title: "Distribution",
+    path: ADMIN_ROUTES.distribution,
     icon: Package,
+    feature: "distribution",
     component: Distribution,
     subItems: [
       {
         title: "Rice Distribution",
+        path: ADMIN_ROUTES.distributionRice,
         component: DistributionRice,
       },
       {
         title: "Water",
+        path: ADMIN_ROUTES.distributionWater,
         component: DistributionWater,
       },
       {
         title: "LPG",
+        path: ADMIN_ROUTES.distributionLpg,
         component: DistributionLpg,
       },
       {
         title: "Fruits & Veggies",
+        path: ADMIN_ROUTES.distributionFruitsVeggies,
         component: DistributionFruitsVeggies,
       },
       {
         title: "Equipments",
+        path: ADMIN_ROUTES.distributionEquipments,
         component: DistributionEquipments,
       },
       {
         title: "Grocery",
+        path: ADMIN_ROUTES.distributionGrocery,
         component: DistributionGrocery,
       },
       {
         title: "Consumables",
+        path: ADMIN_ROUTES.distributionConsumables,
         component: DistributionConsumables,
       },
       {
         title: "Meat",
+        path: ADMIN_ROUTES.distributionMeat,
         component: DistributionMeat,
       },
+      {
+        title: "Vs. Delivery",
+        path: ADMIN_ROUTES.distributionReconciliation,
+        component: AdminDistributionReconciliation,
+      },
     ],
   },
   {
     title: "Attendance",
+    path: ADMIN_ROUTES.attendance,
     icon: ClipboardCheck,
+    feature: "attendance",
     component: Attendance,
   },
+  {
+    title: "Inventory",
+    path: ADMIN_ROUTES.inventory,
+    icon: Boxes,
+    feature: "inventory",
+    component: AdminInventory,
+  },
   {
     title: "File Submissions",
+    path: ADMIN_ROUTES.fileSubmissions,
     icon: FileText,
+    feature: "fileSubmissions",
     component: AdminFileSubmissions,
   },
   {
     title: "Activities",
+    path: ADMIN_ROUTES.activities,
     icon: ClipboardList,
+    feature: "activities",
     component: AdminActivities,
   },
   {
     title: "Users",
+    path: ADMIN_ROUTES.users,
     icon: Users,
+    feature: "users",
     component: AdminUsers,
   },
+  {
+    title: "Audit Log",
+    path: ADMIN_ROUTES.auditLog,
+    icon: History,
+    feature: "audit",
+    component: AdminAuditLog,
+  },
 ]
 
 export function AdminSidebarLayout({
   userEmail,
   onLogout,
 }: AdminSidebarLayoutProps) {
-  const activeItem = useAdminNavStore((s) => s.activeItem)
-  const setActiveItem = useAdminNavStore((s) => s.setActiveItem)
+  const { pathname } = useLocation()
+  const activePath = pathname.replace(/\/+$/, "") || "/"
+  const permissions = usePermissions()
+
+  // Only the pages this role may view are listed or routed to
+  const visibleItems = useMemo(
+    () =>
+      menuItems
+        .filter((item) => permissions.can(item.feature))
+        .map((item) => ({
+          ...item,
+          subItems: item.subItems?.filter((sub) => permissions.can(sub.feature || item.feature)),
+        })),
+    [permissions]
+  )
+
+  // Unknown paths (including user-portal links from shared notifications)
+  // are rewritten in place so back/forward never lands on a blank page.
+  const routeMatch = (() => {
+    for (const item of visibleItems) {
+      if (item.path === activePath) return { item, sub: null as MenuSubItem | null }
+      const sub = item.subItems?.find((s) => s.path === activePath)
+      if (sub) return { item, sub }
+    }
+    return null
+  })()
+
+  useEffect(() => {
+    if (routeMatch) return
+    const target = toAdminPath(activePath)
+    const allowed = target && visibleItems.some((i) => i.path === target || i.subItems?.some((s) => s.path === target))
+    navigate(allowed ? `${target}${window.location.search}` : ADMIN_ROUTES.dashboard, { replace: true })
+  }, [routeMatch, activePath, visibleItems])
 
   const [expandedItems, setExpandedItems] = useState<string[]>([])
 
@@ -207,27 +312,13 @@ export function AdminSidebarLayout({
     )
   }
 
-  const ActiveComponent = (() => {
-    for (const item of menuItems) {
-      if (item.title === activeItem && item.component) return item.component
-      if (item.subItems) {
-        const match = item.subItems.find((s) => `${item.title}:${s.title}` === activeItem)
-        if (match) return match.component
-      }
-    }
-    return Dashboard
-  })()
+  const ActiveComponent = routeMatch?.sub?.component || routeMatch?.item.component || Dashboard
 
-  const activeHeaderLabel = (() => {
-    for (const item of menuItems) {
-      if (item.title === activeItem) return item.title
-      if (item.subItems) {
-        const match = item.subItems.find((s) => `${item.title}:${s.title}` === activeItem)
-        if (match) return `${item.title} / ${match.title}`
-      }
-    }
-    return activeItem
-  })()
+  const activeHeaderLabel = routeMatch
+    ? routeMatch.sub
+      ? `${routeMatch.item.title} / ${routeMatch.sub.title}`
+      : routeMatch.item.title
+    : "Dashboard"
 
   return (
     <IdleScreensaver title="Admin Dashboard" subtitle="BHSS Web System" idleMs={30000} intervalMs={6000}>
@@ -236,6 +327,7 @@ export function AdminSidebarLayout({
         style={{ fontFamily: '"Inter", "Mona Sans", "Helvetica Neue", Helvetica, Arial, sans-serif' }}
       >
         <AdminGlobalNotifications />
+        <UpdateAvailablePrompt />
         <Sidebar
           collapsible="icon"
           variant="inset"
@@ -263,11 +355,9 @@ export function AdminSidebarLayout({
             <SidebarGroup>
               <SidebarGroupContent>
                 <SidebarMenu>
-                  {menuItems.map((item) => {
+                  {visibleItems.map((item) => {
                     const hasSub = Array.isArray(item.subItems) && item.subItems.length > 0
-                    const isParentActive =
-                      activeItem === item.title ||
-                      (hasSub && item.subItems!.some((s) => `${item.title}:${s.title}` === activeItem))
+                    const isParentActive = routeMatch?.item === item
 
                     return (
                       <SidebarMenuItem key={item.title}>
@@ -275,7 +365,7 @@ export function AdminSidebarLayout({
                           className="w-full my-0.5 text-[15px] text-neutral-800 [&>svg]:size-5 rounded-2xl border border-transparent bg-transparent hover:bg-emerald-600 hover:text-white hover:[&>svg]:text-white data-[active=true]:bg-emerald-600 data-[active=true]:text-white data-[active=true]:border-transparent data-[active=true]:shadow-none transition-colors px-3.5 py-2.5 h-11 gap-2.5"
                           isActive={isParentActive}
                           onClick={() => {
-                            setActiveItem(item.title)
+                            navigate(item.path)
                             if (hasSub) toggleExpand(item.title)
                           }}
                           tooltip={item.title}
@@ -292,17 +382,17 @@ export function AdminSidebarLayout({
 
                         {hasSub &&
                           (expandedItems.includes(item.title) ||
-                            item.subItems!.some((s) => `${item.title}:${s.title}` === activeItem)) ? (
+                            routeMatch?.item === item) ? (
                           <SidebarMenuSub>
                             {item.subItems!.map((sub) => (
                               <SidebarMenuSubItem key={sub.title}>
                                 <SidebarMenuSubButton
-                                  href="#"
-                                  isActive={`${item.title}:${sub.title}` === activeItem}
+                                  href={sub.path}
+                                  isActive={routeMatch?.sub === sub}
                                   className="rounded-xl border border-transparent bg-transparent hover:bg-emerald-600 hover:text-white hover:[&>svg]:text-white data-[active=true]:bg-emerald-600 data-[active=true]:text-white data-[active=true]:border-transparent data-[active=true]:shadow-none data-[active=true]:[&>svg]:text-white px-3 py-1.5 my-0.5"
                                   onClick={(e) => {
                                     e.preventDefault()
-                                    setActiveItem(`${item.title}:${sub.title}`)
+                                    navigate(sub.path)
                                   }}
                                 >
                                   {sub.icon ? <sub.icon /> : null}
@@ -343,7 +433,14 @@ export function AdminSidebarLayout({
             <h1 className="text-lg font-semibold">{activeHeaderLabel}</h1>
           </header>
           <div className="flex flex-1 flex-col gap-4 p-4 bg-[#f5faf7]">
-            <ActiveComponent />
+            {permissions.isUnassigned ? (
+              <div className="rounded-xl border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800">
+                Your account is not assigned to a municipality yet, so there are no records to show. Ask a provincial
+                admin to set your municipality.
+              </div>
+            ) : (
+              <ActiveComponent />
+            )}
           </div>
         </SidebarInset>
       </SidebarProvider>
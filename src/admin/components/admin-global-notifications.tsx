@@ -2,11 +2,9 @@ import { useEffect, useRef } from "react"
 import { io, type Socket } from "socket.io-client"
 import { sileo } from "sileo"
 
-function getApiBaseUrl() {
-  const envAny = (import.meta as any)?.env as any
-  const fromEnv = (envAny?.VITE_API_BASE_URL || envAny?.VITE_API_URL) as string | undefined
-  return (fromEnv || "http://localhost:8000").replace(/\/+$/, "")
-}
+import { getApiBaseUrl } from "@/lib/api"
+import { navigate } from "@/lib/router"
+import { links } from "@/lib/routes"
 
 function formatClockTimeNow() {
   try {
@@ -96,6 +94,7 @@ export function AdminGlobalNotifications() {
       if (notificationId && lastNotificationIdRef.current === notificationId) return
       lastNotificationIdRef.current = notificationId
 
+      const url = links.adminAttendance({ date: dateKey, school })
       const title = "New attendance saved"
       const body = `${school || "(school)"} • ${grade || "(grade)"} • ${dateKey || "(date)"}`
       const timeText = formatClockTimeNow()
@@ -117,6 +116,11 @@ export function AdminGlobalNotifications() {
             icon: "/images/bhsslogo.png",
             badge: "/images/bhsslogo.png",
           })
+          n.onclick = () => {
+            window.focus()
+            navigate(url)
+            n.close()
+          }
           setTimeout(() => n.close(), 5000)
         } catch {
           // ignore
@@ -136,6 +140,11 @@ export function AdminGlobalNotifications() {
       if (notificationId && lastNotificationIdRef.current === notificationId) return
       lastNotificationIdRef.current = notificationId
 
+      const url = links.adminFileSubmission({
+        municipality: payload?.user?.municipality,
+        school,
+        folder,
+      })
       const title = "New file submission uploaded"
       const body = `${school || "(school)"} • ${folder || "(folder)"} • ${filesCount || 1} file${filesCount === 1 ? "" : "s"}`
       const timeText = formatClockTimeNow()
@@ -157,6 +166,11 @@ export function AdminGlobalNotifications() {
             icon: "/images/bhsslogo.png",
             badge: "/images/bhsslogo.png",
           })
+          n.onclick = () => {
+            window.focus()
+            navigate(url)
+            n.close()
+          }
           setTimeout(() => n.close(), 5000)
         } catch {
           // ignore
@@ -175,6 +189,11 @@ export function AdminGlobalNotifications() {
       if (notificationId && lastNotificationIdRef.current === notificationId) return
       lastNotificationIdRef.current = notificationId
 
+      const url = links.adminDelivery({
+        id: payload?.record?.id,
+        date: dateKey,
+        school,
+      })
       const title = "New delivery saved"
       const body = `${school || "(school)"} • ${categoryLabel || "(category)"} • ${dateKey || "(date)"}`
       const timeText = formatClockTimeNow()
@@ -196,6 +215,11 @@ export function AdminGlobalNotifications() {
             icon: "/images/bhsslogo.png",
             badge: "/images/bhsslogo.png",
           })
+          n.onclick = () => {
+            window.focus()
+            navigate(url)
+            n.close()
+          }
           setTimeout(() => n.close(), 5000)
         } catch {
           // ignore
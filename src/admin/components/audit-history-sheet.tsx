@@ -0,0 +1,111 @@
+import { useEffect, useState } from "react"
+import { ArrowRight } from "lucide-react"
+import { toast } from "sonner"
+
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet"
+import { Skeleton } from "@/components/ui/skeleton"
+import {
+  auditApi,
+  getErrorMessage,
+  isAbortError,
+  type AuditEntityType,
+  type AuditEntryDto,
+} from "@/lib/api"
+import {
+  auditActionLabel,
+  auditChanges,
+  auditFieldLabel,
+  formatAuditTime,
+  formatAuditValue,
+} from "@/lib/audit"
+
+/** Field-by-field before → after of one audit entry. */
+export function AuditEntryChanges({ entry }: { entry: AuditEntryDto }) {
+  const changes = auditChanges(entry)
+  if (!changes.length) return <p className="text-xs text-gray-400">No field changes recorded.</p>
+  return (
+    <ul className="grid gap-1 text-xs">
+      {changes.map((c) => (
+        <li key={c.field} className="flex flex-wrap items-center gap-1.5">
+          <span className="font-medium text-gray-600">{auditFieldLabel(c.field)}:</span>
+          <span className="text-red-600 line-through decoration-red-300">{formatAuditValue(c.before)}</span>
+          <ArrowRight className="size-3 text-gray-400" />
+          <span className="text-emerald-700">{formatAuditValue(c.after)}</span>
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+/** Side drawer with every logged change to one record, newest first. */
+export function AuditHistorySheet({
+  entityType,
+  entityId,
+  title,
+  onOpenChange,
+}: {
+  entityType: AuditEntityType
+  /** The drawer is open while this is set. */
+  entityId: string | null
+  title: string
+  onOpenChange: (open: boolean) => void
+}) {
+  const key = entityId ? `${entityType}:${entityId}` : ""
+  const [result, setResult] = useState<{ key: string; entries: AuditEntryDto[] }>({ key: "", entries: [] })
+  const isLoading = !!key && result.key !== key
+
+  useEffect(() => {
+    if (!entityId) return
+    const controller = new AbortController()
+    auditApi
+      .list({ entityType, entityId }, controller.signal)
+      .then((data) => setResult({ key: `${entityType}:${entityId}`, entries: data.entries || [] }))
+      .catch((e) => {
+        if (isAbortError(e)) return
+        toast.error(getErrorMessage(e, "Failed to load history"))
+        setResult({ key: `${entityType}:${entityId}`, entries: [] })
+      })
+    return () => controller.abort()
+  }, [entityType, entityId])
+
+  const entries = result.entries
+    .slice()
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+
+  return (
+    <Sheet open={!!entityId} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-md">
+        <SheetHeader>
+          <SheetTitle>History</SheetTitle>
+          <SheetDescription>{title}</SheetDescription>
+        </SheetHeader>
+        <div className="grid gap-3 overflow-y-auto px-4 pb-4">
+          {isLoading ? (
+            Array.from({ length: 3 }, (_, i) => <Skeleton key={i} className="h-16 rounded-xl" />)
+          ) : entries.length === 0 ? (
+            <p className="py-8 text-center text-sm text-gray-400">No changes have been logged for this record.</p>
+          ) : (
+            entries.map((entry) => (
+              <div key={entry.id} className="grid gap-1.5 rounded-xl border border-gray-100 bg-gray-50 px-3 py-2">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm font-semibold text-gray-800">{auditActionLabel(entry.action)}</span>
+                  <span className="text-[11px] text-gray-400">{formatAuditTime(entry.createdAt)}</span>
+                </div>
+                <span className="text-xs text-gray-500">
+                  by {entry.actorName || entry.actorUsername || "Unknown"}
+                </span>
+                <AuditEntryChanges entry={entry} />
+              </div>
+            ))
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  )
+}
@@ -0,0 +1,316 @@
+import { useState } from "react"
+import { AlertTriangle, CalendarClock, Loader2, MessageSquare, Send, UserRound } from "lucide-react"
+import { toast } from "sonner"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  deliveryConcernsApi,
+  getErrorMessage,
+  type BhssUser,
+  type ConcernTicketDto,
+  type ConcernTicketStatus,
+} from "@/lib/api"
+import {
+  CONCERN_TICKET_STATUSES,
+  concernTicketKey,
+  describeHistoryEntry,
+  formatTicketTime,
+  isTicketOverdue,
+  ticketStatusClass,
+  ticketStatusLabel,
+} from "@/lib/delivery-concerns"
+import { usePermissions } from "@/lib/permissions"
+
+export function ConcernTicketStatusBadge({ status }: { status: ConcernTicketStatus | undefined }) {
+  return (
+    <span
+      className={`inline-flex items-center whitespace-nowrap rounded-full border px-2.5 py-0.5 text-[11px] font-semibold ${ticketStatusClass(status)}`}
+    >
+      {ticketStatusLabel(status)}
+    </span>
+  )
+}
+
+/** Ticket controls for every concern on one delivery record. */
+export function ConcernTicketPanel({
+  deliveryRecordId,
+  concerns,
+  tickets,
+  owners,
+  onTicketSaved,
+}: {
+  deliveryRecordId: string
+  concerns: string[]
+  tickets: Map<string, ConcernTicketDto>
+  owners: BhssUser[]
+  onTicketSaved: (ticket: ConcernTicketDto) => void
+}) {
+  const [openingConcern, setOpeningConcern] = useState<string | null>(null)
+  const canEdit = usePermissions().can("delivery", "edit")
+
+  const openTicket = async (concern: string) => {
+    setOpeningConcern(concern)
+    try {
+      const res = await deliveryConcernsApi.create(deliveryRecordId, concern)
+      if (res.ticket) onTicketSaved(res.ticket)
+    } catch (e) {
+      toast.error(getErrorMessage(e, "Failed to open ticket"))
+    } finally {
+      setOpeningConcern(null)
+    }
+  }
+
+  return (
+    <div className="grid gap-3">
+      {concerns.map((concern) => {
+        const ticket = tickets.get(concernTicketKey(deliveryRecordId, concern))
+        return ticket ? (
+          // Remount on every save so the form starts from the server's copy
+          <ConcernTicketCard key={`${ticket.id}-${ticket.updatedAt || ""}`} ticket={ticket} owners={owners} onSaved={onTicketSaved} />
+        ) : (
+          <div
+            key={concern}
+            className="flex items-center justify-between gap-3 rounded-xl border border-dashed border-amber-300 bg-amber-50/40 p-3"
+          >
+            <span className="inline-flex items-center gap-1.5 text-sm font-semibold text-amber-700">
+              <AlertTriangle className="size-3.5" />
+              {concern}
+            </span>
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              className="rounded-xl"
+              disabled={openingConcern === concern || !canEdit}
+              onClick={() => openTicket(concern)}
+            >
+              {openingConcern === concern ? <Loader2 className="mr-1 size-3.5 animate-spin" /> : null}
+              Open ticket
+            </Button>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+function ConcernTicketCard({
+  ticket,
+  owners,
+  onSaved,
+}: {
+  ticket: ConcernTicketDto
+  owners: BhssUser[]
+  onSaved: (ticket: ConcernTicketDto) => void
+}) {
+  const [status, setStatus] = useState<ConcernTicketStatus>(ticket.status)
+  const [assigneeId, setAssigneeId] = useState(ticket.assigneeId || "")
+  const [dueDate, setDueDate] = useState(ticket.dueDate || "")
+  const [resolutionNote, setResolutionNote] = useState(ticket.resolutionNote || "")
+  const [comment, setComment] = useState("")
+  const [isSaving, setIsSaving] = useState(false)
+  const [isCommenting, setIsCommenting] = useState(false)
+  const [showHistory, setShowHistory] = useState(false)
+  const canEdit = usePermissions().can("delivery", "edit")
+
+  const isDirty =
+    status !== ticket.status ||
+    assigneeId !== (ticket.assigneeId || "") ||
+    dueDate !== (ticket.dueDate || "") ||
+    resolutionNote.trim() !== (ticket.resolutionNote || "")
+  const needsNote = status === "resolved" && !resolutionNote.trim()
+  const overdue = isTicketOverdue(ticket)
+
+  const save = async () => {
+    if (needsNote) {
+      toast.error("Add a resolution note before resolving")
+      return
+    }
+    setIsSaving(true)
+    try {
+      const res = await deliveryConcernsApi.update(ticket.id, {
+        status,
+        assigneeId: assigneeId || null,
+        dueDate: dueDate || null,
+        resolutionNote: resolutionNote.trim(),
+      })
+      if (res.ticket) onSaved(res.ticket)
+      toast.success("Ticket updated")
+    } catch (e) {
+      toast.error(getErrorMessage(e, "Failed to update ticket"))
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const postComment = async () => {
+    const body = comment.trim()
+    if (!body) return
+    setIsCommenting(true)
+    try {
+      const res = await deliveryConcernsApi.addComment(ticket.id, body)
+      setComment("")
+      if (res.ticket) onSaved(res.ticket)
+    } catch (e) {
+      toast.error(getErrorMessage(e, "Failed to post comment"))
+    } finally {
+      setIsCommenting(false)
+    }
+  }
+
+  return (
+    <div className="grid gap-3 rounded-xl border border-gray-100 bg-white p-4 shadow-sm">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <span className="inline-flex items-center gap-1.5 text-sm font-semibold text-amber-700">
+          <AlertTriangle className="size-3.5" />
+          {ticket.concern}
+        </span>
+        <div className="flex items-center gap-1.5">
+          {overdue ? (
+            <span className="inline-flex items-center rounded-full border border-red-200 bg-red-50 px-2.5 py-0.5 text-[11px] font-semibold text-red-600">
+              Overdue
+            </span>
+          ) : null}
+          <ConcernTicketStatusBadge status={ticket.status} />
+        </div>
+      </div>
+
+      <div className="grid gap-2 sm:grid-cols-3">
+        <div className="grid gap-1">
+          <span className="inline-flex items-center gap-1 text-[11px] font-semibold uppercase tracking-wider text-gray-400">
+            <UserRound className="size-3" /> Owner
+          </span>
+          <Select value={assigneeId || "none"} onValueChange={(v) => setAssigneeId(v === "none" ? "" : v)}>
+            <SelectTrigger className="h-8 w-full rounded-lg text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">Unassigned</SelectItem>
+              {owners.map((u) => (
+                <SelectItem key={u.id} value={u.id}>
+                  {u.name || u.username}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="grid gap-1">
+          <span className="inline-flex items-center gap-1 text-[11px] font-semibold uppercase tracking-wider text-gray-400">
+            <CalendarClock className="size-3" /> Due date
+          </span>
+          <Input type="date" value={dueDate} onChange={(e) => setDueDate(e.target.value)} className="h-8 rounded-lg text-sm" />
+        </div>
+        <div className="grid gap-1">
+          <span className="text-[11px] font-semibold uppercase tracking-wider text-gray-400">Status</span>
+          <Select value={status} onValueChange={(v) => setStatus(v as ConcernTicketStatus)}>
+            <SelectTrigger className="h-8 w-full rounded-lg text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CONCERN_TICKET_STATUSES.map((s) => (
+                <SelectItem key={s.value} value={s.value}>
+                  {s.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {status === "resolved" || ticket.resolutionNote ? (
+        <div className="grid gap-1">
+          <span className="text-[11px] font-semibold uppercase tracking-wider text-gray-400">Resolution note</span>
+          <Textarea
+            value={resolutionNote}
+            onChange={(e) => setResolutionNote(e.target.value)}
+            placeholder="What was done to settle this concern?"
+            className="min-h-[64px] rounded-lg text-sm"
+          />
+        </div>
+      ) : null}
+
+      <div className="flex justify-end">
+        <Button
+          type="button"
+          size="sm"
+          className="rounded-xl bg-amber-600 text-white hover:bg-amber-700"
+          disabled={!isDirty || isSaving || !canEdit}
+          onClick={save}
+        >
+          {isSaving ? <Loader2 className="mr-1 size-3.5 animate-spin" /> : null}
+          Save ticket
+        </Button>
+      </div>
+
+      <div className="grid gap-2 border-t border-gray-100 pt-3">
+        <span className="inline-flex items-center gap-1 text-[11px] font-semibold uppercase tracking-wider text-gray-400">
+          <MessageSquare className="size-3" /> Comments ({ticket.comments.length})
+        </span>
+        {ticket.comments.map((c) => (
+          <div
+            key={c.id}
+            className={`rounded-lg border px-3 py-2 text-sm ${c.authorRole === "user" ? "border-teal-100 bg-teal-50/50" : "border-gray-100 bg-gray-50"}`}
+          >
+            <div className="flex items-center justify-between gap-2 text-[11px] text-gray-400">
+              <span className="font-semibold text-gray-600">
+                {c.authorName || "Unknown"}
+                {c.authorRole === "user" ? " (school)" : ""}
+              </span>
+              <span>{formatTicketTime(c.createdAt)}</span>
+            </div>
+            <p className="mt-1 whitespace-pre-wrap break-words text-gray-700">{c.body}</p>
+          </div>
+        ))}
+        <div className="flex items-end gap-2">
+          <Textarea
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            placeholder="Write a comment for the school..."
+            className="min-h-[40px] flex-1 rounded-lg text-sm"
+          />
+          <Button
+            type="button"
+            size="icon"
+            variant="outline"
+            className="rounded-xl"
+            disabled={!comment.trim() || isCommenting || !canEdit}
+            onClick={postComment}
+            title="Post comment"
+          >
+            {isCommenting ? <Loader2 className="size-4 animate-spin" /> : <Send className="size-4" />}
+          </Button>
+        </div>
+      </div>
+
+      {ticket.history.length ? (
+        <div className="border-t border-gray-100 pt-3">
+          <button
+            type="button"
+            onClick={() => setShowHistory((v) => !v)}
+            className="text-[11px] font-semibold uppercase tracking-wider text-gray-400 hover:text-gray-600"
+          >
+            {showHistory ? "Hide" : "Show"} history ({ticket.history.length})
+          </button>
+          {showHistory ? (
+            <ol className="mt-2 space-y-1">
+              {ticket.history.map((h, i) => (
+                <li key={i} className="text-xs text-gray-600">
+                  <span className="text-gray-400">{formatTicketTime(h.at)}</span> • {describeHistoryEntry(h)}
+                </li>
+              ))}
+            </ol>
+          ) : null}
+        </div>
+      ) : null}
+    </div>
+  )
+}
@@ -20,42 +20,13 @@ import {
   CarouselPrevious,
 } from "@/components/ui/carousel"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { announcementsApi, getApiBaseUrl, resolveApiUrl, type AnnouncementDto } from "@/lib/api"
 
 type DashboardAnnouncementsProps = {
   onViewAll?: () => void
 }
 
-type Announcement = {
-  _id?: string
-  id?: string
-  title?: string
-  message?: string
-  priority?: string
-  audience?: string
-  createdAt?: string
-  attachments?: Array<{
-    url?: string
-    mimeType?: string
-    originalName?: string
-  }>
-}
-
-function getApiBaseUrl() {
-  const envAny = (import.meta as any)?.env as any
-  const fromEnv = (envAny?.VITE_API_BASE_URL || envAny?.VITE_API_URL) as string | undefined
-  return (fromEnv || "http://localhost:8000").replace(/\/+$/, "")
-}
-
-function getAuthToken(): string | null {
-  try {
-    const raw = localStorage.getItem("bhss_auth")
-    if (!raw) return null
-    const parsed = JSON.parse(raw) as { token?: string }
-    return parsed?.token || null
-  } catch {
-    return null
-  }
-}
+type Announcement = AnnouncementDto
 
 function AutoCarousel({
   className,
@@ -100,46 +71,18 @@ function AutoCarousel({
   )
 }
 
-async function apiFetch(path: string) {
-  const token = getAuthToken()
-  if (!token) throw new Error("Not authenticated")
-
-  const res = await fetch(`${getApiBaseUrl()}${path}`, {
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${token}`,
-    },
-  })
-
-  const data = await res.json().catch(() => ({}))
-  if (!res.ok) throw new Error((data as any)?.message || "Request failed")
-  return data
-}
-
-function resolveAssetUrl(url: string) {
-  const base = getApiBaseUrl()
-  const u = String(url || "").trim()
-  if (!u) return ""
-  if (u.startsWith("http://") || u.startsWith("https://")) return u
-  return `${base}${u.startsWith("/") ? "" : "/"}${u}`
-}
-
 function getImageUrls(a: Announcement) {
   const imgs = (a.attachments || []).filter((x) =>
     String(x?.mimeType || "")
       .toLowerCase()
       .startsWith("image/")
   )
-  return imgs.map((x) => resolveAssetUrl(String(x?.url || ""))).filter(Boolean)
+  return imgs.map((x) => resolveApiUrl(String(x?.url || ""))).filter(Boolean)
 }
 
 function pickPreviewImageUrl(a: Announcement) {
-  const base = getApiBaseUrl()
   const img = (a.attachments || []).find((x) => String(x?.mimeType || "").toLowerCase().startsWith("image/"))
-  const url = String(img?.url || "").trim()
-  if (!url) return ""
-  if (url.startsWith("http://") || url.startsWith("https://")) return url
-  return `${base}${url.startsWith("/") ? "" : "/"}${url}`
+  return resolveApiUrl(img?.url)
 }
 
 function safeText(x: unknown) {
@@ -174,7 +117,7 @@ export function DashboardAnnouncements({ onViewAll }: DashboardAnnouncementsProp
     const showLoading = opts?.showLoading !== false
     if (showLoading) setIsLoading(true)
     setError(null)
-    const res = (await apiFetch("/api/announcements")) as { announcements?: Announcement[] }
+    const res = await announcementsApi.list()
     const list = Array.isArray(res?.announcements) ? res.announcements : []
     list.sort((a, b) => {
       const aTs = a?.createdAt ? new Date(a.createdAt).getTime() : 0
@@ -237,7 +180,7 @@ export function DashboardAnnouncements({ onViewAll }: DashboardAnnouncementsProp
       .filter((a) => !String(a?.mimeType || "").toLowerCase().startsWith("image/"))
       .map((a) => ({
         name: safeText(a?.originalName) || safeText(a?.url) || "Attachment",
-        url: resolveAssetUrl(String(a?.url || "")),
+        url: resolveApiUrl(String(a?.url || "")),
       }))
       .filter((x) => x.url)
   }, [selected])
@@ -0,0 +1,393 @@
+import { useEffect, useMemo, useState } from "react"
+import { ArrowRight, History, Loader2, RotateCcw } from "lucide-react"
+import { toast } from "sonner"
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Skeleton } from "@/components/ui/skeleton"
+import {
+  distributionApi,
+  getErrorMessage,
+  isAbortError,
+  type DistributionBatchDto,
+  type DistributionCategory,
+} from "@/lib/api"
+import {
+  batchId,
+  batchLabel,
+  diffChangeClass,
+  diffDistributionRows,
+  formatBatchTime,
+  summarizeDiff,
+} from "@/lib/distribution-history"
+import { rowsFromSaved, type DistributionSchema, type DistributionTableRow } from "@/lib/distribution-import"
+
+/**
+ * Every saved import of one distribution category, with a school-level diff
+ * between any two batches and a restore action for older ones.
+ */
+export function DistributionHistoryDialog<C extends DistributionCategory>({
+  schema,
+  onOpenChange,
+  onRestored,
+}: {
+  schema: DistributionSchema<C>
+  onOpenChange: (open: boolean) => void
+  onRestored: () => void
+}) {
+  const [reloadToken, setReloadToken] = useState(0)
+  const [loaded, setLoaded] = useState<{ key: string; batches: DistributionBatchDto[]; error: string | null }>({
+    key: "",
+    batches: [],
+    error: null,
+  })
+  const [pickedFrom, setPickedFrom] = useState<string | null>(null)
+  const [pickedTo, setPickedTo] = useState<string | null>(null)
+  const [diffRows, setDiffRows] = useState<{
+    key: string
+    from: DistributionTableRow[]
+    to: DistributionTableRow[]
+    error: string | null
+  }>({ key: "", from: [], to: [], error: null })
+  const [showUnchanged, setShowUnchanged] = useState(false)
+  const [restoreTarget, setRestoreTarget] = useState<DistributionBatchDto | null>(null)
+  const [isRestoring, setIsRestoring] = useState(false)
+
+  const loadKey = `${schema.category}-${reloadToken}`
+  const isLoading = loaded.key !== loadKey
+  const batches = loaded.batches
+
+  useEffect(() => {
+    const controller = new AbortController()
+    distributionApi
+      .listBatches(schema.category, controller.signal)
+      .then((res) => setLoaded({ key: loadKey, batches: res.batches || [], error: null }))
+      .catch((e) => {
+        if (isAbortError(e)) return
+        setLoaded({ key: loadKey, batches: [], error: getErrorMessage(e, "Failed to load batch history") })
+      })
+    return () => controller.abort()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [loadKey])
+
+  // Default comparison: the previous batch against the current one
+  const current = batches.find((b) => b.isCurrent) || batches[0]
+  const previous = batches.find((b) => b !== current)
+  const fromId = pickedFrom ?? (previous ? batchId(previous) : "")
+  const toId = pickedTo ?? (current ? batchId(current) : "")
+  const diffKey = fromId && toId && fromId !== toId ? `${fromId}|${toId}` : ""
+  const isDiffLoading = !!diffKey && diffRows.key !== diffKey
+
+  useEffect(() => {
+    if (!diffKey) return
+    const controller = new AbortController()
+    Promise.all([
+      distributionApi.batchRows<C>(fromId, controller.signal),
+      distributionApi.batchRows<C>(toId, controller.signal),
+    ])
+      .then(([a, b]) =>
+        setDiffRows({
+          key: diffKey,
+          from: rowsFromSaved(schema, a.rows || []),
+          to: rowsFromSaved(schema, b.rows || []),
+          error: null,
+        })
+      )
+      .catch((e) => {
+        if (isAbortError(e)) return
+        setDiffRows({ key: diffKey, from: [], to: [], error: getErrorMessage(e, "Failed to load batch rows") })
+      })
+    return () => controller.abort()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [diffKey])
+
+  const diff = useMemo(
+    () => (diffRows.key === diffKey ? diffDistributionRows(schema, diffRows.from, diffRows.to) : []),
+    [diffRows, diffKey, schema]
+  )
+  const summary = useMemo(() => summarizeDiff(diff), [diff])
+  const visibleDiff = showUnchanged ? diff : diff.filter((d) => d.change !== "unchanged")
+
+  const headline = schema.columns.find((c) => c.key === schema.headlineKey)
+  const sumOf = (rows: DistributionTableRow[]) => rows.reduce((s, r) => s + (r.values[schema.headlineKey] || 0), 0)
+
+  const restore = async () => {
+    if (!restoreTarget) return
+    setIsRestoring(true)
+    try {
+      await distributionApi.restoreBatch(batchId(restoreTarget))
+      toast.success(`Restored batch from ${formatBatchTime(restoreTarget.createdAt)}`)
+      setRestoreTarget(null)
+      setPickedFrom(null)
+      setPickedTo(null)
+      setReloadToken((t) => t + 1)
+      onRestored()
+    } catch (e) {
+      toast.error(getErrorMessage(e, "Failed to restore batch"))
+    } finally {
+      setIsRestoring(false)
+    }
+  }
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-[1100px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="size-5" />
+            {schema.title} history
+          </DialogTitle>
+          <DialogDescription>
+            Every saved import, newest first. Compare two batches or restore an older one as the current allocation.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loaded.error ? <div className="text-sm text-red-600">{loaded.error}</div> : null}
+
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-9 w-full" />
+            <Skeleton className="h-9 w-full" />
+            <Skeleton className="h-9 w-full" />
+          </div>
+        ) : batches.length === 0 ? (
+          <div className="rounded-xl border border-dashed p-6 text-center text-sm text-muted-foreground">
+            No batches have been saved for this category yet.
+          </div>
+        ) : (
+          <div className="overflow-x-auto rounded-xl border">
+            <table className="w-full min-w-[760px] text-sm">
+              <thead className="bg-gray-50 text-left text-[11px] uppercase tracking-wider text-gray-500">
+                <tr>
+                  <th className="px-3 py-2">Uploaded</th>
+                  <th className="px-3 py-2">By</th>
+                  <th className="px-3 py-2">File</th>
+                  <th className="px-3 py-2">Sheet</th>
+                  <th className="px-3 py-2 text-right">Schools</th>
+                  <th className="px-3 py-2 text-right">{headline?.label || "Total"}</th>
+                  <th className="px-3 py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {batches.map((b) => {
+                  const id = batchId(b)
+                  const isCurrent = b === current
+                  return (
+                    <tr key={id} className={`border-t ${isCurrent ? "bg-emerald-50/60" : ""}`}>
+                      <td className="whitespace-nowrap px-3 py-2">
+                        {formatBatchTime(b.createdAt)}
+                        {isCurrent ? (
+                          <span className="ml-2 rounded-full border border-emerald-200 bg-emerald-50 px-2 py-0.5 text-[11px] font-semibold text-emerald-700">
+                            Current
+                          </span>
+                        ) : null}
+                        {b.restoredFromId ? (
+                          <span className="ml-2 text-[11px] text-muted-foreground">(restored)</span>
+                        ) : null}
+                      </td>
+                      <td className="px-3 py-2">{b.uploadedByName || "—"}</td>
+                      <td className="max-w-[220px] truncate px-3 py-2" title={b.sourceFileName}>
+                        {b.sourceFileName || "—"}
+                      </td>
+                      <td className="px-3 py-2">{b.sheetName || "—"}</td>
+                      <td className="px-3 py-2 text-right tabular-nums">{b.rowCount ?? "—"}</td>
+                      <td className="px-3 py-2 text-right tabular-nums">{b.totals?.[schema.headlineKey] ?? "—"}</td>
+                      <td className="whitespace-nowrap px-3 py-2 text-right">
+                        {!isCurrent && current ? (
+                          <div className="flex justify-end gap-1.5">
+                            <Button
+                              type="button"
+                              size="sm"
+                              variant="outline"
+                              className="rounded-xl"
+                              onClick={() => {
+                                setPickedFrom(id)
+                                setPickedTo(batchId(current))
+                              }}
+                            >
+                              Compare
+                            </Button>
+                            <Button
+                              type="button"
+                              size="sm"
+                              variant="outline"
+                              className="rounded-xl"
+                              onClick={() => setRestoreTarget(b)}
+                            >
+                              <RotateCcw className="mr-1 size-3.5" />
+                              Restore
+                            </Button>
+                          </div>
+                        ) : null}
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {batches.length > 1 ? (
+          <div className="grid gap-3">
+            <div className="flex flex-wrap items-center gap-2">
+              <Select value={fromId} onValueChange={setPickedFrom}>
+                <SelectTrigger className="h-9 w-[300px] rounded-xl">
+                  <SelectValue placeholder="Older batch" />
+                </SelectTrigger>
+                <SelectContent>
+                  {batches.map((b) => (
+                    <SelectItem key={batchId(b)} value={batchId(b)}>
+                      {batchLabel(b)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <ArrowRight className="size-4 text-muted-foreground" />
+              <Select value={toId} onValueChange={setPickedTo}>
+                <SelectTrigger className="h-9 w-[300px] rounded-xl">
+                  <SelectValue placeholder="Newer batch" />
+                </SelectTrigger>
+                <SelectContent>
+                  {batches.map((b) => (
+                    <SelectItem key={batchId(b)} value={batchId(b)}>
+                      {batchLabel(b)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <label className="ml-auto flex items-center gap-2 text-sm text-muted-foreground">
+                <Checkbox checked={showUnchanged} onCheckedChange={(v) => setShowUnchanged(v === true)} />
+                Show unchanged schools
+              </label>
+            </div>
+
+            {!diffKey ? (
+              <div className="text-sm text-muted-foreground">Pick two different batches to compare.</div>
+            ) : isDiffLoading ? (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Loader2 className="size-4 animate-spin" /> Loading batches…
+              </div>
+            ) : diffRows.error ? (
+              <div className="text-sm text-red-600">{diffRows.error}</div>
+            ) : (
+              <>
+                <div className="flex flex-wrap gap-2 text-xs">
+                  {(["added", "removed", "changed", "unchanged"] as const).map((c) => (
+                    <span key={c} className={`rounded-full border px-2.5 py-0.5 font-semibold ${diffChangeClass(c)}`}>
+                      {summary[c]} {c}
+                    </span>
+                  ))}
+                  <span className="rounded-full border px-2.5 py-0.5 font-semibold text-gray-600">
+                    {headline?.label || "Total"}: {sumOf(diffRows.from)} → {sumOf(diffRows.to)}
+                  </span>
+                </div>
+
+                <div className="max-h-[45vh] overflow-auto rounded-xl border">
+                  <table className="w-full min-w-[760px] text-sm">
+                    <thead className="sticky top-0 bg-gray-50 text-left text-[11px] uppercase tracking-wider text-gray-500">
+                      <tr>
+                        <th className="px-3 py-2">Change</th>
+                        <th className="px-3 py-2">Municipality</th>
+                        <th className="px-3 py-2">School</th>
+                        {schema.columns.map((c) => (
+                          <th key={c.key} className="px-3 py-2 text-right">
+                            {c.label}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {visibleDiff.length === 0 ? (
+                        <tr>
+                          <td colSpan={schema.columns.length + 3} className="px-3 py-6 text-center text-muted-foreground">
+                            No differences between these batches.
+                          </td>
+                        </tr>
+                      ) : (
+                        visibleDiff.map((d) => (
+                          <tr key={`${d.municipality}|${d.school}`} className="border-t">
+                            <td className="px-3 py-1.5">
+                              <span
+                                className={`rounded-full border px-2 py-0.5 text-[11px] font-semibold capitalize ${diffChangeClass(d.change)}`}
+                              >
+                                {d.change}
+                              </span>
+                            </td>
+                            <td className="px-3 py-1.5">{d.municipality}</td>
+                            <td className="max-w-[260px] truncate px-3 py-1.5">{d.school}</td>
+                            {schema.columns.map((c) => {
+                              const before = d.before?.[c.key]
+                              const after = d.after?.[c.key]
+                              const changed = d.changedKeys.includes(c.key)
+                              return (
+                                <td
+                                  key={c.key}
+                                  className={`whitespace-nowrap px-3 py-1.5 text-right tabular-nums ${changed ? "bg-amber-50 font-semibold text-amber-800" : ""}`}
+                                >
+                                  {changed ? `${before ?? 0} → ${after ?? 0}` : (after ?? before ?? "")}
+                                </td>
+                              )
+                            })}
+                          </tr>
+                        ))
+                      )}
+                    </tbody>
+                  </table>
+                </div>
+              </>
+            )}
+          </div>
+        ) : null}
+
+        <AlertDialog open={!!restoreTarget} onOpenChange={(o) => (!o && !isRestoring ? setRestoreTarget(null) : null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Restore this batch?</AlertDialogTitle>
+              <AlertDialogDescription>
+                {restoreTarget ? batchLabel(restoreTarget) : ""} becomes the current {schema.title.toLowerCase()}. The
+                batch it replaces stays in the history and can be restored again.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel disabled={isRestoring}>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                disabled={isRestoring}
+                onClick={(e) => {
+                  e.preventDefault()
+                  restore()
+                }}
+              >
+                {isRestoring ? "Restoring…" : "Restore"}
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </DialogContent>
+    </Dialog>
+  )
+}
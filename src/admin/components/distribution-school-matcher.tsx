@@ -0,0 +1,121 @@
+import { useState } from "react"
+import { Loader2, Link2 } from "lucide-react"
+import { toast } from "sonner"
+
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { getErrorMessage, schoolDirectoryApi, type SchoolAliasDto } from "@/lib/api"
+import { schoolKey } from "@/lib/attendance-compliance"
+import type { DirectorySchool, UnresolvedSchoolName } from "@/lib/school-matching"
+
+const KEEP_AS_WRITTEN = "__keep"
+
+/**
+ * Lets the admin point every school name the importer could not resolve at a
+ * directory school. Each choice is saved as an alias for future imports.
+ */
+export function DistributionSchoolMatcher({
+  unresolved,
+  schools,
+  schoolYear,
+  onAliasSaved,
+  onKeep,
+}: {
+  unresolved: UnresolvedSchoolName[]
+  schools: DirectorySchool[]
+  schoolYear: string
+  onAliasSaved: (alias: SchoolAliasDto) => void
+  onKeep: (key: string) => void
+}) {
+  const [savingKey, setSavingKey] = useState<string | null>(null)
+
+  if (unresolved.length === 0) return null
+
+  const choose = async (entry: UnresolvedSchoolName, value: string) => {
+    if (value === KEEP_AS_WRITTEN) {
+      onKeep(entry.key)
+      return
+    }
+    const target = schools.find((s) => schoolKey(s.municipality, s.schoolName) === value)
+    if (!target) return
+    setSavingKey(entry.key)
+    try {
+      const input = {
+        municipality: entry.municipality,
+        name: entry.name,
+        targetMunicipality: target.municipality,
+        targetSchoolName: target.schoolName,
+      }
+      const res = await schoolDirectoryApi.saveAlias(input)
+      onAliasSaved(res.alias || { id: entry.key, ...input })
+      toast.success(`"${entry.name}" will be read as ${target.schoolName}`)
+    } catch (e) {
+      toast.error(getErrorMessage(e, "Failed to save school alias"))
+    } finally {
+      setSavingKey(null)
+    }
+  }
+
+  return (
+    <div className="mb-3 rounded-2xl border border-red-200 bg-red-50/40 p-3 text-sm">
+      <div className="mb-2 flex items-center gap-2 font-semibold text-red-700">
+        <Link2 className="size-4" />
+        {unresolved.length} school name(s) not found in the {schoolYear} directory
+      </div>
+      <div className="grid gap-2">
+        {unresolved.map((entry) => {
+          const suggested = new Set(entry.suggestions.map((s) => schoolKey(s.municipality, s.schoolName)))
+          const others = schools
+            .filter((s) => !suggested.has(schoolKey(s.municipality, s.schoolName)))
+            .sort((a, b) => a.municipality.localeCompare(b.municipality) || a.schoolName.localeCompare(b.schoolName))
+          return (
+            <div key={entry.key} className="flex flex-wrap items-center justify-between gap-2 rounded-xl bg-white/80 px-3 py-2">
+              <div className="min-w-0">
+                <div className="truncate font-medium">{entry.name}</div>
+                <div className="text-xs text-muted-foreground">
+                  {entry.municipality} · {entry.rowCount} row(s)
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                {savingKey === entry.key ? <Loader2 className="size-4 animate-spin text-muted-foreground" /> : null}
+                <Select value="" onValueChange={(v) => choose(entry, v)} disabled={savingKey === entry.key}>
+                  <SelectTrigger className="h-9 w-[300px] rounded-xl bg-white">
+                    <SelectValue placeholder="Match to directory school…" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {entry.suggestions.length ? (
+                      <SelectGroup>
+                        <SelectLabel>Closest names</SelectLabel>
+                        {entry.suggestions.map((s) => (
+                          <SelectItem key={schoolKey(s.municipality, s.schoolName)} value={schoolKey(s.municipality, s.schoolName)}>
+                            {s.schoolName} ({s.municipality})
+                          </SelectItem>
+                        ))}
+                      </SelectGroup>
+                    ) : null}
+                    <SelectGroup>
+                      <SelectLabel>Other</SelectLabel>
+                      <SelectItem value={KEEP_AS_WRITTEN}>Keep as written (not in directory)</SelectItem>
+                      {others.map((s) => (
+                        <SelectItem key={schoolKey(s.municipality, s.schoolName)} value={schoolKey(s.municipality, s.schoolName)}>
+                          {s.schoolName} ({s.municipality})
+                        </SelectItem>
+                      ))}
+                    </SelectGroup>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,76 @@
+import { useState } from "react"
+import { Loader2, MessageSquare, Send } from "lucide-react"
+import { toast } from "sonner"
+
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import { fileSubmissionsApi, getErrorMessage, type AdminFileSubmissionRow } from "@/lib/api"
+import { formatTicketTime } from "@/lib/delivery-concerns"
+import { usePermissions } from "@/lib/permissions"
+
+/** Review notes on one submission; the coordinator sees them next to the file. */
+export function FileSubmissionComments({
+  row,
+  onSaved,
+}: {
+  row: AdminFileSubmissionRow
+  onSaved: (row: AdminFileSubmissionRow) => void
+}) {
+  const canComment = usePermissions().can("fileSubmissions", "comment")
+  const comments = row.comments || []
+  const [comment, setComment] = useState("")
+  const [isCommenting, setIsCommenting] = useState(false)
+
+  const postComment = async () => {
+    const body = comment.trim()
+    if (!body) return
+    setIsCommenting(true)
+    try {
+      const res = await fileSubmissionsApi.adminAddComment(row.id, body)
+      setComment("")
+      if (res.record) onSaved(res.record)
+    } catch (e) {
+      toast.error(getErrorMessage(e, "Failed to post comment"))
+    } finally {
+      setIsCommenting(false)
+    }
+  }
+
+  return (
+    <div className="grid gap-2">
+      <span className="inline-flex items-center gap-1 text-xs font-semibold uppercase tracking-wide text-gray-400">
+        <MessageSquare className="size-3" /> Comments ({comments.length})
+      </span>
+      {comments.map((c) => (
+        <div key={c.id} className="rounded-lg border border-gray-100 bg-gray-50 px-3 py-2 text-sm">
+          <div className="flex items-center justify-between gap-2 text-[11px] text-gray-400">
+            <span className="font-semibold text-gray-600">{c.authorName || "Unknown"}</span>
+            <span>{formatTicketTime(c.createdAt)}</span>
+          </div>
+          <p className="mt-1 whitespace-pre-wrap break-words text-gray-700">{c.body}</p>
+        </div>
+      ))}
+      {canComment ? (
+        <div className="flex items-end gap-2">
+          <Textarea
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            placeholder="Write a comment for the coordinator..."
+            className="min-h-[40px] flex-1 rounded-lg text-sm"
+          />
+          <Button
+            type="button"
+            size="icon"
+            variant="outline"
+            className="rounded-xl"
+            disabled={!comment.trim() || isCommenting}
+            onClick={postComment}
+            title="Post comment"
+          >
+            {isCommenting ? <Loader2 className="size-4 animate-spin" /> : <Send className="size-4" />}
+          </Button>
+        </div>
+      ) : null}
+    </div>
+  )
+}
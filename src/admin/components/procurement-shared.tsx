@@ -0,0 +1,316 @@
+import { useState } from "react"
+import { format } from "date-fns"
+import { Plus, Trash2 } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Textarea } from "@/components/ui/textarea"
+import type { ApprovalEntryDto, ProcurementLineDto } from "@/lib/api"
+import { BATAAN_MUNICIPALITIES } from "@/lib/municipalities"
+import {
+  emptyProcurementLine,
+  formatPeso,
+  lineAmount,
+  linesTotal,
+  PROCUREMENT_UNITS,
+  procurementStatusClass,
+} from "@/lib/procurement"
+
+export function ProcurementStatusBadge({ status }: { status: string }) {
+  return (
+    <span
+      className={`inline-flex items-center rounded-full border px-2.5 py-0.5 text-[11px] font-semibold ${procurementStatusClass(status)}`}
+    >
+      {status}
+    </span>
+  )
+}
+
+export function ProcurementLinesEditor({
+  lines,
+  onChange,
+  schoolsByMunicipality,
+  readOnly = false,
+}: {
+  lines: ProcurementLineDto[]
+  onChange: (lines: ProcurementLineDto[]) => void
+  schoolsByMunicipality: Record<string, string[]>
+  readOnly?: boolean
+}) {
+  const update = (index: number, patch: Partial<ProcurementLineDto>) =>
+    onChange(lines.map((l, i) => (i === index ? { ...l, ...patch } : l)))
+
+  return (
+    <div className="space-y-2">
+      <div className="overflow-x-auto rounded-xl border">
+        <table className="w-full min-w-[900px] text-sm">
+          <thead>
+            <tr className="border-b bg-muted/40 text-left text-xs font-semibold text-muted-foreground">
+              <th className="px-2 py-2">Description</th>
+              <th className="px-2 py-2 w-[140px]">Municipality</th>
+              <th className="px-2 py-2 w-[180px]">School</th>
+              <th className="px-2 py-2 w-[140px]">Deliver on</th>
+              <th className="px-2 py-2 w-[90px] text-right">Qty</th>
+              <th className="px-2 py-2 w-[100px]">Unit</th>
+              <th className="px-2 py-2 w-[110px] text-right">Unit cost</th>
+              <th className="px-2 py-2 w-[120px] text-right">Amount</th>
+              {!readOnly ? <th className="w-[40px]" /> : null}
+            </tr>
+          </thead>
+          <tbody>
+            {lines.length === 0 ? (
+              <tr>
+                <td colSpan={9} className="px-3 py-6 text-center text-muted-foreground">
+                  No line items yet.
+                </td>
+              </tr>
+            ) : (
+              lines.map((l, i) => (
+                <tr key={i} className="border-b last:border-b-0 align-top">
+                  <td className="px-2 py-1.5">
+                    <Input
+                      value={l.description}
+                      disabled={readOnly}
+                      onChange={(e) => update(i, { description: e.target.value })}
+                      placeholder="e.g. Well-milled rice"
+                      className="h-8"
+                    />
+                  </td>
+                  <td className="px-2 py-1.5">
+                    <Select
+                      value={l.municipality}
+                      disabled={readOnly}
+                      onValueChange={(v) => update(i, { municipality: v })}
+                    >
+                      <SelectTrigger className="h-8">
+                        <SelectValue placeholder="Select" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {BATAAN_MUNICIPALITIES.map((m) => (
+                          <SelectItem key={m} value={m}>
+                            {m}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </td>
+                  <td className="px-2 py-1.5">
+                    <Input
+                      value={l.school}
+                      disabled={readOnly}
+                      list={`procurement-schools-${i}`}
+                      onChange={(e) => update(i, { school: e.target.value })}
+                      placeholder="School"
+                      className="h-8"
+                    />
+                    <datalist id={`procurement-schools-${i}`}>
+                      {(schoolsByMunicipality[l.municipality] || []).map((s) => (
+                        <option key={s} value={s} />
+                      ))}
+                    </datalist>
+                  </td>
+                  <td className="px-2 py-1.5">
+                    <Input
+                      type="date"
+                      value={l.deliveryDate}
+                      disabled={readOnly}
+                      onChange={(e) => update(i, { deliveryDate: e.target.value })}
+                      className="h-8"
+                    />
+                  </td>
+                  <td className="px-2 py-1.5">
+                    <Input
+                      type="number"
+                      min={0}
+                      value={l.quantity || ""}
+                      disabled={readOnly}
+                      onChange={(e) => update(i, { quantity: Number(e.target.value) || 0 })}
+                      className="h-8 text-right"
+                    />
+                  </td>
+                  <td className="px-2 py-1.5">
+                    <Select value={l.unit} disabled={readOnly} onValueChange={(v) => update(i, { unit: v })}>
+                      <SelectTrigger className="h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Array.from(new Set([...PROCUREMENT_UNITS, l.unit].filter(Boolean))).map((u) => (
+                          <SelectItem key={u} value={u}>
+                            {u}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </td>
+                  <td className="px-2 py-1.5">
+                    <Input
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      value={l.unitCost || ""}
+                      disabled={readOnly}
+                      onChange={(e) => update(i, { unitCost: Number(e.target.value) || 0 })}
+                      className="h-8 text-right"
+                    />
+                  </td>
+                  <td className="px-2 py-1.5 pt-3 text-right tabular-nums">{formatPeso(lineAmount(l))}</td>
+                  {!readOnly ? (
+                    <td className="px-1 py-1.5">
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="size-8 rounded-lg"
+                        onClick={() => onChange(lines.filter((_, idx) => idx !== i))}
+                      >
+                        <Trash2 className="size-4 text-destructive" />
+                      </Button>
+                    </td>
+                  ) : null}
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex items-center justify-between">
+        {!readOnly ? (
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            className="rounded-xl"
+            onClick={() => {
+              const prev = lines[lines.length - 1]
+              // Most requests repeat the same item for many schools
+              onChange([
+                ...lines,
+                prev ? { ...emptyProcurementLine(), description: prev.description, unit: prev.unit, unitCost: prev.unitCost } : emptyProcurementLine(),
+              ])
+            }}
+          >
+            <Plus className="size-4" />
+            Add line
+          </Button>
+        ) : (
+          <span />
+        )}
+        <div className="text-sm">
+          <span className="text-muted-foreground">Total: </span>
+          <span className="font-semibold tabular-nums">{formatPeso(linesTotal(lines))}</span>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export function ApprovalTrail({ history }: { history: ApprovalEntryDto[] }) {
+  if (!history.length) return <p className="text-sm text-muted-foreground">No approval activity yet.</p>
+  return (
+    <ol className="space-y-2">
+      {history.map((h, i) => (
+        <li key={i} className="flex items-start gap-3 text-sm">
+          <ProcurementStatusBadge status={h.status} />
+          <div className="min-w-0">
+            <div className="text-gray-700">
+              <span className="font-medium capitalize">{h.action}</span>
+              {h.byName ? ` by ${h.byName}` : ""}
+              <span className="text-muted-foreground">
+                {" "}
+                • {h.at ? format(new Date(h.at), "MMM dd, yyyy h:mm a") : "—"}
+              </span>
+            </div>
+            {h.remarks ? <div className="text-muted-foreground">{h.remarks}</div> : null}
+          </div>
+        </li>
+      ))}
+    </ol>
+  )
+}
+
+export type PendingTransition = {
+  title: string
+  description: string
+  confirmLabel: string
+  requiresRemarks: boolean
+  run: (remarks: string) => Promise<void>
+}
+
+/** Confirms a workflow step and collects the remarks that go into the approval trail. */
+export function TransitionDialog({
+  pending,
+  onClose,
+}: {
+  pending: PendingTransition | null
+  onClose: () => void
+}) {
+  const [remarks, setRemarks] = useState("")
+  const [isSaving, setIsSaving] = useState(false)
+
+  const close = () => {
+    setRemarks("")
+    onClose()
+  }
+
+  const confirm = async () => {
+    if (!pending) return
+    setIsSaving(true)
+    try {
+      await pending.run(remarks.trim())
+      close()
+    } catch {
+      // The caller reports the error; keep the dialog open to retry
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={!!pending} onOpenChange={(open) => (!open ? close() : undefined)}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{pending?.title}</DialogTitle>
+          <DialogDescription>{pending?.description}</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="procurement-remarks">Remarks{pending?.requiresRemarks ? "" : " (optional)"}</Label>
+          <Textarea
+            id="procurement-remarks"
+            rows={3}
+            value={remarks}
+            onChange={(e) => setRemarks(e.target.value)}
+          />
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={close} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button
+            onClick={confirm}
+            disabled={isSaving || (!!pending?.requiresRemarks && !remarks.trim())}
+            className="bg-emerald-600 hover:bg-emerald-700"
+          >
+            {isSaving ? "Saving..." : pending?.confirmLabel}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
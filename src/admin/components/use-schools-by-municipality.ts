@@ -0,0 +1,31 @@
+import { useEffect, useState } from "react"
+
+import { schoolDirectoryApi } from "@/lib/api"
+import { schoolYearFor } from "@/lib/attendance-compliance"
+
+/** School names from the directory, grouped by municipality, for line item suggestions. */
+export function useSchoolsByMunicipality(schoolYear = schoolYearFor(new Date())) {
+  const [schools, setSchools] = useState<Record<string, string[]>>({})
+
+  useEffect(() => {
+    const controller = new AbortController()
+    schoolDirectoryApi
+      .listBeneficiaries({ schoolYear }, controller.signal)
+      .then((data) => {
+        const next: Record<string, string[]> = {}
+        for (const r of data.rows || []) {
+          const m = String(r.municipality || "").trim()
+          const s = String(r.schoolName || "").trim()
+          if (!m || !s) continue
+          next[m] = Array.from(new Set([...(next[m] || []), s])).sort((a, b) => a.localeCompare(b))
+        }
+        setSchools(next)
+      })
+      .catch(() => {
+        // Suggestions only; the school can still be typed in
+      })
+    return () => controller.abort()
+  }, [schoolYear])
+
+  return schools
+}
@@ -0,0 +1,393 @@
+import { useEffect, useMemo, useRef, useState, type ChangeEvent } from "react"
+import { format } from "date-fns"
+import * as XLSX from "xlsx"
+import { AlertTriangle, CheckCircle2, Download, FileSpreadsheet, Loader2, Upload, XCircle } from "lucide-react"
+import { toast } from "sonner"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { getErrorMessage, isAbortError, schoolDirectoryApi } from "@/lib/api"
+import { schoolYearFor } from "@/lib/attendance-compliance"
+import type { ImportIssue } from "@/lib/distribution-import"
+import { exportTablesToXlsx } from "@/lib/export"
+import { directorySchoolsFromDetails } from "@/lib/school-matching"
+import {
+  credentialsTables,
+  parseUserSheet,
+  userImportTemplate,
+  validateUserRows,
+  type ParsedUserSheet,
+  type UserImportDirectory,
+  type UserImportResult,
+} from "@/lib/user-import"
+import { type BhssUser, useUserStore } from "@/stores/user-store"
+
+const MAX_LISTED_ISSUES = 50
+
+const EMPTY_DIRECTORY: UserImportDirectory & { loaded: boolean } = {
+  loaded: false,
+  schools: [],
+  aliases: [],
+  schoolYear: "",
+  error: null,
+}
+
+function downloadCredentials(results: UserImportResult[]) {
+  const now = new Date()
+  exportTablesToXlsx(
+    `bhss-user-credentials-${format(now, "yyyy-MM-dd-HHmm")}`,
+    credentialsTables(results, format(now, "yyyy-MM-dd HH:mm"))
+  )
+}
+
+/**
+ * Creates HLA Manager and Coordinator accounts from a spreadsheet. Rows are
+ * checked against existing users and the school directory before anything is
+ * sent; each valid row is then created on its own, so one refused account
+ * does not stop the batch.
+ */
+export function UserImportDialog({ users, disabled }: { users: BhssUser[]; disabled?: boolean }) {
+  const createUsers = useUserStore((s) => s.createUsers)
+
+  const [open, setOpen] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement | null>(null)
+  const [fileName, setFileName] = useState("")
+  const [parsed, setParsed] = useState<ParsedUserSheet | null>(null)
+  const [directory, setDirectory] = useState(EMPTY_DIRECTORY)
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null)
+  const [results, setResults] = useState<UserImportResult[] | null>(null)
+
+  useEffect(() => {
+    if (!open) return
+    const controller = new AbortController()
+    const schoolYear = schoolYearFor(new Date())
+    Promise.all([
+      schoolDirectoryApi.listDetails({ schoolYear }, controller.signal),
+      schoolDirectoryApi.listAliases(controller.signal),
+    ])
+      .then(([details, aliases]) =>
+        setDirectory({
+          loaded: true,
+          schools: directorySchoolsFromDetails(details.rows || []),
+          aliases: aliases.aliases || [],
+          schoolYear,
+          error: null,
+        })
+      )
+      .catch((e) => {
+        if (isAbortError(e)) return
+        setDirectory({
+          ...EMPTY_DIRECTORY,
+          loaded: true,
+          schoolYear,
+          error: getErrorMessage(e, "Failed to load school directory"),
+        })
+      })
+    return () => controller.abort()
+  }, [open])
+
+  const validated = useMemo(() => {
+    if (!parsed || !directory.loaded) return null
+    const checked = validateUserRows(parsed.rows, users, directory)
+    const issues = [...parsed.issues, ...checked.issues].sort((a, b) => a.row - b.row)
+    const rowSeverity = new Map<number, ImportIssue["severity"]>()
+    for (const i of issues) {
+      if (i.severity === "error" || !rowSeverity.has(i.row)) rowSeverity.set(i.row, i.severity)
+    }
+    return { rows: checked.rows, issues, rowSeverity }
+  }, [parsed, directory, users])
+
+  const sheetError = validated?.issues.some((i) => i.row === 0 && i.severity === "error") ?? false
+  const validRows = validated && !sheetError ? validated.rows.filter((r) => validated.rowSeverity.get(r.sourceRow) !== "error") : []
+  const errorCount = validated?.issues.filter((i) => i.severity === "error").length ?? 0
+  const warningCount = validated?.issues.filter((i) => i.severity === "warning").length ?? 0
+  const isImporting = progress !== null && results === null
+
+  const reset = () => {
+    setFileName("")
+    setParsed(null)
+    setProgress(null)
+    setResults(null)
+  }
+
+  const onOpenChange = (next: boolean) => {
+    if (isImporting) return
+    setOpen(next)
+    if (!next) {
+      reset()
+      setDirectory(EMPTY_DIRECTORY)
+    }
+  }
+
+  const onFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const f = e.target.files?.[0]
+    e.target.value = ""
+    if (!f) return
+    reset()
+    setFileName(f.name)
+    try {
+      const wb = XLSX.read(await f.arrayBuffer(), { type: "array" })
+      setParsed(parseUserSheet(wb))
+    } catch (err) {
+      toast.error(getErrorMessage(err, "Failed to read the spreadsheet"))
+    }
+  }
+
+  const onImport = async () => {
+    if (!validated || validRows.length === 0) return
+    setProgress({ done: 0, total: validRows.length })
+    const created = await createUsers(
+      validRows.map((r) => r.input),
+      (done, total) => setProgress({ done, total })
+    )
+    const byRow = new Map(validRows.map((r, i) => [r.id, created[i]]))
+    const next: UserImportResult[] = validated.rows.map((row) => {
+      const res = byRow.get(row.id)
+      if (!res) {
+        const reasons = validated.issues
+          .filter((i) => i.row === row.sourceRow && i.severity === "error")
+          .map((i) => i.message)
+        return { row, status: "skipped", message: reasons.join("; ") }
+      }
+      return res.error ? { row, status: "failed", message: res.error } : { row, status: "created" }
+    })
+    setResults(next)
+
+    const createdCount = next.filter((r) => r.status === "created").length
+    if (createdCount) {
+      downloadCredentials(next)
+      toast.success(`${createdCount} account(s) created; credentials downloaded`)
+    }
+    if (createdCount < next.length) toast.error(`${next.length - createdCount} row(s) were not created`)
+  }
+
+  const resultCounts = results
+    ? {
+        created: results.filter((r) => r.status === "created").length,
+        failed: results.filter((r) => r.status === "failed").length,
+        skipped: results.filter((r) => r.status === "skipped").length,
+      }
+    : null
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2" disabled={disabled}>
+          <Upload className="size-4" />
+          Import Users
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>Import User Accounts</DialogTitle>
+          <DialogDescription>
+            Upload an Excel or CSV file with one account per row. Blank passwords are generated, and a credentials
+            sheet is downloaded once the accounts are created.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".xlsx,.xls,.csv"
+            className="hidden"
+            onChange={onFileChange}
+          />
+          <Button
+            type="button"
+            variant="outline"
+            className="rounded-xl"
+            disabled={isImporting}
+            onClick={() => fileInputRef.current?.click()}
+          >
+            <FileSpreadsheet className="mr-1 size-4 text-green-600" />
+            {fileName ? "Choose another file" : "Choose file"}
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            className="rounded-xl"
+            onClick={() => exportTablesToXlsx("bhss-user-import-template", [userImportTemplate()])}
+          >
+            <Download className="mr-1 size-4" />
+            Template
+          </Button>
+          {fileName ? <span className="truncate text-sm text-muted-foreground">{fileName}</span> : null}
+        </div>
+
+        {parsed && !directory.loaded ? (
+          <div className="flex items-center gap-2 py-6 text-sm text-muted-foreground">
+            <Loader2 className="size-4 animate-spin" />
+            Loading the school directory...
+          </div>
+        ) : null}
+
+        {validated && !results ? (
+          <div className="grid gap-3">
+            <div className="rounded-2xl border bg-muted/30 p-3 text-sm">
+              <div className="flex flex-wrap items-center gap-3">
+                <span className="font-semibold">{validated.rows.length} row(s) read</span>
+                <span className="text-emerald-700">{validRows.length} ready</span>
+                {errorCount ? <span className="text-red-600">{errorCount} error(s)</span> : null}
+                {warningCount ? <span className="text-amber-700">{warningCount} warning(s)</span> : null}
+              </div>
+              {validated.issues.length ? (
+                <ul className="mt-2 max-h-[140px] space-y-1 overflow-auto text-xs">
+                  {validated.issues.slice(0, MAX_LISTED_ISSUES).map((i, idx) => (
+                    <li key={idx} className="flex items-start gap-1.5">
+                      {i.severity === "error" ? (
+                        <XCircle className="mt-0.5 size-3.5 shrink-0 text-red-600" />
+                      ) : (
+                        <AlertTriangle className="mt-0.5 size-3.5 shrink-0 text-amber-600" />
+                      )}
+                      <span>
+                        {i.row ? <span className="font-semibold">Row {i.row}</span> : <span className="font-semibold">Sheet</span>}
+                        {i.column ? ` · ${i.column}` : ""}: {i.message}
+                      </span>
+                    </li>
+                  ))}
+                  {validated.issues.length > MAX_LISTED_ISSUES ? (
+                    <li className="text-muted-foreground">…and {validated.issues.length - MAX_LISTED_ISSUES} more</li>
+                  ) : null}
+                </ul>
+              ) : null}
+            </div>
+
+            <div className="max-h-[320px] overflow-auto rounded-xl border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-[60px]">Row</TableHead>
+                    <TableHead>Username</TableHead>
+                    <TableHead>Name</TableHead>
+                    <TableHead>HLA Role</TableHead>
+                    <TableHead>Municipality</TableHead>
+                    <TableHead>School</TableHead>
+                    <TableHead>Password</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {validated.rows.map((r) => {
+                    const severity = validated.rowSeverity.get(r.sourceRow)
+                    return (
+                      <TableRow
+                        key={r.id}
+                        className={severity === "error" ? "bg-red-50" : severity === "warning" ? "bg-amber-50/70" : undefined}
+                      >
+                        <TableCell className="tabular-nums text-muted-foreground">{r.sourceRow}</TableCell>
+                        <TableCell className="font-medium">{r.input.username}</TableCell>
+                        <TableCell>{r.input.name}</TableCell>
+                        <TableCell>{r.input.hlaRoleType}</TableCell>
+                        <TableCell>{r.input.municipality}</TableCell>
+                        <TableCell className="max-w-[240px] truncate" title={r.input.school}>
+                          {r.input.school}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="outline" className="rounded-full font-normal">
+                            {r.generatedPassword ? "Generated" : "From sheet"}
+                          </Badge>
+                        </TableCell>
+                      </TableRow>
+                    )
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        ) : null}
+
+        {results && resultCounts ? (
+          <div className="grid gap-3">
+            <div className="flex flex-wrap items-center gap-3 rounded-2xl border bg-muted/30 p-3 text-sm">
+              <span className="flex items-center gap-1.5 font-semibold text-emerald-700">
+                <CheckCircle2 className="size-4" />
+                {resultCounts.created} created
+              </span>
+              {resultCounts.failed ? <span className="text-red-600">{resultCounts.failed} refused by the server</span> : null}
+              {resultCounts.skipped ? <span className="text-amber-700">{resultCounts.skipped} skipped with errors</span> : null}
+            </div>
+            {resultCounts.failed + resultCounts.skipped ? (
+              <div className="max-h-[320px] overflow-auto rounded-xl border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-[60px]">Row</TableHead>
+                      <TableHead>Username</TableHead>
+                      <TableHead>School</TableHead>
+                      <TableHead>Reason</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {results
+                      .filter((r) => r.status !== "created")
+                      .map((r) => (
+                        <TableRow key={r.row.id}>
+                          <TableCell className="tabular-nums text-muted-foreground">{r.row.sourceRow}</TableCell>
+                          <TableCell className="font-medium">{r.row.input.username}</TableCell>
+                          <TableCell>{r.row.input.school}</TableCell>
+                          <TableCell className={r.status === "failed" ? "text-red-600" : "text-amber-700"}>
+                            {r.message}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                  </TableBody>
+                </Table>
+              </div>
+            ) : null}
+          </div>
+        ) : null}
+
+        <DialogFooter>
+          {results ? (
+            <>
+              {resultCounts?.created ? (
+                <Button type="button" variant="outline" onClick={() => downloadCredentials(results)}>
+                  <Download className="mr-1 size-4" />
+                  Download credentials again
+                </Button>
+              ) : null}
+              <Button type="button" onClick={() => onOpenChange(false)}>
+                Done
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button type="button" variant="outline" disabled={isImporting} onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button
+                type="button"
+                className="bg-emerald-600 text-white hover:bg-emerald-700"
+                disabled={isImporting || validRows.length === 0}
+                onClick={onImport}
+              >
+                {isImporting ? <Loader2 className="mr-1 size-4 animate-spin" /> : null}
+                {isImporting && progress
+                  ? `Creating ${progress.done} / ${progress.total}...`
+                  : `Create ${validRows.length} account(s)`}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
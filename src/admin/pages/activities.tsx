@@ -29,71 +29,29 @@ import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Textarea } from "@/components/ui/textarea"
+import {
+    activitiesApi,
+    resolveApiUrl,
+    UNIT_OPTIONS,
+    type Activity,
+    type ActivityField,
+    type ActivityFieldInputType,
+    type AdminActivityResponseRow,
+} from "@/lib/api"
+import { useMunicipalityParam, usePermissions } from "@/lib/permissions"
+import { useSearchParam } from "@/lib/router"
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
-type FieldInputType = "text" | "textarea" | "number" | "date"
-
-type ActivityField = {
-    id: string
-    type: FieldInputType
-    label: string
-    description: string
-    required: boolean
-    photoUrl: string
-    unit: string
-    placeholder: string
-}
-
-type Activity = {
-    id: string
-    title: string
-    description: string
-    isActive: boolean
-    fields: ActivityField[]
-    createdAt: string
-    updatedAt: string
-}
-
-type ResponseUser = { name: string; school: string; municipality: string; hlaRoleType: string }
-type ActivityResponseRow = {
-    id: string; activityId: string; userId: string; user: ResponseUser
-    answers: Array<{ fieldId: string; value: string }>; submittedAt: string
-}
+type FieldInputType = ActivityFieldInputType
+type ActivityResponseRow = AdminActivityResponseRow
 
 // ─── Constants ────────────────────────────────────────────────────────────────
 
-const UNIT_OPTIONS = ["PCS", "Unit", "Box", "Set", "Bag", "Bottle", "Pack", "Kg", "Liter", "Meter", "Roll", "Ream", "Pair", "Dozen"]
 const INPUT_TYPE_LABELS: Record<FieldInputType, string> = { text: "Short Text", textarea: "Long Text", number: "Number", date: "Date" }
 
 // ─── Helpers ──────────────────────────────────────────────────────────────────
 
-function getApiBaseUrl() {
-    const e = (import.meta as any)?.env as any
-    return ((e?.VITE_API_BASE_URL || e?.VITE_API_URL) as string || "http://localhost:8000").replace(/\/+$/, "")
-}
-function getAuthToken(): string | null {
-    try { const raw = localStorage.getItem("bhss_auth"); if (!raw) return null; return (JSON.parse(raw) as any)?.token || null }
-    catch { return null }
-}
-async function apiFetch(path: string, init?: RequestInit) {
-    const token = getAuthToken()
-    if (!token) throw new Error("Not authenticated")
-    const res = await fetch(`${getApiBaseUrl()}${path}`, {
-        ...init, headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}`, ...(init?.headers || {}) },
-    })
-    const data = await res.json().catch(() => ({}))
-    if (!res.ok) throw new Error((data as any)?.message || "Request failed")
-    return data
-}
-async function apiMultipart(path: string, body: FormData) {
-    const token = getAuthToken()
-    if (!token) throw new Error("Not authenticated")
-    const res = await fetch(`${getApiBaseUrl()}${path}`, { method: "POST", headers: { Authorization: `Bearer ${token}` }, body })
-    const data = await res.json().catch(() => ({}))
-    if (!res.ok) throw new Error((data as any)?.message || "Request failed")
-    return data
-}
 function uuid() { return Math.random().toString(36).slice(2, 10) + Date.now().toString(36) }
 
 // ─── Question Editor (inline, inside activity detail) ─────────────────────────
@@ -114,8 +72,7 @@ function QuestionEditor({
     const handlePhotoUpload = useCallback(async (file: File) => {
         setIsUploading(true)
         try {
-            const fd = new FormData(); fd.append("photo", file)
-            const data = await apiMultipart("/api/admin/activities/upload-photo", fd)
+            const data = await activitiesApi.uploadPhoto(file)
             onUpdate({ ...field, photoUrl: String(data.url || "") })
             toast.success("Photo uploaded")
         } catch (e: any) { toast.error(e?.message || "Upload failed") }
@@ -270,7 +227,7 @@ function QuestionEditor({
                         </Label>
                         {field.photoUrl ? (
                             <div className="relative w-full rounded-lg overflow-hidden border border-gray-100 shadow-sm">
-                                <img src={`${getApiBaseUrl()}${field.photoUrl}`} alt="" className="w-full object-cover max-h-32" />
+                                <img src={resolveApiUrl(field.photoUrl)} alt="" className="w-full object-cover max-h-32" />
                                 <button type="button" onClick={() => onUpdate({ ...field, photoUrl: "" })}
                                     className="absolute top-1 right-1 rounded-full bg-white/90 p-1 shadow hover:text-red-500 transition-colors">
                                     <X className="size-3" />
@@ -334,9 +291,13 @@ function QuestionEditor({
 // ─── Responses Panel ───────────────────────────────────────────────────────────
 
 function ResponsesPanel({ activity }: { activity: Activity }) {
+    const permissions = usePermissions()
+    const { municipality: scopedMunicipality, locked: isMunicipalityLocked } = useMunicipalityParam()
     const [responses, setResponses] = useState<ActivityResponseRow[]>([])
     const [isLoading, setIsLoading] = useState(false)
-    const [selectedMunicipality, setSelectedMunicipality] = useState("all")
+    const [pickedMunicipality, setSelectedMunicipality] = useState("all")
+    // Municipality-scoped roles only ever see their own town
+    const selectedMunicipality = isMunicipalityLocked ? scopedMunicipality || "" : pickedMunicipality
     const [selectedSchool, setSelectedSchool] = useState("all")
     const [search, setSearch] = useState("")
     const [expandedId, setExpandedId] = useState<string | null>(null)
@@ -344,22 +305,24 @@ function ResponsesPanel({ activity }: { activity: Activity }) {
     const load = useCallback(async () => {
         setIsLoading(true)
         try {
-            const qs = new URLSearchParams()
-            if (selectedMunicipality !== "all") qs.set("municipality", selectedMunicipality)
-            if (selectedSchool !== "all") qs.set("school", selectedSchool)
-            if (search.trim()) qs.set("search", search.trim())
-            const data = await apiFetch(`/api/admin/activities/${activity.id}/responses?${qs}`)
-            setResponses(Array.isArray(data.responses) ? data.responses : [])
+            const data = await activitiesApi.responses(activity.id, {
+                municipality: selectedMunicipality !== "all" ? selectedMunicipality : undefined,
+                school: selectedSchool !== "all" ? selectedSchool : undefined,
+                search: search.trim(),
+            })
+            const rows = Array.isArray(data.responses) ? data.responses : []
+            setResponses(rows.filter((r) => permissions.inScope(r.user.municipality, r.user.school)))
         } catch (e: any) { toast.error(e?.message || "Failed to load responses") }
         finally { setIsLoading(false) }
-    }, [activity.id, selectedMunicipality, selectedSchool, search])
+    }, [activity.id, selectedMunicipality, selectedSchool, search, permissions])
 
     useEffect(() => { const t = setTimeout(load, 300); return () => clearTimeout(t) }, [load])
 
     const municipalityOptions = useMemo(() => {
+        if (isMunicipalityLocked) return [selectedMunicipality]
         const set = new Set<string>(); for (const r of responses) if (r.user.municipality) set.add(r.user.municipality)
         return Array.from(set).sort()
-    }, [responses])
+    }, [responses, isMunicipalityLocked, selectedMunicipality])
 
     const schoolOptions = useMemo(() => {
         const set = new Set<string>()
@@ -396,12 +359,12 @@ function ResponsesPanel({ activity }: { activity: Activity }) {
                     />
                 </div>
                 <div className="h-4 w-px bg-gray-100 mx-1 hidden sm:block" />
-                <Select value={selectedMunicipality} onValueChange={(v) => { setSelectedMunicipality(v); setSelectedSchool("all") }}>
+                <Select value={selectedMunicipality} onValueChange={(v) => { setSelectedMunicipality(v); setSelectedSchool("all") }} disabled={isMunicipalityLocked}>
                     <SelectTrigger className="h-8 w-44 rounded-lg border-none bg-gray-50/50 hover:bg-gray-50 text-[11px] font-semibold uppercase tracking-wider text-gray-500 shadow-none ring-0 focus:ring-0">
                         <div className="flex items-center gap-2"><MapPin className="size-3 text-violet-500" /><SelectValue placeholder="Municipality" /></div>
                     </SelectTrigger>
                     <SelectContent className="rounded-xl border-gray-100 shadow-xl">
-                        <SelectItem value="all">All Municipalities</SelectItem>
+                        {isMunicipalityLocked ? null : <SelectItem value="all">All Municipalities</SelectItem>}
                         {municipalityOptions.map((m) => <SelectItem key={m} value={m}>{m}</SelectItem>)}
                     </SelectContent>
                 </Select>
@@ -496,7 +459,7 @@ function ResponsesPanel({ activity }: { activity: Activity }) {
                                                                             {field.photoUrl && (
                                                                                 <div className="size-10 shrink-0 rounded-lg overflow-hidden border border-gray-100 bg-gray-50">
                                                                                     <img
-                                                                                        src={`${getApiBaseUrl()}${field.photoUrl}`}
+                                                                                        src={resolveApiUrl(field.photoUrl)}
                                                                                         className="h-full w-full object-cover"
                                                                                         alt=""
                                                                                     />
@@ -534,6 +497,7 @@ function ActivityDetailView({
     onBack: () => void
     onUpdated: (a: Activity) => void
 }) {
+    const canEdit = usePermissions().can("activities", "edit")
     const [activity, setActivity] = useState(initialActivity)
     const [fields, setFields] = useState<ActivityField[]>(initialActivity.fields)
     const [isSaving, setIsSaving] = useState(false)
@@ -576,10 +540,7 @@ function ActivityDetailView({
     const saveQuestions = async () => {
         setIsSaving(true)
         try {
-            const data = await apiFetch(`/api/admin/activities/${activity.id}`, {
-                method: "PUT",
-                body: JSON.stringify({ fields }),
-            })
+            const data = await activitiesApi.update(activity.id, { fields })
             setActivity(data.activity)
             setFields(data.activity.fields)
             onUpdated(data.activity)
@@ -590,10 +551,7 @@ function ActivityDetailView({
 
     const saveInfo = async () => {
         try {
-            const data = await apiFetch(`/api/admin/activities/${activity.id}`, {
-                method: "PUT",
-                body: JSON.stringify({ title: editTitle, description: editDesc }),
-            })
+            const data = await activitiesApi.update(activity.id, { title: editTitle, description: editDesc })
             setActivity(data.activity)
             onUpdated(data.activity)
             setIsEditing(false)
@@ -603,10 +561,7 @@ function ActivityDetailView({
 
     const toggleActive = async () => {
         try {
-            const data = await apiFetch(`/api/admin/activities/${activity.id}`, {
-                method: "PUT",
-                body: JSON.stringify({ isActive: !activity.isActive }),
-            })
+            const data = await activitiesApi.update(activity.id, { isActive: !activity.isActive })
             setActivity(data.activity)
             onUpdated(data.activity)
             toast.success(data.activity.isActive ? "Activity activated" : "Activity deactivated")
@@ -631,7 +586,7 @@ function ActivityDetailView({
                     </div>
                 </div>
 
-                <div className="flex items-center gap-2">
+                <div className={canEdit ? "flex items-center gap-2" : "hidden"}>
                     <button type="button" onClick={() => setIsEditing(true)}
                         className="inline-flex items-center gap-1.5 rounded-xl border border-gray-200 bg-white px-3 py-1.5 text-xs font-semibold text-gray-600 hover:border-gray-300 transition-all">
                         <Pencil className="size-3.5" /> Edit Info
@@ -698,7 +653,7 @@ function ActivityDetailView({
                     )}
 
                     {/* Add question (minimal horizontal bar) */}
-                    <div className="flex items-center gap-3 py-2 px-1">
+                    <div className={canEdit ? "flex items-center gap-3 py-2 px-1" : "hidden"}>
                         <div className="h-px flex-1 bg-gray-100" />
                         <div className="flex items-center gap-1.5">
                             {Object.entries(INPUT_TYPE_LABELS).map(([type, label]) => (
@@ -718,7 +673,7 @@ function ActivityDetailView({
                                 <AlertTriangle className="size-4 shrink-0" />
                                 <span className="text-sm font-medium">You have unsaved changes to your questions.</span>
                             </div>
-                            <Button type="button" onClick={saveQuestions} disabled={isSaving}
+                            <Button type="button" onClick={saveQuestions} disabled={!canEdit || isSaving}
                                 className="rounded-xl bg-violet-600 hover:bg-violet-700 text-white shadow-sm h-8 px-4 text-xs">
                                 {isSaving ? "Saving…" : "Save Questions"}
                             </Button>
@@ -766,9 +721,13 @@ function ActivityDetailView({
 // ─── Main Admin Activities Page ───────────────────────────────────────────────
 
 export function AdminActivities() {
+    const canCreate = usePermissions().can("activities", "create")
     const [activities, setActivities] = useState<Activity[]>([])
     const [isLoading, setIsLoading] = useState(false)
-    const [selectedActivity, setSelectedActivity] = useState<Activity | null>(null)
+    // The open activity lives in the URL (?id=…) so it survives refreshes and back/forward
+    const [activityIdParam, setActivityIdParam] = useSearchParam("id")
+    const selectedActivity = activities.find((a) => a.id === activityIdParam) ?? null
+    const setSelectedActivity = (a: Activity | null) => setActivityIdParam(a?.id ?? null, { replace: false })
 
     // Create activity dialog state
     const [createOpen, setCreateOpen] = useState(false)
@@ -782,7 +741,7 @@ export function AdminActivities() {
     const load = useCallback(async () => {
         setIsLoading(true)
         try {
-            const data = await apiFetch("/api/admin/activities")
+            const data = await activitiesApi.adminList()
             setActivities(Array.isArray(data.activities) ? data.activities : [])
         } catch (e: any) { toast.error(e?.message || "Failed to load activities") }
         finally { setIsLoading(false) }
@@ -794,10 +753,7 @@ export function AdminActivities() {
         if (!newTitle.trim()) { toast.error("Activity name is required"); return }
         setIsCreating(true)
         try {
-            const data = await apiFetch("/api/admin/activities", {
-                method: "POST",
-                body: JSON.stringify({ title: newTitle.trim(), description: newDesc.trim(), fields: [] }),
-            })
+            const data = await activitiesApi.create({ title: newTitle.trim(), description: newDesc.trim(), fields: [] })
             setActivities((prev) => [data.activity, ...prev])
             setCreateOpen(false)
             setNewTitle(""); setNewDesc("")
@@ -810,7 +766,7 @@ export function AdminActivities() {
 
     const handleDelete = async (id: string) => {
         try {
-            await apiFetch(`/api/admin/activities/${id}`, { method: "DELETE" })
+            await activitiesApi.remove(id)
             setActivities((prev) => prev.filter((a) => a.id !== id))
             if (selectedActivity?.id === id) setSelectedActivity(null)
             toast.success("Activity deleted")
@@ -821,9 +777,7 @@ export function AdminActivities() {
     const handleToggleActive = async (a: Activity, e: React.MouseEvent) => {
         e.stopPropagation()
         try {
-            const data = await apiFetch(`/api/admin/activities/${a.id}`, {
-                method: "PUT", body: JSON.stringify({ isActive: !a.isActive }),
-            })
+            const data = await activitiesApi.update(a.id, { isActive: !a.isActive })
             setActivities((prev) => prev.map((x) => (x.id === a.id ? data.activity : x)))
             toast.success(data.activity.isActive ? "Activated" : "Deactivated")
         } catch (e: any) { toast.error(e?.message || "Toggle failed") }
@@ -833,10 +787,10 @@ export function AdminActivities() {
     if (selectedActivity) {
         return (
             <ActivityDetailView
+                key={selectedActivity.id}
                 activity={selectedActivity}
                 onBack={() => setSelectedActivity(null)}
                 onUpdated={(updated) => {
-                    setSelectedActivity(updated)
                     setActivities((prev) => prev.map((a) => (a.id === updated.id ? updated : a)))
                 }}
             />
@@ -857,7 +811,7 @@ export function AdminActivities() {
                         <p className="text-sm text-muted-foreground">Create activities and add questions for users to answer.</p>
                     </div>
                 </div>
-                <Button type="button" onClick={() => setCreateOpen(true)}
+                <Button type="button" onClick={() => setCreateOpen(true)} disabled={!canCreate}
                     className="rounded-xl bg-violet-600 hover:bg-violet-700 text-white shadow-sm">
                     <Plus className="mr-2 size-4" />New Activity
                 </Button>
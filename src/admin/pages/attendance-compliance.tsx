@@ -0,0 +1,364 @@
+import { useEffect, useMemo, useState } from "react"
+import { format } from "date-fns"
+import { BellRing, CheckCircle2, CircleDashed, Flame, Loader2, XCircle } from "lucide-react"
+import { toast } from "sonner"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import {
+  attendanceApi,
+  getErrorMessage,
+  isAbortError,
+  usersApi,
+  type AttendanceRecordDto,
+  type BhssUser,
+  type SchoolBeneficiaryRow,
+} from "@/lib/api"
+import {
+  buildCompliance,
+  expectedSchoolsFromBeneficiaries,
+  reminderRecipients,
+  schoolDays,
+  schoolKey,
+  type ComplianceStatus,
+  type SchoolCompliance,
+} from "@/lib/attendance-compliance"
+import { usePermissions } from "@/lib/permissions"
+import { links } from "@/lib/routes"
+
+/** School days looked back over when counting streaks. */
+const STREAK_LOOKBACK_DAYS = 20
+
+const STATUS_META: Record<ComplianceStatus, { label: string; className: string; rank: number }> = {
+  missing: { label: "Missing", className: "bg-rose-50 text-rose-700 border-rose-200", rank: 0 },
+  partial: { label: "Partial", className: "bg-amber-50 text-amber-700 border-amber-200", rank: 1 },
+  complete: { label: "Complete", className: "bg-emerald-50 text-emerald-700 border-emerald-200", rank: 2 },
+}
+
+const cardClass =
+  "relative overflow-hidden rounded-2xl border border-black/5 bg-white/60 [@supports(backdrop-filter:blur(0))]:backdrop-blur-xl shadow-[inset_0_1px_0_rgba(255,255,255,0.7),0_6px_18px_rgba(0,0,0,0.06)]"
+
+export function AttendanceCompliance({
+  dayKey,
+  directoryRows,
+  isDirectoryLoading,
+  selectedMunicipality,
+  selectedSchool,
+  search,
+}: {
+  dayKey: string
+  directoryRows: SchoolBeneficiaryRow[]
+  isDirectoryLoading: boolean
+  selectedMunicipality: string
+  selectedSchool: string
+  search: string
+}) {
+  const permissions = usePermissions()
+  // Recipients come from the account list, which not every role may read
+  const canListUsers = permissions.can("users")
+  const canRemind = canListUsers && permissions.can("attendance", "edit")
+  const columnCount = 6 + (canListUsers ? 1 : 0) + (canRemind ? 1 : 0)
+  const [statusFilter, setStatusFilter] = useState<"all" | ComplianceStatus>("all")
+  const [users, setUsers] = useState<BhssUser[]>([])
+  const [remindedKeys, setRemindedKeys] = useState<Set<string>>(() => new Set())
+  const [remindingKey, setRemindingKey] = useState<string | null>(null)
+
+  const days = useMemo(() => schoolDays(dayKey, STREAK_LOOKBACK_DAYS), [dayKey])
+  const fromKey = days[days.length - 1] || dayKey
+
+  // Loading is derived from which day range the records belong to
+  const rangeKey = `${fromKey}|${dayKey}`
+  const [loaded, setLoaded] = useState<{ key: string; records: AttendanceRecordDto[] }>({ key: "", records: [] })
+  const isLoading = loaded.key !== rangeKey || isDirectoryLoading
+
+  useEffect(() => {
+    const controller = new AbortController()
+    attendanceApi
+      .adminHistory({ from: fromKey, to: dayKey, sort: "newest" }, controller.signal)
+      .then((data) => setLoaded({ key: rangeKey, records: data.records || [] }))
+      .catch((e) => {
+        if (isAbortError(e)) return
+        toast.error(getErrorMessage(e, "Failed to load attendance"))
+        setLoaded({ key: rangeKey, records: [] })
+      })
+    return () => controller.abort()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [rangeKey])
+
+  useEffect(() => {
+    if (!canListUsers) return
+    const controller = new AbortController()
+    usersApi
+      .list(controller.signal)
+      .then((data) => setUsers(Array.isArray(data.users) ? data.users : []))
+      .catch((e) => {
+        if (!isAbortError(e)) toast.error(getErrorMessage(e, "Failed to load accounts"))
+      })
+    return () => controller.abort()
+  }, [canListUsers])
+
+  // Live submissions move schools out of "missing" without a reload
+  useEffect(() => {
+    const handler = (ev: Event) => {
+      const detail = (ev as CustomEvent<{ record?: AttendanceRecordDto; user?: { municipality?: string; school?: string } }>)
+        .detail
+      const record = detail?.record
+      if (!record || record.dateKey !== dayKey) return
+      const next: AttendanceRecordDto = {
+        ...record,
+        municipality: detail.user?.municipality || record.municipality,
+        school: detail.user?.school || record.school,
+      }
+      setLoaded((prev) => (prev.key === rangeKey ? { ...prev, records: [next, ...prev.records] } : prev))
+    }
+    window.addEventListener("attendance:saved", handler)
+    return () => window.removeEventListener("attendance:saved", handler)
+  }, [dayKey, rangeKey])
+
+  const expected = useMemo(() => expectedSchoolsFromBeneficiaries(directoryRows), [directoryRows])
+
+  const compliance = useMemo(
+    () => buildCompliance(expected, isLoading ? [] : loaded.records, days),
+    [days, expected, isLoading, loaded.records]
+  )
+
+  const scoped = useMemo(() => {
+    const q = search.trim().toLowerCase()
+    return compliance.schools.filter((s) => {
+      if (selectedMunicipality !== "All" && s.municipality !== selectedMunicipality) return false
+      if (selectedSchool !== "All" && s.school !== selectedSchool) return false
+      if (q && !`${s.school} ${s.municipality}`.toLowerCase().includes(q)) return false
+      return true
+    })
+  }, [compliance.schools, search, selectedMunicipality, selectedSchool])
+
+  const counts = useMemo(() => {
+    const c = { complete: 0, partial: 0, missing: 0 }
+    for (const s of scoped) c[s.status] += 1
+    return c
+  }, [scoped])
+
+  const rows = useMemo(() => {
+    return scoped
+      .filter((s) => statusFilter === "all" || s.status === statusFilter)
+      .sort(
+        (a, b) =>
+          STATUS_META[a.status].rank - STATUS_META[b.status].rank ||
+          b.missingStreak - a.missingStreak ||
+          a.municipality.localeCompare(b.municipality) ||
+          a.school.localeCompare(b.school)
+      )
+  }, [scoped, statusFilter])
+
+  const rate = scoped.length ? Math.round((counts.complete / scoped.length) * 100) : 0
+
+  const sendReminder = async (s: SchoolCompliance, recipients: BhssUser[]) => {
+    if (!canRemind) return
+    const key = schoolKey(s.municipality, s.school)
+    setRemindingKey(key)
+    try {
+      await attendanceApi.sendReminder({
+        userIds: recipients.map((u) => u.id),
+        dateKey: dayKey,
+        municipality: s.municipality,
+        school: s.school,
+        missingGrades: s.missingGrades,
+        url: links.attendance(dayKey),
+      })
+      setRemindedKeys((prev) => new Set(prev).add(`${dayKey}|${key}`))
+      toast.success(`Reminder sent to ${recipients.map((u) => u.name || u.username).join(", ")}`)
+    } catch (e) {
+      toast.error(getErrorMessage(e, "Failed to send reminder"))
+    } finally {
+      setRemindingKey(null)
+    }
+  }
+
+  const summaryCards = [
+    { label: "Complete", value: counts.complete, note: "All grades submitted", Icon: CheckCircle2, color: "text-emerald-600" },
+    { label: "Partial", value: counts.partial, note: "Some grades only", Icon: CircleDashed, color: "text-amber-600" },
+    { label: "Missing", value: counts.missing, note: "Nothing submitted", Icon: XCircle, color: "text-rose-600" },
+    { label: "Compliance", value: `${rate}%`, note: `${scoped.length} schools in directory`, Icon: Flame, color: "text-neutral-700" },
+  ]
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+        {summaryCards.map(({ label, value, note, Icon, color }) => (
+          <Card key={label} className={cardClass}>
+            <CardHeader className="flex flex-row items-start justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium text-neutral-500">{label}</CardTitle>
+              <div className="rounded-2xl border border-black/5 bg-white/70 p-2 shadow-sm">
+                <Icon className={`size-5 ${color}`} />
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="text-3xl font-bold tracking-tight text-neutral-900">{isLoading ? "—" : value}</div>
+              <div className="mt-2 text-xs text-neutral-500">{note}</div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between gap-3 space-y-0">
+          <div>
+            <CardTitle className="text-base">Submission Compliance</CardTitle>
+            <p className="text-xs text-muted-foreground">
+              {format(new Date(`${dayKey}T00:00:00`), "EEEE, MMM d, yyyy")} • streaks over the last{" "}
+              {STREAK_LOOKBACK_DAYS} school days
+              {compliance.unmatchedCount
+                ? ` • ${compliance.unmatchedCount} submitting school(s) are not in the directory`
+                : ""}
+            </p>
+          </div>
+          <Select value={statusFilter} onValueChange={(v) => setStatusFilter(v as "all" | ComplianceStatus)}>
+            <SelectTrigger className="h-8 w-[150px] text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All statuses</SelectItem>
+              <SelectItem value="missing">Missing</SelectItem>
+              <SelectItem value="partial">Partial</SelectItem>
+              <SelectItem value="complete">Complete</SelectItem>
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent className="pt-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Municipality</TableHead>
+                <TableHead>School</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Grades</TableHead>
+                <TableHead>Streak</TableHead>
+                <TableHead>Last submitted</TableHead>
+                {canListUsers ? <TableHead>HLA Manager</TableHead> : null}
+                {canRemind ? <TableHead className="text-right">Reminder</TableHead> : null}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={columnCount} className="py-10 text-center text-muted-foreground">
+                    <Loader2 className="mr-2 inline size-4 animate-spin" />
+                    Loading...
+                  </TableCell>
+                </TableRow>
+              ) : rows.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={columnCount} className="py-10 text-center text-muted-foreground">
+                    {expected.length
+                      ? "No schools match the selected filters."
+                      : "No schools in the directory for this school year."}
+                  </TableCell>
+                </TableRow>
+              ) : (
+                rows.map((s) => {
+                  const key = schoolKey(s.municipality, s.school)
+                  const recipients = reminderRecipients(users, s.municipality, s.school)
+                  const reminded = remindedKeys.has(`${dayKey}|${key}`)
+                  return (
+                    <TableRow key={key}>
+                      <TableCell>{s.municipality}</TableCell>
+                      <TableCell className="max-w-[240px] truncate" title={s.school}>
+                        {s.school}
+                      </TableCell>
+                      <TableCell>
+                        <span
+                          className={`inline-flex items-center rounded-full border px-2.5 py-0.5 text-[11px] font-semibold ${STATUS_META[s.status].className}`}
+                        >
+                          {STATUS_META[s.status].label}
+                        </span>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {(s.grades.length ? s.grades : s.submittedGrades).map((g) => {
+                            const done = s.submittedGrades.includes(g)
+                            return (
+                              <Badge
+                                key={g}
+                                variant="outline"
+                                className={
+                                  done
+                                    ? "border-emerald-200 bg-emerald-50 text-emerald-700"
+                                    : "border-dashed text-muted-foreground"
+                                }
+                              >
+                                {g.replace("Grade ", "G")}
+                              </Badge>
+                            )
+                          })}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {s.status === "complete" ? (
+                          <span className="text-emerald-700">{s.completeStreak} day(s) complete</span>
+                        ) : s.missingStreak > 0 ? (
+                          <span className={s.missingStreak >= 3 ? "font-semibold text-rose-700" : "text-rose-600"}>
+                            {s.missingStreak >= days.length ? `${days.length}+` : s.missingStreak} day(s) missing
+                          </span>
+                        ) : (
+                          <span className="text-muted-foreground">—</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {s.lastSubmittedKey
+                          ? format(new Date(`${s.lastSubmittedKey}T00:00:00`), "MMM d")
+                          : `Over ${days.length} school days`}
+                      </TableCell>
+                      {canListUsers ? (
+                        <TableCell className="max-w-[180px] truncate text-sm">
+                          {recipients.map((u) => u.name || u.username).join(", ") || (
+                            <span className="text-muted-foreground">No account</span>
+                          )}
+                        </TableCell>
+                      ) : null}
+                      {canRemind ? (
+                        <TableCell className="text-right">
+                          {s.status === "complete" ? null : (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="rounded-xl"
+                              disabled={!recipients.length || reminded || remindingKey === key}
+                              onClick={() => sendReminder(s, recipients)}
+                            >
+                              {remindingKey === key ? (
+                                <Loader2 className="mr-1 size-3.5 animate-spin" />
+                              ) : (
+                                <BellRing className="mr-1 size-3.5" />
+                              )}
+                              {reminded ? "Reminded" : "Remind"}
+                            </Button>
+                          )}
+                        </TableCell>
+                      ) : null}
+                    </TableRow>
+                  )
+                })
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
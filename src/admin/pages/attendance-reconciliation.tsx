@@ -0,0 +1,422 @@
+import { useEffect, useMemo, useState } from "react"
+import { format } from "date-fns"
+import { AlertTriangle, ExternalLink, Loader2, Scale, School, Users } from "lucide-react"
+import { toast } from "sonner"
+
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import {
+  attendanceApi,
+  getErrorMessage,
+  isAbortError,
+  type AttendanceRecordDto,
+  type SchoolBeneficiaryRow,
+} from "@/lib/api"
+import {
+  groupReconciliation,
+  reconcileAttendance,
+  schoolDays,
+  schoolKey,
+  type ReconciliationGroup,
+  type ReconciliationIssue,
+} from "@/lib/attendance-compliance"
+import { navigate } from "@/lib/router"
+import { links } from "@/lib/routes"
+
+const RANGE_OPTIONS = [
+  { value: "1", label: "Selected day" },
+  { value: "5", label: "Last 5 school days" },
+  { value: "10", label: "Last 10 school days" },
+  { value: "20", label: "Last 20 school days" },
+] as const
+
+const TOLERANCE_OPTIONS = [
+  { value: "0", label: "Exact match" },
+  { value: "0.05", label: "Within 5%" },
+  { value: "0.1", label: "Within 10%" },
+] as const
+
+const ISSUE_META: Record<ReconciliationIssue, { label: string; className: string }> = {
+  ok: { label: "OK", className: "bg-emerald-50 text-emerald-700 border-emerald-200" },
+  mismatch: { label: "Count mismatch", className: "bg-amber-50 text-amber-700 border-amber-200" },
+  "unregistered-grade": { label: "No beneficiaries", className: "bg-rose-50 text-rose-700 border-rose-200" },
+}
+
+const cardClass =
+  "relative overflow-hidden rounded-2xl border border-black/5 bg-white/60 [@supports(backdrop-filter:blur(0))]:backdrop-blur-xl shadow-[inset_0_1px_0_rgba(255,255,255,0.7),0_6px_18px_rgba(0,0,0,0.06)]"
+
+function formatVariance(v: number | null) {
+  if (v === null) return "—"
+  const pct = Math.round(v * 1000) / 10
+  return `${pct > 0 ? "+" : ""}${pct}%`
+}
+
+function varianceClass(v: number | null, tolerance: number) {
+  if (v === null) return "text-muted-foreground"
+  if (Math.abs(v) <= tolerance) return "text-emerald-700"
+  return Math.abs(v) >= 0.1 ? "font-semibold text-rose-700" : "text-amber-700"
+}
+
+export function AttendanceReconciliation({
+  dayKey,
+  directoryRows,
+  isDirectoryLoading,
+  selectedMunicipality,
+  selectedSchool,
+  search,
+}: {
+  dayKey: string
+  directoryRows: SchoolBeneficiaryRow[]
+  isDirectoryLoading: boolean
+  selectedMunicipality: string
+  selectedSchool: string
+  search: string
+}) {
+  const [rangeDays, setRangeDays] = useState<string>("5")
+  const [toleranceValue, setToleranceValue] = useState<string>("0")
+  const [flaggedOnly, setFlaggedOnly] = useState(true)
+  const [drillKey, setDrillKey] = useState<string | null>(null)
+  const tolerance = Number(toleranceValue)
+
+  const days = useMemo(() => schoolDays(dayKey, Number(rangeDays)), [dayKey, rangeDays])
+  const fromKey = days[days.length - 1] || dayKey
+
+  // Loading is derived from which day range the records belong to
+  const rangeKey = `${fromKey}|${dayKey}`
+  const [loaded, setLoaded] = useState<{ key: string; records: AttendanceRecordDto[] }>({ key: "", records: [] })
+  const isLoading = loaded.key !== rangeKey || isDirectoryLoading
+
+  useEffect(() => {
+    const controller = new AbortController()
+    attendanceApi
+      .adminHistory({ from: fromKey, to: dayKey, sort: "newest" }, controller.signal)
+      .then((data) => setLoaded({ key: rangeKey, records: data.records || [] }))
+      .catch((e) => {
+        if (isAbortError(e)) return
+        toast.error(getErrorMessage(e, "Failed to load attendance"))
+        setLoaded({ key: rangeKey, records: [] })
+      })
+    return () => controller.abort()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [rangeKey])
+
+  const reconciliation = useMemo(() => {
+    // Weekend picks are fetched by date range but only school days are compared
+    const daySet = new Set(days)
+    const records = isLoading ? [] : loaded.records.filter((r) => daySet.has(r.dateKey))
+    return reconcileAttendance(directoryRows, records, tolerance)
+  }, [days, directoryRows, isLoading, loaded.records, tolerance])
+
+  const scoped = useMemo(() => {
+    const q = search.trim().toLowerCase()
+    return reconciliation.records.filter((r) => {
+      if (selectedMunicipality !== "All" && r.municipality !== selectedMunicipality) return false
+      if (selectedSchool !== "All" && r.school !== selectedSchool) return false
+      if (q && !`${r.school} ${r.municipality}`.toLowerCase().includes(q)) return false
+      return true
+    })
+  }, [reconciliation.records, search, selectedMunicipality, selectedSchool])
+
+  const municipalities = useMemo(
+    () => groupReconciliation(scoped, "municipality").sort((a, b) => a.municipality.localeCompare(b.municipality)),
+    [scoped]
+  )
+
+  const schools = useMemo(() => {
+    return groupReconciliation(scoped, "school")
+      .filter((g) => !flaggedOnly || g.flagged > 0)
+      .sort(
+        (a, b) =>
+          b.flagged - a.flagged ||
+          Math.abs(b.variance ?? 0) - Math.abs(a.variance ?? 0) ||
+          a.municipality.localeCompare(b.municipality) ||
+          a.school.localeCompare(b.school)
+      )
+  }, [flaggedOnly, scoped])
+
+  const totals = useMemo(() => {
+    let reported = 0
+    let expected = 0
+    for (const r of scoped) {
+      reported += r.reported
+      expected += r.expected
+    }
+    return {
+      records: scoped.length,
+      flagged: scoped.filter((r) => r.issue !== "ok").length,
+      unregistered: scoped.filter((r) => r.issue === "unregistered-grade").length,
+      variance: expected > 0 ? (reported - expected) / expected : null,
+    }
+  }, [scoped])
+
+  const drillGroup = schools.find((g) => g.key === drillKey) || null
+  const drillRecords = useMemo(() => {
+    if (!drillKey) return []
+    return scoped
+      .filter((r) => r.issue !== "ok" && schoolKey(r.municipality, r.school) === drillKey)
+      .sort((a, b) => b.record.dateKey.localeCompare(a.record.dateKey) || a.grade.localeCompare(b.grade))
+  }, [drillKey, scoped])
+
+  const summaryCards = [
+    { label: "Records checked", value: String(totals.records), note: `${days.length} school day(s)`, Icon: Users, color: "text-neutral-700" },
+    { label: "Flagged", value: String(totals.flagged), note: "Counts off the directory", Icon: AlertTriangle, color: "text-amber-600" },
+    { label: "No beneficiaries", value: String(totals.unregistered), note: "Grade not registered for school", Icon: School, color: "text-rose-600" },
+    { label: "Net variance", value: formatVariance(totals.variance), note: "Reported vs. registered", Icon: Scale, color: "text-neutral-700" },
+  ]
+
+  const periodLabel =
+    days.length > 1
+      ? `${format(new Date(`${fromKey}T00:00:00`), "MMM d")} – ${format(new Date(`${dayKey}T00:00:00`), "MMM d, yyyy")}`
+      : format(new Date(`${dayKey}T00:00:00`), "EEEE, MMM d, yyyy")
+
+  const renderGroupRow = (g: ReconciliationGroup, kind: "school" | "municipality") => (
+    <TableRow
+      key={g.key}
+      className={kind === "school" && g.flagged ? "cursor-pointer hover:bg-muted/50" : undefined}
+      onClick={kind === "school" && g.flagged ? () => setDrillKey(g.key) : undefined}
+    >
+      <TableCell>{g.municipality}</TableCell>
+      {kind === "school" && (
+        <TableCell className="max-w-[260px] truncate" title={g.school}>
+          {g.school}
+        </TableCell>
+      )}
+      <TableCell className="text-right tabular-nums">{g.records}</TableCell>
+      <TableCell className="text-right tabular-nums">
+        {g.flagged ? <span className="font-semibold text-amber-700">{g.flagged}</span> : 0}
+      </TableCell>
+      <TableCell className="text-right tabular-nums">{g.reported.toLocaleString()}</TableCell>
+      <TableCell className="text-right tabular-nums">{g.expected.toLocaleString()}</TableCell>
+      <TableCell className={`text-right tabular-nums ${varianceClass(g.variance, tolerance)}`}>
+        {formatVariance(g.variance)}
+      </TableCell>
+    </TableRow>
+  )
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+        {summaryCards.map(({ label, value, note, Icon, color }) => (
+          <Card key={label} className={cardClass}>
+            <CardHeader className="flex flex-row items-start justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium text-neutral-500">{label}</CardTitle>
+              <div className="rounded-2xl border border-black/5 bg-white/70 p-2 shadow-sm">
+                <Icon className={`size-5 ${color}`} />
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="text-3xl font-bold tracking-tight text-neutral-900">{isLoading ? "—" : value}</div>
+              <div className="mt-2 text-xs text-neutral-500">{note}</div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-col gap-3 space-y-0 sm:flex-row sm:items-center sm:justify-between">
+          <div>
+            <CardTitle className="text-base">By Municipality</CardTitle>
+            <p className="text-xs text-muted-foreground">
+              {periodLabel} • present + absent compared with registered beneficiaries
+              {reconciliation.unmatched
+                ? ` • ${reconciliation.unmatched} record(s) from schools not in the directory were skipped`
+                : ""}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Select value={rangeDays} onValueChange={setRangeDays}>
+              <SelectTrigger className="h-8 w-[170px] text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RANGE_OPTIONS.map((o) => (
+                  <SelectItem key={o.value} value={o.value}>
+                    {o.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={toleranceValue} onValueChange={setToleranceValue}>
+              <SelectTrigger className="h-8 w-[130px] text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TOLERANCE_OPTIONS.map((o) => (
+                  <SelectItem key={o.value} value={o.value}>
+                    {o.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent className="pt-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Municipality</TableHead>
+                <TableHead className="text-right">Records</TableHead>
+                <TableHead className="text-right">Flagged</TableHead>
+                <TableHead className="text-right">Reported</TableHead>
+                <TableHead className="text-right">Registered</TableHead>
+                <TableHead className="text-right">Variance</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="py-10 text-center text-muted-foreground">
+                    <Loader2 className="mr-2 inline size-4 animate-spin" />
+                    Loading...
+                  </TableCell>
+                </TableRow>
+              ) : municipalities.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="py-10 text-center text-muted-foreground">
+                    No attendance records for directory schools in this period.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                municipalities.map((g) => renderGroupRow(g, "municipality"))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between gap-3 space-y-0">
+          <div>
+            <CardTitle className="text-base">By School</CardTitle>
+            <p className="text-xs text-muted-foreground">Select a flagged school to see the records behind it</p>
+          </div>
+          <Select value={flaggedOnly ? "flagged" : "all"} onValueChange={(v) => setFlaggedOnly(v === "flagged")}>
+            <SelectTrigger className="h-8 w-[150px] text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="flagged">Flagged only</SelectItem>
+              <SelectItem value="all">All schools</SelectItem>
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent className="pt-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Municipality</TableHead>
+                <TableHead>School</TableHead>
+                <TableHead className="text-right">Records</TableHead>
+                <TableHead className="text-right">Flagged</TableHead>
+                <TableHead className="text-right">Reported</TableHead>
+                <TableHead className="text-right">Registered</TableHead>
+                <TableHead className="text-right">Variance</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="py-10 text-center text-muted-foreground">
+                    <Loader2 className="mr-2 inline size-4 animate-spin" />
+                    Loading...
+                  </TableCell>
+                </TableRow>
+              ) : schools.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="py-10 text-center text-muted-foreground">
+                    {flaggedOnly ? "Every record matches the directory." : "No schools match the selected filters."}
+                  </TableCell>
+                </TableRow>
+              ) : (
+                schools.map((g) => renderGroupRow(g, "school"))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!drillGroup} onOpenChange={(o) => !o && setDrillKey(null)}>
+        <DialogContent className="max-h-[85vh] overflow-y-auto sm:max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>{drillGroup?.school}</DialogTitle>
+            <DialogDescription>
+              {drillGroup?.municipality} • {drillRecords.length} flagged record(s) • {periodLabel}
+            </DialogDescription>
+          </DialogHeader>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Grade</TableHead>
+                <TableHead className="text-right">Present</TableHead>
+                <TableHead className="text-right">Absent</TableHead>
+                <TableHead className="text-right">Registered</TableHead>
+                <TableHead className="text-right">Variance</TableHead>
+                <TableHead>Issue</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {drillRecords.map((r, i) => (
+                <TableRow key={r.record._id || r.record.id || `${r.record.dateKey}-${r.grade}-${i}`}>
+                  <TableCell className="whitespace-nowrap">
+                    {format(new Date(`${r.record.dateKey}T00:00:00`), "EEE, MMM d")}
+                  </TableCell>
+                  <TableCell>{r.grade}</TableCell>
+                  <TableCell className="text-right tabular-nums">{r.record.present}</TableCell>
+                  <TableCell className="text-right tabular-nums">{r.record.absent}</TableCell>
+                  <TableCell className="text-right tabular-nums">{r.expected}</TableCell>
+                  <TableCell className={`text-right tabular-nums ${varianceClass(r.variance, tolerance)}`}>
+                    {formatVariance(r.variance)}
+                  </TableCell>
+                  <TableCell>
+                    <span
+                      className={`inline-flex items-center whitespace-nowrap rounded-full border px-2.5 py-0.5 text-[11px] font-semibold ${ISSUE_META[r.issue].className}`}
+                    >
+                      {ISSUE_META[r.issue].label}
+                    </span>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="size-7"
+                      title="Open in records"
+                      onClick={() =>
+                        navigate(
+                          links.adminAttendance({
+                            date: r.record.dateKey,
+                            municipality: r.municipality,
+                            school: r.school,
+                          })
+                        )
+                      }
+                    >
+                      <ExternalLink className="size-3.5" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
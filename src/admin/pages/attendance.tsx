@@ -46,6 +46,20 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table"
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import {
+  attendanceApi,
+  getErrorMessage,
+  isAbortError,
+  schoolDirectoryApi,
+  type SchoolBeneficiaryRow,
+} from "@/lib/api"
+import { schoolYearFor } from "@/lib/attendance-compliance"
+import { BATAAN_MUNICIPALITIES } from "@/lib/municipalities"
+import { useMunicipalityParam, usePermissions } from "@/lib/permissions"
+import { setSearchParams, useDateSearchParam, useSearchParam } from "@/lib/router"
+import { AttendanceCompliance } from "./attendance-compliance"
+import { AttendanceReconciliation } from "./attendance-reconciliation"
 
 type AttendanceRow = {
   id: string
@@ -59,80 +73,29 @@ type AttendanceRow = {
   updatedAtIso: string
 }
 
-const MUNICIPALITIES = [
-  "Abucay",
-  "Bagac",
-  "Balanga City",
-  "Dinalupihan",
-  "Hermosa",
-  "Limay",
-  "Mariveles",
-  "Morong",
-  "Orani",
-  "Orion",
-  "Pilar",
-  "Samal",
-]
-
-const MUNICIPALITY_SCHOOLS: Record<string, string[]> = {
-  Abucay: ["Abucay Central ES", "Mabatang ES"],
-  Bagac: ["Bagac ES", "Paysawan ES"],
-  "Balanga City": ["Balanga ES", "Tenejero ES"],
-  Dinalupihan: ["Dinalupihan ES", "Luacan ES"],
-  Hermosa: ["Hermosa ES", "Mabiga ES"],
-  Limay: ["Limay ES", "Lamao ES"],
-  Mariveles: ["Mariveles ES", "Alas-asin ES"],
-  Morong: ["Morong ES", "Nagbalayong ES"],
-  Orani: ["Orani ES", "Kabalutan ES"],
-  Orion: ["Orion ES", "Santa Elena ES"],
-  Pilar: ["Pilar ES", "Del Rosario ES"],
-  Samal: ["Samal ES", "West Calaguiman ES"],
-}
+const SCHOOL_YEARS = ["2024-2025", "2025-2026", "2026-2027"]
 
 function startOfDayKey(d: Date) {
   return format(d, "yyyy-MM-dd")
 }
 
-function getApiBaseUrl() {
-  const envAny = (import.meta as any)?.env as any
-  const fromEnv = (envAny?.VITE_API_BASE_URL || envAny?.VITE_API_URL) as string | undefined
-  return (fromEnv || "http://localhost:8000").replace(/\/+$/, "")
-}
-
-function getAuthToken(): string | null {
-  try {
-    const raw = localStorage.getItem("bhss_auth")
-    if (!raw) return null
-    const parsed = JSON.parse(raw) as { token?: string }
-    return parsed?.token || null
-  } catch {
-    return null
-  }
-}
-
-async function apiFetch(path: string) {
-  const token = getAuthToken()
-  if (!token) throw new Error("Not authenticated")
-
-  const res = await fetch(`${getApiBaseUrl()}${path}`, {
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${token}`,
-    },
-  })
-
-  const data = await res.json().catch(() => ({}))
-  if (!res.ok) throw new Error((data as any)?.message || "Request failed")
-  return data
-}
-
 type SortKey = "municipality" | "school" | "grade" | "present" | "absent"
 type SortDir = "asc" | "desc"
 
 export function Attendance() {
-  const [selectedDate, setSelectedDate] = useState<Date>(new Date())
-  const [selectedMunicipality, setSelectedMunicipality] = useState<string>("All")
-  const [selectedSchool, setSelectedSchool] = useState<string>("All")
+  // Date, municipality and school live in the URL so filtered views can be shared
+  const [today] = useState(() => new Date())
+  const [dateParam, setSelectedDate] = useDateSearchParam("date")
+  const permissions = usePermissions()
+  const { municipality: municipalityParam, locked: isMunicipalityLocked } = useMunicipalityParam()
+  const [schoolParam, setSchoolParam] = useSearchParam("school")
+  const selectedDate = dateParam ?? today
+  const selectedMunicipality = municipalityParam || "All"
+  const selectedSchool = schoolParam || "All"
+  const [viewParam, setViewParam] = useSearchParam("view")
+  const view = viewParam === "compliance" || viewParam === "reconciliation" ? viewParam : "records"
+  const [schoolYearParam, setSchoolYearParam] = useSearchParam("schoolYear")
+  const schoolYear = schoolYearParam || schoolYearFor(selectedDate)
   const [search, setSearch] = useState("")
   const [sortKey, setSortKey] = useState<SortKey>("municipality")
   const [sortDir, setSortDir] = useState<SortDir>("asc")
@@ -151,14 +114,14 @@ export function Attendance() {
     const t = setTimeout(async () => {
       setIsLoading(true)
       try {
-        const qs = new URLSearchParams()
-        qs.set("from", dayKey)
-        qs.set("to", dayKey)
-        if (search.trim()) qs.set("search", search.trim())
-        qs.set("sort", "newest")
-
-        const data = await apiFetch(`/api/admin/attendance/history?${qs.toString()}`)
-        const next: AttendanceRow[] = ((data as any)?.records || []).map((r: any) => ({
+        const data = await attendanceApi.adminHistory({
+          from: dayKey,
+          to: dayKey,
+          search: search.trim(),
+          sort: "newest",
+          municipality: permissions.municipality ?? undefined,
+        })
+        const next: AttendanceRow[] = (data.records || []).map((r) => ({
           id: String(r._id || r.id || ""),
           dateKey: String(r.dateKey || ""),
           municipality: String(r.municipality || ""),
@@ -170,7 +133,7 @@ export function Attendance() {
           updatedAtIso: String(r.updatedAt || ""),
         }))
 
-        if (!cancelled) setRows(next)
+        if (!cancelled) setRows(next.filter((r) => permissions.inScope(r.municipality, r.school)))
       } catch (e: any) {
         if (!cancelled) toast.error(e?.message || "Failed to load attendance")
       } finally {
@@ -182,7 +145,7 @@ export function Attendance() {
       cancelled = true
       clearTimeout(t)
     }
-  }, [dayKey, search])
+  }, [dayKey, search, permissions])
 
   useEffect(() => {
     const handler = (ev: Event) => {
@@ -200,7 +163,7 @@ export function Attendance() {
       const notes = String(record.notes || "")
       const updatedAtIso = String(record.updatedAt || new Date().toISOString())
 
-      if (dateKey !== dayKey) return
+      if (dateKey !== dayKey || !permissions.inScope(municipality, school)) return
 
       setRows((prev) => {
         const nextRow: AttendanceRow = {
@@ -227,12 +190,37 @@ export function Attendance() {
 
     window.addEventListener("attendance:saved", handler)
     return () => window.removeEventListener("attendance:saved", handler)
-  }, [dayKey])
+  }, [dayKey, permissions])
+
+  // Schools come from the directory so the filter and the compliance view
+  // cover every school that feeds learners in the selected school year
+  const [directory, setDirectory] = useState<{ schoolYear: string; rows: SchoolBeneficiaryRow[] }>({
+    schoolYear: "",
+    rows: [],
+  })
+  const isDirectoryLoading = directory.schoolYear !== schoolYear
+
+  useEffect(() => {
+    const controller = new AbortController()
+    schoolDirectoryApi
+      .listBeneficiaries({ schoolYear }, controller.signal)
+      .then((data) => setDirectory({ schoolYear, rows: Array.isArray(data.rows) ? data.rows : [] }))
+      .catch((e) => {
+        if (isAbortError(e)) return
+        toast.error(getErrorMessage(e, "Failed to load school directory"))
+        setDirectory({ schoolYear, rows: [] })
+      })
+    return () => controller.abort()
+  }, [schoolYear])
 
   const schoolsForSelectedMunicipality = useMemo(() => {
     if (selectedMunicipality === "All") return []
-    return MUNICIPALITY_SCHOOLS[selectedMunicipality] ?? []
-  }, [selectedMunicipality])
+    const names = directory.rows
+      .filter((r) => r.municipality === selectedMunicipality)
+      .map((r) => r.schoolName.trim())
+      .filter(Boolean)
+    return Array.from(new Set(names)).sort((a, b) => a.localeCompare(b))
+  }, [directory.rows, selectedMunicipality])
 
   const filtered = useMemo(() => {
     const q = search.trim().toLowerCase()
@@ -314,78 +302,22 @@ export function Attendance() {
             <ClipboardCheck className="size-5 text-muted-foreground" />
             <h2 className="text-2xl font-bold tracking-tight">Attendance</h2>
           </div>
+          <Tabs value={view} onValueChange={(v) => setViewParam(v === "records" ? null : v)}>
+            <TabsList>
+              <TabsTrigger value="records">Records</TabsTrigger>
+              <TabsTrigger value="compliance">Compliance</TabsTrigger>
+              <TabsTrigger value="reconciliation">Reconciliation</TabsTrigger>
+            </TabsList>
+          </Tabs>
         </div>
         <p className="text-sm text-muted-foreground">
-          View daily attendance per municipality and school.
+          View daily attendance per municipality and school, which schools have not submitted, and counts that
+          differ from the school directory.
         </p>
       </div>
 
-      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
-        <Card className="relative overflow-hidden rounded-2xl border border-black/5 bg-white/60 [@supports(backdrop-filter:blur(0))]:backdrop-blur-xl shadow-[inset_0_1px_0_rgba(255,255,255,0.7),0_6px_18px_rgba(0,0,0,0.06)]">
-          <CardHeader className="flex flex-row items-start justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium text-neutral-500">Total</CardTitle>
-            <div className="rounded-2xl border border-black/5 bg-white/70 p-2 shadow-sm">
-              <Search className="size-5" />
-            </div>
-          </CardHeader>
-          <CardContent>
-            <div className="text-3xl font-bold tracking-tight text-neutral-900">{stats.total}</div>
-            <div className="mt-2 text-xs text-neutral-500">Rows for selected filters</div>
-          </CardContent>
-        </Card>
-
-        <Card className="relative overflow-hidden rounded-2xl border border-black/5 bg-white/60 [@supports(backdrop-filter:blur(0))]:backdrop-blur-xl shadow-[inset_0_1px_0_rgba(255,255,255,0.7),0_6px_18px_rgba(0,0,0,0.06)]">
-          <CardHeader className="flex flex-row items-start justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium text-neutral-500">Present</CardTitle>
-            <div className="rounded-2xl border border-black/5 bg-white/70 p-2 shadow-sm">
-              <Badge variant="secondary" className="rounded-xl bg-emerald-500/10 px-2 py-1 text-xs font-semibold text-emerald-700">
-                Sum
-              </Badge>
-            </div>
-          </CardHeader>
-          <CardContent>
-            <div className="text-3xl font-bold tracking-tight text-neutral-900">{stats.present}</div>
-            <div className="mt-2 text-xs text-neutral-500">Total present (sum)</div>
-          </CardContent>
-        </Card>
-
-        <Card className="relative overflow-hidden rounded-2xl border border-black/5 bg-white/60 [@supports(backdrop-filter:blur(0))]:backdrop-blur-xl shadow-[inset_0_1px_0_rgba(255,255,255,0.7),0_6px_18px_rgba(0,0,0,0.06)]">
-          <CardHeader className="flex flex-row items-start justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium text-neutral-500">Absent</CardTitle>
-            <div className="rounded-2xl border border-black/5 bg-white/70 p-2 shadow-sm">
-              <Badge variant="secondary" className="rounded-xl bg-rose-500/10 px-2 py-1 text-xs font-semibold text-rose-700">
-                Sum
-              </Badge>
-            </div>
-          </CardHeader>
-          <CardContent>
-            <div className="text-3xl font-bold tracking-tight text-neutral-900">{stats.absent}</div>
-            <div className="mt-2 text-xs text-neutral-500">Total absent (sum)</div>
-          </CardContent>
-        </Card>
-
-        <Card className="relative overflow-hidden rounded-2xl border border-black/5 bg-white/60 [@supports(backdrop-filter:blur(0))]:backdrop-blur-xl shadow-[inset_0_1px_0_rgba(255,255,255,0.7),0_6px_18px_rgba(0,0,0,0.06)]">
-          <CardHeader className="flex flex-row items-start justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium text-neutral-500">Attendance Rate</CardTitle>
-            <div className="rounded-2xl border border-black/5 bg-white/70 p-2 shadow-sm">
-              <CalendarDays className="size-5" />
-            </div>
-          </CardHeader>
-          <CardContent>
-            <div className="text-3xl font-bold tracking-tight text-neutral-900">{stats.rate}%</div>
-            <div className="mt-2 text-xs text-neutral-500">Present / total</div>
-          </CardContent>
-        </Card>
-      </div>
-
       <Card>
-        <CardHeader className="space-y-4">
-          <div className="flex items-center justify-between">
-            <CardTitle className="text-base">Attendance List</CardTitle>
-            <p className="text-xs text-muted-foreground">
-              Showing <span className="font-medium text-foreground">{sorted.length}</span> result(s)
-            </p>
-          </div>
+        <CardContent className="pt-6">
           <div className="flex flex-wrap items-end gap-3">
             <div className="flex flex-col gap-1.5">
               <Label className="text-xs">Date</Label>
@@ -410,7 +342,7 @@ export function Attendance() {
                   variant="secondary"
                   size="sm"
                   className="h-8 px-3"
-                  onClick={() => setSelectedDate(new Date())}
+                  onClick={() => setSelectedDate(null)}
                 >
                   Today
                 </Button>
@@ -421,9 +353,9 @@ export function Attendance() {
               <Label className="text-xs">Municipality</Label>
               <Select
                 value={selectedMunicipality}
+                disabled={isMunicipalityLocked}
                 onValueChange={(v) => {
-                  setSelectedMunicipality(v)
-                  setSelectedSchool("All")
+                  setSearchParams({ municipality: v === "All" ? null : v, school: null })
                 }}
               >
                 <SelectTrigger className="h-8 w-[160px] text-sm">
@@ -431,7 +363,7 @@ export function Attendance() {
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="All">All</SelectItem>
-                  {MUNICIPALITIES.map((m) => (
+                  {(isMunicipalityLocked ? [selectedMunicipality] : BATAAN_MUNICIPALITIES).map((m) => (
                     <SelectItem key={m} value={m}>
                       {m}
                     </SelectItem>
@@ -444,7 +376,7 @@ export function Attendance() {
               <Label className="text-xs">School</Label>
               <Select
                 value={selectedSchool}
-                onValueChange={setSelectedSchool}
+                onValueChange={(v) => setSchoolParam(v === "All" ? null : v)}
                 disabled={selectedMunicipality === "All"}
               >
                 <SelectTrigger className="h-8 w-[180px] text-sm">
@@ -461,6 +393,22 @@ export function Attendance() {
               </Select>
             </div>
 
+            <div className="flex flex-col gap-1.5">
+              <Label className="text-xs">School Year</Label>
+              <Select value={schoolYear} onValueChange={(v) => setSchoolYearParam(v)}>
+                <SelectTrigger className="h-8 w-[130px] text-sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Array.from(new Set([...SCHOOL_YEARS, schoolYear])).map((y) => (
+                    <SelectItem key={y} value={y}>
+                      {y}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
             <div className="flex flex-col gap-1.5 flex-1 min-w-[200px]">
               <Label className="text-xs">Search</Label>
               <Input
@@ -476,9 +424,7 @@ export function Attendance() {
               size="sm"
               className="h-8 px-3"
               onClick={() => {
-                setSelectedDate(new Date())
-                setSelectedMunicipality("All")
-                setSelectedSchool("All")
+                setSearchParams({ date: null, municipality: null, school: null, schoolYear: null })
                 setSearch("")
                 setSortKey("municipality")
                 setSortDir("asc")
@@ -487,162 +433,253 @@ export function Attendance() {
               Reset
             </Button>
           </div>
-        </CardHeader>
-        <CardContent className="pt-0">
-          <Table>
-            <TableHeader>
-              <TableRow>
-                <TableHead>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    className="-ml-3"
-                    onClick={() => onHeaderSort("municipality")}
-                  >
-                    Municipality
-                    <ArrowUpDown className={sortKey === "municipality" ? "opacity-100" : "opacity-40"} />
-                  </Button>
-                </TableHead>
-                <TableHead>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    className="-ml-3"
-                    onClick={() => onHeaderSort("school")}
-                  >
-                    School
-                    <ArrowUpDown className={sortKey === "school" ? "opacity-100" : "opacity-40"} />
-                  </Button>
-                </TableHead>
-                <TableHead>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    className="-ml-3"
-                    onClick={() => onHeaderSort("grade")}
-                  >
-                    Grade
-                    <ArrowUpDown className={sortKey === "grade" ? "opacity-100" : "opacity-40"} />
-                  </Button>
-                </TableHead>
-                <TableHead>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    className="-ml-3"
-                    onClick={() => onHeaderSort("present")}
-                  >
-                    Present
-                    <ArrowUpDown className={sortKey === "present" ? "opacity-100" : "opacity-40"} />
-                  </Button>
-                </TableHead>
-                <TableHead>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    className="-ml-3"
-                    onClick={() => onHeaderSort("absent")}
-                  >
-                    Absent
-                    <ArrowUpDown className={sortKey === "absent" ? "opacity-100" : "opacity-40"} />
-                  </Button>
-                </TableHead>
-                <TableHead className="text-right">Notes</TableHead>
-              </TableRow>
-            </TableHeader>
-            <TableBody>
-              {sorted.length === 0 ? (
-                <TableRow>
-                  <TableCell colSpan={6} className="text-center text-muted-foreground py-10">
-                    {isLoading ? "Loading..." : "No data for the selected filters."}
-                  </TableCell>
-                </TableRow>
-              ) : (
-                pagedRows.map((row) => (
-                  <TableRow key={row.id}>
-                    <TableCell>{row.municipality}</TableCell>
-                    <TableCell>{row.school}</TableCell>
-                    <TableCell>{row.grade}</TableCell>
-                    <TableCell>
-                      <Badge variant="secondary">{row.present}</Badge>
-                    </TableCell>
-                    <TableCell>
-                      <Badge variant="secondary">{row.absent}</Badge>
-                    </TableCell>
-                    <TableCell className="text-right">
+        </CardContent>
+      </Card>
+
+      {view === "compliance" ? (
+        <AttendanceCompliance
+          dayKey={dayKey}
+          directoryRows={directory.rows}
+          isDirectoryLoading={isDirectoryLoading}
+          selectedMunicipality={selectedMunicipality}
+          selectedSchool={selectedSchool}
+          search={search}
+        />
+      ) : view === "reconciliation" ? (
+        <AttendanceReconciliation
+          dayKey={dayKey}
+          directoryRows={directory.rows}
+          isDirectoryLoading={isDirectoryLoading}
+          selectedMunicipality={selectedMunicipality}
+          selectedSchool={selectedSchool}
+          search={search}
+        />
+      ) : (
+        <>
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+            <Card className="relative overflow-hidden rounded-2xl border border-black/5 bg-white/60 [@supports(backdrop-filter:blur(0))]:backdrop-blur-xl shadow-[inset_0_1px_0_rgba(255,255,255,0.7),0_6px_18px_rgba(0,0,0,0.06)]">
+              <CardHeader className="flex flex-row items-start justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium text-neutral-500">Total</CardTitle>
+                <div className="rounded-2xl border border-black/5 bg-white/70 p-2 shadow-sm">
+                  <Search className="size-5" />
+                </div>
+              </CardHeader>
+              <CardContent>
+                <div className="text-3xl font-bold tracking-tight text-neutral-900">{stats.total}</div>
+                <div className="mt-2 text-xs text-neutral-500">Rows for selected filters</div>
+              </CardContent>
+            </Card>
+
+            <Card className="relative overflow-hidden rounded-2xl border border-black/5 bg-white/60 [@supports(backdrop-filter:blur(0))]:backdrop-blur-xl shadow-[inset_0_1px_0_rgba(255,255,255,0.7),0_6px_18px_rgba(0,0,0,0.06)]">
+              <CardHeader className="flex flex-row items-start justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium text-neutral-500">Present</CardTitle>
+                <div className="rounded-2xl border border-black/5 bg-white/70 p-2 shadow-sm">
+                  <Badge variant="secondary" className="rounded-xl bg-emerald-500/10 px-2 py-1 text-xs font-semibold text-emerald-700">
+                    Sum
+                  </Badge>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <div className="text-3xl font-bold tracking-tight text-neutral-900">{stats.present}</div>
+                <div className="mt-2 text-xs text-neutral-500">Total present (sum)</div>
+              </CardContent>
+            </Card>
+
+            <Card className="relative overflow-hidden rounded-2xl border border-black/5 bg-white/60 [@supports(backdrop-filter:blur(0))]:backdrop-blur-xl shadow-[inset_0_1px_0_rgba(255,255,255,0.7),0_6px_18px_rgba(0,0,0,0.06)]">
+              <CardHeader className="flex flex-row items-start justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium text-neutral-500">Absent</CardTitle>
+                <div className="rounded-2xl border border-black/5 bg-white/70 p-2 shadow-sm">
+                  <Badge variant="secondary" className="rounded-xl bg-rose-500/10 px-2 py-1 text-xs font-semibold text-rose-700">
+                    Sum
+                  </Badge>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <div className="text-3xl font-bold tracking-tight text-neutral-900">{stats.absent}</div>
+                <div className="mt-2 text-xs text-neutral-500">Total absent (sum)</div>
+              </CardContent>
+            </Card>
+
+            <Card className="relative overflow-hidden rounded-2xl border border-black/5 bg-white/60 [@supports(backdrop-filter:blur(0))]:backdrop-blur-xl shadow-[inset_0_1px_0_rgba(255,255,255,0.7),0_6px_18px_rgba(0,0,0,0.06)]">
+              <CardHeader className="flex flex-row items-start justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium text-neutral-500">Attendance Rate</CardTitle>
+                <div className="rounded-2xl border border-black/5 bg-white/70 p-2 shadow-sm">
+                  <CalendarDays className="size-5" />
+                </div>
+              </CardHeader>
+              <CardContent>
+                <div className="text-3xl font-bold tracking-tight text-neutral-900">{stats.rate}%</div>
+                <div className="mt-2 text-xs text-neutral-500">Present / total</div>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle className="text-base">Attendance List</CardTitle>
+                <p className="text-xs text-muted-foreground">
+                  Showing <span className="font-medium text-foreground">{sorted.length}</span> result(s)
+                </p>
+              </div>
+            </CardHeader>
+            <CardContent className="pt-0">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="-ml-3"
+                        onClick={() => onHeaderSort("municipality")}
+                      >
+                        Municipality
+                        <ArrowUpDown className={sortKey === "municipality" ? "opacity-100" : "opacity-40"} />
+                      </Button>
+                    </TableHead>
+                    <TableHead>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="-ml-3"
+                        onClick={() => onHeaderSort("school")}
+                      >
+                        School
+                        <ArrowUpDown className={sortKey === "school" ? "opacity-100" : "opacity-40"} />
+                      </Button>
+                    </TableHead>
+                    <TableHead>
                       <Button
-                        variant="outline"
+                        variant="ghost"
                         size="sm"
-                        className="relative rounded-xl"
-                        onClick={() => setSelectedNotes({
-                          school: row.school,
-                          grade: row.grade,
-                          notes: row.notes
-                        })}
+                        className="-ml-3"
+                        onClick={() => onHeaderSort("grade")}
                       >
-                        <MessageSquare className="mr-1 size-3.5" />
-                        View Notes
-                        {row.notes.trim() && (
-                          <Badge className="ml-2 h-5 rounded-full bg-amber-100 px-2 text-[11px] font-semibold text-amber-800 border border-amber-200">
-                            1
-                          </Badge>
-                        )}
+                        Grade
+                        <ArrowUpDown className={sortKey === "grade" ? "opacity-100" : "opacity-40"} />
                       </Button>
-                    </TableCell>
+                    </TableHead>
+                    <TableHead>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="-ml-3"
+                        onClick={() => onHeaderSort("present")}
+                      >
+                        Present
+                        <ArrowUpDown className={sortKey === "present" ? "opacity-100" : "opacity-40"} />
+                      </Button>
+                    </TableHead>
+                    <TableHead>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="-ml-3"
+                        onClick={() => onHeaderSort("absent")}
+                      >
+                        Absent
+                        <ArrowUpDown className={sortKey === "absent" ? "opacity-100" : "opacity-40"} />
+                      </Button>
+                    </TableHead>
+                    <TableHead className="text-right">Notes</TableHead>
                   </TableRow>
-                ))
+                </TableHeader>
+                <TableBody>
+                  {sorted.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center text-muted-foreground py-10">
+                        {isLoading ? "Loading..." : "No data for the selected filters."}
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    pagedRows.map((row) => (
+                      <TableRow key={row.id}>
+                        <TableCell>{row.municipality}</TableCell>
+                        <TableCell>{row.school}</TableCell>
+                        <TableCell>{row.grade}</TableCell>
+                        <TableCell>
+                          <Badge variant="secondary">{row.present}</Badge>
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="secondary">{row.absent}</Badge>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="relative rounded-xl"
+                            onClick={() => setSelectedNotes({
+                              school: row.school,
+                              grade: row.grade,
+                              notes: row.notes
+                            })}
+                          >
+                            <MessageSquare className="mr-1 size-3.5" />
+                            View Notes
+                            {row.notes.trim() && (
+                              <Badge className="ml-2 h-5 rounded-full bg-amber-100 px-2 text-[11px] font-semibold text-amber-800 border border-amber-200">
+                                1
+                              </Badge>
+                            )}
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+
+              {sorted.length > pageSize && (
+                <div className="mt-4 flex justify-end">
+                  <Pagination className="mx-0 w-auto justify-end">
+                    <PaginationContent>
+                      <PaginationItem>
+                        <PaginationPrevious
+                          href="#"
+                          onClick={(e) => {
+                            e.preventDefault()
+                            setCurrentPage((p) => Math.max(1, p - 1))
+                          }}
+                          aria-disabled={currentPage === 1}
+                          className={currentPage === 1 ? "pointer-events-none opacity-50" : ""}
+                        />
+                      </PaginationItem>
+
+                      {Array.from({ length: totalPages }, (_, i) => i + 1).map((page) => (
+                        <PaginationItem key={page}>
+                          <PaginationLink
+                            href="#"
+                            isActive={page === currentPage}
+                            onClick={(e) => {
+                              e.preventDefault()
+                              setCurrentPage(page)
+                            }}
+                          >
+                            {page}
+                          </PaginationLink>
+                        </PaginationItem>
+                      ))}
+
+                      <PaginationItem>
+                        <PaginationNext
+                          href="#"
+                          onClick={(e) => {
+                            e.preventDefault()
+                            setCurrentPage((p) => Math.min(totalPages, p + 1))
+                          }}
+                          aria-disabled={currentPage === totalPages}
+                          className={currentPage === totalPages ? "pointer-events-none opacity-50" : ""}
+                        />
+                      </PaginationItem>
+                    </PaginationContent>
+                  </Pagination>
+                </div>
               )}
-            </TableBody>
-          </Table>
-
-          {sorted.length > pageSize && (
-            <div className="mt-4 flex justify-end">
-              <Pagination className="mx-0 w-auto justify-end">
-                <PaginationContent>
-                  <PaginationItem>
-                    <PaginationPrevious
-                      href="#"
-                      onClick={(e) => {
-                        e.preventDefault()
-                        setCurrentPage((p) => Math.max(1, p - 1))
-                      }}
-                      aria-disabled={currentPage === 1}
-                      className={currentPage === 1 ? "pointer-events-none opacity-50" : ""}
-                    />
-                  </PaginationItem>
-
-                  {Array.from({ length: totalPages }, (_, i) => i + 1).map((page) => (
-                    <PaginationItem key={page}>
-                      <PaginationLink
-                        href="#"
-                        isActive={page === currentPage}
-                        onClick={(e) => {
-                          e.preventDefault()
-                          setCurrentPage(page)
-                        }}
-                      >
-                        {page}
-                      </PaginationLink>
-                    </PaginationItem>
-                  ))}
-
-                  <PaginationItem>
-                    <PaginationNext
-                      href="#"
-                      onClick={(e) => {
-                        e.preventDefault()
-                        setCurrentPage((p) => Math.min(totalPages, p + 1))
-                      }}
-                      aria-disabled={currentPage === totalPages}
-                      className={currentPage === totalPages ? "pointer-events-none opacity-50" : ""}
-                    />
-                  </PaginationItem>
-                </PaginationContent>
-              </Pagination>
-            </div>
-          )}
-        </CardContent>
-      </Card>
+            </CardContent>
+          </Card>
+        </>
+      )}
 
       <Dialog open={!!selectedNotes} onOpenChange={(open) => !open && setSelectedNotes(null)}>
         <DialogContent className="w-[calc(100vw-2rem)] max-w-lg rounded-2xl">
@@ -0,0 +1,260 @@
+import { useEffect, useMemo, useState } from "react"
+import { format, subDays } from "date-fns"
+import { CalendarDays, FileSpreadsheet, History, Loader2 } from "lucide-react"
+import { toast } from "sonner"
+
+import { Button } from "@/components/ui/button"
+import { Calendar } from "@/components/ui/calendar"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { AuditEntryChanges } from "@/admin/components/audit-history-sheet"
+import {
+  auditApi,
+  getErrorMessage,
+  isAbortError,
+  type AuditEntityType,
+  type AuditEntryDto,
+} from "@/lib/api"
+import {
+  AUDIT_ENTITY_TYPES,
+  auditActionLabel,
+  auditChanges,
+  auditFieldLabel,
+  formatAuditTime,
+  formatAuditValue,
+} from "@/lib/audit"
+import { exportTablesToXlsx } from "@/lib/export"
+import { ROLE_DEFINITIONS, roleOf, usePermissions } from "@/lib/permissions"
+import { setSearchParams, useDateRangeSearchParams, useSearchParam } from "@/lib/router"
+import { useUserStore } from "@/stores/user-store"
+
+const isEntityType = (v: string | null): v is AuditEntityType => !!v && v in AUDIT_ENTITY_TYPES
+
+export function AdminAuditLog() {
+  const permissions = usePermissions()
+  const users = useUserStore((s) => s.users)
+  const fetchUsers = useUserStore((s) => s.fetchUsers)
+
+  // Filters live in the URL so a filtered log can be shared
+  const [actorParam] = useSearchParam("actor")
+  const [entityParam] = useSearchParam("entity")
+  const actorId = actorParam || "all"
+  const entityType = isEntityType(entityParam) ? entityParam : "all"
+  const [range, setRange] = useDateRangeSearchParams(() => ({ from: subDays(new Date(), 30), to: new Date() }))
+  const [isRangeOpen, setIsRangeOpen] = useState(false)
+
+  const fromKey = range?.from ? format(range.from, "yyyy-MM-dd") : undefined
+  const toKey = range?.to ? format(range.to, "yyyy-MM-dd") : fromKey
+  const loadKey = `${actorId}|${entityType}|${fromKey || ""}|${toKey || ""}`
+  const [loaded, setLoaded] = useState<{ key: string; entries: AuditEntryDto[] }>({ key: "", entries: [] })
+  const isLoading = loaded.key !== loadKey
+
+  useEffect(() => {
+    fetchUsers()
+  }, [fetchUsers])
+
+  useEffect(() => {
+    const controller = new AbortController()
+    auditApi
+      .list(
+        {
+          actorId: actorId === "all" ? undefined : actorId,
+          entityType: entityType === "all" ? undefined : entityType,
+          from: fromKey,
+          to: toKey,
+        },
+        controller.signal
+      )
+      .then((data) => setLoaded({ key: loadKey, entries: data.entries || [] }))
+      .catch((e) => {
+        if (isAbortError(e)) return
+        toast.error(getErrorMessage(e, "Failed to load audit log"))
+        setLoaded({ key: loadKey, entries: [] })
+      })
+    return () => controller.abort()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [loadKey])
+
+  const entries = useMemo(
+    () => (isLoading ? [] : loaded.entries.slice().sort((a, b) => b.createdAt.localeCompare(a.createdAt))),
+    [isLoading, loaded.entries]
+  )
+
+  // Only accounts that can reach the admin portal make administrative changes
+  const actors = useMemo(
+    () =>
+      users
+        .filter((u) => ROLE_DEFINITIONS[roleOf(u)].portal === "admin")
+        .sort((a, b) => (a.name || a.username).localeCompare(b.name || b.username)),
+    [users]
+  )
+
+  const periodLabel =
+    range?.from && range?.to
+      ? `${format(range.from, "MMM d")} – ${format(range.to, "MMM d, yyyy")}`
+      : range?.from
+        ? format(range.from, "MMM d, yyyy")
+        : "All dates"
+
+  const exportXlsx = () => {
+    exportTablesToXlsx(`audit-log-${fromKey || "all"}-${toKey || "all"}`, [
+      {
+        title: "Audit Log",
+        subtitle: [`Period: ${periodLabel}`],
+        sheetName: "Audit Log",
+        head: ["Time", "User", "Action", "Record type", "Record", "Changes"],
+        body: entries.map((e) => [
+          formatAuditTime(e.createdAt),
+          e.actorName || e.actorUsername || "",
+          auditActionLabel(e.action),
+          AUDIT_ENTITY_TYPES[e.entityType] || e.entityType,
+          e.entityLabel || e.entityId,
+          auditChanges(e)
+            .map((c) => `${auditFieldLabel(c.field)}: ${formatAuditValue(c.before)} → ${formatAuditValue(c.after)}`)
+            .join("; "),
+        ]),
+      },
+    ])
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-col gap-3 space-y-0 lg:flex-row lg:items-start lg:justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <History className="size-5" />
+              Audit Log
+            </CardTitle>
+            <CardDescription>
+              Who changed user accounts, the school directory and distribution quantities, and what changed.
+            </CardDescription>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <Select value={actorId} onValueChange={(v) => setSearchParams({ actor: v === "all" ? null : v })}>
+              <SelectTrigger className="h-9 w-[190px] rounded-xl">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All users</SelectItem>
+                {actors.map((u) => (
+                  <SelectItem key={u.id} value={u.id}>
+                    {u.name || u.username}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={entityType} onValueChange={(v) => setSearchParams({ entity: v === "all" ? null : v })}>
+              <SelectTrigger className="h-9 w-[170px] rounded-xl">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All records</SelectItem>
+                {(Object.keys(AUDIT_ENTITY_TYPES) as AuditEntityType[]).map((t) => (
+                  <SelectItem key={t} value={t}>
+                    {AUDIT_ENTITY_TYPES[t]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Popover open={isRangeOpen} onOpenChange={setIsRangeOpen}>
+              <PopoverTrigger asChild>
+                <Button type="button" variant="outline" className="h-9 rounded-xl">
+                  <CalendarDays className="mr-1 size-4 text-gray-400" />
+                  {periodLabel}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto overflow-hidden rounded-xl border p-0 shadow-lg" align="end">
+                <Calendar
+                  mode="range"
+                  selected={range}
+                  onSelect={(r) => setRange(r)}
+                  numberOfMonths={2}
+                  className="p-2 [--cell-size:--spacing(7)]"
+                />
+              </PopoverContent>
+            </Popover>
+            <Button
+              type="button"
+              variant="outline"
+              className="h-9 rounded-xl"
+              disabled={!permissions.can("audit", "export") || isLoading || !entries.length}
+              onClick={exportXlsx}
+            >
+              <FileSpreadsheet className="mr-1 size-4" />
+              Export
+            </Button>
+          </div>
+        </CardHeader>
+      </Card>
+
+      <Card>
+        <CardContent className="pt-6">
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-[170px]">Time</TableHead>
+                  <TableHead>User</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Record</TableHead>
+                  <TableHead>Changes</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="py-10 text-center text-muted-foreground">
+                      <Loader2 className="mr-2 inline size-4 animate-spin" />
+                      Loading...
+                    </TableCell>
+                  </TableRow>
+                ) : entries.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="py-10 text-center text-muted-foreground">
+                      No changes logged for the selected filters.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  entries.map((e) => (
+                    <TableRow key={e.id} className="align-top">
+                      <TableCell className="whitespace-nowrap text-xs text-muted-foreground">
+                        {formatAuditTime(e.createdAt)}
+                      </TableCell>
+                      <TableCell className="text-sm">{e.actorName || e.actorUsername || "Unknown"}</TableCell>
+                      <TableCell className="text-sm font-medium">{auditActionLabel(e.action)}</TableCell>
+                      <TableCell className="text-sm">
+                        <div>{e.entityLabel || e.entityId}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {AUDIT_ENTITY_TYPES[e.entityType] || e.entityType}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <AuditEntryChanges entry={e} />
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
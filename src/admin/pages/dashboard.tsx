@@ -34,8 +34,17 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog"
 import { AnnouncementsFeedPage } from "@/components/announcements-feed-page"
+import {
+  attendanceApi,
+  deliveryApi,
+  resolveApiUrl,
+  type AdminDeliveryRecordDto,
+  type AttendanceRecordDto,
+} from "@/lib/api"
+import { usePermissions } from "@/lib/permissions"
+import { navigate, useSearchParam } from "@/lib/router"
+import { ADMIN_ROUTES } from "@/lib/routes"
 import { DashboardAnnouncements } from "../components/dashboard-announcements"
-import { useAdminNavStore } from "../admin-nav-store"
 
 type ActivityItem = {
   id: string
@@ -45,69 +54,6 @@ type ActivityItem = {
   variant: "success" | "warning" | "info"
 }
 
-function getApiBaseUrl() {
-  const envAny = (import.meta as any)?.env as any
-  const fromEnv = (envAny?.VITE_API_BASE_URL || envAny?.VITE_API_URL) as string | undefined
-  return (fromEnv || "http://localhost:8000").replace(/\/+$/, "")
-}
-
-function getAuthToken(): string | null {
-  try {
-    const raw = localStorage.getItem("bhss_auth")
-    if (!raw) return null
-    const parsed = JSON.parse(raw) as { token?: string }
-    return parsed?.token || null
-  } catch {
-    return null
-  }
-}
-
-async function apiFetch(path: string) {
-  const token = getAuthToken()
-  if (!token) throw new Error("Not authenticated")
-
-  const res = await fetch(`${getApiBaseUrl()}${path}`, {
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${token}`,
-    },
-  })
-
-  const data = await res.json().catch(() => ({}))
-  if (!res.ok) throw new Error((data as any)?.message || "Request failed")
-  return data
-}
-
-type AdminAttendanceRecord = {
-  _id: string
-  dateKey: string
-  grade?: string
-  present?: number
-  absent?: number
-  school?: string
-  municipality?: string
-  createdAt?: string
-  updatedAt?: string
-}
-
-type AdminDeliveryRecord = {
-  id: string
-  dateKey: string
-  municipality: string
-  school: string
-  userName?: string
-  hlaManagerName?: string
-  username?: string
-  categoryKey: string
-  categoryLabel: string
-  status: "Pending" | "Delivered" | "Delayed" | "Cancelled"
-  statusReason?: string
-  uploadedAt?: string
-  images?: Array<{ url: string; filename: string }>
-  concerns?: string[]
-  remarks?: string
-}
-
 function useBreakpoint(maxWidth: number) {
   const [matches, setMatches] = useState(false)
 
@@ -141,18 +87,19 @@ const MUNICIPALITY_COLORS = [
 ]
 
 export function Dashboard() {
-  const setActiveItem = useAdminNavStore((s) => s.setActiveItem)
   const isXs = useBreakpoint(420)
   const isSm = useBreakpoint(640)
+  const permissions = usePermissions()
 
-  const [activeView, setActiveView] = useState<"dashboard" | "announcements">("dashboard")
+  const [viewParam, setViewParam] = useSearchParam("view")
+  const activeView: "dashboard" | "announcements" = viewParam === "announcements" ? "announcements" : "dashboard"
 
-  const [attendance, setAttendance] = useState<AdminAttendanceRecord[]>([])
-  const [deliveries, setDeliveries] = useState<AdminDeliveryRecord[]>([])
+  const [attendance, setAttendance] = useState<AttendanceRecordDto[]>([])
+  const [deliveries, setDeliveries] = useState<AdminDeliveryRecordDto[]>([])
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
-  const [selectedConcern, setSelectedConcern] = useState<AdminDeliveryRecord | null>(null)
+  const [selectedConcern, setSelectedConcern] = useState<AdminDeliveryRecordDto | null>(null)
   const [imagePreviewIndex, setImagePreviewIndex] = useState<number | null>(null)
 
   useEffect(() => {
@@ -167,13 +114,14 @@ export function Dashboard() {
       setIsLoading(true)
       setError(null)
       try {
+        const municipality = permissions.municipality ?? undefined
         const [att, del] = await Promise.all([
-          apiFetch(`/api/admin/attendance/history?from=${fromKey}&to=${toKey}&sort=newest`),
-          apiFetch(`/api/admin/delivery/history?from=${fromKey}&to=${toKey}&sort=newest`),
+          attendanceApi.adminHistory({ from: fromKey, to: toKey, sort: "newest", municipality }),
+          deliveryApi.adminHistory({ from: fromKey, to: toKey, sort: "newest", municipality }),
         ])
         if (cancelled) return
-        setAttendance(((att as any)?.records || []) as AdminAttendanceRecord[])
-        setDeliveries(((del as any)?.records || []) as AdminDeliveryRecord[])
+        setAttendance((att.records || []).filter((a) => permissions.inScope(a.municipality, a.school)))
+        setDeliveries((del.records || []).filter((d) => permissions.inScope(d.municipality, d.school)))
       } catch (e: any) {
         if (cancelled) return
         setError(e?.message || "Failed to load data")
@@ -183,7 +131,7 @@ export function Dashboard() {
     }
     run()
     return () => { cancelled = true }
-  }, [])
+  }, [permissions])
 
   const distinctSchools = useMemo(() => {
     const s = new Set<string>()
@@ -412,7 +360,7 @@ export function Dashboard() {
           </div>
           <button
             type="button"
-            onClick={() => setActiveView("dashboard")}
+            onClick={() => setViewParam(null, { replace: false })}
             className="inline-flex items-center gap-2 rounded-xl border border-gray-200 bg-white px-4 py-2 text-sm font-medium text-gray-600 shadow-sm transition-all hover:border-gray-300 hover:text-gray-800"
           >
             ← Back to dashboard
@@ -451,13 +399,13 @@ export function Dashboard() {
             Dashboard
           </h1>
           <p className="mt-1 text-sm text-gray-500">
-            Bataan Healthy School Setting — Admin overview
+            Bataan Healthy School Setting — {permissions.municipality ? `${permissions.municipality} overview` : "Admin overview"}
           </p>
         </div>
 
         <button
           type="button"
-          onClick={() => setActiveView("announcements")}
+          onClick={() => setViewParam("announcements", { replace: false })}
           className="inline-flex items-center gap-2 rounded-xl bg-green-600 px-4 py-2.5 text-sm font-semibold text-white shadow-md shadow-green-200 transition-all hover:bg-green-500 active:scale-[0.97]"
         >
           <Megaphone className="size-4" />
@@ -515,7 +463,7 @@ export function Dashboard() {
               </div>
               <button
                 type="button"
-                onClick={() => setActiveItem("Delivery")}
+                onClick={() => navigate(ADMIN_ROUTES.delivery)}
                 className="inline-flex items-center gap-1.5 rounded-xl border border-gray-200 bg-white px-3 py-1.5 text-xs font-semibold text-gray-600 transition-all hover:border-gray-300 hover:text-gray-800"
               >
                 View all
@@ -682,7 +630,7 @@ export function Dashboard() {
                             className="group overflow-hidden rounded-xl border border-gray-200 bg-white focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-green-400/50"
                           >
                             <img
-                              src={`${getApiBaseUrl()}${img.url}`}
+                              src={resolveApiUrl(img.url)}
                               alt={img.filename || `image-${idx + 1}`}
                               className="h-28 w-full object-cover transition-transform group-hover:scale-[1.04]"
                               loading="lazy"
@@ -723,7 +671,7 @@ export function Dashboard() {
               <div className="grid gap-4">
                 <div className="overflow-hidden rounded-xl border border-gray-100 bg-gray-50">
                   <img
-                    src={`${getApiBaseUrl()}${img.url}`}
+                    src={resolveApiUrl(img.url)}
                     alt={img.filename || `image-${idx + 1}`}
                     className="max-h-[65vh] w-full object-contain bg-white"
                   />
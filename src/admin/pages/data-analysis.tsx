@@ -1,25 +1,934 @@
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
-import { BarChart3 } from "lucide-react"
+import { useEffect, useMemo, useState } from "react"
+import { format, subDays } from "date-fns"
+import { BarChart3, CalendarDays, Download, FileSpreadsheet, Loader2 } from "lucide-react"
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts"
+import { toast } from "sonner"
 
+import { Calendar } from "@/components/ui/calendar"
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  attendanceApi,
+  deliveryApi,
+  distributionApi,
+  getErrorMessage,
+  isAbortError,
+  schoolDirectoryApi,
+  type DistributionCategory,
+} from "@/lib/api"
+import { DISTRIBUTION_CATEGORIES, DISTRIBUTION_SCHEMAS, rowsFromSaved } from "@/lib/distribution-import"
+import { exportTablesToPdf, exportTablesToXlsx, type ExportTable } from "@/lib/export"
+import { BATAAN_MUNICIPALITIES } from "@/lib/municipalities"
+import {
+  buildPivot,
+  buildTimeSeries,
+  formatBucketLabel,
+  formatPivotNumber,
+  PIVOT_AGGREGATIONS,
+  type PivotAggregation,
+  type PivotDimension,
+  type PivotMeasure,
+  type TimeBucket,
+} from "@/lib/pivot"
+import { useMunicipalityParam, usePermissions } from "@/lib/permissions"
+import { formatDateParam, setSearchParams, useDateRangeSearchParams, useSearchParam } from "@/lib/router"
+
+// ─── Data model ───────────────────────────────────────────────────────────────
+// Every dataset is flattened into the same fact shape so that filters, the
+// pivot builder, the chart and the exports work the same way for all of them.
+
+type Fact = {
+  /** `yyyy-MM-dd`; empty for undated datasets. */
+  dateKey: string
+  municipality: string
+  school: string
+  grade: string
+  category: string
+  status: string
+  present: number
+  absent: number
+  quantity: number
+  beneficiaries: number
+  concerns: number
+}
+
+type DatasetKey = "attendance" | "delivery" | "distribution" | "beneficiaries"
+
+const SCHOOL_YEARS = ["2024-2025", "2025-2026", "2026-2027"]
+
+const DIMENSIONS: Record<string, PivotDimension<Fact>> = {
+  municipality: { key: "municipality", label: "Municipality", get: (f) => f.municipality },
+  school: { key: "school", label: "School", get: (f) => f.school },
+  grade: { key: "grade", label: "Grade", get: (f) => f.grade },
+  category: { key: "category", label: "Category", get: (f) => f.category },
+  status: { key: "status", label: "Status", get: (f) => f.status },
+  date: { key: "date", label: "Date", get: (f) => f.dateKey },
+  month: { key: "month", label: "Month", get: (f) => f.dateKey.slice(0, 7) },
+}
+
+const MEASURES: Record<string, PivotMeasure<Fact>> = {
+  records: { key: "records", label: "Records", get: () => 1 },
+  present: { key: "present", label: "Present", get: (f) => f.present },
+  absent: { key: "absent", label: "Absent", get: (f) => f.absent },
+  learners: { key: "learners", label: "Learners counted", get: (f) => f.present + f.absent },
+  delivered: { key: "delivered", label: "Delivered", get: (f) => (f.status === "Delivered" ? 1 : 0) },
+  delayed: { key: "delayed", label: "Delayed", get: (f) => (f.status === "Delayed" ? 1 : 0) },
+  cancelled: { key: "cancelled", label: "Cancelled", get: (f) => (f.status === "Cancelled" ? 1 : 0) },
+  concerns: { key: "concerns", label: "Concerns", get: (f) => f.concerns },
+  quantity: { key: "quantity", label: "Quantity", get: (f) => f.quantity },
+  beneficiaries: { key: "beneficiaries", label: "Beneficiaries", get: (f) => f.beneficiaries },
+}
+
+type DatasetConfig = {
+  label: string
+  description: string
+  dated: boolean
+  dimensions: string[]
+  measures: string[]
+  defaults: { rows: string; cols: string | null; measure: string; agg: PivotAggregation }
+  columns: Array<{ label: string; get: (f: Fact) => string | number }>
+}
+
+const DATASETS: Record<DatasetKey, DatasetConfig> = {
+  attendance: {
+    label: "Attendance",
+    description: "Daily present/absent counts per grade",
+    dated: true,
+    dimensions: ["municipality", "school", "grade", "date", "month"],
+    measures: ["present", "absent", "learners", "records"],
+    defaults: { rows: "municipality", cols: "grade", measure: "present", agg: "sum" },
+    columns: [
+      { label: "Date", get: (f) => f.dateKey },
+      { label: "Municipality", get: (f) => f.municipality },
+      { label: "School", get: (f) => f.school },
+      { label: "Grade", get: (f) => f.grade },
+      { label: "Present", get: (f) => f.present },
+      { label: "Absent", get: (f) => f.absent },
+    ],
+  },
+  delivery: {
+    label: "Delivery",
+    description: "Delivery logs per item and status",
+    dated: true,
+    dimensions: ["municipality", "school", "category", "status", "date", "month"],
+    measures: ["records", "delivered", "delayed", "cancelled", "concerns"],
+    defaults: { rows: "municipality", cols: "status", measure: "records", agg: "sum" },
+    columns: [
+      { label: "Date", get: (f) => f.dateKey },
+      { label: "Municipality", get: (f) => f.municipality },
+      { label: "School", get: (f) => f.school },
+      { label: "Category", get: (f) => f.category },
+      { label: "Status", get: (f) => f.status },
+      { label: "Concerns", get: (f) => f.concerns },
+    ],
+  },
+  distribution: {
+    label: "Distribution",
+    description: "Latest distribution batch of every category",
+    dated: false,
+    dimensions: ["municipality", "school", "category"],
+    measures: ["quantity", "records"],
+    defaults: { rows: "municipality", cols: "category", measure: "quantity", agg: "sum" },
+    columns: [
+      { label: "Municipality", get: (f) => f.municipality },
+      { label: "School", get: (f) => f.school },
+      { label: "Category", get: (f) => f.category },
+      { label: "Quantity", get: (f) => f.quantity },
+    ],
+  },
+  beneficiaries: {
+    label: "Beneficiaries",
+    description: "School directory beneficiaries per grade",
+    dated: false,
+    dimensions: ["municipality", "school", "grade"],
+    measures: ["beneficiaries", "records"],
+    defaults: { rows: "municipality", cols: "grade", measure: "beneficiaries", agg: "sum" },
+    columns: [
+      { label: "Municipality", get: (f) => f.municipality },
+      { label: "School", get: (f) => f.school },
+      { label: "Grade", get: (f) => f.grade },
+      { label: "Beneficiaries", get: (f) => f.beneficiaries },
+    ],
+  },
+}
+
+const DATASET_KEYS = Object.keys(DATASETS) as DatasetKey[]
+
+const SERIES_COLORS = ["#16a34a", "#2563eb", "#f59e0b", "#e11d48", "#7c3aed", "#0891b2", "#64748b"]
+
+const EMPTY_FACT: Fact = {
+  dateKey: "",
+  municipality: "",
+  school: "",
+  grade: "",
+  category: "",
+  status: "",
+  present: 0,
+  absent: 0,
+  quantity: 0,
+  beneficiaries: 0,
+  concerns: 0,
+}
+
+type LoadParams = { from?: string; to?: string; schoolYear: string; municipality?: string }
+
+async function loadDistributionFacts<C extends DistributionCategory>(
+  category: C,
+  municipality: string | undefined,
+  signal: AbortSignal
+): Promise<Fact[]> {
+  const schema = DISTRIBUTION_SCHEMAS[category]
+  const data = await distributionApi.latest(category, { municipality }, signal)
+  return rowsFromSaved(schema, data.rows || []).map((r) => ({
+    ...EMPTY_FACT,
+    municipality: r.municipality.trim(),
+    school: r.school.trim(),
+    category: schema.title.replace(/ Distribution$/, ""),
+    quantity: r.values[schema.quantityKey] || 0,
+  }))
+}
+
+async function loadFacts(dataset: DatasetKey, params: LoadParams, signal: AbortSignal): Promise<Fact[]> {
+  switch (dataset) {
+    case "attendance": {
+      const data = await attendanceApi.adminHistory(
+        { from: params.from, to: params.to, sort: "oldest", municipality: params.municipality },
+        signal
+      )
+      return (data.records || []).map((r) => ({
+        ...EMPTY_FACT,
+        dateKey: String(r.dateKey || ""),
+        municipality: String(r.municipality || "").trim(),
+        school: String(r.school || "").trim(),
+        grade: String(r.grade || "").trim(),
+        present: Number(r.present || 0),
+        absent: Number(r.absent || 0),
+      }))
+    }
+    case "delivery": {
+      const data = await deliveryApi.adminHistory(
+        { from: params.from, to: params.to, sort: "oldest", municipality: params.municipality },
+        signal
+      )
+      return (data.records || []).map((r) => ({
+        ...EMPTY_FACT,
+        dateKey: String(r.dateKey || ""),
+        municipality: String(r.municipality || "").trim(),
+        school: String(r.school || "").trim(),
+        category: String(r.categoryLabel || r.categoryKey || "").trim(),
+        status: String(r.status || "Pending"),
+        concerns: Array.isArray(r.concerns) ? r.concerns.length : 0,
+      }))
+    }
+    case "distribution": {
+      const batches = await Promise.all(
+        DISTRIBUTION_CATEGORIES.map((c) => loadDistributionFacts(c, params.municipality, signal))
+      )
+      return batches.flat()
+    }
+    case "beneficiaries": {
+      const data = await schoolDirectoryApi.listBeneficiaries(
+        { schoolYear: params.schoolYear, municipality: params.municipality },
+        signal
+      )
+      return (data.rows || []).flatMap((r) =>
+        (
+          [
+            ["Grade 2", r.grade2],
+            ["Grade 3", r.grade3],
+            ["Grade 4", r.grade4],
+          ] as const
+        ).map(([grade, count]) => ({
+          ...EMPTY_FACT,
+          municipality: String(r.municipality || "").trim(),
+          school: String(r.schoolName || "").trim(),
+          grade,
+          beneficiaries: Number(count || 0),
+        }))
+      )
+    }
+  }
+}
+
+function uniqueSorted(values: string[]) {
+  return Array.from(new Set(values.filter(Boolean))).sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))
+}
+
+function formatDimensionValue(dimKey: string, value: string) {
+  if (!value) return value
+  if (dimKey === "date") return format(new Date(`${value}T00:00:00`), "MMM dd, yyyy")
+  if (dimKey === "month") return format(new Date(`${value}-01T00:00:00`), "MMM yyyy")
+  return value
+}
+
+// ─── Main Component ───────────────────────────────────────────────────────────
 export function DataAnalysis() {
+  const permissions = usePermissions()
+  const canExport = permissions.can("dataAnalysis", "export")
+  // The whole view (dataset, filters, pivot layout, chart) lives in the URL so
+  // an analysis can be bookmarked or shared as a link.
+  const [datasetParam] = useSearchParam("dataset")
+  const dataset: DatasetKey = DATASET_KEYS.includes(datasetParam as DatasetKey)
+    ? (datasetParam as DatasetKey)
+    : "attendance"
+  const config = DATASETS[dataset]
+
+  const [range, setRange] = useDateRangeSearchParams(() => {
+    const today = new Date()
+    return { from: subDays(today, 29), to: today }
+  })
+  const [isRangeOpen, setIsRangeOpen] = useState(false)
+  const [schoolYearParam, setSchoolYearParam] = useSearchParam("schoolYear")
+  const schoolYear = schoolYearParam || "2025-2026"
+
+  const { municipality: municipalityParam, locked: isMunicipalityLocked } = useMunicipalityParam()
+  const [schoolParam, setSchoolParam] = useSearchParam("school")
+  const [gradeParam, setGradeParam] = useSearchParam("grade")
+  const selectedMunicipality = municipalityParam || "all"
+  const selectedSchool = schoolParam || "all"
+  const selectedGrade = gradeParam || "all"
+
+  const [rowsParam] = useSearchParam("rows")
+  const [colsParam] = useSearchParam("cols")
+  const [measureParam] = useSearchParam("measure")
+  const [aggParam] = useSearchParam("agg")
+  const rowDimKey = config.dimensions.includes(rowsParam || "") ? rowsParam! : config.defaults.rows
+  const colDimKey =
+    colsParam === "none"
+      ? null
+      : config.dimensions.includes(colsParam || "") && colsParam !== rowDimKey
+        ? colsParam!
+        : config.defaults.cols === rowDimKey
+          ? null
+          : config.defaults.cols
+  const measureKey = config.measures.includes(measureParam || "") ? measureParam! : config.defaults.measure
+  const agg: PivotAggregation = PIVOT_AGGREGATIONS.some((a) => a.value === aggParam)
+    ? (aggParam as PivotAggregation)
+    : config.defaults.agg
+
+  const [bucketParam, setBucketParam] = useSearchParam("bucket")
+  const bucket: TimeBucket = bucketParam === "day" || bucketParam === "month" ? bucketParam : "week"
+  const [splitParam, setSplitParam] = useSearchParam("split")
+  const splitDimKey =
+    splitParam && config.dimensions.includes(splitParam) && splitParam !== "date" && splitParam !== "month"
+      ? splitParam
+      : null
+
+  const fromKey = config.dated ? formatDateParam(range?.from) || undefined : undefined
+  const toKey = config.dated ? formatDateParam(range?.to || range?.from) || undefined : undefined
+  const scopedMunicipality = permissions.municipality ?? undefined
+  const requestKey = [
+    dataset,
+    fromKey,
+    toKey,
+    dataset === "beneficiaries" ? schoolYear : "",
+    scopedMunicipality || "",
+  ].join("|")
+
+  // Loading is derived from which request the facts belong to
+  const [loaded, setLoaded] = useState<{ key: string; facts: Fact[] }>({ key: "", facts: [] })
+  const isLoading = loaded.key !== requestKey
+  const facts = useMemo(() => (isLoading ? [] : loaded.facts), [isLoading, loaded.facts])
+
+  useEffect(() => {
+    const controller = new AbortController()
+    loadFacts(dataset, { from: fromKey, to: toKey, schoolYear, municipality: scopedMunicipality }, controller.signal)
+      .then((next) =>
+        setLoaded({ key: requestKey, facts: next.filter((f) => permissions.inScope(f.municipality, f.school)) })
+      )
+      .catch((e) => {
+        if (isAbortError(e)) return
+        toast.error(getErrorMessage(e, "Failed to load data"))
+        setLoaded({ key: requestKey, facts: [] })
+      })
+    return () => controller.abort()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [requestKey])
+
+  const municipalityOptions = useMemo(
+    () => uniqueSorted([...BATAAN_MUNICIPALITIES, ...facts.map((f) => f.municipality)]),
+    [facts]
+  )
+  const schoolOptions = useMemo(
+    () =>
+      uniqueSorted(
+        facts
+          .filter((f) => selectedMunicipality === "all" || f.municipality === selectedMunicipality)
+          .map((f) => f.school)
+      ),
+    [facts, selectedMunicipality]
+  )
+  const hasGrade = config.dimensions.includes("grade")
+  const gradeOptions = useMemo(() => uniqueSorted(facts.map((f) => f.grade)), [facts])
+
+  const filteredFacts = useMemo(() => {
+    return facts.filter((f) => {
+      if (selectedMunicipality !== "all" && f.municipality !== selectedMunicipality) return false
+      if (selectedSchool !== "all" && f.school !== selectedSchool) return false
+      if (hasGrade && selectedGrade !== "all" && f.grade !== selectedGrade) return false
+      return true
+    })
+  }, [facts, hasGrade, selectedGrade, selectedMunicipality, selectedSchool])
+
+  const rowDim = DIMENSIONS[rowDimKey]
+  const colDim = colDimKey ? DIMENSIONS[colDimKey] : null
+  const measure = MEASURES[measureKey]
+
+  const pivot = useMemo(
+    () => buildPivot(filteredFacts, { rowDim, colDim, measure, agg }),
+    [filteredFacts, rowDim, colDim, measure, agg]
+  )
+
+  const timeSeries = useMemo(() => {
+    if (!config.dated) return null
+    return buildTimeSeries(filteredFacts, {
+      getDateKey: (f) => f.dateKey,
+      bucket,
+      measure,
+      agg,
+      splitDim: splitDimKey ? DIMENSIONS[splitDimKey] : null,
+    })
+  }, [agg, bucket, config.dated, filteredFacts, measure, splitDimKey])
+
+  const chartConfig = useMemo(() => {
+    const out: ChartConfig = {}
+    timeSeries?.series.forEach((s, i) => {
+      out[s.key] = { label: s.label, color: SERIES_COLORS[i % SERIES_COLORS.length] }
+    })
+    return out
+  }, [timeSeries])
+
+  const kpis = useMemo(() => {
+    const schools = new Set(filteredFacts.map((f) => `${f.municipality}::${f.school}`)).size
+    const municipalities = new Set(filteredFacts.map((f) => f.municipality).filter(Boolean)).size
+    const sum = (m: string) => filteredFacts.reduce((acc, f) => acc + MEASURES[m].get(f), 0)
+    const cards = [
+      { label: "Records", value: filteredFacts.length.toLocaleString() },
+      { label: "Coverage", value: `${municipalities} mun. • ${schools} schools` },
+    ]
+    if (dataset === "attendance") {
+      const present = sum("present")
+      const learners = sum("learners")
+      cards.push({ label: "Present", value: present.toLocaleString() })
+      cards.push({ label: "Attendance rate", value: learners ? `${((present / learners) * 100).toFixed(1)}%` : "—" })
+    } else if (dataset === "delivery") {
+      const delivered = sum("delivered")
+      cards.push({
+        label: "Delivered",
+        value: filteredFacts.length ? `${((delivered / filteredFacts.length) * 100).toFixed(1)}%` : "—",
+      })
+      cards.push({ label: "Concerns", value: sum("concerns").toLocaleString() })
+    } else if (dataset === "distribution") {
+      cards.push({ label: "Quantity", value: sum("quantity").toLocaleString() })
+    } else {
+      cards.push({ label: "Beneficiaries", value: sum("beneficiaries").toLocaleString() })
+    }
+    return cards
+  }, [dataset, filteredFacts])
+
+  const rangeLabel = useMemo(() => {
+    if (!range?.from && !range?.to) return "All dates"
+    if (range?.from && !range?.to) return format(range.from, "MMM dd, yyyy")
+    if (range?.from && range?.to) return `${format(range.from, "MMM dd, yyyy")} – ${format(range.to, "MMM dd, yyyy")}`
+    return "All dates"
+  }, [range])
+
+  const filterSummary = useMemo(() => {
+    const parts = [
+      `Dataset: ${config.label}`,
+      config.dated ? `Range: ${rangeLabel}` : dataset === "beneficiaries" ? `School year: ${schoolYear}` : null,
+      `Municipality: ${selectedMunicipality === "all" ? "All" : selectedMunicipality}`,
+      `School: ${selectedSchool === "all" ? "All" : selectedSchool}`,
+      hasGrade ? `Grade: ${selectedGrade === "all" ? "All" : selectedGrade}` : null,
+    ]
+    return parts.filter(Boolean).join(" • ")
+  }, [config, dataset, hasGrade, rangeLabel, schoolYear, selectedGrade, selectedMunicipality, selectedSchool])
+
+  const aggLabel = PIVOT_AGGREGATIONS.find((a) => a.value === agg)?.label || agg
+  const pivotTitle = `${aggLabel} of ${measure.label} by ${rowDim.label}${colDim ? ` and ${colDim.label}` : ""}`
+
+  const MAX_PIVOT_ROWS = 300
+  const visibleRowKeys = pivot.rowKeys.slice(0, MAX_PIVOT_ROWS)
+
+  // ─── Export ────────────────────────────────────────────────────────────────
+  const buildExportTables = (includeData: boolean): ExportTable[] => {
+    const colLabels = colDim ? pivot.colKeys.map((c) => formatDimensionValue(colDim.key, c)) : [measure.label]
+    const tables: ExportTable[] = [
+      {
+        title: pivotTitle,
+        subtitle: [filterSummary],
+        sheetName: "Pivot",
+        head: [rowDim.label, ...colLabels, ...(colDim ? ["Total"] : [])],
+        body: [
+          ...pivot.rowKeys.map((r) => [
+            formatDimensionValue(rowDim.key, r),
+            ...pivot.colKeys.map((c) => pivot.value(r, c)),
+            ...(colDim ? [pivot.rowTotal(r)] : []),
+          ]),
+          ["Total", ...pivot.colKeys.map((c) => pivot.colTotal(c)), ...(colDim ? [pivot.grandTotal] : [])],
+        ],
+      },
+    ]
+    if (timeSeries && timeSeries.points.length) {
+      tables.push({
+        title: `${aggLabel} of ${measure.label} per ${bucket}`,
+        subtitle: [filterSummary],
+        sheetName: "Time series",
+        head: ["Period", ...timeSeries.series.map((s) => s.label)],
+        body: timeSeries.points.map((p) => [
+          formatBucketLabel(String(p.bucket), bucket),
+          ...timeSeries.series.map((s) => p[s.key] as number | null),
+        ]),
+      })
+    }
+    if (includeData) {
+      tables.push({
+        title: `${config.label} records`,
+        subtitle: [filterSummary],
+        sheetName: "Data",
+        head: config.columns.map((c) => c.label),
+        body: filteredFacts.map((f) => config.columns.map((c) => c.get(f))),
+      })
+    }
+    return tables
+  }
+
+  const exportFileName = `Data-Analysis_${config.label}_${format(new Date(), "yyyy-MM-dd")}`
+
+  const handleExportXlsx = () => {
+    try {
+      exportTablesToXlsx(exportFileName, buildExportTables(true))
+    } catch (e) {
+      toast.error(getErrorMessage(e, "Failed to export XLSX"))
+    }
+  }
+
+  const handleExportPdf = () => {
+    try {
+      exportTablesToPdf(exportFileName, buildExportTables(false))
+    } catch (e) {
+      toast.error(getErrorMessage(e, "Failed to export PDF"))
+    }
+  }
+
+  const selectClass = "h-9 w-full rounded-xl border-gray-200 text-sm"
+
+  // ─── Render ────────────────────────────────────────────────────────────────
   return (
-    <div className="grid gap-4">
-      <Card>
-        <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <BarChart3 className="size-5" />
+    <div
+      className="space-y-6 min-w-0 overflow-x-hidden bg-gradient-to-br from-green-50 via-white to-teal-50/30 min-h-screen px-4 py-8 sm:px-6 lg:px-8"
+      style={{ fontFamily: "'Plus Jakarta Sans', 'Nunito', sans-serif" }}
+    >
+      {/* ── Header ── */}
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
+        <div>
+          <div className="mb-1.5 inline-flex items-center gap-1.5 rounded-full border border-green-200 bg-green-100 px-3 py-1 text-[11px] font-semibold uppercase tracking-widest text-green-700">
+            <BarChart3 className="size-3" />
+            Analytics
+          </div>
+          <h1
+            className="text-3xl font-extrabold tracking-tight text-gray-800 sm:text-4xl"
+            style={{ fontFamily: "'Playfair Display', Georgia, serif" }}
+          >
             Data Analysis
-          </CardTitle>
-          <CardDescription>
-            Analyze system data and generate reports
-          </CardDescription>
-        </CardHeader>
-        <CardContent>
-          <p className="text-sm text-muted-foreground">
-            Access comprehensive data analysis tools and generate detailed reports for insights.
-          </p>
-        </CardContent>
-      </Card>
+          </h1>
+          <p className="mt-1 text-sm text-gray-500">{config.description}</p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={handleExportXlsx}
+            disabled={!canExport || isLoading || !filteredFacts.length}
+            className="inline-flex h-9 items-center gap-2 rounded-xl border border-gray-200 bg-white px-3 text-sm text-gray-700 transition-all hover:border-gray-300 disabled:opacity-50"
+          >
+            <FileSpreadsheet className="size-4 text-green-600" />
+            Export XLSX
+          </button>
+          <button
+            type="button"
+            onClick={handleExportPdf}
+            disabled={!canExport || isLoading || !filteredFacts.length}
+            className="inline-flex h-9 items-center gap-2 rounded-xl bg-green-600 px-3 text-sm font-semibold text-white transition-all hover:bg-green-500 disabled:opacity-50"
+          >
+            <Download className="size-4" />
+            Export PDF
+          </button>
+        </div>
+      </div>
+
+      {/* ── Filters ── */}
+      <div className="rounded-2xl border border-gray-100 bg-white px-5 py-4 shadow-sm">
+        <div className="grid grid-cols-1 gap-2 sm:grid-cols-2 lg:grid-cols-12 lg:items-end">
+          <div className="min-w-0 lg:col-span-2">
+            <Select
+              value={dataset}
+              onValueChange={(v) =>
+                setSearchParams({
+                  dataset: v === "attendance" ? null : v,
+                  rows: null,
+                  cols: null,
+                  measure: null,
+                  agg: null,
+                  split: null,
+                  grade: null,
+                })
+              }
+            >
+              <SelectTrigger className={selectClass}>
+                <SelectValue placeholder="Dataset" />
+              </SelectTrigger>
+              <SelectContent>
+                {DATASET_KEYS.map((k) => (
+                  <SelectItem key={k} value={k}>
+                    {DATASETS[k].label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {config.dated ? (
+            <div className="min-w-0 lg:col-span-3">
+              <Popover open={isRangeOpen} onOpenChange={setIsRangeOpen}>
+                <PopoverTrigger asChild>
+                  <button
+                    type="button"
+                    className="inline-flex h-9 w-full items-center gap-2 rounded-xl border border-gray-200 bg-white px-3 text-sm text-gray-600 transition-all hover:border-gray-300 hover:text-gray-800"
+                  >
+                    <CalendarDays className="size-4 shrink-0 text-gray-400" />
+                    <span className="truncate">{rangeLabel}</span>
+                  </button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0 rounded-xl border shadow-lg overflow-hidden" align="start">
+                  <Calendar
+                    mode="range"
+                    selected={range}
+                    onSelect={(r) => setRange(r)}
+                    numberOfMonths={2}
+                    className="p-2 [--cell-size:--spacing(7)]"
+                  />
+                </PopoverContent>
+              </Popover>
+            </div>
+          ) : dataset === "beneficiaries" ? (
+            <div className="min-w-0 lg:col-span-3">
+              <Select value={schoolYear} onValueChange={(v) => setSchoolYearParam(v)}>
+                <SelectTrigger className={selectClass}>
+                  <SelectValue placeholder="School year" />
+                </SelectTrigger>
+                <SelectContent>
+                  {SCHOOL_YEARS.map((y) => (
+                    <SelectItem key={y} value={y}>
+                      {y}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ) : (
+            <div className="hidden lg:col-span-3 lg:block" />
+          )}
+
+          <div className="min-w-0 lg:col-span-2">
+            <Select
+              value={selectedMunicipality}
+              onValueChange={(v) => setSearchParams({ municipality: v === "all" ? null : v, school: null })}
+              disabled={isMunicipalityLocked}
+            >
+              <SelectTrigger className={selectClass}>
+                <SelectValue placeholder="Municipality" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Municipalities</SelectItem>
+                {municipalityOptions.map((m) => (
+                  <SelectItem key={m} value={m}>
+                    {m}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="min-w-0 lg:col-span-3">
+            <Select value={selectedSchool} onValueChange={(v) => setSchoolParam(v === "all" ? null : v)}>
+              <SelectTrigger className={selectClass}>
+                <SelectValue placeholder="School" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Schools</SelectItem>
+                {schoolOptions.map((s) => (
+                  <SelectItem key={s} value={s}>
+                    {s}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="min-w-0 lg:col-span-2">
+            <Select
+              value={selectedGrade}
+              onValueChange={(v) => setGradeParam(v === "all" ? null : v)}
+              disabled={!hasGrade}
+            >
+              <SelectTrigger className={selectClass}>
+                <SelectValue placeholder="Grade" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Grades</SelectItem>
+                {gradeOptions.map((g) => (
+                  <SelectItem key={g} value={g}>
+                    {g}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </div>
+
+      {/* ── KPI Cards ── */}
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        {kpis.map((card) => (
+          <div key={card.label} className="rounded-2xl border border-gray-100 bg-white p-5 shadow-sm">
+            <p className="text-xs font-semibold uppercase tracking-wider text-gray-400">{card.label}</p>
+            <p className="mt-2 text-2xl font-extrabold tracking-tight text-gray-800">
+              {isLoading ? <Loader2 className="size-5 animate-spin text-gray-300" /> : card.value}
+            </p>
+          </div>
+        ))}
+      </div>
+
+      {/* ── Pivot builder ── */}
+      <div className="rounded-2xl border border-gray-100 bg-white shadow-sm">
+        <div className="border-b border-gray-100 px-5 py-4 space-y-3">
+          <div className="flex items-center justify-between gap-3">
+            <h2 className="text-sm font-bold text-gray-800">{pivotTitle}</h2>
+            <p className="text-xs text-gray-400">
+              {pivot.rowKeys.length} row{pivot.rowKeys.length !== 1 ? "s" : ""}
+              {pivot.rowKeys.length > MAX_PIVOT_ROWS ? ` (showing ${MAX_PIVOT_ROWS}; export for all)` : ""}
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2 lg:grid-cols-4">
+            <div className="space-y-1">
+              <p className="text-[11px] font-semibold uppercase tracking-wider text-gray-400">Rows</p>
+              <Select value={rowDimKey} onValueChange={(v) => setSearchParams({ rows: v, cols: v === colDimKey ? "none" : colsParam })}>
+                <SelectTrigger className={selectClass}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {config.dimensions.map((d) => (
+                    <SelectItem key={d} value={d}>
+                      {DIMENSIONS[d].label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <p className="text-[11px] font-semibold uppercase tracking-wider text-gray-400">Columns</p>
+              <Select value={colDimKey || "none"} onValueChange={(v) => setSearchParams({ cols: v })}>
+                <SelectTrigger className={selectClass}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">None</SelectItem>
+                  {config.dimensions
+                    .filter((d) => d !== rowDimKey)
+                    .map((d) => (
+                      <SelectItem key={d} value={d}>
+                        {DIMENSIONS[d].label}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <p className="text-[11px] font-semibold uppercase tracking-wider text-gray-400">Value</p>
+              <Select value={measureKey} onValueChange={(v) => setSearchParams({ measure: v })}>
+                <SelectTrigger className={selectClass}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {config.measures.map((m) => (
+                    <SelectItem key={m} value={m}>
+                      {MEASURES[m].label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <p className="text-[11px] font-semibold uppercase tracking-wider text-gray-400">Aggregate</p>
+              <Select value={agg} onValueChange={(v) => setSearchParams({ agg: v })}>
+                <SelectTrigger className={selectClass}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PIVOT_AGGREGATIONS.map((a) => (
+                    <SelectItem key={a.value} value={a.value}>
+                      {a.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </div>
+
+        <div className="overflow-x-auto">
+          {isLoading ? (
+            <div className="flex items-center justify-center gap-2 py-16 text-sm text-gray-400">
+              <Loader2 className="size-4 animate-spin" />
+              Loading data…
+            </div>
+          ) : !filteredFacts.length ? (
+            <div className="py-16 text-center text-sm text-gray-400">No records match the current filters.</div>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-100 bg-gray-50/60 text-left text-xs font-semibold uppercase tracking-wider text-gray-500">
+                  <th className="px-4 py-3">{rowDim.label}</th>
+                  {pivot.colKeys.map((c) => (
+                    <th key={c} className="px-4 py-3 text-right whitespace-nowrap">
+                      {colDim ? formatDimensionValue(colDim.key, c) : measure.label}
+                    </th>
+                  ))}
+                  {colDim ? <th className="px-4 py-3 text-right">Total</th> : null}
+                </tr>
+              </thead>
+              <tbody>
+                {visibleRowKeys.map((r) => (
+                  <tr key={r} className="border-b border-gray-50 hover:bg-green-50/40">
+                    <td className="px-4 py-2.5 font-medium text-gray-700">{formatDimensionValue(rowDim.key, r)}</td>
+                    {pivot.colKeys.map((c) => (
+                      <td key={c} className="px-4 py-2.5 text-right tabular-nums text-gray-600">
+                        {formatPivotNumber(pivot.value(r, c))}
+                      </td>
+                    ))}
+                    {colDim ? (
+                      <td className="px-4 py-2.5 text-right font-semibold tabular-nums text-gray-800">
+                        {formatPivotNumber(pivot.rowTotal(r))}
+                      </td>
+                    ) : null}
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot>
+                <tr className="bg-green-50/60 font-semibold text-gray-800">
+                  <td className="px-4 py-3">Total</td>
+                  {pivot.colKeys.map((c) => (
+                    <td key={c} className="px-4 py-3 text-right tabular-nums">
+                      {formatPivotNumber(pivot.colTotal(c))}
+                    </td>
+                  ))}
+                  {colDim ? (
+                    <td className="px-4 py-3 text-right tabular-nums">{formatPivotNumber(pivot.grandTotal)}</td>
+                  ) : null}
+                </tr>
+              </tfoot>
+            </table>
+          )}
+        </div>
+      </div>
+
+      {/* ── Time series ── */}
+      <div className="rounded-2xl border border-gray-100 bg-white shadow-sm">
+        <div className="flex flex-col gap-3 border-b border-gray-100 px-5 py-4 sm:flex-row sm:items-center sm:justify-between">
+          <div>
+            <h2 className="text-sm font-bold text-gray-800">
+              {aggLabel} of {measure.label} over time
+            </h2>
+            <p className="text-xs text-gray-400">Uses the value and aggregate selected above.</p>
+          </div>
+          {config.dated ? (
+            <div className="grid grid-cols-2 gap-2 sm:w-[360px]">
+              <Select value={bucket} onValueChange={(v) => setBucketParam(v === "week" ? null : v)}>
+                <SelectTrigger className={selectClass}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="day">Daily</SelectItem>
+                  <SelectItem value="week">Weekly</SelectItem>
+                  <SelectItem value="month">Monthly</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select value={splitDimKey || "none"} onValueChange={(v) => setSplitParam(v === "none" ? null : v)}>
+                <SelectTrigger className={selectClass}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No split</SelectItem>
+                  {config.dimensions
+                    .filter((d) => d !== "date" && d !== "month")
+                    .map((d) => (
+                      <SelectItem key={d} value={d}>
+                        By {DIMENSIONS[d].label.toLowerCase()}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ) : null}
+        </div>
+
+        <div className="p-5">
+          {!config.dated ? (
+            <div className="py-10 text-center text-sm text-gray-400">
+              {config.label} has no dates to chart; use the pivot table instead.
+            </div>
+          ) : isLoading ? (
+            <div className="flex items-center justify-center gap-2 py-16 text-sm text-gray-400">
+              <Loader2 className="size-4 animate-spin" />
+              Loading data…
+            </div>
+          ) : !timeSeries?.points.length ? (
+            <div className="py-10 text-center text-sm text-gray-400">No data for the selected range.</div>
+          ) : (
+            <ChartContainer config={chartConfig} className="aspect-auto h-[320px] w-full">
+              <LineChart data={timeSeries.points} margin={{ left: 8, right: 16, top: 8 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis
+                  dataKey="bucket"
+                  tickLine={false}
+                  axisLine={false}
+                  tickMargin={8}
+                  minTickGap={24}
+                  tickFormatter={(v) => formatBucketLabel(String(v), bucket)}
+                />
+                <YAxis tickLine={false} axisLine={false} width={48} />
+                <ChartTooltip
+                  content={
+                    <ChartTooltipContent labelFormatter={(v) => formatBucketLabel(String(v), bucket)} />
+                  }
+                />
+                <ChartLegend content={<ChartLegendContent />} />
+                {timeSeries.series.map((s) => (
+                  <Line
+                    key={s.key}
+                    dataKey={s.key}
+                    name={s.key}
+                    type="monotone"
+                    stroke={`var(--color-${s.key})`}
+                    strokeWidth={2}
+                    dot={false}
+                    connectNulls
+                  />
+                ))}
+              </LineChart>
+            </ChartContainer>
+          )}
+        </div>
+      </div>
     </div>
   )
 }
@@ -1,10 +1,10 @@
 import { useCallback, useEffect, useRef, useMemo, useState } from "react"
 import { format } from "date-fns"
-import type { DateRange } from "react-day-picker"
 import { toast } from "sonner"
 import {
     AlertTriangle,
     Building2,
+    CalendarClock,
     CalendarDays,
     ChevronLeft,
     ChevronRight,
@@ -34,6 +34,29 @@ import {
 } from "@/components/ui/dialog"
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+    deliveryApi,
+    deliveryConcernsApi,
+    getErrorMessage,
+    isAbortError,
+    resolveApiUrl,
+    usersApi,
+    type BhssUser,
+    type ConcernTicketDto,
+} from "@/lib/api"
+import {
+    CONCERN_TICKET_STATUSES,
+    concernTicketKey,
+    describeHistoryEntry,
+    formatTicketTime,
+    indexTickets,
+    isTicketOverdue,
+    recordTicketStatus,
+    ticketStatusLabel,
+} from "@/lib/delivery-concerns"
+import { useMunicipalityParam, usePermissions } from "@/lib/permissions"
+import { setSearchParams, useDateRangeSearchParams, useSearchParam } from "@/lib/router"
+import { ConcernTicketPanel, ConcernTicketStatusBadge } from "../components/concern-ticket-panel"
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
@@ -57,34 +80,6 @@ type AdminDeliveryRow = {
 
 // ─── Helpers ──────────────────────────────────────────────────────────────────
 
-function getApiBaseUrl() {
-    const envAny = (import.meta as any)?.env as any
-    const fromEnv = (envAny?.VITE_API_BASE_URL || envAny?.VITE_API_URL) as string | undefined
-    return (fromEnv || "http://localhost:8000").replace(/\/+$/, "")
-}
-
-function getAuthToken(): string | null {
-    try {
-        const raw = localStorage.getItem("bhss_auth")
-        if (!raw) return null
-        const parsed = JSON.parse(raw) as { token?: string }
-        return parsed?.token || null
-    } catch {
-        return null
-    }
-}
-
-async function apiFetch(path: string) {
-    const token = getAuthToken()
-    if (!token) throw new Error("Not authenticated")
-    const res = await fetch(`${getApiBaseUrl()}${path}`, {
-        headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
-    })
-    const data = await res.json().catch(() => ({}))
-    if (!res.ok) throw new Error((data as any)?.message || "Request failed")
-    return data
-}
-
 function statusBadgeClass(status: DeliveryStatus) {
     if (status === "Delivered") return "bg-green-50 text-green-700 border-green-200"
     if (status === "Delayed") return "bg-amber-50 text-amber-700 border-amber-200"
@@ -143,7 +138,7 @@ function ThumbnailGrid({
                     className="group relative aspect-square overflow-hidden rounded-xl border border-gray-100 bg-gray-50 shadow-sm transition-all hover:border-amber-300 hover:shadow-md focus:outline-none"
                 >
                     <img
-                        src={`${getApiBaseUrl()}${img.url}`}
+                        src={resolveApiUrl(img.url)}
                         alt={img.filename}
                         className="h-full w-full object-cover transition-transform duration-200 group-hover:scale-105"
                         loading="lazy"
@@ -190,7 +185,7 @@ function Lightbox({
         <div className="flex flex-col h-full gap-3">
             <div className="flex-1 min-h-0 flex items-center justify-center rounded-xl bg-gray-50 overflow-hidden border border-gray-100">
                 <img
-                    src={`${getApiBaseUrl()}${img.url}`}
+                    src={resolveApiUrl(img.url)}
                     alt={img.filename}
                     className="max-h-full max-w-full object-contain"
                 />
@@ -224,23 +219,45 @@ function Lightbox({
 // ─── Main Component ───────────────────────────────────────────────────────────
 
 export function AdminDeliveryConcernSummary() {
-    const [range, setRange] = useState<DateRange | undefined>(() => {
+    const permissions = usePermissions()
+    // Filters and the open record live in the URL so concern links can be shared
+    const [range, setRange] = useDateRangeSearchParams(() => {
         const today = new Date()
         return { from: today, to: today }
     })
     const [isRangeOpen, setIsRangeOpen] = useState(false)
     const [search, setSearch] = useState("")
-    const [selectedMunicipality, setSelectedMunicipality] = useState("all")
-    const [selectedSchool, setSelectedSchool] = useState("all")
-    const [selectedCategory, setSelectedCategory] = useState("all")
-    const [selectedConcernType, setSelectedConcernType] = useState("all")
+    const { municipality: municipalityParam, locked: isMunicipalityLocked } = useMunicipalityParam()
+    const [schoolParam, setSchoolParam] = useSearchParam("school")
+    const [categoryParam, setCategoryParam] = useSearchParam("category")
+    const [concernParam, setConcernParam] = useSearchParam("concern")
+    const selectedMunicipality = municipalityParam || "all"
+    // A locked scope already limited the rows with `inScope`
+    const inSelectedMunicipality = useCallback(
+        (m: string) => selectedMunicipality === "all" || isMunicipalityLocked || m === selectedMunicipality,
+        [selectedMunicipality, isMunicipalityLocked]
+    )
+    const selectedSchool = schoolParam || "all"
+    const selectedCategory = categoryParam || "all"
+    const selectedConcernType = concernParam || "all"
+    const setSelectedConcernType = (v: string) => setConcernParam(v === "all" ? null : v)
+    const [ticketParam, setTicketParam] = useSearchParam("ticket")
+    const selectedTicketStatus = ticketParam || "all"
     const [sort, setSort] = useState<"newest" | "oldest">("newest")
 
     const [rows, setRows] = useState<AdminDeliveryRow[]>([])
     const [isLoading, setIsLoading] = useState(false)
+    const [tickets, setTickets] = useState<ConcernTicketDto[]>([])
+    const [owners, setOwners] = useState<BhssUser[]>([])
+    const ticketIndex = useMemo(() => indexTickets(tickets), [tickets])
 
     // ── Details + Images modals ──────────────────────────────────────────────────
-    const [viewDetails, setViewDetails] = useState<AdminDeliveryRow | null>(null)
+    const [recordIdParam, setRecordIdParam] = useSearchParam("id")
+    const viewDetails = useMemo(
+        () => (recordIdParam ? rows.find((r) => r.id === recordIdParam) || null : null),
+        [recordIdParam, rows]
+    )
+    const setViewDetails = (row: AdminDeliveryRow | null) => setRecordIdParam(row?.id ?? null)
     const [viewImages, setViewImages] = useState<AdminDeliveryRow | null>(null)
     const [imagePreviewIndex, setImagePreviewIndex] = useState<number | null>(null)
 
@@ -261,16 +278,31 @@ export function AdminDeliveryConcernSummary() {
         const t = setTimeout(async () => {
             setIsLoading(true)
             try {
-                const qs = new URLSearchParams()
-                if (range?.from) qs.set("from", format(range.from, "yyyy-MM-dd"))
-                if (range?.to) qs.set("to", format(range.to, "yyyy-MM-dd"))
-                if (search.trim()) qs.set("search", search.trim())
-                qs.set("sort", sort)
-                const data = (await apiFetch(`/api/admin/delivery/history?${qs.toString()}`)) as {
-                    records?: AdminDeliveryRow[]
+                const data = await deliveryApi.adminHistory({
+                    from: range?.from ? format(range.from, "yyyy-MM-dd") : undefined,
+                    to: range?.to ? format(range.to, "yyyy-MM-dd") : undefined,
+                    search: search.trim(),
+                    sort,
+                })
+                const all = Array.isArray(data.records) ? (data.records as AdminDeliveryRow[]) : []
+                setRows(
+                    all.filter(
+                        (r) =>
+                            Array.isArray(r.concerns) &&
+                            r.concerns.length > 0 &&
+                            permissions.inScope(r.municipality, r.school)
+                    )
+                )
+                try {
+                    const res = await deliveryConcernsApi.list({
+                        from: range?.from ? format(range.from, "yyyy-MM-dd") : undefined,
+                        to: range?.to ? format(range.to, "yyyy-MM-dd") : undefined,
+                    })
+                    setTickets(Array.isArray(res.tickets) ? res.tickets : [])
+                } catch (e) {
+                    toast.error(getErrorMessage(e, "Failed to load concern tickets"))
+                    setTickets([])
                 }
-                const all = Array.isArray(data.records) ? data.records : []
-                setRows(all.filter((r) => Array.isArray(r.concerns) && r.concerns.length > 0))
             } catch (e: any) {
                 toast.error(e?.message || "Failed to load concern summary")
                 setRows([])
@@ -279,36 +311,58 @@ export function AdminDeliveryConcernSummary() {
             }
         }, 250)
         return () => clearTimeout(t)
-    }, [range?.from, range?.to, search, sort])
+    }, [range?.from, range?.to, search, sort, permissions])
+
+    // Admin accounts are the ones a ticket can be assigned to
+    useEffect(() => {
+        const controller = new AbortController()
+        usersApi
+            .list(controller.signal)
+            .then((data) => {
+                const users = Array.isArray(data.users) ? data.users : []
+                setOwners(users.filter((u) => u.role === "admin" && u.isActive))
+            })
+            .catch((e) => {
+                if (!isAbortError(e)) toast.error(getErrorMessage(e, "Failed to load accounts"))
+            })
+        return () => controller.abort()
+    }, [])
+
+    const handleTicketSaved = useCallback((ticket: ConcernTicketDto) => {
+        setTickets((prev) =>
+            prev.some((t) => t.id === ticket.id) ? prev.map((t) => (t.id === ticket.id ? ticket : t)) : [...prev, ticket]
+        )
+    }, [])
 
     // ─── Filter Options ─────────────────────────────────────────────────────────
 
     const municipalityOptions = useMemo(() => {
+        if (isMunicipalityLocked) return [selectedMunicipality]
         const set = new Set<string>()
         for (const r of rows) { const m = (r.municipality || "").trim(); if (m) set.add(m) }
         return Array.from(set).sort((a, b) => a.localeCompare(b))
-    }, [rows])
+    }, [rows, isMunicipalityLocked, selectedMunicipality])
 
     const schoolOptions = useMemo(() => {
         const set = new Set<string>()
         for (const r of rows) {
-            if (selectedMunicipality !== "all" && r.municipality !== selectedMunicipality) continue
+            if (!inSelectedMunicipality(r.municipality)) continue
             const s = (r.school || "").trim(); if (s) set.add(s)
         }
         return Array.from(set).sort((a, b) => a.localeCompare(b))
-    }, [rows, selectedMunicipality])
+    }, [rows, inSelectedMunicipality])
 
     const categoryOptions = useMemo(() => {
         const map = new Map<string, string>()
         for (const r of rows) {
-            if (selectedMunicipality !== "all" && r.municipality !== selectedMunicipality) continue
+            if (!inSelectedMunicipality(r.municipality)) continue
             if (selectedSchool !== "all" && r.school !== selectedSchool) continue
             const key = (r.categoryKey || r.categoryLabel || "").trim()
             const label = (r.categoryLabel || "").trim() || key
             if (key) map.set(key, label)
         }
         return Array.from(map.entries()).map(([value, label]) => ({ value, label })).sort((a, b) => a.label.localeCompare(b.label))
-    }, [rows, selectedMunicipality, selectedSchool])
+    }, [rows, inSelectedMunicipality, selectedSchool])
 
     const concernTypeOptions = useMemo(() => {
         const set = new Set<string>()
@@ -322,13 +376,26 @@ export function AdminDeliveryConcernSummary() {
 
     const filteredRows = useMemo(() => {
         return rows.filter((r) => {
-            if (selectedMunicipality !== "all" && r.municipality !== selectedMunicipality) return false
+            if (!inSelectedMunicipality(r.municipality)) return false
             if (selectedSchool !== "all" && r.school !== selectedSchool) return false
             if (selectedCategory !== "all" && r.categoryKey !== selectedCategory) return false
             if (selectedConcernType !== "all" && !(r.concerns || []).includes(selectedConcernType)) return false
+            if (selectedTicketStatus !== "all" && recordTicketStatus(r.id, r.concerns || [], ticketIndex) !== selectedTicketStatus) return false
             return true
         })
-    }, [rows, selectedMunicipality, selectedSchool, selectedCategory, selectedConcernType])
+    }, [rows, inSelectedMunicipality, selectedSchool, selectedCategory, selectedConcernType, selectedTicketStatus, ticketIndex])
+
+    // Tickets behind the rows on screen, in table order
+    const filteredTickets = useMemo(() => {
+        const out: ConcernTicketDto[] = []
+        for (const r of filteredRows) {
+            for (const c of (r.concerns || [])) {
+                const t = ticketIndex.get(concernTicketKey(r.id, c))
+                if (t) out.push(t)
+            }
+        }
+        return out
+    }, [filteredRows, ticketIndex])
 
     // ─── Stats ──────────────────────────────────────────────────────────────────
 
@@ -343,8 +410,12 @@ export function AdminDeliveryConcernSummary() {
             for (const c of (r.concerns || [])) concernMap.set(c, (concernMap.get(c) || 0) + 1)
         }
         const topConcerns = Array.from(concernMap.entries()).sort((a, b) => b[1] - a[1]).slice(0, 5)
-        return { totalRecords, totalConcerns, uniqueSchools, uniqueMunicipalities, topConcerns, concernMap }
-    }, [filteredRows])
+        // Concerns still without a ticket are as unresolved as open ones
+        const resolvedTickets = filteredTickets.filter((t) => t.status === "resolved").length
+        const unresolvedTickets = totalConcerns - resolvedTickets
+        const overdueTickets = filteredTickets.filter((t) => isTicketOverdue(t)).length
+        return { totalRecords, totalConcerns, uniqueSchools, uniqueMunicipalities, topConcerns, concernMap, unresolvedTickets, overdueTickets }
+    }, [filteredRows, filteredTickets])
 
     const rangeLabel = useMemo(() => {
         if (!range?.from && !range?.to) return "Select range"
@@ -376,6 +447,7 @@ export function AdminDeliveryConcernSummary() {
             pdf.setFont("helvetica", "normal")
             pdf.setFontSize(9)
             pdf.setTextColor(71, 85, 105)
+            pdf.text(`Scope: ${selectedMunicipality === "all" ? "All Municipalities" : selectedMunicipality}`, pageWidth / 2, 26, { align: "center" })
             pdf.text(`Generated: ${new Date().toLocaleString()}`, marginX, 30)
             pdf.text(`Range: ${rangeLabel}`, pageWidth - marginX, 30, { align: "right" })
             pdf.setDrawColor(253, 186, 116)
@@ -391,6 +463,8 @@ export function AdminDeliveryConcernSummary() {
                     ["Total Concerns", String(stats.totalConcerns)],
                     ["Municipalities Affected", String(stats.uniqueMunicipalities)],
                     ["Schools Affected", String(stats.uniqueSchools)],
+                    ["Unresolved Concerns", String(stats.unresolvedTickets)],
+                    ["Overdue Tickets", String(stats.overdueTickets)],
                 ],
                 theme: "grid",
                 styles: { font: "helvetica", fontSize: 9, cellPadding: 2 },
@@ -419,7 +493,9 @@ export function AdminDeliveryConcernSummary() {
                 head: [["Date", "Municipality", "School", "Category", "Status", "Concerns"]],
                 body: filteredRows.map((r) => [
                     r.dateKey, r.municipality, r.school, r.categoryLabel, r.status,
-                    (r.concerns || []).join(", "),
+                    (r.concerns || [])
+                        .map((c) => `${c} (${ticketStatusLabel(ticketIndex.get(concernTicketKey(r.id, c))?.status)})`)
+                        .join(", "),
                 ]),
                 theme: "grid",
                 styles: { font: "helvetica", fontSize: 8, cellPadding: 2, overflow: "linebreak" },
@@ -432,6 +508,32 @@ export function AdminDeliveryConcernSummary() {
                 margin: { left: marginX, right: marginX },
             })
 
+            if (filteredTickets.length > 0) {
+                y = ((pdf as jsPDF & { lastAutoTable?: { finalY?: number } }).lastAutoTable?.finalY ?? y) + 8
+                autoTable(pdf, {
+                    startY: y,
+                    head: [["School", "Concern", "Ticket", "Owner", "Due", "Resolution", "History"]],
+                    body: filteredTickets.map((t) => [
+                        `${t.school}\n${t.dateKey} • ${t.categoryLabel}`,
+                        t.concern,
+                        ticketStatusLabel(t.status),
+                        t.assigneeName || "Unassigned",
+                        t.dueDate || "—",
+                        t.resolutionNote || "—",
+                        t.history.map((h) => `${formatTicketTime(h.at)} – ${describeHistoryEntry(h)}`).join("\n") || "—",
+                    ]),
+                    theme: "grid",
+                    styles: { font: "helvetica", fontSize: 7, cellPadding: 1.5, overflow: "linebreak" },
+                    headStyles: { fillColor: [254, 243, 199], textColor: [120, 53, 15], fontStyle: "bold" },
+                    columnStyles: {
+                        0: { cellWidth: 32 }, 1: { cellWidth: 22 }, 2: { cellWidth: 18 },
+                        3: { cellWidth: 20 }, 4: { cellWidth: 17 }, 5: { cellWidth: 28 },
+                        6: { cellWidth: pageWidth - marginX * 2 - 137 },
+                    },
+                    margin: { left: marginX, right: marginX },
+                })
+            }
+
             if (pdfUrl) URL.revokeObjectURL(pdfUrl)
             const blob = pdf.output("blob")
             const url = URL.createObjectURL(blob)
@@ -465,7 +567,7 @@ export function AdminDeliveryConcernSummary() {
                     <img src="/images/bataanlogo.png" alt="Bataan Logo" className="h-10 w-10 object-contain" />
                     <Button
                         type="button"
-                        disabled={isGeneratingPdf || filteredRows.length === 0}
+                        disabled={isGeneratingPdf || filteredRows.length === 0 || !permissions.can("delivery", "export")}
                         onClick={buildPdf}
                         className="rounded-xl bg-amber-600 hover:bg-amber-700 text-white shadow-sm"
                     >
@@ -476,12 +578,13 @@ export function AdminDeliveryConcernSummary() {
             </div>
 
             {/* ── KPI Cards ── */}
-            <div className="grid grid-cols-2 gap-4 lg:grid-cols-4">
+            <div className="grid grid-cols-2 gap-4 lg:grid-cols-5">
                 {[
                     { label: "Records w/ Concerns", value: stats.totalRecords, icon: Truck, color: "text-amber-700", bg: "bg-amber-50", border: "border-amber-200" },
                     { label: "Total Concerns", value: stats.totalConcerns, icon: AlertTriangle, color: "text-red-600", bg: "bg-red-50", border: "border-red-200" },
                     { label: "Municipalities", value: stats.uniqueMunicipalities, icon: MapPin, color: "text-indigo-600", bg: "bg-indigo-50", border: "border-indigo-200" },
                     { label: "Schools Affected", value: stats.uniqueSchools, icon: Building2, color: "text-teal-600", bg: "bg-teal-50", border: "border-teal-200" },
+                    { label: "Unresolved", value: stats.unresolvedTickets, icon: CalendarClock, color: "text-sky-700", bg: "bg-sky-50", border: "border-sky-200" },
                 ].map((card) => (
                     <div key={card.label} className={`rounded-2xl border ${card.border} bg-white p-4 shadow-sm flex items-start justify-between`}>
                         <div>
@@ -542,6 +645,13 @@ export function AdminDeliveryConcernSummary() {
                                 {filteredRows.length}
                             </span>
                         </h2>
+                        <Select value={selectedTicketStatus} onValueChange={(v) => setTicketParam(v === "all" ? null : v)}>
+                            <SelectTrigger className="h-8 w-[170px] rounded-xl border-gray-200 text-sm"><SelectValue placeholder="Ticket Status" /></SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value="all">All Ticket Statuses</SelectItem>
+                                {CONCERN_TICKET_STATUSES.map((t) => <SelectItem key={t.value} value={t.value}>{t.label}</SelectItem>)}
+                            </SelectContent>
+                        </Select>
                     </div>
 
                     <div className="grid grid-cols-1 gap-2 sm:grid-cols-2 lg:grid-cols-12 lg:items-end">
@@ -558,7 +668,7 @@ export function AdminDeliveryConcernSummary() {
                                     </button>
                                 </PopoverTrigger>
                                 <PopoverContent className="w-auto p-0 rounded-xl border shadow-lg overflow-hidden" align="start">
-                                    <Calendar mode="range" selected={range} onSelect={setRange} numberOfMonths={2} className="p-2 [--cell-size:--spacing(7)]" />
+                                    <Calendar mode="range" selected={range} onSelect={(r) => setRange(r)} numberOfMonths={2} className="p-2 [--cell-size:--spacing(7)]" />
                                 </PopoverContent>
                             </Popover>
                         </div>
@@ -574,17 +684,17 @@ export function AdminDeliveryConcernSummary() {
                         </div>
 
                         <div className="min-w-0 lg:col-span-2">
-                            <Select value={selectedMunicipality} onValueChange={(v) => { setSelectedMunicipality(v); setSelectedSchool("all") }}>
+                            <Select value={selectedMunicipality} onValueChange={(v) => setSearchParams({ municipality: v === "all" ? null : v, school: null })} disabled={isMunicipalityLocked}>
                                 <SelectTrigger className="h-9 w-full rounded-xl border-gray-200 text-sm"><SelectValue placeholder="Municipality" /></SelectTrigger>
                                 <SelectContent>
-                                    <SelectItem value="all">All Municipalities</SelectItem>
+                                    {isMunicipalityLocked ? null : <SelectItem value="all">All Municipalities</SelectItem>}
                                     {municipalityOptions.map((m) => <SelectItem key={m} value={m}>{m}</SelectItem>)}
                                 </SelectContent>
                             </Select>
                         </div>
 
                         <div className="min-w-0 lg:col-span-2">
-                            <Select value={selectedSchool} onValueChange={setSelectedSchool} disabled={selectedMunicipality === "all"}>
+                            <Select value={selectedSchool} onValueChange={(v) => setSchoolParam(v === "all" ? null : v)} disabled={selectedMunicipality === "all"}>
                                 <SelectTrigger className="h-9 w-full rounded-xl border-gray-200 text-sm"><SelectValue placeholder="School" /></SelectTrigger>
                                 <SelectContent>
                                     <SelectItem value="all">All Schools</SelectItem>
@@ -594,7 +704,7 @@ export function AdminDeliveryConcernSummary() {
                         </div>
 
                         <div className="min-w-0 lg:col-span-2">
-                            <Select value={selectedCategory} onValueChange={setSelectedCategory}>
+                            <Select value={selectedCategory} onValueChange={(v) => setCategoryParam(v === "all" ? null : v)}>
                                 <SelectTrigger className="h-9 w-full rounded-xl border-gray-200 text-sm"><SelectValue placeholder="Category" /></SelectTrigger>
                                 <SelectContent>
                                     <SelectItem value="all">All Categories</SelectItem>
@@ -639,10 +749,10 @@ export function AdminDeliveryConcernSummary() {
 
                 {/* Table */}
                 <div className="overflow-x-auto">
-                    <table className="w-full min-w-[860px] border-collapse">
+                    <table className="w-full min-w-[960px] border-collapse">
                         <thead>
                             <tr className="border-b-2 border-gray-100 bg-gray-50/70">
-                                {["Date", "Municipality", "School", "Category", "Status", "Concerns", "Actions"].map((label) => (
+                                {["Date", "Municipality", "School", "Category", "Status", "Concerns", "Ticket", "Actions"].map((label) => (
                                     <th
                                         key={label}
                                         className={`py-3.5 px-5 text-[11px] font-semibold uppercase tracking-widest text-gray-400 whitespace-nowrap ${label === "Actions" ? "text-right" : "text-left"}`}
@@ -655,7 +765,7 @@ export function AdminDeliveryConcernSummary() {
                         <tbody className="divide-y divide-gray-50">
                             {isLoading ? (
                                 <tr>
-                                    <td colSpan={7} className="py-20 text-center">
+                                    <td colSpan={8} className="py-20 text-center">
                                         <div className="flex flex-col items-center gap-2.5 text-gray-400">
                                             <div className="size-7 animate-spin rounded-full border-2 border-gray-100 border-t-amber-500" />
                                             <span className="text-sm">Loading records…</span>
@@ -664,7 +774,7 @@ export function AdminDeliveryConcernSummary() {
                                 </tr>
                             ) : filteredRows.length === 0 ? (
                                 <tr>
-                                    <td colSpan={7} className="py-20 text-center">
+                                    <td colSpan={8} className="py-20 text-center">
                                         <div className="flex flex-col items-center gap-3 text-gray-400">
                                             <div className="rounded-2xl bg-amber-50 p-4">
                                                 <AlertTriangle className="size-8 text-amber-300" />
@@ -734,6 +844,17 @@ export function AdminDeliveryConcernSummary() {
                                             </div>
                                         </td>
 
+                                        {/* Ticket */}
+                                        <td className="py-4 px-5">
+                                            <div className="flex flex-col items-start gap-1">
+                                                <ConcernTicketStatusBadge status={recordTicketStatus(r.id, r.concerns || [], ticketIndex)} />
+                                                {(r.concerns || []).some((c) => {
+                                                    const t = ticketIndex.get(concernTicketKey(r.id, c))
+                                                    return !!t && isTicketOverdue(t)
+                                                }) && <span className="text-[10px] font-semibold text-red-600">Overdue</span>}
+                                            </div>
+                                        </td>
+
                                         {/* Actions */}
                                         <td className="py-4 px-5 text-right">
                                             <div className="flex items-center justify-end gap-2">
@@ -766,10 +887,10 @@ export function AdminDeliveryConcernSummary() {
 
             {/* ── Details Dialog ── */}
             <Dialog open={!!viewDetails} onOpenChange={(open) => !open && setViewDetails(null)}>
-                <DialogContent className="w-[calc(100vw-2rem)] max-w-lg max-h-[85vh] overflow-y-auto rounded-2xl border border-gray-100 bg-white p-0 shadow-xl">
+                <DialogContent className="w-[calc(100vw-2rem)] max-w-2xl max-h-[85vh] overflow-y-auto rounded-2xl border border-gray-100 bg-white p-0 shadow-xl">
                     <DialogHeader className="border-b border-gray-100 px-6 pb-4 pt-6">
                         <DialogTitle className="text-base font-bold text-gray-800">Record Details</DialogTitle>
-                        <DialogDescription className="text-sm text-gray-500">Full details for this delivery record with concerns.</DialogDescription>
+                        <DialogDescription className="text-sm text-gray-500">Full details for this delivery record, with a ticket for each concern.</DialogDescription>
                     </DialogHeader>
 
                     {viewDetails && (
@@ -807,20 +928,19 @@ export function AdminDeliveryConcernSummary() {
                                 </div>
                             )}
 
-                            {/* Concerns */}
+                            {/* Concerns, one ticket each */}
                             <div className="grid gap-1.5">
                                 <p className="text-xs font-bold uppercase tracking-wider text-amber-600">Concerns</p>
                                 {viewDetails.concerns.length === 0 ? (
                                     <p className="rounded-xl border border-gray-100 bg-gray-50 p-3 text-sm text-gray-400">None</p>
                                 ) : (
-                                    <div className="flex flex-wrap gap-2">
-                                        {viewDetails.concerns.map((c) => (
-                                            <span key={c} className="inline-flex items-center gap-1.5 rounded-full bg-amber-100 border border-amber-300 px-2.5 py-0.5 text-xs font-semibold text-amber-700">
-                                                <AlertTriangle className="size-3" />
-                                                {c}
-                                            </span>
-                                        ))}
-                                    </div>
+                                    <ConcernTicketPanel
+                                        deliveryRecordId={viewDetails.id}
+                                        concerns={viewDetails.concerns}
+                                        tickets={ticketIndex}
+                                        owners={owners}
+                                        onTicketSaved={handleTicketSaved}
+                                    />
                                 )}
                             </div>
 
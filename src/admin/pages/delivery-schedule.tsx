@@ -0,0 +1,754 @@
+import { useEffect, useMemo, useState } from "react"
+import { addMonths, eachDayOfInterval, endOfMonth, format, isValid, parse, startOfMonth } from "date-fns"
+import { CalendarClock, ChevronLeft, ChevronRight, Pencil, Plus, Trash2 } from "lucide-react"
+import { toast } from "sonner"
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Textarea } from "@/components/ui/textarea"
+import { useSchoolsByMunicipality } from "@/admin/components/use-schools-by-municipality"
+import {
+  DELIVERY_CATEGORY_OPTIONS,
+  deliveryApi,
+  getErrorMessage,
+  isAbortError,
+  procurementApi,
+  type AdminDeliveryRecordDto,
+  type DeliveryScheduleDto,
+  type DeliveryScheduleFrequency,
+  type SaveDeliveryScheduleInput,
+  type SupplierDto,
+} from "@/lib/api"
+import {
+  countOutcome,
+  emptyOutcomeCounts,
+  expandSchedules,
+  formatRate,
+  frequencyLabel,
+  heatClass,
+  matchSchedules,
+  onTimeRate,
+  performanceRows,
+  SCHEDULE_FREQUENCY_OPTIONS,
+  SCHEDULE_OUTCOME_META,
+  scheduleOccurrences,
+  type OutcomeCounts,
+} from "@/lib/delivery-schedule"
+import { BATAAN_MUNICIPALITIES } from "@/lib/municipalities"
+import { usePermissions } from "@/lib/permissions"
+import { useSearchParam } from "@/lib/router"
+
+const TABS = ["schedules", "performance"] as const
+type ScheduleTab = (typeof TABS)[number]
+
+const TAB_TRIGGER_CLASS =
+  "rounded-xl border border-transparent data-[state=active]:bg-emerald-600 data-[state=active]:text-white data-[state=active]:border-transparent hover:bg-emerald-50"
+
+const NO_SUPPLIER = "none"
+
+const EMPTY_FORM: SaveDeliveryScheduleInput = {
+  categoryKey: DELIVERY_CATEGORY_OPTIONS[0].key,
+  categoryLabel: DELIVERY_CATEGORY_OPTIONS[0].label,
+  municipality: "",
+  school: "",
+  supplierId: "",
+  frequency: "weekly",
+  startDate: "",
+  endDate: "",
+  notes: "",
+}
+
+const todayKey = () => format(new Date(), "yyyy-MM-dd")
+
+function formatDay(value?: string) {
+  if (!value) return "—"
+  const d = new Date(`${value}T00:00:00`)
+  return Number.isNaN(d.getTime()) ? value : format(d, "MMM dd, yyyy")
+}
+
+function describeCounts(counts: OutcomeCounts) {
+  return [
+    counts.onTime ? `${counts.onTime} on time` : "",
+    counts.late ? `${counts.late} late` : "",
+    counts.missed ? `${counts.missed} missed` : "",
+    counts.cancelled ? `${counts.cancelled} cancelled` : "",
+    counts.open ? `${counts.open} pending` : "",
+  ]
+    .filter(Boolean)
+    .join(", ")
+}
+
+export function AdminDeliverySchedule() {
+  const permissions = usePermissions()
+  const canEdit = permissions.can("delivery", "edit")
+  const [tabParam, setTabParam] = useSearchParam("tab")
+  const activeTab: ScheduleTab = TABS.includes(tabParam as ScheduleTab) ? (tabParam as ScheduleTab) : "schedules"
+
+  const [monthParam, setMonthParam] = useSearchParam("month")
+  const month = useMemo(() => {
+    const parsed = monthParam ? parse(monthParam, "yyyy-MM", new Date()) : null
+    return startOfMonth(parsed && isValid(parsed) ? parsed : new Date())
+  }, [monthParam])
+  const monthFrom = format(month, "yyyy-MM-dd")
+  const monthTo = format(endOfMonth(month), "yyyy-MM-dd")
+
+  const [groupBy, setGroupBy] = useState<"supplier" | "municipality">("supplier")
+  const [search, setSearch] = useState("")
+  const [category, setCategory] = useState("all")
+
+  const [schedules, setSchedules] = useState<{ done: boolean; rows: DeliveryScheduleDto[] }>({ done: false, rows: [] })
+  const [reloadToken, setReloadToken] = useState(0)
+  const [suppliers, setSuppliers] = useState<SupplierDto[]>([])
+  const [records, setRecords] = useState<AdminDeliveryRecordDto[]>([])
+  const schoolsByMunicipality = useSchoolsByMunicipality()
+
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const [editId, setEditId] = useState<string | null>(null)
+  const [form, setForm] = useState<SaveDeliveryScheduleInput>(EMPTY_FORM)
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    const controller = new AbortController()
+    deliveryApi
+      .adminSchedules({}, controller.signal)
+      .then((res) => setSchedules({ done: true, rows: res.schedules || [] }))
+      .catch((e) => {
+        if (isAbortError(e)) return
+        toast.error(getErrorMessage(e, "Failed to load delivery schedules"))
+        setSchedules({ done: true, rows: [] })
+      })
+    return () => controller.abort()
+  }, [reloadToken])
+
+  useEffect(() => {
+    const controller = new AbortController()
+    procurementApi
+      .listSuppliers(controller.signal)
+      .then((res) => setSuppliers(res.suppliers || []))
+      .catch(() => {
+        // Supplier is optional on a schedule; the list only fills the picker
+      })
+    return () => controller.abort()
+  }, [])
+
+  useEffect(() => {
+    const controller = new AbortController()
+    deliveryApi
+      .adminHistory({ from: monthFrom, to: monthTo }, controller.signal)
+      .then((res) => setRecords(res.records || []))
+      .catch((e) => {
+        if (isAbortError(e)) return
+        toast.error(getErrorMessage(e, "Failed to load delivery records"))
+        setRecords([])
+      })
+    return () => controller.abort()
+  }, [monthFrom, monthTo])
+
+  const filteredSchedules = useMemo(() => {
+    const q = search.trim().toLowerCase()
+    return schedules.rows
+      .filter((s) => permissions.inScope(s.municipality, s.school))
+      .filter((s) => category === "all" || s.categoryKey === category)
+      .filter(
+        (s) =>
+          !q ||
+          [s.school, s.municipality, s.categoryLabel, s.supplierName, s.notes].join(" ").toLowerCase().includes(q)
+      )
+      .sort(
+        (a, b) =>
+          a.municipality.localeCompare(b.municipality) ||
+          a.school.localeCompare(b.school) ||
+          a.categoryLabel.localeCompare(b.categoryLabel)
+      )
+  }, [category, permissions, schedules.rows, search])
+
+  const results = useMemo(
+    () => matchSchedules(expandSchedules(filteredSchedules, monthFrom, monthTo), records),
+    [filteredSchedules, monthFrom, monthTo, records]
+  )
+  const rows = useMemo(() => performanceRows(results, groupBy), [groupBy, results])
+  const days = useMemo(() => eachDayOfInterval({ start: month, end: endOfMonth(month) }), [month])
+
+  const totals = useMemo(() => results.reduce((t, r) => countOutcome(t, r.outcome), emptyOutcomeCounts()), [results])
+
+  const nextDue = (s: DeliveryScheduleDto) => {
+    return scheduleOccurrences(s, todayKey(), format(addMonths(new Date(), 13), "yyyy-MM-dd"))[0] || ""
+  }
+
+  const openCreate = () => {
+    setEditId(null)
+    setForm({ ...EMPTY_FORM, startDate: todayKey() })
+    setIsDialogOpen(true)
+  }
+
+  const openEdit = (s: DeliveryScheduleDto) => {
+    setEditId(s.id)
+    setForm({
+      categoryKey: s.categoryKey,
+      categoryLabel: s.categoryLabel,
+      municipality: s.municipality,
+      school: s.school,
+      supplierId: s.supplierId || "",
+      frequency: s.frequency,
+      startDate: s.startDate,
+      endDate: s.endDate || "",
+      notes: s.notes || "",
+    })
+    setIsDialogOpen(true)
+  }
+
+  const formSuppliers = suppliers.filter(
+    (s) => s.id === form.supplierId || (s.active && s.categories.includes(form.categoryKey))
+  )
+
+  const handleSave = async () => {
+    if (!form.municipality || !form.school.trim()) {
+      toast.error("Municipality and school are required")
+      return
+    }
+    if (!form.startDate) {
+      toast.error("Start date is required")
+      return
+    }
+    if (form.endDate && form.endDate < form.startDate) {
+      toast.error("End date cannot be before the start date")
+      return
+    }
+    setIsSaving(true)
+    try {
+      const input = {
+        ...form,
+        school: form.school.trim(),
+        endDate: form.frequency === "once" ? "" : form.endDate,
+        notes: form.notes?.trim() || "",
+      }
+      if (editId) {
+        await deliveryApi.updateSchedule(editId, input)
+        toast.success("Schedule updated")
+      } else {
+        await deliveryApi.createSchedule(input)
+        toast.success("Schedule added")
+      }
+      setIsDialogOpen(false)
+      setReloadToken((t) => t + 1)
+    } catch (e) {
+      toast.error(getErrorMessage(e, "Failed to save schedule"))
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deliveryApi.removeSchedule(id)
+      toast.success("Schedule deleted")
+      setSchedules((prev) => ({ ...prev, rows: prev.rows.filter((s) => s.id !== id) }))
+    } catch (e) {
+      toast.error(getErrorMessage(e, "Failed to delete schedule"))
+    }
+  }
+
+  const summaryCards = [
+    { label: "Scheduled", value: results.length, className: "text-neutral-900" },
+    { label: "On time", value: totals.onTime, className: "text-emerald-700" },
+    { label: "Late", value: totals.late, className: "text-amber-700" },
+    { label: "Missed", value: totals.missed, className: "text-red-600" },
+    { label: "On-time rate", value: formatRate(onTimeRate(totals)), className: "text-neutral-900" },
+  ]
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-col gap-3 space-y-0 sm:flex-row sm:items-center sm:justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarClock className="size-5" />
+              Delivery Schedule
+            </CardTitle>
+            <CardDescription>
+              Plan when each school should receive a category. Schools see these as expected deliveries, and
+              unconfirmed ones turn Delayed once the date passes.
+            </CardDescription>
+          </div>
+          <Button
+            onClick={openCreate}
+            disabled={!permissions.can("delivery", "create")}
+            className="rounded-xl bg-emerald-600 hover:bg-emerald-700"
+          >
+            <Plus className="size-4" />
+            Add Schedule
+          </Button>
+        </CardHeader>
+      </Card>
+
+      <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+        <Input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search school, supplier or notes"
+          className="h-9 sm:w-[280px]"
+        />
+        <Select value={category} onValueChange={setCategory}>
+          <SelectTrigger className="h-9 sm:w-[180px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All categories</SelectItem>
+            {DELIVERY_CATEGORY_OPTIONS.map((c) => (
+              <SelectItem key={c.key} value={c.key}>
+                {c.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Tabs value={activeTab} onValueChange={(v) => setTabParam(v === "schedules" ? null : v, { replace: false })}>
+        <TabsList className="h-auto gap-1 rounded-2xl bg-white/70 p-1 shadow-sm">
+          <TabsTrigger value="schedules" className={TAB_TRIGGER_CLASS}>
+            Schedules
+          </TabsTrigger>
+          <TabsTrigger value="performance" className={TAB_TRIGGER_CLASS}>
+            On-time Performance
+          </TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="schedules" className="mt-4">
+          <Card>
+            <CardContent className="pt-6">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>School</TableHead>
+                    <TableHead>Category</TableHead>
+                    <TableHead>Supplier</TableHead>
+                    <TableHead>Repeats</TableHead>
+                    <TableHead>Until</TableHead>
+                    <TableHead>Next due</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredSchedules.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={7} className="py-10 text-center text-muted-foreground">
+                        {!schedules.done
+                          ? "Loading schedules..."
+                          : schedules.rows.length
+                            ? "No schedules match the selected filters."
+                            : "No schedules yet. Click \"Add Schedule\" to plan one."}
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    filteredSchedules.map((s) => (
+                      <TableRow key={s.id}>
+                        <TableCell>
+                          <div className="max-w-[260px] truncate font-medium" title={s.school}>
+                            {s.school}
+                          </div>
+                          <div className="text-xs text-muted-foreground">{s.municipality}</div>
+                        </TableCell>
+                        <TableCell>{s.categoryLabel}</TableCell>
+                        <TableCell>{s.supplierName || <span className="text-muted-foreground">—</span>}</TableCell>
+                        <TableCell>
+                          <div>{frequencyLabel(s)}</div>
+                          {s.notes ? (
+                            <div className="max-w-[240px] truncate text-xs text-muted-foreground" title={s.notes}>
+                              {s.notes}
+                            </div>
+                          ) : null}
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap">{s.endDate ? formatDay(s.endDate) : "Ongoing"}</TableCell>
+                        <TableCell className="whitespace-nowrap">{formatDay(nextDue(s))}</TableCell>
+                        <TableCell className="text-right">
+                          <div className={canEdit ? "flex items-center justify-end gap-1" : "hidden"}>
+                            <Button variant="ghost" size="icon" className="rounded-lg" onClick={() => openEdit(s)}>
+                              <Pencil className="size-4" />
+                            </Button>
+                            <AlertDialog>
+                              <AlertDialogTrigger asChild>
+                                <Button variant="ghost" size="icon" className="rounded-lg">
+                                  <Trash2 className="size-4 text-destructive" />
+                                </Button>
+                              </AlertDialogTrigger>
+                              <AlertDialogContent>
+                                <AlertDialogHeader>
+                                  <AlertDialogTitle>Delete Schedule</AlertDialogTitle>
+                                  <AlertDialogDescription>
+                                    {s.school} will no longer expect {s.categoryLabel.toLowerCase()} deliveries.
+                                    Delivery logs already submitted are kept.
+                                  </AlertDialogDescription>
+                                </AlertDialogHeader>
+                                <AlertDialogFooter>
+                                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                  <AlertDialogAction onClick={() => handleDelete(s.id)}>Delete</AlertDialogAction>
+                                </AlertDialogFooter>
+                              </AlertDialogContent>
+                            </AlertDialog>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="performance" className="mt-4 space-y-4">
+          <div className="grid gap-4 sm:grid-cols-3 lg:grid-cols-5">
+            {summaryCards.map((c) => (
+              <Card key={c.label}>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm font-medium text-neutral-500">{c.label}</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className={`text-2xl font-bold tracking-tight ${c.className}`}>{c.value}</div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <Card>
+            <CardHeader className="flex flex-col gap-3 space-y-0 sm:flex-row sm:items-center sm:justify-between">
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="outline"
+                  size="icon"
+                  className="size-8 rounded-lg"
+                  onClick={() => setMonthParam(format(addMonths(month, -1), "yyyy-MM"))}
+                >
+                  <ChevronLeft className="size-4" />
+                </Button>
+                <CardTitle className="min-w-[140px] text-center text-base">{format(month, "MMMM yyyy")}</CardTitle>
+                <Button
+                  variant="outline"
+                  size="icon"
+                  className="size-8 rounded-lg"
+                  onClick={() => setMonthParam(format(addMonths(month, 1), "yyyy-MM"))}
+                >
+                  <ChevronRight className="size-4" />
+                </Button>
+              </div>
+              <Select value={groupBy} onValueChange={(v) => setGroupBy(v as "supplier" | "municipality")}>
+                <SelectTrigger className="h-8 w-[180px] text-sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="supplier">By supplier</SelectItem>
+                  <SelectItem value="municipality">By municipality</SelectItem>
+                </SelectContent>
+              </Select>
+            </CardHeader>
+            <CardContent className="pt-0">
+              {rows.length === 0 ? (
+                <div className="py-10 text-center text-sm text-muted-foreground">
+                  No deliveries were scheduled in {format(month, "MMMM yyyy")}.
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full border-separate border-spacing-1 text-xs">
+                    <thead>
+                      <tr>
+                        <th className="sticky left-0 bg-white pr-2 text-left font-semibold text-muted-foreground">
+                          {groupBy === "supplier" ? "Supplier" : "Municipality"}
+                        </th>
+                        {days.map((d) => (
+                          <th key={d.toISOString()} className="w-6 text-center font-normal text-muted-foreground">
+                            {format(d, "d")}
+                          </th>
+                        ))}
+                        <th className="pl-2 text-right font-semibold text-muted-foreground">On time</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {rows.map((r) => (
+                        <tr key={r.label}>
+                          <td className="sticky left-0 max-w-[200px] truncate bg-white pr-2 font-medium" title={r.label}>
+                            {r.label}
+                          </td>
+                          {days.map((d) => {
+                            const key = format(d, "yyyy-MM-dd")
+                            const counts = r.days.get(key)
+                            return (
+                              <td
+                                key={key}
+                                title={counts ? `${formatDay(key)}: ${describeCounts(counts)}` : formatDay(key)}
+                                className={`h-6 w-6 rounded ${heatClass(counts)}`}
+                              />
+                            )
+                          })}
+                          <td className="whitespace-nowrap pl-2 text-right font-semibold tabular-nums">
+                            {formatRate(onTimeRate(r.totals))}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              <div className="mt-4 flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+                <span className="flex items-center gap-1">
+                  <span className="size-3 rounded bg-emerald-500" />
+                  90%+ on time
+                </span>
+                <span className="flex items-center gap-1">
+                  <span className="size-3 rounded bg-emerald-300" />
+                  70–89%
+                </span>
+                <span className="flex items-center gap-1">
+                  <span className="size-3 rounded bg-amber-300" />
+                  40–69%
+                </span>
+                <span className="flex items-center gap-1">
+                  <span className="size-3 rounded bg-red-400" />
+                  Under 40%
+                </span>
+                <span className="flex items-center gap-1">
+                  <span className="size-3 rounded bg-sky-100" />
+                  Not yet due
+                </span>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Missed and late deliveries</CardTitle>
+            </CardHeader>
+            <CardContent className="pt-0">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Scheduled</TableHead>
+                    <TableHead>School</TableHead>
+                    <TableHead>Category</TableHead>
+                    <TableHead>Supplier</TableHead>
+                    <TableHead>Outcome</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {results.filter((r) => r.outcome === "missed" || r.outcome === "late").length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="py-6 text-center text-muted-foreground">
+                        Nothing missed or late this month.
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    results
+                      .filter((r) => r.outcome === "missed" || r.outcome === "late")
+                      .map((r) => (
+                        <TableRow key={`${r.schedule.id}-${r.dateKey}`}>
+                          <TableCell className="whitespace-nowrap">{formatDay(r.dateKey)}</TableCell>
+                          <TableCell>
+                            <div className="max-w-[260px] truncate font-medium">{r.schedule.school}</div>
+                            <div className="text-xs text-muted-foreground">{r.schedule.municipality}</div>
+                          </TableCell>
+                          <TableCell>{r.schedule.categoryLabel}</TableCell>
+                          <TableCell>{r.schedule.supplierName || "—"}</TableCell>
+                          <TableCell>
+                            <span
+                              className={`inline-flex items-center rounded-full border px-2 py-0.5 text-xs font-semibold ${SCHEDULE_OUTCOME_META[r.outcome].className}`}
+                            >
+                              {SCHEDULE_OUTCOME_META[r.outcome].label}
+                            </span>
+                          </TableCell>
+                        </TableRow>
+                      ))
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editId ? "Edit Schedule" : "Add Schedule"}</DialogTitle>
+            <DialogDescription>
+              Weekly schedules repeat on the start date's weekday; monthly ones on its day of the month.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-3">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="grid gap-1.5">
+                <Label>Category</Label>
+                <Select
+                  value={form.categoryKey}
+                  onValueChange={(v) =>
+                    setForm((f) => ({
+                      ...f,
+                      categoryKey: v,
+                      categoryLabel: DELIVERY_CATEGORY_OPTIONS.find((c) => c.key === v)?.label || v,
+                    }))
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DELIVERY_CATEGORY_OPTIONS.map((c) => (
+                      <SelectItem key={c.key} value={c.key}>
+                        {c.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid gap-1.5">
+                <Label>Supplier</Label>
+                <Select
+                  value={form.supplierId || NO_SUPPLIER}
+                  onValueChange={(v) => setForm((f) => ({ ...f, supplierId: v === NO_SUPPLIER ? "" : v }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_SUPPLIER}>No supplier</SelectItem>
+                    {formSuppliers.map((s) => (
+                      <SelectItem key={s.id} value={s.id}>
+                        {s.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid gap-1.5">
+                <Label>Municipality</Label>
+                <Select value={form.municipality} onValueChange={(v) => setForm((f) => ({ ...f, municipality: v }))}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {BATAAN_MUNICIPALITIES.map((m) => (
+                      <SelectItem key={m} value={m}>
+                        {m}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid gap-1.5">
+                <Label htmlFor="schedule-school">School</Label>
+                <Input
+                  id="schedule-school"
+                  value={form.school}
+                  list="schedule-schools"
+                  onChange={(e) => setForm((f) => ({ ...f, school: e.target.value }))}
+                />
+                <datalist id="schedule-schools">
+                  {(schoolsByMunicipality[form.municipality] || []).map((s) => (
+                    <option key={s} value={s} />
+                  ))}
+                </datalist>
+              </div>
+              <div className="grid gap-1.5">
+                <Label>Repeats</Label>
+                <Select
+                  value={form.frequency}
+                  onValueChange={(v) => setForm((f) => ({ ...f, frequency: v as DeliveryScheduleFrequency }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SCHEDULE_FREQUENCY_OPTIONS.map((o) => (
+                      <SelectItem key={o.value} value={o.value}>
+                        {o.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid gap-1.5">
+                <Label htmlFor="schedule-start">{form.frequency === "once" ? "Date" : "Starts"}</Label>
+                <Input
+                  id="schedule-start"
+                  type="date"
+                  value={form.startDate}
+                  onChange={(e) => setForm((f) => ({ ...f, startDate: e.target.value }))}
+                />
+              </div>
+              {form.frequency !== "once" ? (
+                <div className="grid gap-1.5">
+                  <Label htmlFor="schedule-end">Ends (optional)</Label>
+                  <Input
+                    id="schedule-end"
+                    type="date"
+                    value={form.endDate || ""}
+                    onChange={(e) => setForm((f) => ({ ...f, endDate: e.target.value }))}
+                  />
+                </div>
+              ) : null}
+            </div>
+            {form.startDate ? (
+              <p className="text-xs text-muted-foreground">{frequencyLabel(form)}</p>
+            ) : null}
+            <div className="grid gap-1.5">
+              <Label htmlFor="schedule-notes">Notes</Label>
+              <Textarea
+                id="schedule-notes"
+                rows={2}
+                value={form.notes || ""}
+                onChange={(e) => setForm((f) => ({ ...f, notes: e.target.value }))}
+                placeholder="e.g. Morning delivery before 9 AM"
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving} className="bg-emerald-600 hover:bg-emerald-700">
+              {isSaving ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
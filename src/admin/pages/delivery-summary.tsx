@@ -1,13 +1,14 @@
 import { useEffect, useMemo, useState } from "react"
 import { format } from "date-fns"
-import type { DateRange } from "react-day-picker"
 import { toast } from "sonner"
 import {
   CalendarDays,
   CheckCircle2,
   ClipboardList,
   Download,
+  FileSpreadsheet,
   FileText,
+  PackageMinus,
   Search,
   TriangleAlert,
   Truck,
@@ -43,6 +44,28 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table"
+import {
+  DELIVERY_SIGNATURE_ROLES,
+  deliveryApi,
+  getErrorMessage,
+  resolveApiUrl,
+  type DeliveryLineDto,
+  type DeliverySignatureDto,
+} from "@/lib/api"
+import {
+  addLineTotals,
+  formatLineQuantity,
+  formatQuantityTotals,
+  formatShortage,
+  isDeliveredShort,
+  lineShortage,
+  shortLines,
+  type QuantityTotals,
+} from "@/lib/delivery-lines"
+import { deliveryWorkbookTables } from "@/lib/delivery-workbook"
+import { exportTablesToXlsx } from "@/lib/export"
+import { useMunicipalityParam, usePermissions } from "@/lib/permissions"
+import { useDateRangeSearchParams } from "@/lib/router"
 
 type DeliveryStatus = "Pending" | "Delivered" | "Delayed" | "Cancelled"
 
@@ -59,39 +82,8 @@ type AdminDeliveryRow = {
   images: Array<{ url: string; filename: string }>
   concerns: string[]
   remarks: string
-}
-
-function getApiBaseUrl() {
-  const envAny = (import.meta as any)?.env as any
-  const fromEnv = (envAny?.VITE_API_BASE_URL || envAny?.VITE_API_URL) as string | undefined
-  return (fromEnv || "http://localhost:8000").replace(/\/+$/, "")
-}
-
-function getAuthToken(): string | null {
-  try {
-    const raw = localStorage.getItem("bhss_auth")
-    if (!raw) return null
-    const parsed = JSON.parse(raw) as { token?: string }
-    return parsed?.token || null
-  } catch {
-    return null
-  }
-}
-
-async function apiFetch(path: string) {
-  const token = getAuthToken()
-  if (!token) throw new Error("Not authenticated")
-
-  const res = await fetch(`${getApiBaseUrl()}${path}`, {
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${token}`,
-    },
-  })
-
-  const data = await res.json().catch(() => ({}))
-  if (!res.ok) throw new Error((data as any)?.message || "Request failed")
-  return data
+  lines?: DeliveryLineDto[]
+  signatures?: DeliverySignatureDto[]
 }
 
 function statusBadge(status: DeliveryStatus) {
@@ -128,16 +120,18 @@ function CountBadge({
   variant,
 }: {
   value: number
-  variant: "delivered" | "pending" | "delayed" | "cancelled"
+  variant: "delivered" | "short" | "pending" | "delayed" | "cancelled"
 }) {
   const cls =
     variant === "delivered"
       ? "bg-green-100 text-green-800 font-semibold"
-      : variant === "delayed"
-        ? "bg-amber-100 text-amber-800 font-semibold"
-        : variant === "cancelled"
-          ? "bg-red-100 text-red-700 font-semibold"
-          : "bg-teal-100 text-teal-800 font-semibold"
+      : variant === "short"
+        ? "bg-orange-100 text-orange-800 font-semibold"
+        : variant === "delayed"
+          ? "bg-amber-100 text-amber-800 font-semibold"
+          : variant === "cancelled"
+            ? "bg-red-100 text-red-700 font-semibold"
+            : "bg-teal-100 text-teal-800 font-semibold"
 
   return (
     <span
@@ -148,6 +142,29 @@ function CountBadge({
   )
 }
 
+type ShortageRow = {
+  dateKey: string
+  municipality: string
+  school: string
+  categoryLabel: string
+  line: DeliveryLineDto
+}
+
+/** Every line that came in under its expected quantity on a delivered record. */
+function shortageRowsOf(rows: AdminDeliveryRow[]): ShortageRow[] {
+  return rows.flatMap((r) =>
+    r.status === "Delivered"
+      ? shortLines(r.lines).map((line) => ({
+        dateKey: r.dateKey,
+        municipality: r.municipality,
+        school: r.school,
+        categoryLabel: r.categoryLabel,
+        line,
+      }))
+      : []
+  )
+}
+
 function formatPrettyDate(dateKey: string) {
   const d = new Date(dateKey)
   if (Number.isNaN(d.getTime())) return dateKey
@@ -177,7 +194,9 @@ async function loadImageAsDataUrl(src: string): Promise<string | null> {
 }
 
 export function AdminDeliverySummary() {
-  const [range, setRange] = useState<DateRange | undefined>(() => {
+  const permissions = usePermissions()
+  const canExport = permissions.can("delivery", "export")
+  const [range, setRange] = useDateRangeSearchParams(() => {
     const today = new Date()
     return { from: today, to: today }
   })
@@ -192,25 +211,30 @@ export function AdminDeliverySummary() {
   const [pdfUrl, setPdfUrl] = useState<string | null>(null)
   const [isGeneratingPdf, setIsGeneratingPdf] = useState(false)
 
-  const [scopeMode, setScopeMode] = useState<"all" | "selected">("all")
+  const { municipality: scopedMunicipality, locked: isMunicipalityLocked } = useMunicipalityParam()
+  const [pickedScopeMode, setScopeMode] = useState<"all" | "selected">("all")
   const [isMunicipalitiesOpen, setIsMunicipalitiesOpen] = useState(false)
-  const [selectedMunicipalities, setSelectedMunicipalities] = useState<string[]>([])
+  const [pickedMunicipalities, setSelectedMunicipalities] = useState<string[]>([])
+  // Municipality-scoped roles report on their own town only, and exports say so
+  const scopeMode = isMunicipalityLocked ? "selected" : pickedScopeMode
+  const selectedMunicipalities = useMemo(
+    () => (isMunicipalityLocked ? [scopedMunicipality || ""] : pickedMunicipalities),
+    [isMunicipalityLocked, scopedMunicipality, pickedMunicipalities]
+  )
 
   useEffect(() => {
     const t = setTimeout(async () => {
       setIsLoading(true)
       try {
-        const qs = new URLSearchParams()
-        if (range?.from) qs.set("from", format(range.from, "yyyy-MM-dd"))
-        if (range?.to) qs.set("to", format(range.to, "yyyy-MM-dd"))
-        if (search.trim()) qs.set("search", search.trim())
-        qs.set("sort", sort)
-
-        const data = (await apiFetch(`/api/admin/delivery/history?${qs.toString()}`)) as {
-          records?: AdminDeliveryRow[]
-        }
+        const data = await deliveryApi.adminHistory({
+          from: range?.from ? format(range.from, "yyyy-MM-dd") : undefined,
+          to: range?.to ? format(range.to, "yyyy-MM-dd") : undefined,
+          search: search.trim(),
+          sort,
+        })
 
-        setRows(Array.isArray(data.records) ? data.records : [])
+        const records = Array.isArray(data.records) ? (data.records as AdminDeliveryRow[]) : []
+        setRows(records.filter((r) => permissions.inScope(r.municipality, r.school)))
       } catch (e: any) {
         toast.error(e?.message || "Failed to load delivery summary")
         setRows([])
@@ -220,7 +244,7 @@ export function AdminDeliverySummary() {
     }, 250)
 
     return () => clearTimeout(t)
-  }, [range?.from, range?.to, search, sort])
+  }, [range?.from, range?.to, search, sort, permissions])
 
   const municipalityOptions = useMemo(() => {
     const set = new Set<string>()
@@ -236,10 +260,11 @@ export function AdminDeliverySummary() {
   }, [municipalityOptions])
 
   const scopedRows = useMemo(() => {
-    if (scopeMode === "all") return rows
+    // Rows were already limited with `inScope` when the scope is locked
+    if (scopeMode === "all" || isMunicipalityLocked) return rows
     const set = new Set(selectedMunicipalities)
     return rows.filter((r) => set.has(r.municipality))
-  }, [rows, scopeMode, selectedMunicipalities])
+  }, [rows, scopeMode, selectedMunicipalities, isMunicipalityLocked])
 
   const rangeLabel = useMemo(() => {
     if (!range?.from && !range?.to) return "Select range"
@@ -253,6 +278,7 @@ export function AdminDeliverySummary() {
   const summary = useMemo(() => {
     const total = scopedRows.length
     const delivered = scopedRows.filter((r) => r.status === "Delivered").length
+    const short = scopedRows.filter(isDeliveredShort).length
     const pending = scopedRows.filter((r) => r.status === "Pending").length
     const delayed = scopedRows.filter((r) => r.status === "Delayed").length
     const cancelled = scopedRows.filter((r) => r.status === "Cancelled").length
@@ -263,6 +289,7 @@ export function AdminDeliverySummary() {
     return {
       total,
       delivered,
+      short,
       pending,
       delayed,
       cancelled,
@@ -271,6 +298,12 @@ export function AdminDeliverySummary() {
     }
   }, [scopedRows])
 
+  const shortageRows = useMemo(() => {
+    return shortageRowsOf(scopedRows).sort((a, b) =>
+      sort === "newest" ? b.dateKey.localeCompare(a.dateKey) : a.dateKey.localeCompare(b.dateKey)
+    )
+  }, [scopedRows, sort])
+
   const topCategories = useMemo(() => {
     const map = new Map<string, number>()
     for (const r of scopedRows) {
@@ -387,9 +420,11 @@ export function AdminDeliverySummary() {
               categoryLabel: string
               total: number
               delivered: number
+              short: number
               pending: number
               delayed: number
               cancelled: number
+              quantities: QuantityTotals
             }
           >
         }
@@ -422,18 +457,22 @@ export function AdminDeliverySummary() {
           categoryLabel,
           total: 0,
           delivered: 0,
+          short: 0,
           pending: 0,
           delayed: 0,
           cancelled: 0,
+          quantities: new Map(),
         } as const)
 
       schoolBucket.categories.set(categoryLabel, {
         categoryLabel: curr.categoryLabel,
         total: curr.total + 1,
         delivered: curr.delivered + (r.status === "Delivered" ? 1 : 0),
+        short: curr.short + (isDeliveredShort(r) ? 1 : 0),
         pending: curr.pending + (r.status === "Pending" ? 1 : 0),
         delayed: curr.delayed + (r.status === "Delayed" ? 1 : 0),
         cancelled: curr.cancelled + (r.status === "Cancelled" ? 1 : 0),
+        quantities: r.status === "Delivered" ? addLineTotals(curr.quantities, r.lines) : curr.quantities,
       })
 
       dateBucket.set(schoolKey, schoolBucket)
@@ -516,11 +555,12 @@ export function AdminDeliverySummary() {
       const makeSummaryFromRows = (rws: AdminDeliveryRow[]) => {
         const total = rws.length
         const delivered = rws.filter((r) => r.status === "Delivered").length
+        const short = rws.filter(isDeliveredShort).length
         const pending = rws.filter((r) => r.status === "Pending").length
         const delayed = rws.filter((r) => r.status === "Delayed").length
         const cancelled = rws.filter((r) => r.status === "Cancelled").length
         const uniqueSchools = new Set(rws.map((r) => r.school).filter(Boolean)).size
-        return { total, delivered, pending, delayed, cancelled, uniqueSchools }
+        return { total, delivered, short, pending, delayed, cancelled, uniqueSchools }
       }
 
       const groupByDateAndSchool = (rws: AdminDeliveryRow[]) => {
@@ -536,9 +576,11 @@ export function AdminDeliverySummary() {
                   categoryLabel: string
                   total: number
                   delivered: number
+                  short: number
                   pending: number
                   delayed: number
                   cancelled: number
+                  quantities: QuantityTotals
                 }
               >
             }
@@ -563,18 +605,22 @@ export function AdminDeliverySummary() {
               categoryLabel,
               total: 0,
               delivered: 0,
+              short: 0,
               pending: 0,
               delayed: 0,
               cancelled: 0,
+              quantities: new Map(),
             } as const)
 
           schoolBucket.categories.set(categoryLabel, {
             categoryLabel: curr.categoryLabel,
             total: curr.total + 1,
             delivered: curr.delivered + (r.status === "Delivered" ? 1 : 0),
+            short: curr.short + (isDeliveredShort(r) ? 1 : 0),
             pending: curr.pending + (r.status === "Pending" ? 1 : 0),
             delayed: curr.delayed + (r.status === "Delayed" ? 1 : 0),
             cancelled: curr.cancelled + (r.status === "Cancelled" ? 1 : 0),
+            quantities: r.status === "Delivered" ? addLineTotals(curr.quantities, r.lines) : curr.quantities,
           })
 
           dateBucket.set(school, schoolBucket)
@@ -600,6 +646,16 @@ export function AdminDeliverySummary() {
 
       const generatedAt = new Date().toLocaleString()
 
+      const receiptRows = (scopeMode === "all" ? rows : scopedRows)
+        .filter((r) => r.status === "Delivered" && r.signatures?.length)
+        .sort((a, b) => a.dateKey.localeCompare(b.dateKey) || a.school.localeCompare(b.school))
+      const signatureImages = new Map<string, string | null>()
+      for (const r of receiptRows) {
+        for (const sig of r.signatures || []) {
+          if (!signatureImages.has(sig.url)) signatureImages.set(sig.url, await loadImageAsDataUrl(resolveApiUrl(sig.url)))
+        }
+      }
+
       // Page strategy:
       // - scopeMode === 'all' => 1 municipality per PDF page
       // - scopeMode === 'selected' => single report covering selected municipalities
@@ -670,6 +726,7 @@ export function AdminDeliverySummary() {
           head: [["Status", "Count"]],
           body: [
             ["Delivered", String(s.delivered)],
+            ["  with shortage", String(s.short)],
             ["Pending", String(s.pending)],
             ["Delayed", String(s.delayed)],
             ["Cancelled", String(s.cancelled)],
@@ -683,6 +740,30 @@ export function AdminDeliverySummary() {
 
         y = (pdf as any).lastAutoTable?.finalY ? (pdf as any).lastAutoTable.finalY + 6 : y + 20
 
+        // Lines received under the expected quantity
+        const shortages = shortageRowsOf(rws)
+        if (shortages.length) {
+          autoTable(pdf, {
+            startY: y,
+            head: [["Shortages", "School", "Category", "Received / Expected", "Short"]],
+            body: shortages.map((x) => [
+              `${formatPrettyDate(x.dateKey)} — ${x.line.name}`,
+              x.school,
+              x.categoryLabel,
+              formatLineQuantity(x.line),
+              formatShortage(x.line),
+            ]),
+            theme: "grid",
+            styles: { font: "helvetica", fontSize: 8.5, cellPadding: 2 },
+            headStyles: { fillColor: [255, 237, 213], textColor: [124, 45, 18], fontStyle: "bold" },
+            columnStyles: { 3: { halign: "right" }, 4: { halign: "right" } },
+            margin: { left: marginX, right: marginX },
+          })
+
+          const finalY = (pdf as jsPDF & { lastAutoTable?: { finalY: number } }).lastAutoTable?.finalY
+          y = finalY ? finalY + 6 : y + 20
+        }
+
         // Items per date
         const blocks = groupByDateAndSchool(rws)
         for (const block of blocks) {
@@ -691,25 +772,29 @@ export function AdminDeliverySummary() {
           for (const schoolBlock of block.schools) {
             autoTable(pdf, {
               startY: y,
-              head: [[`${dateTitle} — ${schoolBlock.schoolLabel}`, "Total", "Delivered", "Pending", "Delayed", "Cancelled"]],
+              head: [[`${dateTitle} — ${schoolBlock.schoolLabel}`, "Total", "Delivered", "Short", "Pending", "Delayed", "Cancelled", "Received / Expected"]],
               body: schoolBlock.categories.slice(0, 25).map((c) => [
                 c.categoryLabel,
                 String(c.total),
                 String(c.delivered),
+                String(c.short),
                 String(c.pending),
                 String(c.delayed),
                 String(c.cancelled),
+                formatQuantityTotals(c.quantities) || "—",
               ]),
               theme: "grid",
               styles: { font: "helvetica", fontSize: 8.5, cellPadding: 2 },
               headStyles: { fillColor: [248, 250, 252], textColor: [15, 23, 42], fontStyle: "bold" },
               columnStyles: {
-                0: { cellWidth: pageWidth - marginX * 2 - 5 * 18 },
-                1: { cellWidth: 18, halign: "right" },
-                2: { cellWidth: 18, halign: "right" },
-                3: { cellWidth: 18, halign: "right" },
-                4: { cellWidth: 18, halign: "right" },
-                5: { cellWidth: 18, halign: "right" },
+                0: { cellWidth: pageWidth - marginX * 2 - 6 * 15 - 36 },
+                1: { cellWidth: 15, halign: "right" },
+                2: { cellWidth: 15, halign: "right" },
+                3: { cellWidth: 15, halign: "right" },
+                4: { cellWidth: 15, halign: "right" },
+                5: { cellWidth: 15, halign: "right" },
+                6: { cellWidth: 15, halign: "right" },
+                7: { cellWidth: 36, halign: "right" },
               },
               margin: { left: marginX, right: marginX },
             })
@@ -745,6 +830,125 @@ export function AdminDeliverySummary() {
         renderReportPage(pdf, title, label, scopedRows)
       }
 
+      // One receipt per signed delivery, stacked two to a page where they fit
+      if (receiptRows.length) {
+        const pageWidth = pdf.internal.pageSize.getWidth()
+        const pageHeight = pdf.internal.pageSize.getHeight()
+        const marginX = 14
+        const boxW = pageWidth - marginX * 2
+        const sigH = 42
+
+        pdf.addPage()
+        let y = createPage(pdf, "Delivery Receipts", `Generated: ${generatedAt}`, `Range: ${rangeLabel}`)
+
+        for (const r of receiptRows) {
+          if (y + 60 + sigH > pageHeight - 12) {
+            pdf.addPage()
+            y = 14
+          }
+          let top = y
+          let topPage = pdf.getNumberOfPages()
+          // Borders only frame the part of a receipt on the page it started on
+          const frame = () => {
+            if (pdf.getNumberOfPages() !== topPage) return
+            pdf.setDrawColor(203, 213, 225)
+            pdf.rect(marginX, top, boxW, y - top)
+          }
+
+          pdf.setTextColor(15, 23, 42)
+          pdf.setFont("helvetica", "bold")
+          pdf.setFontSize(11)
+          pdf.text("DELIVERY RECEIPT", pageWidth / 2, y + 7, { align: "center" })
+
+          pdf.setFont("helvetica", "normal")
+          pdf.setFontSize(9)
+          pdf.setTextColor(51, 65, 85)
+          const facts = [
+            ["Date", formatPrettyDate(r.dateKey)],
+            ["Category", r.categoryLabel],
+            ["School", r.school],
+            ["Municipality", r.municipality],
+          ]
+          facts.forEach(([label, value], i) => {
+            const x = marginX + 4 + (i % 2) * (boxW / 2)
+            const rowY = y + 14 + Math.floor(i / 2) * 6
+            pdf.setFont("helvetica", "bold")
+            pdf.text(`${label}:`, x, rowY)
+            pdf.setFont("helvetica", "normal")
+            pdf.text(String(value || "—"), x + 24, rowY)
+          })
+          y += 24
+
+          const lines = r.lines || []
+          if (lines.length) {
+            autoTable(pdf, {
+              startY: y,
+              head: [["Item", "Expected", "Received", "Unit", "Short"]],
+              body: lines.map((l) => [
+                l.name,
+                String(l.expectedQty),
+                String(l.receivedQty),
+                l.unit,
+                lineShortage(l) > 0 ? String(lineShortage(l)) : "—",
+              ]),
+              theme: "grid",
+              styles: { font: "helvetica", fontSize: 8.5, cellPadding: 1.8 },
+              headStyles: { fillColor: [241, 245, 249], textColor: [15, 23, 42], fontStyle: "bold" },
+              columnStyles: { 1: { halign: "right" }, 2: { halign: "right" }, 4: { halign: "right" } },
+              margin: { left: marginX + 4, right: marginX + 4 },
+            })
+            const finalY = (pdf as jsPDF & { lastAutoTable?: { finalY: number } }).lastAutoTable?.finalY
+            y = finalY ? finalY + 4 : y + 20
+          } else {
+            pdf.setTextColor(100, 116, 139)
+            pdf.text("No itemized quantities were recorded.", marginX + 4, y + 2)
+            y += 6
+          }
+
+          if (y + sigH > pageHeight - 12) {
+            frame()
+            pdf.addPage()
+            y = 14
+            top = y
+            topPage = pdf.getNumberOfPages()
+          }
+
+          const sigW = (boxW - 12) / 2
+          DELIVERY_SIGNATURE_ROLES.forEach(({ role, label }, i) => {
+            const x = marginX + 4 + i * (sigW + 4)
+            const sig = r.signatures?.find((s) => s.role === role)
+            const dataUrl = sig ? signatureImages.get(sig.url) : null
+            if (dataUrl) {
+              const props = pdf.getImageProperties(dataUrl)
+              const scale = Math.min(sigW / (props.width || 1), 22 / (props.height || 1))
+              const w = (props.width || 1) * scale
+              const h = (props.height || 1) * scale
+              pdf.addImage(dataUrl, "PNG", x + (sigW - w) / 2, y + 22 - h, w, h)
+            }
+            pdf.setDrawColor(100, 116, 139)
+            pdf.line(x, y + 24, x + sigW, y + 24)
+            pdf.setTextColor(15, 23, 42)
+            pdf.setFont("helvetica", "bold")
+            pdf.setFontSize(9)
+            pdf.text(sig?.signerName || " ", x + sigW / 2, y + 29, { align: "center" })
+            pdf.setFont("helvetica", "normal")
+            pdf.setFontSize(8)
+            pdf.setTextColor(71, 85, 105)
+            pdf.text(label, x + sigW / 2, y + 33, { align: "center" })
+            pdf.text(
+              sig ? `Signed ${new Date(sig.signedAt).toLocaleString()}` : "Not signed",
+              x + sigW / 2,
+              y + 37,
+              { align: "center" }
+            )
+          })
+          y += sigH
+
+          frame()
+          y += 8
+        }
+      }
+
       const blob = pdf.output("blob")
       cleanupPdfUrl()
       const url = URL.createObjectURL(blob)
@@ -774,6 +978,22 @@ export function AdminDeliverySummary() {
     return `${selectedMunicipalities.length} municipalities selected`
   }, [scopeMode, selectedMunicipalities])
 
+  const exportXlsx = () => {
+    if (!scopedRows.length) {
+      toast.error("No deliveries to export for this range and scope")
+      return
+    }
+    try {
+      const scopeLabel = scopeMode === "all" ? "All Municipalities" : selectedMunicipalities.join(", ")
+      exportTablesToXlsx(
+        `delivery-summary-${range?.from ? format(range.from, "yyyy-MM-dd") : "all"}-${range?.to ? format(range.to, "yyyy-MM-dd") : "all"}`,
+        deliveryWorkbookTables(scopedRows, { rangeLabel, scopeLabel })
+      )
+    } catch (e) {
+      toast.error(getErrorMessage(e, "Failed to export Excel"))
+    }
+  }
+
   return (
     <div className="space-y-6 px-1">
       {/* ── Header ── */}
@@ -795,11 +1015,15 @@ export function AdminDeliverySummary() {
         <div className="flex items-center gap-3">
           <img src="/images/bhsslogo.png" alt="BHSS Logo" className="h-10 w-10 object-contain" />
           <img src="/images/bataanlogo.png" alt="Bataan Logo" className="h-10 w-10 object-contain" />
+          <Button type="button" variant="outline" className="rounded-xl" onClick={exportXlsx} disabled={!canExport}>
+            <FileSpreadsheet className="size-4 text-green-600" />
+            Export Excel
+          </Button>
           <Button
             type="button"
             className="rounded-xl bg-green-700 hover:bg-green-800 text-white shadow-sm"
             onClick={buildPdf}
-            disabled={isGeneratingPdf}
+            disabled={isGeneratingPdf || !canExport}
           >
             <Download className="size-4" />
             Export PDF
@@ -893,7 +1117,7 @@ export function AdminDeliverySummary() {
             </div>
 
             <div className="min-w-0 lg:col-span-2">
-              <Select value={scopeMode} onValueChange={(v) => setScopeMode(v as any)}>
+              <Select value={scopeMode} onValueChange={(v) => setScopeMode(v as any)} disabled={isMunicipalityLocked}>
                 <SelectTrigger className="h-10 w-full rounded-xl min-w-0">
                   <SelectValue placeholder="Scope" />
                 </SelectTrigger>
@@ -914,7 +1138,7 @@ export function AdminDeliverySummary() {
                     type="button"
                     variant="outline"
                     className="h-10 w-full justify-between rounded-xl"
-                    disabled={scopeMode !== "selected"}
+                    disabled={scopeMode !== "selected" || isMunicipalityLocked}
                   >
                     <span className="truncate">{selectedMunicipalityLabel}</span>
                     <span className="text-xs text-muted-foreground">{selectedMunicipalities.length}</span>
@@ -1033,7 +1257,10 @@ export function AdminDeliverySummary() {
           </CardHeader>
           <CardContent>
             <div className="text-4xl font-bold tracking-tight text-green-800">{summary.delivered}</div>
-            <p className="text-xs text-green-600/60 mt-1">Pending: {summary.pending}</p>
+            <p className="text-xs text-green-600/60 mt-1">
+              Pending: {summary.pending}
+              {summary.short ? ` · With shortage: ${summary.short}` : ""}
+            </p>
           </CardContent>
         </Card>
       </div>
@@ -1065,6 +1292,10 @@ export function AdminDeliverySummary() {
                   </Badge>
                 )
               })}
+              <Badge className="rounded-xl bg-orange-50 text-orange-700 border border-orange-200 font-medium">
+                <PackageMinus className="mr-1 size-3.5" />
+                Delivered with shortage: {summary.short}
+              </Badge>
             </div>
 
             <div className="mt-4 h-64 w-full">
@@ -1114,6 +1345,51 @@ export function AdminDeliverySummary() {
         </Card>
       </div>
 
+      {shortageRows.length ? (
+        <Card className="rounded-2xl border border-orange-100 bg-white shadow-sm">
+          <CardHeader className="space-y-1 pb-3">
+            <CardTitle className="text-sm font-semibold text-neutral-700 flex items-center gap-2">
+              <PackageMinus className="size-4 text-orange-600" />
+              Shortages
+            </CardTitle>
+            <p className="text-xs text-muted-foreground">
+              Items received under the expected quantity on deliveries marked Delivered.
+            </p>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-muted/40 hover:bg-muted/40">
+                  <TableHead className="text-xs font-semibold">Date</TableHead>
+                  <TableHead className="text-xs font-semibold">School</TableHead>
+                  <TableHead className="text-xs font-semibold">Category</TableHead>
+                  <TableHead className="text-xs font-semibold">Item</TableHead>
+                  <TableHead className="text-right text-xs font-semibold">Received / Expected</TableHead>
+                  <TableHead className="text-right text-xs font-semibold">Short</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {shortageRows.map((x, i) => (
+                  <TableRow key={`${x.dateKey}-${x.school}-${x.categoryLabel}-${i}`} className="hover:bg-muted/20 transition-colors">
+                    <TableCell className="whitespace-nowrap text-sm">{formatPrettyDate(x.dateKey)}</TableCell>
+                    <TableCell className="text-sm">
+                      {x.school}
+                      {x.municipality ? <span className="text-muted-foreground"> ({x.municipality})</span> : null}
+                    </TableCell>
+                    <TableCell className="text-sm">{x.categoryLabel}</TableCell>
+                    <TableCell className="font-medium text-neutral-800 text-sm">{x.line.name}</TableCell>
+                    <TableCell className="text-right whitespace-nowrap tabular-nums text-sm">{formatLineQuantity(x.line)}</TableCell>
+                    <TableCell className="text-right whitespace-nowrap tabular-nums text-sm font-semibold text-orange-700">
+                      {formatShortage(x.line)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      ) : null}
+
       <Card className="rounded-2xl border bg-white shadow-sm">
         <CardHeader className="space-y-1 pb-3">
           <CardTitle className="text-sm font-semibold text-neutral-700 flex items-center gap-2">
@@ -1160,16 +1436,18 @@ export function AdminDeliverySummary() {
                               <TableHead className="text-xs font-semibold">Category</TableHead>
                               <TableHead className="text-right text-xs font-semibold">Total</TableHead>
                               <TableHead className="text-right text-xs font-semibold">Delivered</TableHead>
+                              <TableHead className="text-right text-xs font-semibold">Short</TableHead>
                               <TableHead className="text-right text-xs font-semibold">Pending</TableHead>
                               <TableHead className="text-right text-xs font-semibold">Delayed</TableHead>
                               <TableHead className="text-right text-xs font-semibold">Cancelled</TableHead>
+                              <TableHead className="text-right text-xs font-semibold">Received / Expected</TableHead>
                             </TableRow>
                           </TableHeader>
                           <TableBody>
                             {s.categories.length === 0 ? (
                               <TableRow>
                                 <TableCell
-                                  colSpan={6}
+                                  colSpan={8}
                                   className="py-6 text-center text-sm text-muted-foreground"
                                 >
                                   No categories.
@@ -1183,6 +1461,9 @@ export function AdminDeliverySummary() {
                                   <TableCell className="text-right">
                                     <CountBadge value={c.delivered} variant="delivered" />
                                   </TableCell>
+                                  <TableCell className="text-right">
+                                    <CountBadge value={c.short} variant="short" />
+                                  </TableCell>
                                   <TableCell className="text-right">
                                     <CountBadge value={c.pending} variant="pending" />
                                   </TableCell>
@@ -1192,6 +1473,9 @@ export function AdminDeliverySummary() {
                                   <TableCell className="text-right">
                                     <CountBadge value={c.cancelled} variant="cancelled" />
                                   </TableCell>
+                                  <TableCell className="text-right whitespace-nowrap tabular-nums text-sm text-neutral-700">
+                                    {formatQuantityTotals(c.quantities) || "—"}
+                                  </TableCell>
                                 </TableRow>
                               ))
                             )}
@@ -1,6 +1,5 @@
 import { useEffect, useMemo, useState, useRef, useCallback } from "react"
-import { format } from "date-fns"
-import type { DateRange } from "react-day-picker"
+import { format, subDays } from "date-fns"
 import { toast } from "sonner"
 import jsPDF from "jspdf"
 import autoTable from "jspdf-autotable"
@@ -12,6 +11,7 @@ import {
   Clock,
   FileDown,
   Eye,
+  MapPin,
   Image as ImageIcon,
   Search,
   Truck,
@@ -36,6 +36,16 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select"
+import {
+  deliveryApi,
+  isAbortError,
+  resolveApiUrl,
+  type DeliveryImageDto,
+  type DeliveryImageFingerprintDto,
+} from "@/lib/api"
+import { useMunicipalityParam, usePermissions } from "@/lib/permissions"
+import { evidenceFlags, indexFingerprints, isSuspicious, type EvidenceFlag } from "@/lib/photo-evidence"
+import { setSearchParams, useDateRangeSearchParams, useSearchParam } from "@/lib/router"
 
 
 type DeliveryStatus = "Pending" | "Delivered" | "Delayed" | "Cancelled"
@@ -83,7 +93,7 @@ const LazyImage = ({
     priority ? "loading" : "idle"
   )
   const containerRef = useRef<HTMLDivElement>(null)
-  const fullUrl = src.startsWith("http") ? src : `${getApiBaseUrl()}${src}`
+  const fullUrl = resolveApiUrl(src)
 
   useEffect(() => {
     if (priority) return // already "loading" from initial state
@@ -142,11 +152,13 @@ const LazyImage = ({
 // feel instant.
 const Lightbox = ({
   images,
+  flags,
   index,
   onClose,
   onNav,
 }: {
-  images: Array<{ url: string; filename: string }>
+  images: DeliveryImageDto[]
+  flags?: EvidenceFlag[][]
   index: number
   onClose: () => void
   onNav: (i: number) => void
@@ -183,9 +195,7 @@ const Lightbox = ({
         {/* Pre-load neighbours invisibly */}
         {canNext && (
           <img
-            src={images[index + 1].url.startsWith("http")
-              ? images[index + 1].url
-              : `${getApiBaseUrl()}${images[index + 1].url}`}
+            src={resolveApiUrl(images[index + 1].url)}
             alt=""
             className="sr-only"
             aria-hidden
@@ -193,9 +203,7 @@ const Lightbox = ({
         )}
         {canPrev && (
           <img
-            src={images[index - 1].url.startsWith("http")
-              ? images[index - 1].url
-              : `${getApiBaseUrl()}${images[index - 1].url}`}
+            src={resolveApiUrl(images[index - 1].url)}
             alt=""
             className="sr-only"
             aria-hidden
@@ -203,6 +211,38 @@ const Lightbox = ({
         )}
       </div>
 
+      {/* Evidence */}
+      {(flags?.[index] || []).length || img.capturedAt || img.latitude !== undefined ? (
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          {img.capturedAt ? (
+            <span className="text-gray-500">Taken {formatDateTime(img.capturedAt)}</span>
+          ) : null}
+          {img.latitude !== undefined && img.longitude !== undefined ? (
+            <a
+              href={`https://www.google.com/maps?q=${img.latitude},${img.longitude}`}
+              target="_blank"
+              rel="noreferrer"
+              className="inline-flex items-center gap-1 text-sky-700 hover:underline"
+            >
+              <MapPin className="size-3" />
+              {img.latitude.toFixed(5)}, {img.longitude.toFixed(5)}
+            </a>
+          ) : null}
+          {(flags?.[index] || []).map((f) => (
+            <span
+              key={f.kind}
+              className={`inline-flex items-center gap-1 rounded-full border px-2 py-0.5 font-semibold ${f.severity === "warning"
+                ? "border-amber-300 bg-amber-100 text-amber-800"
+                : "border-gray-200 bg-gray-50 text-gray-500"
+                }`}
+            >
+              {f.severity === "warning" ? <TriangleAlert className="size-3 shrink-0" /> : null}
+              {f.message}
+            </span>
+          ))}
+        </div>
+      ) : null}
+
       {/* Controls */}
       <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
         <p className="min-w-0 truncate text-xs text-gray-400">
@@ -238,9 +278,12 @@ const BATCH_SIZE = 12
 
 const ThumbnailGrid = ({
   images,
+  flags,
   onSelect,
 }: {
-  images: Array<{ url: string; filename: string }>
+  images: DeliveryImageDto[]
+  /** Evidence checks per image, index for index. */
+  flags?: EvidenceFlag[][]
   onSelect: (i: number) => void
 }) => {
   const [visibleCount, setVisibleCount] = useState(BATCH_SIZE)
@@ -270,26 +313,40 @@ const ThumbnailGrid = ({
 
   return (
     <div className="grid grid-cols-2 gap-2.5 sm:grid-cols-3 md:grid-cols-4">
-      {visible.map((img, idx) => (
-        <button
-          key={`${img.filename}-${idx}`}
-          type="button"
-          onClick={() => onSelect(idx)}
-          className="group relative overflow-hidden rounded-xl border border-gray-100 bg-gray-50 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-green-400/50 transition-all hover:border-green-200 hover:shadow-md"
-        >
-          <LazyImage
-            src={img.url}
-            alt={img.filename}
-            containerClassName="h-28 w-full"
-            className="h-28 w-full object-cover transition-transform duration-300 group-hover:scale-[1.05]"
-          />
-          {/* Hover overlay */}
-          <div className="absolute inset-0 flex items-center justify-center bg-black/0 transition-all group-hover:bg-black/20">
-            <ZoomIn className="size-5 text-white opacity-0 transition-opacity group-hover:opacity-100 drop-shadow" />
-          </div>
-          <p className="truncate px-2 py-1.5 text-[11px] text-gray-400">{img.filename}</p>
-        </button>
-      ))}
+      {visible.map((img, idx) => {
+        const imageFlags = flags?.[idx] || []
+        const warnings = imageFlags.filter((f) => f.severity === "warning")
+        return (
+          <button
+            key={`${img.filename}-${idx}`}
+            type="button"
+            onClick={() => onSelect(idx)}
+            title={imageFlags.map((f) => f.message).join("\n") || undefined}
+            className={`group relative overflow-hidden rounded-xl border bg-gray-50 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-green-400/50 transition-all hover:shadow-md ${warnings.length
+              ? "border-amber-300 hover:border-amber-400"
+              : "border-gray-100 hover:border-green-200"
+              }`}
+          >
+            <LazyImage
+              src={img.url}
+              alt={img.filename}
+              containerClassName="h-28 w-full"
+              className="h-28 w-full object-cover transition-transform duration-300 group-hover:scale-[1.05]"
+            />
+            {/* Hover overlay */}
+            <div className="absolute inset-0 flex items-center justify-center bg-black/0 transition-all group-hover:bg-black/20">
+              <ZoomIn className="size-5 text-white opacity-0 transition-opacity group-hover:opacity-100 drop-shadow" />
+            </div>
+            {warnings.length ? (
+              <span className="absolute left-1.5 top-1.5 inline-flex items-center gap-1 rounded-full border border-amber-300 bg-amber-100 px-2 py-0.5 text-[10px] font-semibold text-amber-800 shadow-sm">
+                <TriangleAlert className="size-3 shrink-0" />
+                {warnings.some((f) => f.kind === "duplicate") ? "Possible reuse" : "Old photo"}
+              </span>
+            ) : null}
+            <p className="truncate px-2 py-1.5 text-[11px] text-gray-400">{img.filename}</p>
+          </button>
+        )
+      })}
 
       {/* Sentinel – triggers next batch */}
       {visibleCount < images.length && (
@@ -308,40 +365,19 @@ type AdminDeliveryRow = {
   municipality: string
   school: string
   hlaManagerName?: string
+  supplierName?: string
   categoryKey: string
   categoryLabel: string
   status: DeliveryStatus
   statusReason: string
   uploadedAt: string
-  images: Array<{ url: string; filename: string }>
+  images: DeliveryImageDto[]
   concerns: string[]
   remarks: string
 }
 
-function getApiBaseUrl() {
-  const envAny = (import.meta as any)?.env as any
-  const fromEnv = (envAny?.VITE_API_BASE_URL || envAny?.VITE_API_URL) as string | undefined
-  return (fromEnv || "http://localhost:8000").replace(/\/+$/, "")
-}
-
-function getAuthToken(): string | null {
-  try {
-    const raw = localStorage.getItem("bhss_auth")
-    if (!raw) return null
-    return (JSON.parse(raw) as { token?: string })?.token || null
-  } catch { return null }
-}
-
-async function apiFetch(path: string) {
-  const token = getAuthToken()
-  if (!token) throw new Error("Not authenticated")
-  const res = await fetch(`${getApiBaseUrl()}${path}`, {
-    headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
-  })
-  const data = await res.json().catch(() => ({}))
-  if (!res.ok) throw new Error((data as any)?.message || "Request failed")
-  return data
-}
+/** How far before the selected range stored photos are checked for reuse. */
+const FINGERPRINT_LOOKBACK_DAYS = 90
 
 function statusMeta(status: DeliveryStatus) {
   if (status === "Delivered") return { label: "Delivered", icon: CheckCircle2, badgeClass: "bg-green-50 text-green-700 border border-green-200" }
@@ -358,7 +394,10 @@ function formatDateTime(value: string) {
 
 // ─── Main Component ───────────────────────────────────────────────────────────
 export function AdminDelivery() {
-  const [range, setRange] = useState<DateRange | undefined>(() => {
+  const permissions = usePermissions()
+  // Range, municipality, school, category and the open record live in the URL
+  // so a notification or shared link lands on the same view.
+  const [range, setRange] = useDateRangeSearchParams(() => {
     const today = new Date()
     return { from: today, to: today }
   })
@@ -366,9 +405,12 @@ export function AdminDelivery() {
   const [search, setSearch] = useState("")
   const [sort, setSort] = useState<"newest" | "oldest">("newest")
 
-  const [selectedMunicipality, setSelectedMunicipality] = useState<string>("all")
-  const [selectedSchool, setSelectedSchool] = useState<string>("all")
-  const [selectedCategory, setSelectedCategory] = useState<string>("all")
+  const { municipality: municipalityParam, locked: isMunicipalityLocked } = useMunicipalityParam()
+  const [schoolParam, setSchoolParam] = useSearchParam("school")
+  const [categoryParam, setCategoryParam] = useSearchParam("category")
+  const selectedMunicipality = municipalityParam || "all"
+  const selectedSchool = schoolParam || "all"
+  const selectedCategory = categoryParam || "all"
 
   const [currentPage, setCurrentPage] = useState(1)
   const pageSize = 10
@@ -376,7 +418,12 @@ export function AdminDelivery() {
   const [rows, setRows] = useState<AdminDeliveryRow[]>([])
   const [isLoading, setIsLoading] = useState(false)
 
-  const [viewDetails, setViewDetails] = useState<AdminDeliveryRow | null>(null)
+  const [recordIdParam, setRecordIdParam] = useSearchParam("id")
+  const viewDetails = useMemo(
+    () => (recordIdParam ? rows.find((r) => r.id === recordIdParam) || null : null),
+    [recordIdParam, rows]
+  )
+  const setViewDetails = (row: AdminDeliveryRow | null) => setRecordIdParam(row?.id ?? null)
   const [viewImages, setViewImages] = useState<AdminDeliveryRow | null>(null)
   const [imagePreviewIndex, setImagePreviewIndex] = useState<number | null>(null)
 
@@ -417,6 +464,7 @@ export function AdminDelivery() {
       ["School", row.school],
       ["Uploaded By", String(row.hlaManagerName || "") || "N/A"],
       ["Category", row.categoryLabel],
+      ["Supplier", row.supplierName || "N/A"],
       ["Status", row.status],
       ["Uploaded At", formatDateTime(row.uploadedAt)],
       ["Reason", row.statusReason || "N/A"],
@@ -450,7 +498,7 @@ export function AdminDelivery() {
     let x = margin, y = margin + 32, col = 0
 
     for (const img of row.images) {
-      const absUrl = `${getApiBaseUrl()}${img.url}`
+      const absUrl = resolveApiUrl(img.url)
       let dataUrl = ""
       try { dataUrl = await toDataUrl(absUrl) } catch { dataUrl = "" }
 
@@ -504,13 +552,15 @@ export function AdminDelivery() {
     const t = setTimeout(async () => {
       setIsLoading(true)
       try {
-        const qs = new URLSearchParams()
-        if (range?.from) qs.set("from", format(range.from, "yyyy-MM-dd"))
-        if (range?.to) qs.set("to", format(range.to, "yyyy-MM-dd"))
-        if (search.trim()) qs.set("search", search.trim())
-        qs.set("sort", sort)
-        const data = (await apiFetch(`/api/admin/delivery/history?${qs.toString()}`)) as { records?: AdminDeliveryRow[] }
-        setRows(Array.isArray(data.records) ? data.records : [])
+        const data = await deliveryApi.adminHistory({
+          from: range?.from ? format(range.from, "yyyy-MM-dd") : undefined,
+          to: range?.to ? format(range.to, "yyyy-MM-dd") : undefined,
+          search: search.trim(),
+          sort,
+          municipality: permissions.municipality ?? undefined,
+        })
+        const records = Array.isArray(data.records) ? (data.records as AdminDeliveryRow[]) : []
+        setRows(records.filter((r) => permissions.inScope(r.municipality, r.school)))
       } catch (e: any) {
         toast.error(e?.message || "Failed to load delivery records")
         setRows([])
@@ -519,7 +569,29 @@ export function AdminDelivery() {
       }
     }, 250)
     return () => clearTimeout(t)
-  }, [range?.from, range?.to, search, sort])
+  }, [range?.from, range?.to, search, sort, permissions])
+
+  // Photo hashes from every school, reaching back before the range so reused
+  // photos from earlier deliveries are caught too
+  const [fingerprints, setFingerprints] = useState<DeliveryImageFingerprintDto[]>([])
+  useEffect(() => {
+    const controller = new AbortController()
+    const to = range?.to ?? range?.from
+    deliveryApi
+      .adminImageFingerprints(
+        {
+          from: range?.from ? format(subDays(range.from, FINGERPRINT_LOOKBACK_DAYS), "yyyy-MM-dd") : undefined,
+          to: to ? format(to, "yyyy-MM-dd") : undefined,
+        },
+        controller.signal
+      )
+      .then((res) => setFingerprints(res.fingerprints || []))
+      .catch((e) => {
+        // The check is advisory; the records still show without it
+        if (!isAbortError(e)) setFingerprints([])
+      })
+    return () => controller.abort()
+  }, [range?.from, range?.to])
 
   useEffect(() => {
     const handler = (ev: Event) => {
@@ -549,6 +621,7 @@ export function AdminDelivery() {
         concerns: Array.isArray(record.concerns) ? record.concerns : [],
         remarks: String(record.remarks || ""),
       }
+      if (!permissions.inScope(nextRow.municipality, nextRow.school)) return
 
       setRows((prev) => {
         const existingIdx = prev.findIndex((r) => r.id === nextRow.id)
@@ -561,7 +634,33 @@ export function AdminDelivery() {
     }
     window.addEventListener("delivery:saved", handler)
     return () => window.removeEventListener("delivery:saved", handler)
-  }, [range?.from, range?.to])
+  }, [range?.from, range?.to, permissions])
+
+  const evidenceByRecord = useMemo(() => {
+    const known = new Set(fingerprints.map((f) => `${f.recordId}|${f.filename}`))
+    const loaded = rows.flatMap((r) =>
+      r.images.flatMap((img) =>
+        img.phash && !known.has(`${r.id}|${img.filename}`)
+          ? [{
+            recordId: r.id,
+            dateKey: r.dateKey,
+            municipality: r.municipality,
+            school: r.school,
+            categoryLabel: r.categoryLabel,
+            filename: img.filename,
+            phash: img.phash,
+          }]
+          : []
+      )
+    )
+    const index = indexFingerprints([...fingerprints, ...loaded])
+    const byRecord = new Map<string, EvidenceFlag[][]>()
+    for (const r of rows) byRecord.set(r.id, r.images.map((img) => evidenceFlags(img, r, index)))
+    return byRecord
+  }, [fingerprints, rows])
+
+  const suspiciousCount = (r: AdminDeliveryRow) =>
+    (evidenceByRecord.get(r.id) || []).filter(isSuspicious).length
 
   const stats = useMemo(() => {
     const total = rows.length
@@ -714,7 +813,7 @@ export function AdminDelivery() {
 
             {/* Municipality */}
             <div className="min-w-0 lg:col-span-2">
-              <Select value={selectedMunicipality} onValueChange={(v) => { setSelectedMunicipality(v); setSelectedSchool("all"); setSelectedCategory("all") }}>
+              <Select value={selectedMunicipality} disabled={isMunicipalityLocked} onValueChange={(v) => setSearchParams({ municipality: v === "all" ? null : v, school: null, category: null })}>
                 <SelectTrigger className="h-9 w-full rounded-xl border-gray-200 text-sm">
                   <SelectValue placeholder="Municipality" />
                 </SelectTrigger>
@@ -727,7 +826,7 @@ export function AdminDelivery() {
 
             {/* School */}
             <div className="min-w-0 lg:col-span-2">
-              <Select value={selectedSchool} onValueChange={(v) => setSelectedSchool(v)} disabled={selectedMunicipality === "all"}>
+              <Select value={selectedSchool} onValueChange={(v) => setSchoolParam(v === "all" ? null : v)} disabled={selectedMunicipality === "all"}>
                 <SelectTrigger className="h-9 w-full rounded-xl border-gray-200 text-sm">
                   <SelectValue placeholder="School" />
                 </SelectTrigger>
@@ -740,7 +839,7 @@ export function AdminDelivery() {
 
             {/* Category */}
             <div className="min-w-0 lg:col-span-2">
-              <Select value={selectedCategory} onValueChange={(v) => setSelectedCategory(v)}>
+              <Select value={selectedCategory} onValueChange={(v) => setCategoryParam(v === "all" ? null : v)}>
                 <SelectTrigger className="h-9 w-full rounded-xl border-gray-200 text-sm">
                   <SelectValue placeholder="Materials/Goods" />
                 </SelectTrigger>
@@ -902,6 +1001,15 @@ export function AdminDelivery() {
                           }`}>
                           {r.images.length}
                         </span>
+                        {suspiciousCount(r) ? (
+                          <span
+                            title="Some photos look reused or were taken on another day"
+                            className="mt-1 flex w-fit mx-auto items-center gap-1 rounded-full bg-amber-100 border border-amber-300 px-2 py-0.5 text-[10px] font-semibold text-amber-700"
+                          >
+                            <TriangleAlert className="size-2.5 shrink-0" />
+                            {suspiciousCount(r)} to check
+                          </span>
+                        ) : null}
                       </td>
 
                       {/* Actions */}
@@ -994,6 +1102,7 @@ export function AdminDelivery() {
                   ["School", viewDetails.school],
                   ["Uploaded By", viewDetails.hlaManagerName || "N/A"],
                   ["Category", viewDetails.categoryLabel],
+                  ["Supplier", viewDetails.supplierName || "Not attributed"],
                 ].map(([label, value]) => (
                   <div key={label} className="flex items-start justify-between gap-3">
                     <span className="text-xs font-semibold uppercase tracking-wider text-gray-400 pt-0.5">{label}</span>
@@ -1050,7 +1159,7 @@ export function AdminDelivery() {
 
           <div className="border-t border-gray-100 px-6 py-4">
             <div className="flex items-center justify-end gap-2">
-              {viewDetails && (
+              {viewDetails && permissions.can("delivery", "export") && (
                 <button
                   type="button"
                   onClick={() => handleExportPdf(viewDetails)}
@@ -1136,6 +1245,7 @@ export function AdminDelivery() {
               ) : (
                 <ThumbnailGrid
                   images={viewImages.images}
+                  flags={evidenceByRecord.get(viewImages.id)}
                   onSelect={(i) => setImagePreviewIndex(i)}
                 />
               )
@@ -1169,6 +1279,7 @@ export function AdminDelivery() {
               {viewImages && imagePreviewIndex !== null ? (
                 <Lightbox
                   images={viewImages.images}
+                  flags={evidenceByRecord.get(viewImages.id)}
                   index={imagePreviewIndex}
                   onNav={handleLightboxNav}
                   onClose={handleLightboxClose}
@@ -0,0 +1,410 @@
+import { useEffect, useMemo, useState } from "react"
+import { format, startOfMonth } from "date-fns"
+import {
+  AlertTriangle,
+  CalendarDays,
+  CheckCircle2,
+  ExternalLink,
+  FileSpreadsheet,
+  Loader2,
+  Package,
+  Scale,
+  XCircle,
+} from "lucide-react"
+import { toast } from "sonner"
+
+import { Button } from "@/components/ui/button"
+import { Calendar } from "@/components/ui/calendar"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import {
+  deliveryApi,
+  distributionApi,
+  getErrorMessage,
+  isAbortError,
+  type AdminDeliveryRecordDto,
+  type DistributionCategory,
+} from "@/lib/api"
+import { DISTRIBUTION_CATEGORIES, DISTRIBUTION_SCHEMAS, rowsFromSaved } from "@/lib/distribution-import"
+import {
+  ALLOCATION_STATUS_META,
+  DELIVERY_KEYS_BY_DISTRIBUTION,
+  reconcileDistribution,
+  type AllocationReconciliation,
+  type AllocationStatus,
+} from "@/lib/distribution-reconciliation"
+import { exportTablesToXlsx } from "@/lib/export"
+import { usePermissions } from "@/lib/permissions"
+import { navigate, setSearchParams, useDateRangeSearchParams, useSearchParam } from "@/lib/router"
+import { links } from "@/lib/routes"
+
+const cardClass =
+  "relative overflow-hidden rounded-2xl border border-black/5 bg-white/60 [@supports(backdrop-filter:blur(0))]:backdrop-blur-xl shadow-[inset_0_1px_0_rgba(255,255,255,0.7),0_6px_18px_rgba(0,0,0,0.06)]"
+
+const STATUS_ORDER: AllocationStatus[] = ["unconfirmed", "problem", "confirmed", "unallocated"]
+
+function isDistributionCategory(v: string | null): v is DistributionCategory {
+  return !!v && (DISTRIBUTION_CATEGORIES as string[]).includes(v)
+}
+
+async function loadReconciliation<C extends DistributionCategory>(
+  category: C,
+  from: string | undefined,
+  to: string | undefined,
+  municipality: string | undefined,
+  signal: AbortSignal
+) {
+  const schema = DISTRIBUTION_SCHEMAS[category]
+  const [allocation, deliveries] = await Promise.all([
+    distributionApi.latest(category, { municipality }, signal),
+    deliveryApi.adminHistory({ from, to, sort: "newest", municipality }, signal),
+  ])
+  const records: AdminDeliveryRecordDto[] = deliveries.records || []
+  return {
+    entries: reconcileDistribution(schema, rowsFromSaved(schema, allocation.rows || []), records),
+    batchFile: allocation.batch?.sourceFileName || "",
+  }
+}
+
+export function AdminDistributionReconciliation() {
+  const permissions = usePermissions()
+  const [categoryParam, setCategoryParam] = useSearchParam("category")
+  const category: DistributionCategory = isDistributionCategory(categoryParam) ? categoryParam : "rice"
+  const schema = DISTRIBUTION_SCHEMAS[category]
+  const [statusParam] = useSearchParam("status")
+  const status = statusParam || "all"
+  const [range, setRange] = useDateRangeSearchParams(() => ({ from: startOfMonth(new Date()), to: new Date() }))
+  const [isRangeOpen, setIsRangeOpen] = useState(false)
+  const [search, setSearch] = useState("")
+
+  const fromKey = range?.from ? format(range.from, "yyyy-MM-dd") : undefined
+  const toKey = range?.to ? format(range.to, "yyyy-MM-dd") : fromKey
+  const scopedMunicipality = permissions.municipality ?? undefined
+  const loadKey = `${category}|${fromKey || ""}|${toKey || ""}|${scopedMunicipality || ""}`
+  const [loaded, setLoaded] = useState<{ key: string; entries: AllocationReconciliation[]; batchFile: string }>({
+    key: "",
+    entries: [],
+    batchFile: "",
+  })
+  const isLoading = loaded.key !== loadKey
+
+  useEffect(() => {
+    const controller = new AbortController()
+    loadReconciliation(category, fromKey, toKey, scopedMunicipality, controller.signal)
+      .then((res) =>
+        setLoaded({
+          key: loadKey,
+          batchFile: res.batchFile,
+          entries: res.entries.filter((e) => permissions.inScope(e.municipality, e.school)),
+        })
+      )
+      .catch((e) => {
+        if (isAbortError(e)) return
+        toast.error(getErrorMessage(e, "Failed to load reconciliation"))
+        setLoaded({ key: loadKey, entries: [], batchFile: "" })
+      })
+    return () => controller.abort()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [loadKey])
+
+  const entries = useMemo(() => (isLoading ? [] : loaded.entries), [isLoading, loaded.entries])
+
+  const counts = useMemo(() => {
+    const acc: Record<AllocationStatus, number> = { confirmed: 0, problem: 0, unconfirmed: 0, unallocated: 0 }
+    for (const e of entries) acc[e.status] += 1
+    return acc
+  }, [entries])
+
+  const visible = useMemo(() => {
+    const q = search.trim().toLowerCase()
+    return entries
+      .filter((e) => status === "all" || e.status === status)
+      .filter((e) => !q || `${e.school} ${e.municipality}`.toLowerCase().includes(q))
+      .sort(
+        (a, b) =>
+          STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status) ||
+          a.municipality.localeCompare(b.municipality) ||
+          a.school.localeCompare(b.school)
+      )
+  }, [entries, search, status])
+
+  const weekCount = schema.columns.filter((c) => c.role === "week").length
+  const allocatedTotal = entries.reduce((s, e) => s + e.allocated, 0)
+  const periodLabel =
+    range?.from && range?.to
+      ? `${format(range.from, "MMM d")} – ${format(range.to, "MMM d, yyyy")}`
+      : range?.from
+        ? format(range.from, "MMM d, yyyy")
+        : "All dates"
+
+  const summaryCards = [
+    { label: "Allocated", value: allocatedTotal.toLocaleString(), note: schema.unit, Icon: Package, color: "text-neutral-700" },
+    { label: "Confirmed", value: String(counts.confirmed), note: "Schools with a Delivered record", Icon: CheckCircle2, color: "text-emerald-600" },
+    { label: "Delayed / cancelled", value: String(counts.problem), note: "No delivery confirmed yet", Icon: AlertTriangle, color: "text-amber-600" },
+    { label: "Never confirmed", value: String(counts.unconfirmed), note: "Allocated, no delivery reported", Icon: XCircle, color: "text-red-600" },
+    { label: "Not allocated", value: String(counts.unallocated), note: "Delivered without an allocation", Icon: Scale, color: "text-neutral-500" },
+  ]
+
+  const exportXlsx = () => {
+    const weekHeads = Array.from({ length: weekCount }, (_, i) => `Week ${i + 1} (allocated / delivered)`)
+    exportTablesToXlsx(`distribution-reconciliation-${category}-${fromKey || "all"}-${toKey || "all"}`, [
+      {
+        title: `${schema.title} vs. delivery`,
+        subtitle: [`Period: ${periodLabel}`, `Allocation: ${loaded.batchFile || "latest batch"}`],
+        sheetName: "Reconciliation",
+        head: [
+          "Municipality",
+          "School",
+          `Allocated (${schema.unit})`,
+          ...weekHeads,
+          "Delivered",
+          "Delayed",
+          "Cancelled",
+          "Pending",
+          "Concerns",
+          "Last delivered",
+          "Status",
+        ],
+        body: visible.map((e) => [
+          e.municipality,
+          e.school,
+          e.allocated,
+          ...(e.weeks || []).map((w) => `${w.allocated} / ${w.delivered}`),
+          e.delivered,
+          e.delayed,
+          e.cancelled,
+          e.pending,
+          e.concerns.join(", "),
+          e.lastDeliveredKey || "",
+          ALLOCATION_STATUS_META[e.status].label,
+        ]),
+      },
+    ])
+  }
+
+  const columnCount = 11 + weekCount
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-col gap-3 space-y-0 lg:flex-row lg:items-start lg:justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Scale className="size-5" />
+              Distribution vs. Delivery
+            </CardTitle>
+            <CardDescription>
+              Allocations from the latest {schema.title.toLowerCase()} batch compared with what schools reported as
+              delivered.
+            </CardDescription>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <Select value={category} onValueChange={(v) => setCategoryParam(v)}>
+              <SelectTrigger className="h-9 w-[190px] rounded-xl">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DISTRIBUTION_CATEGORIES.map((c) => (
+                  <SelectItem key={c} value={c}>
+                    {DISTRIBUTION_SCHEMAS[c].title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Popover open={isRangeOpen} onOpenChange={setIsRangeOpen}>
+              <PopoverTrigger asChild>
+                <Button type="button" variant="outline" className="h-9 rounded-xl">
+                  <CalendarDays className="mr-1 size-4 text-gray-400" />
+                  {periodLabel}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto overflow-hidden rounded-xl border p-0 shadow-lg" align="end">
+                <Calendar
+                  mode="range"
+                  selected={range}
+                  onSelect={(r) => setRange(r)}
+                  numberOfMonths={2}
+                  className="p-2 [--cell-size:--spacing(7)]"
+                />
+              </PopoverContent>
+            </Popover>
+            <Button type="button" variant="outline" className="h-9 rounded-xl" disabled={!permissions.can("distribution", "export") || isLoading || !visible.length} onClick={exportXlsx}>
+              <FileSpreadsheet className="mr-1 size-4" />
+              Export
+            </Button>
+          </div>
+        </CardHeader>
+      </Card>
+
+      <div className="grid gap-4 md:grid-cols-3 lg:grid-cols-5">
+        {summaryCards.map(({ label, value, note, Icon, color }) => (
+          <Card key={label} className={cardClass}>
+            <CardHeader className="flex flex-row items-start justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium text-neutral-500">{label}</CardTitle>
+              <div className="rounded-2xl border border-black/5 bg-white/70 p-2 shadow-sm">
+                <Icon className={`size-5 ${color}`} />
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="text-3xl font-bold tracking-tight text-neutral-900">{isLoading ? "—" : value}</div>
+              <div className="mt-2 text-xs text-neutral-500">{note}</div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-col gap-3 space-y-0 sm:flex-row sm:items-center sm:justify-between">
+          <div>
+            <CardTitle className="text-base">By School</CardTitle>
+            <p className="text-xs text-muted-foreground">
+              {periodLabel} • delivery categories:{" "}
+              {DELIVERY_KEYS_BY_DISTRIBUTION[category].join(", ")}
+              {loaded.batchFile ? ` • allocation from ${loaded.batchFile}` : ""}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search school or municipality"
+              className="h-8 w-[220px] text-sm"
+            />
+            <Select value={status} onValueChange={(v) => setSearchParams({ status: v === "all" ? null : v })}>
+              <SelectTrigger className="h-8 w-[170px] text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                {STATUS_ORDER.map((s) => (
+                  <SelectItem key={s} value={s}>
+                    {ALLOCATION_STATUS_META[s].label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent className="pt-0">
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Municipality</TableHead>
+                  <TableHead>School</TableHead>
+                  <TableHead className="text-right">Allocated</TableHead>
+                  {Array.from({ length: weekCount }, (_, i) => (
+                    <TableHead key={i} className="text-center" title="Allocated / delivery records in that week">
+                      Wk {i + 1}
+                    </TableHead>
+                  ))}
+                  <TableHead className="text-right">Delivered</TableHead>
+                  <TableHead className="text-right">Delayed</TableHead>
+                  <TableHead className="text-right">Cancelled</TableHead>
+                  <TableHead className="text-right">Pending</TableHead>
+                  <TableHead>Concerns</TableHead>
+                  <TableHead>Last delivered</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={columnCount} className="py-10 text-center text-muted-foreground">
+                      <Loader2 className="mr-2 inline size-4 animate-spin" />
+                      Loading...
+                    </TableCell>
+                  </TableRow>
+                ) : visible.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={columnCount} className="py-10 text-center text-muted-foreground">
+                      {entries.length ? "No schools match the selected filters." : "No allocations or deliveries for this period."}
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  visible.map((e) => (
+                    <TableRow key={e.key} className={e.status === "unconfirmed" ? "bg-red-50/60" : undefined}>
+                      <TableCell>{e.municipality}</TableCell>
+                      <TableCell className="max-w-[240px] truncate" title={e.school}>
+                        {e.school}
+                      </TableCell>
+                      <TableCell className="text-right tabular-nums">{e.allocated.toLocaleString()}</TableCell>
+                      {(e.weeks || []).map((w) => (
+                        <TableCell
+                          key={w.week}
+                          className={`whitespace-nowrap text-center tabular-nums ${w.allocated > 0 && w.delivered === 0 ? "text-red-600" : ""}`}
+                        >
+                          {w.allocated || w.delivered ? `${w.allocated} / ${w.delivered}` : "—"}
+                        </TableCell>
+                      ))}
+                      <TableCell className="text-right tabular-nums">{e.delivered}</TableCell>
+                      <TableCell className="text-right tabular-nums">{e.delayed || ""}</TableCell>
+                      <TableCell className="text-right tabular-nums">{e.cancelled || ""}</TableCell>
+                      <TableCell className="text-right tabular-nums">{e.pending || ""}</TableCell>
+                      <TableCell className="max-w-[200px] truncate text-xs text-amber-700" title={e.concerns.join(", ")}>
+                        {e.concerns.join(", ")}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {e.lastDeliveredKey ? format(new Date(`${e.lastDeliveredKey}T00:00:00`), "MMM d, yyyy") : "—"}
+                      </TableCell>
+                      <TableCell>
+                        <span
+                          className={`inline-flex items-center whitespace-nowrap rounded-full border px-2.5 py-0.5 text-[11px] font-semibold ${ALLOCATION_STATUS_META[e.status].className}`}
+                        >
+                          {ALLOCATION_STATUS_META[e.status].label}
+                        </span>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {e.records.length ? (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="size-7"
+                            title="Open delivery records"
+                            onClick={() =>
+                              navigate(
+                                links.adminDelivery({
+                                  from: fromKey,
+                                  to: toKey,
+                                  municipality: e.municipality,
+                                  school: e.school,
+                                  category:
+                                    DELIVERY_KEYS_BY_DISTRIBUTION[category].length === 1
+                                      ? DELIVERY_KEYS_BY_DISTRIBUTION[category][0]
+                                      : null,
+                                })
+                              )
+                            }
+                          >
+                            <ExternalLink className="size-3.5" />
+                          </Button>
+                        ) : null}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
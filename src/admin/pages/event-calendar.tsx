@@ -1,4 +1,4 @@
-import { useCallback, useEffect, useMemo, useState } from "react"
+import { useCallback, useEffect, useMemo, useRef, useState } from "react"
 import { addDays, endOfMonth, endOfWeek, format, isSameDay, isSameMonth, startOfMonth, startOfWeek, subMonths, addMonths } from "date-fns"
 import { CalendarDays, ChevronLeft, ChevronRight, Paperclip } from "lucide-react"
 import { toast } from "sonner"
@@ -26,73 +26,11 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog"
+import { eventsApi, getApiBaseUrl, getErrorMessage, resolveApiUrl, type CalendarEventDto } from "@/lib/api"
+import { usePermissions } from "@/lib/permissions"
+import { parseDateParam, setSearchParams, useSearchParam } from "@/lib/router"
 
-type AuthState = {
-  token: string
-  user: {
-    id: string
-    username: string
-    email: string
-    name: string
-    role: string
-  }
-}
-
-type EventAttachment = {
-  url: string
-  originalName: string
-  filename: string
-  mimeType: string
-  size: number
-}
-
-type CalendarEvent = {
-  _id?: string
-  id?: string
-  title: string
-  description?: string
-  dateKey: string
-  startTime: string
-  endTime: string
-  status?: "Scheduled" | "Cancelled"
-  cancelReason?: string
-  cancelledAt?: string
-  attachment?: EventAttachment
-}
-
-function getApiBaseUrl() {
-  const envAny = (import.meta as any)?.env as any
-  const fromEnv = (envAny?.VITE_API_BASE_URL || envAny?.VITE_API_URL) as string | undefined
-  return (fromEnv || "http://localhost:8000").replace(/\/+$/, "")
-}
-
-function getAuth(): AuthState | null {
-  try {
-    const raw = localStorage.getItem("bhss_auth")
-    if (!raw) return null
-    return JSON.parse(raw) as AuthState
-  } catch {
-    return null
-  }
-}
-
-async function apiFetch(path: string, init?: RequestInit) {
-  const auth = getAuth()
-  const token = auth?.token
-  if (!token) throw new Error("Not authenticated")
-
-  const res = await fetch(`${getApiBaseUrl()}${path}`, {
-    ...init,
-    headers: {
-      Authorization: `Bearer ${token}`,
-      ...(init?.headers || {}),
-    },
-  })
-
-  const data = await res.json().catch(() => ({}))
-  if (!res.ok) throw new Error((data as any)?.message || "Request failed")
-  return data
-}
+type CalendarEvent = CalendarEventDto
 
 function timeOptions() {
   const out: { value: string; label: string }[] = []
@@ -111,6 +49,9 @@ function asKey(d: Date) {
 }
 
 export function AdminEventCalendar() {
+  const permissions = usePermissions()
+  const canCreate = permissions.can("events", "create")
+  const canEdit = permissions.can("events", "edit")
   const [month, setMonth] = useState(() => startOfMonth(new Date()))
   const [events, setEvents] = useState<CalendarEvent[]>([])
   const [isLoading, setIsLoading] = useState(false)
@@ -123,6 +64,9 @@ export function AdminEventCalendar() {
 
   const [detailsOpen, setDetailsOpen] = useState(false)
   const [selectedEvent, setSelectedEvent] = useState<CalendarEvent | null>(null)
+  const [eventIdParam] = useSearchParam("id")
+  const [dateParam] = useSearchParam("date")
+  const handledEventIdRef = useRef<string | null>(null)
   const [isEditing, setIsEditing] = useState(false)
   const [editTitle, setEditTitle] = useState("")
   const [editDescription, setEditDescription] = useState("")
@@ -184,10 +128,8 @@ export function AdminEventCalendar() {
     setIsLoading(true)
     setError(null)
     try {
-      const data = (await apiFetch(
-        `/api/admin/events?from=${encodeURIComponent(range.from)}&to=${encodeURIComponent(range.to)}`
-      )) as any
-      const list = Array.isArray(data?.events) ? (data.events as CalendarEvent[]) : []
+      const data = await eventsApi.adminList({ from: range.from, to: range.to })
+      const list = Array.isArray(data.events) ? data.events : []
       setEvents(list)
     } catch (e: any) {
       setError(e?.message || "Failed to load events")
@@ -222,6 +164,41 @@ export function AdminEventCalendar() {
     }
   }, [load])
 
+  useEffect(() => {
+    const d = parseDateParam(dateParam)
+    if (d) setMonth(startOfMonth(d))
+  }, [dateParam])
+
+  // Deep links (?id=…) open the event once its month has loaded; dropping
+  // the id (back button) closes it again.
+  useEffect(() => {
+    const id = String(eventIdParam || "").trim()
+    if (!id) {
+      handledEventIdRef.current = null
+      setDetailsOpen(false)
+      return
+    }
+    if (isLoading || handledEventIdRef.current === id) return
+    handledEventIdRef.current = id
+
+    const found = events.find((e) => String(e._id || e.id || "").trim() === id)
+    if (found) {
+      setSelectedEvent(found)
+      setDetailsOpen(true)
+      return
+    }
+    eventsApi
+      .get(id)
+      .then((data) => {
+        if (!data.event) return
+        setSelectedEvent(data.event)
+        setDetailsOpen(true)
+      })
+      .catch((e) => {
+        toast.error(getErrorMessage(e, "Failed to load event"))
+      })
+  }, [eventIdParam, events, isLoading])
+
   useEffect(() => {
     if (!selectedEvent) return
     setIsEditing(false)
@@ -233,6 +210,7 @@ export function AdminEventCalendar() {
   }, [selectedEvent?._id, selectedEvent?.id])
 
   function openCreate(d: Date) {
+    if (!canCreate) return
     setOpenDayKey(null)
     setSelectedDate(d)
     setTitle("")
@@ -253,6 +231,19 @@ export function AdminEventCalendar() {
     setOpenDayKey(null)
     setSelectedEvent(e)
     setDetailsOpen(true)
+
+    const eventId = String(e._id || e.id || "").trim()
+    if (eventId) {
+      handledEventIdRef.current = eventId
+      setSearchParams({ id: eventId, date: e.dateKey || null })
+    }
+  }
+
+  function closeDetails() {
+    setDetailsOpen(false)
+    setSelectedEvent(null)
+    setIsEditing(false)
+    setSearchParams({ id: null, date: null })
   }
 
   async function createEvent() {
@@ -262,18 +253,7 @@ export function AdminEventCalendar() {
     setIsSaving(true)
     setError(null)
     try {
-      const fd = new FormData()
-      fd.append("title", title)
-      fd.append("description", description)
-      fd.append("dateKey", dateKey)
-      fd.append("startTime", startTime)
-      fd.append("endTime", endTime)
-      if (file) fd.append("attachment", file)
-
-      await apiFetch("/api/admin/events", {
-        method: "POST",
-        body: fd,
-      })
+      await eventsApi.create({ title, description, dateKey, startTime, endTime, attachment: file })
 
       toast.success("Event created")
       setOpen(false)
@@ -294,21 +274,17 @@ export function AdminEventCalendar() {
     setIsUpdating(true)
     setError(null)
     try {
-      const fd = new FormData()
-      fd.append("title", editTitle)
-      fd.append("description", editDescription)
-      fd.append("dateKey", String(selectedEvent.dateKey || ""))
-      fd.append("startTime", editStartTime)
-      fd.append("endTime", editEndTime)
-      if (editFile) fd.append("attachment", editFile)
-
-      await apiFetch(`/api/admin/events/${encodeURIComponent(eventId)}`, {
-        method: "PUT",
-        body: fd,
+      await eventsApi.update(eventId, {
+        title: editTitle,
+        description: editDescription,
+        dateKey: String(selectedEvent.dateKey || ""),
+        startTime: editStartTime,
+        endTime: editEndTime,
+        attachment: editFile,
       })
 
       toast.success("Event updated")
-      setDetailsOpen(false)
+      closeDetails()
       await load()
     } catch (e: any) {
       setError(e?.message || "Failed to update event")
@@ -329,17 +305,11 @@ export function AdminEventCalendar() {
     setIsCancelling(true)
     setError(null)
     try {
-      await apiFetch(`/api/admin/events/${encodeURIComponent(eventId)}/cancel`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({ reason }),
-      })
+      await eventsApi.cancel(eventId, reason)
 
       toast.success("Event cancelled")
       setCancelOpen(false)
-      setDetailsOpen(false)
+      closeDetails()
       setCancelReason("")
       await load()
     } catch (e: any) {
@@ -509,6 +479,7 @@ export function AdminEventCalendar() {
                           <div className="mt-3 grid gap-2">
                             <Button
                               className="rounded-2xl bg-emerald-600 hover:bg-emerald-700"
+                              disabled={!canCreate}
                               onClick={() => openCreate(d)}
                             >
                               Create new event
@@ -710,6 +681,7 @@ export function AdminEventCalendar() {
             </Button>
             <Button
               className="rounded-2xl bg-emerald-600 hover:bg-emerald-700"
+              disabled={!canCreate}
               onClick={() => {
                 if (!viewDateKey) return
                 const d = new Date(`${viewDateKey}T00:00:00`)
@@ -726,11 +698,8 @@ export function AdminEventCalendar() {
       <Dialog
         open={detailsOpen}
         onOpenChange={(v) => {
-          setDetailsOpen(v)
-          if (!v) {
-            setSelectedEvent(null)
-            setIsEditing(false)
-          }
+          if (v) setDetailsOpen(true)
+          else closeDetails()
         }}
       >
         <DialogContent className="max-w-xl rounded-3xl max-h-[85vh] overflow-y-auto">
@@ -826,7 +795,7 @@ export function AdminEventCalendar() {
                 <div className="text-sm">
                   {selectedEvent?.attachment?.url ? (
                     <a
-                      href={`${getApiBaseUrl()}${selectedEvent.attachment.url}`}
+                      href={resolveApiUrl(selectedEvent.attachment.url)}
                       target="_blank"
                       rel="noreferrer"
                       className="inline-flex items-center gap-2 rounded-2xl border border-black/5 bg-white/60 px-3 py-2 text-sm hover:bg-white/80"
@@ -855,11 +824,11 @@ export function AdminEventCalendar() {
             ) : null}
 
             <div className="flex flex-wrap items-center justify-end gap-2">
-              <Button variant="outline" className="rounded-2xl" onClick={() => setDetailsOpen(false)}>
+              <Button variant="outline" className="rounded-2xl" onClick={closeDetails}>
                 Close
               </Button>
 
-              {selectedEvent && String(selectedEvent.status || "Scheduled") !== "Cancelled" ? (
+              {canEdit && selectedEvent && String(selectedEvent.status || "Scheduled") !== "Cancelled" ? (
                 <>
                   {isEditing ? (
                     <>
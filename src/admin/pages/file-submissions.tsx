@@ -43,26 +43,15 @@ import {
   PaginationNext,
   PaginationPrevious,
 } from "@/components/ui/pagination"
-
-type AdminFileSubmissionRow = {
-  id: string
-  folder: string
-  name: string
-  size: number
-  type: string
-  description: string
-  uploadedAt: string
-  status: string
-  url: string
-  coordinator: {
-    id: string
-    name: string
-    username: string
-    municipality: string
-    school: string
-    hlaRoleType: string
-  }
-}
+import {
+  fileSubmissionsApi,
+  getAuthToken,
+  resolveApiUrl,
+  type AdminFileSubmissionRow,
+} from "@/lib/api"
+import { useMunicipalityParam, usePermissions } from "@/lib/permissions"
+import { formatDateParam, parseDateParam, setSearchParams, useSearchParam } from "@/lib/router"
+import { FileSubmissionComments } from "@/admin/components/file-submission-comments"
 
 const FRUITS_VEG_FOLDER = "Fruits & Vegetables"
 
@@ -158,39 +147,6 @@ function folderFillClass(value: string) {
   return FOLDER_FILL_CLASSES[h % FOLDER_FILL_CLASSES.length]
 }
 
-function getApiBaseUrl() {
-  const envAny = (import.meta as any)?.env as any
-  const fromEnv = (envAny?.VITE_API_BASE_URL || envAny?.VITE_API_URL) as string | undefined
-  return (fromEnv || "http://localhost:8000").replace(/\/+$/, "")
-}
-
-function getAuthToken(): string | null {
-  try {
-    const raw = localStorage.getItem("bhss_auth")
-    if (!raw) return null
-    const parsed = JSON.parse(raw) as { token?: string }
-    return parsed?.token || null
-  } catch {
-    return null
-  }
-}
-
-async function apiFetch(path: string) {
-  const token = getAuthToken()
-  if (!token) throw new Error("Not authenticated")
-
-  const res = await fetch(`${getApiBaseUrl()}${path}`, {
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${token}`,
-    },
-  })
-
-  const data = await res.json().catch(() => ({}))
-  if (!res.ok) throw new Error((data as any)?.message || "Request failed")
-  return data
-}
-
 function formatFileSize(bytes: number): string {
   if (!bytes || bytes <= 0) return "0 B"
   const k = 1024
@@ -234,21 +190,33 @@ function isImageFile(mime: string, name: string) {
 }
 
 export function AdminFileSubmissions() {
-  const [selectedDate, setSelectedDate] = useState<Date | undefined>(() => new Date())
+  // The drill-down (date → municipality → school → folder) and the open file
+  // live in the URL, so back/forward steps through it and links can be shared.
+  const [today] = useState(() => new Date())
+  const permissions = usePermissions()
+  const [dateParam, setDateParam] = useSearchParam("date")
+  const selectedDate = useMemo(
+    () => (dateParam === "all" ? undefined : parseDateParam(dateParam) ?? today),
+    [dateParam, today]
+  )
+  const setSelectedDate = (d?: Date) => setDateParam(d ? formatDateParam(d) : "all")
   const [search, setSearch] = useState("")
   const deferredSearch = useDeferredValue(search)
   const [isFiltering, startFiltering] = useTransition()
 
-  const [selectedMunicipality, setSelectedMunicipality] = useState<string | null>(null)
-  const [selectedSchool, setSelectedSchool] = useState<string | null>(null)
-
-  const [selectedFolder, setSelectedFolder] = useState<string>("all")
+  const { municipality: selectedMunicipality, locked: isMunicipalityLocked } = useMunicipalityParam()
+  const [selectedSchool] = useSearchParam("school")
+  const [folderParam, setFolderParam] = useSearchParam("folder")
+  const selectedFolder = folderParam || "all"
+  const setSelectedFolder = (f: string) => setFolderParam(f === "all" ? null : f)
   const [viewMode, setViewMode] = useState<"grid" | "list">("grid")
 
   const [rows, setRows] = useState<AdminFileSubmissionRow[]>([])
   const [isLoading, setIsLoading] = useState(false)
 
-  const [viewRow, setViewRow] = useState<AdminFileSubmissionRow | null>(null)
+  const [recordIdParam, setRecordIdParam] = useSearchParam("id")
+  const [viewRow, setViewRowState] = useState<AdminFileSubmissionRow | null>(null)
+  const setViewRow = (row: AdminFileSubmissionRow | null) => setRecordIdParam(row?.id ?? null)
   const [viewBlobUrl, setViewBlobUrl] = useState<string | null>(null)
   const [previewContent, setPreviewContent] = useState<{
     type: "image" | "pdf" | "docx" | "xlsx" | "other"
@@ -270,19 +238,16 @@ export function AdminFileSubmissions() {
   const loadRows = async () => {
     setIsLoading(true)
     try {
-      const qs = new URLSearchParams()
-      if (selectedDate) {
-        const d = format(selectedDate, "yyyy-MM-dd")
-        qs.set("from", d)
-        qs.set("to", d)
-      }
-      if (search.trim()) qs.set("search", search.trim())
-
-      const data = (await apiFetch(`/api/admin/file-submissions/history?${qs.toString()}`)) as {
-        records?: AdminFileSubmissionRow[]
-      }
+      const d = selectedDate ? format(selectedDate, "yyyy-MM-dd") : undefined
+      const data = await fileSubmissionsApi.adminHistory({
+        from: d,
+        to: d,
+        search: search.trim(),
+        municipality: permissions.municipality ?? undefined,
+      })
 
-      setRows(Array.isArray(data.records) ? data.records : [])
+      const records = Array.isArray(data.records) ? data.records : []
+      setRows(records.filter((r) => permissions.inScope(r.coordinator?.municipality, r.coordinator?.school)))
     } catch (e: any) {
       toast.error(e?.message || "Failed to load file submissions")
       setRows([])
@@ -307,6 +272,14 @@ export function AdminFileSubmissions() {
     return () => window.removeEventListener("file-submission:uploaded", handler)
   }, [selectedDate, search])
 
+  useEffect(() => {
+    setViewRowState((prev) => {
+      if (!recordIdParam) return null
+      if (prev?.id === recordIdParam) return prev
+      return rows.find((r) => r.id === recordIdParam) || null
+    })
+  }, [recordIdParam, rows])
+
   const rowsForSelectedSchool = useMemo(() => {
     return rows.filter((r) => {
       if (!selectedMunicipality) return false
@@ -410,14 +383,8 @@ export function AdminFileSubmissions() {
 
     void (async () => {
       try {
-        const token = getAuthToken()
-        if (!token) return
-        const res = await fetch(`${getApiBaseUrl()}/api/admin/file-submissions/download/${encodeURIComponent(viewRow.id)}?view=true`, {
-          headers: { Authorization: `Bearer ${token}` },
-        })
-        if (!res.ok) throw new Error("Failed to fetch file")
-
-        const blob = await res.blob()
+        if (!getAuthToken()) return
+        const blob = await fileSubmissionsApi.adminDownload(viewRow.id, { view: true })
         const arrayBuffer = await blob.arrayBuffer()
         const blobUrl = window.URL.createObjectURL(blob)
         setViewBlobUrl(blobUrl)
@@ -445,6 +412,11 @@ export function AdminFileSubmissions() {
   }, [viewRow])
 
 
+  const replaceRow = (next: AdminFileSubmissionRow) => {
+    setRows((prev) => prev.map((r) => (r.id === next.id ? next : r)))
+    setViewRowState((prev) => (prev?.id === next.id ? next : prev))
+  }
+
   const handleDownload = async (row: AdminFileSubmissionRow, isView = false) => {
     try {
       const token = getAuthToken()
@@ -457,11 +429,7 @@ export function AdminFileSubmissions() {
       }
 
       // Download flow
-      const res = await fetch(`${getApiBaseUrl()}/api/admin/file-submissions/download/${encodeURIComponent(row.id)}`, {
-        headers: { Authorization: `Bearer ${token}` },
-      })
-      if (!res.ok) throw new Error("Download failed")
-      const blob = await res.blob()
+      const blob = await fileSubmissionsApi.adminDownload(row.id)
       const url = window.URL.createObjectURL(blob)
       const a = document.createElement("a")
       a.href = url
@@ -479,7 +447,7 @@ export function AdminFileSubmissions() {
     try {
       const token = getAuthToken()
       if (!token) throw new Error("Not authenticated")
-      const backendUrl = `${getApiBaseUrl()}/api/admin/file-submissions/download/${encodeURIComponent(row.id)}?view=true&token=${encodeURIComponent(token)}`
+      const backendUrl = fileSubmissionsApi.adminViewUrl(row.id, token)
       window.open(backendUrl, "_blank")
     } catch (e: any) {
       toast.error(e?.message || "Failed to open file")
@@ -561,9 +529,7 @@ export function AdminFileSubmissions() {
           type="button"
           className="text-emerald-600 font-medium hover:text-emerald-700 transition-colors"
           onClick={() => {
-            setSelectedMunicipality(null)
-            setSelectedSchool(null)
-            setSelectedFolder("all")
+            setSearchParams({ municipality: null, school: null, folder: null }, { replace: false })
           }}
         >
           File Submissions
@@ -575,8 +541,7 @@ export function AdminFileSubmissions() {
               type="button"
               className="text-emerald-600 font-medium hover:text-emerald-700 transition-colors"
               onClick={() => {
-                setSelectedSchool(null)
-                setSelectedFolder("all")
+                setSearchParams({ school: null, folder: null }, { replace: false })
               }}
             >
               {selectedMunicipality}
@@ -664,9 +629,7 @@ export function AdminFileSubmissions() {
                       type="button"
                       className="text-left group"
                       onClick={() => {
-                        setSelectedMunicipality(m.name)
-                        setSelectedSchool(null)
-                        setSelectedFolder("all")
+                        setSearchParams({ municipality: m.name, school: null, folder: null }, { replace: false })
                       }}
                     >
                       <div className={`relative overflow-hidden rounded-2xl border border-gray-100 bg-white p-5 shadow-sm transition-all duration-200 group-hover:shadow-md group-hover:border-gray-200`}>
@@ -704,11 +667,9 @@ export function AdminFileSubmissions() {
                 <div className="flex items-center gap-3">
                   <Button
                     variant="outline"
-                    className="rounded-xl h-8 px-3 text-xs border-gray-200 text-gray-500 hover:border-gray-300 gap-1.5"
+                    className={`rounded-xl h-8 px-3 text-xs border-gray-200 text-gray-500 hover:border-gray-300 gap-1.5 ${isMunicipalityLocked ? "hidden" : ""}`}
                     onClick={() => {
-                      setSelectedMunicipality(null)
-                      setSelectedSchool(null)
-                      setSelectedFolder("all")
+                      setSearchParams({ municipality: null, school: null, folder: null }, { replace: false })
                     }}
                   >
                     <ArrowLeft className="size-3.5" />
@@ -760,8 +721,7 @@ export function AdminFileSubmissions() {
                       type="button"
                       className="text-left group"
                       onClick={() => {
-                        setSelectedSchool(s.name)
-                        setSelectedFolder("all")
+                        setSearchParams({ school: s.name, folder: null }, { replace: false })
                       }}
                     >
                       <div className="relative overflow-hidden rounded-2xl border border-gray-100 bg-white p-5 shadow-sm transition-all duration-200 group-hover:shadow-md group-hover:border-gray-200">
@@ -800,8 +760,7 @@ export function AdminFileSubmissions() {
                         variant="outline"
                         className="rounded-xl h-8 px-3 text-xs border-gray-200 text-gray-500 hover:border-gray-300 gap-1.5"
                         onClick={() => {
-                          setSelectedSchool(null)
-                          setSelectedFolder("all")
+                          setSearchParams({ school: null, folder: null }, { replace: false })
                           setSearch("")
                         }}
                       >
@@ -937,11 +896,7 @@ export function AdminFileSubmissions() {
                       {pagedFiles.map((r) => {
                         const typeText = fileTypeLabel(r.type, r.name)
                         const showThumb = isImageFile(r.type, r.name)
-                        const thumbSrc = r.url
-                          ? r.url.startsWith("http")
-                            ? r.url
-                            : `${getApiBaseUrl()}${r.url}`
-                          : ""
+                        const thumbSrc = resolveApiUrl(r.url)
                         return (
                           <div key={r.id} className="rounded-2xl border border-gray-100 bg-white overflow-hidden shadow-sm hover:shadow-md hover:border-gray-200 transition-all duration-200 group">
                             <div className="relative aspect-[16/9] bg-gray-50 overflow-hidden">
@@ -1344,6 +1299,8 @@ ${previewContent.html}
                   </div>
                 )}
 
+                <FileSubmissionComments row={viewRow} onSaved={replaceRow} />
+
                 <div className="flex justify-end gap-2 pt-1">
                   <Button variant="outline" className="rounded-xl h-9 px-4 text-sm border-gray-200 text-gray-600 hover:border-gray-300" onClick={() => setViewRow(null)}>
                     Close
@@ -0,0 +1,334 @@
+import { useEffect, useMemo, useState } from "react"
+import { AlertTriangle, Boxes, Loader2, School, XCircle } from "lucide-react"
+import { toast } from "sonner"
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import {
+  getErrorMessage,
+  inventoryApi,
+  isAbortError,
+  type AdminInventoryBalanceDto,
+  type InventoryItemKey,
+} from "@/lib/api"
+import { schoolKey } from "@/lib/attendance-compliance"
+import { daysOfStock, INVENTORY_ITEMS, STOCK_LEVEL_META, stockLevel, type StockLevel } from "@/lib/inventory"
+import { useMunicipalityParam, usePermissions } from "@/lib/permissions"
+import { setSearchParams } from "@/lib/router"
+
+const cardClass =
+  "relative overflow-hidden rounded-2xl border border-black/5 bg-white/60 [@supports(backdrop-filter:blur(0))]:backdrop-blur-xl shadow-[inset_0_1px_0_rgba(255,255,255,0.7),0_6px_18px_rgba(0,0,0,0.06)]"
+
+type ItemStock = { balance: number; level: StockLevel; days: number | null }
+
+type SchoolStock = {
+  key: string
+  municipality: string
+  school: string
+  items: Partial<Record<InventoryItemKey, ItemStock>>
+  lastMovementDateKey: string
+}
+
+type MunicipalityStock = {
+  municipality: string
+  schools: number
+  totals: Record<InventoryItemKey, number>
+  out: number
+  low: number
+}
+
+function groupBySchool(balances: AdminInventoryBalanceDto[]) {
+  const bySchool = new Map<string, SchoolStock>()
+  for (const b of balances) {
+    const key = schoolKey(b.municipality, b.school)
+    let s = bySchool.get(key)
+    if (!s) {
+      s = { key, municipality: b.municipality.trim(), school: b.school.trim(), items: {}, lastMovementDateKey: "" }
+      bySchool.set(key, s)
+    }
+    const item = INVENTORY_ITEMS.find((i) => i.key === b.itemKey)
+    if (!item) continue
+    s.items[b.itemKey] = {
+      balance: b.balance,
+      level: stockLevel(item, b.balance, b.avgDailyConsumption),
+      days: daysOfStock(b.balance, b.avgDailyConsumption),
+    }
+    if ((b.lastMovementDateKey || "") > s.lastMovementDateKey) s.lastMovementDateKey = b.lastMovementDateKey || ""
+  }
+  return Array.from(bySchool.values())
+}
+
+function groupByMunicipality(schools: SchoolStock[]) {
+  const byMuni = new Map<string, MunicipalityStock>()
+  for (const s of schools) {
+    let m = byMuni.get(s.municipality)
+    if (!m) {
+      m = {
+        municipality: s.municipality,
+        schools: 0,
+        totals: Object.fromEntries(INVENTORY_ITEMS.map((i) => [i.key, 0])) as Record<InventoryItemKey, number>,
+        out: 0,
+        low: 0,
+      }
+      byMuni.set(s.municipality, m)
+    }
+    m.schools += 1
+    for (const item of INVENTORY_ITEMS) {
+      const stock = s.items[item.key]
+      if (!stock) continue
+      m.totals[item.key] += stock.balance
+      if (stock.level === "out") m.out += 1
+      if (stock.level === "low") m.low += 1
+    }
+  }
+  return Array.from(byMuni.values()).sort((a, b) => a.municipality.localeCompare(b.municipality))
+}
+
+export function AdminInventory() {
+  const permissions = usePermissions()
+  const { municipality: municipalityParam, locked: isMunicipalityLocked } = useMunicipalityParam()
+  const selectedMunicipality = municipalityParam || "all"
+  const [search, setSearch] = useState("")
+  const [alertsOnly, setAlertsOnly] = useState(false)
+  const [loaded, setLoaded] = useState<{ done: boolean; balances: AdminInventoryBalanceDto[] }>({
+    done: false,
+    balances: [],
+  })
+
+  useEffect(() => {
+    const controller = new AbortController()
+    inventoryApi
+      .adminBalances({ municipality: permissions.municipality ?? undefined }, controller.signal)
+      .then((res) =>
+        setLoaded({
+          done: true,
+          balances: (res.balances || []).filter((b) => permissions.inScope(b.municipality, b.school)),
+        })
+      )
+      .catch((e) => {
+        if (isAbortError(e)) return
+        toast.error(getErrorMessage(e, "Failed to load inventory"))
+        setLoaded({ done: true, balances: [] })
+      })
+    return () => controller.abort()
+  }, [permissions])
+
+  const schools = useMemo(() => groupBySchool(loaded.balances), [loaded.balances])
+  const municipalities = useMemo(() => groupByMunicipality(schools), [schools])
+
+  const visibleSchools = useMemo(() => {
+    const q = search.trim().toLowerCase()
+    return schools
+      .filter((s) => selectedMunicipality === "all" || s.municipality === selectedMunicipality)
+      .filter((s) => !q || `${s.school} ${s.municipality}`.toLowerCase().includes(q))
+      .filter((s) => !alertsOnly || Object.values(s.items).some((i) => i && i.level !== "ok"))
+      .sort((a, b) => a.municipality.localeCompare(b.municipality) || a.school.localeCompare(b.school))
+  }, [alertsOnly, schools, search, selectedMunicipality])
+
+  const totals = useMemo(() => {
+    let out = 0
+    let low = 0
+    for (const m of municipalities) {
+      out += m.out
+      low += m.low
+    }
+    return { schools: schools.length, out, low }
+  }, [municipalities, schools.length])
+
+  const summaryCards = [
+    { label: "Schools tracked", value: totals.schools, note: "With at least one stock entry", Icon: School, color: "text-neutral-700" },
+    { label: "Out of stock", value: totals.out, note: "School items at zero", Icon: XCircle, color: "text-red-600" },
+    { label: "Running low", value: totals.low, note: "Below threshold or < 3 days left", Icon: AlertTriangle, color: "text-amber-600" },
+  ]
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Boxes className="size-5" />
+            Kitchen Inventory
+          </CardTitle>
+          <CardDescription>Stock on hand reported by each school kitchen, rolled up by municipality.</CardDescription>
+        </CardHeader>
+      </Card>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        {summaryCards.map(({ label, value, note, Icon, color }) => (
+          <Card key={label} className={cardClass}>
+            <CardHeader className="flex flex-row items-start justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium text-neutral-500">{label}</CardTitle>
+              <div className="rounded-2xl border border-black/5 bg-white/70 p-2 shadow-sm">
+                <Icon className={`size-5 ${color}`} />
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="text-3xl font-bold tracking-tight text-neutral-900">{loaded.done ? value : "—"}</div>
+              <div className="mt-2 text-xs text-neutral-500">{note}</div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">By Municipality</CardTitle>
+          <p className="text-xs text-muted-foreground">Select a municipality to list its schools</p>
+        </CardHeader>
+        <CardContent className="pt-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Municipality</TableHead>
+                <TableHead className="text-right">Schools</TableHead>
+                {INVENTORY_ITEMS.map((i) => (
+                  <TableHead key={i.key} className="text-right">
+                    {i.label} ({i.unit})
+                  </TableHead>
+                ))}
+                <TableHead className="text-right">Out</TableHead>
+                <TableHead className="text-right">Low</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {!loaded.done ? (
+                <TableRow>
+                  <TableCell colSpan={INVENTORY_ITEMS.length + 4} className="py-10 text-center text-muted-foreground">
+                    <Loader2 className="mr-2 inline size-4 animate-spin" />
+                    Loading...
+                  </TableCell>
+                </TableRow>
+              ) : municipalities.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={INVENTORY_ITEMS.length + 4} className="py-10 text-center text-muted-foreground">
+                    No school has recorded stock yet.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                municipalities.map((m) => (
+                  <TableRow
+                    key={m.municipality}
+                    className={`cursor-pointer hover:bg-muted/50 ${selectedMunicipality === m.municipality ? "bg-emerald-50/60" : ""}`}
+                    onClick={() => {
+                      if (isMunicipalityLocked) return
+                      setSearchParams({ municipality: selectedMunicipality === m.municipality ? null : m.municipality })
+                    }}
+                  >
+                    <TableCell className="font-medium">{m.municipality}</TableCell>
+                    <TableCell className="text-right tabular-nums">{m.schools}</TableCell>
+                    {INVENTORY_ITEMS.map((i) => (
+                      <TableCell key={i.key} className="text-right tabular-nums">
+                        {m.totals[i.key].toLocaleString()}
+                      </TableCell>
+                    ))}
+                    <TableCell className="text-right tabular-nums">
+                      {m.out ? <span className="font-semibold text-red-600">{m.out}</span> : 0}
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">
+                      {m.low ? <span className="font-semibold text-amber-700">{m.low}</span> : 0}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-col gap-3 space-y-0 sm:flex-row sm:items-center sm:justify-between">
+          <div>
+            <CardTitle className="text-base">By School</CardTitle>
+            <p className="text-xs text-muted-foreground">
+              {selectedMunicipality === "all" ? "All municipalities" : selectedMunicipality}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search school"
+              className="h-8 w-[200px] text-sm"
+            />
+            <Select value={alertsOnly ? "alerts" : "all"} onValueChange={(v) => setAlertsOnly(v === "alerts")}>
+              <SelectTrigger className="h-8 w-[160px] text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All schools</SelectItem>
+                <SelectItem value="alerts">Low or out only</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent className="pt-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Municipality</TableHead>
+                <TableHead>School</TableHead>
+                {INVENTORY_ITEMS.map((i) => (
+                  <TableHead key={i.key} className="text-right">
+                    {i.label}
+                  </TableHead>
+                ))}
+                <TableHead>Last entry</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visibleSchools.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={INVENTORY_ITEMS.length + 3} className="py-10 text-center text-muted-foreground">
+                    {loaded.done ? "No schools match the selected filters." : "Loading..."}
+                  </TableCell>
+                </TableRow>
+              ) : (
+                visibleSchools.map((s) => (
+                  <TableRow key={s.key}>
+                    <TableCell>{s.municipality}</TableCell>
+                    <TableCell className="max-w-[260px] truncate" title={s.school}>
+                      {s.school}
+                    </TableCell>
+                    {INVENTORY_ITEMS.map((i) => {
+                      const stock = s.items[i.key]
+                      return (
+                        <TableCell key={i.key} className="text-right">
+                          {stock ? (
+                            <span
+                              className={`inline-flex items-center whitespace-nowrap rounded-full border px-2 py-0.5 text-xs font-semibold tabular-nums ${STOCK_LEVEL_META[stock.level].className}`}
+                              title={`${STOCK_LEVEL_META[stock.level].label}${stock.days !== null ? ` · ~${stock.days} day(s) left` : ""}`}
+                            >
+                              {stock.balance} {i.unit}
+                            </span>
+                          ) : (
+                            <span className="text-muted-foreground">—</span>
+                          )}
+                        </TableCell>
+                      )
+                    })}
+                    <TableCell className="whitespace-nowrap text-muted-foreground">{s.lastMovementDateKey || "—"}</TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,488 @@
+import { useEffect, useMemo, useState } from "react"
+import { format } from "date-fns"
+import { Eye, FileDown, Loader2, Pencil } from "lucide-react"
+import { toast } from "sonner"
+
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  ApprovalTrail,
+  ProcurementLinesEditor,
+  ProcurementStatusBadge,
+  TransitionDialog,
+  type PendingTransition,
+} from "@/admin/components/procurement-shared"
+import { useSchoolsByMunicipality } from "@/admin/components/use-schools-by-municipality"
+import {
+  deliveryApi,
+  getErrorMessage,
+  isAbortError,
+  type AdminDeliveryRecordDto,
+  type PurchaseOrderAction,
+  type PurchaseOrderDto,
+  type SavePurchaseOrderInput,
+} from "@/lib/api"
+import { usePermissions } from "@/lib/permissions"
+import {
+  availableActions,
+  formatPeso,
+  lineAmount,
+  linesTotal,
+  matchOrderDeliveries,
+  orderDeliveryRange,
+  printProcurementPdf,
+  PURCHASE_ORDER_STATUSES,
+  PURCHASE_ORDER_TRANSITIONS,
+  summarizeMatches,
+  validateLines,
+  type LineMatchState,
+} from "@/lib/procurement"
+import { links } from "@/lib/routes"
+import { navigate } from "@/lib/router"
+import { useProcurementStore } from "@/stores/procurement-store"
+
+const MATCH_STATE_CLASSES: Record<LineMatchState, string> = {
+  Delivered: "bg-emerald-50 text-emerald-700 border-emerald-200",
+  Pending: "bg-amber-50 text-amber-700 border-amber-200",
+  Delayed: "bg-orange-50 text-orange-700 border-orange-200",
+  Cancelled: "bg-rose-50 text-rose-700 border-rose-200",
+  "Not reported": "bg-rose-50 text-rose-700 border-rose-200",
+  Upcoming: "bg-gray-50 text-gray-600 border-gray-200",
+}
+
+/** Delivery logs for the order's date window, reloaded when the order changes. */
+function useOrderDeliveries(order: PurchaseOrderDto | null) {
+  const range = order ? orderDeliveryRange(order) : null
+  const requestKey = order && range?.from ? `${order.id}|${range.from}|${range.to}` : ""
+  const [loaded, setLoaded] = useState<{ key: string; records: AdminDeliveryRecordDto[] }>({ key: "", records: [] })
+
+  useEffect(() => {
+    if (!requestKey || !range) return
+    const controller = new AbortController()
+    deliveryApi
+      .adminHistory({ from: range.from, to: range.to }, controller.signal)
+      .then((data) => setLoaded({ key: requestKey, records: data.records || [] }))
+      .catch((e) => {
+        if (isAbortError(e)) return
+        toast.error(getErrorMessage(e, "Failed to load deliveries"))
+        setLoaded({ key: requestKey, records: [] })
+      })
+    return () => controller.abort()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [requestKey])
+
+  return {
+    isLoading: !!requestKey && loaded.key !== requestKey,
+    records: loaded.key === requestKey ? loaded.records : [],
+  }
+}
+
+export function ProcurementOrdersTab({
+  search,
+  category,
+  focusOrderId,
+  onFocusHandled,
+}: {
+  search: string
+  category: string
+  /** Opens this order's details, e.g. right after it was created from a request. */
+  focusOrderId: string | null
+  onFocusHandled: () => void
+}) {
+  const orders = useProcurementStore((s) => s.orders)
+  const suppliers = useProcurementStore((s) => s.suppliers)
+  const isLoading = useProcurementStore((s) => s.isLoading)
+  const updateOrder = useProcurementStore((s) => s.updateOrder)
+  const transitionOrder = useProcurementStore((s) => s.transitionOrder)
+  const canEdit = usePermissions().can("procurement", "edit")
+  const schoolsByMunicipality = useSchoolsByMunicipality()
+
+  const [statusFilter, setStatusFilter] = useState("all")
+  const [viewingId, setViewingId] = useState<string | null>(null)
+  const [pendingTransition, setPendingTransition] = useState<PendingTransition | null>(null)
+
+  const [editId, setEditId] = useState<string | null>(null)
+  const [form, setForm] = useState<SavePurchaseOrderInput | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const activeViewingId = viewingId || focusOrderId
+  const viewing = orders.find((o) => o.id === activeViewingId) || null
+  const deliveries = useOrderDeliveries(viewing)
+  const matches = useMemo(
+    () => (viewing ? matchOrderDeliveries(viewing, deliveries.records) : []),
+    [deliveries.records, viewing]
+  )
+  const matchSummary = summarizeMatches(matches)
+
+  const supplierById = useMemo(() => new Map(suppliers.map((s) => [s.id, s])), [suppliers])
+
+  const filtered = useMemo(() => {
+    const q = search.trim().toLowerCase()
+    return orders.filter((o) => {
+      if (statusFilter !== "all" && o.status !== statusFilter) return false
+      if (category !== "all" && o.categoryKey !== category) return false
+      if (!q) return true
+      return [o.poNumber, o.prNumber, o.supplierName, o.categoryLabel, ...o.lines.map((l) => l.school)]
+        .join(" ")
+        .toLowerCase()
+        .includes(q)
+    })
+  }, [category, orders, search, statusFilter])
+
+  const closeView = () => {
+    setViewingId(null)
+    if (focusOrderId) onFocusHandled()
+  }
+
+  const openEdit = (o: PurchaseOrderDto) => {
+    setEditId(o.id)
+    setForm({
+      supplierId: o.supplierId,
+      categoryKey: o.categoryKey,
+      categoryLabel: o.categoryLabel,
+      terms: o.terms,
+      lines: o.lines.map((l) => ({ ...l })),
+    })
+  }
+
+  const handleSave = async () => {
+    if (!editId || !form) return
+    if (!form.supplierId) {
+      toast.error("Select a supplier")
+      return
+    }
+    const problem = validateLines(form.lines)
+    if (problem) {
+      toast.error(problem)
+      return
+    }
+    setIsSaving(true)
+    try {
+      await updateOrder(editId, form)
+      toast.success("Purchase order updated")
+      setEditId(null)
+    } catch (e) {
+      toast.error(getErrorMessage(e, "Failed to save purchase order"))
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const askTransition = (o: PurchaseOrderDto, action: PurchaseOrderAction) => {
+    const t = PURCHASE_ORDER_TRANSITIONS[action]
+    setPendingTransition({
+      title: `${t.label}: ${o.poNumber}`,
+      description: `The order will move from "${o.status}" to "${t.to}".`,
+      confirmLabel: t.label,
+      requiresRemarks: !!t.requiresRemarks,
+      run: async (remarks) => {
+        try {
+          await transitionOrder(o.id, action, remarks)
+          toast.success(`${o.poNumber} is now ${t.to}`)
+        } catch (e) {
+          toast.error(getErrorMessage(e, "Failed to update purchase order"))
+          throw e
+        }
+      },
+    })
+  }
+
+  const print = (o: PurchaseOrderDto) => printProcurementPdf({ kind: "order", doc: o, supplier: supplierById.get(o.supplierId) })
+
+  const editSuppliers = suppliers.filter(
+    (s) => s.id === form?.supplierId || (s.active && (!form || s.categories.includes(form.categoryKey)))
+  )
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>Purchase Orders</CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Approve and issue orders, then check each line against the schools' delivery logs.
+          </p>
+        </div>
+        <Select value={statusFilter} onValueChange={setStatusFilter}>
+          <SelectTrigger className="h-9 w-[160px] rounded-xl">
+            <SelectValue placeholder="Status" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Statuses</SelectItem>
+            {PURCHASE_ORDER_STATUSES.map((s) => (
+              <SelectItem key={s} value={s}>
+                {s}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>PO No.</TableHead>
+              <TableHead>Supplier</TableHead>
+              <TableHead>Category</TableHead>
+              <TableHead>PR No.</TableHead>
+              <TableHead className="text-right">Lines</TableHead>
+              <TableHead className="text-right">Amount</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {filtered.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={8} className="text-center text-muted-foreground">
+                  {isLoading ? "Loading purchase orders..." : "No purchase orders found."}
+                </TableCell>
+              </TableRow>
+            ) : (
+              filtered.map((o) => (
+                <TableRow key={o.id}>
+                  <TableCell className="font-medium">{o.poNumber}</TableCell>
+                  <TableCell>{o.supplierName}</TableCell>
+                  <TableCell>{o.categoryLabel}</TableCell>
+                  <TableCell>{o.prNumber || "-"}</TableCell>
+                  <TableCell className="text-right">{o.lines.length}</TableCell>
+                  <TableCell className="text-right tabular-nums">{formatPeso(linesTotal(o.lines))}</TableCell>
+                  <TableCell>
+                    <ProcurementStatusBadge status={o.status} />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex items-center justify-end gap-1">
+                      <Button variant="ghost" size="icon" className="rounded-lg" onClick={() => setViewingId(o.id)}>
+                        <Eye className="size-4" />
+                      </Button>
+                      {canEdit && o.status === "Draft" ? (
+                        <Button variant="ghost" size="icon" className="rounded-lg" onClick={() => openEdit(o)}>
+                          <Pencil className="size-4" />
+                        </Button>
+                      ) : null}
+                      <Button variant="ghost" size="icon" className="rounded-lg" onClick={() => print(o)}>
+                        <FileDown className="size-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+
+      {/* ── Details, workflow & delivery matching ── */}
+      <Dialog open={!!viewing} onOpenChange={(open) => (!open ? closeView() : undefined)}>
+        <DialogContent className="sm:max-w-5xl max-h-[90vh] overflow-y-auto">
+          {viewing ? (
+            <>
+              <DialogHeader>
+                <DialogTitle className="flex items-center gap-2">
+                  {viewing.poNumber}
+                  <ProcurementStatusBadge status={viewing.status} />
+                </DialogTitle>
+                <DialogDescription>
+                  {viewing.supplierName} • {viewing.categoryLabel}
+                  {viewing.prNumber ? ` • From ${viewing.prNumber}` : ""}
+                  {viewing.issuedAt ? ` • Issued ${format(new Date(viewing.issuedAt), "MMM dd, yyyy")}` : ""}
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="grid gap-3 sm:grid-cols-4">
+                {[
+                  { label: "Ordered", value: formatPeso(matchSummary.orderedValue) },
+                  { label: "Delivered", value: formatPeso(matchSummary.deliveredValue) },
+                  { label: "Fulfillment", value: `${(matchSummary.fulfillment * 100).toFixed(0)}%` },
+                  { label: "Lines with issues", value: String(matchSummary.issues) },
+                ].map((card) => (
+                  <div key={card.label} className="rounded-xl border px-3 py-2">
+                    <div className="text-xs text-muted-foreground">{card.label}</div>
+                    <div className="text-lg font-semibold tabular-nums">
+                      {deliveries.isLoading ? <Loader2 className="size-4 animate-spin text-gray-300" /> : card.value}
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              <div className="overflow-x-auto rounded-xl border">
+                <table className="w-full min-w-[760px] text-sm">
+                  <thead>
+                    <tr className="border-b bg-muted/40 text-left text-xs font-semibold text-muted-foreground">
+                      <th className="px-3 py-2">Item</th>
+                      <th className="px-3 py-2">School</th>
+                      <th className="px-3 py-2">Deliver on</th>
+                      <th className="px-3 py-2 text-right">Qty</th>
+                      <th className="px-3 py-2 text-right">Amount</th>
+                      <th className="px-3 py-2">Delivery</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {matches.map((m, i) => (
+                      <tr key={m.line.id || i} className="border-b last:border-b-0">
+                        <td className="px-3 py-2">{m.line.description}</td>
+                        <td className="px-3 py-2">
+                          <div>{m.line.school}</div>
+                          <div className="text-xs text-muted-foreground">{m.line.municipality}</div>
+                        </td>
+                        <td className="px-3 py-2">
+                          {m.line.deliveryDate ? format(new Date(`${m.line.deliveryDate}T00:00:00`), "MMM dd, yyyy") : "-"}
+                        </td>
+                        <td className="px-3 py-2 text-right tabular-nums">
+                          {m.line.quantity.toLocaleString()} {m.line.unit}
+                        </td>
+                        <td className="px-3 py-2 text-right tabular-nums">{formatPeso(lineAmount(m.line))}</td>
+                        <td className="px-3 py-2">
+                          {deliveries.isLoading ? (
+                            <Loader2 className="size-4 animate-spin text-gray-300" />
+                          ) : m.record ? (
+                            <button
+                              type="button"
+                              onClick={() =>
+                                navigate(
+                                  links.adminDelivery({
+                                    id: m.record?.id,
+                                    date: m.line.deliveryDate,
+                                    municipality: m.line.municipality,
+                                    school: m.line.school,
+                                    category: viewing.categoryKey,
+                                  })
+                                )
+                              }
+                              className={`inline-flex items-center rounded-full border px-2.5 py-0.5 text-[11px] font-semibold hover:underline ${MATCH_STATE_CLASSES[m.state]}`}
+                              title="Open delivery record"
+                            >
+                              {m.state}
+                            </button>
+                          ) : (
+                            <span
+                              className={`inline-flex items-center rounded-full border px-2.5 py-0.5 text-[11px] font-semibold ${MATCH_STATE_CLASSES[m.state]}`}
+                            >
+                              {m.state}
+                            </span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {viewing.terms ? (
+                <div className="space-y-1">
+                  <div className="text-sm font-semibold">Terms</div>
+                  <p className="whitespace-pre-line text-sm text-gray-700">{viewing.terms}</p>
+                </div>
+              ) : null}
+
+              <div className="space-y-2">
+                <div className="text-sm font-semibold">Approval trail</div>
+                <ApprovalTrail history={viewing.history} />
+              </div>
+
+              <DialogFooter className="flex-wrap gap-2">
+                <Button variant="outline" onClick={() => print(viewing)}>
+                  <FileDown className="size-4" />
+                  Print PDF
+                </Button>
+                {(canEdit ? availableActions(PURCHASE_ORDER_TRANSITIONS, viewing.status) : []).map((action) => (
+                  <Button
+                    key={action}
+                    variant={action === "reject" || action === "cancel" ? "outline" : "default"}
+                    className={
+                      action === "reject" || action === "cancel"
+                        ? "text-destructive"
+                        : "bg-emerald-600 hover:bg-emerald-700"
+                    }
+                    onClick={() => askTransition(viewing, action)}
+                  >
+                    {PURCHASE_ORDER_TRANSITIONS[action].label}
+                  </Button>
+                ))}
+              </DialogFooter>
+            </>
+          ) : null}
+        </DialogContent>
+      </Dialog>
+
+      {/* ── Edit draft ── */}
+      <Dialog open={!!editId} onOpenChange={(open) => (!open ? setEditId(null) : undefined)}>
+        <DialogContent className="sm:max-w-5xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Edit Purchase Order</DialogTitle>
+            <DialogDescription>Orders can be edited until they are submitted for approval.</DialogDescription>
+          </DialogHeader>
+          {form ? (
+            <>
+              <div className="grid gap-3 sm:grid-cols-2">
+                <div className="grid gap-1.5">
+                  <Label>Supplier</Label>
+                  <Select value={form.supplierId} onValueChange={(v) => setForm({ ...form, supplierId: v })}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select supplier" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {editSuppliers.map((s) => (
+                        <SelectItem key={s.id} value={s.id}>
+                          {s.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="grid gap-1.5 sm:col-span-2">
+                  <Label htmlFor="po-edit-terms">Terms</Label>
+                  <Textarea
+                    id="po-edit-terms"
+                    rows={3}
+                    value={form.terms}
+                    onChange={(e) => setForm({ ...form, terms: e.target.value })}
+                  />
+                </div>
+              </div>
+              <ProcurementLinesEditor
+                lines={form.lines}
+                onChange={(lines) => setForm({ ...form, lines })}
+                schoolsByMunicipality={schoolsByMunicipality}
+              />
+            </>
+          ) : null}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditId(null)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving} className="bg-emerald-600 hover:bg-emerald-700">
+              {isSaving ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <TransitionDialog pending={pendingTransition} onClose={() => setPendingTransition(null)} />
+    </Card>
+  )
+}
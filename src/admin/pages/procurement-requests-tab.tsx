@@ -0,0 +1,536 @@
+import { useMemo, useState } from "react"
+import { format } from "date-fns"
+import { Eye, FileDown, Pencil, Plus, ShoppingCart, Trash2 } from "lucide-react"
+import { toast } from "sonner"
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  ApprovalTrail,
+  ProcurementLinesEditor,
+  ProcurementStatusBadge,
+  TransitionDialog,
+  type PendingTransition,
+} from "@/admin/components/procurement-shared"
+import { useSchoolsByMunicipality } from "@/admin/components/use-schools-by-municipality"
+import {
+  DELIVERY_CATEGORY_OPTIONS,
+  getErrorMessage,
+  type PurchaseRequestAction,
+  type PurchaseRequestDto,
+  type SavePurchaseRequestInput,
+} from "@/lib/api"
+import { usePermissions } from "@/lib/permissions"
+import {
+  availableActions,
+  formatPeso,
+  linesTotal,
+  printProcurementPdf,
+  PURCHASE_REQUEST_STATUSES,
+  PURCHASE_REQUEST_TRANSITIONS,
+  validateLines,
+} from "@/lib/procurement"
+import { useProcurementStore } from "@/stores/procurement-store"
+
+const EMPTY_FORM: SavePurchaseRequestInput = {
+  categoryKey: DELIVERY_CATEGORY_OPTIONS[0].key,
+  categoryLabel: DELIVERY_CATEGORY_OPTIONS[0].label,
+  purpose: "",
+  neededBy: "",
+  lines: [],
+}
+
+const DEFAULT_PO_TERMS =
+  "Deliver to each school on the dates listed. Items must match the specifications above; rejected items will be replaced at the supplier's cost."
+
+function formatDay(dateKey: string) {
+  return dateKey ? format(new Date(`${dateKey}T00:00:00`), "MMM dd, yyyy") : "-"
+}
+
+export function ProcurementRequestsTab({
+  search,
+  category,
+  onOrderCreated,
+}: {
+  search: string
+  category: string
+  onOrderCreated: (orderId: string) => void
+}) {
+  const requests = useProcurementStore((s) => s.requests)
+  const suppliers = useProcurementStore((s) => s.suppliers)
+  const isLoading = useProcurementStore((s) => s.isLoading)
+  const saveRequest = useProcurementStore((s) => s.saveRequest)
+  const deleteRequest = useProcurementStore((s) => s.deleteRequest)
+  const transitionRequest = useProcurementStore((s) => s.transitionRequest)
+  const permissions = usePermissions()
+  const canCreate = permissions.can("procurement", "create")
+  const canEdit = permissions.can("procurement", "edit")
+  const createOrderFromRequest = useProcurementStore((s) => s.createOrderFromRequest)
+  const schoolsByMunicipality = useSchoolsByMunicipality()
+
+  const [statusFilter, setStatusFilter] = useState("all")
+
+  const [isFormOpen, setIsFormOpen] = useState(false)
+  const [editId, setEditId] = useState<string | null>(null)
+  const [form, setForm] = useState<SavePurchaseRequestInput>(EMPTY_FORM)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const [viewing, setViewing] = useState<PurchaseRequestDto | null>(null)
+  const [pendingTransition, setPendingTransition] = useState<PendingTransition | null>(null)
+
+  const [ordering, setOrdering] = useState<PurchaseRequestDto | null>(null)
+  const [orderSupplierId, setOrderSupplierId] = useState("")
+  const [orderTerms, setOrderTerms] = useState(DEFAULT_PO_TERMS)
+  const [isOrdering, setIsOrdering] = useState(false)
+
+  const filtered = useMemo(() => {
+    const q = search.trim().toLowerCase()
+    return requests.filter((r) => {
+      if (statusFilter !== "all" && r.status !== statusFilter) return false
+      if (category !== "all" && r.categoryKey !== category) return false
+      if (!q) return true
+      return [r.prNumber, r.purpose, r.categoryLabel, r.requestedByName, ...r.lines.map((l) => l.school)]
+        .join(" ")
+        .toLowerCase()
+        .includes(q)
+    })
+  }, [category, requests, search, statusFilter])
+
+  // Keep the detail dialog in sync after a workflow step updates the store
+  const viewingRequest = viewing ? requests.find((r) => r.id === viewing.id) || viewing : null
+
+  const eligibleSuppliers = useMemo(
+    () => suppliers.filter((s) => s.active && (!ordering || s.categories.includes(ordering.categoryKey))),
+    [ordering, suppliers]
+  )
+
+  const openCreate = () => {
+    setEditId(null)
+    setForm(EMPTY_FORM)
+    setIsFormOpen(true)
+  }
+
+  const openEdit = (r: PurchaseRequestDto) => {
+    setEditId(r.id)
+    setForm({
+      categoryKey: r.categoryKey,
+      categoryLabel: r.categoryLabel,
+      purpose: r.purpose,
+      neededBy: r.neededBy,
+      lines: r.lines.map((l) => ({ ...l })),
+    })
+    setIsFormOpen(true)
+  }
+
+  const handleSave = async () => {
+    if (!form.purpose.trim()) {
+      toast.error("Purpose is required")
+      return
+    }
+    if (!form.neededBy) {
+      toast.error("Needed-by date is required")
+      return
+    }
+    const problem = validateLines(form.lines)
+    if (problem) {
+      toast.error(problem)
+      return
+    }
+    setIsSaving(true)
+    try {
+      await saveRequest(editId, { ...form, purpose: form.purpose.trim() })
+      toast.success(editId ? "Purchase request updated" : "Purchase request created")
+      setIsFormOpen(false)
+    } catch (e) {
+      toast.error(getErrorMessage(e, "Failed to save purchase request"))
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const askTransition = (r: PurchaseRequestDto, action: PurchaseRequestAction) => {
+    const t = PURCHASE_REQUEST_TRANSITIONS[action]
+    setPendingTransition({
+      title: `${t.label}: ${r.prNumber}`,
+      description: `The request will move from "${r.status}" to "${t.to}".`,
+      confirmLabel: t.label,
+      requiresRemarks: !!t.requiresRemarks,
+      run: async (remarks) => {
+        try {
+          await transitionRequest(r.id, action, remarks)
+          toast.success(`${r.prNumber} is now ${t.to}`)
+        } catch (e) {
+          toast.error(getErrorMessage(e, "Failed to update purchase request"))
+          throw e
+        }
+      },
+    })
+  }
+
+  const openOrder = (r: PurchaseRequestDto) => {
+    setOrdering(r)
+    setOrderSupplierId("")
+    setOrderTerms(DEFAULT_PO_TERMS)
+  }
+
+  const handleCreateOrder = async () => {
+    if (!ordering || !orderSupplierId) return
+    setIsOrdering(true)
+    try {
+      const order = await createOrderFromRequest(ordering.id, { supplierId: orderSupplierId, terms: orderTerms })
+      toast.success(order ? `Purchase order ${order.poNumber} created` : "Purchase order created")
+      setOrdering(null)
+      if (order) onOrderCreated(order.id)
+    } catch (e) {
+      toast.error(getErrorMessage(e, "Failed to create purchase order"))
+    } finally {
+      setIsOrdering(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>Purchase Requests</CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Draft, submit and approve requests; approved requests become purchase orders.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="h-9 w-[150px] rounded-xl">
+              <SelectValue placeholder="Status" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Statuses</SelectItem>
+              {PURCHASE_REQUEST_STATUSES.map((s) => (
+                <SelectItem key={s} value={s}>
+                  {s}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={openCreate} disabled={!canCreate} className="rounded-xl bg-emerald-600 hover:bg-emerald-700">
+            <Plus className="size-4" />
+            New Request
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>PR No.</TableHead>
+              <TableHead>Category</TableHead>
+              <TableHead>Purpose</TableHead>
+              <TableHead>Needed by</TableHead>
+              <TableHead className="text-right">Lines</TableHead>
+              <TableHead className="text-right">Amount</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {filtered.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={8} className="text-center text-muted-foreground">
+                  {isLoading ? "Loading purchase requests..." : "No purchase requests found."}
+                </TableCell>
+              </TableRow>
+            ) : (
+              filtered.map((r) => (
+                <TableRow key={r.id}>
+                  <TableCell className="font-medium">{r.prNumber}</TableCell>
+                  <TableCell>{r.categoryLabel}</TableCell>
+                  <TableCell className="max-w-[260px] truncate">{r.purpose}</TableCell>
+                  <TableCell>{formatDay(r.neededBy)}</TableCell>
+                  <TableCell className="text-right">{r.lines.length}</TableCell>
+                  <TableCell className="text-right tabular-nums">{formatPeso(linesTotal(r.lines))}</TableCell>
+                  <TableCell>
+                    <ProcurementStatusBadge status={r.status} />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex items-center justify-end gap-1">
+                      <Button variant="ghost" size="icon" className="rounded-lg" onClick={() => setViewing(r)}>
+                        <Eye className="size-4" />
+                      </Button>
+                      {canEdit && r.status === "Draft" ? (
+                        <Button variant="ghost" size="icon" className="rounded-lg" onClick={() => openEdit(r)}>
+                          <Pencil className="size-4" />
+                        </Button>
+                      ) : null}
+                      {canCreate && r.status === "Approved" ? (
+                        <Button variant="ghost" size="icon" className="rounded-lg" onClick={() => openOrder(r)}>
+                          <ShoppingCart className="size-4 text-emerald-600" />
+                        </Button>
+                      ) : null}
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="rounded-lg"
+                        onClick={() => printProcurementPdf({ kind: "request", doc: r })}
+                      >
+                        <FileDown className="size-4" />
+                      </Button>
+                      {canEdit && r.status === "Draft" ? (
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button variant="ghost" size="icon" className="rounded-lg">
+                              <Trash2 className="size-4 text-destructive" />
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Delete {r.prNumber}</AlertDialogTitle>
+                              <AlertDialogDescription>This draft request will be permanently deleted.</AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancel</AlertDialogCancel>
+                              <AlertDialogAction
+                                onClick={async () => {
+                                  try {
+                                    await deleteRequest(r.id)
+                                    toast.success("Purchase request deleted")
+                                  } catch (e) {
+                                    toast.error(getErrorMessage(e, "Failed to delete purchase request"))
+                                  }
+                                }}
+                              >
+                                Delete
+                              </AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      ) : null}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+
+      {/* ── Create / edit ── */}
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent className="sm:max-w-5xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editId ? "Edit Purchase Request" : "New Purchase Request"}</DialogTitle>
+            <DialogDescription>Requests can be edited until they are submitted for approval.</DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-3 sm:grid-cols-3">
+            <div className="grid gap-1.5">
+              <Label>Category</Label>
+              <Select
+                value={form.categoryKey}
+                onValueChange={(v) =>
+                  setForm((f) => ({
+                    ...f,
+                    categoryKey: v,
+                    categoryLabel: DELIVERY_CATEGORY_OPTIONS.find((c) => c.key === v)?.label || v,
+                  }))
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DELIVERY_CATEGORY_OPTIONS.map((c) => (
+                    <SelectItem key={c.key} value={c.key}>
+                      {c.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-1.5">
+              <Label htmlFor="pr-needed-by">Needed by</Label>
+              <Input
+                id="pr-needed-by"
+                type="date"
+                value={form.neededBy}
+                onChange={(e) => setForm((f) => ({ ...f, neededBy: e.target.value }))}
+              />
+            </div>
+            <div className="grid gap-1.5 sm:col-span-3">
+              <Label htmlFor="pr-purpose">Purpose</Label>
+              <Textarea
+                id="pr-purpose"
+                rows={2}
+                value={form.purpose}
+                onChange={(e) => setForm((f) => ({ ...f, purpose: e.target.value }))}
+                placeholder="e.g. Rice allocation for the second feeding cycle"
+              />
+            </div>
+          </div>
+
+          <ProcurementLinesEditor
+            lines={form.lines}
+            onChange={(lines) => setForm((f) => ({ ...f, lines }))}
+            schoolsByMunicipality={schoolsByMunicipality}
+          />
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsFormOpen(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving} className="bg-emerald-600 hover:bg-emerald-700">
+              {isSaving ? "Saving..." : "Save Draft"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* ── Details & workflow ── */}
+      <Dialog open={!!viewingRequest} onOpenChange={(open) => (!open ? setViewing(null) : undefined)}>
+        <DialogContent className="sm:max-w-5xl max-h-[90vh] overflow-y-auto">
+          {viewingRequest ? (
+            <>
+              <DialogHeader>
+                <DialogTitle className="flex items-center gap-2">
+                  {viewingRequest.prNumber}
+                  <ProcurementStatusBadge status={viewingRequest.status} />
+                </DialogTitle>
+                <DialogDescription>
+                  {viewingRequest.categoryLabel} • Needed by {formatDay(viewingRequest.neededBy)}
+                  {viewingRequest.requestedByName ? ` • Requested by ${viewingRequest.requestedByName}` : ""}
+                </DialogDescription>
+              </DialogHeader>
+
+              <p className="text-sm text-gray-700">{viewingRequest.purpose}</p>
+
+              <ProcurementLinesEditor
+                lines={viewingRequest.lines}
+                onChange={() => {}}
+                schoolsByMunicipality={schoolsByMunicipality}
+                readOnly
+              />
+
+              <div className="space-y-2">
+                <div className="text-sm font-semibold">Approval trail</div>
+                <ApprovalTrail history={viewingRequest.history} />
+              </div>
+
+              <DialogFooter className="flex-wrap gap-2">
+                {(canEdit ? availableActions(PURCHASE_REQUEST_TRANSITIONS, viewingRequest.status) : []).map((action) => (
+                  <Button
+                    key={action}
+                    variant={action === "reject" ? "outline" : "default"}
+                    className={action === "reject" ? "text-destructive" : "bg-emerald-600 hover:bg-emerald-700"}
+                    onClick={() => askTransition(viewingRequest, action)}
+                  >
+                    {PURCHASE_REQUEST_TRANSITIONS[action].label}
+                  </Button>
+                ))}
+                {canCreate && viewingRequest.status === "Approved" ? (
+                  <Button
+                    className="bg-emerald-600 hover:bg-emerald-700"
+                    onClick={() => {
+                      setViewing(null)
+                      openOrder(viewingRequest)
+                    }}
+                  >
+                    Create Purchase Order
+                  </Button>
+                ) : null}
+              </DialogFooter>
+            </>
+          ) : null}
+        </DialogContent>
+      </Dialog>
+
+      {/* ── Convert to PO ── */}
+      <Dialog open={!!ordering} onOpenChange={(open) => (!open ? setOrdering(null) : undefined)}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Create Purchase Order</DialogTitle>
+            <DialogDescription>
+              {ordering
+                ? `${ordering.prNumber} • ${ordering.lines.length} line(s) • ${formatPeso(linesTotal(ordering.lines))}`
+                : ""}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-3">
+            <div className="grid gap-1.5">
+              <Label>Supplier</Label>
+              <Select value={orderSupplierId} onValueChange={setOrderSupplierId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select supplier" />
+                </SelectTrigger>
+                <SelectContent>
+                  {eligibleSuppliers.map((s) => (
+                    <SelectItem key={s.id} value={s.id}>
+                      {s.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {!eligibleSuppliers.length ? (
+                <p className="text-xs text-muted-foreground">
+                  No active supplier serves {ordering?.categoryLabel}. Add one in the Suppliers tab.
+                </p>
+              ) : null}
+            </div>
+            <div className="grid gap-1.5">
+              <Label htmlFor="po-terms">Terms</Label>
+              <Textarea id="po-terms" rows={4} value={orderTerms} onChange={(e) => setOrderTerms(e.target.value)} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOrdering(null)} disabled={isOrdering}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleCreateOrder}
+              disabled={isOrdering || !orderSupplierId}
+              className="bg-emerald-600 hover:bg-emerald-700"
+            >
+              {isOrdering ? "Creating..." : "Create Draft PO"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <TransitionDialog pending={pendingTransition} onClose={() => setPendingTransition(null)} />
+    </Card>
+  )
+}
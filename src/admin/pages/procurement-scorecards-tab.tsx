@@ -0,0 +1,230 @@
+import { useEffect, useMemo, useState } from "react"
+import { format, startOfMonth, subMonths } from "date-fns"
+import { FileDown, Loader2 } from "lucide-react"
+import { toast } from "sonner"
+
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import {
+  deliveryApi,
+  getErrorMessage,
+  isAbortError,
+  type AdminDeliveryRecordDto,
+  type DeliveryScheduleDto,
+} from "@/lib/api"
+import { formatRate } from "@/lib/delivery-schedule"
+import { buildScorecards, formatMonth, printScorecardPdf, type ScorecardPeriod } from "@/lib/supplier-scorecard"
+import { useProcurementStore } from "@/stores/procurement-store"
+
+const RANGE_OPTIONS = [
+  { months: 3, label: "Last 3 months" },
+  { months: 6, label: "Last 6 months" },
+  { months: 12, label: "Last 12 months" },
+]
+
+function rateClass(rate: number | null, goodAbove: number, badBelow: number) {
+  if (rate === null) return "text-muted-foreground"
+  if (rate >= goodAbove) return "text-emerald-700"
+  if (rate < badBelow) return "text-red-600"
+  return "text-amber-700"
+}
+
+/** Monthly on-time rate as small bars; empty months show as a dot. */
+function TrendBars({ trend }: { trend: ScorecardPeriod[] }) {
+  return (
+    <div className="flex h-8 items-end gap-0.5">
+      {trend.map((t) => (
+        <div
+          key={t.month}
+          title={`${formatMonth(t.month)}: ${formatRate(t.onTimeRate)} on time, ${t.deliveries} deliveries`}
+          className={`w-2 rounded-sm ${t.onTimeRate === null ? "bg-gray-200" : t.onTimeRate >= 0.9 ? "bg-emerald-500" : t.onTimeRate >= 0.7 ? "bg-amber-400" : "bg-red-400"}`}
+          style={{ height: t.onTimeRate === null ? 3 : `${Math.max(10, Math.round(t.onTimeRate * 100))}%` }}
+        />
+      ))}
+    </div>
+  )
+}
+
+export function ProcurementScorecardsTab({ search, category }: { search: string; category: string }) {
+  const suppliers = useProcurementStore((s) => s.suppliers)
+
+  const [months, setMonths] = useState(6)
+  const range = useMemo(() => {
+    const today = new Date()
+    return {
+      from: format(startOfMonth(subMonths(today, months - 1)), "yyyy-MM-dd"),
+      to: format(today, "yyyy-MM-dd"),
+    }
+  }, [months])
+
+  const [loaded, setLoaded] = useState<{
+    done: boolean
+    records: AdminDeliveryRecordDto[]
+    schedules: DeliveryScheduleDto[]
+  }>({ done: false, records: [], schedules: [] })
+
+  useEffect(() => {
+    const controller = new AbortController()
+    Promise.all([
+      deliveryApi.adminHistory({ from: range.from, to: range.to }, controller.signal),
+      deliveryApi.adminSchedules({ from: range.from, to: range.to }, controller.signal),
+    ])
+      .then(([h, s]) => setLoaded({ done: true, records: h.records || [], schedules: s.schedules || [] }))
+      .catch((e) => {
+        if (isAbortError(e)) return
+        toast.error(getErrorMessage(e, "Failed to load delivery records"))
+        setLoaded({ done: true, records: [], schedules: [] })
+      })
+    return () => controller.abort()
+  }, [range.from, range.to])
+
+  const scorecards = useMemo(() => {
+    const inCategory = <T extends { categoryKey: string }>(rows: T[]) =>
+      category === "all" ? rows : rows.filter((r) => r.categoryKey === category)
+    const q = search.trim().toLowerCase()
+    return buildScorecards(
+      suppliers,
+      inCategory(loaded.records),
+      inCategory(loaded.schedules),
+      range.from,
+      range.to
+    ).filter((c) => !q || c.supplier.name.toLowerCase().includes(q))
+  }, [category, loaded.records, loaded.schedules, range.from, range.to, search, suppliers])
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col gap-3 space-y-0 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <CardTitle>Supplier Scorecards</CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Deliveries are attributed through each supplier's schedules and schools served.
+          </p>
+        </div>
+        <Select value={String(months)} onValueChange={(v) => setMonths(Number(v))}>
+          <SelectTrigger className="h-9 w-[170px] rounded-xl">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {RANGE_OPTIONS.map((o) => (
+              <SelectItem key={o.months} value={String(o.months)}>
+                {o.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Supplier</TableHead>
+              <TableHead className="text-right">Deliveries</TableHead>
+              <TableHead className="text-right">On time</TableHead>
+              <TableHead className="text-right">With concerns</TableHead>
+              <TableHead className="text-right">Cancelled</TableHead>
+              <TableHead>Top concerns</TableHead>
+              <TableHead>On-time trend</TableHead>
+              <TableHead className="text-right">Export</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {!loaded.done ? (
+              <TableRow>
+                <TableCell colSpan={8} className="py-10 text-center text-muted-foreground">
+                  <Loader2 className="mr-2 inline size-4 animate-spin" />
+                  Loading...
+                </TableCell>
+              </TableRow>
+            ) : scorecards.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={8} className="py-10 text-center text-muted-foreground">
+                  No deliveries could be attributed to a supplier in this period. Add schools served or
+                  delivery schedules to the suppliers.
+                </TableCell>
+              </TableRow>
+            ) : (
+              scorecards.map((c) => (
+                <TableRow key={c.supplier.id}>
+                  <TableCell>
+                    <div className="font-medium">{c.supplier.name}</div>
+                    {!c.supplier.active ? <div className="text-xs text-muted-foreground">Inactive</div> : null}
+                  </TableCell>
+                  <TableCell className="text-right tabular-nums">
+                    {c.deliveries}
+                    {c.scheduled ? (
+                      <div className="text-xs text-muted-foreground">{c.scheduled} scheduled</div>
+                    ) : null}
+                  </TableCell>
+                  <TableCell className={`text-right font-semibold tabular-nums ${rateClass(c.onTimeRate, 0.9, 0.7)}`}>
+                    {formatRate(c.onTimeRate)}
+                  </TableCell>
+                  <TableCell
+                    className={`text-right font-semibold tabular-nums ${rateClass(
+                      c.concernRate === null ? null : 1 - c.concernRate,
+                      0.9,
+                      0.7
+                    )}`}
+                  >
+                    {formatRate(c.concernRate)}
+                  </TableCell>
+                  <TableCell
+                    className={`text-right font-semibold tabular-nums ${rateClass(
+                      c.cancellationRate === null ? null : 1 - c.cancellationRate,
+                      0.95,
+                      0.85
+                    )}`}
+                  >
+                    {formatRate(c.cancellationRate)}
+                  </TableCell>
+                  <TableCell>
+                    {c.concerns.length ? (
+                      <div className="space-y-0.5 text-xs">
+                        {c.concerns.slice(0, 3).map((x) => (
+                          <div key={x.concern} className="flex justify-between gap-3">
+                            <span className="max-w-[160px] truncate" title={x.concern}>
+                              {x.concern}
+                            </span>
+                            <span className="tabular-nums text-muted-foreground">{formatRate(x.rate)}</span>
+                          </div>
+                        ))}
+                        {c.concerns.length > 3 ? (
+                          <div className="text-muted-foreground">+{c.concerns.length - 3} more</div>
+                        ) : null}
+                      </div>
+                    ) : (
+                      <span className="text-xs text-muted-foreground">None</span>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <TrendBars trend={c.trend} />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="outline" size="sm" className="rounded-lg" onClick={() => printScorecardPdf(c, range)}>
+                      <FileDown className="size-4" />
+                      PDF
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  )
+}
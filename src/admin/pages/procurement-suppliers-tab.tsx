@@ -0,0 +1,439 @@
+import { useMemo, useState } from "react"
+import { Pencil, Plus, Trash2, X } from "lucide-react"
+import { toast } from "sonner"
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Checkbox } from "@/components/ui/checkbox"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Switch } from "@/components/ui/switch"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { Textarea } from "@/components/ui/textarea"
+import { useSchoolsByMunicipality } from "@/admin/components/use-schools-by-municipality"
+import {
+  DELIVERY_CATEGORY_OPTIONS,
+  getErrorMessage,
+  type SaveSupplierInput,
+  type SupplierDto,
+  type SupplierSchoolDto,
+} from "@/lib/api"
+import { schoolKey } from "@/lib/attendance-compliance"
+import { BATAAN_MUNICIPALITIES } from "@/lib/municipalities"
+import { usePermissions } from "@/lib/permissions"
+import { useProcurementStore } from "@/stores/procurement-store"
+
+const EMPTY_FORM: SaveSupplierInput = {
+  name: "",
+  contactPerson: "",
+  contactNumber: "",
+  email: "",
+  address: "",
+  tin: "",
+  categories: [],
+  schools: [],
+  active: true,
+}
+
+const categoryLabel = (key: string) => DELIVERY_CATEGORY_OPTIONS.find((c) => c.key === key)?.label || key
+
+export function ProcurementSuppliersTab({ search }: { search: string }) {
+  const suppliers = useProcurementStore((s) => s.suppliers)
+  const isLoading = useProcurementStore((s) => s.isLoading)
+  const createSupplier = useProcurementStore((s) => s.createSupplier)
+  const updateSupplier = useProcurementStore((s) => s.updateSupplier)
+  const deleteSupplier = useProcurementStore((s) => s.deleteSupplier)
+  const permissions = usePermissions()
+  const canEdit = permissions.can("procurement", "edit")
+
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const [editId, setEditId] = useState<string | null>(null)
+  const [form, setForm] = useState<SaveSupplierInput>(EMPTY_FORM)
+  const [isSaving, setIsSaving] = useState(false)
+  const [schoolDraft, setSchoolDraft] = useState<SupplierSchoolDto>({ municipality: "", school: "" })
+  const schoolsByMunicipality = useSchoolsByMunicipality()
+
+  const filtered = useMemo(() => {
+    const q = search.trim().toLowerCase()
+    return suppliers
+      .filter((s) => {
+        if (!q) return true
+        return [s.name, s.contactPerson, s.email, s.address, ...s.categories.map(categoryLabel)]
+          .join(" ")
+          .toLowerCase()
+          .includes(q)
+      })
+      .sort((a, b) => a.name.localeCompare(b.name))
+  }, [search, suppliers])
+
+  const openCreate = () => {
+    setEditId(null)
+    setForm(EMPTY_FORM)
+    setIsDialogOpen(true)
+  }
+
+  const openEdit = (s: SupplierDto) => {
+    setEditId(s.id)
+    setForm({
+      name: s.name,
+      contactPerson: s.contactPerson,
+      contactNumber: s.contactNumber,
+      email: s.email,
+      address: s.address,
+      tin: s.tin,
+      categories: s.categories,
+      schools: s.schools || [],
+      active: s.active,
+    })
+    setIsDialogOpen(true)
+  }
+
+  const toggleCategory = (key: string, checked: boolean) =>
+    setForm((f) => ({
+      ...f,
+      categories: checked ? [...f.categories, key] : f.categories.filter((c) => c !== key),
+    }))
+
+  const addSchool = () => {
+    const next = { municipality: schoolDraft.municipality, school: schoolDraft.school.trim() }
+    if (!next.municipality || !next.school) return
+    setForm((f) => {
+      const schools = f.schools || []
+      const key = schoolKey(next.municipality, next.school)
+      if (schools.some((s) => schoolKey(s.municipality, s.school) === key)) return f
+      return { ...f, schools: [...schools, next] }
+    })
+    setSchoolDraft((d) => ({ ...d, school: "" }))
+  }
+
+  const removeSchool = (index: number) =>
+    setForm((f) => ({ ...f, schools: (f.schools || []).filter((_, i) => i !== index) }))
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      toast.error("Supplier name is required")
+      return
+    }
+    if (!form.categories.length) {
+      toast.error("Select at least one category")
+      return
+    }
+    setIsSaving(true)
+    try {
+      const input = { ...form, name: form.name.trim() }
+      if (editId) {
+        await updateSupplier(editId, input)
+        toast.success("Supplier updated")
+      } else {
+        await createSupplier(input)
+        toast.success("Supplier added")
+      }
+      setIsDialogOpen(false)
+    } catch (e) {
+      toast.error(getErrorMessage(e, "Failed to save supplier"))
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>Suppliers</CardTitle>
+          <p className="text-sm text-muted-foreground">Registered vendors and the categories they can supply.</p>
+        </div>
+        <Button
+          onClick={openCreate}
+          disabled={!permissions.can("procurement", "create")}
+          className="rounded-xl bg-emerald-600 hover:bg-emerald-700"
+        >
+          <Plus className="size-4" />
+          Add Supplier
+        </Button>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Status</TableHead>
+              <TableHead>Name</TableHead>
+              <TableHead>Contact</TableHead>
+              <TableHead>Categories</TableHead>
+              <TableHead>TIN</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {filtered.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-muted-foreground">
+                  {isLoading ? "Loading suppliers..." : "No suppliers yet. Click \"Add Supplier\" to register one."}
+                </TableCell>
+              </TableRow>
+            ) : (
+              filtered.map((s) => (
+                <TableRow key={s.id}>
+                  <TableCell>
+                    <Badge variant={s.active ? "default" : "outline"}>{s.active ? "Active" : "Inactive"}</Badge>
+                  </TableCell>
+                  <TableCell>
+                    <div className="font-medium">{s.name}</div>
+                    <div className="max-w-[260px] truncate text-xs text-muted-foreground">{s.address}</div>
+                  </TableCell>
+                  <TableCell>
+                    <div>{s.contactPerson || "-"}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {[s.contactNumber, s.email].filter(Boolean).join(" • ")}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex max-w-[280px] flex-wrap gap-1">
+                      {s.categories.map((c) => (
+                        <Badge key={c} variant="secondary">
+                          {categoryLabel(c)}
+                        </Badge>
+                      ))}
+                    </div>
+                    {s.schools?.length ? (
+                      <div className="mt-1 text-xs text-muted-foreground">
+                        Serves {s.schools.length} school{s.schools.length === 1 ? "" : "s"}
+                      </div>
+                    ) : null}
+                  </TableCell>
+                  <TableCell>{s.tin || "-"}</TableCell>
+                  <TableCell className="text-right">
+                    <div className={canEdit ? "flex items-center justify-end gap-1" : "hidden"}>
+                      <Button variant="ghost" size="icon" className="rounded-lg" onClick={() => openEdit(s)}>
+                        <Pencil className="size-4" />
+                      </Button>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="ghost" size="icon" className="rounded-lg">
+                            <Trash2 className="size-4 text-destructive" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Delete Supplier</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              Suppliers with purchase orders cannot be deleted; mark them inactive instead.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction
+                              onClick={async () => {
+                                try {
+                                  await deleteSupplier(s.id)
+                                  toast.success("Supplier deleted")
+                                } catch (e) {
+                                  toast.error(getErrorMessage(e, "Failed to delete supplier"))
+                                }
+                              }}
+                            >
+                              Delete
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editId ? "Edit Supplier" : "Add Supplier"}</DialogTitle>
+            <DialogDescription>Only active suppliers can receive new purchase orders.</DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-3">
+            <div className="grid gap-1.5">
+              <Label htmlFor="supplier-name">Name</Label>
+              <Input
+                id="supplier-name"
+                value={form.name}
+                onChange={(e) => setForm((f) => ({ ...f, name: e.target.value }))}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="grid gap-1.5">
+                <Label htmlFor="supplier-contact">Contact person</Label>
+                <Input
+                  id="supplier-contact"
+                  value={form.contactPerson}
+                  onChange={(e) => setForm((f) => ({ ...f, contactPerson: e.target.value }))}
+                />
+              </div>
+              <div className="grid gap-1.5">
+                <Label htmlFor="supplier-number">Contact number</Label>
+                <Input
+                  id="supplier-number"
+                  value={form.contactNumber}
+                  onChange={(e) => setForm((f) => ({ ...f, contactNumber: e.target.value }))}
+                />
+              </div>
+              <div className="grid gap-1.5">
+                <Label htmlFor="supplier-email">Email</Label>
+                <Input
+                  id="supplier-email"
+                  type="email"
+                  value={form.email}
+                  onChange={(e) => setForm((f) => ({ ...f, email: e.target.value }))}
+                />
+              </div>
+              <div className="grid gap-1.5">
+                <Label htmlFor="supplier-tin">TIN</Label>
+                <Input
+                  id="supplier-tin"
+                  value={form.tin}
+                  onChange={(e) => setForm((f) => ({ ...f, tin: e.target.value }))}
+                />
+              </div>
+            </div>
+            <div className="grid gap-1.5">
+              <Label htmlFor="supplier-address">Address</Label>
+              <Textarea
+                id="supplier-address"
+                rows={2}
+                value={form.address}
+                onChange={(e) => setForm((f) => ({ ...f, address: e.target.value }))}
+              />
+            </div>
+            <div className="grid gap-1.5">
+              <Label>Categories</Label>
+              <div className="grid grid-cols-2 gap-2 sm:grid-cols-3">
+                {DELIVERY_CATEGORY_OPTIONS.map((c) => (
+                  <label key={c.key} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={form.categories.includes(c.key)}
+                      onCheckedChange={(checked) => toggleCategory(c.key, checked === true)}
+                    />
+                    {c.label}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="grid gap-1.5">
+              <Label>Schools served</Label>
+              <p className="text-xs text-muted-foreground">
+                Deliveries of the categories above at these schools count toward the supplier's scorecard.
+              </p>
+              <div className="flex gap-2">
+                <Select
+                  value={schoolDraft.municipality}
+                  onValueChange={(v) => setSchoolDraft({ municipality: v, school: "" })}
+                >
+                  <SelectTrigger className="w-[150px] shrink-0">
+                    <SelectValue placeholder="Municipality" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {BATAAN_MUNICIPALITIES.map((m) => (
+                      <SelectItem key={m} value={m}>
+                        {m}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  value={schoolDraft.school}
+                  list="supplier-schools"
+                  placeholder="School"
+                  onChange={(e) => setSchoolDraft((d) => ({ ...d, school: e.target.value }))}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") {
+                      e.preventDefault()
+                      addSchool()
+                    }
+                  }}
+                />
+                <datalist id="supplier-schools">
+                  {(schoolsByMunicipality[schoolDraft.municipality] || []).map((s) => (
+                    <option key={s} value={s} />
+                  ))}
+                </datalist>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={addSchool}
+                  disabled={!schoolDraft.municipality || !schoolDraft.school.trim()}
+                >
+                  Add
+                </Button>
+              </div>
+              {form.schools?.length ? (
+                <div className="flex max-h-32 flex-wrap gap-1 overflow-y-auto">
+                  {form.schools.map((s, i) => (
+                    <Badge key={`${s.municipality}-${s.school}`} variant="secondary" className="gap-1">
+                      {s.school} · {s.municipality}
+                      <button type="button" onClick={() => removeSchool(i)} aria-label={`Remove ${s.school}`}>
+                        <X className="size-3" />
+                      </button>
+                    </Badge>
+                  ))}
+                </div>
+              ) : null}
+            </div>
+            <div className="flex items-center justify-between rounded-xl border px-3 py-2">
+              <Label htmlFor="supplier-active">Active</Label>
+              <Switch
+                id="supplier-active"
+                checked={form.active}
+                onCheckedChange={(checked) => setForm((f) => ({ ...f, active: checked }))}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving} className="bg-emerald-600 hover:bg-emerald-700">
+              {isSaving ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
@@ -1,25 +1,157 @@
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
-import { ShoppingCart } from "lucide-react"
+import { useEffect, useMemo, useState } from "react"
+import { ClipboardList, Search, ShoppingCart, Truck, Wallet } from "lucide-react"
+import { toast } from "sonner"
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { DELIVERY_CATEGORY_OPTIONS, getErrorMessage } from "@/lib/api"
+import { formatPeso, linesTotal } from "@/lib/procurement"
+import { useSearchParam } from "@/lib/router"
+import { useProcurementStore } from "@/stores/procurement-store"
+import { ProcurementOrdersTab } from "./procurement-orders-tab"
+import { ProcurementRequestsTab } from "./procurement-requests-tab"
+import { ProcurementScorecardsTab } from "./procurement-scorecards-tab"
+import { ProcurementSuppliersTab } from "./procurement-suppliers-tab"
+
+const TABS = ["requests", "orders", "suppliers", "scorecards"] as const
+type ProcurementTab = (typeof TABS)[number]
+
+const TAB_TRIGGER_CLASS =
+  "rounded-xl border border-transparent data-[state=active]:bg-emerald-600 data-[state=active]:text-white data-[state=active]:border-transparent hover:bg-emerald-50"
 
 export function Procurement() {
+  const requests = useProcurementStore((s) => s.requests)
+  const orders = useProcurementStore((s) => s.orders)
+  const suppliers = useProcurementStore((s) => s.suppliers)
+  const fetchAll = useProcurementStore((s) => s.fetchAll)
+
+  const [tabParam, setTabParam] = useSearchParam("tab")
+  const activeTab: ProcurementTab = TABS.includes(tabParam as ProcurementTab) ? (tabParam as ProcurementTab) : "requests"
+  const [search, setSearch] = useState("")
+  const [category, setCategory] = useState("all")
+  const [focusOrderId, setFocusOrderId] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchAll().catch((e) => toast.error(getErrorMessage(e, "Failed to load procurement records")))
+  }, [fetchAll])
+
+  const stats = useMemo(() => {
+    const openOrders = orders.filter((o) => o.status === "Approved" || o.status === "Issued")
+    return {
+      pendingApproval:
+        requests.filter((r) => r.status === "Submitted").length +
+        orders.filter((o) => o.status === "For Approval").length,
+      openOrders: openOrders.length,
+      committed: openOrders.reduce((sum, o) => sum + linesTotal(o.lines), 0),
+      activeSuppliers: suppliers.filter((s) => s.active).length,
+    }
+  }, [orders, requests, suppliers])
+
   return (
-    <div className="grid gap-4">
-      <Card>
-        <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <ShoppingCart className="size-5" />
-            Procurement
-          </CardTitle>
-          <CardDescription>
-            Manage procurement and purchasing
-          </CardDescription>
-        </CardHeader>
-        <CardContent>
-          <p className="text-sm text-muted-foreground">
-            Handle procurement processes, purchase orders, and vendor management.
-          </p>
-        </CardContent>
-      </Card>
+    <div className="space-y-6">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h2 className="text-2xl font-bold">Procurement</h2>
+          <p className="text-muted-foreground">Purchase requests, purchase orders, suppliers and their performance</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="relative w-full sm:w-[240px]">
+            <Search className="absolute left-3 top-1/2 size-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search PR/PO no., school..."
+              className="h-9 rounded-xl pl-9"
+            />
+          </div>
+          <Select value={category} onValueChange={setCategory}>
+            <SelectTrigger className="h-9 w-[160px] rounded-xl">
+              <SelectValue placeholder="Category" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Categories</SelectItem>
+              {DELIVERY_CATEGORY_OPTIONS.map((c) => (
+                <SelectItem key={c.key} value={c.key}>
+                  {c.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+        {[
+          { title: "Awaiting Approval", value: String(stats.pendingApproval), note: "Requests and orders", Icon: ClipboardList },
+          { title: "Open Orders", value: String(stats.openOrders), note: "Approved or issued", Icon: ShoppingCart },
+          { title: "Committed", value: formatPeso(stats.committed), note: "Value of open orders", Icon: Wallet },
+          { title: "Active Suppliers", value: String(stats.activeSuppliers), note: `${suppliers.length} registered`, Icon: Truck },
+        ].map(({ title, value, note, Icon }) => (
+          <Card key={title} className="hover:shadow-lg transition-shadow">
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">{title}</CardTitle>
+              <Icon className="size-5 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-3xl font-bold tabular-nums">{value}</div>
+              <p className="text-xs text-muted-foreground mt-1">{note}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Tabs value={activeTab} onValueChange={(v) => setTabParam(v === "requests" ? null : v)} className="w-full">
+        <TabsList className="grid w-full max-w-2xl grid-cols-4 bg-transparent">
+          <TabsTrigger value="requests" className={TAB_TRIGGER_CLASS}>
+            Purchase Requests
+          </TabsTrigger>
+          <TabsTrigger value="orders" className={TAB_TRIGGER_CLASS}>
+            Purchase Orders
+          </TabsTrigger>
+          <TabsTrigger value="suppliers" className={TAB_TRIGGER_CLASS}>
+            Suppliers
+          </TabsTrigger>
+          <TabsTrigger value="scorecards" className={TAB_TRIGGER_CLASS}>
+            Scorecards
+          </TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="requests" className="mt-6">
+          <ProcurementRequestsTab
+            search={search}
+            category={category}
+            onOrderCreated={(orderId) => {
+              setFocusOrderId(orderId)
+              setTabParam("orders")
+            }}
+          />
+        </TabsContent>
+
+        <TabsContent value="orders" className="mt-6">
+          <ProcurementOrdersTab
+            search={search}
+            category={category}
+            focusOrderId={focusOrderId}
+            onFocusHandled={() => setFocusOrderId(null)}
+          />
+        </TabsContent>
+
+        <TabsContent value="suppliers" className="mt-6">
+          <ProcurementSuppliersTab search={search} />
+        </TabsContent>
+
+        <TabsContent value="scorecards" className="mt-6">
+          <ProcurementScorecardsTab search={search} category={category} />
+        </TabsContent>
+      </Tabs>
     </div>
   )
 }
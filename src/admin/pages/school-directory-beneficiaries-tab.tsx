@@ -36,9 +36,11 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table"
-import { Download, Pencil, Plus, Trash2, Upload } from "lucide-react"
+import { Download, History, Pencil, Plus, Trash2, Upload } from "lucide-react"
 import * as XLSX from "xlsx"
 import { toast } from "sonner"
+import { usePermissions } from "@/lib/permissions"
+import { AuditHistorySheet } from "@/admin/components/audit-history-sheet"
 import {
   type SchoolBeneficiaryRow,
   useSchoolDirectoryStore,
@@ -63,6 +65,9 @@ export function SchoolDirectoryBeneficiariesTab({
   schoolYear: string
 }) {
   const importFileInputRef = useRef<HTMLInputElement | null>(null)
+  const permissions = usePermissions()
+  const canCreate = permissions.can("schoolDirectory", "create")
+  const canEdit = permissions.can("schoolDirectory", "edit")
 
   const beneficiaryRows = useSchoolDirectoryStore((s) => s.beneficiaryRows)
   const isLoading = useSchoolDirectoryStore((s) => s.isLoading)
@@ -99,6 +104,7 @@ export function SchoolDirectoryBeneficiariesTab({
   })
 
   const [isEditCellOpen, setIsEditCellOpen] = useState(false)
+  const [historySchool, setHistorySchool] = useState<SchoolData | null>(null)
   const [editCell, setEditCell] = useState<
     | {
         type: "school"
@@ -138,7 +144,12 @@ export function SchoolDirectoryBeneficiariesTab({
 
   const currentData = useMemo(() => {
     return (beneficiaryRows || [])
-      .filter((r) => r.municipality === selectedMunicipality && r.schoolYear === schoolYear)
+      .filter(
+        (r) =>
+          r.municipality === selectedMunicipality &&
+          r.schoolYear === schoolYear &&
+          permissions.inScope(r.municipality)
+      )
       .map((r: SchoolBeneficiaryRow) => ({
         id: r.id,
         bhssKitchenName: r.bhssKitchenName,
@@ -149,7 +160,7 @@ export function SchoolDirectoryBeneficiariesTab({
         total: r.total,
         schoolYear: r.schoolYear,
       }))
-  }, [beneficiaryRows, schoolYear, selectedMunicipality])
+  }, [beneficiaryRows, schoolYear, selectedMunicipality, permissions])
 
   const kitchenNameOptions = useMemo(
     () =>
@@ -189,6 +200,7 @@ export function SchoolDirectoryBeneficiariesTab({
   }
 
   const handleOpenAddSchoolForKitchen = (kitchenName: string) => {
+    if (!canCreate) return
     setIsDialogOpen(true)
     setIsKitchenLocked(true)
     setCurrentKitchenName(kitchenName)
@@ -480,6 +492,7 @@ export function SchoolDirectoryBeneficiariesTab({
     label: string,
     currentValue: string | number
   ) => {
+    if (!canEdit) return
     setEditCell({
       type: "school",
       schoolId,
@@ -492,6 +505,7 @@ export function SchoolDirectoryBeneficiariesTab({
   }
 
   const handleOpenEditKitchen = (kitchenName: string) => {
+    if (!canEdit) return
     setEditCell({
       type: "kitchen",
       kitchenName,
@@ -703,7 +717,7 @@ export function SchoolDirectoryBeneficiariesTab({
               size="sm"
               variant="outline"
               onClick={handleImportExcelClick}
-              disabled={isLoading}
+              disabled={!canCreate || isLoading}
             >
               <Upload className="size-4" />
               Import Excel
@@ -713,7 +727,7 @@ export function SchoolDirectoryBeneficiariesTab({
               size="sm"
               variant="outline"
               onClick={handleExportToExcel}
-              disabled={isLoading}
+              disabled={!permissions.can("schoolDirectory", "export") || isLoading}
             >
               <Download className="size-4" />
               Export to Excel
@@ -721,7 +735,7 @@ export function SchoolDirectoryBeneficiariesTab({
 
             <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
               <DialogTrigger asChild>
-                <Button size="sm" onClick={handleOpenDialog}>
+                <Button size="sm" onClick={handleOpenDialog} disabled={!canCreate}>
                   <Plus className="size-4" />
                   Add School
                 </Button>
@@ -998,11 +1012,21 @@ export function SchoolDirectoryBeneficiariesTab({
                         </TableCell>
                       )}
                       <TableCell className="text-center align-middle">
+                        {permissions.can("audit") ? (
+                          <Button
+                            variant="ghost"
+                            size="icon-sm"
+                            title="History"
+                            onClick={() => setHistorySchool(school)}
+                          >
+                            <History className="size-4" />
+                          </Button>
+                        ) : null}
                         <Button
                           variant="ghost"
                           size="icon-sm"
                           onClick={() => handleOpenEditSchool(school)}
-                          disabled={isLoading}
+                          disabled={!canEdit || isLoading}
                         >
                           <Pencil className="size-4" />
                         </Button>
@@ -1010,7 +1034,7 @@ export function SchoolDirectoryBeneficiariesTab({
                           variant="ghost"
                           size="icon-sm"
                           onClick={() => handleRequestDeleteSchool(school.id)}
-                          disabled={isLoading}
+                          disabled={!canEdit || isLoading}
                         >
                           <Trash2 className="size-4 text-destructive" />
                         </Button>
@@ -1153,6 +1177,13 @@ export function SchoolDirectoryBeneficiariesTab({
             </DialogFooter>
           </DialogContent>
         </Dialog>
+
+        <AuditHistorySheet
+          entityType="school-beneficiary"
+          entityId={historySchool?.id ?? null}
+          title={historySchool ? `${historySchool.schoolName} · S.Y. ${historySchool.schoolYear}` : ""}
+          onOpenChange={(open) => !open && setHistorySchool(null)}
+        />
       </CardContent>
     </Card>
   )
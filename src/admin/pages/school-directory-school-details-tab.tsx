@@ -34,6 +34,7 @@ import { Eye, Plus, Trash2, Upload } from "lucide-react"
 import * as XLSX from "xlsx"
 import { AnimatePresence, motion } from "framer-motion"
 import { toast } from "sonner"
+import { usePermissions } from "@/lib/permissions"
 import {
   type SchoolDetailsRow,
   useSchoolDirectoryStore,
@@ -75,6 +76,9 @@ export function SchoolDirectorySchoolDetailsTab({
   schoolYear: string
 }) {
   const importFileInputRef = useRef<HTMLInputElement | null>(null)
+  const permissions = usePermissions()
+  const canCreate = permissions.can("schoolDirectory", "create")
+  const canEdit = permissions.can("schoolDirectory", "edit")
 
   const detailsRows = useSchoolDirectoryStore((s) => s.detailsRows)
   const isLoading = useSchoolDirectoryStore((s) => s.isLoading)
@@ -164,10 +168,12 @@ export function SchoolDirectorySchoolDetailsTab({
   }, [fetchDetails, schoolYear, effectiveMunicipality])
 
   const currentDetailsData = useMemo(() => {
+    // Rows carry the Dinalupihan area, so scope is checked on the picked municipality
+    if (!permissions.inScope(selectedMunicipality)) return []
     return (detailsRows || []).filter(
       (r) => r.municipality === effectiveMunicipality && r.schoolYear === schoolYear
     )
-  }, [detailsRows, schoolYear, effectiveMunicipality])
+  }, [detailsRows, schoolYear, effectiveMunicipality, selectedMunicipality, permissions])
 
   useEffect(() => {
     const ids = new Set(currentDetailsData.map((r) => r.id))
@@ -278,6 +284,7 @@ export function SchoolDirectorySchoolDetailsTab({
     label: string,
     currentValue: string
   ) => {
+    if (!canEdit) return
     setEditDetailsSchoolId(schoolId)
     setEditDetailsField(field)
     setEditDetailsLabel(label)
@@ -564,7 +571,7 @@ export function SchoolDirectorySchoolDetailsTab({
               size="sm"
               variant="outline"
               onClick={handleImportExcelClick}
-              disabled={isLoading}
+              disabled={!canCreate || isLoading}
             >
               <Upload className="size-4" />
               Import Excel
@@ -613,7 +620,7 @@ export function SchoolDirectorySchoolDetailsTab({
 
             <Dialog open={isDetailsDialogOpen} onOpenChange={setIsDetailsDialogOpen}>
             <DialogTrigger asChild>
-              <Button size="sm">
+              <Button size="sm" disabled={!canCreate}>
                 <Plus className="size-4" />
                 Add School Details
               </Button>
@@ -1169,7 +1176,7 @@ export function SchoolDirectorySchoolDetailsTab({
                         variant="ghost"
                         size="icon-sm"
                         onClick={() => handleRequestDeleteSchoolDetails(school.id)}
-                        disabled={isLoading}
+                        disabled={!canEdit || isLoading}
                       >
                         <Trash2 className="size-4 text-destructive" />
                       </Button>
@@ -9,28 +9,18 @@ import {
   SelectValue,
 } from "@/components/ui/select"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { BATAAN_MUNICIPALITIES } from "@/lib/municipalities"
+import { useMunicipalityParam } from "@/lib/permissions"
 import { SchoolDirectoryBeneficiariesTab } from "./school-directory-beneficiaries-tab"
 import { SchoolDirectorySchoolDetailsTab } from "./school-directory-school-details-tab"
 
-const BATAAN_MUNICIPALITIES = [
-  "Abucay",
-  "Bagac",
-  "Balanga City",
-  "Dinalupihan",
-  "Hermosa",
-  "Limay",
-  "Mariveles",
-  "Morong",
-  "Orani",
-  "Orion",
-  "Pilar",
-  "Samal",
-]
-
 export function SchoolDirectory() {
-  const [selectedMunicipality, setSelectedMunicipality] = useState<string>(
+  const { municipality: scopedMunicipality, locked: isMunicipalityLocked } = useMunicipalityParam()
+  const [pickedMunicipality, setSelectedMunicipality] = useState<string>(
     BATAAN_MUNICIPALITIES[0]
   )
+  // Municipality-scoped roles only ever see their own town
+  const selectedMunicipality = isMunicipalityLocked ? scopedMunicipality || "" : pickedMunicipality
   const [schoolYear, setSchoolYear] = useState("2025-2026")
   const [activeTab, setActiveTab] = useState("beneficiaries")
   return (
@@ -62,10 +52,11 @@ export function SchoolDirectory() {
       </div>
 
       <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-6 gap-2">
-        {BATAAN_MUNICIPALITIES.map((municipality) => (
+        {(isMunicipalityLocked ? [selectedMunicipality] : BATAAN_MUNICIPALITIES).map((municipality) => (
           <Button
             key={municipality}
             variant="outline"
+            disabled={isMunicipalityLocked}
             onClick={() => setSelectedMunicipality(municipality)}
             className={`w-full rounded-2xl border transition-colors ${
               selectedMunicipality === municipality
@@ -2,7 +2,7 @@ import { useEffect, useMemo, useState } from "react"
 import { z } from "zod"
 import { type SubmitHandler, useForm } from "react-hook-form"
 import { zodResolver } from "@hookform/resolvers/zod"
-import { Pencil, Plus, Trash2, Users } from "lucide-react"
+import { History, Pencil, Plus, ShieldCheck, Trash2, Users } from "lucide-react"
 import { toast } from "sonner"
 
 import { Badge } from "@/components/ui/badge"
@@ -55,6 +55,10 @@ import {
   PaginationPrevious,
 } from "@/components/ui/pagination"
 import { Switch } from "@/components/ui/switch"
+import { AuditHistorySheet } from "@/admin/components/audit-history-sheet"
+import { UserImportDialog } from "@/admin/components/user-import-dialog"
+import { ACCESS_ROLES, ROLE_DEFINITIONS, roleOf, usePermissions } from "@/lib/permissions"
+import { isAbortError, twoFactorApi, type AccessRole, type TwoFactorPolicy } from "@/lib/api"
 import { type BhssUser, useUserStore } from "@/stores/user-store"
 import { useSchoolDirectoryStore } from "@/stores/school-directory-store"
 
@@ -101,6 +105,7 @@ const editUserSchema = z.object({
   username: z.string().optional(),
   name: z.string().optional(),
   role: z.enum(["user", "admin"]).optional(),
+  accessRole: z.enum(ACCESS_ROLES as [AccessRole, ...AccessRole[]]).optional(),
   school: z.string().optional(),
   municipality: z.string().optional(),
   province: z.string().optional(),
@@ -132,7 +137,13 @@ export function AdminUsers() {
   const toggleActive = useUserStore((s) => s.toggleActive)
   const updateUser = useUserStore((s) => s.updateUser)
   const resetUserPassword = useUserStore((s) => s.resetUserPassword)
+  const resetUserTwoFactor = useUserStore((s) => s.resetUserTwoFactor)
   const deleteUser = useUserStore((s) => s.deleteUser)
+  const permissions = usePermissions()
+  const canCreate = permissions.can("users", "create")
+  const canEdit = permissions.can("users", "edit")
+  const [historyUser, setHistoryUser] = useState<BhssUser | null>(null)
+  const [twoFactorPolicy, setTwoFactorPolicy] = useState<TwoFactorPolicy | null>(null)
 
   const [isDialogOpen, setIsDialogOpen] = useState(false)
   const [editingUser, setEditingUser] = useState<BhssUser | null>(null)
@@ -179,6 +190,7 @@ export function AdminUsers() {
       username: "",
       name: "",
       role: "user",
+      accessRole: "hla-manager",
       school: "",
       municipality: "",
       province: "Bataan",
@@ -214,12 +226,13 @@ export function AdminUsers() {
 
   const filteredUsers = useMemo(() => {
     return users.filter((u) => {
+      if (!permissions.inScope(u.municipality, u.school)) return false
       if (roleTab !== "all" && u.role !== roleTab) return false
       if (selectedMunicipality !== "all" && u.municipality !== selectedMunicipality) return false
       if (hlaRoleFilterTab !== "all" && u.hlaRoleType !== (hlaRoleFilterTab === "manager" ? "HLA Manager" : "HLA Coordinator")) return false
       return true
     })
-  }, [roleTab, selectedMunicipality, hlaRoleFilterTab, users])
+  }, [roleTab, selectedMunicipality, hlaRoleFilterTab, users, permissions])
 
   const totalPages = useMemo(() => {
     return Math.max(1, Math.ceil(filteredUsers.length / pageSize))
@@ -245,6 +258,18 @@ export function AdminUsers() {
     fetchUsers()
   }, [fetchUsers])
 
+  useEffect(() => {
+    const controller = new AbortController()
+    twoFactorApi
+      .getPolicy(controller.signal)
+      .then(setTwoFactorPolicy)
+      .catch((e) => {
+        if (isAbortError(e)) return
+        toast.error("Failed to load the two-factor policy")
+      })
+    return () => controller.abort()
+  }, [])
+
   const createMunicipality = form.watch("municipality")
   const createSchoolName = form.watch("schoolName")
 
@@ -338,6 +363,7 @@ export function AdminUsers() {
       username: u.username,
       name: u.name || u.hlaManagerName || "",
       role: u.role,
+      accessRole: roleOf(u),
       school: u.school,
       municipality: u.municipality,
       province: u.province,
@@ -371,6 +397,7 @@ export function AdminUsers() {
       maybeSet("username", values.username)
       maybeSet("name", values.name)
       maybeSet("role", values.role)
+      maybeSet("accessRole", values.accessRole)
       maybeSet("school", values.school)
       maybeSet("municipality", values.municipality)
       maybeSet("province", values.province)
@@ -395,6 +422,33 @@ export function AdminUsers() {
     }
   }
 
+  const onEnforceTwoFactorChange = async (enforceForAdmins: boolean) => {
+    const previous = twoFactorPolicy
+    setTwoFactorPolicy({ enforceForAdmins })
+    try {
+      setTwoFactorPolicy(await twoFactorApi.setPolicy({ enforceForAdmins }))
+      toast.success(
+        enforceForAdmins
+          ? "Admin accounts must set up two-factor at their next sign-in"
+          : "Two-factor is now optional for admin accounts"
+      )
+    } catch (e) {
+      setTwoFactorPolicy(previous)
+      toast.error(getErrorMessage(e))
+    }
+  }
+
+  const onResetTwoFactor = async () => {
+    if (!editingUser) return
+    try {
+      await resetUserTwoFactor(editingUser.id)
+      setEditingUser((u) => (u ? { ...u, twoFactorEnabled: false } : u))
+      toast.success("Two-factor authentication reset")
+    } catch (e) {
+      toast.error(getErrorMessage(e))
+    }
+  }
+
   const onPasswordSubmit: SubmitHandler<ResetPasswordFormValues> = async (
     values
   ) => {
@@ -418,276 +472,280 @@ export function AdminUsers() {
           </p>
         </div>
 
-        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-          <DialogTrigger asChild>
-            <Button className="gap-2" disabled={isLoading}>
-              <Plus className="size-4" />
-              Create User
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="sm:max-w-xl">
-            <DialogHeader>
-              <DialogTitle>Create User Account</DialogTitle>
-              <DialogDescription>
-                Enter the required details.
-              </DialogDescription>
-            </DialogHeader>
-
-            <form
-              className="grid gap-4"
-              onSubmit={form.handleSubmit(onSubmit)}
-            >
-              <Tabs value={createDialogTab} onValueChange={(v) => setCreateDialogTab(v as any)}>
-                <TabsList className="w-full">
-                  <TabsTrigger className="flex-1" value="info">
-                    User Info
-                  </TabsTrigger>
-                  <TabsTrigger className="flex-1" value="account">
-                    Account
-                  </TabsTrigger>
-                </TabsList>
+        <div className="flex items-center gap-2">
+          <UserImportDialog users={users} disabled={isLoading || !canCreate} />
+
+          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+            <DialogTrigger asChild>
+              <Button className="gap-2" disabled={isLoading || !canCreate}>
+                <Plus className="size-4" />
+                Create User
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-xl">
+              <DialogHeader>
+                <DialogTitle>Create User Account</DialogTitle>
+                <DialogDescription>
+                  Enter the required details.
+                </DialogDescription>
+              </DialogHeader>
 
-                <TabsContent value="info" className="mt-4">
-                  <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
-                    <div className="grid gap-2">
-                      <Label htmlFor="hlaRoleType">HLA Role Type</Label>
-                      <Select
-                        value={hlaRoleType}
-                        onValueChange={(value) => setHlaRoleType(value as "manager" | "coordinator")}
-                      >
-                        <SelectTrigger id="hlaRoleType">
-                          <SelectValue placeholder="Select HLA Role" />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="manager">HLA Manager</SelectItem>
-                          <SelectItem value="coordinator">HLA Coordinator</SelectItem>
-                        </SelectContent>
-                      </Select>
-                    </div>
+              <form
+                className="grid gap-4"
+                onSubmit={form.handleSubmit(onSubmit)}
+              >
+                <Tabs value={createDialogTab} onValueChange={(v) => setCreateDialogTab(v as any)}>
+                  <TabsList className="w-full">
+                    <TabsTrigger className="flex-1" value="info">
+                      User Info
+                    </TabsTrigger>
+                    <TabsTrigger className="flex-1" value="account">
+                      Account
+                    </TabsTrigger>
+                  </TabsList>
+
+                  <TabsContent value="info" className="mt-4">
+                    <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                      <div className="grid gap-2">
+                        <Label htmlFor="hlaRoleType">HLA Role Type</Label>
+                        <Select
+                          value={hlaRoleType}
+                          onValueChange={(value) => setHlaRoleType(value as "manager" | "coordinator")}
+                        >
+                          <SelectTrigger id="hlaRoleType">
+                            <SelectValue placeholder="Select HLA Role" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="manager">HLA Manager</SelectItem>
+                            <SelectItem value="coordinator">HLA Coordinator</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
 
-                    <div className="grid gap-2">
-                      <Label htmlFor="municipality">Municipality</Label>
-                      <Select
-                        value={form.watch("municipality")}
-                        onValueChange={(value) =>
-                          form.setValue("municipality", value, {
-                            shouldValidate: true,
-                            shouldDirty: true,
-                          })
-                        }
-                      >
-                        <SelectTrigger id="municipality">
-                          <SelectValue placeholder="Select municipality" />
-                        </SelectTrigger>
-                        <SelectContent>
-                          {BATAAN_MUNICIPALITIES.map((m) => (
-                            <SelectItem key={m} value={m}>
-                              {m}
-                            </SelectItem>
-                          ))}
-                        </SelectContent>
-                      </Select>
-                      {form.formState.errors.municipality?.message && (
-                        <p className="text-sm text-destructive">
-                          {form.formState.errors.municipality.message}
-                        </p>
-                      )}
-                    </div>
+                      <div className="grid gap-2">
+                        <Label htmlFor="municipality">Municipality</Label>
+                        <Select
+                          value={form.watch("municipality")}
+                          onValueChange={(value) =>
+                            form.setValue("municipality", value, {
+                              shouldValidate: true,
+                              shouldDirty: true,
+                            })
+                          }
+                        >
+                          <SelectTrigger id="municipality">
+                            <SelectValue placeholder="Select municipality" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {BATAAN_MUNICIPALITIES.map((m) => (
+                              <SelectItem key={m} value={m}>
+                                {m}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {form.formState.errors.municipality?.message && (
+                          <p className="text-sm text-destructive">
+                            {form.formState.errors.municipality.message}
+                          </p>
+                        )}
+                      </div>
 
-                    <div className="grid gap-2">
-                      <Label htmlFor="name">{hlaRoleType === "manager" ? "HLA Manager" : "HLA Coordinator"}</Label>
-                      <Input id="name" {...form.register("name")} />
-                      {form.formState.errors.name?.message && (
-                        <p className="text-sm text-destructive">{form.formState.errors.name.message as any}</p>
-                      )}
-                    </div>
+                      <div className="grid gap-2">
+                        <Label htmlFor="name">{hlaRoleType === "manager" ? "HLA Manager" : "HLA Coordinator"}</Label>
+                        <Input id="name" {...form.register("name")} />
+                        {form.formState.errors.name?.message && (
+                          <p className="text-sm text-destructive">{form.formState.errors.name.message as any}</p>
+                        )}
+                      </div>
 
-                    <div className="grid gap-2">
-                      <Label htmlFor="schoolName">School Name</Label>
-                      <Select
-                        value={createSchoolName}
-                        onValueChange={(value) => {
-                          form.setValue("schoolName", value, {
-                            shouldValidate: true,
-                            shouldDirty: true,
-                          })
-
-                          const m = String(form.watch("municipality") || "").trim()
-                          const row = (detailsRows || []).find(
-                            (r) => r.municipality === m && r.schoolYear === schoolYear && r.completeName === value
-                          )
-
-                          if (row) {
-                            const maybeSet = (key: keyof CreateUserFormValues, v: string) => {
-                              const dirty = !!(form.formState.dirtyFields as any)?.[key]
-                              if (dirty) return
-                              form.setValue(key as any, v, { shouldValidate: true })
+                      <div className="grid gap-2">
+                        <Label htmlFor="schoolName">School Name</Label>
+                        <Select
+                          value={createSchoolName}
+                          onValueChange={(value) => {
+                            form.setValue("schoolName", value, {
+                              shouldValidate: true,
+                              shouldDirty: true,
+                            })
+
+                            const m = String(form.watch("municipality") || "").trim()
+                            const row = (detailsRows || []).find(
+                              (r) => r.municipality === m && r.schoolYear === schoolYear && r.completeName === value
+                            )
+
+                            if (row) {
+                              const maybeSet = (key: keyof CreateUserFormValues, v: string) => {
+                                const dirty = !!(form.formState.dirtyFields as any)?.[key]
+                                if (dirty) return
+                                form.setValue(key as any, v, { shouldValidate: true })
+                              }
+
+                              if (hlaRoleType === "manager") {
+                                maybeSet("name", String(row.hlaManagerName || "").trim())
+                                maybeSet("contactNumber", String(row.hlaManagerContact || "").trim())
+                                maybeSet("email", String(row.hlaManagerFacebook || "").trim())
+                              } else {
+                                maybeSet("name", String(row.hlaCoordinatorName || "").trim())
+                                maybeSet("contactNumber", String(row.hlaCoordinatorContact || "").trim())
+                                maybeSet("email", String(row.hlaCoordinatorFacebook || "").trim())
+                              }
                             }
+                          }}
+                          disabled={!form.watch("municipality")}
+                        >
+                          <SelectTrigger id="schoolName">
+                            <SelectValue placeholder={form.watch("municipality") ? "Select school" : "Select municipality first"} />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {schoolOptions.map((s) => (
+                              <SelectItem key={s.id} value={s.label}>
+                                {s.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {form.formState.errors.schoolName?.message && (
+                          <p className="text-sm text-destructive">
+                            {form.formState.errors.schoolName.message as any}
+                          </p>
+                        )}
+                      </div>
 
-                            if (hlaRoleType === "manager") {
-                              maybeSet("name", String(row.hlaManagerName || "").trim())
-                              maybeSet("contactNumber", String(row.hlaManagerContact || "").trim())
-                              maybeSet("email", String(row.hlaManagerFacebook || "").trim())
-                            } else {
-                              maybeSet("name", String(row.hlaCoordinatorName || "").trim())
-                              maybeSet("contactNumber", String(row.hlaCoordinatorContact || "").trim())
-                              maybeSet("email", String(row.hlaCoordinatorFacebook || "").trim())
-                            }
-                          }
-                        }}
-                        disabled={!form.watch("municipality")}
-                      >
-                        <SelectTrigger id="schoolName">
-                          <SelectValue placeholder={form.watch("municipality") ? "Select school" : "Select municipality first"} />
-                        </SelectTrigger>
-                        <SelectContent>
-                          {schoolOptions.map((s) => (
-                            <SelectItem key={s.id} value={s.label}>
-                              {s.label}
-                            </SelectItem>
-                          ))}
-                        </SelectContent>
-                      </Select>
-                      {form.formState.errors.schoolName?.message && (
-                        <p className="text-sm text-destructive">
-                          {form.formState.errors.schoolName.message as any}
-                        </p>
-                      )}
-                    </div>
+                      <div className="grid gap-2">
+                        <Label htmlFor="email">Email Address/Facebook</Label>
+                        <Input id="email" type="text" {...form.register("email")} />
+                        {form.formState.errors.email?.message && (
+                          <p className="text-sm text-destructive">
+                            {form.formState.errors.email.message}
+                          </p>
+                        )}
+                      </div>
 
-                    <div className="grid gap-2">
-                      <Label htmlFor="email">Email Address/Facebook</Label>
-                      <Input id="email" type="text" {...form.register("email")} />
-                      {form.formState.errors.email?.message && (
-                        <p className="text-sm text-destructive">
-                          {form.formState.errors.email.message}
-                        </p>
-                      )}
-                    </div>
+                      <div className="grid gap-2">
+                        <Label htmlFor="contactNumber">Contact Number</Label>
+                        <Input id="contactNumber" {...form.register("contactNumber")} />
+                        {form.formState.errors.contactNumber?.message && (
+                          <p className="text-sm text-destructive">
+                            {form.formState.errors.contactNumber.message as any}
+                          </p>
+                        )}
+                      </div>
 
-                    <div className="grid gap-2">
-                      <Label htmlFor="contactNumber">Contact Number</Label>
-                      <Input id="contactNumber" {...form.register("contactNumber")} />
-                      {form.formState.errors.contactNumber?.message && (
-                        <p className="text-sm text-destructive">
-                          {form.formState.errors.contactNumber.message as any}
-                        </p>
-                      )}
+                      <div className="grid gap-2 sm:col-span-2">
+                        <Label htmlFor="schoolAddress">School Address</Label>
+                        <Input id="schoolAddress" {...form.register("schoolAddress")} />
+                        {form.formState.errors.schoolAddress?.message && (
+                          <p className="text-sm text-destructive">
+                            {form.formState.errors.schoolAddress.message as any}
+                          </p>
+                        )}
+                      </div>
                     </div>
 
-                    <div className="grid gap-2 sm:col-span-2">
-                      <Label htmlFor="schoolAddress">School Address</Label>
-                      <Input id="schoolAddress" {...form.register("schoolAddress")} />
-                      {form.formState.errors.schoolAddress?.message && (
-                        <p className="text-sm text-destructive">
-                          {form.formState.errors.schoolAddress.message as any}
-                        </p>
-                      )}
-                    </div>
-                  </div>
+                    <DialogFooter className="mt-4">
+                      <Button
+                        type="button"
+                        variant="outline"
+                        onClick={() => {
+                          setIsDialogOpen(false)
+                          setCreateDialogTab("info")
+                        }}
+                      >
+                        Cancel
+                      </Button>
+                      <Button
+                        type="button"
+                        disabled={isLoading}
+                        onClick={async () => {
+                          const ok = await form.trigger([
+                            "contactNumber",
+                            "schoolAddress",
+                            "municipality",
+                            "schoolName",
+                            "name",
+                          ] as any)
+                          if (ok) setCreateDialogTab("account")
+                        }}
+                      >
+                        Next
+                      </Button>
+                    </DialogFooter>
+                  </TabsContent>
+
+                  <TabsContent value="account" className="mt-4">
+                    <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                      <div className="grid gap-2">
+                        <Label htmlFor="username">Username</Label>
+                        <Input id="username" {...form.register("username")} />
+                        {form.formState.errors.username?.message && (
+                          <p className="text-sm text-destructive">
+                            {form.formState.errors.username.message}
+                          </p>
+                        )}
+                      </div>
 
-                  <DialogFooter className="mt-4">
-                    <Button
-                      type="button"
-                      variant="outline"
-                      onClick={() => {
-                        setIsDialogOpen(false)
-                        setCreateDialogTab("info")
-                      }}
-                    >
-                      Cancel
-                    </Button>
-                    <Button
-                      type="button"
-                      disabled={isLoading}
-                      onClick={async () => {
-                        const ok = await form.trigger([
-                          "contactNumber",
-                          "schoolAddress",
-                          "municipality",
-                          "schoolName",
-                          "name",
-                        ] as any)
-                        if (ok) setCreateDialogTab("account")
-                      }}
-                    >
-                      Next
-                    </Button>
-                  </DialogFooter>
-                </TabsContent>
-
-                <TabsContent value="account" className="mt-4">
-                  <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
-                    <div className="grid gap-2">
-                      <Label htmlFor="username">Username</Label>
-                      <Input id="username" {...form.register("username")} />
-                      {form.formState.errors.username?.message && (
-                        <p className="text-sm text-destructive">
-                          {form.formState.errors.username.message}
-                        </p>
-                      )}
-                    </div>
+                      <div />
 
-                    <div />
-
-                    <div className="grid gap-2">
-                      <Label htmlFor="password">Password</Label>
-                      <Input
-                        id="password"
-                        type="password"
-                        {...form.register("password")}
-                      />
-                      {form.formState.errors.password?.message && (
-                        <p className="text-sm text-destructive">
-                          {form.formState.errors.password.message}
-                        </p>
-                      )}
-                    </div>
+                      <div className="grid gap-2">
+                        <Label htmlFor="password">Password</Label>
+                        <Input
+                          id="password"
+                          type="password"
+                          {...form.register("password")}
+                        />
+                        {form.formState.errors.password?.message && (
+                          <p className="text-sm text-destructive">
+                            {form.formState.errors.password.message}
+                          </p>
+                        )}
+                      </div>
 
-                    <div className="grid gap-2">
-                      <Label htmlFor="confirmPassword">Confirm Password</Label>
-                      <Input
-                        id="confirmPassword"
-                        type="password"
-                        {...form.register("confirmPassword")}
-                      />
-                      {form.formState.errors.confirmPassword?.message && (
-                        <p className="text-sm text-destructive">
-                          {form.formState.errors.confirmPassword.message}
-                        </p>
-                      )}
+                      <div className="grid gap-2">
+                        <Label htmlFor="confirmPassword">Confirm Password</Label>
+                        <Input
+                          id="confirmPassword"
+                          type="password"
+                          {...form.register("confirmPassword")}
+                        />
+                        {form.formState.errors.confirmPassword?.message && (
+                          <p className="text-sm text-destructive">
+                            {form.formState.errors.confirmPassword.message}
+                          </p>
+                        )}
+                      </div>
                     </div>
-                  </div>
 
-                  {error && (
-                    <div className="rounded-md border border-destructive/30 bg-destructive/5 px-3 py-2 text-sm text-destructive">
-                      {error}
-                    </div>
-                  )}
+                    {error && (
+                      <div className="rounded-md border border-destructive/30 bg-destructive/5 px-3 py-2 text-sm text-destructive">
+                        {error}
+                      </div>
+                    )}
 
-                  <DialogFooter className="mt-4">
-                    <Button
-                      type="button"
-                      variant="outline"
-                      onClick={() => setCreateDialogTab("info")}
-                    >
-                      Back
-                    </Button>
-                    <Button type="submit" disabled={isLoading}>
-                      Create Account
-                    </Button>
-                  </DialogFooter>
-                </TabsContent>
-              </Tabs>
+                    <DialogFooter className="mt-4">
+                      <Button
+                        type="button"
+                        variant="outline"
+                        onClick={() => setCreateDialogTab("info")}
+                      >
+                        Back
+                      </Button>
+                      <Button type="submit" disabled={isLoading}>
+                        Create Account
+                      </Button>
+                    </DialogFooter>
+                  </TabsContent>
+                </Tabs>
 
-              {error && (
-                <div className="rounded-md border border-destructive/30 bg-destructive/5 px-3 py-2 text-sm text-destructive">
-                  {error}
-                </div>
-              )}
-            </form>
-          </DialogContent>
-        </Dialog>
+                {error && (
+                  <div className="rounded-md border border-destructive/30 bg-destructive/5 px-3 py-2 text-sm text-destructive">
+                    {error}
+                  </div>
+                )}
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
       {error && (
@@ -747,6 +805,15 @@ export function AdminUsers() {
               Manage registered accounts.
             </p>
           </div>
+          <label className="flex items-center gap-2 text-sm text-muted-foreground">
+            <ShieldCheck className="size-4" />
+            Require two-factor for admin accounts
+            <Switch
+              checked={!!twoFactorPolicy?.enforceForAdmins}
+              disabled={!twoFactorPolicy || !canEdit}
+              onCheckedChange={onEnforceTwoFactorChange}
+            />
+          </label>
         </CardHeader>
         <CardContent>
           <div className="mb-4 flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
@@ -836,8 +903,8 @@ export function AdminUsers() {
                     <TableCell className="max-w-[220px] truncate">{u.email}</TableCell>
                     <TableCell>{u.username}</TableCell>
                     <TableCell>
-                      <Badge variant={u.role === "admin" ? "default" : "secondary"}>
-                        {u.role}
+                      <Badge variant={ROLE_DEFINITIONS[roleOf(u)].portal === "admin" ? "default" : "secondary"}>
+                        {ROLE_DEFINITIONS[roleOf(u)].label}
                       </Badge>
                     </TableCell>
                     <TableCell>
@@ -852,14 +919,25 @@ export function AdminUsers() {
                       <div className="flex justify-end">
                         <Switch
                           checked={u.isActive}
-                          disabled={isLoading}
+                          disabled={isLoading || !canEdit}
                           onCheckedChange={(checked) => toggleActive(u.id, checked)}
                         />
                       </div>
                     </TableCell>
                     <TableCell className="text-right">
                       <div className="flex justify-end">
-                        <div className="flex items-center justify-end gap-1">
+                        {permissions.can("audit") ? (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="rounded-lg"
+                            title="History"
+                            onClick={() => setHistoryUser(u)}
+                          >
+                            <History className="size-4" />
+                          </Button>
+                        ) : null}
+                        <div className={canEdit ? "flex items-center justify-end gap-1" : "hidden"}>
                           <Button
                             variant="ghost"
                             size="icon"
@@ -990,6 +1068,7 @@ export function AdminUsers() {
             <TabsList>
               <TabsTrigger value="details">Details</TabsTrigger>
               <TabsTrigger value="password">Change Password</TabsTrigger>
+              <TabsTrigger value="two-factor">Two-Factor</TabsTrigger>
             </TabsList>
 
             <TabsContent value="details">
@@ -1074,6 +1153,33 @@ export function AdminUsers() {
                     )}
                   </div>
 
+                  <div className="grid gap-2">
+                    <Label htmlFor="edit-access-role">Access Role</Label>
+                    <Select
+                      value={editForm.watch("accessRole")}
+                      onValueChange={(value) =>
+                        editForm.setValue("accessRole", value as AccessRole, {
+                          shouldValidate: true,
+                          shouldDirty: true,
+                        })
+                      }
+                    >
+                      <SelectTrigger id="edit-access-role">
+                        <SelectValue placeholder="Select access role" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ACCESS_ROLES.map((r) => (
+                          <SelectItem key={r} value={r}>
+                            {ROLE_DEFINITIONS[r].label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-muted-foreground">
+                      {ROLE_DEFINITIONS[editForm.watch("accessRole") || "hla-manager"].description}
+                    </p>
+                  </div>
+
                   <div className="grid gap-2">
                     <Label htmlFor="edit-school">School</Label>
                     <Input
@@ -1229,9 +1335,61 @@ export function AdminUsers() {
                 </DialogFooter>
               </form>
             </TabsContent>
+
+            <TabsContent value="two-factor">
+              <div className="grid gap-4">
+                <div className="flex items-center justify-between gap-3 rounded-md border px-3 py-2">
+                  <div>
+                    <div className="text-sm font-medium">Authenticator app</div>
+                    <p className="text-sm text-muted-foreground">
+                      {editingUser?.twoFactorEnabled
+                        ? "Sign-in asks for a one-time code."
+                        : "Not set up for this account."}
+                    </p>
+                  </div>
+                  <Badge variant={editingUser?.twoFactorEnabled ? "default" : "outline"}>
+                    {editingUser?.twoFactorEnabled ? "On" : "Off"}
+                  </Badge>
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  Reset two-factor when the user has lost their phone and backup codes. They can sign in with their
+                  password alone, and must set it up again if their role requires it.
+                </p>
+
+                <DialogFooter>
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button type="button" variant="destructive" disabled={isLoading || !editingUser?.twoFactorEnabled}>
+                        Reset Two-Factor
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Reset Two-Factor</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          This removes the authenticator app and backup codes from the account. Only do this after
+                          confirming the request came from the account owner.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction onClick={onResetTwoFactor}>Reset</AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </DialogFooter>
+              </div>
+            </TabsContent>
           </Tabs>
         </DialogContent>
       </Dialog>
+
+      <AuditHistorySheet
+        entityType="user"
+        entityId={historyUser?.id ?? null}
+        title={historyUser ? `${historyUser.name} (@${historyUser.username})` : ""}
+        onOpenChange={(open) => !open && setHistoryUser(null)}
+      />
     </div>
   )
 }
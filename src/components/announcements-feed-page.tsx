@@ -15,58 +15,18 @@ import {
 import { Input } from "@/components/ui/input"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Textarea } from "@/components/ui/textarea"
-
-type AuthState = {
-  token: string
-  user: {
-    id: string
-    username: string
-    email: string
-    name: string
-    role: string
-  }
-}
-
-type AnnouncementPriority = "Normal" | "Important" | "Urgent"
-type AnnouncementAudience = "All" | "Users"
-
-type AnnouncementListResponse = {
-  announcements?: Array<{
-    _id?: string
-    id?: string
-    title?: string
-    message?: string
-    priority?: string
-    audience?: string
-    createdAt?: string
-    attachments?: Array<{
-      filename?: string
-      originalName?: string
-      url?: string
-      size?: number
-      mimeType?: string
-    }>
-  }>
-}
-
-type AnnouncementDetailsResponse = {
-  announcement?: {
-    _id?: string
-    id?: string
-    title?: string
-    message?: string
-    priority?: string
-    audience?: string
-    createdAt?: string
-    attachments?: Array<{
-      filename?: string
-      originalName?: string
-      url?: string
-      size?: number
-      mimeType?: string
-    }>
-  }
-}
+import {
+  announcementsApi,
+  eventsApi,
+  getApiBaseUrl,
+  resolveApiUrl,
+  type AnnouncementAudience,
+  type AnnouncementDto,
+  type AnnouncementPriority,
+  type CalendarEventDto,
+} from "@/lib/api"
+import { usePermissions } from "@/lib/permissions"
+import { setSearchParams, useSearchParam } from "@/lib/router"
 
 type AnnouncementCreatedPayload = {
   announcement?: {
@@ -119,77 +79,6 @@ type FeedItem = {
   createdAt: number
 }
 
-type EventsListResponse = {
-  events?: Array<{
-    _id?: string
-    id?: string
-    title?: string
-    dateKey?: string
-    startTime?: string
-    endTime?: string
-    status?: string
-    cancelReason?: string
-    createdAt?: string
-  }>
-}
-
-type EventDetailsResponse = {
-  event?: {
-    _id?: string
-    id?: string
-    title?: string
-    description?: string
-    dateKey?: string
-    startTime?: string
-    endTime?: string
-    status?: string
-    cancelReason?: string
-    attachment?: {
-      filename?: string
-      originalName?: string
-      url?: string
-      size?: number
-      mimeType?: string
-    }
-  }
-}
-
-function getApiBaseUrl() {
-  const envAny = (import.meta as any)?.env as any
-  const fromEnv = (envAny?.VITE_API_BASE_URL || envAny?.VITE_API_URL) as string | undefined
-  return (fromEnv || "http://localhost:8000").replace(/\/+$/, "")
-}
-
-function getAuth(): AuthState | null {
-  try {
-    const raw = localStorage.getItem("bhss_auth")
-    if (!raw) return null
-    return JSON.parse(raw) as AuthState
-  } catch {
-    return null
-  }
-}
-
-async function apiFetch(path: string, init?: RequestInit) {
-  const auth = getAuth()
-  const token = auth?.token
-  if (!token) throw new Error("Not authenticated")
-
-  const res = await fetch(`${getApiBaseUrl()}${path}`, {
-    ...init,
-    headers: {
-      ...(init?.headers || {}),
-      Authorization: `Bearer ${token}`,
-    },
-  })
-
-  const data = await res.json().catch(() => ({}))
-  if (!res.ok) {
-    throw new Error((data as any)?.message || "Request failed")
-  }
-  return data
-}
-
 function safeFormatDateKey(dateKey?: string) {
   const raw = String(dateKey || "").trim()
   if (!raw) return ""
@@ -227,21 +116,25 @@ function formatTimeRangeAmPm(start?: string, end?: string) {
 }
 
 export function AnnouncementsFeedPage({ mode = "user" }: { mode?: "user" | "admin" }) {
+  const canCreate = usePermissions().can("announcements", "create")
   const [activeTab, setActiveTab] = useState<"all" | "announcements" | "events">("all")
   const [isLoading, setIsLoading] = useState(true)
   const [events, setEvents] = useState<FeedItem[]>([])
   const [announcements, setAnnouncements] = useState<FeedItem[]>([])
   const [detailsOpen, setDetailsOpen] = useState(false)
   const [selected, setSelected] = useState<FeedItem | null>(null)
-  const [selectedEventDetails, setSelectedEventDetails] = useState<EventDetailsResponse["event"] | null>(null)
+  const [selectedEventDetails, setSelectedEventDetails] = useState<CalendarEventDto | null>(null)
   const [selectedAnnouncementDetails, setSelectedAnnouncementDetails] =
-    useState<AnnouncementDetailsResponse["announcement"] | null>(null)
+    useState<AnnouncementDto | null>(null)
   const [isDetailsLoading, setIsDetailsLoading] = useState(false)
 
   const [pendingOpen, setPendingOpen] = useState<
     | { kind: "announcement" | "event"; sourceId: string }
     | null
   >(null)
+  const [kindParam] = useSearchParam("kind")
+  const [idParam] = useSearchParam("id")
+  const handledIdRef = useRef<string | null>(null)
 
   const [createOpen, setCreateOpen] = useState(false)
   const [createTitle, setCreateTitle] = useState("")
@@ -254,31 +147,28 @@ export function AnnouncementsFeedPage({ mode = "user" }: { mode?: "user" | "admi
 
   const PAGE_SIZE = 10
 
+  // Deep links (?kind=announcement|event&id=…) open that item once the feed
+  // has loaded; dropping the id (back button) closes it again.
   useEffect(() => {
-    try {
-      const raw = localStorage.getItem("bhss_notif_intent")
-      if (!raw) return
-      const parsed = JSON.parse(raw) as any
-      if (!parsed?.kind || !parsed?.sourceId) return
-      localStorage.removeItem("bhss_notif_intent")
-      const kind = String(parsed.kind)
-      const sourceId = String(parsed.sourceId)
-      if (kind !== "announcement" && kind !== "event") return
-      if (!sourceId.trim()) return
-      setPendingOpen({ kind: kind as any, sourceId })
-      if (kind === "announcement") setActiveTab("announcements")
-      if (kind === "event") setActiveTab("events")
-    } catch {
-      // ignore
+    const sourceId = String(idParam || "").trim()
+    if (!sourceId) {
+      handledIdRef.current = null
+      setDetailsOpen(false)
+      return
     }
-  }, [])
+    if (kindParam !== "announcement" && kindParam !== "event") return
+    if (handledIdRef.current === sourceId) return
+    handledIdRef.current = sourceId
+    setPendingOpen({ kind: kindParam, sourceId })
+    setActiveTab(kindParam === "announcement" ? "announcements" : "events")
+  }, [idParam, kindParam])
 
   const [page, setPage] = useState(1)
 
   const loadAll = async () => {
     const [eventsRes, announcementsRes] = await Promise.all([
-      apiFetch("/api/events") as Promise<EventsListResponse>,
-      apiFetch("/api/announcements") as Promise<AnnouncementListResponse>,
+      eventsApi.list(),
+      announcementsApi.list(),
     ])
 
     const eventsList = Array.isArray(eventsRes?.events) ? eventsRes.events : []
@@ -418,6 +308,11 @@ export function AnnouncementsFeedPage({ mode = "user" }: { mode?: "user" | "admi
   const showingTo = visible.length ? Math.min(page * PAGE_SIZE, visible.length) : 0
 
   const openDetails = async (it: FeedItem) => {
+    const linkId = String(it.sourceId || "").trim()
+    if (linkId && linkId !== handledIdRef.current) {
+      handledIdRef.current = linkId
+      setSearchParams({ kind: it.kind, id: linkId })
+    }
     setSelected(it)
     setDetailsOpen(true)
     setSelectedEventDetails(null)
@@ -427,11 +322,11 @@ export function AnnouncementsFeedPage({ mode = "user" }: { mode?: "user" | "admi
       const sourceId = String(it.sourceId || "").trim()
       if (!sourceId) return
       if (it.kind === "event") {
-        const res = (await apiFetch(`/api/events/${encodeURIComponent(sourceId)}`)) as EventDetailsResponse
+        const res = await eventsApi.get(sourceId)
         setSelectedEventDetails(res?.event || null)
       }
       if (it.kind === "announcement") {
-        const res = (await apiFetch(`/api/announcements/${encodeURIComponent(sourceId)}`)) as AnnouncementDetailsResponse
+        const res = await announcementsApi.get(sourceId)
         setSelectedAnnouncementDetails(res?.announcement || null)
       }
     } catch {
@@ -445,13 +340,23 @@ export function AnnouncementsFeedPage({ mode = "user" }: { mode?: "user" | "admi
   useEffect(() => {
     if (!pendingOpen) return
     if (isLoading) return
-    if (pendingOpen.kind !== "announcement") return
+    const { kind } = pendingOpen
     const sourceId = String(pendingOpen.sourceId || "").trim()
     if (!sourceId) { setPendingOpen(null); return }
-    const match = announcements.find((x) => x.kind === "announcement" && String(x.sourceId) === sourceId)
-    const it: FeedItem = match || ({ id: `announcement-${sourceId}`, kind: "announcement", sourceId, title: "Announcement", subtitle: "", createdAt: Date.now() } as FeedItem)
+    const list = kind === "announcement" ? announcements : events
+    const match = list.find((x) => String(x.sourceId) === sourceId)
+    const it: FeedItem = match || ({ id: `${kind}-${sourceId}`, kind, sourceId, title: kind === "announcement" ? "Announcement" : "Event", subtitle: "", createdAt: Date.now() } as FeedItem)
     openDetails(it).finally(() => { setPendingOpen(null) })
-  }, [announcements, isLoading, pendingOpen])
+  }, [announcements, events, isLoading, pendingOpen])
+
+  const closeDetails = () => {
+    setDetailsOpen(false)
+    setSelected(null)
+    setSelectedEventDetails(null)
+    setSelectedAnnouncementDetails(null)
+    setIsDetailsLoading(false)
+    setSearchParams({ kind: null, id: null })
+  }
 
   const createAnnouncement = async () => {
     const title = createTitle.trim()
@@ -460,13 +365,13 @@ export function AnnouncementsFeedPage({ mode = "user" }: { mode?: "user" | "admi
     if (!message) { toast.error("Message is required"); return }
     setIsCreating(true)
     try {
-      const fd = new FormData()
-      fd.append("title", title)
-      fd.append("message", message)
-      fd.append("priority", createPriority)
-      fd.append("audience", createAudience)
-      for (const f of createFiles) fd.append("attachments", f)
-      await apiFetch("/api/admin/announcements", { method: "POST", body: fd })
+      await announcementsApi.create({
+        title,
+        message,
+        priority: createPriority,
+        audience: createAudience,
+        attachments: createFiles,
+      })
       toast.success("Announcement created")
       setCreateOpen(false)
       setCreateTitle("")
@@ -509,7 +414,7 @@ export function AnnouncementsFeedPage({ mode = "user" }: { mode?: "user" | "admi
         </div>
 
         <div className="flex items-center gap-2">
-          {mode === "admin" && (
+          {mode === "admin" && canCreate && (
             <button
               type="button"
               onClick={() => setCreateOpen(true)}
@@ -737,13 +642,8 @@ export function AnnouncementsFeedPage({ mode = "user" }: { mode?: "user" | "admi
       <Dialog
         open={detailsOpen}
         onOpenChange={(v) => {
-          setDetailsOpen(v)
-          if (!v) {
-            setSelected(null)
-            setSelectedEventDetails(null)
-            setSelectedAnnouncementDetails(null)
-            setIsDetailsLoading(false)
-          }
+          if (v) setDetailsOpen(true)
+          else closeDetails()
         }}
       >
         <DialogContent className="rounded-2xl border border-gray-100 bg-white p-0 w-[calc(100vw-2rem)] max-w-lg max-h-[85vh] overflow-hidden shadow-xl">
@@ -810,7 +710,7 @@ export function AnnouncementsFeedPage({ mode = "user" }: { mode?: "user" | "admi
                     <div className="mt-2 text-sm">
                       {selectedEventDetails?.attachment?.url ? (
                         <a
-                          href={`${getApiBaseUrl()}${String(selectedEventDetails.attachment.url)}`}
+                          href={resolveApiUrl(String(selectedEventDetails.attachment.url))}
                           target="_blank"
                           rel="noreferrer"
                           className="font-semibold text-green-600 hover:text-green-700 underline underline-offset-4"
@@ -873,7 +773,7 @@ export function AnnouncementsFeedPage({ mode = "user" }: { mode?: "user" | "admi
                         <div className="grid grid-cols-2 gap-2 sm:grid-cols-3">
                           {selectedAnnouncementDetails!.attachments!.map((a, idx) => {
                             const url = String(a?.url || "")
-                            const abs = url ? `${getApiBaseUrl()}${url}` : ""
+                            const abs = resolveApiUrl(url)
                             const isImage = String(a?.mimeType || "").startsWith("image/")
                             const name = String(a?.originalName || a?.filename || `file-${idx + 1}`)
                             return (
@@ -924,7 +824,7 @@ export function AnnouncementsFeedPage({ mode = "user" }: { mode?: "user" | "admi
             <div className="border-t border-gray-100 bg-white px-6 py-4">
               <button
                 type="button"
-                onClick={() => setDetailsOpen(false)}
+                onClick={closeDetails}
                 className="inline-flex items-center rounded-xl border border-gray-200 bg-white px-4 py-2 text-sm font-medium text-gray-600 transition-all hover:border-gray-300 hover:text-gray-800 hover:shadow-sm"
               >
                 Close
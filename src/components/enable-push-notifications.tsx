@@ -2,42 +2,7 @@ import { useCallback, useEffect, useMemo, useState } from "react"
 import { toast } from "sonner"
 
 import { Button } from "@/components/ui/button"
-
-function getApiBaseUrl() {
-  const envAny = (import.meta as any)?.env as any
-  const fromEnv = (envAny?.VITE_API_BASE_URL || envAny?.VITE_API_URL) as string | undefined
-  return (fromEnv || "http://localhost:8000").replace(/\/+$/, "")
-}
-
-function getAuthToken(): string | null {
-  try {
-    const raw = localStorage.getItem("bhss_auth")
-    if (!raw) return null
-    const parsed = JSON.parse(raw) as { token?: string }
-    return parsed?.token || null
-  } catch {
-    return null
-  }
-}
-
-async function apiFetch(path: string, init?: RequestInit) {
-  const token = getAuthToken()
-  if (!token) throw new Error("Not authenticated")
-
-  const url = `${getApiBaseUrl()}${path}`
-  const res = await fetch(url, {
-    ...init,
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${token}`,
-      ...(init?.headers || {}),
-    },
-  })
-
-  const data = await res.json().catch(() => ({}))
-  if (!res.ok) throw new Error((data as any)?.message || `Request failed (${res.status}) ${url}`)
-  return data
-}
+import { getApiBaseUrl, pushApi } from "@/lib/api"
 
 function urlBase64ToUint8Array(base64String: string) {
   const padding = "=".repeat((4 - (base64String.length % 4)) % 4)
@@ -115,7 +80,7 @@ export function EnablePushNotifications() {
         // ignore
       }
 
-      const { publicKey } = await apiFetch("/api/push/vapid-public-key")
+      const { publicKey } = await pushApi.vapidPublicKey()
       try {
         console.log("[push] vapid public key fetched", {
           present: Boolean(publicKey),
@@ -208,10 +173,7 @@ export function EnablePushNotifications() {
         // ignore
       }
 
-      await apiFetch("/api/push/subscribe", {
-        method: "POST",
-        body: JSON.stringify(sub),
-      })
+      await pushApi.subscribe(sub)
 
       try {
         console.log("[push] subscribe saved")
@@ -0,0 +1,173 @@
+import { useEffect, useRef, useState } from "react"
+import type { PointerEvent } from "react"
+import { Eraser } from "lucide-react"
+import { toast } from "sonner"
+
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+
+const CANVAS_WIDTH = 600
+const CANVAS_HEIGHT = 220
+
+function fillBackground(ctx: CanvasRenderingContext2D) {
+  ctx.fillStyle = "#ffffff"
+  ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT)
+}
+
+/**
+ * Captures a handwritten signature and the signer's name. Mount it only while
+ * signing so every capture starts blank.
+ */
+export function SignatureDialog({
+  title,
+  description,
+  defaultName = "",
+  onCancel,
+  onSave,
+}: {
+  title: string
+  description?: string
+  defaultName?: string
+  onCancel: () => void
+  onSave: (signature: { signerName: string; signedAt: string; image: File }) => void
+}) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null)
+  const lastPoint = useRef<{ x: number; y: number } | null>(null)
+  const [signerName, setSignerName] = useState(defaultName)
+  const [hasInk, setHasInk] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext("2d")
+    if (ctx) fillBackground(ctx)
+  }, [])
+
+  const pointFrom = (e: PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect()
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * CANVAS_WIDTH,
+      y: ((e.clientY - rect.top) / rect.height) * CANVAS_HEIGHT,
+    }
+  }
+
+  const drawTo = (point: { x: number; y: number }) => {
+    const ctx = canvasRef.current?.getContext("2d")
+    const from = lastPoint.current
+    if (!ctx || !from) return
+    ctx.strokeStyle = "#0f172a"
+    ctx.lineWidth = 2.5
+    ctx.lineCap = "round"
+    ctx.lineJoin = "round"
+    ctx.beginPath()
+    ctx.moveTo(from.x, from.y)
+    ctx.lineTo(point.x, point.y)
+    ctx.stroke()
+    lastPoint.current = point
+  }
+
+  const clear = () => {
+    const ctx = canvasRef.current?.getContext("2d")
+    if (ctx) fillBackground(ctx)
+    setHasInk(false)
+  }
+
+  const save = () => {
+    const name = signerName.trim()
+    if (!name) {
+      toast.error("Please enter the signer's name")
+      return
+    }
+    if (!hasInk || !canvasRef.current) {
+      toast.error("Please sign in the box")
+      return
+    }
+    setIsSaving(true)
+    canvasRef.current.toBlob((blob) => {
+      setIsSaving(false)
+      if (!blob) {
+        toast.error("Failed to capture signature")
+        return
+      }
+      const signedAt = new Date().toISOString()
+      onSave({ signerName: name, signedAt, image: new File([blob], "signature.png", { type: "image/png" }) })
+    }, "image/png")
+  }
+
+  return (
+    <Dialog open onOpenChange={(open) => (!open ? onCancel() : undefined)}>
+      <DialogContent className="w-[calc(100vw-2rem)] max-w-lg rounded-2xl">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          {description ? <DialogDescription>{description}</DialogDescription> : null}
+        </DialogHeader>
+
+        <div className="grid gap-3">
+          <div className="grid gap-2">
+            <Label className="text-xs text-muted-foreground">Full name</Label>
+            <Input
+              value={signerName}
+              onChange={(e) => setSignerName(e.target.value)}
+              placeholder="Name of the person signing"
+              className="rounded-xl"
+            />
+          </div>
+
+          <div className="grid gap-2">
+            <div className="flex items-center justify-between">
+              <Label className="text-xs text-muted-foreground">Signature</Label>
+              <Button type="button" size="sm" variant="ghost" className="h-7 rounded-xl px-2" onClick={clear}>
+                <Eraser className="size-4" />
+                Clear
+              </Button>
+            </div>
+            <canvas
+              ref={canvasRef}
+              width={CANVAS_WIDTH}
+              height={CANVAS_HEIGHT}
+              className="h-44 w-full touch-none rounded-xl border border-dashed border-gray-300 bg-white"
+              onPointerDown={(e) => {
+                e.currentTarget.setPointerCapture(e.pointerId)
+                lastPoint.current = pointFrom(e)
+                drawTo({ ...lastPoint.current, x: lastPoint.current.x + 0.1 })
+                setHasInk(true)
+              }}
+              onPointerMove={(e) => {
+                if (lastPoint.current) drawTo(pointFrom(e))
+              }}
+              onPointerUp={() => {
+                lastPoint.current = null
+              }}
+              onPointerCancel={() => {
+                lastPoint.current = null
+              }}
+            />
+            <div className="text-xs text-muted-foreground">Sign with your finger or mouse inside the box.</div>
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button type="button" variant="outline" className="rounded-xl" onClick={onCancel} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            className="rounded-xl bg-emerald-600 hover:bg-emerald-500 text-white"
+            onClick={save}
+            disabled={isSaving}
+          >
+            Save signature
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,290 @@
+import { useState } from "react"
+import { AlertTriangle, CheckCircle2, CloudOff, CloudUpload, Loader2, RefreshCw, XCircle } from "lucide-react"
+import { toast } from "sonner"
+import { useShallow } from "zustand/react/shallow"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { getErrorMessage } from "@/lib/api"
+import { useSyncQueueStore, type SyncEntry, type SyncStatus } from "@/stores/sync-queue-store"
+
+const STATUS_META: Record<SyncStatus, { label: string; className: string; icon: typeof CheckCircle2 }> = {
+  pending: {
+    label: "Waiting to sync",
+    className: "bg-amber-50 text-amber-800 border border-amber-200",
+    icon: CloudUpload,
+  },
+  synced: {
+    label: "Synced",
+    className: "bg-emerald-50 text-emerald-700 border border-emerald-200",
+    icon: CheckCircle2,
+  },
+  conflict: {
+    label: "Conflict",
+    className: "bg-rose-50 text-rose-700 border border-rose-200",
+    icon: AlertTriangle,
+  },
+  failed: {
+    label: "Not synced",
+    className: "bg-rose-50 text-rose-700 border border-rose-200",
+    icon: XCircle,
+  },
+}
+
+export function SyncStatusBadge({ status, className }: { status: SyncStatus; className?: string }) {
+  const meta = STATUS_META[status]
+  const Icon = meta.icon
+  return (
+    <Badge className={`rounded-xl ${meta.className} ${className || ""}`}>
+      <Icon className="mr-1 size-3.5" />
+      {meta.label}
+    </Badge>
+  )
+}
+
+function entryLabel(entry: SyncEntry) {
+  return entry.kind === "attendance" ? entry.entry.grade : entry.item.categoryLabel
+}
+
+function entrySummary(entry: SyncEntry) {
+  if (entry.kind === "attendance") return `Present ${entry.entry.present} • Absent ${entry.entry.absent}`
+  const photos = entry.item.images.length
+  return photos ? `${entry.item.status} • ${photos} photo${photos !== 1 ? "s" : ""}` : entry.item.status
+}
+
+function formatWhen(value?: string) {
+  if (!value) return "—"
+  const d = new Date(value)
+  if (Number.isNaN(d.getTime())) return value
+  return d.toLocaleString(undefined, { month: "short", day: "2-digit", hour: "2-digit", minute: "2-digit" })
+}
+
+/** Side-by-side rows for the conflict dialog: [field, this device, server]. */
+function conflictRows(entry: SyncEntry): Array<[string, string, string]> {
+  if (entry.kind === "attendance") {
+    const mine = entry.entry
+    const server = entry.server
+    return [
+      ["Present", String(mine.present), String(server?.present ?? "—")],
+      ["Absent", String(mine.absent), String(server?.absent ?? "—")],
+      ["Notes", mine.notes || "—", server?.notes || "—"],
+    ]
+  }
+  const mine = entry.item
+  const server = entry.server
+  return [
+    ["Status", mine.status, server?.status || "—"],
+    ["Reason", mine.statusReason || "—", server?.statusReason || "—"],
+    ["Concerns", mine.concerns.join(", ") || "—", server?.concerns?.join(", ") || "—"],
+    ["Remarks", mine.remarks || "—", server?.remarks || "—"],
+    ["Photos", `${mine.images.length} new`, String(server?.images?.length ?? 0)],
+  ]
+}
+
+/** Header chip: offline state, items waiting to sync and conflicts to review. */
+export function SyncQueueIndicator() {
+  const { isOnline, isSyncing, pending, attention } = useSyncQueueStore(
+    useShallow((s) => ({
+      isOnline: s.isOnline,
+      isSyncing: s.isSyncing,
+      pending: s.entries.filter((e) => e.status === "pending").length,
+      attention: s.entries.filter((e) => e.status === "conflict" || e.status === "failed").length,
+    }))
+  )
+  const flush = useSyncQueueStore((s) => s.flush)
+
+  if (isOnline && !isSyncing && !pending && !attention) return null
+
+  const label = isSyncing
+    ? "Syncing…"
+    : attention
+      ? `${attention} need${attention === 1 ? "s" : ""} review`
+      : pending
+        ? `${pending} waiting to sync`
+        : "Offline"
+
+  return (
+    <Button
+      type="button"
+      variant="outline"
+      size="sm"
+      className={`rounded-xl ${attention ? "border-rose-200 text-rose-700" : "border-amber-200 text-amber-800"}`}
+      disabled={isSyncing}
+      onClick={() => {
+        if (!isOnline) {
+          toast.info("You are offline. Saved items will sync when the connection returns.")
+          return
+        }
+        void flush()
+      }}
+    >
+      {isSyncing ? (
+        <Loader2 className="size-4 animate-spin" />
+      ) : isOnline ? (
+        <RefreshCw className="size-4" />
+      ) : (
+        <CloudOff className="size-4" />
+      )}
+      <span className="hidden sm:inline">{label}</span>
+    </Button>
+  )
+}
+
+/**
+ * Items saved on this device for one page, with their sync status and the
+ * actions to resolve conflicts or rejected items. `onResolved` runs after a
+ * choice so the page can reload the server copy.
+ */
+export function SyncQueueList({
+  entries,
+  onResolved,
+}: {
+  entries: SyncEntry[]
+  onResolved?: () => void
+}) {
+  const retry = useSyncQueueStore((s) => s.retry)
+  const discard = useSyncQueueStore((s) => s.discard)
+  const [conflictTarget, setConflictTarget] = useState<SyncEntry | null>(null)
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  if (!entries.length) return null
+
+  const resolve = async (entry: SyncEntry, keep: "mine" | "server") => {
+    setBusyId(entry.id)
+    try {
+      if (keep === "mine") await retry(entry.id)
+      else await discard(entry.id)
+      toast.success(keep === "mine" ? "Your version will be saved" : "Kept the saved version")
+      setConflictTarget(null)
+      onResolved?.()
+    } catch (e) {
+      toast.error(getErrorMessage(e, "Failed to update the offline queue"))
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  return (
+    <div className="rounded-2xl border bg-white p-4">
+      <div className="text-sm font-semibold text-gray-800">Saved on this device</div>
+      <div className="text-xs text-muted-foreground">
+        These are sent automatically when the connection returns.
+      </div>
+
+      <div className="mt-3 grid gap-2">
+        {entries.map((entry) => (
+          <div
+            key={entry.id}
+            className="flex flex-col gap-2 rounded-xl border border-gray-100 p-3 sm:flex-row sm:items-center sm:justify-between"
+          >
+            <div className="min-w-0">
+              <div className="font-medium">{entryLabel(entry)}</div>
+              <div className="text-xs text-muted-foreground">{entrySummary(entry)}</div>
+              {entry.status === "failed" && entry.lastError ? (
+                <div className="mt-1 text-xs text-rose-700">{entry.lastError}</div>
+              ) : null}
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <SyncStatusBadge status={entry.status} />
+              {entry.status === "conflict" ? (
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  className="rounded-xl"
+                  onClick={() => setConflictTarget(entry)}
+                >
+                  Resolve
+                </Button>
+              ) : null}
+              {entry.status === "failed" ? (
+                <>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    className="rounded-xl"
+                    disabled={busyId === entry.id}
+                    onClick={() => resolve(entry, "mine")}
+                  >
+                    Retry
+                  </Button>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="ghost"
+                    className="rounded-xl"
+                    disabled={busyId === entry.id}
+                    onClick={() => resolve(entry, "server")}
+                  >
+                    Discard
+                  </Button>
+                </>
+              ) : null}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <Dialog open={!!conflictTarget} onOpenChange={(v) => (!v ? setConflictTarget(null) : null)}>
+        <DialogContent className="max-w-lg rounded-2xl">
+          <DialogHeader>
+            <DialogTitle>{conflictTarget ? entryLabel(conflictTarget) : ""} was changed elsewhere</DialogTitle>
+            <DialogDescription>
+              Someone saved this item on {formatWhen(conflictTarget?.server?.updatedAt)} after your offline
+              change. Choose which version to keep.
+            </DialogDescription>
+          </DialogHeader>
+
+          {conflictTarget ? (
+            <div className="overflow-hidden rounded-xl border text-sm">
+              <div className="grid grid-cols-3 gap-2 bg-muted/40 px-3 py-2 text-xs font-medium text-muted-foreground">
+                <div />
+                <div>This device</div>
+                <div>Saved version</div>
+              </div>
+              {conflictRows(conflictTarget).map(([field, mine, server]) => (
+                <div
+                  key={field}
+                  className={`grid grid-cols-3 gap-2 border-t px-3 py-2 ${mine !== server ? "bg-amber-50/60" : ""}`}
+                >
+                  <div className="text-muted-foreground">{field}</div>
+                  <div className="break-words">{mine}</div>
+                  <div className="break-words">{server}</div>
+                </div>
+              ))}
+            </div>
+          ) : null}
+
+          <DialogFooter className="gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              className="rounded-xl"
+              disabled={!!busyId}
+              onClick={() => conflictTarget && resolve(conflictTarget, "server")}
+            >
+              Keep saved version
+            </Button>
+            <Button
+              type="button"
+              className="rounded-xl bg-emerald-600 hover:bg-emerald-500 text-white"
+              disabled={!!busyId}
+              onClick={() => conflictTarget && resolve(conflictTarget, "mine")}
+            >
+              Use my version
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
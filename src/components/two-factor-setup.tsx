@@ -0,0 +1,162 @@
+import { useState } from "react"
+import { REGEXP_ONLY_DIGITS } from "input-otp"
+import { Copy, Download, Loader2 } from "lucide-react"
+import { toast } from "sonner"
+
+import { Button } from "@/components/ui/button"
+import { InputOTP, InputOTPGroup, InputOTPSeparator, InputOTPSlot } from "@/components/ui/input-otp"
+import type { TwoFactorEnrollment } from "@/lib/api"
+
+export const ONE_TIME_CODE_LENGTH = 6
+
+/** Six-digit code from an authenticator app. */
+export function OneTimeCodeInput({
+  value,
+  onChange,
+  onComplete,
+  disabled,
+  autoFocus,
+}: {
+  value: string
+  onChange: (value: string) => void
+  onComplete?: (value: string) => void
+  disabled?: boolean
+  autoFocus?: boolean
+}) {
+  return (
+    <InputOTP
+      maxLength={ONE_TIME_CODE_LENGTH}
+      pattern={REGEXP_ONLY_DIGITS}
+      inputMode="numeric"
+      autoComplete="one-time-code"
+      value={value}
+      onChange={onChange}
+      onComplete={onComplete}
+      disabled={disabled}
+      autoFocus={autoFocus}
+      containerClassName="justify-center"
+    >
+      <InputOTPGroup>
+        <InputOTPSlot index={0} />
+        <InputOTPSlot index={1} />
+        <InputOTPSlot index={2} />
+      </InputOTPGroup>
+      <InputOTPSeparator />
+      <InputOTPGroup>
+        <InputOTPSlot index={3} />
+        <InputOTPSlot index={4} />
+        <InputOTPSlot index={5} />
+      </InputOTPGroup>
+    </InputOTP>
+  )
+}
+
+/** QR code and manual secret, then the first code to prove the app is set up. */
+export function TwoFactorSetup({
+  enrollment,
+  isConfirming,
+  onConfirm,
+  onCancel,
+}: {
+  enrollment: TwoFactorEnrollment
+  isConfirming: boolean
+  onConfirm: (code: string) => void
+  onCancel?: () => void
+}) {
+  const [code, setCode] = useState("")
+  const isComplete = code.length === ONE_TIME_CODE_LENGTH
+
+  return (
+    <div className="grid gap-4">
+      <ol className="list-decimal space-y-1 pl-5 text-sm text-muted-foreground">
+        <li>Open an authenticator app such as Google Authenticator or Microsoft Authenticator.</li>
+        <li>Scan the QR code, or enter the setup key by hand.</li>
+        <li>Enter the 6-digit code the app shows.</li>
+      </ol>
+      <div className="flex flex-col items-center gap-2">
+        <img
+          src={enrollment.qrCodeDataUrl}
+          alt="Two-factor setup QR code"
+          className="size-44 rounded-xl border bg-white p-2"
+        />
+        <div className="text-center text-xs text-muted-foreground">
+          Setup key
+          <div className="mt-0.5 select-all break-all font-mono text-sm tracking-wider text-foreground">
+            {enrollment.secret}
+          </div>
+        </div>
+      </div>
+      <OneTimeCodeInput
+        value={code}
+        onChange={setCode}
+        onComplete={onConfirm}
+        disabled={isConfirming}
+        autoFocus
+      />
+      <div className="flex justify-end gap-2">
+        {onCancel ? (
+          <Button type="button" variant="outline" className="rounded-xl" onClick={onCancel} disabled={isConfirming}>
+            Cancel
+          </Button>
+        ) : null}
+        <Button
+          type="button"
+          className="rounded-xl"
+          disabled={!isComplete || isConfirming}
+          onClick={() => onConfirm(code)}
+        >
+          {isConfirming ? <Loader2 className="size-4 animate-spin" /> : null}
+          Turn on two-factor
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+/** One-time recovery codes with copy and download; they are never shown again. */
+export function BackupCodes({ codes }: { codes: string[] }) {
+  const text = codes.join("\n")
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(text)
+      toast.success("Backup codes copied")
+    } catch {
+      toast.error("Could not copy to the clipboard")
+    }
+  }
+
+  const download = () => {
+    const url = URL.createObjectURL(new Blob([`BHSS backup codes\n\n${text}\n`], { type: "text/plain" }))
+    const a = document.createElement("a")
+    a.href = url
+    a.download = "bhss-backup-codes.txt"
+    a.click()
+    URL.revokeObjectURL(url)
+  }
+
+  return (
+    <div className="grid gap-3">
+      <p className="text-sm text-muted-foreground">
+        Each code signs you in once if you lose your phone. Store them somewhere safe; they will not be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 rounded-xl border bg-muted/20 p-3 font-mono text-sm">
+        {codes.map((c) => (
+          <span key={c} className="text-center tracking-wider">
+            {c}
+          </span>
+        ))}
+      </div>
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="outline" size="sm" className="rounded-xl" onClick={copy}>
+          <Copy className="size-4" />
+          Copy
+        </Button>
+        <Button type="button" variant="outline" size="sm" className="rounded-xl" onClick={download}>
+          <Download className="size-4" />
+          Download
+        </Button>
+      </div>
+    </div>
+  )
+}
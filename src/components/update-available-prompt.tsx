@@ -0,0 +1,72 @@
+import { useState } from "react"
+import { AnimatePresence, motion } from "motion/react"
+
+import { Button } from "@/components/ui/button"
+import { applyServiceWorkerUpdate, useServiceWorkerUpdate } from "@/lib/pwa"
+
+type UpdateAvailablePromptProps = {
+  /** Set when the backend reports a new server instance. */
+  serverUpdated?: boolean
+  onDismissServerUpdate?: () => void
+}
+
+/** Asks to refresh when a new build was downloaded or the server was redeployed. */
+export function UpdateAvailablePrompt({ serverUpdated = false, onDismissServerUpdate }: UpdateAvailablePromptProps) {
+  const buildReady = useServiceWorkerUpdate()
+  const [buildDismissed, setBuildDismissed] = useState(false)
+  const open = serverUpdated || (buildReady && !buildDismissed)
+
+  const dismiss = () => {
+    setBuildDismissed(true)
+    onDismissServerUpdate?.()
+  }
+
+  return (
+    <AnimatePresence>
+      {open && (
+        <motion.div
+          key="update-available"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          transition={{ duration: 0.18 }}
+          className="fixed inset-0 z-[9999] grid place-items-center bg-black/40 p-4"
+        >
+          <motion.div
+            initial={{ opacity: 0, y: 10, scale: 0.98 }}
+            animate={{ opacity: 1, y: 0, scale: 1 }}
+            exit={{ opacity: 0, y: 10, scale: 0.98 }}
+            transition={{ duration: 0.22 }}
+            className="w-full max-w-md rounded-3xl border border-emerald-100 bg-white p-5 shadow-xl"
+          >
+            <div className="flex items-start justify-between gap-3">
+              <div className="min-w-0">
+                <div className="text-sm font-semibold text-gray-900">New update available</div>
+                <div className="mt-1 text-xs text-gray-500">
+                  The system was updated. Refresh to load the latest version.
+                </div>
+              </div>
+              <button
+                type="button"
+                onClick={dismiss}
+                className="rounded-xl px-2 py-1 text-sm text-gray-400 hover:text-gray-600"
+                aria-label="Dismiss"
+              >
+                ✕
+              </button>
+            </div>
+
+            <div className="mt-4 flex items-center justify-end gap-2">
+              <Button variant="ghost" className="rounded-xl" onClick={dismiss}>
+                Later
+              </Button>
+              <Button className="rounded-xl bg-emerald-600 hover:bg-emerald-500" onClick={applyServiceWorkerUpdate}>
+                Refresh
+              </Button>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  )
+}
@@ -0,0 +1,103 @@
+import { apiRequest } from "./client"
+
+/** Unit vocabulary shared by activity fields and delivery line items. */
+export const UNIT_OPTIONS = ["PCS", "Unit", "Box", "Set", "Bag", "Bottle", "Pack", "Kg", "Liter", "Meter", "Roll", "Ream", "Pair", "Dozen"]
+
+export type ActivityFieldInputType = "text" | "textarea" | "number" | "date"
+
+export type ActivityField = {
+  id: string
+  type: ActivityFieldInputType
+  label: string
+  description: string
+  required: boolean
+  photoUrl: string
+  unit: string
+  placeholder: string
+}
+
+export type Activity = {
+  id: string
+  title: string
+  description: string
+  isActive: boolean
+  fields: ActivityField[]
+  createdAt: string
+  updatedAt?: string
+}
+
+export type ActivityAnswer = { fieldId: string; value: string }
+
+export type ActivityResponseDto = {
+  id?: string
+  activityId?: string
+  userId?: string
+  answers: ActivityAnswer[]
+  submittedAt?: string
+}
+
+export type ActivityResponseUser = { name: string; school: string; municipality: string; hlaRoleType: string }
+
+/** A school's submission as listed for admins. */
+export type AdminActivityResponseRow = {
+  id: string
+  activityId: string
+  userId: string
+  user: ActivityResponseUser
+  answers: ActivityAnswer[]
+  submittedAt: string
+}
+
+export type ActivityInput = Partial<Pick<Activity, "title" | "description" | "isActive" | "fields">>
+
+export type ActivityResponsesQuery = {
+  municipality?: string
+  school?: string
+  search?: string
+}
+
+const adminActivityPath = (id: string) => `/api/admin/activities/${encodeURIComponent(id)}`
+
+export const activitiesApi = {
+  list: (signal?: AbortSignal) => apiRequest<{ activities?: Activity[] }>("/api/activities", { signal }),
+
+  myResponse: (activityId: string, signal?: AbortSignal) =>
+    apiRequest<{ response?: ActivityResponseDto | null }>(
+      `/api/activities/${encodeURIComponent(activityId)}/my-response`,
+      { signal }
+    ),
+
+  submit: (activityId: string, answers: ActivityAnswer[]) =>
+    apiRequest<{ response?: ActivityResponseDto }>(`/api/activities/${encodeURIComponent(activityId)}/submit`, {
+      method: "POST",
+      json: { answers },
+    }),
+
+  adminList: (signal?: AbortSignal) =>
+    apiRequest<{ activities?: Activity[] }>("/api/admin/activities", { signal }),
+
+  create: (input: ActivityInput) =>
+    apiRequest<{ activity: Activity }>("/api/admin/activities", { method: "POST", json: input }),
+
+  update: (id: string, input: ActivityInput) =>
+    apiRequest<{ activity: Activity }>(adminActivityPath(id), { method: "PUT", json: input }),
+
+  remove: (id: string) => apiRequest<unknown>(adminActivityPath(id), { method: "DELETE" }),
+
+  responses: (id: string, query: ActivityResponsesQuery, signal?: AbortSignal) =>
+    apiRequest<{ responses?: AdminActivityResponseRow[] }>(`${adminActivityPath(id)}/responses`, {
+      query,
+      signal,
+    }),
+
+  /** Uploads a question photo and returns its backend-relative URL. */
+  uploadPhoto: (file: File) => {
+    const fd = new FormData()
+    fd.append("photo", file)
+    return apiRequest<{ url?: string }>("/api/admin/activities/upload-photo", {
+      method: "POST",
+      formData: fd,
+      timeoutMs: 120_000,
+    })
+  },
+}
@@ -0,0 +1,53 @@
+import { apiRequest } from "./client"
+
+export type AnnouncementPriority = "Normal" | "Important" | "Urgent"
+export type AnnouncementAudience = "All" | "Users"
+
+export type AnnouncementAttachmentDto = {
+  filename?: string
+  originalName?: string
+  url?: string
+  size?: number
+  mimeType?: string
+}
+
+export type AnnouncementDto = {
+  _id?: string
+  id?: string
+  title?: string
+  message?: string
+  priority?: string
+  audience?: string
+  createdAt?: string
+  attachments?: AnnouncementAttachmentDto[]
+}
+
+export type CreateAnnouncementInput = {
+  title: string
+  message: string
+  priority: AnnouncementPriority
+  audience: AnnouncementAudience
+  attachments: File[]
+}
+
+export const announcementsApi = {
+  list: (signal?: AbortSignal) =>
+    apiRequest<{ announcements?: AnnouncementDto[] }>("/api/announcements", { signal }),
+
+  get: (id: string, signal?: AbortSignal) =>
+    apiRequest<{ announcement?: AnnouncementDto }>(`/api/announcements/${encodeURIComponent(id)}`, { signal }),
+
+  create: (input: CreateAnnouncementInput) => {
+    const fd = new FormData()
+    fd.append("title", input.title)
+    fd.append("message", input.message)
+    fd.append("priority", input.priority)
+    fd.append("audience", input.audience)
+    for (const f of input.attachments) fd.append("attachments", f)
+    return apiRequest<{ announcement?: AnnouncementDto }>("/api/admin/announcements", {
+      method: "POST",
+      formData: fd,
+      timeoutMs: 120_000,
+    })
+  },
+}
@@ -0,0 +1,81 @@
+import { apiRequest } from "./client"
+
+/** Attendance row as stored by the backend (one per school, date and grade). */
+export type AttendanceRecordDto = {
+  _id?: string
+  id?: string
+  dateKey: string
+  grade: string
+  present: number
+  absent: number
+  notes?: string
+  school?: string
+  municipality?: string
+  userId?: string
+  createdAt?: string
+  updatedAt?: string
+}
+
+export type AttendanceEntryInput = {
+  grade: string
+  present: number
+  absent: number
+  notes: string
+}
+
+export type SaveAttendanceInput = AttendanceEntryInput & { dateKey: string }
+
+export type AttendanceHistoryQuery = {
+  from?: string
+  to?: string
+  search?: string
+  grade?: string
+  sort?: "newest" | "oldest"
+}
+
+export type AdminAttendanceHistoryQuery = {
+  from?: string
+  to?: string
+  search?: string
+  sort?: "newest" | "oldest"
+  /** Limits the records to one municipality; always applied for municipal supervisors. */
+  municipality?: string
+}
+
+/** Push/in-app reminder to the given accounts that a day's attendance is incomplete. */
+export type AttendanceReminderInput = {
+  userIds: string[]
+  dateKey: string
+  municipality: string
+  school: string
+  missingGrades: string[]
+  /** Deep link the notification opens. */
+  url: string
+}
+
+export const attendanceApi = {
+  byDate: (dateKey: string, signal?: AbortSignal) =>
+    apiRequest<{ records?: AttendanceRecordDto[] }>(
+      `/api/attendance/by-date/${encodeURIComponent(dateKey)}/all`,
+      { signal }
+    ),
+
+  save: (input: SaveAttendanceInput) =>
+    apiRequest<{ record?: AttendanceRecordDto }>("/api/attendance/record", { method: "POST", json: input }),
+
+  saveBulk: (dateKey: string, entries: AttendanceEntryInput[]) =>
+    apiRequest<{ records?: AttendanceRecordDto[] }>("/api/attendance/record/bulk", {
+      method: "POST",
+      json: { dateKey, entries },
+    }),
+
+  history: (query: AttendanceHistoryQuery, signal?: AbortSignal) =>
+    apiRequest<{ records?: AttendanceRecordDto[] }>("/api/attendance/history", { query, signal }),
+
+  /** All schools in the account's scope; admin portal only. */
+  adminHistory: (query: AdminAttendanceHistoryQuery, signal?: AbortSignal) =>
+    apiRequest<{ records?: AttendanceRecordDto[] }>("/api/admin/attendance/history", { query, signal }),
+
+  sendReminder: (input: AttendanceReminderInput) =>
+    apiRequest<{ sent?: number }>("/api/admin/attendance/reminders", { method: "POST", json: input }),
+}
@@ -0,0 +1,41 @@
+import { apiRequest } from "./client"
+
+// ─── Audit trail ──────────────────────────────────────────────────────────────
+// Administrative changes are logged with who made them. The server writes the
+// entry in the same request that makes the change, so a change cannot land
+// without its record and no client can post one; the client only reads them.
+
+export type AuditEntityType = "user" | "school-beneficiary" | "distribution-row"
+
+/** Fields of the record relevant to the change; secrets such as passwords are never included. */
+export type AuditSnapshot = Record<string, string | number | boolean | null>
+
+export type AuditEntryDto = {
+  id: string
+  actorId: string
+  actorName?: string
+  actorUsername?: string
+  /** e.g. `user.deactivate`, `distribution-row.update` */
+  action: string
+  entityType: AuditEntityType
+  entityId: string
+  /** Human name of the record at the time, e.g. a username or school. */
+  entityLabel?: string
+  before?: AuditSnapshot | null
+  after?: AuditSnapshot | null
+  createdAt: string
+}
+
+export type AuditQuery = {
+  actorId?: string
+  entityType?: AuditEntityType
+  entityId?: string
+  from?: string
+  to?: string
+  limit?: number
+}
+
+export const auditApi = {
+  list: (query: AuditQuery, signal?: AbortSignal) =>
+    apiRequest<{ entries?: AuditEntryDto[] }>("/api/admin/audit", { query, signal }),
+}
@@ -0,0 +1,53 @@
+import { apiRequest } from "./client"
+import type { AccessRole } from "./users"
+
+export type AuthUser = {
+  id: string
+  username: string
+  email: string
+  name: string
+  role: string
+  accessRole?: AccessRole
+  hlaRoleType?: string
+  school?: string
+  municipality?: string
+  twoFactorEnabled?: boolean
+}
+
+export type LoginResponse = {
+  token: string
+  user: AuthUser
+}
+
+/**
+ * Returned by login instead of a session when the account needs a second factor:
+ * `verify` asks for a code, `setup` means the role enforces two-factor and the
+ * account has not set it up yet. The token is short-lived and only good for
+ * finishing this sign-in.
+ */
+export type TwoFactorChallenge = {
+  twoFactor: "verify" | "setup"
+  challengeToken: string
+}
+
+export type LoginResult = LoginResponse | TwoFactorChallenge
+
+export const isTwoFactorChallenge = (result: LoginResult): result is TwoFactorChallenge =>
+  "challengeToken" in result
+
+export const authApi = {
+  login: (username: string, password: string) =>
+    apiRequest<LoginResult>("/api/auth/login", {
+      method: "POST",
+      json: { username, password },
+      auth: false,
+    }),
+
+  /** Accepts a code from the authenticator app or an unused backup code. */
+  verifyTwoFactor: (challengeToken: string, code: string) =>
+    apiRequest<LoginResponse>("/api/auth/2fa/verify", {
+      method: "POST",
+      json: { challengeToken, code },
+      auth: false,
+    }),
+}
@@ -0,0 +1,204 @@
+import type { AuthUser } from "./auth"
+
+// ─── Shared API client ────────────────────────────────────────────────────────
+// Every call to the backend goes through `apiRequest` so that auth headers,
+// error messages, timeouts and cancellation behave the same on every page.
+// Endpoint modules next to this file wrap it with typed request/response
+// contracts; pages should import those instead of calling fetch directly.
+
+const AUTH_STORAGE_KEY = "bhss_auth"
+const DEFAULT_TIMEOUT_MS = 30_000
+
+export function getApiBaseUrl() {
+  const env = import.meta.env as Record<string, string | undefined>
+  const fromEnv = env.VITE_API_BASE_URL || env.VITE_API_URL
+  return (fromEnv || "http://localhost:8000").replace(/\/+$/, "")
+}
+
+/** Turns a backend-relative path such as `/uploads/x.jpg` into an absolute URL. */
+export function resolveApiUrl(url?: string | null) {
+  const u = String(url || "").trim()
+  if (!u) return ""
+  if (/^(https?:|blob:|data:)/i.test(u)) return u
+  return `${getApiBaseUrl()}${u.startsWith("/") ? "" : "/"}${u}`
+}
+
+export function getAuthToken(): string | null {
+  try {
+    const raw = localStorage.getItem(AUTH_STORAGE_KEY)
+    if (!raw) return null
+    const parsed = JSON.parse(raw) as { token?: string }
+    return parsed?.token || null
+  } catch {
+    return null
+  }
+}
+
+/** Id of the signed-in user, used to keep per-user local data apart. */
+export function getAuthUserId(): string | null {
+  try {
+    const raw = localStorage.getItem(AUTH_STORAGE_KEY)
+    if (!raw) return null
+    const parsed = JSON.parse(raw) as { user?: { id?: string } }
+    return parsed?.user?.id || null
+  } catch {
+    return null
+  }
+}
+
+/** User saved with the session at login; profile edits may have updated it since. */
+export function getAuthUser(): AuthUser | null {
+  try {
+    const raw = localStorage.getItem(AUTH_STORAGE_KEY)
+    if (!raw) return null
+    const parsed = JSON.parse(raw) as { user?: AuthUser }
+    return parsed?.user || null
+  } catch {
+    return null
+  }
+}
+
+export type ApiErrorKind = "http" | "network" | "timeout" | "unauthenticated"
+
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind
+  /** HTTP status code, or 0 when the request never got a response. */
+  readonly status: number
+  readonly body: unknown
+
+  constructor(message: string, opts: { kind: ApiErrorKind; status?: number; body?: unknown }) {
+    super(message)
+    this.name = "ApiError"
+    this.kind = opts.kind
+    this.status = opts.status ?? 0
+    this.body = opts.body
+  }
+}
+
+export function isAbortError(e: unknown) {
+  return e instanceof DOMException && e.name === "AbortError"
+}
+
+/** True when the request never reached the server, so retrying later may succeed. */
+export function isConnectivityError(e: unknown) {
+  return e instanceof ApiError && (e.kind === "network" || e.kind === "timeout")
+}
+
+/** Best-effort human readable message for anything thrown by an API call. */
+export function getErrorMessage(e: unknown, fallback: string) {
+  if (e instanceof Error && e.message) return e.message
+  return fallback
+}
+
+export type QueryValue = string | number | boolean | null | undefined
+export type Query = Record<string, QueryValue>
+
+export function buildQuery(query?: Query) {
+  if (!query) return ""
+  const qs = new URLSearchParams()
+  for (const [k, v] of Object.entries(query)) {
+    if (v === undefined || v === null || v === "") continue
+    qs.set(k, String(v))
+  }
+  const s = qs.toString()
+  return s ? `?${s}` : ""
+}
+
+export type ApiRequestOptions = {
+  method?: "GET" | "POST" | "PUT" | "PATCH" | "DELETE"
+  query?: Query
+  /** Serialized as JSON with the matching Content-Type. */
+  json?: unknown
+  /** Sent as multipart; the browser sets the boundary header. */
+  formData?: FormData
+  signal?: AbortSignal
+  timeoutMs?: number
+  /** Set to false for endpoints that must be called without a session (login). */
+  auth?: boolean
+}
+
+async function readBody(res: Response): Promise<unknown> {
+  const text = await res.text().catch(() => "")
+  if (!text) return {}
+  try {
+    return JSON.parse(text)
+  } catch {
+    return text
+  }
+}
+
+function messageFromBody(body: unknown, status: number) {
+  if (body && typeof body === "object") {
+    const b = body as { message?: unknown; error?: unknown }
+    const msg = String(b.message || b.error || "").trim()
+    if (msg) return msg
+  }
+  if (typeof body === "string") {
+    const trimmed = body.trim()
+    if (trimmed) return trimmed.length > 200 ? trimmed.slice(0, 200) : trimmed
+  }
+  return `Request failed (${status})`
+}
+
+async function send(path: string, opts: ApiRequestOptions): Promise<Response> {
+  const headers: Record<string, string> = {}
+  if (opts.auth !== false) {
+    const token = getAuthToken()
+    if (!token) throw new ApiError("Not authenticated", { kind: "unauthenticated", status: 401 })
+    headers.Authorization = `Bearer ${token}`
+  }
+
+  let body: BodyInit | undefined
+  if (opts.formData) {
+    body = opts.formData
+  } else if (opts.json !== undefined) {
+    headers["Content-Type"] = "application/json"
+    body = JSON.stringify(opts.json)
+  }
+
+  const controller = new AbortController()
+  const onAbort = () => controller.abort(opts.signal?.reason)
+  if (opts.signal?.aborted) onAbort()
+  else opts.signal?.addEventListener("abort", onAbort, { once: true })
+
+  let timedOut = false
+  const timer = window.setTimeout(() => {
+    timedOut = true
+    controller.abort()
+  }, opts.timeoutMs ?? DEFAULT_TIMEOUT_MS)
+
+  try {
+    return await fetch(`${getApiBaseUrl()}${path}${buildQuery(opts.query)}`, {
+      method: opts.method || (body ? "POST" : "GET"),
+      headers,
+      body,
+      signal: controller.signal,
+    })
+  } catch (e) {
+    if (timedOut) throw new ApiError("The server took too long to respond", { kind: "timeout" })
+    if (isAbortError(e)) throw e
+    throw new ApiError("Unable to reach the server. Check your connection.", { kind: "network" })
+  } finally {
+    window.clearTimeout(timer)
+    opts.signal?.removeEventListener("abort", onAbort)
+  }
+}
+
+export async function apiRequest<T>(path: string, opts: ApiRequestOptions = {}): Promise<T> {
+  const res = await send(path, opts)
+  const body = await readBody(res)
+  if (!res.ok) {
+    throw new ApiError(messageFromBody(body, res.status), { kind: "http", status: res.status, body })
+  }
+  return (typeof body === "object" ? body : {}) as T
+}
+
+/** For binary endpoints (downloads, previews). */
+export async function apiBlob(path: string, opts: ApiRequestOptions = {}): Promise<Blob> {
+  const res = await send(path, opts)
+  if (!res.ok) {
+    const body = await readBody(res)
+    throw new ApiError(messageFromBody(body, res.status), { kind: "http", status: res.status, body })
+  }
+  return res.blob()
+}
@@ -0,0 +1,85 @@
+import { apiRequest } from "./client"
+
+// ─── Delivery concern tickets ─────────────────────────────────────────────────
+// Every concern flagged on a delivery record ("Missing items", "Wrong
+// quantity", ...) is tracked as its own ticket so an admin can own it, talk it
+// through with the school and close it with a resolution note.
+
+export type ConcernTicketStatus = "open" | "acknowledged" | "resolved"
+
+export type ConcernCommentDto = {
+  id: string
+  body: string
+  authorName?: string
+  authorRole?: "user" | "admin"
+  createdAt: string
+}
+
+/** One change to a ticket, newest last. */
+export type ConcernHistoryEntryDto = {
+  action: "created" | "assigned" | "status" | "due-date" | "comment"
+  byName?: string
+  at: string
+  from?: string
+  to?: string
+  note?: string
+}
+
+export type ConcernTicketDto = {
+  id: string
+  deliveryRecordId: string
+  concern: string
+  dateKey: string
+  municipality: string
+  school: string
+  categoryKey: string
+  categoryLabel: string
+  status: ConcernTicketStatus
+  assigneeId?: string
+  assigneeName?: string
+  /** `yyyy-MM-dd` */
+  dueDate?: string
+  resolutionNote?: string
+  comments: ConcernCommentDto[]
+  history: ConcernHistoryEntryDto[]
+  resolvedAt?: string
+  createdAt?: string
+  updatedAt?: string
+}
+
+/** Resolving requires `resolutionNote`; the server rejects it otherwise. */
+export type UpdateConcernTicketInput = {
+  status?: ConcernTicketStatus
+  assigneeId?: string | null
+  dueDate?: string | null
+  resolutionNote?: string
+}
+
+export type ConcernTicketQuery = {
+  from?: string
+  to?: string
+  status?: ConcernTicketStatus
+}
+
+const ticketPath = (id: string) => `/api/admin/delivery/concerns/${encodeURIComponent(id)}`
+
+export const deliveryConcernsApi = {
+  list: (query: ConcernTicketQuery, signal?: AbortSignal) =>
+    apiRequest<{ tickets?: ConcernTicketDto[] }>("/api/admin/delivery/concerns", { query, signal }),
+
+  /**
+   * Opens a ticket for a concern saved before ticketing existed. New concerns
+   * get one automatically when the school saves the delivery record.
+   */
+  create: (deliveryRecordId: string, concern: string) =>
+    apiRequest<{ ticket?: ConcernTicketDto }>("/api/admin/delivery/concerns", {
+      method: "POST",
+      json: { deliveryRecordId, concern },
+    }),
+
+  update: (id: string, input: UpdateConcernTicketInput) =>
+    apiRequest<{ ticket?: ConcernTicketDto }>(ticketPath(id), { method: "PATCH", json: input }),
+
+  addComment: (id: string, body: string) =>
+    apiRequest<{ ticket?: ConcernTicketDto }>(`${ticketPath(id)}/comments`, { method: "POST", json: { body } }),
+}
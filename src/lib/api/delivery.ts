@@ -0,0 +1,258 @@
+import { apiRequest } from "./client"
+
+export type DeliveryStatus = "Pending" | "Delivered" | "Delayed" | "Cancelled"
+
+/** Commodity categories a school reports deliveries for; procurement uses the same list. */
+export const DELIVERY_CATEGORY_OPTIONS = [
+  { key: "fruits", label: "Fruits" },
+  { key: "vegetables", label: "Vegetables" },
+  { key: "meat", label: "Meat" },
+  { key: "nutribun", label: "NutriBun" },
+  { key: "patties", label: "Patties" },
+  { key: "groceries", label: "Groceries" },
+  { key: "consumables", label: "Consumables" },
+  { key: "water", label: "Water" },
+  { key: "lpg", label: "LPG" },
+  { key: "rice", label: "Rice" },
+  { key: "others", label: "Others" },
+] as const
+
+export type DeliveryCategoryKey = (typeof DELIVERY_CATEGORY_OPTIONS)[number]["key"]
+
+/**
+ * What the photo itself says about when and where it was taken, read on the
+ * device before compression, plus a perceptual hash for duplicate checks.
+ */
+export type DeliveryImageMeta = {
+  capturedAt?: string
+  latitude?: number
+  longitude?: number
+  /** 64-bit difference hash as 16 hex characters. */
+  phash?: string
+}
+
+export type DeliveryImageDto = DeliveryImageMeta & {
+  filename: string
+  originalName?: string
+  mimeType?: string
+  size?: number
+  url: string
+}
+
+/** Hash of one stored delivery photo, for comparing across schools and dates. */
+export type DeliveryImageFingerprintDto = {
+  recordId: string
+  dateKey: string
+  municipality: string
+  school: string
+  categoryLabel: string
+  filename: string
+  phash: string
+}
+
+/** Who signed a delivery receipt: the receiving HLA Manager or the supplier's driver. */
+export type DeliverySignatureRole = "receiver" | "driver"
+
+export const DELIVERY_SIGNATURE_ROLES: Array<{ role: DeliverySignatureRole; label: string; optional: boolean }> = [
+  { role: "receiver", label: "Received by (HLA Manager)", optional: false },
+  { role: "driver", label: "Delivered by (supplier's driver)", optional: true },
+]
+
+export type DeliverySignatureDto = {
+  role: DeliverySignatureRole
+  signerName: string
+  signedAt: string
+  /** PNG of the signature as drawn. */
+  url: string
+}
+
+/** A newly captured signature; replaces any stored one for the same role. */
+export type DeliverySignatureInput = Omit<DeliverySignatureDto, "url"> & { image: File }
+
+/**
+ * One item within a delivered category, e.g. "Banana, 50 Kg expected, 46 Kg
+ * received". Units come from `UNIT_OPTIONS`.
+ */
+export type DeliveryLineDto = {
+  name: string
+  unit: string
+  expectedQty: number
+  receivedQty: number
+}
+
+/**
+ * One category of a school's delivery for a given date. Pages that work with a
+ * fixed category list can narrow `categoryKey` through `K`.
+ */
+export type DeliveryRecordDto<K extends string = string> = {
+  _id?: string
+  id?: string
+  dateKey: string
+  categoryKey: K
+  categoryLabel: string
+  status: DeliveryStatus
+  statusReason?: string
+  statusUpdatedAt?: string
+  uploadedAt?: string
+  concerns?: string[]
+  remarks?: string
+  lines?: DeliveryLineDto[]
+  signatures?: DeliverySignatureDto[]
+  images?: DeliveryImageDto[]
+  hlaManagerName?: string
+  createdAt?: string
+  updatedAt?: string
+}
+
+/** Delivery record as listed for admins, with the submitting school attached. */
+export type AdminDeliveryRecordDto = DeliveryRecordDto & {
+  id: string
+  municipality: string
+  school: string
+  /** Supplier the delivery is attributed to, when the server could tell. */
+  supplierId?: string
+  supplierName?: string
+  userName?: string
+  username?: string
+}
+
+/** Item fields sent with `saveItem`; `images` are new uploads only. */
+export type SaveDeliveryItemInput = {
+  dateKey: string
+  categoryKey: string
+  categoryLabel: string
+  status: DeliveryStatus
+  statusReason: string
+  statusUpdatedAt: string
+  uploadedAt: string
+  concerns: string[]
+  remarks: string
+  /** Missing on items queued offline before line entries existed. */
+  lines?: DeliveryLineDto[]
+  /** New signatures only, like `images`. */
+  signatures?: DeliverySignatureInput[]
+  images: File[]
+  /** Evidence for `images`, index for index. */
+  imageMeta?: DeliveryImageMeta[]
+}
+
+function deliveryItemForm(input: SaveDeliveryItemInput) {
+  const fd = new FormData()
+  fd.set("dateKey", input.dateKey)
+  fd.set("categoryKey", input.categoryKey)
+  fd.set("categoryLabel", input.categoryLabel)
+  fd.set("status", input.status)
+  fd.set("statusReason", input.statusReason)
+  fd.set("statusUpdatedAt", input.statusUpdatedAt)
+  fd.set("uploadedAt", input.uploadedAt)
+  fd.set("concerns", JSON.stringify(input.concerns))
+  fd.set("remarks", input.remarks)
+  fd.set("lines", JSON.stringify(input.lines || []))
+  for (const file of input.images) fd.append("images", file)
+  fd.set("imageMeta", JSON.stringify(input.imageMeta || []))
+  // Signature files are sent in the same order as their metadata
+  const signatures = input.signatures || []
+  fd.set("signatures", JSON.stringify(signatures.map(({ role, signerName, signedAt }) => ({ role, signerName, signedAt }))))
+  for (const s of signatures) fd.append("signatureImages", s.image)
+  return fd
+}
+
+// ─── Schedules ────────────────────────────────────────────────────────────────
+// When a category is expected at a school. Occurrences are expanded on the
+// client from `startDate` and `frequency`; weekly schedules repeat on the
+// start date's weekday and monthly ones on its day of the month.
+
+export type DeliveryScheduleFrequency = "once" | "weekly" | "monthly"
+
+export type DeliveryScheduleDto = {
+  id: string
+  categoryKey: string
+  categoryLabel: string
+  municipality: string
+  school: string
+  supplierId?: string
+  supplierName?: string
+  frequency: DeliveryScheduleFrequency
+  /** `yyyy-MM-dd` of the first expected delivery. */
+  startDate: string
+  /** `yyyy-MM-dd` of the last day the schedule applies; open-ended when empty. */
+  endDate?: string
+  notes?: string
+  createdAt?: string
+  updatedAt?: string
+}
+
+export type SaveDeliveryScheduleInput = Omit<DeliveryScheduleDto, "id" | "supplierName" | "createdAt" | "updatedAt">
+
+export type DeliveryScheduleQuery = {
+  from?: string
+  to?: string
+}
+
+const schedulePath = (id: string) => `/api/admin/delivery/schedules/${encodeURIComponent(id)}`
+
+export type DeliveryHistoryQuery = {
+  dateKey?: string
+  search?: string
+  sort?: "newest" | "oldest"
+}
+
+export type AdminDeliveryHistoryQuery = {
+  from?: string
+  to?: string
+  search?: string
+  sort?: "newest" | "oldest"
+  /** Limits the records to one municipality; always applied for municipal supervisors. */
+  municipality?: string
+}
+
+export const deliveryApi = {
+  byDate: <K extends string = string>(dateKey: string, signal?: AbortSignal) =>
+    apiRequest<{ records?: Array<DeliveryRecordDto<K>> }>(`/api/delivery/by-date/${encodeURIComponent(dateKey)}`, {
+      signal,
+    }),
+
+  /**
+   * Creates or replaces the item for `dateKey` + `categoryKey`, uploading any
+   * new `images` files.
+   */
+  saveItem: <K extends string = string>(input: SaveDeliveryItemInput) =>
+    apiRequest<{ record?: DeliveryRecordDto<K> }>("/api/delivery/item", {
+      method: "POST",
+      formData: deliveryItemForm(input),
+      timeoutMs: 120_000,
+    }),
+
+  removeItem: (dateKey: string, categoryKey: string) =>
+    apiRequest<unknown>("/api/delivery/item", { method: "DELETE", json: { dateKey, categoryKey } }),
+
+  history: <K extends string = string>(query: DeliveryHistoryQuery, signal?: AbortSignal) =>
+    apiRequest<{ records?: Array<DeliveryRecordDto<K>> }>("/api/delivery/history", { query, signal }),
+
+  /** Schedules of the signed-in school that have occurrences within the range. */
+  schedules: (query: DeliveryScheduleQuery, signal?: AbortSignal) =>
+    apiRequest<{ schedules?: DeliveryScheduleDto[] }>("/api/delivery/schedules", { query, signal }),
+
+  /** Every school's schedules; admin only. */
+  adminSchedules: (query: DeliveryScheduleQuery, signal?: AbortSignal) =>
+    apiRequest<{ schedules?: DeliveryScheduleDto[] }>("/api/admin/delivery/schedules", { query, signal }),
+
+  createSchedule: (input: SaveDeliveryScheduleInput) =>
+    apiRequest<{ schedule?: DeliveryScheduleDto }>("/api/admin/delivery/schedules", { method: "POST", json: input }),
+
+  updateSchedule: (id: string, input: SaveDeliveryScheduleInput) =>
+    apiRequest<{ schedule?: DeliveryScheduleDto }>(schedulePath(id), { method: "PUT", json: input }),
+
+  removeSchedule: (id: string) => apiRequest<unknown>(schedulePath(id), { method: "DELETE" }),
+
+  /** Photo hashes from every school within the range; admin only. */
+  adminImageFingerprints: (query: { from?: string; to?: string }, signal?: AbortSignal) =>
+    apiRequest<{ fingerprints?: DeliveryImageFingerprintDto[] }>("/api/admin/delivery/image-fingerprints", {
+      query,
+      signal,
+    }),
+
+  /** All schools; admin only. */
+  adminHistory: (query: AdminDeliveryHistoryQuery, signal?: AbortSignal) =>
+    apiRequest<{ records?: AdminDeliveryRecordDto[] }>("/api/admin/delivery/history", { query, signal }),
+}
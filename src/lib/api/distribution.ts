@@ -0,0 +1,129 @@
+import { apiRequest } from "./client"
+
+export type DistributionCategory =
+  | "rice"
+  | "water"
+  | "lpg"
+  | "fruits-veggies"
+  | "equipments"
+  | "grocery"
+  | "consumables"
+  | "meat"
+
+type DistributionRowBase = {
+  municipality: string
+  schoolName: string
+}
+
+type WeeklyQuantities = {
+  week1: number
+  week2: number
+  week3: number
+  week4: number
+  week5: number
+  total: number
+}
+
+/** Per-category quantity columns, as sent in batch items and returned in rows. */
+export type DistributionItemByCategory = {
+  lpg: DistributionRowBase & { gasul: number }
+  rice: DistributionRowBase & { rice: number }
+  water: DistributionRowBase & WeeklyQuantities & { beneficiaries: number; water: number }
+  "fruits-veggies": DistributionRowBase & WeeklyQuantities & { beneficiaries: number }
+  equipments: DistributionRowBase & { quantity: number }
+  grocery: DistributionRowBase & WeeklyQuantities & { beneficiaries: number }
+  consumables: DistributionRowBase & WeeklyQuantities
+  meat: DistributionRowBase & WeeklyQuantities & { beneficiaries: number }
+}
+
+export type DistributionRowDto<C extends DistributionCategory> = DistributionItemByCategory[C] & {
+  _id?: string
+  id?: string
+}
+
+export type DistributionBatchDto = {
+  _id?: string
+  id?: string
+  category?: DistributionCategory
+  bhssKitchenName?: string
+  sheetName?: string
+  sourceFileName?: string
+  createdAt?: string
+  uploadedByName?: string
+  rowCount?: number
+  /** Column sums keyed by quantity field, computed by the server on save. */
+  totals?: Record<string, number>
+  /** Set on the batch the category's `latest` endpoint currently serves. */
+  isCurrent?: boolean
+  /** Id of the batch this one was restored from, for rollbacks. */
+  restoredFromId?: string
+}
+
+export type SaveDistributionBatchInput<C extends DistributionCategory> = {
+  bhssKitchenName: string
+  sheetName: string
+  sourceFileName: string
+  items: Array<DistributionItemByCategory[C]>
+}
+
+/** Numeric columns of a category that can be edited in place. */
+export type DistributionEditableField<C extends DistributionCategory> = Exclude<
+  keyof DistributionItemByCategory[C],
+  keyof DistributionRowBase
+>
+
+const base = (category: DistributionCategory) => `/api/admin/distribution/${category}`
+const batchPath = (id: string) => `/api/admin/distribution/batches/${encodeURIComponent(id)}`
+
+export const distributionApi = {
+  latest: <C extends DistributionCategory>(
+    category: C,
+    query: { municipality?: string } = {},
+    signal?: AbortSignal
+  ) =>
+    apiRequest<{ rows?: Array<DistributionRowDto<C>>; batch?: DistributionBatchDto }>(`${base(category)}/latest`, {
+      query,
+      signal,
+    }),
+
+  /**
+   * Every category saves through the same endpoint. Resolves with
+   * `unchanged: true` when the batch matches the latest saved one.
+   */
+  saveBatch: <C extends DistributionCategory>(category: C, input: SaveDistributionBatchInput<C>) =>
+    apiRequest<{ unchanged?: boolean; batch?: DistributionBatchDto }>("/api/admin/distribution/batches", {
+      method: "POST",
+      json: { category, ...input },
+      timeoutMs: 120_000,
+    }),
+
+  /** Every saved batch of a category, newest first. */
+  listBatches: (category: DistributionCategory, signal?: AbortSignal) =>
+    apiRequest<{ batches?: DistributionBatchDto[] }>("/api/admin/distribution/batches", {
+      query: { category },
+      signal,
+    }),
+
+  batchRows: <C extends DistributionCategory>(batchId: string, signal?: AbortSignal) =>
+    apiRequest<{ rows?: Array<DistributionRowDto<C>>; batch?: DistributionBatchDto }>(`${batchPath(batchId)}/rows`, {
+      signal,
+    }),
+
+  /**
+   * Makes an older batch the current one. The server copies it into a new
+   * batch, so history is never rewritten and the rollback itself can be undone.
+   */
+  restoreBatch: (batchId: string) =>
+    apiRequest<{ batch?: DistributionBatchDto }>(`${batchPath(batchId)}/restore`, { method: "POST" }),
+
+  updateRow: <C extends DistributionCategory>(
+    category: C,
+    rowId: string,
+    field: DistributionEditableField<C>,
+    value: number
+  ) =>
+    apiRequest<{ row?: DistributionRowDto<C> }>(`${base(category)}/rows/${encodeURIComponent(rowId)}`, {
+      method: "PATCH",
+      json: { field, value },
+    }),
+}
@@ -0,0 +1,82 @@
+import { apiRequest } from "./client"
+
+export type EventAttachmentDto = {
+  url: string
+  originalName: string
+  filename: string
+  mimeType: string
+  size: number
+}
+
+export type CalendarEventDto = {
+  _id?: string
+  id?: string
+  title: string
+  description?: string
+  dateKey: string
+  startTime: string
+  endTime: string
+  status?: "Scheduled" | "Cancelled"
+  cancelReason?: string
+  cancelledAt?: string
+  attachment?: EventAttachmentDto
+  createdAt?: string
+}
+
+export type EventRangeQuery = {
+  from?: string
+  to?: string
+}
+
+export type EventFormInput = {
+  title: string
+  description: string
+  dateKey: string
+  startTime: string
+  endTime: string
+  attachment?: File | null
+}
+
+function toFormData(input: EventFormInput) {
+  const fd = new FormData()
+  fd.append("title", input.title)
+  fd.append("description", input.description)
+  fd.append("dateKey", input.dateKey)
+  fd.append("startTime", input.startTime)
+  fd.append("endTime", input.endTime)
+  if (input.attachment) fd.append("attachment", input.attachment)
+  return fd
+}
+
+const adminEventPath = (id: string) => `/api/admin/events/${encodeURIComponent(id)}`
+
+export const eventsApi = {
+  list: (query: EventRangeQuery = {}, signal?: AbortSignal) =>
+    apiRequest<{ events?: CalendarEventDto[] }>("/api/events", { query, signal }),
+
+  get: (id: string, signal?: AbortSignal) =>
+    apiRequest<{ event?: CalendarEventDto }>(`/api/events/${encodeURIComponent(id)}`, { signal }),
+
+  adminList: (query: EventRangeQuery, signal?: AbortSignal) =>
+    apiRequest<{ events?: CalendarEventDto[] }>("/api/admin/events", { query, signal }),
+
+  create: (input: EventFormInput) =>
+    apiRequest<{ event?: CalendarEventDto }>("/api/admin/events", {
+      method: "POST",
+      formData: toFormData(input),
+      timeoutMs: 120_000,
+    }),
+
+  update: (id: string, input: EventFormInput) =>
+    apiRequest<{ event?: CalendarEventDto }>(adminEventPath(id), {
+      method: "PUT",
+      formData: toFormData(input),
+      timeoutMs: 120_000,
+    }),
+
+  cancel: (id: string, reason: string) =>
+    apiRequest<{ event?: CalendarEventDto }>(`${adminEventPath(id)}/cancel`, {
+      method: "POST",
+      json: { reason },
+    }),
+}
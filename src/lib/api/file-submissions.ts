@@ -0,0 +1,121 @@
+import { apiBlob, apiRequest, buildQuery, getApiBaseUrl } from "./client"
+
+export type FileSubmissionStatus = "pending" | "uploaded" | "rejected"
+
+/** Review note left on a submission by the provincial office or a supervisor. */
+export type FileSubmissionCommentDto = {
+  id: string
+  body: string
+  authorName?: string
+  authorRole?: string
+  createdAt: string
+}
+
+export type FileSubmissionDto = {
+  id: string
+  name: string
+  size: number
+  type: string
+  description: string
+  uploadedAt: string
+  status: FileSubmissionStatus
+  folder: string
+  url?: string
+  comments?: FileSubmissionCommentDto[]
+}
+
+export type FileSubmissionCoordinator = {
+  id: string
+  name: string
+  username: string
+  municipality: string
+  school: string
+  hlaRoleType: string
+}
+
+/** Submission as listed for admins, with the uploading coordinator attached. */
+export type AdminFileSubmissionRow = {
+  id: string
+  folder: string
+  name: string
+  size: number
+  type: string
+  description: string
+  uploadedAt: string
+  status: string
+  url: string
+  coordinator: FileSubmissionCoordinator
+  comments?: FileSubmissionCommentDto[]
+}
+
+export type UploadFileSubmissionsInput = {
+  folder: string
+  description: string
+  uploadDate: string
+  files: File[]
+}
+
+export type AdminFileSubmissionHistoryQuery = {
+  from?: string
+  to?: string
+  search?: string
+  /** Limits the records to one municipality; always applied for municipal supervisors. */
+  municipality?: string
+}
+
+export const fileSubmissionsApi = {
+  list: (query: { date: string; folder?: string | null }, signal?: AbortSignal) =>
+    apiRequest<{ files?: FileSubmissionDto[] }>("/api/file-submissions", { query, signal }),
+
+  folderCounts: (date: string, signal?: AbortSignal) =>
+    apiRequest<{ folderCounts?: Record<string, number> }>("/api/file-submissions/stats/counts", {
+      query: { date },
+      signal,
+    }),
+
+  upload: (input: UploadFileSubmissionsInput) => {
+    const fd = new FormData()
+    // Fields must be appended BEFORE files so multer's fileFilter can read them
+    fd.append("folder", input.folder)
+    fd.append("description", input.description)
+    fd.append("uploadDate", input.uploadDate)
+    input.files.forEach((file) => fd.append("files", file))
+    return apiRequest<{ message?: string; files?: FileSubmissionDto[] }>("/api/file-submissions/upload", {
+      method: "POST",
+      formData: fd,
+      timeoutMs: 300_000,
+    })
+  },
+
+  remove: (id: string) =>
+    apiRequest<unknown>(`/api/file-submissions/${encodeURIComponent(id)}`, { method: "DELETE" }),
+
+  download: (id: string) =>
+    apiBlob(`/api/file-submissions/download/${encodeURIComponent(id)}`, { timeoutMs: 120_000 }),
+
+  adminHistory: (query: AdminFileSubmissionHistoryQuery, signal?: AbortSignal) =>
+    apiRequest<{ records?: AdminFileSubmissionRow[] }>("/api/admin/file-submissions/history", { query, signal }),
+
+  adminAddComment: (id: string, body: string) =>
+    apiRequest<{ record?: AdminFileSubmissionRow }>(
+      `/api/admin/file-submissions/${encodeURIComponent(id)}/comments`,
+      { method: "POST", json: { body } }
+    ),
+
+  adminDownload: (id: string, opts: { view?: boolean; signal?: AbortSignal } = {}) =>
+    apiBlob(`/api/admin/file-submissions/download/${encodeURIComponent(id)}`, {
+      query: { view: opts.view ? "true" : undefined },
+      signal: opts.signal,
+      timeoutMs: 120_000,
+    }),
+
+  /**
+   * Direct link for opening a file in a new tab, where no Authorization header
+   * can be sent; the backend accepts the session token as a query parameter.
+   */
+  adminViewUrl: (id: string, token: string) =>
+    `${getApiBaseUrl()}/api/admin/file-submissions/download/${encodeURIComponent(id)}${buildQuery({
+      view: "true",
+      token,
+    })}`,
+}
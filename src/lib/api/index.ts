@@ -0,0 +1,17 @@
+export * from "./client"
+export * from "./activities"
+export * from "./announcements"
+export * from "./attendance"
+export * from "./audit"
+export * from "./auth"
+export * from "./delivery"
+export * from "./delivery-concerns"
+export * from "./distribution"
+export * from "./events"
+export * from "./file-submissions"
+export * from "./inventory"
+export * from "./procurement"
+export * from "./push"
+export * from "./school-directory"
+export * from "./two-factor"
+export * from "./users"
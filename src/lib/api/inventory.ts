@@ -0,0 +1,70 @@
+import { apiRequest } from "./client"
+
+// ─── Kitchen inventory ────────────────────────────────────────────────────────
+// Each school keeps a ledger of stock movements per item: confirmed deliveries
+// add to it, daily consumption and stock-count corrections move it either way.
+// Balances are the running sum of the ledger.
+
+export type InventoryItemKey = "rice" | "water" | "lpg" | "groceries"
+
+export type InventoryMovementKind = "receipt" | "consumption" | "adjustment"
+
+export type InventoryMovementDto = {
+  id: string
+  dateKey: string
+  itemKey: InventoryItemKey
+  kind: InventoryMovementKind
+  /** Positive for receipts and consumption; signed for adjustments. */
+  quantity: number
+  /** Delivery record a receipt was confirmed from. */
+  deliveryRecordId?: string
+  note?: string
+  createdByName?: string
+  createdAt?: string
+}
+
+/** Stock on hand for one school and item, as rolled up by the server. */
+export type AdminInventoryBalanceDto = {
+  municipality: string
+  school: string
+  itemKey: InventoryItemKey
+  balance: number
+  /** Mean daily consumption over the last 14 days. */
+  avgDailyConsumption: number
+  lastMovementDateKey?: string
+}
+
+export type ReceiveDeliveryInput = {
+  deliveryRecordId: string
+  dateKey: string
+  itemKey: InventoryItemKey
+  quantity: number
+  note?: string
+}
+
+export type InventoryEntryInput = {
+  dateKey: string
+  itemKey: InventoryItemKey
+  quantity: number
+  note?: string
+}
+
+export const inventoryApi = {
+  /** The signed-in school's whole ledger, oldest first. */
+  ledger: (signal?: AbortSignal) =>
+    apiRequest<{ movements?: InventoryMovementDto[] }>("/api/inventory/ledger", { signal }),
+
+  receive: (input: ReceiveDeliveryInput) =>
+    apiRequest<{ movement?: InventoryMovementDto }>("/api/inventory/receipts", { method: "POST", json: input }),
+
+  recordConsumption: (input: InventoryEntryInput) =>
+    apiRequest<{ movement?: InventoryMovementDto }>("/api/inventory/consumption", { method: "POST", json: input }),
+
+  /** Stock-count correction; `quantity` is the signed difference. */
+  recordAdjustment: (input: InventoryEntryInput) =>
+    apiRequest<{ movement?: InventoryMovementDto }>("/api/inventory/adjustments", { method: "POST", json: input }),
+
+  /** All schools; admin only. */
+  adminBalances: (query: { municipality?: string } = {}, signal?: AbortSignal) =>
+    apiRequest<{ balances?: AdminInventoryBalanceDto[] }>("/api/admin/inventory/balances", { query, signal }),
+}
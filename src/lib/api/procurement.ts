@@ -0,0 +1,173 @@
+import { apiRequest } from "./client"
+
+// ─── Procurement ──────────────────────────────────────────────────────────────
+// Suppliers, purchase requests (PR) and purchase orders (PO). Both documents
+// carry the same line shape so an approved request can be turned into an order
+// and every order line can later be matched against a school's delivery log.
+
+export type SupplierDto = {
+  id: string
+  name: string
+  contactPerson: string
+  contactNumber: string
+  email: string
+  address: string
+  tin: string
+  /** Delivery category keys the supplier can serve. */
+  categories: string[]
+  /** Schools the supplier delivers to; deliveries there are attributed to it. */
+  schools?: SupplierSchoolDto[]
+  active: boolean
+  createdAt?: string
+  updatedAt?: string
+}
+
+export type SupplierSchoolDto = {
+  municipality: string
+  school: string
+}
+
+export type SaveSupplierInput = Omit<SupplierDto, "id" | "createdAt" | "updatedAt">
+
+export type ProcurementLineDto = {
+  id?: string
+  description: string
+  unit: string
+  quantity: number
+  unitCost: number
+  municipality: string
+  school: string
+  /** `yyyy-MM-dd` the school is expected to receive the line. */
+  deliveryDate: string
+}
+
+export type PurchaseRequestStatus = "Draft" | "Submitted" | "Approved" | "Rejected" | "Ordered"
+
+export type PurchaseOrderStatus =
+  | "Draft"
+  | "For Approval"
+  | "Approved"
+  | "Rejected"
+  | "Issued"
+  | "Completed"
+  | "Cancelled"
+
+/** One step of a document's approval trail, newest last. */
+export type ApprovalEntryDto = {
+  action: string
+  status: string
+  byName?: string
+  at: string
+  remarks?: string
+}
+
+export type PurchaseRequestDto = {
+  id: string
+  prNumber: string
+  categoryKey: string
+  categoryLabel: string
+  purpose: string
+  /** `yyyy-MM-dd` */
+  neededBy: string
+  status: PurchaseRequestStatus
+  lines: ProcurementLineDto[]
+  history: ApprovalEntryDto[]
+  requestedByName?: string
+  purchaseOrderId?: string
+  createdAt?: string
+  updatedAt?: string
+}
+
+export type SavePurchaseRequestInput = Pick<
+  PurchaseRequestDto,
+  "categoryKey" | "categoryLabel" | "purpose" | "neededBy" | "lines"
+>
+
+export type PurchaseOrderDto = {
+  id: string
+  poNumber: string
+  requestId?: string
+  prNumber?: string
+  supplierId: string
+  supplierName: string
+  categoryKey: string
+  categoryLabel: string
+  status: PurchaseOrderStatus
+  terms: string
+  lines: ProcurementLineDto[]
+  history: ApprovalEntryDto[]
+  preparedByName?: string
+  approvedByName?: string
+  issuedAt?: string
+  createdAt?: string
+  updatedAt?: string
+}
+
+export type SavePurchaseOrderInput = Pick<
+  PurchaseOrderDto,
+  "supplierId" | "categoryKey" | "categoryLabel" | "terms" | "lines"
+>
+
+export type PurchaseRequestAction = "submit" | "approve" | "reject" | "revise"
+
+export type PurchaseOrderAction = "submit" | "approve" | "reject" | "revise" | "issue" | "complete" | "cancel"
+
+export type ProcurementListQuery = {
+  status?: string
+  categoryKey?: string
+  search?: string
+}
+
+const supplierPath = (id: string) => `/api/admin/procurement/suppliers/${encodeURIComponent(id)}`
+const requestPath = (id: string) => `/api/admin/procurement/requests/${encodeURIComponent(id)}`
+const orderPath = (id: string) => `/api/admin/procurement/orders/${encodeURIComponent(id)}`
+
+export const procurementApi = {
+  listSuppliers: (signal?: AbortSignal) =>
+    apiRequest<{ suppliers?: SupplierDto[] }>("/api/admin/procurement/suppliers", { signal }),
+
+  createSupplier: (input: SaveSupplierInput) =>
+    apiRequest<{ supplier?: SupplierDto }>("/api/admin/procurement/suppliers", { method: "POST", json: input }),
+
+  updateSupplier: (id: string, input: Partial<SaveSupplierInput>) =>
+    apiRequest<{ supplier?: SupplierDto }>(supplierPath(id), { method: "PATCH", json: input }),
+
+  removeSupplier: (id: string) => apiRequest<unknown>(supplierPath(id), { method: "DELETE" }),
+
+  listRequests: (query: ProcurementListQuery, signal?: AbortSignal) =>
+    apiRequest<{ requests?: PurchaseRequestDto[] }>("/api/admin/procurement/requests", { query, signal }),
+
+  createRequest: (input: SavePurchaseRequestInput) =>
+    apiRequest<{ request?: PurchaseRequestDto }>("/api/admin/procurement/requests", { method: "POST", json: input }),
+
+  /** Only drafts can be edited; the server rejects anything else. */
+  updateRequest: (id: string, input: SavePurchaseRequestInput) =>
+    apiRequest<{ request?: PurchaseRequestDto }>(requestPath(id), { method: "PUT", json: input }),
+
+  removeRequest: (id: string) => apiRequest<unknown>(requestPath(id), { method: "DELETE" }),
+
+  transitionRequest: (id: string, action: PurchaseRequestAction, remarks?: string) =>
+    apiRequest<{ request?: PurchaseRequestDto }>(`${requestPath(id)}/${action}`, {
+      method: "POST",
+      json: { remarks: remarks || "" },
+    }),
+
+  /** Turns an approved request into a draft PO; the request becomes "Ordered". */
+  createOrderFromRequest: (id: string, input: { supplierId: string; terms: string }) =>
+    apiRequest<{ order?: PurchaseOrderDto; request?: PurchaseRequestDto }>(`${requestPath(id)}/order`, {
+      method: "POST",
+      json: input,
+    }),
+
+  listOrders: (query: ProcurementListQuery, signal?: AbortSignal) =>
+    apiRequest<{ orders?: PurchaseOrderDto[] }>("/api/admin/procurement/orders", { query, signal }),
+
+  updateOrder: (id: string, input: SavePurchaseOrderInput) =>
+    apiRequest<{ order?: PurchaseOrderDto }>(orderPath(id), { method: "PUT", json: input }),
+
+  transitionOrder: (id: string, action: PurchaseOrderAction, remarks?: string) =>
+    apiRequest<{ order?: PurchaseOrderDto }>(`${orderPath(id)}/${action}`, {
+      method: "POST",
+      json: { remarks: remarks || "" },
+    }),
+}
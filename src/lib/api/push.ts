@@ -0,0 +1,8 @@
+import { apiRequest } from "./client"
+
+export const pushApi = {
+  vapidPublicKey: () => apiRequest<{ publicKey?: string }>("/api/push/vapid-public-key"),
+
+  subscribe: (subscription: PushSubscription) =>
+    apiRequest<unknown>("/api/push/subscribe", { method: "POST", json: subscription }),
+}
@@ -0,0 +1,120 @@
+import { apiRequest } from "./client"
+
+export type SchoolBeneficiaryRow = {
+  id: string
+  municipality: string
+  schoolYear: string
+  bhssKitchenName: string
+  schoolName: string
+  grade2: number
+  grade3: number
+  grade4: number
+  total: number
+  createdAt?: string
+  updatedAt?: string
+}
+
+export type SchoolDetailsRow = {
+  id: string
+  municipality: string
+  schoolYear: string
+  completeName: string
+  principalName: string
+  principalContact: string
+  hlaCoordinatorName: string
+  hlaCoordinatorContact: string
+  hlaCoordinatorFacebook: string
+  hlaManagerName: string
+  hlaManagerContact: string
+  hlaManagerFacebook: string
+  chiefCookName: string
+  chiefCookContact: string
+  chiefCookFacebook: string
+  assistantCookName: string
+  assistantCookContact: string
+  assistantCookFacebook: string
+  nurseName: string
+  nurseContact: string
+  nurseFacebook: string
+  createdAt?: string
+  updatedAt?: string
+}
+
+/**
+ * A spelling of a school seen in an imported spreadsheet, remembered as
+ * meaning a directory school so later imports resolve it without asking.
+ */
+export type SchoolAliasDto = {
+  id: string
+  municipality: string
+  name: string
+  targetMunicipality: string
+  targetSchoolName: string
+  createdAt?: string
+}
+
+export type CreateSchoolAliasInput = Omit<SchoolAliasDto, "id" | "createdAt">
+
+export type CreateBeneficiaryBulkInput = {
+  municipality: string
+  schoolYear: string
+  items: Array<
+    Pick<
+      SchoolBeneficiaryRow,
+      "bhssKitchenName" | "schoolName" | "grade2" | "grade3" | "grade4"
+    >
+  >
+}
+
+export type UpdateBeneficiaryInput = Partial<
+  Pick<
+    SchoolBeneficiaryRow,
+    "bhssKitchenName" | "schoolName" | "grade2" | "grade3" | "grade4"
+  >
+>
+
+export type CreateDetailsInput = Omit<
+  SchoolDetailsRow,
+  "id" | "createdAt" | "updatedAt"
+>
+
+export type UpdateDetailsInput = Partial<
+  Omit<SchoolDetailsRow, "id" | "municipality" | "schoolYear" | "createdAt" | "updatedAt">
+>
+
+const beneficiaryPath = (id: string) => `/api/school-directory/beneficiaries/${encodeURIComponent(id)}`
+const detailsPath = (id: string) => `/api/school-directory/details/${encodeURIComponent(id)}`
+const aliasPath = (id: string) => `/api/school-directory/aliases/${encodeURIComponent(id)}`
+
+export const schoolDirectoryApi = {
+  listBeneficiaries: (query: { municipality?: string; schoolYear?: string }, signal?: AbortSignal) =>
+    apiRequest<{ rows: SchoolBeneficiaryRow[] }>("/api/school-directory/beneficiaries", { query, signal }),
+
+  bulkCreateBeneficiaries: (input: CreateBeneficiaryBulkInput) =>
+    apiRequest<unknown>("/api/school-directory/beneficiaries/bulk", { method: "POST", json: input }),
+
+  updateBeneficiary: (id: string, input: UpdateBeneficiaryInput) =>
+    apiRequest<{ row?: SchoolBeneficiaryRow }>(beneficiaryPath(id), { method: "PATCH", json: input }),
+
+  removeBeneficiary: (id: string) => apiRequest<unknown>(beneficiaryPath(id), { method: "DELETE" }),
+
+  listDetails: (query: { municipality?: string; schoolYear?: string }, signal?: AbortSignal) =>
+    apiRequest<{ rows: SchoolDetailsRow[] }>("/api/school-directory/details", { query, signal }),
+
+  createDetails: (input: CreateDetailsInput) =>
+    apiRequest<{ row?: SchoolDetailsRow }>("/api/school-directory/details", { method: "POST", json: input }),
+
+  updateDetails: (id: string, input: UpdateDetailsInput) =>
+    apiRequest<{ row?: SchoolDetailsRow }>(detailsPath(id), { method: "PATCH", json: input }),
+
+  removeDetails: (id: string) => apiRequest<unknown>(detailsPath(id), { method: "DELETE" }),
+
+  listAliases: (signal?: AbortSignal) =>
+    apiRequest<{ aliases?: SchoolAliasDto[] }>("/api/school-directory/aliases", { signal }),
+
+  /** Replaces any alias already stored for the same municipality and name. */
+  saveAlias: (input: CreateSchoolAliasInput) =>
+    apiRequest<{ alias?: SchoolAliasDto }>("/api/school-directory/aliases", { method: "POST", json: input }),
+
+  removeAlias: (id: string) => apiRequest<unknown>(aliasPath(id), { method: "DELETE" }),
+}
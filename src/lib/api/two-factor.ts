@@ -0,0 +1,67 @@
+import { apiRequest } from "./client"
+import type { LoginResponse } from "./auth"
+
+// ─── Two-factor authentication ────────────────────────────────────────────────
+// A time-based one-time code (TOTP) from an authenticator app as a second sign-in
+// step. Setup and confirmation normally run on the signed-in session; during a
+// sign-in that requires setup they run on the login challenge token instead.
+
+export type TwoFactorStatus = {
+  enabled: boolean
+  /** The account's role requires two-factor, so it cannot be turned off. */
+  enforced: boolean
+  backupCodesRemaining?: number
+}
+
+export type TwoFactorEnrollment = {
+  /** Base32 secret for apps that cannot scan the QR code. */
+  secret: string
+  otpauthUrl: string
+  /** PNG data URL rendered by the server. */
+  qrCodeDataUrl: string
+}
+
+/** Backup codes are only ever shown once, right after they are generated. */
+export type TwoFactorEnabled = {
+  backupCodes: string[]
+} & Partial<LoginResponse>
+
+export type TwoFactorPolicy = {
+  /** Admin-portal accounts must set up two-factor at their next sign-in. */
+  enforceForAdmins: boolean
+}
+
+const sessionOrChallenge = (challengeToken?: string) => ({ auth: !challengeToken })
+
+export const twoFactorApi = {
+  status: (signal?: AbortSignal) => apiRequest<TwoFactorStatus>("/api/auth/2fa", { signal }),
+
+  /** Starts setup; nothing changes until `enable` confirms a code from the app. */
+  setup: (challengeToken?: string) =>
+    apiRequest<TwoFactorEnrollment>("/api/auth/2fa/setup", {
+      method: "POST",
+      json: { challengeToken },
+      ...sessionOrChallenge(challengeToken),
+    }),
+
+  /** With a challenge token the response also carries the new session. */
+  enable: (code: string, challengeToken?: string) =>
+    apiRequest<TwoFactorEnabled>("/api/auth/2fa/enable", {
+      method: "POST",
+      json: { code, challengeToken },
+      ...sessionOrChallenge(challengeToken),
+    }),
+
+  disable: (code: string) =>
+    apiRequest<unknown>("/api/auth/2fa/disable", { method: "POST", json: { code } }),
+
+  /** Replaces every unused backup code. */
+  regenerateBackupCodes: (code: string) =>
+    apiRequest<{ backupCodes: string[] }>("/api/auth/2fa/backup-codes", { method: "POST", json: { code } }),
+
+  getPolicy: (signal?: AbortSignal) =>
+    apiRequest<TwoFactorPolicy>("/api/admin/security/2fa-policy", { signal }),
+
+  setPolicy: (policy: TwoFactorPolicy) =>
+    apiRequest<TwoFactorPolicy>("/api/admin/security/2fa-policy", { method: "PUT", json: policy }),
+}
@@ -0,0 +1,109 @@
+import { apiRequest } from "./client"
+
+/**
+ * Access role assigned by a provincial admin. Accounts without one are read
+ * from `role` and `hlaRoleType`; see `roleOf` in lib/permissions.
+ */
+export type AccessRole =
+  | "provincial-admin"
+  | "municipal-supervisor"
+  | "hla-manager"
+  | "hla-coordinator"
+  | "auditor"
+
+export type BhssUser = {
+  id: string
+  email?: string
+  username: string
+  name: string
+  school: string
+  contactNumber?: string
+  schoolAddress?: string
+  hlaManagerName?: string
+  hlaRoleType?: "HLA Manager" | "HLA Coordinator"
+  municipality: string
+  province: string
+  role: "user" | "admin"
+  accessRole?: AccessRole
+  isActive: boolean
+  avatarUrl?: string
+  twoFactorEnabled?: boolean
+  createdAt?: string
+}
+
+export type CreateBhssUserInput = {
+  email?: string
+  username: string
+  password: string
+  name: string
+  school: string
+  municipality: string
+  contactNumber?: string
+  schoolAddress?: string
+  hlaManagerName?: string
+  hlaRoleType?: string
+  province?: string
+  role?: "user" | "admin"
+}
+
+export type UpdateBhssUserInput = Partial<
+  Pick<
+    BhssUser,
+    | "email"
+    | "username"
+    | "school"
+    | "municipality"
+    | "province"
+    | "role"
+    | "accessRole"
+    | "isActive"
+    | "contactNumber"
+    | "schoolAddress"
+    | "hlaManagerName"
+  > & { name: string }
+>
+
+export type ChangeOwnPasswordInput = {
+  currentPassword: string
+  newPassword: string
+}
+
+const userPath = (id: string) => `/api/users/${encodeURIComponent(id)}`
+
+export const usersApi = {
+  list: (signal?: AbortSignal) => apiRequest<{ users: BhssUser[] }>("/api/users", { signal }),
+
+  get: (id: string, signal?: AbortSignal) => apiRequest<{ user: BhssUser }>(userPath(id), { signal }),
+
+  create: (input: CreateBhssUserInput) =>
+    apiRequest<{ user?: BhssUser }>("/api/users", { method: "POST", json: input }),
+
+  update: (id: string, input: UpdateBhssUserInput) =>
+    apiRequest<{ user?: BhssUser }>(userPath(id), { method: "PATCH", json: input }),
+
+  setActive: (id: string, isActive: boolean) =>
+    apiRequest<{ user?: BhssUser }>(`${userPath(id)}/active`, { method: "PATCH", json: { isActive } }),
+
+  /** Admin reset: sets a new password without knowing the current one. */
+  resetPassword: (id: string, password: string) =>
+    apiRequest<unknown>(`${userPath(id)}/password`, { method: "PATCH", json: { password } }),
+
+  /** Admin reset for a locked-out account: clears its authenticator secret and backup codes. */
+  resetTwoFactor: (id: string) => apiRequest<{ user?: BhssUser }>(`${userPath(id)}/2fa`, { method: "DELETE" }),
+
+  /** Self-service change from the account page. */
+  changePassword: (id: string, input: ChangeOwnPasswordInput) =>
+    apiRequest<unknown>(`${userPath(id)}/password`, { method: "PATCH", json: input }),
+
+  uploadAvatar: (id: string, file: File) => {
+    const form = new FormData()
+    form.append("avatar", file)
+    return apiRequest<{ user: BhssUser }>(`${userPath(id)}/avatar`, {
+      method: "POST",
+      formData: form,
+      timeoutMs: 120_000,
+    })
+  },
+
+  remove: (id: string) => apiRequest<unknown>(userPath(id), { method: "DELETE" }),
+}
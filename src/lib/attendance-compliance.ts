@@ -0,0 +1,267 @@
+import { format, isWeekend, subDays } from "date-fns"
+
+import type { AttendanceRecordDto, BhssUser, SchoolBeneficiaryRow } from "@/lib/api"
+
+// ─── Attendance compliance ────────────────────────────────────────────────────
+// The school directory says which schools feed which grades; attendance
+// records say what was actually submitted. Joining the two per school day
+// shows who is missing, who sent only some grades, and for how long.
+
+export type ComplianceStatus = "complete" | "partial" | "missing"
+
+export type ExpectedSchool = {
+  municipality: string
+  school: string
+  /** Grades with beneficiaries, e.g. `["Grade 2", "Grade 4"]`. */
+  grades: string[]
+}
+
+export type SchoolCompliance = ExpectedSchool & {
+  status: ComplianceStatus
+  submittedGrades: string[]
+  missingGrades: string[]
+  /** Consecutive school days up to the selected day with every grade submitted. */
+  completeStreak: number
+  /** Consecutive school days up to the selected day with nothing submitted. */
+  missingStreak: number
+  lastSubmittedKey: string | null
+}
+
+const BENEFICIARY_GRADES = [
+  ["Grade 2", "grade2"],
+  ["Grade 3", "grade3"],
+  ["Grade 4", "grade4"],
+] as const
+
+const norm = (s: string | undefined) =>
+  String(s || "")
+    .trim()
+    .replace(/\s+/g, " ")
+    .toLowerCase()
+
+export function schoolKey(municipality: string | undefined, school: string | undefined) {
+  return `${norm(municipality)}|${norm(school)}`
+}
+
+/** "2", "grade 2" and "Grade 2" all mean the same grade. */
+export function normalizeGrade(grade: string | undefined) {
+  const g = String(grade || "").trim()
+  const n = g.match(/^(?:grade\s*)?(\d+)$/i)?.[1]
+  return n ? `Grade ${Number(n)}` : g
+}
+
+/** School year a date falls in; classes open in June. */
+export function schoolYearFor(date: Date) {
+  const y = date.getFullYear()
+  return date.getMonth() >= 5 ? `${y}-${y + 1}` : `${y - 1}-${y}`
+}
+
+export function expectedSchoolsFromBeneficiaries(rows: SchoolBeneficiaryRow[]): ExpectedSchool[] {
+  const byKey = new Map<string, ExpectedSchool>()
+  for (const r of rows) {
+    const key = schoolKey(r.municipality, r.schoolName)
+    const grades = BENEFICIARY_GRADES.filter(([, field]) => Number(r[field] || 0) > 0).map(([label]) => label)
+    const existing = byKey.get(key)
+    if (existing) {
+      existing.grades = Array.from(new Set([...existing.grades, ...grades])).sort()
+    } else {
+      byKey.set(key, { municipality: r.municipality.trim(), school: r.schoolName.trim(), grades })
+    }
+  }
+  return Array.from(byKey.values())
+}
+
+/** Weekdays ending at `endKey` (inclusive), newest first. */
+export function schoolDays(endKey: string, count: number) {
+  const days: string[] = []
+  let d = new Date(`${endKey}T00:00:00`)
+  if (Number.isNaN(d.getTime())) return days
+  // A weekend pick still counts as the day being checked
+  days.push(endKey)
+  while (days.length < count) {
+    d = subDays(d, 1)
+    if (!isWeekend(d)) days.push(format(d, "yyyy-MM-dd"))
+  }
+  return days
+}
+
+function statusFor(expected: string[], submitted: Set<string> | undefined): ComplianceStatus {
+  if (!submitted || submitted.size === 0) return "missing"
+  // Schools without beneficiary counts are complete once anything is in
+  if (!expected.length) return "complete"
+  return expected.every((g) => submitted.has(g)) ? "complete" : "partial"
+}
+
+/**
+ * Compliance of every expected school on `days[0]`, with streaks counted over
+ * the rest of `days` (newest first, as returned by `schoolDays`).
+ */
+export function buildCompliance(expected: ExpectedSchool[], records: AttendanceRecordDto[], days: string[]) {
+  // school → day → grades submitted
+  const submitted = new Map<string, Map<string, Set<string>>>()
+  const expectedKeys = new Set(expected.map((s) => schoolKey(s.municipality, s.school)))
+  const unmatchedSchools = new Set<string>()
+
+  for (const r of records) {
+    const key = schoolKey(r.municipality, r.school)
+    if (!expectedKeys.has(key)) {
+      if (r.dateKey === days[0] && r.school) unmatchedSchools.add(key)
+      continue
+    }
+    let byDay = submitted.get(key)
+    if (!byDay) {
+      byDay = new Map()
+      submitted.set(key, byDay)
+    }
+    let grades = byDay.get(r.dateKey)
+    if (!grades) {
+      grades = new Set()
+      byDay.set(r.dateKey, grades)
+    }
+    grades.add(normalizeGrade(r.grade))
+  }
+
+  const schools: SchoolCompliance[] = expected.map((s) => {
+    const byDay = submitted.get(schoolKey(s.municipality, s.school))
+    const today = byDay?.get(days[0])
+    const statuses = days.map((d) => statusFor(s.grades, byDay?.get(d)))
+    const streak = (status: ComplianceStatus) => {
+      const i = statuses.findIndex((x) => x !== status)
+      return i === -1 ? statuses.length : i
+    }
+    const lastSubmittedKey = days.find((d) => (byDay?.get(d)?.size || 0) > 0) || null
+
+    return {
+      ...s,
+      status: statuses[0] || "missing",
+      submittedGrades: Array.from(today || []).sort(),
+      missingGrades: s.grades.filter((g) => !today?.has(g)),
+      completeStreak: streak("complete"),
+      missingStreak: streak("missing"),
+      lastSubmittedKey,
+    }
+  })
+
+  return { schools, unmatchedCount: unmatchedSchools.size }
+}
+
+/**
+ * Accounts to remind for a school: its HLA Manager when one is registered,
+ * otherwise every active account of that school.
+ */
+export function reminderRecipients(users: BhssUser[], municipality: string, school: string) {
+  const key = schoolKey(municipality, school)
+  const accounts = users.filter((u) => u.role === "user" && u.isActive && schoolKey(u.municipality, u.school) === key)
+  const managers = accounts.filter((u) => u.hlaRoleType === "HLA Manager")
+  return managers.length ? managers : accounts
+}
+
+// ─── Beneficiary reconciliation ───────────────────────────────────────────────
+// Present + absent for a grade should equal the learners registered for it in
+// the directory. Days that disagree, or that report a grade the school has no
+// beneficiaries for, are flagged.
+
+export type ReconciliationIssue = "ok" | "mismatch" | "unregistered-grade"
+
+export type ReconciledRecord = {
+  record: AttendanceRecordDto
+  municipality: string
+  school: string
+  grade: string
+  reported: number
+  expected: number
+  /** `(reported - expected) / expected`; `null` when nothing is registered. */
+  variance: number | null
+  issue: ReconciliationIssue
+}
+
+export type ReconciliationGroup = {
+  key: string
+  municipality: string
+  school: string
+  records: number
+  flagged: number
+  reported: number
+  expected: number
+  variance: number | null
+}
+
+function varianceOf(reported: number, expected: number) {
+  return expected > 0 ? (reported - expected) / expected : null
+}
+
+/**
+ * Compares each record with the directory. `tolerance` is the fraction a count
+ * may be off (e.g. `0.05`) before the day is flagged as a mismatch.
+ */
+export function reconcileAttendance(rows: SchoolBeneficiaryRow[], records: AttendanceRecordDto[], tolerance = 0) {
+  const registered = new Map<string, Map<string, number>>()
+  for (const r of rows) {
+    const key = schoolKey(r.municipality, r.schoolName)
+    const grades = registered.get(key) || new Map<string, number>()
+    for (const [label, field] of BENEFICIARY_GRADES) {
+      grades.set(label, (grades.get(label) || 0) + Number(r[field] || 0))
+    }
+    registered.set(key, grades)
+  }
+
+  const reconciled: ReconciledRecord[] = []
+  let unmatched = 0
+  for (const record of records) {
+    const grades = registered.get(schoolKey(record.municipality, record.school))
+    if (!grades) {
+      unmatched += 1
+      continue
+    }
+    const grade = normalizeGrade(record.grade)
+    const reported = Number(record.present || 0) + Number(record.absent || 0)
+    const expected = grades.get(grade) || 0
+    const variance = varianceOf(reported, expected)
+    const issue: ReconciliationIssue =
+      expected === 0
+        ? "unregistered-grade"
+        : Math.abs(variance ?? 0) > tolerance
+          ? "mismatch"
+          : "ok"
+    reconciled.push({
+      record,
+      municipality: String(record.municipality || "").trim(),
+      school: String(record.school || "").trim(),
+      grade,
+      reported,
+      expected,
+      variance,
+      issue,
+    })
+  }
+
+  return { records: reconciled, unmatched }
+}
+
+/** Rolls reconciled records up per school (`by: "school"`) or municipality. */
+export function groupReconciliation(records: ReconciledRecord[], by: "school" | "municipality") {
+  const groups = new Map<string, ReconciliationGroup>()
+  for (const r of records) {
+    const key = by === "school" ? schoolKey(r.municipality, r.school) : schoolKey(r.municipality, "")
+    let g = groups.get(key)
+    if (!g) {
+      g = {
+        key,
+        municipality: r.municipality,
+        school: by === "school" ? r.school : "",
+        records: 0,
+        flagged: 0,
+        reported: 0,
+        expected: 0,
+        variance: null,
+      }
+      groups.set(key, g)
+    }
+    g.records += 1
+    if (r.issue !== "ok") g.flagged += 1
+    g.reported += r.reported
+    g.expected += r.expected
+  }
+  for (const g of groups.values()) g.variance = varianceOf(g.reported, g.expected)
+  return Array.from(groups.values())
+}
@@ -0,0 +1,74 @@
+import { format } from "date-fns"
+
+import type { AuditEntityType, AuditEntryDto, AuditSnapshot } from "@/lib/api"
+
+// ─── Labels ───────────────────────────────────────────────────────────────────
+
+export const AUDIT_ENTITY_TYPES: Record<AuditEntityType, string> = {
+  user: "User account",
+  "school-beneficiary": "School directory",
+  "distribution-row": "Distribution",
+}
+
+const ACTION_LABELS: Record<string, string> = {
+  "user.update": "Edited account",
+  "user.activate": "Activated account",
+  "user.deactivate": "Deactivated account",
+  "user.reset-password": "Reset password",
+  "user.reset-2fa": "Reset two-factor",
+  "user.delete": "Deleted account",
+  "school-beneficiary.update": "Edited school",
+  "school-beneficiary.delete": "Deleted school",
+  "distribution-row.update": "Edited quantity",
+}
+
+export function auditActionLabel(action: string) {
+  return ACTION_LABELS[action] || action
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  username: "Username",
+  name: "Name",
+  email: "Email",
+  role: "Portal",
+  accessRole: "Access role",
+  hlaRoleType: "HLA role",
+  municipality: "Municipality",
+  school: "School",
+  isActive: "Active",
+  twoFactorEnabled: "Two-factor",
+  schoolYear: "School year",
+  bhssKitchenName: "BHSS kitchen",
+  schoolName: "School",
+  grade2: "Grade 2",
+  grade3: "Grade 3",
+  grade4: "Grade 4",
+  total: "Total",
+  category: "Category",
+}
+
+export function auditFieldLabel(field: string) {
+  return FIELD_LABELS[field] || field
+}
+
+export function formatAuditTime(iso: string | undefined) {
+  if (!iso) return "—"
+  const d = new Date(iso)
+  return Number.isNaN(d.getTime()) ? iso : format(d, "MMM d, yyyy h:mm a")
+}
+
+export function formatAuditValue(value: AuditSnapshot[string] | undefined) {
+  if (value === null || value === undefined || value === "") return "—"
+  if (typeof value === "boolean") return value ? "Yes" : "No"
+  return String(value)
+}
+
+/** Fields whose value differs between the two snapshots, in first-seen order. */
+export function auditChanges(entry: Pick<AuditEntryDto, "before" | "after">) {
+  const before = entry.before || {}
+  const after = entry.after || {}
+  const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+  return keys
+    .filter((field) => (before[field] ?? null) !== (after[field] ?? null))
+    .map((field) => ({ field, before: before[field], after: after[field] }))
+}
@@ -0,0 +1,83 @@
+import { format } from "date-fns"
+
+import type { ConcernHistoryEntryDto, ConcernTicketDto, ConcernTicketStatus } from "@/lib/api"
+
+// ─── Concern tickets ──────────────────────────────────────────────────────────
+
+export const CONCERN_TICKET_STATUSES: Array<{ value: ConcernTicketStatus; label: string }> = [
+  { value: "open", label: "Open" },
+  { value: "acknowledged", label: "Acknowledged" },
+  { value: "resolved", label: "Resolved" },
+]
+
+export function ticketStatusLabel(status: ConcernTicketStatus | undefined) {
+  return CONCERN_TICKET_STATUSES.find((s) => s.value === status)?.label || "No ticket"
+}
+
+export function ticketStatusClass(status: ConcernTicketStatus | undefined) {
+  if (status === "resolved") return "bg-green-50 text-green-700 border-green-200"
+  if (status === "acknowledged") return "bg-sky-50 text-sky-700 border-sky-200"
+  if (status === "open") return "bg-red-50 text-red-600 border-red-200"
+  return "bg-gray-50 text-gray-500 border-gray-200"
+}
+
+/** Key joining a ticket to the concern it tracks on a delivery record. */
+export function concernTicketKey(deliveryRecordId: string, concern: string) {
+  return `${deliveryRecordId}|${concern.trim().toLowerCase()}`
+}
+
+export function indexTickets(tickets: ConcernTicketDto[]) {
+  const byKey = new Map<string, ConcernTicketDto>()
+  for (const t of tickets) byKey.set(concernTicketKey(t.deliveryRecordId, t.concern), t)
+  return byKey
+}
+
+export function isTicketOverdue(ticket: ConcernTicketDto, todayKey = format(new Date(), "yyyy-MM-dd")) {
+  return ticket.status !== "resolved" && !!ticket.dueDate && ticket.dueDate < todayKey
+}
+
+/**
+ * The least settled status among a record's concerns, so a record reads as
+ * resolved only once every concern on it is. Concerns without a ticket count
+ * as open.
+ */
+export function recordTicketStatus(
+  deliveryRecordId: string,
+  concerns: string[],
+  tickets: Map<string, ConcernTicketDto>
+): ConcernTicketStatus {
+  const rank: Record<ConcernTicketStatus, number> = { open: 0, acknowledged: 1, resolved: 2 }
+  let worst: ConcernTicketStatus = "resolved"
+  for (const c of concerns) {
+    const status = tickets.get(concernTicketKey(deliveryRecordId, c))?.status || "open"
+    if (rank[status] < rank[worst]) worst = status
+  }
+  return worst
+}
+
+/** One-line description of a history entry, shared by the timeline and the PDF. */
+export function describeHistoryEntry(entry: ConcernHistoryEntryDto) {
+  const by = entry.byName ? ` by ${entry.byName}` : ""
+  switch (entry.action) {
+    case "created":
+      return `Ticket opened${by}`
+    case "assigned":
+      return entry.to ? `Assigned to ${entry.to}${by}` : `Unassigned${by}`
+    case "status":
+      return `${ticketStatusLabel(entry.from as ConcernTicketStatus)} → ${ticketStatusLabel(
+        entry.to as ConcernTicketStatus
+      )}${by}${entry.note ? `: ${entry.note}` : ""}`
+    case "due-date":
+      return entry.to ? `Due date set to ${entry.to}${by}` : `Due date cleared${by}`
+    case "comment":
+      return `Comment${by}${entry.note ? `: ${entry.note}` : ""}`
+    default:
+      return `${entry.action}${by}`
+  }
+}
+
+export function formatTicketTime(iso: string | undefined) {
+  if (!iso) return ""
+  const d = new Date(iso)
+  return Number.isNaN(d.getTime()) ? iso : format(d, "MMM d, yyyy h:mm a")
+}
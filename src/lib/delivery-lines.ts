@@ -0,0 +1,60 @@
+import type { DeliveryLineDto, DeliveryStatus } from "@/lib/api"
+
+// ─── Line items ───────────────────────────────────────────────────────────────
+// A delivered category can list what actually arrived, line by line. Shortage
+// is never stored: a Delivered item with any line received under its expected
+// quantity reads as "Delivered with shortage" everywhere it is shown.
+
+export function emptyDeliveryLine(): DeliveryLineDto {
+  return { name: "", unit: "Kg", expectedQty: 0, receivedQty: 0 }
+}
+
+/** Lines worth saving: named, or carrying any quantity. */
+export function cleanDeliveryLines(lines: DeliveryLineDto[]) {
+  return lines
+    .map((l) => ({ ...l, name: l.name.trim() }))
+    .filter((l) => l.name || l.expectedQty > 0 || l.receivedQty > 0)
+}
+
+export function lineShortage(line: DeliveryLineDto) {
+  return Math.max(0, (line.expectedQty || 0) - (line.receivedQty || 0))
+}
+
+export function shortLines(lines: DeliveryLineDto[] | undefined) {
+  return (lines || []).filter((l) => lineShortage(l) > 0)
+}
+
+export function isDeliveredShort(record: { status: DeliveryStatus; lines?: DeliveryLineDto[] }) {
+  return record.status === "Delivered" && shortLines(record.lines).length > 0
+}
+
+export type QuantityTotals = Map<string, { expected: number; received: number }>
+
+/** Expected and received quantities summed per unit. */
+export function addLineTotals(totals: QuantityTotals, lines: DeliveryLineDto[] | undefined) {
+  for (const l of lines || []) {
+    const unit = l.unit || "—"
+    const t = totals.get(unit) || { expected: 0, received: 0 }
+    totals.set(unit, { expected: t.expected + (l.expectedQty || 0), received: t.received + (l.receivedQty || 0) })
+  }
+  return totals
+}
+
+function formatQty(n: number) {
+  return Number.isInteger(n) ? n.toLocaleString() : n.toLocaleString(undefined, { maximumFractionDigits: 2 })
+}
+
+/** e.g. "46 / 50 Kg, 3 / 3 Box" — received over expected. */
+export function formatQuantityTotals(totals: QuantityTotals) {
+  return Array.from(totals.entries())
+    .map(([unit, t]) => `${formatQty(t.received)} / ${formatQty(t.expected)} ${unit}`)
+    .join(", ")
+}
+
+export function formatLineQuantity(line: DeliveryLineDto) {
+  return `${formatQty(line.receivedQty || 0)} / ${formatQty(line.expectedQty || 0)} ${line.unit}`
+}
+
+export function formatShortage(line: DeliveryLineDto) {
+  return `${formatQty(lineShortage(line))} ${line.unit}`
+}
@@ -0,0 +1,213 @@
+import { addDays, addMonths, differenceInCalendarDays, differenceInCalendarMonths, format, parseISO } from "date-fns"
+
+import type { DeliveryScheduleDto, DeliveryScheduleFrequency, DeliveryStatus } from "@/lib/api"
+import { schoolKey } from "@/lib/attendance-compliance"
+
+export const SCHEDULE_FREQUENCY_OPTIONS: Array<{ value: DeliveryScheduleFrequency; label: string }> = [
+  { value: "once", label: "One time" },
+  { value: "weekly", label: "Weekly" },
+  { value: "monthly", label: "Monthly" },
+]
+
+export function frequencyLabel(schedule: Pick<DeliveryScheduleDto, "frequency" | "startDate">) {
+  const start = parseISO(schedule.startDate)
+  if (Number.isNaN(start.getTime())) return schedule.frequency
+  if (schedule.frequency === "weekly") return `Weekly on ${format(start, "EEEE")}`
+  if (schedule.frequency === "monthly") return `Monthly on the ${format(start, "do")}`
+  return `Once on ${format(start, "MMM d, yyyy")}`
+}
+
+// ─── Occurrences ──────────────────────────────────────────────────────────────
+
+const dayKey = (d: Date) => format(d, "yyyy-MM-dd")
+
+/** `yyyy-MM-dd` dates within `fromKey`..`toKey` (inclusive) the schedule expects a delivery. */
+export function scheduleOccurrences(schedule: DeliveryScheduleDto, fromKey: string, toKey: string) {
+  const start = parseISO(schedule.startDate)
+  if (Number.isNaN(start.getTime())) return []
+  const lastKey = schedule.endDate && schedule.endDate < toKey ? schedule.endDate : toKey
+  const dates: string[] = []
+  const push = (d: Date) => {
+    const key = dayKey(d)
+    if (key >= fromKey && key <= lastKey) dates.push(key)
+    return key <= lastKey
+  }
+
+  if (schedule.frequency === "once") {
+    push(start)
+    return dates
+  }
+
+  // Jump close to the range instead of stepping from a start date years back
+  const from = parseISO(fromKey)
+  if (schedule.frequency === "weekly") {
+    let n = Math.max(0, Math.floor(differenceInCalendarDays(from, start) / 7) || 0)
+    while (push(addDays(start, n * 7))) n += 1
+  } else {
+    let n = Math.max(0, differenceInCalendarMonths(from, start) - 1 || 0)
+    // addMonths keeps the 31st on the last day of shorter months
+    while (push(addMonths(start, n))) n += 1
+  }
+  return dates
+}
+
+export type ScheduledDelivery = { schedule: DeliveryScheduleDto; dateKey: string }
+
+export function expandSchedules(schedules: DeliveryScheduleDto[], fromKey: string, toKey: string): ScheduledDelivery[] {
+  return schedules
+    .flatMap((schedule) => scheduleOccurrences(schedule, fromKey, toKey).map((dateKey) => ({ schedule, dateKey })))
+    .sort((a, b) => a.dateKey.localeCompare(b.dateKey) || a.schedule.categoryLabel.localeCompare(b.schedule.categoryLabel))
+}
+
+// ─── Expected vs. actual ──────────────────────────────────────────────────────
+// A scheduled delivery is confirmed by the school logging the category as
+// Delivered on the date, or within LATE_WINDOW_DAYS after it. Until then it is
+// Pending; once the date has passed without one it counts as Delayed (the
+// server flags the record the same way overnight).
+
+/** Days after the scheduled date a delivery still counts against it, as late. */
+const LATE_WINDOW_DAYS = 3
+
+export type ScheduleOutcome = "on-time" | "late" | "missed" | "cancelled" | "due" | "upcoming"
+
+export const SCHEDULE_OUTCOME_META: Record<ScheduleOutcome, { label: string; className: string }> = {
+  "on-time": { label: "On time", className: "bg-emerald-50 text-emerald-700 border-emerald-200" },
+  late: { label: "Late", className: "bg-amber-50 text-amber-700 border-amber-200" },
+  missed: { label: "Missed", className: "bg-red-50 text-red-600 border-red-200" },
+  cancelled: { label: "Cancelled", className: "bg-gray-100 text-gray-600 border-gray-200" },
+  due: { label: "Due today", className: "bg-sky-50 text-sky-700 border-sky-200" },
+  upcoming: { label: "Upcoming", className: "bg-white text-gray-500 border-gray-200" },
+}
+
+type LoggedDelivery = { dateKey: string; status: DeliveryStatus }
+
+/**
+ * Outcome of one scheduled date, given the deliveries the school logged for
+ * that category. A late delivery never reaches past `nextDateKey`, so it is
+ * not counted twice.
+ */
+export function scheduleOutcome(
+  dateKey: string,
+  logged: LoggedDelivery[],
+  todayKey: string,
+  nextDateKey?: string
+): ScheduleOutcome {
+  const onDay = logged.find((r) => r.dateKey === dateKey)
+  if (onDay?.status === "Delivered") return "on-time"
+  if (onDay?.status === "Cancelled") return "cancelled"
+
+  const lateUntil = dayKey(addDays(parseISO(dateKey), LATE_WINDOW_DAYS))
+  const late = logged.some(
+    (r) =>
+      r.status === "Delivered" &&
+      r.dateKey > dateKey &&
+      r.dateKey <= lateUntil &&
+      (!nextDateKey || r.dateKey < nextDateKey)
+  )
+  if (late) return "late"
+  if (dateKey > todayKey) return "upcoming"
+  if (dateKey === todayKey) return "due"
+  return "missed"
+}
+
+/** Status a school sees for a scheduled item; Pending only while it is still due. */
+export function scheduledStatus(outcome: ScheduleOutcome): DeliveryStatus {
+  if (outcome === "on-time" || outcome === "late") return "Delivered"
+  if (outcome === "cancelled") return "Cancelled"
+  if (outcome === "missed") return "Delayed"
+  return "Pending"
+}
+
+export type ScheduleResult = ScheduledDelivery & { outcome: ScheduleOutcome }
+
+/**
+ * Outcomes of every scheduled delivery in the range. `records` may span all
+ * schools; they are matched on municipality, school and category.
+ */
+export function matchSchedules(
+  scheduled: ScheduledDelivery[],
+  records: Array<LoggedDelivery & { categoryKey: string; municipality?: string; school?: string }>,
+  todayKey = dayKey(new Date())
+): ScheduleResult[] {
+  const logged = new Map<string, LoggedDelivery[]>()
+  for (const r of records) {
+    const key = `${schoolKey(r.municipality, r.school)}|${r.categoryKey}`
+    logged.set(key, [...(logged.get(key) || []), r])
+  }
+
+  // Next occurrence of the same schedule caps the late window
+  const next = new Map<ScheduledDelivery, string>()
+  const last = new Map<string, ScheduledDelivery>()
+  for (const s of scheduled) {
+    const prev = last.get(s.schedule.id)
+    if (prev) next.set(prev, s.dateKey)
+    last.set(s.schedule.id, s)
+  }
+
+  return scheduled.map((s) => {
+    const key = `${schoolKey(s.schedule.municipality, s.schedule.school)}|${s.schedule.categoryKey}`
+    return { ...s, outcome: scheduleOutcome(s.dateKey, logged.get(key) || [], todayKey, next.get(s)) }
+  })
+}
+
+// ─── Performance ──────────────────────────────────────────────────────────────
+
+export type OutcomeCounts = { onTime: number; late: number; missed: number; cancelled: number; open: number }
+
+export function emptyOutcomeCounts(): OutcomeCounts {
+  return { onTime: 0, late: 0, missed: 0, cancelled: 0, open: 0 }
+}
+
+export function countOutcome(counts: OutcomeCounts, outcome: ScheduleOutcome) {
+  if (outcome === "on-time") counts.onTime += 1
+  else if (outcome === "late") counts.late += 1
+  else if (outcome === "missed") counts.missed += 1
+  else if (outcome === "cancelled") counts.cancelled += 1
+  else counts.open += 1
+  return counts
+}
+
+/** Share of settled deliveries that arrived on the day; null when nothing has settled. */
+export function onTimeRate(counts: OutcomeCounts) {
+  const settled = counts.onTime + counts.late + counts.missed
+  return settled ? counts.onTime / settled : null
+}
+
+export function formatRate(rate: number | null) {
+  return rate === null ? "—" : `${Math.round(rate * 100)}%`
+}
+
+export type PerformanceRow = {
+  label: string
+  days: Map<string, OutcomeCounts>
+  totals: OutcomeCounts
+}
+
+/** One row per supplier or municipality, with outcomes counted per date. */
+export function performanceRows(results: ScheduleResult[], by: "supplier" | "municipality"): PerformanceRow[] {
+  const rows = new Map<string, PerformanceRow>()
+  for (const r of results) {
+    const label =
+      by === "supplier" ? r.schedule.supplierName?.trim() || "No supplier" : r.schedule.municipality.trim() || "—"
+    let row = rows.get(label)
+    if (!row) {
+      row = { label, days: new Map(), totals: emptyOutcomeCounts() }
+      rows.set(label, row)
+    }
+    const day = row.days.get(r.dateKey) || emptyOutcomeCounts()
+    row.days.set(r.dateKey, countOutcome(day, r.outcome))
+    countOutcome(row.totals, r.outcome)
+  }
+  return Array.from(rows.values()).sort((a, b) => a.label.localeCompare(b.label))
+}
+
+/** Heatmap cell colour for a day's on-time rate. */
+export function heatClass(counts: OutcomeCounts | undefined) {
+  if (!counts) return "bg-gray-50"
+  const rate = onTimeRate(counts)
+  if (rate === null) return counts.cancelled && !counts.open ? "bg-gray-200" : "bg-sky-100"
+  if (rate >= 0.9) return "bg-emerald-500"
+  if (rate >= 0.7) return "bg-emerald-300"
+  if (rate >= 0.4) return "bg-amber-300"
+  return "bg-red-400"
+}
@@ -0,0 +1,162 @@
+import { format } from "date-fns"
+
+import { resolveApiUrl, type DeliveryLineDto, type DeliveryStatus } from "@/lib/api"
+import { formatLineQuantity, isDeliveredShort } from "@/lib/delivery-lines"
+import type { ExportCell, ExportTable } from "@/lib/export"
+import { buildPivot } from "@/lib/pivot"
+
+// ─── Delivery summary workbook ────────────────────────────────────────────────
+// The summary report as a multi-sheet XLSX for the provincial office: totals
+// per municipality, a school × category × status pivot, one detail sheet per
+// municipality with links to every photo, and a sheet listing each concern.
+
+export type DeliveryExportRow = {
+  dateKey: string
+  municipality: string
+  school: string
+  categoryLabel: string
+  status: DeliveryStatus
+  statusReason?: string
+  uploadedAt?: string
+  images: Array<{ url: string; filename: string }>
+  concerns: string[]
+  remarks: string
+  lines?: DeliveryLineDto[]
+}
+
+const STATUS_COLUMNS: DeliveryStatus[] = ["Delivered", "Delayed", "Cancelled", "Pending"]
+
+/** Joins the pivot's row dimensions; never appears in names typed by users. */
+const KEY_SEP = "\u0001"
+
+const clean = (s: string | undefined, fallback = "(blank)") => (s || "").trim() || fallback
+
+function statusPivot(rows: DeliveryExportRow[], rowKey: (r: DeliveryExportRow) => string) {
+  return buildPivot(rows, {
+    rowDim: { key: "row", label: "Row", get: rowKey },
+    colDim: { key: "status", label: "Status", get: (r) => r.status },
+    measure: { key: "records", label: "Records", get: () => 1 },
+    agg: "count",
+  })
+}
+
+function statusCells(pivot: ReturnType<typeof statusPivot>, rowKey: string) {
+  return STATUS_COLUMNS.map((s) => pivot.value(rowKey, s) ?? 0)
+}
+
+function uploadedAtText(value: string | undefined) {
+  if (!value) return ""
+  const d = new Date(value)
+  return Number.isNaN(d.getTime()) ? value : format(d, "yyyy-MM-dd HH:mm")
+}
+
+export function deliveryWorkbookTables(
+  rows: DeliveryExportRow[],
+  opts: { rangeLabel: string; scopeLabel: string }
+): ExportTable[] {
+  const subtitle = [`Date range: ${opts.rangeLabel}`, `Scope: ${opts.scopeLabel}`]
+  const sorted = rows
+    .slice()
+    .sort(
+      (a, b) =>
+        clean(a.municipality).localeCompare(clean(b.municipality)) ||
+        a.dateKey.localeCompare(b.dateKey) ||
+        clean(a.school).localeCompare(clean(b.school)) ||
+        a.categoryLabel.localeCompare(b.categoryLabel)
+    )
+
+  const byMunicipality = statusPivot(sorted, (r) => clean(r.municipality))
+  const overview: ExportTable = {
+    title: "Delivery Summary",
+    sheetName: "Overview",
+    subtitle: [...subtitle, `Generated: ${format(new Date(), "yyyy-MM-dd HH:mm")}`],
+    head: ["Municipality", "Schools", ...STATUS_COLUMNS, "Delivered short", "Total"],
+    body: [
+      ...byMunicipality.rowKeys.map((m) => {
+        const inMunicipality = sorted.filter((r) => clean(r.municipality) === m)
+        return [
+          m,
+          new Set(inMunicipality.map((r) => clean(r.school))).size,
+          ...statusCells(byMunicipality, m),
+          inMunicipality.filter(isDeliveredShort).length,
+          byMunicipality.rowTotal(m) ?? 0,
+        ]
+      }),
+      [
+        "Total",
+        new Set(sorted.map((r) => `${clean(r.municipality)}${KEY_SEP}${clean(r.school)}`)).size,
+        ...STATUS_COLUMNS.map((s) => byMunicipality.colTotal(s) ?? 0),
+        sorted.filter(isDeliveredShort).length,
+        byMunicipality.grandTotal ?? 0,
+      ],
+    ],
+  }
+
+  const bySchoolCategory = statusPivot(sorted, (r) =>
+    [clean(r.municipality), clean(r.school), clean(r.categoryLabel)].join(KEY_SEP)
+  )
+  const pivot: ExportTable = {
+    title: "School × Category × Status",
+    sheetName: "Pivot",
+    subtitle: [...subtitle, "Number of delivery records per status."],
+    head: ["Municipality", "School", "Category", ...STATUS_COLUMNS, "Total"],
+    body: bySchoolCategory.rowKeys.map((key) => [
+      ...key.split(KEY_SEP),
+      ...statusCells(bySchoolCategory, key),
+      bySchoolCategory.rowTotal(key) ?? 0,
+    ]),
+  }
+
+  // Photo columns are as wide as the record with the most photos in that municipality
+  const municipalitySheets: ExportTable[] = byMunicipality.rowKeys.map((m) => {
+    const inMunicipality = sorted.filter((r) => clean(r.municipality) === m)
+    const photoColumns = Math.max(0, ...inMunicipality.map((r) => r.images.length))
+    return {
+      title: `${m} Deliveries`,
+      sheetName: m,
+      subtitle,
+      head: [
+        "Date",
+        "School",
+        "Category",
+        "Status",
+        "Reason",
+        "Items (received / expected)",
+        "Concerns",
+        "Remarks",
+        "Uploaded at",
+        ...Array.from({ length: photoColumns }, (_, i) => `Photo ${i + 1}`),
+      ],
+      body: inMunicipality.map((r): ExportCell[] => [
+        r.dateKey,
+        clean(r.school, ""),
+        r.categoryLabel,
+        isDeliveredShort(r) ? "Delivered (short)" : r.status,
+        r.statusReason || "",
+        (r.lines || []).map((l) => `${l.name}: ${formatLineQuantity(l)}`).join("; "),
+        r.concerns.join("; "),
+        r.remarks,
+        uploadedAtText(r.uploadedAt),
+        ...Array.from({ length: photoColumns }, (_, i): ExportCell => {
+          const img = r.images[i]
+          return img ? { text: img.filename || `Photo ${i + 1}`, url: resolveApiUrl(img.url) } : ""
+        }),
+      ]),
+    }
+  })
+
+  const concerns: ExportTable = {
+    title: "Delivery Concerns",
+    sheetName: "Concerns",
+    subtitle: [...subtitle, "One row per concern reported."],
+    head: ["Date", "Municipality", "School", "Category", "Concern", "Status", "Remarks"],
+    body: sorted.flatMap((r) =>
+      r.concerns
+        .map((c) => c.trim())
+        .filter(Boolean)
+        .map((c) => [r.dateKey, clean(r.municipality, ""), clean(r.school, ""), r.categoryLabel, c, r.status, r.remarks])
+    ),
+  }
+
+  return [overview, pivot, ...municipalitySheets, concerns]
+}
@@ -0,0 +1,97 @@
+import { format } from "date-fns"
+
+import type { DistributionBatchDto, DistributionCategory } from "@/lib/api"
+import type { DistributionSchema, DistributionTableRow } from "@/lib/distribution-import"
+
+// ─── Batches ──────────────────────────────────────────────────────────────────
+
+export function batchId(batch: DistributionBatchDto) {
+  return String(batch.id || batch._id || "")
+}
+
+export function formatBatchTime(iso: string | undefined) {
+  if (!iso) return "—"
+  const d = new Date(iso)
+  return Number.isNaN(d.getTime()) ? iso : format(d, "MMM d, yyyy h:mm a")
+}
+
+/** Short label for a batch in pickers: upload time and file name. */
+export function batchLabel(batch: DistributionBatchDto) {
+  const file = batch.sourceFileName || batch.sheetName || "Untitled"
+  return `${formatBatchTime(batch.createdAt)} · ${file}`
+}
+
+// ─── Row diff ─────────────────────────────────────────────────────────────────
+
+export type DistributionDiffChange = "added" | "removed" | "changed" | "unchanged"
+
+export type DistributionDiffEntry = {
+  municipality: string
+  school: string
+  change: DistributionDiffChange
+  before?: Record<string, number>
+  after?: Record<string, number>
+  /** Schema column keys whose value differs between the two batches. */
+  changedKeys: string[]
+}
+
+export type DistributionDiffSummary = Record<DistributionDiffChange, number>
+
+function rowKey(row: DistributionTableRow) {
+  return `${row.municipality.trim().toLowerCase()}|${row.school.trim().toLowerCase()}`
+}
+
+/**
+ * Compares two batches school by school. Schools are matched on municipality
+ * and name, so a renamed school shows up as one removal and one addition.
+ */
+export function diffDistributionRows<C extends DistributionCategory>(
+  schema: DistributionSchema<C>,
+  from: DistributionTableRow[],
+  to: DistributionTableRow[]
+): DistributionDiffEntry[] {
+  const before = new Map(from.map((r) => [rowKey(r), r]))
+  const entries: DistributionDiffEntry[] = []
+
+  for (const row of to) {
+    const key = rowKey(row)
+    const prev = before.get(key)
+    before.delete(key)
+    if (!prev) {
+      entries.push({ municipality: row.municipality, school: row.school, change: "added", after: row.values, changedKeys: [] })
+      continue
+    }
+    const changedKeys = schema.columns
+      .filter((c) => (prev.values[c.key] || 0) !== (row.values[c.key] || 0))
+      .map((c) => c.key)
+    entries.push({
+      municipality: row.municipality,
+      school: row.school,
+      change: changedKeys.length ? "changed" : "unchanged",
+      before: prev.values,
+      after: row.values,
+      changedKeys,
+    })
+  }
+
+  for (const row of before.values()) {
+    entries.push({ municipality: row.municipality, school: row.school, change: "removed", before: row.values, changedKeys: [] })
+  }
+
+  return entries.sort(
+    (a, b) => a.municipality.localeCompare(b.municipality) || a.school.localeCompare(b.school)
+  )
+}
+
+export function summarizeDiff(entries: DistributionDiffEntry[]): DistributionDiffSummary {
+  const summary: DistributionDiffSummary = { added: 0, removed: 0, changed: 0, unchanged: 0 }
+  for (const e of entries) summary[e.change] += 1
+  return summary
+}
+
+export function diffChangeClass(change: DistributionDiffChange) {
+  if (change === "added") return "bg-emerald-50 text-emerald-700 border-emerald-200"
+  if (change === "removed") return "bg-red-50 text-red-600 border-red-200"
+  if (change === "changed") return "bg-amber-50 text-amber-700 border-amber-200"
+  return "bg-gray-50 text-gray-500 border-gray-200"
+}
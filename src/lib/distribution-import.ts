@@ -0,0 +1,512 @@
+import * as XLSX from "xlsx"
+
+import type {
+  DistributionCategory,
+  DistributionEditableField,
+  DistributionItemByCategory,
+  DistributionRowDto,
+} from "@/lib/api"
+
+// ─── Category schemas ─────────────────────────────────────────────────────────
+// Every distribution template has the same shape: an LGU (municipality) column,
+// a BHSS Kitchen (school) column and then the category's quantity columns. A
+// schema names those columns and the header texts that identify them, so one
+// importer can read every category's sheet.
+
+type ColumnKey<C extends DistributionCategory> = DistributionEditableField<C> & string
+
+export type DistributionColumn<C extends DistributionCategory> = {
+  key: ColumnKey<C>
+  label: string
+  /** Lower-case header texts that identify the column. */
+  aliases: string[]
+  /** Weekly columns must add up to the `total` column. */
+  role?: "week" | "total"
+}
+
+export type DistributionSchema<C extends DistributionCategory> = {
+  category: C
+  title: string
+  /** Banner text the template carries, e.g. "RICE DISTRIBUTION". */
+  templateTitle: string
+  unit: string
+  /** Sheet names tried first when a workbook is opened. */
+  sheetHints: string[]
+  columns: Array<DistributionColumn<C>>
+  /** Column that carries the template's grand total in its header, e.g. "Rice (1389)". */
+  headlineKey: ColumnKey<C>
+  /** Column counted as the distributed quantity in reports. */
+  quantityKey: ColumnKey<C>
+}
+
+const weekColumn = <N extends 1 | 2 | 3 | 4 | 5>(n: N) => ({
+  key: `week${n}` as `week${N}`,
+  label: `Week ${n}`,
+  aliases: [`week ${n}`, `week${n}`, `wk ${n}`, `wk${n}`],
+  role: "week" as const,
+})
+
+const WEEK_COLUMNS = [weekColumn(1), weekColumn(2), weekColumn(3), weekColumn(4), weekColumn(5)]
+
+const TOTAL_COLUMN = { key: "total" as const, label: "Total", aliases: ["total"], role: "total" as const }
+
+const BENEFICIARIES_COLUMN = {
+  key: "beneficiaries" as const,
+  label: "Beneficiaries",
+  aliases: ["beneficiaries", "no. of beneficiaries", "learners"],
+}
+
+export const DISTRIBUTION_SCHEMAS: { [C in DistributionCategory]: DistributionSchema<C> } = {
+  rice: {
+    category: "rice",
+    title: "Rice Distribution",
+    templateTitle: "rice distribution",
+    unit: "25kg sacks",
+    sheetHints: ["rice"],
+    columns: [{ key: "rice", label: "Rice", aliases: ["rice", "sacks"] }],
+    headlineKey: "rice",
+    quantityKey: "rice",
+  },
+  water: {
+    category: "water",
+    title: "Water Distribution",
+    templateTitle: "water distribution",
+    unit: "5 gallons",
+    sheetHints: ["water"],
+    columns: [
+      BENEFICIARIES_COLUMN,
+      { key: "water", label: "Water", aliases: ["water", "gallons"] },
+      ...WEEK_COLUMNS,
+      TOTAL_COLUMN,
+    ],
+    headlineKey: "water",
+    quantityKey: "total",
+  },
+  lpg: {
+    category: "lpg",
+    title: "LPG Distribution",
+    templateTitle: "lpg distribution",
+    unit: "11kg tank",
+    sheetHints: ["lpg", "gasul"],
+    columns: [{ key: "gasul", label: "Gasul", aliases: ["gasul", "lpg", "tank"] }],
+    headlineKey: "gasul",
+    quantityKey: "gasul",
+  },
+  "fruits-veggies": {
+    category: "fruits-veggies",
+    title: "Fruits & Veggies Distribution",
+    templateTitle: "fruits",
+    unit: "kg",
+    sheetHints: ["fruits", "veggies", "vegetables"],
+    columns: [BENEFICIARIES_COLUMN, ...WEEK_COLUMNS, TOTAL_COLUMN],
+    headlineKey: "total",
+    quantityKey: "total",
+  },
+  equipments: {
+    category: "equipments",
+    title: "Equipment Distribution",
+    templateTitle: "equipment",
+    unit: "units",
+    sheetHints: ["equipment"],
+    columns: [{ key: "quantity", label: "Quantity", aliases: ["quantity", "qty", "units", "equipment"] }],
+    headlineKey: "quantity",
+    quantityKey: "quantity",
+  },
+  grocery: {
+    category: "grocery",
+    title: "Grocery Distribution",
+    templateTitle: "grocery distribution",
+    unit: "packs",
+    sheetHints: ["grocery", "groceries"],
+    columns: [BENEFICIARIES_COLUMN, ...WEEK_COLUMNS, TOTAL_COLUMN],
+    headlineKey: "total",
+    quantityKey: "total",
+  },
+  consumables: {
+    category: "consumables",
+    title: "Consumables Distribution",
+    templateTitle: "consumables distribution",
+    unit: "pcs",
+    sheetHints: ["consumable"],
+    columns: [...WEEK_COLUMNS, TOTAL_COLUMN],
+    headlineKey: "total",
+    quantityKey: "total",
+  },
+  meat: {
+    category: "meat",
+    title: "Meat Distribution",
+    templateTitle: "meat distribution",
+    unit: "kg",
+    sheetHints: ["meat"],
+    columns: [BENEFICIARIES_COLUMN, ...WEEK_COLUMNS, TOTAL_COLUMN],
+    headlineKey: "total",
+    quantityKey: "total",
+  },
+}
+
+export const DISTRIBUTION_CATEGORIES = Object.keys(DISTRIBUTION_SCHEMAS) as DistributionCategory[]
+
+// ─── Rows ─────────────────────────────────────────────────────────────────────
+
+export type DistributionTableRow = {
+  id: string
+  municipality: string
+  school: string
+  values: Record<string, number>
+  /** 1-based worksheet row the values came from; absent for saved rows. */
+  sourceRow?: number
+}
+
+export type ImportIssue = {
+  /** 1-based worksheet row, or 0 for sheet-level problems. */
+  row: number
+  column?: string
+  message: string
+  severity: "error" | "warning"
+}
+
+export function rowsFromSaved<C extends DistributionCategory>(
+  schema: DistributionSchema<C>,
+  saved: Array<DistributionRowDto<C>>
+): DistributionTableRow[] {
+  return saved.map((r, i) => {
+    const record = r as unknown as Record<string, unknown>
+    const values: Record<string, number> = {}
+    for (const col of schema.columns) values[col.key] = asNumber(record[col.key]) ?? 0
+    return {
+      id: String(r.id || r._id || `saved-${i}`),
+      municipality: String(r.municipality || ""),
+      school: String(r.schoolName || record.school || ""),
+      values,
+    }
+  })
+}
+
+export function toDistributionItem<C extends DistributionCategory>(
+  schema: DistributionSchema<C>,
+  row: DistributionTableRow
+): DistributionItemByCategory[C] {
+  const item: Record<string, string | number> = { municipality: row.municipality, schoolName: row.school }
+  for (const col of schema.columns) item[col.key] = row.values[col.key] ?? 0
+  return item as DistributionItemByCategory[C]
+}
+
+// ─── Sheet parsing ────────────────────────────────────────────────────────────
+
+const MUNICIPALITY_ALIASES = ["lgu", "municipality", "municipal"]
+const SCHOOL_ALIASES = ["bhss kitchen", "school", "kitchen"]
+
+function cellText(v: unknown) {
+  return String(v ?? "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .toLowerCase()
+}
+
+function matchesAlias(text: string, aliases: string[]) {
+  return aliases.some((a) => text === a || text.startsWith(`${a} `) || text.startsWith(`${a}(`))
+}
+
+/** Blank cells read as 0; `null` means the cell holds text that is not a number. */
+function asNumber(v: unknown): number | null {
+  if (typeof v === "number") return Number.isFinite(v) ? v : null
+  const s = String(v ?? "").replace(/,/g, "").trim()
+  if (!s || s === "-") return 0
+  const n = Number(s)
+  return Number.isFinite(n) ? n : null
+}
+
+function isNumericText(s: string) {
+  return s.trim() !== "" && asNumber(s) !== null
+}
+
+export function preferredSheet(names: string[], schema: { sheetHints: string[] }) {
+  for (const hint of schema.sheetHints) {
+    const exact = names.find((n) => n.toLowerCase().trim() === hint)
+    if (exact) return exact
+  }
+  for (const hint of schema.sheetHints) {
+    const partial = names.find((n) => n.toLowerCase().includes(hint))
+    if (partial) return partial
+  }
+  return names[0] || ""
+}
+
+export type ParsedDistributionSheet = {
+  rows: DistributionTableRow[]
+  issues: ImportIssue[]
+  /** Grand total printed in the headline column's header, if any. */
+  headerTotal: number | null
+  /** Worksheet column letter each schema column was read from. */
+  columnMap: Record<string, string>
+}
+
+/**
+ * Reads a distribution worksheet. The header row is found by looking for the
+ * municipality and school headings, and each schema column is matched by its
+ * aliases; columns without a recognisable heading fall back to the next free
+ * column in schema order, as the original templates laid them out.
+ */
+export function parseDistributionSheet<C extends DistributionCategory>(
+  ws: XLSX.WorkSheet,
+  schema: DistributionSchema<C>
+): ParsedDistributionSheet {
+  const data = XLSX.utils.sheet_to_json(ws, { header: 1, defval: "" }) as unknown[][]
+  const issues: ImportIssue[] = []
+  const top = data.slice(0, 20)
+
+  if (!data.slice(0, 12).some((r) => r.some((c) => cellText(c).includes(schema.templateTitle)))) {
+    issues.push({
+      row: 0,
+      message: `The sheet has no "${schema.templateTitle.toUpperCase()}" heading; check that this is the right template`,
+      severity: "warning",
+    })
+  }
+
+  // ── Header row ──
+  let headerRowIndex = -1
+  let bestScore = 0
+  top.forEach((r, i) => {
+    const texts = r.map(cellText)
+    const hasSchool = texts.some((t) => matchesAlias(t, SCHOOL_ALIASES))
+    if (!hasSchool) return
+    const score =
+      1 +
+      (texts.some((t) => matchesAlias(t, MUNICIPALITY_ALIASES)) ? 1 : 0) +
+      schema.columns.filter((c) => texts.some((t) => matchesAlias(t, c.aliases))).length
+    if (score > bestScore) {
+      bestScore = score
+      headerRowIndex = i
+    }
+  })
+
+  // Headings may sit on the header row, the line under it, or a banner row
+  // above it ("Water (1200)", "Week 1", ...); the header row wins ties
+  const headingLines = [
+    ...(headerRowIndex >= 0 ? [data[headerRowIndex] || [], data[headerRowIndex + 1] || []] : []),
+    ...top.slice(0, headerRowIndex >= 0 ? headerRowIndex : 12),
+  ].map((r) => r.map(cellText))
+  const findColumn = (aliases: string[], used: Set<number>) => {
+    for (const line of headingLines) {
+      const idx = line.findIndex((t, i) => !used.has(i) && matchesAlias(t, aliases))
+      if (idx >= 0) return idx
+    }
+    return -1
+  }
+
+  const used = new Set<number>()
+  let municipalityCol = findColumn(MUNICIPALITY_ALIASES, used)
+  if (municipalityCol < 0) municipalityCol = 0
+  used.add(municipalityCol)
+  let schoolCol = findColumn(SCHOOL_ALIASES, used)
+  if (schoolCol < 0) schoolCol = municipalityCol + 1
+  used.add(schoolCol)
+
+  const columnIndex = new Map<string, number>()
+  for (const col of schema.columns) {
+    const idx = findColumn(col.aliases, used)
+    if (idx >= 0) {
+      columnIndex.set(col.key, idx)
+      used.add(idx)
+    }
+  }
+  let next = schoolCol + 1
+  for (const col of schema.columns) {
+    if (columnIndex.has(col.key)) {
+      next = Math.max(next, (columnIndex.get(col.key) ?? 0) + 1)
+      continue
+    }
+    while (used.has(next)) next += 1
+    columnIndex.set(col.key, next)
+    used.add(next)
+    if (headerRowIndex >= 0) {
+      issues.push({
+        row: headerRowIndex + 1,
+        column: col.label,
+        message: `No "${col.label}" heading found; reading column ${XLSX.utils.encode_col(next)}`,
+        severity: "warning",
+      })
+    }
+  }
+
+  // ── Headline total, e.g. "Rice (1389)" ──
+  const headline = schema.columns.find((c) => c.key === schema.headlineKey)
+  let headerTotal: number | null = null
+  if (headline) {
+    const pattern = new RegExp(`(?:${headline.aliases.join("|")})\\s*\\(\\s*(\\d[\\d,]*(?:\\.\\d+)?)\\s*\\)`, "i")
+    outer: for (const r of data.slice(0, 12)) {
+      for (const c of r) {
+        const m = String(c ?? "").match(pattern)
+        if (m?.[1]) {
+          headerTotal = Number(m[1].replace(/,/g, ""))
+          break outer
+        }
+      }
+    }
+  }
+
+  // ── Rows ──
+  const rows: DistributionTableRow[] = []
+  const seen = new Map<string, number>()
+  const weekCols = schema.columns.filter((c) => c.role === "week")
+  const totalCol = schema.columns.find((c) => c.role === "total")
+  let municipality = ""
+
+  for (let i = headerRowIndex + 1; i < data.length; i++) {
+    const raw = data[i] || []
+    const a = String(raw[municipalityCol] ?? "").trim()
+    const b = String(raw[schoolCol] ?? "").trim()
+    const lowerA = a.toLowerCase()
+    const lowerB = b.toLowerCase()
+    const sheetRow = i + 1
+
+    if (lowerA.includes("total") || lowerB.includes("total")) continue
+    if (
+      a &&
+      !isNumericText(a) &&
+      !matchesAlias(lowerA, MUNICIPALITY_ALIASES) &&
+      !lowerA.includes(schema.templateTitle)
+    ) {
+      municipality = a
+    }
+    if (!b || isNumericText(b) || matchesAlias(lowerB, SCHOOL_ALIASES) || matchesAlias(lowerB, MUNICIPALITY_ALIASES)) {
+      continue
+    }
+
+    const values: Record<string, number> = {}
+    let hasError = false
+    for (const col of schema.columns) {
+      const cell = raw[columnIndex.get(col.key) ?? -1]
+      const value = asNumber(cell)
+      if (value === null) {
+        issues.push({ row: sheetRow, column: col.label, message: `"${String(cell)}" is not a number`, severity: "error" })
+        hasError = true
+        values[col.key] = 0
+      } else {
+        if (value < 0) {
+          issues.push({ row: sheetRow, column: col.label, message: "Quantity cannot be negative", severity: "error" })
+          hasError = true
+        }
+        values[col.key] = value
+      }
+    }
+
+    if (!municipality) {
+      issues.push({ row: sheetRow, message: `"${b}" has no municipality above it`, severity: "error" })
+      continue
+    }
+
+    if (totalCol && weekCols.length && !hasError) {
+      const weeks = weekCols.reduce((sum, c) => sum + (values[c.key] || 0), 0)
+      const total = values[totalCol.key] || 0
+      if (!total && weeks) {
+        values[totalCol.key] = weeks
+      } else if (weeks && Math.abs(weeks - total) > 1e-9) {
+        issues.push({
+          row: sheetRow,
+          column: totalCol.label,
+          message: `Weeks add up to ${weeks} but Total is ${total}`,
+          severity: "warning",
+        })
+      }
+    }
+
+    const dupKey = `${municipality.toLowerCase()}|${lowerB}`
+    const firstRow = seen.get(dupKey)
+    if (firstRow) {
+      issues.push({ row: sheetRow, message: `"${b}" already appears on row ${firstRow}`, severity: "warning" })
+    } else {
+      seen.set(dupKey, sheetRow)
+    }
+
+    rows.push({ id: `${municipality}-${b}-${i}`, municipality, school: b, values, sourceRow: sheetRow })
+  }
+
+  if (rows.length === 0) {
+    issues.push({ row: 0, message: "No distribution rows found in the sheet", severity: "error" })
+  }
+
+  if (headerTotal !== null && headline) {
+    const sum = rows.reduce((acc, r) => acc + (r.values[headline.key] || 0), 0)
+    if (Math.abs(sum - headerTotal) > 1e-9) {
+      issues.push({
+        row: headerRowIndex >= 0 ? headerRowIndex + 1 : 0,
+        column: headline.label,
+        message: `Header says ${headerTotal} but the rows add up to ${sum}`,
+        severity: "warning",
+      })
+    }
+  }
+
+  const columnMap: Record<string, string> = {}
+  for (const [key, idx] of columnIndex) columnMap[key] = XLSX.utils.encode_col(idx)
+
+  return { rows, issues, headerTotal, columnMap }
+}
+
+// ─── Directory checks ─────────────────────────────────────────────────────────
+
+/** Per-beneficiary quantities this many times off the sheet's median are flagged. */
+const RATIO_OUTLIER_FACTOR = 3
+const MIN_ROWS_FOR_RATIO = 5
+
+/**
+ * Warnings for quantities that look wrong for the number of learners the
+ * directory has registered. `registered` maps row ids to that count and only
+ * holds rows whose school was found in the directory.
+ */
+export function quantityIssues<C extends DistributionCategory>(
+  schema: DistributionSchema<C>,
+  rows: DistributionTableRow[],
+  registered: Map<string, number>
+): ImportIssue[] {
+  const issues: ImportIssue[] = []
+  const quantityLabel = schema.columns.find((c) => c.key === schema.quantityKey)?.label || "Quantity"
+  const hasBeneficiaries = schema.columns.some((c) => c.key === "beneficiaries")
+  const ratios: Array<{ row: DistributionTableRow; ratio: number }> = []
+
+  for (const row of rows) {
+    const count = registered.get(row.id)
+    if (count === undefined) continue
+    const quantity = row.values[schema.quantityKey] || 0
+    const at = row.sourceRow ?? 0
+
+    if (hasBeneficiaries) {
+      const listed = row.values.beneficiaries || 0
+      if (listed !== count) {
+        issues.push({
+          row: at,
+          column: "Beneficiaries",
+          message: `Sheet lists ${listed} beneficiaries but the directory has ${count}`,
+          severity: "warning",
+        })
+      }
+    }
+    if (quantity > 0 && count === 0) {
+      issues.push({
+        row: at,
+        column: quantityLabel,
+        message: `${row.school} has no registered beneficiaries`,
+        severity: "warning",
+      })
+    }
+    if (quantity > 0 && count > 0) ratios.push({ row, ratio: quantity / count })
+  }
+
+  if (ratios.length >= MIN_ROWS_FOR_RATIO) {
+    const sorted = ratios.map((r) => r.ratio).sort((a, b) => a - b)
+    const median = sorted[Math.floor(sorted.length / 2)]
+    for (const { row, ratio } of ratios) {
+      if (ratio > median * RATIO_OUTLIER_FACTOR || ratio < median / RATIO_OUTLIER_FACTOR) {
+        issues.push({
+          row: row.sourceRow ?? 0,
+          column: quantityLabel,
+          message: `${ratio.toFixed(2)} ${schema.unit} per beneficiary; most schools get about ${median.toFixed(2)}`,
+          severity: "warning",
+        })
+      }
+    }
+  }
+
+  return issues
+}
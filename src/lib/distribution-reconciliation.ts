@@ -0,0 +1,135 @@
+import type { AdminDeliveryRecordDto, DeliveryCategoryKey, DistributionCategory } from "@/lib/api"
+import { schoolKey } from "@/lib/attendance-compliance"
+import type { DistributionSchema, DistributionTableRow } from "@/lib/distribution-import"
+
+// ─── Distribution vs. delivery ────────────────────────────────────────────────
+// The distribution pages hold what each school was allocated; the schools'
+// delivery uploads say what arrived. Joining the two per school shows which
+// allocations were confirmed, which ran into trouble and which went unanswered.
+
+/** Delivery categories a school reports a distribution category's goods under. */
+export const DELIVERY_KEYS_BY_DISTRIBUTION: Record<DistributionCategory, DeliveryCategoryKey[]> = {
+  rice: ["rice"],
+  water: ["water"],
+  lpg: ["lpg"],
+  "fruits-veggies": ["fruits", "vegetables"],
+  equipments: ["others"],
+  grocery: ["groceries"],
+  consumables: ["consumables"],
+  meat: ["meat"],
+}
+
+/**
+ * - `confirmed`: at least one delivery marked Delivered
+ * - `problem`: only Delayed or Cancelled deliveries
+ * - `unconfirmed`: allocated, but nothing or only Pending reported
+ * - `unallocated`: deliveries reported for a school with no allocation
+ */
+export type AllocationStatus = "confirmed" | "problem" | "unconfirmed" | "unallocated"
+
+export type WeekReconciliation = {
+  week: number
+  allocated: number
+  delivered: number
+}
+
+export type AllocationReconciliation = {
+  key: string
+  municipality: string
+  school: string
+  allocated: number
+  /** Per week of the month, for categories allocated by week. */
+  weeks: WeekReconciliation[] | null
+  delivered: number
+  delayed: number
+  cancelled: number
+  pending: number
+  concerns: string[]
+  lastDeliveredKey: string | null
+  records: AdminDeliveryRecordDto[]
+  status: AllocationStatus
+}
+
+/** Week of the month a `yyyy-MM-dd` date falls in, 1–5 as the templates number them. */
+export function weekOfMonth(dateKey: string) {
+  const day = Number(dateKey.slice(8, 10)) || 1
+  return Math.min(5, Math.ceil(day / 7))
+}
+
+function statusOf(allocated: number, delivered: number, troubled: number): AllocationStatus {
+  if (allocated <= 0) return "unallocated"
+  if (delivered > 0) return "confirmed"
+  return troubled > 0 ? "problem" : "unconfirmed"
+}
+
+/**
+ * Joins allocation rows with the delivery records of the matching delivery
+ * categories. Records should already be limited to the reporting period.
+ */
+export function reconcileDistribution<C extends DistributionCategory>(
+  schema: DistributionSchema<C>,
+  rows: DistributionTableRow[],
+  records: AdminDeliveryRecordDto[]
+) {
+  const deliveryKeys = new Set<string>(DELIVERY_KEYS_BY_DISTRIBUTION[schema.category])
+  const weekKeys = schema.columns.filter((c) => c.role === "week").map((c) => c.key)
+  const bySchool = new Map<string, AllocationReconciliation>()
+
+  const entryFor = (municipality: string, school: string) => {
+    const key = schoolKey(municipality, school)
+    let entry = bySchool.get(key)
+    if (!entry) {
+      entry = {
+        key,
+        municipality: municipality.trim(),
+        school: school.trim(),
+        allocated: 0,
+        weeks: weekKeys.length ? weekKeys.map((_, i) => ({ week: i + 1, allocated: 0, delivered: 0 })) : null,
+        delivered: 0,
+        delayed: 0,
+        cancelled: 0,
+        pending: 0,
+        concerns: [],
+        lastDeliveredKey: null,
+        records: [],
+        status: "unallocated",
+      }
+      bySchool.set(key, entry)
+    }
+    return entry
+  }
+
+  for (const r of rows) {
+    const entry = entryFor(r.municipality, r.school)
+    entry.allocated += r.values[schema.quantityKey] || 0
+    entry.weeks?.forEach((w, i) => {
+      w.allocated += r.values[weekKeys[i]] || 0
+    })
+  }
+
+  for (const record of records) {
+    if (!deliveryKeys.has(record.categoryKey)) continue
+    const entry = entryFor(record.municipality, record.school)
+    entry.records.push(record)
+    if (record.status === "Delivered") {
+      entry.delivered += 1
+      if (!entry.lastDeliveredKey || record.dateKey > entry.lastDeliveredKey) entry.lastDeliveredKey = record.dateKey
+      const week = entry.weeks?.[weekOfMonth(record.dateKey) - 1]
+      if (week) week.delivered += 1
+    } else if (record.status === "Delayed") entry.delayed += 1
+    else if (record.status === "Cancelled") entry.cancelled += 1
+    else entry.pending += 1
+    for (const c of record.concerns || []) if (!entry.concerns.includes(c)) entry.concerns.push(c)
+  }
+
+  const entries = Array.from(bySchool.values())
+  for (const e of entries) e.status = statusOf(e.allocated, e.delivered, e.delayed + e.cancelled)
+  return entries
+}
+
+export const ALLOCATION_STATUS_META: Record<AllocationStatus, { label: string; className: string }> = {
+  confirmed: { label: "Confirmed", className: "bg-emerald-50 text-emerald-700 border-emerald-200" },
+  problem: { label: "Delayed / cancelled", className: "bg-amber-50 text-amber-700 border-amber-200" },
+  unconfirmed: { label: "Never confirmed", className: "bg-red-50 text-red-600 border-red-200" },
+  unallocated: { label: "Not allocated", className: "bg-gray-50 text-gray-500 border-gray-200" },
+}
@@ -0,0 +1,107 @@
+import * as XLSX from "xlsx"
+import jsPDF from "jspdf"
+import autoTable from "jspdf-autotable"
+
+/** Program name printed at the top of generated documents. */
+export const PROGRAM_NAME = "Bataan Healthy School Setting (BHSS)"
+
+// ─── Table exports ────────────────────────────────────────────────────────────
+// Shared XLSX/PDF writers for report views. Each table becomes one worksheet in
+// the workbook, or one section (starting on a new page) in the PDF.
+
+/** A cell that links out, e.g. to an uploaded photo; PDFs show the text only. */
+export type ExportLink = { text: string; url: string }
+
+export type ExportCell = string | number | ExportLink | null | undefined
+
+function cellValue(c: ExportCell) {
+  if (c === null || c === undefined) return ""
+  return typeof c === "object" ? c.text : c
+}
+
+export type ExportTable = {
+  title: string
+  /** Short lines under the title, e.g. the active filters. */
+  subtitle?: string[]
+  /** Worksheet name; defaults to the title. */
+  sheetName?: string
+  head: string[]
+  body: ExportCell[][]
+}
+
+function safeSheetName(name: string, used: Set<string>) {
+  const base = name.replace(/[[\]:*?/\\]/g, " ").trim().slice(0, 31) || "Sheet"
+  let candidate = base
+  for (let i = 2; used.has(candidate.toLowerCase()); i++) {
+    const suffix = ` (${i})`
+    candidate = `${base.slice(0, 31 - suffix.length)}${suffix}`
+  }
+  used.add(candidate.toLowerCase())
+  return candidate
+}
+
+export function safeFileName(name: string) {
+  return name.replace(/[^a-z0-9-_]+/gi, "_").replace(/^_+|_+$/g, "") || "export"
+}
+
+export function exportTablesToXlsx(fileName: string, tables: ExportTable[]) {
+  const wb = XLSX.utils.book_new()
+  const used = new Set<string>()
+  for (const t of tables) {
+    const headerRows: ExportCell[][] = [[t.title], ...(t.subtitle || []).map((s) => [s]), [], t.head]
+    const aoa = [...headerRows, ...t.body]
+    const ws = XLSX.utils.aoa_to_sheet(aoa.map((r) => r.map(cellValue)))
+    t.body.forEach((r, ri) =>
+      r.forEach((c, ci) => {
+        if (!c || typeof c !== "object") return
+        const cell = ws[XLSX.utils.encode_cell({ r: headerRows.length + ri, c: ci })]
+        if (cell) cell.l = { Target: c.url, Tooltip: c.url }
+      })
+    )
+    ws["!cols"] = t.head.map((h, i) => ({
+      wch: Math.min(
+        48,
+        Math.max(10, h.length + 2, ...t.body.slice(0, 200).map((r) => String(cellValue(r[i])).length + 2))
+      ),
+    }))
+    XLSX.utils.book_append_sheet(wb, ws, safeSheetName(t.sheetName || t.title, used))
+  }
+  XLSX.writeFile(wb, `${safeFileName(fileName)}.xlsx`)
+}
+
+export function exportTablesToPdf(fileName: string, tables: ExportTable[]) {
+  const widest = Math.max(0, ...tables.map((t) => t.head.length))
+  const pdf = new jsPDF({ orientation: widest > 6 ? "l" : "p", unit: "mm", format: "a4" })
+  const marginX = 14
+  const generatedAt = new Date().toLocaleString()
+
+  tables.forEach((t, idx) => {
+    if (idx > 0) pdf.addPage()
+    let y = 16
+    pdf.setTextColor(15, 23, 42)
+    pdf.setFont("helvetica", "bold")
+    pdf.setFontSize(14)
+    pdf.text(t.title, marginX, y)
+    y += 6
+
+    pdf.setFont("helvetica", "normal")
+    pdf.setFontSize(9)
+    pdf.setTextColor(71, 85, 105)
+    for (const line of [...(t.subtitle || []), `Generated: ${generatedAt}`]) {
+      pdf.text(line, marginX, y)
+      y += 4.5
+    }
+
+    autoTable(pdf, {
+      startY: y + 2,
+      head: [t.head],
+      body: t.body.map((r) => r.map((c) => String(cellValue(c)))),
+      theme: "grid",
+      styles: { font: "helvetica", fontSize: 8, cellPadding: 1.8, overflow: "linebreak" },
+      headStyles: { fillColor: [22, 163, 74], textColor: 255, fontStyle: "bold" },
+      margin: { left: marginX, right: marginX },
+    })
+  })
+
+  pdf.save(`${safeFileName(fileName)}.pdf`)
+}
@@ -0,0 +1,116 @@
+import { format, subDays } from "date-fns"
+
+import type {
+  DeliveryCategoryKey,
+  DeliveryRecordDto,
+  InventoryItemKey,
+  InventoryMovementDto,
+  InventoryMovementKind,
+} from "@/lib/api"
+
+// ─── Items ────────────────────────────────────────────────────────────────────
+
+export type InventoryItem = {
+  key: InventoryItemKey
+  label: string
+  unit: string
+  /** Delivery category whose confirmed deliveries restock this item. */
+  deliveryKey: DeliveryCategoryKey
+  /** Balance at or below which the item is flagged as running low. */
+  lowStock: number
+}
+
+export const INVENTORY_ITEMS: InventoryItem[] = [
+  { key: "rice", label: "Rice", unit: "sacks", deliveryKey: "rice", lowStock: 2 },
+  { key: "water", label: "Water", unit: "gallons", deliveryKey: "water", lowStock: 10 },
+  { key: "lpg", label: "LPG", unit: "tanks", deliveryKey: "lpg", lowStock: 1 },
+  { key: "groceries", label: "Groceries", unit: "packs", deliveryKey: "groceries", lowStock: 5 },
+]
+
+export function inventoryItem(key: InventoryItemKey) {
+  return INVENTORY_ITEMS.find((i) => i.key === key) || INVENTORY_ITEMS[0]
+}
+
+export const MOVEMENT_KIND_LABELS: Record<InventoryMovementKind, string> = {
+  receipt: "Delivery received",
+  consumption: "Consumed",
+  adjustment: "Stock count",
+}
+
+// ─── Ledger ───────────────────────────────────────────────────────────────────
+
+/** Change a movement makes to the balance. */
+export function signedQuantity(m: InventoryMovementDto) {
+  return m.kind === "consumption" ? -Math.abs(m.quantity) : m.kind === "receipt" ? Math.abs(m.quantity) : m.quantity
+}
+
+export type LedgerRow = InventoryMovementDto & { change: number; balance: number }
+
+function byDate(a: InventoryMovementDto, b: InventoryMovementDto) {
+  return a.dateKey.localeCompare(b.dateKey) || String(a.createdAt || "").localeCompare(String(b.createdAt || ""))
+}
+
+/** Movements oldest first, each with the item's balance after it. */
+export function withRunningBalance(movements: InventoryMovementDto[]): LedgerRow[] {
+  const balances = new Map<InventoryItemKey, number>()
+  return movements
+    .slice()
+    .sort(byDate)
+    .map((m) => {
+      const change = signedQuantity(m)
+      const balance = (balances.get(m.itemKey) || 0) + change
+      balances.set(m.itemKey, balance)
+      return { ...m, change, balance }
+    })
+}
+
+export function balancesByItem(movements: InventoryMovementDto[]) {
+  const balances = Object.fromEntries(INVENTORY_ITEMS.map((i) => [i.key, 0])) as Record<InventoryItemKey, number>
+  for (const m of movements) balances[m.itemKey] = (balances[m.itemKey] || 0) + signedQuantity(m)
+  return balances
+}
+
+/** Mean daily consumption of an item over the `days` days up to today. */
+export function averageDailyConsumption(movements: InventoryMovementDto[], itemKey: InventoryItemKey, days = 14) {
+  const since = format(subDays(new Date(), days - 1), "yyyy-MM-dd")
+  const used = movements
+    .filter((m) => m.itemKey === itemKey && m.kind === "consumption" && m.dateKey >= since)
+    .reduce((sum, m) => sum + Math.abs(m.quantity), 0)
+  return used / days
+}
+
+export type StockLevel = "out" | "low" | "ok"
+
+/** Days left at the current pace before a level counts as low. */
+const LOW_STOCK_DAYS = 3
+
+export function stockLevel(item: InventoryItem, balance: number, avgDaily: number): StockLevel {
+  if (balance <= 0) return "out"
+  if (balance <= item.lowStock) return "low"
+  if (avgDaily > 0 && balance / avgDaily < LOW_STOCK_DAYS) return "low"
+  return "ok"
+}
+
+export function daysOfStock(balance: number, avgDaily: number) {
+  return avgDaily > 0 ? Math.max(0, Math.floor(balance / avgDaily)) : null
+}
+
+export const STOCK_LEVEL_META: Record<StockLevel, { label: string; className: string }> = {
+  out: { label: "Out of stock", className: "bg-red-50 text-red-600 border-red-200" },
+  low: { label: "Running low", className: "bg-amber-50 text-amber-700 border-amber-200" },
+  ok: { label: "In stock", className: "bg-emerald-50 text-emerald-700 border-emerald-200" },
+}
+
+/** Delivered records of inventory items that have not been received into stock yet. */
+export function pendingReceipts(records: DeliveryRecordDto[], movements: InventoryMovementDto[]) {
+  const received = new Set(movements.map((m) => m.deliveryRecordId).filter(Boolean))
+  const deliveryKeys = new Set<string>(INVENTORY_ITEMS.map((i) => i.deliveryKey))
+  return records.filter((r) => {
+    const id = String(r.id || r._id || "")
+    return r.status === "Delivered" && deliveryKeys.has(r.categoryKey) && !!id && !received.has(id)
+  })
+}
+
+export function itemForDeliveryKey(categoryKey: string) {
+  return INVENTORY_ITEMS.find((i) => i.deliveryKey === categoryKey) || null
+}
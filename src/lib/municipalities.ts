@@ -0,0 +1,15 @@
+/** The municipalities and city of Bataan, in the order pickers list them. */
+export const BATAAN_MUNICIPALITIES = [
+  "Abucay",
+  "Bagac",
+  "Balanga City",
+  "Dinalupihan",
+  "Hermosa",
+  "Limay",
+  "Mariveles",
+  "Morong",
+  "Orani",
+  "Orion",
+  "Pilar",
+  "Samal",
+]
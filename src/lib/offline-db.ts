@@ -0,0 +1,63 @@
+// ─── Offline storage ──────────────────────────────────────────────────────────
+// Thin promise wrapper over IndexedDB for data that must survive reloads while
+// the device is offline. Values go through structured clone, so `File` and
+// `Blob` objects (compressed delivery photos) can be stored as they are.
+
+const DB_NAME = "bhss-offline"
+const DB_VERSION = 1
+
+/** Object stores; every record is keyed by its `id` field. */
+export const OFFLINE_STORES = {
+  syncQueue: "sync-queue",
+} as const
+
+export type OfflineStoreName = (typeof OFFLINE_STORES)[keyof typeof OFFLINE_STORES]
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDb() {
+  if (dbPromise) return dbPromise
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (!("indexedDB" in window)) {
+      reject(new Error("Offline storage is not supported in this browser"))
+      return
+    }
+    const req = indexedDB.open(DB_NAME, DB_VERSION)
+    req.onupgradeneeded = () => {
+      const db = req.result
+      for (const name of Object.values(OFFLINE_STORES)) {
+        if (!db.objectStoreNames.contains(name)) db.createObjectStore(name, { keyPath: "id" })
+      }
+    }
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => reject(req.error || new Error("Failed to open offline storage"))
+  })
+  // Allow a later call to retry, e.g. after the user frees up storage
+  dbPromise.catch(() => {
+    dbPromise = null
+  })
+  return dbPromise
+}
+
+function run<T>(store: OfflineStoreName, mode: IDBTransactionMode, op: (s: IDBObjectStore) => IDBRequest) {
+  return openDb().then(
+    (db) =>
+      new Promise<T>((resolve, reject) => {
+        const tx = db.transaction(store, mode)
+        const req = op(tx.objectStore(store))
+        tx.oncomplete = () => resolve(req.result as T)
+        tx.onerror = () => reject(tx.error || new Error("Offline storage request failed"))
+        tx.onabort = () => reject(tx.error || new Error("Offline storage request was aborted"))
+      })
+  )
+}
+
+export const offlineDb = {
+  getAll: <T>(store: OfflineStoreName) => run<T[]>(store, "readonly", (s) => s.getAll()),
+
+  put: <T extends { id: string }>(store: OfflineStoreName, value: T) =>
+    run<IDBValidKey>(store, "readwrite", (s) => s.put(value)).then(() => undefined),
+
+  remove: (store: OfflineStoreName, id: string) =>
+    run<undefined>(store, "readwrite", (s) => s.delete(id)).then(() => undefined),
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest"
+
+import { permissionsFor } from "@/lib/permissions"
+
+describe("permissionsFor", () => {
+  it("sees nothing without a signed-in account", () => {
+    const p = permissionsFor(null)
+    expect(p.can("dashboard")).toBe(false)
+    expect(p.inScope("Abucay")).toBe(false)
+  })
+
+  it("gives a provincial admin every municipality", () => {
+    const p = permissionsFor({ role: "admin" })
+    expect(p.role).toBe("provincial-admin")
+    expect(p.municipality).toBeNull()
+    expect(p.isUnassigned).toBe(false)
+    expect(p.inScope("Abucay")).toBe(true)
+    expect(p.inScope("Orion")).toBe(true)
+    expect(p.can("users", "edit")).toBe(true)
+  })
+
+  it("limits a municipal supervisor to their own municipality", () => {
+    const p = permissionsFor({ accessRole: "municipal-supervisor", municipality: " Abucay " })
+    expect(p.municipality).toBe("Abucay")
+    expect(p.isUnassigned).toBe(false)
+    expect(p.inScope("abucay")).toBe(true)
+    expect(p.inScope("Orion")).toBe(false)
+    expect(p.inScope(undefined)).toBe(false)
+  })
+
+  it("leaves a municipal supervisor without a municipality unassigned", () => {
+    const p = permissionsFor({ accessRole: "municipal-supervisor", municipality: "" })
+    expect(p.municipality).toBeNull()
+    expect(p.isUnassigned).toBe(true)
+    expect(p.inScope("Abucay")).toBe(false)
+    expect(p.inScope("")).toBe(false)
+    expect(p.inScope(undefined)).toBe(false)
+  })
+
+  it("limits a school role to its own school", () => {
+    const p = permissionsFor({ role: "user", municipality: "Abucay", school: "Abucay North Elementary School" })
+    expect(p.role).toBe("hla-manager")
+    expect(p.inScope("Abucay", "Abucay North Elementary School")).toBe(true)
+    expect(p.inScope("Abucay", "Abucay South Elementary School")).toBe(false)
+  })
+
+  it("grants only the actions of the role", () => {
+    const p = permissionsFor({ accessRole: "municipal-supervisor", municipality: "Abucay" })
+    expect(p.can("delivery", "edit")).toBe(true)
+    expect(p.can("fileSubmissions", "comment")).toBe(true)
+    expect(p.can("fileSubmissions", "edit")).toBe(false)
+    expect(p.can("attendance", "edit")).toBe(false)
+    expect(p.can("users")).toBe(false)
+  })
+})
@@ -0,0 +1,223 @@
+import { useMemo } from "react"
+
+import type { AccessRole } from "@/lib/api"
+import { schoolKey } from "@/lib/attendance-compliance"
+import { useSearchParam } from "@/lib/router"
+import { useSessionStore } from "@/stores/session-store"
+
+// ─── Permission model ─────────────────────────────────────────────────────────
+// Every role grants actions per feature, and is limited to a scope: the whole
+// province, one municipality, or the account's own school. Sidebars list the
+// features a role may view; pages ask `can(feature, action)` before showing
+// create, edit and export controls, and `inScope` before showing a row.
+// The server enforces the same rules; this only decides what to show.
+
+export type Feature =
+  | "dashboard"
+  | "instructions"
+  | "events"
+  | "announcements"
+  | "schoolDirectory"
+  | "dataAnalysis"
+  | "procurement"
+  | "delivery"
+  | "distribution"
+  | "attendance"
+  | "inventory"
+  | "fileSubmissions"
+  | "activities"
+  | "users"
+  | "audit"
+  | "account"
+
+/** `comment` adds a note to a school's record without changing or deleting it. */
+export type Action = "view" | "create" | "edit" | "comment" | "export"
+
+export type PermissionScope = "province" | "municipality" | "school"
+
+export type RoleDefinition = {
+  label: string
+  description: string
+  portal: "admin" | "user"
+  scope: PermissionScope
+  grants: Partial<Record<Feature, Action[]>>
+}
+
+const ALL: Action[] = ["view", "create", "edit", "comment", "export"]
+const READ: Action[] = ["view", "export"]
+const VIEW: Action[] = ["view"]
+const WORK: Action[] = ["view", "create", "edit"]
+
+export const ROLE_DEFINITIONS: Record<AccessRole, RoleDefinition> = {
+  "provincial-admin": {
+    label: "Provincial Admin",
+    description: "Manages every feature and account in the province.",
+    portal: "admin",
+    scope: "province",
+    grants: {
+      dashboard: ALL,
+      events: ALL,
+      announcements: ALL,
+      schoolDirectory: ALL,
+      dataAnalysis: ALL,
+      procurement: ALL,
+      delivery: ALL,
+      distribution: ALL,
+      attendance: ALL,
+      inventory: ALL,
+      fileSubmissions: ALL,
+      activities: ALL,
+      users: ALL,
+      audit: READ,
+    },
+  },
+  "municipal-supervisor": {
+    label: "Municipal Supervisor",
+    description: "Follows up the schools of one municipality; reviews deliveries and comments on submissions.",
+    portal: "admin",
+    scope: "municipality",
+    grants: {
+      dashboard: VIEW,
+      events: VIEW,
+      announcements: VIEW,
+      schoolDirectory: READ,
+      dataAnalysis: READ,
+      delivery: ["view", "edit", "export"],
+      distribution: READ,
+      attendance: READ,
+      inventory: READ,
+      fileSubmissions: ["view", "comment", "export"],
+      activities: READ,
+    },
+  },
+  auditor: {
+    label: "Auditor",
+    description: "Reads and exports records across the province without changing them.",
+    portal: "admin",
+    scope: "province",
+    grants: {
+      dashboard: VIEW,
+      events: VIEW,
+      announcements: VIEW,
+      schoolDirectory: READ,
+      dataAnalysis: READ,
+      procurement: READ,
+      delivery: READ,
+      distribution: READ,
+      attendance: READ,
+      inventory: READ,
+      fileSubmissions: READ,
+      activities: READ,
+      users: VIEW,
+      audit: READ,
+    },
+  },
+  "hla-manager": {
+    label: "HLA Manager",
+    description: "Logs deliveries, attendance and inventory for their school.",
+    portal: "user",
+    scope: "school",
+    grants: {
+      dashboard: VIEW,
+      instructions: VIEW,
+      events: VIEW,
+      announcements: VIEW,
+      delivery: WORK,
+      attendance: WORK,
+      inventory: WORK,
+      activities: WORK,
+      account: ["view", "edit"],
+    },
+  },
+  "hla-coordinator": {
+    label: "HLA Coordinator",
+    description: "Submits files and activities for their school.",
+    portal: "user",
+    scope: "school",
+    grants: {
+      dashboard: VIEW,
+      events: VIEW,
+      announcements: VIEW,
+      fileSubmissions: WORK,
+      activities: WORK,
+      account: ["view", "edit"],
+    },
+  },
+}
+
+export const ACCESS_ROLES = Object.keys(ROLE_DEFINITIONS) as AccessRole[]
+
+type PermissionSubject = {
+  role?: string
+  accessRole?: AccessRole
+  hlaRoleType?: string
+  municipality?: string
+  school?: string
+}
+
+/** Accounts created before access roles existed map from `role` and `hlaRoleType`. */
+export function roleOf(user: PermissionSubject): AccessRole {
+  if (user.accessRole && user.accessRole in ROLE_DEFINITIONS) return user.accessRole
+  if (user.role === "admin") return "provincial-admin"
+  if (user.hlaRoleType === "HLA Coordinator") return "hla-coordinator"
+  return "hla-manager"
+}
+
+export type Permissions = {
+  role: AccessRole
+  definition: RoleDefinition
+  can: (feature: Feature, action?: Action) => boolean
+  /** Whether a record from this municipality (and school, for school scope) is visible. */
+  inScope: (municipality?: string, school?: string) => boolean
+  /** The one municipality a municipal or school scope is limited to; null for the province. */
+  municipality: string | null
+  /**
+   * A municipal or school scope whose account has no municipality set. It sees
+   * nothing rather than falling back to the whole province.
+   */
+  isUnassigned: boolean
+}
+
+const norm = (s?: string) => (s || "").trim().toLowerCase()
+
+export function permissionsFor(user: PermissionSubject | null): Permissions {
+  const role = roleOf(user || {})
+  const definition = ROLE_DEFINITIONS[role]
+  const municipality = definition.scope === "province" ? null : (user?.municipality || "").trim() || null
+  const isUnassigned = definition.scope !== "province" && municipality === null
+  const ownSchool = schoolKey(user?.municipality, user?.school)
+
+  return {
+    role,
+    definition,
+    municipality,
+    isUnassigned,
+    can: (feature, action = "view") => Boolean(user && definition.grants[feature]?.includes(action)),
+    inScope: (m, school) => {
+      if (!user) return false
+      if (definition.scope === "province") return true
+      if (isUnassigned) return false
+      if (definition.scope === "municipality") return norm(m) === norm(municipality || "")
+      return schoolKey(m, school) === ownSchool
+    },
+  }
+}
+
+/** Permissions of the signed-in account. */
+export function usePermissions() {
+  const user = useSessionStore((s) => s.user)
+  return useMemo(() => permissionsFor(user), [user])
+}
+
+/**
+ * The `?municipality=` filter of an admin page. Municipality-scoped roles are
+ * pinned to their own town whatever the URL says, and `locked` tells the page
+ * to disable its municipality picker. An unassigned scoped role stays locked
+ * with no municipality.
+ */
+export function useMunicipalityParam() {
+  const { definition, municipality } = usePermissions()
+  const [param] = useSearchParam("municipality")
+  const locked = definition.scope !== "province"
+  return { municipality: locked ? municipality : param, locked }
+}
@@ -0,0 +1,245 @@
+import { differenceInCalendarDays, format, parseISO } from "date-fns"
+
+import type { DeliveryImageFingerprintDto, DeliveryImageMeta } from "@/lib/api"
+
+// ─── Capture metadata ─────────────────────────────────────────────────────────
+// Read from the original file before compression strips it. Only JPEG EXIF is
+// understood; other formats simply yield no metadata.
+
+const EXIF_SCAN_BYTES = 256 * 1024
+
+const TAG_EXIF_IFD = 0x8769
+const TAG_GPS_IFD = 0x8825
+const TAG_DATE_TIME = 0x0132
+const TAG_DATE_TIME_ORIGINAL = 0x9003
+const TAG_GPS_LAT_REF = 0x0001
+const TAG_GPS_LAT = 0x0002
+const TAG_GPS_LNG_REF = 0x0003
+const TAG_GPS_LNG = 0x0004
+
+type IfdEntry = { type: number; count: number; valueOffset: number }
+
+function readIfd(view: DataView, tiff: number, offset: number, little: boolean) {
+  const entries = new Map<number, IfdEntry>()
+  const start = tiff + offset
+  if (start + 2 > view.byteLength) return entries
+  const count = view.getUint16(start, little)
+  for (let i = 0; i < count; i += 1) {
+    const at = start + 2 + i * 12
+    if (at + 12 > view.byteLength) break
+    entries.set(view.getUint16(at, little), {
+      type: view.getUint16(at + 2, little),
+      count: view.getUint32(at + 4, little),
+      valueOffset: at + 8,
+    })
+  }
+  return entries
+}
+
+function readAscii(view: DataView, tiff: number, entry: IfdEntry | undefined, little: boolean) {
+  if (!entry || entry.type !== 2) return ""
+  const at = entry.count > 4 ? tiff + view.getUint32(entry.valueOffset, little) : entry.valueOffset
+  let out = ""
+  for (let i = 0; i < entry.count - 1 && at + i < view.byteLength; i += 1) {
+    out += String.fromCharCode(view.getUint8(at + i))
+  }
+  return out
+}
+
+/** Degrees from the three RATIONALs (degrees, minutes, seconds) of a GPS tag. */
+function readDegrees(view: DataView, tiff: number, entry: IfdEntry | undefined, little: boolean) {
+  if (!entry || entry.type !== 5 || entry.count < 3) return null
+  const at = tiff + view.getUint32(entry.valueOffset, little)
+  if (at + 24 > view.byteLength) return null
+  const part = (i: number) => {
+    const den = view.getUint32(at + i * 8 + 4, little)
+    return den ? view.getUint32(at + i * 8, little) / den : 0
+  }
+  return part(0) + part(1) / 60 + part(2) / 3600
+}
+
+/** "2025:10:14 07:32:05" in the camera's local time. */
+function parseExifDate(value: string) {
+  const m = /^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/.exec(value)
+  if (!m) return undefined
+  const d = new Date(+m[1], +m[2] - 1, +m[3], +m[4], +m[5], +m[6])
+  return Number.isNaN(d.getTime()) ? undefined : d.toISOString()
+}
+
+function parseExif(view: DataView, tiff: number): Pick<DeliveryImageMeta, "capturedAt" | "latitude" | "longitude"> {
+  const order = view.getUint16(tiff)
+  if (order !== 0x4949 && order !== 0x4d4d) return {}
+  const little = order === 0x4949
+  const ifd0 = readIfd(view, tiff, view.getUint32(tiff + 4, little), little)
+
+  const exifPointer = ifd0.get(TAG_EXIF_IFD)
+  const exif = exifPointer ? readIfd(view, tiff, view.getUint32(exifPointer.valueOffset, little), little) : null
+  const taken =
+    readAscii(view, tiff, exif?.get(TAG_DATE_TIME_ORIGINAL), little) || readAscii(view, tiff, ifd0.get(TAG_DATE_TIME), little)
+
+  const gpsPointer = ifd0.get(TAG_GPS_IFD)
+  const gps = gpsPointer ? readIfd(view, tiff, view.getUint32(gpsPointer.valueOffset, little), little) : null
+  let latitude = gps ? readDegrees(view, tiff, gps.get(TAG_GPS_LAT), little) : null
+  let longitude = gps ? readDegrees(view, tiff, gps.get(TAG_GPS_LNG), little) : null
+  if (gps && latitude !== null && readAscii(view, tiff, gps.get(TAG_GPS_LAT_REF), little) === "S") latitude = -latitude
+  if (gps && longitude !== null && readAscii(view, tiff, gps.get(TAG_GPS_LNG_REF), little) === "W") longitude = -longitude
+
+  return {
+    capturedAt: parseExifDate(taken),
+    ...(latitude !== null && longitude !== null && (latitude || longitude) ? { latitude, longitude } : {}),
+  }
+}
+
+async function readCaptureMetadata(file: File) {
+  const view = new DataView(await file.slice(0, EXIF_SCAN_BYTES).arrayBuffer())
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return {}
+  let at = 2
+  while (at + 4 <= view.byteLength) {
+    const marker = view.getUint16(at)
+    const size = view.getUint16(at + 2)
+    // APP1 "Exif\0\0" followed by the TIFF header
+    if (marker === 0xffe1 && at + 10 <= view.byteLength && view.getUint32(at + 4) === 0x45786966) {
+      return parseExif(view, at + 10)
+    }
+    if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) break
+    at += 2 + size
+  }
+  return {}
+}
+
+// ─── Perceptual hash ──────────────────────────────────────────────────────────
+// Difference hash: the image shrunk to 9×8 greyscale, one bit per horizontal
+// neighbour pair. Re-saved, resized or recompressed copies of a photo land
+// within a few bits of each other.
+
+async function differenceHash(file: Blob) {
+  const bitmap = await createImageBitmap(file)
+  const canvas = document.createElement("canvas")
+  canvas.width = 9
+  canvas.height = 8
+  const ctx = canvas.getContext("2d", { willReadFrequently: true })
+  if (!ctx) {
+    bitmap.close()
+    return undefined
+  }
+  ctx.drawImage(bitmap, 0, 0, 9, 8)
+  bitmap.close()
+  const { data } = ctx.getImageData(0, 0, 9, 8)
+  const grey = (x: number, y: number) => {
+    const i = (y * 9 + x) * 4
+    return data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114
+  }
+  let hex = ""
+  for (let y = 0; y < 8; y += 1) {
+    let byte = 0
+    for (let x = 0; x < 8; x += 1) byte = (byte << 1) | (grey(x, y) > grey(x + 1, y) ? 1 : 0)
+    hex += byte.toString(16).padStart(2, "0")
+  }
+  return hex
+}
+
+/** Capture time, location and perceptual hash of a photo; missing parts stay undefined. */
+export async function readPhotoEvidence(file: File): Promise<DeliveryImageMeta> {
+  const [capture, phash] = await Promise.all([
+    readCaptureMetadata(file).catch(() => ({})),
+    differenceHash(file).catch(() => undefined),
+  ])
+  return { ...capture, phash }
+}
+
+function splitHash(hex: string): [number, number] | null {
+  if (!/^[0-9a-f]{16}$/i.test(hex)) return null
+  return [parseInt(hex.slice(0, 8), 16), parseInt(hex.slice(8), 16)]
+}
+
+function popcount32(x: number) {
+  x -= (x >>> 1) & 0x55555555
+  x = (x & 0x33333333) + ((x >>> 2) & 0x33333333)
+  return Math.imul((x + (x >>> 4)) & 0x0f0f0f0f, 0x01010101) >>> 24
+}
+
+function distance(a: [number, number], b: [number, number]) {
+  return popcount32(a[0] ^ b[0]) + popcount32(a[1] ^ b[1])
+}
+
+/** Fingerprints with their hashes parsed once, for comparing many photos against. */
+export type FingerprintIndex = Array<{ fingerprint: DeliveryImageFingerprintDto; hash: [number, number] }>
+
+export function indexFingerprints(fingerprints: DeliveryImageFingerprintDto[]): FingerprintIndex {
+  return fingerprints.flatMap((fingerprint) => {
+    const hash = splitHash(fingerprint.phash || "")
+    return hash ? [{ fingerprint, hash }] : []
+  })
+}
+
+// ─── Checks ───────────────────────────────────────────────────────────────────
+
+/** Hashes this many bits apart or fewer are treated as the same photo. */
+const DUPLICATE_MAX_BITS = 6
+/** Photos taken more than this many days from the delivery date are flagged. */
+const CAPTURE_TOLERANCE_DAYS = 1
+
+export type EvidenceFlag = {
+  kind: "stale" | "duplicate" | "no-metadata"
+  /** Warnings mark evidence as suspicious; notes are shown but not counted. */
+  severity: "warning" | "note"
+  message: string
+}
+
+/** Days between the photo's capture date and the delivery date; positive when taken earlier. */
+export function captureLagDays(capturedAt: string | undefined, dateKey: string) {
+  if (!capturedAt) return null
+  const days = differenceInCalendarDays(parseISO(dateKey), new Date(capturedAt))
+  return Number.isNaN(days) ? null : days
+}
+
+export function captureDateFlag(meta: DeliveryImageMeta, dateKey: string): EvidenceFlag | null {
+  const lag = captureLagDays(meta.capturedAt, dateKey)
+  if (lag === null || Math.abs(lag) <= CAPTURE_TOLERANCE_DAYS) return null
+  const taken = format(new Date(meta.capturedAt as string), "MMM d, yyyy")
+  return {
+    kind: "stale",
+    severity: "warning",
+    message:
+      lag > 0
+        ? `Taken ${taken}, ${lag} day${lag === 1 ? "" : "s"} before the delivery date`
+        : `Taken ${taken}, after the delivery date`,
+  }
+}
+
+/**
+ * Flags for one image of a delivery record. `fingerprints` may span other
+ * schools and dates; photos within the same record are not compared.
+ */
+export function evidenceFlags(
+  image: DeliveryImageMeta,
+  record: { id: string; dateKey: string },
+  fingerprints: FingerprintIndex
+): EvidenceFlag[] {
+  const flags: EvidenceFlag[] = []
+  const dateFlag = captureDateFlag(image, record.dateKey)
+  if (dateFlag) flags.push(dateFlag)
+
+  const hash = splitHash(image.phash || "")
+  if (hash) {
+    const match = fingerprints.find(
+      (f) => f.fingerprint.recordId !== record.id && distance(f.hash, hash) <= DUPLICATE_MAX_BITS
+    )?.fingerprint
+    if (match) {
+      flags.push({
+        kind: "duplicate",
+        severity: "warning",
+        message: `Matches a photo from ${match.school || "another school"} (${match.categoryLabel || "delivery"}, ${match.dateKey})`,
+      })
+    }
+  }
+
+  if (!image.capturedAt) {
+    flags.push({ kind: "no-metadata", severity: "note", message: "No capture date in the photo" })
+  }
+  return flags
+}
+
+export function isSuspicious(flags: EvidenceFlag[]) {
+  return flags.some((f) => f.severity === "warning")
+}
@@ -0,0 +1,224 @@
+import { format, startOfWeek } from "date-fns"
+
+// ─── Pivot tables ─────────────────────────────────────────────────────────────
+// Small in-memory pivot over flat rows. A dataset describes its rows through
+// dimensions (how to group) and measures (what to add up); the builder turns
+// any pair of dimensions plus one measure into a table or a time series.
+
+export type PivotDimension<T> = {
+  key: string
+  label: string
+  get: (row: T) => string
+}
+
+export type PivotMeasure<T> = {
+  key: string
+  label: string
+  get: (row: T) => number
+}
+
+export type PivotAggregation = "sum" | "avg" | "count" | "min" | "max"
+
+export const PIVOT_AGGREGATIONS: Array<{ value: PivotAggregation; label: string }> = [
+  { value: "sum", label: "Sum" },
+  { value: "avg", label: "Average" },
+  { value: "count", label: "Count" },
+  { value: "min", label: "Min" },
+  { value: "max", label: "Max" },
+]
+
+type Accumulator = { sum: number; count: number; min: number; max: number }
+
+function emptyAcc(): Accumulator {
+  return { sum: 0, count: 0, min: Number.POSITIVE_INFINITY, max: Number.NEGATIVE_INFINITY }
+}
+
+function add(acc: Accumulator, value: number) {
+  acc.sum += value
+  acc.count += 1
+  acc.min = Math.min(acc.min, value)
+  acc.max = Math.max(acc.max, value)
+}
+
+function resolve(acc: Accumulator | undefined, agg: PivotAggregation) {
+  if (!acc || acc.count === 0) return null
+  switch (agg) {
+    case "sum":
+      return acc.sum
+    case "avg":
+      return acc.sum / acc.count
+    case "count":
+      return acc.count
+    case "min":
+      return acc.min
+    case "max":
+      return acc.max
+  }
+}
+
+export type PivotTable = {
+  rowKeys: string[]
+  /** `[""]` when the table has no column dimension. */
+  colKeys: string[]
+  /** `value(row, col)`; `null` when no source rows fall in the cell. */
+  value: (rowKey: string, colKey: string) => number | null
+  rowTotal: (rowKey: string) => number | null
+  colTotal: (colKey: string) => number | null
+  grandTotal: number | null
+}
+
+const SEP = "\u0000"
+
+export function buildPivot<T>(
+  rows: T[],
+  opts: {
+    rowDim: PivotDimension<T>
+    colDim?: PivotDimension<T> | null
+    measure: PivotMeasure<T>
+    agg: PivotAggregation
+  }
+): PivotTable {
+  const cells = new Map<string, Accumulator>()
+  const rowAcc = new Map<string, Accumulator>()
+  const colAcc = new Map<string, Accumulator>()
+  const grand = emptyAcc()
+
+  const bump = (map: Map<string, Accumulator>, key: string, v: number) => {
+    let acc = map.get(key)
+    if (!acc) {
+      acc = emptyAcc()
+      map.set(key, acc)
+    }
+    add(acc, v)
+  }
+
+  for (const row of rows) {
+    const r = opts.rowDim.get(row) || "(blank)"
+    const c = opts.colDim ? opts.colDim.get(row) || "(blank)" : ""
+    const v = opts.measure.get(row)
+    if (!Number.isFinite(v)) continue
+    bump(cells, `${r}${SEP}${c}`, v)
+    bump(rowAcc, r, v)
+    bump(colAcc, c, v)
+    add(grand, v)
+  }
+
+  const sortKeys = (keys: Iterable<string>) =>
+    Array.from(keys).sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))
+
+  return {
+    rowKeys: sortKeys(rowAcc.keys()),
+    colKeys: opts.colDim ? sortKeys(colAcc.keys()) : [""],
+    value: (r, c) => resolve(cells.get(`${r}${SEP}${c}`), opts.agg),
+    rowTotal: (r) => resolve(rowAcc.get(r), opts.agg),
+    colTotal: (c) => resolve(colAcc.get(c), opts.agg),
+    grandTotal: resolve(grand, opts.agg),
+  }
+}
+
+// ─── Time series ──────────────────────────────────────────────────────────────
+
+export type TimeBucket = "day" | "week" | "month"
+
+/** Bucket key for a `yyyy-MM-dd` date; sorts chronologically as a string. */
+export function bucketDateKey(dateKey: string, bucket: TimeBucket) {
+  const d = new Date(`${dateKey}T00:00:00`)
+  if (Number.isNaN(d.getTime())) return ""
+  if (bucket === "month") return format(d, "yyyy-MM")
+  if (bucket === "week") return format(startOfWeek(d, { weekStartsOn: 1 }), "yyyy-MM-dd")
+  return format(d, "yyyy-MM-dd")
+}
+
+export function formatBucketLabel(key: string, bucket: TimeBucket) {
+  if (!key) return ""
+  if (bucket === "month") return format(new Date(`${key}-01T00:00:00`), "MMM yyyy")
+  const label = format(new Date(`${key}T00:00:00`), "MMM d")
+  return bucket === "week" ? `Wk of ${label}` : label
+}
+
+export type TimeSeries = {
+  /** One point per bucket: `{ bucket, [series.key]: value }`, ready for recharts. */
+  points: Array<Record<string, string | number | null>>
+  /** Keys are `s0`, `s1`…; labels can hold dots that recharts would read as paths. */
+  series: Array<{ key: string; label: string }>
+}
+
+/**
+ * Aggregates `measure` per time bucket. With `splitDim`, one series per
+ * dimension value is kept for the `maxSeries` largest ones and the rest are
+ * folded into "Other".
+ */
+export function buildTimeSeries<T>(
+  rows: T[],
+  opts: {
+    getDateKey: (row: T) => string
+    bucket: TimeBucket
+    measure: PivotMeasure<T>
+    agg: PivotAggregation
+    splitDim?: PivotDimension<T> | null
+    maxSeries?: number
+  }
+): TimeSeries {
+  const maxSeries = opts.maxSeries ?? 6
+  const TOTAL = opts.measure.label
+
+  let keep: Set<string> | null = null
+  if (opts.splitDim) {
+    const weight = new Map<string, number>()
+    for (const row of rows) {
+      const k = opts.splitDim.get(row) || "(blank)"
+      weight.set(k, (weight.get(k) || 0) + Math.abs(opts.measure.get(row) || 0) + 1)
+    }
+    keep = new Set(
+      Array.from(weight.entries())
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, maxSeries)
+        .map(([k]) => k)
+    )
+  }
+
+  const seriesOf = (row: T) => {
+    if (!opts.splitDim || !keep) return TOTAL
+    const k = opts.splitDim.get(row) || "(blank)"
+    return keep.has(k) ? k : "Other"
+  }
+
+  const cells = new Map<string, Map<string, Accumulator>>()
+  const seriesSet = new Set<string>()
+  for (const row of rows) {
+    const b = bucketDateKey(opts.getDateKey(row), opts.bucket)
+    const v = opts.measure.get(row)
+    if (!b || !Number.isFinite(v)) continue
+    const s = seriesOf(row)
+    seriesSet.add(s)
+    let bucket = cells.get(b)
+    if (!bucket) {
+      bucket = new Map()
+      cells.set(b, bucket)
+    }
+    let acc = bucket.get(s)
+    if (!acc) {
+      acc = emptyAcc()
+      bucket.set(s, acc)
+    }
+    add(acc, v)
+  }
+
+  const series = Array.from(seriesSet)
+    .sort((a, b) => (a === "Other" ? 1 : b === "Other" ? -1 : a.localeCompare(b)))
+    .map((label, i) => ({ key: `s${i}`, label }))
+  const points = Array.from(cells.keys())
+    .sort()
+    .map((b) => {
+      const point: Record<string, string | number | null> = { bucket: b }
+      for (const s of series) point[s.key] = resolve(cells.get(b)?.get(s.label), opts.agg)
+      return point
+    })
+
+  return { points, series }
+}
+
+export function formatPivotNumber(value: number | null) {
+  if (value === null) return ""
+  return value.toLocaleString(undefined, { maximumFractionDigits: 2 })
+}
@@ -0,0 +1,340 @@
+import { format } from "date-fns"
+import jsPDF from "jspdf"
+import autoTable from "jspdf-autotable"
+
+import {
+  type AdminDeliveryRecordDto,
+  type DeliveryStatus,
+  type ProcurementLineDto,
+  type PurchaseOrderAction,
+  type PurchaseOrderDto,
+  type PurchaseOrderStatus,
+  type PurchaseRequestAction,
+  type PurchaseRequestDto,
+  type PurchaseRequestStatus,
+} from "@/lib/api"
+import { PROGRAM_NAME, safeFileName } from "@/lib/export"
+
+// ─── Approval workflow ────────────────────────────────────────────────────────
+// Mirrors the transitions the backend accepts so pages only offer the actions
+// that can succeed for a document's current status.
+
+type Transition<S extends string> = {
+  label: string
+  from: S[]
+  to: S
+  /** Rejections and cancellations must say why. */
+  requiresRemarks?: boolean
+}
+
+export const PURCHASE_REQUEST_TRANSITIONS: Record<PurchaseRequestAction, Transition<PurchaseRequestStatus>> = {
+  submit: { label: "Submit for approval", from: ["Draft"], to: "Submitted" },
+  approve: { label: "Approve", from: ["Submitted"], to: "Approved" },
+  reject: { label: "Reject", from: ["Submitted"], to: "Rejected", requiresRemarks: true },
+  revise: { label: "Return to draft", from: ["Rejected"], to: "Draft" },
+}
+
+export const PURCHASE_ORDER_TRANSITIONS: Record<PurchaseOrderAction, Transition<PurchaseOrderStatus>> = {
+  submit: { label: "Submit for approval", from: ["Draft"], to: "For Approval" },
+  approve: { label: "Approve", from: ["For Approval"], to: "Approved" },
+  reject: { label: "Reject", from: ["For Approval"], to: "Rejected", requiresRemarks: true },
+  revise: { label: "Return to draft", from: ["Rejected"], to: "Draft" },
+  issue: { label: "Issue to supplier", from: ["Approved"], to: "Issued" },
+  complete: { label: "Mark completed", from: ["Issued"], to: "Completed" },
+  cancel: {
+    label: "Cancel order",
+    from: ["Draft", "For Approval", "Approved", "Rejected", "Issued"],
+    to: "Cancelled",
+    requiresRemarks: true,
+  },
+}
+
+export function availableActions<A extends string, S extends string>(
+  transitions: Record<A, Transition<S>>,
+  status: S
+): A[] {
+  return (Object.keys(transitions) as A[]).filter((a) => transitions[a].from.includes(status))
+}
+
+export const PURCHASE_REQUEST_STATUSES: PurchaseRequestStatus[] = ["Draft", "Submitted", "Approved", "Rejected", "Ordered"]
+
+export const PURCHASE_ORDER_STATUSES: PurchaseOrderStatus[] = [
+  "Draft",
+  "For Approval",
+  "Approved",
+  "Rejected",
+  "Issued",
+  "Completed",
+  "Cancelled",
+]
+
+export function procurementStatusClass(status: string) {
+  switch (status) {
+    case "Approved":
+    case "Completed":
+      return "bg-emerald-50 text-emerald-700 border-emerald-200"
+    case "Submitted":
+    case "For Approval":
+      return "bg-amber-50 text-amber-700 border-amber-200"
+    case "Issued":
+    case "Ordered":
+      return "bg-sky-50 text-sky-700 border-sky-200"
+    case "Rejected":
+    case "Cancelled":
+      return "bg-rose-50 text-rose-700 border-rose-200"
+    default:
+      return "bg-gray-50 text-gray-600 border-gray-200"
+  }
+}
+
+// ─── Line items ───────────────────────────────────────────────────────────────
+
+export const PROCUREMENT_UNITS = ["kg", "pcs", "packs", "sacks", "boxes", "trays", "liters", "gallons", "tanks", "sets"]
+
+export function emptyProcurementLine(): ProcurementLineDto {
+  return {
+    description: "",
+    unit: "kg",
+    quantity: 0,
+    unitCost: 0,
+    municipality: "",
+    school: "",
+    deliveryDate: "",
+  }
+}
+
+export function lineAmount(line: Pick<ProcurementLineDto, "quantity" | "unitCost">) {
+  return (Number(line.quantity) || 0) * (Number(line.unitCost) || 0)
+}
+
+export function linesTotal(lines: ProcurementLineDto[]) {
+  return lines.reduce((sum, l) => sum + lineAmount(l), 0)
+}
+
+export function formatAmount(value: number) {
+  return value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+}
+
+export function formatPeso(value: number) {
+  return `₱${formatAmount(value)}`
+}
+
+/** Empty message when the lines can be saved, otherwise the first problem found. */
+export function validateLines(lines: ProcurementLineDto[]) {
+  if (!lines.length) return "Add at least one line item."
+  for (const [i, l] of lines.entries()) {
+    const n = i + 1
+    if (!l.description.trim()) return `Line ${n}: description is required.`
+    if (!l.unit.trim()) return `Line ${n}: unit is required.`
+    if (!(l.quantity > 0)) return `Line ${n}: quantity must be greater than zero.`
+    if (!(l.unitCost >= 0)) return `Line ${n}: unit cost cannot be negative.`
+    if (!l.municipality || !l.school.trim()) return `Line ${n}: municipality and school are required.`
+    if (!l.deliveryDate) return `Line ${n}: delivery date is required.`
+  }
+  return ""
+}
+
+// ─── Delivery matching ────────────────────────────────────────────────────────
+
+export type LineMatchState = DeliveryStatus | "Not reported" | "Upcoming"
+
+export type LineMatch = {
+  line: ProcurementLineDto
+  state: LineMatchState
+  record: AdminDeliveryRecordDto | null
+}
+
+const norm = (s: string | undefined) =>
+  String(s || "")
+    .trim()
+    .toLowerCase()
+
+/** Date window covering every line of the order, for loading delivery history. */
+export function orderDeliveryRange(order: Pick<PurchaseOrderDto, "lines">) {
+  const dates = order.lines
+    .map((l) => l.deliveryDate)
+    .filter(Boolean)
+    .sort()
+  return { from: dates[0] || "", to: dates[dates.length - 1] || "" }
+}
+
+/**
+ * Pairs each PO line with the delivery a school logged for the same category,
+ * school and date. Lines without a log are "Upcoming" until their date passes.
+ */
+export function matchOrderDeliveries(
+  order: Pick<PurchaseOrderDto, "categoryKey" | "lines">,
+  records: AdminDeliveryRecordDto[],
+  todayKey = format(new Date(), "yyyy-MM-dd")
+): LineMatch[] {
+  const byKey = new Map<string, AdminDeliveryRecordDto>()
+  for (const r of records) {
+    if (r.categoryKey !== order.categoryKey) continue
+    byKey.set(`${norm(r.municipality)}|${norm(r.school)}|${r.dateKey}`, r)
+  }
+
+  return order.lines.map((line) => {
+    const record = byKey.get(`${norm(line.municipality)}|${norm(line.school)}|${line.deliveryDate}`) || null
+    if (record) return { line, state: record.status, record }
+    return { line, state: line.deliveryDate > todayKey ? "Upcoming" : "Not reported", record: null }
+  })
+}
+
+export function summarizeMatches(matches: LineMatch[]) {
+  const delivered = matches.filter((m) => m.state === "Delivered")
+  const deliveredValue = linesTotal(delivered.map((m) => m.line))
+  const orderedValue = linesTotal(matches.map((m) => m.line))
+  return {
+    lines: matches.length,
+    delivered: delivered.length,
+    issues: matches.filter((m) => m.state === "Delayed" || m.state === "Cancelled" || m.state === "Not reported")
+      .length,
+    deliveredValue,
+    orderedValue,
+    fulfillment: orderedValue > 0 ? deliveredValue / orderedValue : 0,
+  }
+}
+
+// ─── PDF ──────────────────────────────────────────────────────────────────────
+
+function formatDocDate(value?: string) {
+  if (!value) return "—"
+  const d = new Date(value.length === 10 ? `${value}T00:00:00` : value)
+  return Number.isNaN(d.getTime()) ? value : format(d, "MMM dd, yyyy")
+}
+
+type PrintableDoc =
+  | { kind: "request"; doc: PurchaseRequestDto }
+  | { kind: "order"; doc: PurchaseOrderDto; supplier?: { address?: string; contactPerson?: string; tin?: string } }
+
+/** Renders a purchase request or order as an A4 PDF and downloads it. */
+export function printProcurementPdf(printable: PrintableDoc) {
+  const pdf = new jsPDF({ orientation: "p", unit: "mm", format: "a4" })
+  const pageWidth = pdf.internal.pageSize.getWidth()
+  const marginX = 14
+  const isOrder = printable.kind === "order"
+  const number = printable.kind === "order" ? printable.doc.poNumber : printable.doc.prNumber
+  const { doc } = printable
+
+  pdf.setTextColor(15, 23, 42)
+  pdf.setFont("helvetica", "bold")
+  pdf.setFontSize(11)
+  pdf.text(PROGRAM_NAME, pageWidth / 2, 16, { align: "center" })
+  pdf.setFontSize(16)
+  pdf.text(isOrder ? "PURCHASE ORDER" : "PURCHASE REQUEST", pageWidth / 2, 25, { align: "center" })
+
+  pdf.setFont("helvetica", "normal")
+  pdf.setFontSize(9)
+  pdf.setTextColor(71, 85, 105)
+
+  const left: Array<[string, string]> =
+    printable.kind === "order"
+      ? [
+          ["Supplier", printable.doc.supplierName || "—"],
+          ["Address", printable.supplier?.address || "—"],
+          ["Contact", printable.supplier?.contactPerson || "—"],
+          ["TIN", printable.supplier?.tin || "—"],
+        ]
+      : [
+          ["Purpose", printable.doc.purpose || "—"],
+          ["Requested by", printable.doc.requestedByName || "—"],
+        ]
+  const right: Array<[string, string]> =
+    printable.kind === "order"
+      ? [
+          ["PO No.", number],
+          ["Date", formatDocDate(printable.doc.issuedAt || printable.doc.createdAt)],
+          ["PR No.", printable.doc.prNumber || "—"],
+          ["Category", printable.doc.categoryLabel],
+        ]
+      : [
+          ["PR No.", number],
+          ["Date", formatDocDate(printable.doc.createdAt)],
+          ["Needed by", formatDocDate(printable.doc.neededBy)],
+          ["Category", printable.doc.categoryLabel],
+        ]
+
+  let y = 34
+  const rows = Math.max(left.length, right.length)
+  for (let i = 0; i < rows; i++) {
+    const l = left[i]
+    const r = right[i]
+    if (l) pdf.text(`${l[0]}: ${l[1]}`, marginX, y, { maxWidth: pageWidth / 2 - marginX - 4 })
+    if (r) pdf.text(`${r[0]}: ${r[1]}`, pageWidth / 2 + 10, y)
+    y += 5
+  }
+
+  autoTable(pdf, {
+    startY: y + 2,
+    // The built-in PDF fonts have no peso sign
+    head: [["#", "Description", "School", "Deliver on", "Qty", "Unit", "Unit cost (PHP)", "Amount (PHP)"]],
+    body: doc.lines.map((l, i) => [
+      String(i + 1),
+      l.description,
+      `${l.school}\n${l.municipality}`,
+      formatDocDate(l.deliveryDate),
+      l.quantity.toLocaleString(),
+      l.unit,
+      formatAmount(l.unitCost),
+      formatAmount(lineAmount(l)),
+    ]),
+    foot: [["", "", "", "", "", "", "Total", formatAmount(linesTotal(doc.lines))]],
+    theme: "grid",
+    styles: { font: "helvetica", fontSize: 8, cellPadding: 1.8, overflow: "linebreak" },
+    headStyles: { fillColor: [22, 163, 74], textColor: 255, fontStyle: "bold" },
+    footStyles: { fillColor: [241, 245, 249], textColor: [15, 23, 42], fontStyle: "bold" },
+    columnStyles: {
+      0: { cellWidth: 8 },
+      4: { halign: "right" },
+      6: { halign: "right" },
+      7: { halign: "right" },
+    },
+    margin: { left: marginX, right: marginX },
+  })
+
+  const finalY = (pdf as jsPDF & { lastAutoTable?: { finalY?: number } }).lastAutoTable?.finalY
+  y = finalY ? finalY + 8 : y + 40
+
+  if (printable.kind === "order" && printable.doc.terms.trim()) {
+    pdf.setTextColor(15, 23, 42)
+    pdf.setFont("helvetica", "bold")
+    pdf.text("Terms and conditions", marginX, y)
+    pdf.setFont("helvetica", "normal")
+    const lines = pdf.splitTextToSize(printable.doc.terms, pageWidth - marginX * 2) as string[]
+    pdf.text(lines, marginX, y + 5)
+    y += 8 + lines.length * 4
+  }
+
+  // Signature blocks from the approval trail
+  const lastBy = (status: string) => [...doc.history].reverse().find((h) => h.status === status)?.byName || ""
+  const signatures: Array<[string, string]> =
+    printable.kind === "order"
+      ? [
+          ["Prepared by", printable.doc.preparedByName || ""],
+          ["Approved by", printable.doc.approvedByName || lastBy("Approved")],
+          ["Conforme (Supplier)", ""],
+        ]
+      : [
+          ["Requested by", printable.doc.requestedByName || ""],
+          ["Approved by", lastBy("Approved")],
+        ]
+
+  if (y > pdf.internal.pageSize.getHeight() - 40) {
+    pdf.addPage()
+    y = 20
+  }
+  const colW = (pageWidth - marginX * 2) / signatures.length
+  signatures.forEach(([label, name], i) => {
+    const x = marginX + colW * i
+    pdf.setTextColor(71, 85, 105)
+    pdf.setFontSize(8)
+    pdf.text(label, x, y + 6)
+    pdf.setDrawColor(148, 163, 184)
+    pdf.line(x, y + 20, x + colW - 8, y + 20)
+    pdf.setTextColor(15, 23, 42)
+    pdf.setFontSize(9)
+    if (name) pdf.text(name, x, y + 18)
+  })
+
+  pdf.save(`${safeFileName(number || (isOrder ? "Purchase-Order" : "Purchase-Request"))}.pdf`)
+}
@@ -0,0 +1,75 @@
+import { useSyncExternalStore } from "react"
+
+// ─── App service worker ───────────────────────────────────────────────────────
+// public/bhss-push-sw.js precaches the app shell so the portals open without a
+// network round trip. A new deploy installs a new worker that waits until the
+// user accepts the update prompt, so a page is never swapped out mid-task.
+
+const SERVICE_WORKER_URL = "/bhss-push-sw.js"
+const UPDATE_CHECK_INTERVAL_MS = 30 * 60 * 1000
+
+let waitingWorker: ServiceWorker | null = null
+const listeners = new Set<() => void>()
+
+function setWaitingWorker(worker: ServiceWorker | null) {
+  waitingWorker = worker
+  for (const listener of listeners) listener()
+}
+
+function subscribe(onChange: () => void) {
+  listeners.add(onChange)
+  return () => {
+    listeners.delete(onChange)
+  }
+}
+
+export async function registerServiceWorker() {
+  // Dev builds are served by Vite; caching them would hide edits
+  if (!import.meta.env.PROD || !("serviceWorker" in navigator)) return
+
+  try {
+    const reg = await navigator.serviceWorker.register(SERVICE_WORKER_URL, { scope: "/" })
+
+    const track = (worker: ServiceWorker | null) => {
+      if (!worker) return
+      const check = () => {
+        // Without a controller this is the first install, not an update
+        if (worker.state === "installed" && navigator.serviceWorker.controller) setWaitingWorker(worker)
+      }
+      check()
+      worker.addEventListener("statechange", check)
+    }
+
+    track(reg.waiting)
+    reg.addEventListener("updatefound", () => track(reg.installing))
+
+    // Kitchen phones keep the app open for days
+    window.setInterval(() => {
+      reg.update().catch(() => {})
+    }, UPDATE_CHECK_INTERVAL_MS)
+  } catch (e) {
+    console.error("Service worker registration failed", e)
+  }
+}
+
+/** Activates the waiting build and reloads once it controls the page. */
+export function applyServiceWorkerUpdate() {
+  const worker = waitingWorker
+  if (!worker) {
+    window.location.reload()
+    return
+  }
+
+  let reloading = false
+  navigator.serviceWorker.addEventListener("controllerchange", () => {
+    if (reloading) return
+    reloading = true
+    window.location.reload()
+  })
+  worker.postMessage({ type: "bhss:skip-waiting" })
+}
+
+/** True once a newer build has been downloaded and is waiting to take over. */
+export function useServiceWorkerUpdate() {
+  return useSyncExternalStore(subscribe, () => waitingWorker !== null)
+}
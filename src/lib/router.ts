@@ -0,0 +1,163 @@
+import { useCallback, useMemo, useState, useSyncExternalStore } from "react"
+
+// ─── History-backed routing ───────────────────────────────────────────────────
+// The portals render one page at a time from their sidebar menus, so a full
+// router is not needed: the current page is the pathname and page state that
+// should survive refreshes or be shareable (date, municipality, school, record
+// id…) lives in the query string.
+
+const NAVIGATE_EVENT = "bhss:navigate"
+
+export type NavigateOptions = {
+  /** Replace the current history entry instead of pushing a new one. */
+  replace?: boolean
+}
+
+export type SearchParamsPatch = Record<string, string | null | undefined>
+
+/** Structurally compatible with react-day-picker's `DateRange`. */
+export type DateRangeParam = { from: Date | undefined; to?: Date | undefined }
+
+function subscribe(onChange: () => void) {
+  window.addEventListener("popstate", onChange)
+  window.addEventListener(NAVIGATE_EVENT, onChange)
+  return () => {
+    window.removeEventListener("popstate", onChange)
+    window.removeEventListener(NAVIGATE_EVENT, onChange)
+  }
+}
+
+function getHref() {
+  return `${window.location.pathname}${window.location.search}`
+}
+
+/** Builds `path?key=value…`, dropping empty values. */
+export function buildPath(path: string, params?: SearchParamsPatch) {
+  const qs = new URLSearchParams()
+  for (const [k, v] of Object.entries(params || {})) {
+    if (v === undefined || v === null || v === "") continue
+    qs.set(k, v)
+  }
+  const s = qs.toString()
+  return s ? `${path}?${s}` : path
+}
+
+export function navigate(to: string, opts: NavigateOptions = {}) {
+  const url = new URL(to, window.location.origin)
+  if (url.origin !== window.location.origin) {
+    window.location.assign(url.href)
+    return
+  }
+  const next = `${url.pathname}${url.search}${url.hash}`
+  if (next === `${getHref()}${window.location.hash}`) return
+  if (opts.replace) window.history.replaceState(null, "", next)
+  else window.history.pushState(null, "", next)
+  window.dispatchEvent(new Event(NAVIGATE_EVENT))
+}
+
+/** Merges `patch` into the current query string; null/empty values are removed. */
+export function setSearchParams(patch: SearchParamsPatch, opts: NavigateOptions = { replace: true }) {
+  const params = new URLSearchParams(window.location.search)
+  for (const [k, v] of Object.entries(patch)) {
+    if (v === undefined || v === null || v === "") params.delete(k)
+    else params.set(k, v)
+  }
+  const qs = params.toString()
+  navigate(`${window.location.pathname}${qs ? `?${qs}` : ""}`, opts)
+}
+
+export function useLocation() {
+  const href = useSyncExternalStore(subscribe, getHref)
+  return useMemo(() => {
+    const url = new URL(href, window.location.origin)
+    return { pathname: url.pathname, searchParams: url.searchParams }
+  }, [href])
+}
+
+/**
+ * A single query-string value as page state. Filters write with `replace`
+ * so typing or picking does not flood the history; pass `{ replace: false }`
+ * for changes the back button should undo.
+ */
+export function useSearchParam(key: string) {
+  const { searchParams } = useLocation()
+  const value = searchParams.get(key)
+  const setValue = useCallback(
+    (next: string | null | undefined, opts?: NavigateOptions) => {
+      setSearchParams({ [key]: next }, opts)
+    },
+    [key]
+  )
+  return [value, setValue] as const
+}
+
+/** `useSearchParam` for `yyyy-MM-dd` values; `undefined` when absent or invalid. */
+export function useDateSearchParam(key: string) {
+  const [raw, setRaw] = useSearchParam(key)
+  const value = useMemo(() => parseDateParam(raw), [raw])
+  const setValue = useCallback(
+    (next: Date | null | undefined, opts?: NavigateOptions) => setRaw(formatDateParam(next), opts),
+    [setRaw]
+  )
+  return [value, setValue] as const
+}
+
+/**
+ * A `from`/`to` date range in the query string. Without params the range is
+ * `initial()`; `range=all` records that the user cleared it on purpose.
+ */
+export function useDateRangeSearchParams(initial?: () => DateRangeParam) {
+  const { searchParams } = useLocation()
+  const [fallback] = useState(() => initial?.())
+  const fromRaw = searchParams.get("from")
+  const toRaw = searchParams.get("to")
+  const cleared = searchParams.get("range") === "all"
+
+  const range = useMemo((): DateRangeParam | undefined => {
+    if (cleared) return undefined
+    if (!fromRaw && !toRaw) return fallback
+    return { from: parseDateParam(fromRaw), to: parseDateParam(toRaw) }
+  }, [cleared, fromRaw, toRaw, fallback])
+
+  const setRange = useCallback((next: DateRangeParam | undefined, opts?: NavigateOptions) => {
+    setSearchParams(
+      next
+        ? { from: formatDateParam(next.from), to: formatDateParam(next.to), range: null }
+        : { from: null, to: null, range: "all" },
+      opts
+    )
+  }, [])
+
+  return [range, setRange] as const
+}
+
+/** Parses a `yyyy-MM-dd` query value as a local date. */
+export function parseDateParam(value?: string | null) {
+  const raw = String(value || "").trim()
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(raw)) return undefined
+  const d = new Date(`${raw}T00:00:00`)
+  return Number.isNaN(d.getTime()) ? undefined : d
+}
+
+export function formatDateParam(d?: Date | null) {
+  if (!d || Number.isNaN(d.getTime())) return null
+  const y = d.getFullYear()
+  const m = String(d.getMonth() + 1).padStart(2, "0")
+  const day = String(d.getDate()).padStart(2, "0")
+  return `${y}-${m}-${day}`
+}
+
+/**
+ * The push service worker focuses an open tab and asks it to navigate instead
+ * of reloading it; see `notificationclick` in public/bhss-push-sw.js.
+ */
+export function listenForServiceWorkerNavigation() {
+  if (!("serviceWorker" in navigator)) return () => {}
+  const handler = (event: MessageEvent) => {
+    const data = event.data as { type?: string; url?: string } | null
+    if (data?.type !== "bhss:navigate" || !data.url) return
+    navigate(data.url)
+  }
+  navigator.serviceWorker.addEventListener("message", handler)
+  return () => navigator.serviceWorker.removeEventListener("message", handler)
+}
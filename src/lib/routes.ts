@@ -0,0 +1,95 @@
+import { buildPath } from "./router"
+
+// ─── Portal routes ────────────────────────────────────────────────────────────
+// Single source for every sidebar path. Links built here are what the push
+// backend should put in a notification's `url`, so keep them stable.
+
+export const ADMIN_ROUTES = {
+  dashboard: "/admin",
+  eventCalendar: "/admin/event-calendar",
+  announcements: "/admin/event-calendar/announcements",
+  schoolDirectory: "/admin/school-directory",
+  dataAnalysis: "/admin/data-analysis",
+  procurement: "/admin/procurement",
+  delivery: "/admin/delivery",
+  deliverySummary: "/admin/delivery/summary",
+  deliveryConcerns: "/admin/delivery/concerns",
+  deliverySchedule: "/admin/delivery/schedule",
+  distribution: "/admin/distribution",
+  distributionRice: "/admin/distribution/rice",
+  distributionWater: "/admin/distribution/water",
+  distributionLpg: "/admin/distribution/lpg",
+  distributionFruitsVeggies: "/admin/distribution/fruits-veggies",
+  distributionEquipments: "/admin/distribution/equipments",
+  distributionGrocery: "/admin/distribution/grocery",
+  distributionConsumables: "/admin/distribution/consumables",
+  distributionMeat: "/admin/distribution/meat",
+  distributionReconciliation: "/admin/distribution/reconciliation",
+  attendance: "/admin/attendance",
+  inventory: "/admin/inventory",
+  fileSubmissions: "/admin/file-submissions",
+  activities: "/admin/activities",
+  users: "/admin/users",
+  auditLog: "/admin/audit-log",
+} as const
+
+export const USER_ROUTES = {
+  home: "/",
+  instructions: "/instructions",
+  announcements: "/announcements",
+  calendar: "/calendar",
+  delivery: "/delivery",
+  attendance: "/attendance",
+  inventory: "/inventory",
+  fileSubmission: "/file-submission",
+  activities: "/activities",
+  account: "/account",
+} as const
+
+export function isAdminPath(pathname: string) {
+  return pathname === ADMIN_ROUTES.dashboard || pathname.startsWith(`${ADMIN_ROUTES.dashboard}/`)
+}
+
+/**
+ * Notification links are shared by both portals, so a user-portal path opened
+ * by an admin lands on the matching admin page with the same query string.
+ */
+const USER_TO_ADMIN: Record<string, string> = {
+  [USER_ROUTES.home]: ADMIN_ROUTES.dashboard,
+  [USER_ROUTES.announcements]: ADMIN_ROUTES.announcements,
+  [USER_ROUTES.calendar]: ADMIN_ROUTES.eventCalendar,
+  [USER_ROUTES.delivery]: ADMIN_ROUTES.delivery,
+  [USER_ROUTES.attendance]: ADMIN_ROUTES.attendance,
+  [USER_ROUTES.inventory]: ADMIN_ROUTES.inventory,
+  [USER_ROUTES.fileSubmission]: ADMIN_ROUTES.fileSubmissions,
+  [USER_ROUTES.activities]: ADMIN_ROUTES.activities,
+}
+
+export function toAdminPath(pathname: string) {
+  const trimmed = pathname.replace(/\/+$/, "") || "/"
+  return USER_TO_ADMIN[trimmed] || null
+}
+
+// ─── Record links ─────────────────────────────────────────────────────────────
+
+export type RecordLinkParams = {
+  id?: string | null
+  date?: string | null
+  municipality?: string | null
+  school?: string | null
+}
+
+export const links = {
+  attendance: (date?: string | null) => buildPath(USER_ROUTES.attendance, { date }),
+  delivery: (date?: string | null, category?: string | null) =>
+    buildPath(USER_ROUTES.delivery, { date, category }),
+  event: (id: string, date?: string | null) => buildPath(USER_ROUTES.calendar, { id, date }),
+  announcement: (id: string) => buildPath(USER_ROUTES.announcements, { kind: "announcement", id }),
+  adminEvent: (id: string, date?: string | null) => buildPath(ADMIN_ROUTES.eventCalendar, { id, date }),
+  adminAttendance: (p: RecordLinkParams) => buildPath(ADMIN_ROUTES.attendance, p),
+  /** One day by `date`, or a span with `from`/`to`. */
+  adminDelivery: (p: RecordLinkParams & { category?: string | null; from?: string | null; to?: string | null }) =>
+    buildPath(ADMIN_ROUTES.delivery, { ...p, from: p.from ?? p.date, to: p.to ?? p.date, date: undefined }),
+  adminFileSubmission: (p: RecordLinkParams & { folder?: string | null }) =>
+    buildPath(ADMIN_ROUTES.fileSubmissions, p),
+}
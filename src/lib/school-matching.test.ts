@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest"
+
+import { compatibleSchoolNames, createSchoolMatcher, nameSimilarity, type DirectorySchool } from "@/lib/school-matching"
+
+const school = (municipality: string, schoolName: string): DirectorySchool => ({
+  municipality,
+  schoolName,
+  beneficiaries: 0,
+})
+
+const directory = [
+  school("Abucay", "Abucay North Elementary School"),
+  school("Abucay", "Abucay South Elementary School"),
+  school("Balanga", "Balanga II Elementary School"),
+  school("Samal", "Mabatang Elementary School"),
+  school("Orion", "Sta. Elena Elementary School"),
+]
+
+describe("nameSimilarity", () => {
+  it("ignores the generic words every school name shares", () => {
+    expect(nameSimilarity("Abucay ES", "ABUCAY ELEM. SCHOOL")).toBe(1)
+  })
+
+  it("scores names that differ in their distinctive words below an auto-match", () => {
+    expect(nameSimilarity("Abucay North ES", "Abucay South Elementary School")).toBeLessThan(0.85)
+  })
+})
+
+describe("compatibleSchoolNames", () => {
+  it("rejects names with different markers", () => {
+    expect(compatibleSchoolNames("Abucay North ES", "Abucay South Elementary School")).toBe(false)
+    expect(compatibleSchoolNames("Balanga I ES", "Balanga II Elementary School")).toBe(false)
+  })
+
+  it("rejects different kinds of school", () => {
+    expect(compatibleSchoolNames("Mabatang NHS", "Mabatang Elementary School")).toBe(false)
+  })
+
+  it("accepts a name without a kind", () => {
+    expect(compatibleSchoolNames("Mabatang", "Mabatang Elementary School")).toBe(true)
+  })
+})
+
+describe("createSchoolMatcher", () => {
+  const match = createSchoolMatcher(directory, [
+    {
+      id: "a1",
+      municipality: "Orion",
+      name: "St. Elena",
+      targetMunicipality: "Orion",
+      targetSchoolName: "Sta. Elena Elementary School",
+    },
+  ])
+
+  it("matches the directory spelling exactly", () => {
+    const m = match("Abucay", "Abucay North Elementary School")
+    expect(m.status).toBe("exact")
+    expect(m.school?.schoolName).toBe("Abucay North Elementary School")
+  })
+
+  it("matches a remembered alias", () => {
+    const m = match("Orion", "St. Elena")
+    expect(m.status).toBe("alias")
+    expect(m.school?.schoolName).toBe("Sta. Elena Elementary School")
+  })
+
+  it("matches an abbreviated spelling of the same school", () => {
+    const m = match("Abucay", "Abucay North ES")
+    expect(m.status).toBe("fuzzy")
+    expect(m.school?.schoolName).toBe("Abucay North Elementary School")
+  })
+
+  it("leaves a different direction unresolved but suggests it", () => {
+    const m = match("Abucay", "Abucay East ES")
+    expect(m.status).toBe("unresolved")
+    expect(m.school).toBeUndefined()
+    expect(m.suggestions.length).toBeGreaterThan(0)
+  })
+
+  it("leaves a different numeral unresolved", () => {
+    expect(match("Balanga", "Balanga I ES").status).toBe("unresolved")
+  })
+
+  it("leaves a high school unresolved against an elementary school", () => {
+    expect(match("Samal", "Mabatang NHS").status).toBe("unresolved")
+  })
+})
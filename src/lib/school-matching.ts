@@ -0,0 +1,232 @@
+import type { SchoolAliasDto, SchoolBeneficiaryRow, SchoolDetailsRow } from "@/lib/api"
+import { schoolKey } from "@/lib/attendance-compliance"
+
+// ─── School name matching ─────────────────────────────────────────────────────
+// Spreadsheets spell schools however the encoder typed them ("Abucay ES",
+// "ABUCAY ELEM. SCHOOL"). Names are resolved against the school directory in
+// order: exact match, a remembered alias, then the closest name by similarity.
+// Almost every name ends in "elementary school", so similarity only looks at
+// the distinctive words, and names that differ in a marker such as "North" or
+// "II" or in the kind of school are never matched without asking.
+
+export type DirectorySchool = {
+  municipality: string
+  schoolName: string
+  /** Registered beneficiaries across all grades. */
+  beneficiaries: number
+}
+
+export type SchoolMatchStatus = "exact" | "alias" | "fuzzy" | "unresolved"
+
+export type SchoolMatch = {
+  status: SchoolMatchStatus
+  school?: DirectorySchool
+  /** Similarity of the best candidate, 0–1; 1 for exact and alias matches. */
+  score: number
+  /** Closest directory schools, best first; filled for fuzzy and unresolved names. */
+  suggestions: DirectorySchool[]
+}
+
+/** Fuzzy matches at or above this score, with compatible names, are taken without asking. */
+const AUTO_MATCH_SCORE = 0.85
+const SUGGESTION_SCORE = 0.4
+const MAX_SUGGESTIONS = 5
+
+const ABBREVIATIONS: Record<string, string> = {
+  es: "elementary school",
+  elem: "elementary",
+  sch: "school",
+  hs: "high school",
+  nhs: "national high school",
+  is: "integrated school",
+  mem: "memorial",
+  brgy: "barangay",
+  sto: "santo",
+  sta: "santa",
+}
+
+/** Lowercased name with punctuation dropped and common abbreviations spelled out. */
+export function comparableName(s: string | undefined) {
+  return String(s || "")
+    .toLowerCase()
+    .split(/[^a-z0-9ñ]+/)
+    .filter(Boolean)
+    .map((t) => ABBREVIATIONS[t] || t)
+    .join(" ")
+}
+
+/** Words shared by most school names; they say nothing about which school it is. */
+const GENERIC_WORDS = new Set(["elementary", "school", "high", "national", "integrated", "primary", "secondary"])
+
+/** Words that tell two otherwise identical names apart. */
+const MARKER_WORDS = new Set([
+  "north",
+  "south",
+  "east",
+  "west",
+  "central",
+  "upper",
+  "lower",
+  "proper",
+  "annex",
+  "extension",
+  "i",
+  "ii",
+  "iii",
+  "iv",
+  "v",
+  "vi",
+  "vii",
+  "viii",
+  "ix",
+  "x",
+])
+
+function distinctiveWords(name: string) {
+  return comparableName(name)
+    .split(" ")
+    .filter((t) => t && !GENERIC_WORDS.has(t))
+}
+
+function schoolKind(name: string) {
+  const words = comparableName(name).split(" ")
+  if (words.includes("integrated")) return "integrated"
+  if (words.includes("high")) return "high"
+  if (words.includes("elementary") || words.includes("primary")) return "elementary"
+  return ""
+}
+
+function markers(words: string[]) {
+  return words
+    .filter((t) => MARKER_WORDS.has(t) || /^\d+$/.test(t))
+    .sort()
+    .join(" ")
+}
+
+/**
+ * Whether two names may be the same school: the same markers and, when both
+ * say it, the same kind of school. "Abucay North ES" and "Abucay South
+ * Elementary School" are not.
+ */
+export function compatibleSchoolNames(a: string, b: string) {
+  if (markers(distinctiveWords(a)) !== markers(distinctiveWords(b))) return false
+  const ka = schoolKind(a)
+  const kb = schoolKind(b)
+  return !ka || !kb || ka === kb
+}
+
+function comparableMunicipality(s: string | undefined) {
+  return comparableName(s).replace(/\b(city of|city|municipality of)\b/g, "").trim()
+}
+
+function bigrams(s: string) {
+  const compact = s.replace(/\s+/g, " ")
+  const grams = new Map<string, number>()
+  for (let i = 0; i < compact.length - 1; i++) {
+    const g = compact.slice(i, i + 2)
+    grams.set(g, (grams.get(g) || 0) + 1)
+  }
+  return grams
+}
+
+/**
+ * Dice coefficient over character bigrams of the distinctive words, falling
+ * back to the whole name when it has nothing but generic words.
+ */
+export function nameSimilarity(a: string, b: string) {
+  const x = distinctiveWords(a).join(" ") || comparableName(a)
+  const y = distinctiveWords(b).join(" ") || comparableName(b)
+  if (!x || !y) return 0
+  if (x === y) return 1
+  const gx = bigrams(x)
+  const gy = bigrams(y)
+  let overlap = 0
+  for (const [g, n] of gx) overlap += Math.min(n, gy.get(g) || 0)
+  const size = x.length - 1 + (y.length - 1)
+  return size > 0 ? (2 * overlap) / size : 0
+}
+
+export function directorySchoolsFromBeneficiaries(rows: SchoolBeneficiaryRow[]): DirectorySchool[] {
+  const byKey = new Map<string, DirectorySchool>()
+  for (const r of rows) {
+    const key = schoolKey(r.municipality, r.schoolName)
+    const existing = byKey.get(key)
+    const total = Number(r.total || 0) || Number(r.grade2 || 0) + Number(r.grade3 || 0) + Number(r.grade4 || 0)
+    if (existing) existing.beneficiaries += total
+    else byKey.set(key, { municipality: r.municipality.trim(), schoolName: r.schoolName.trim(), beneficiaries: total })
+  }
+  return Array.from(byKey.values())
+}
+
+/** Schools from the details tab, which lists kitchens before beneficiaries are encoded. */
+export function directorySchoolsFromDetails(rows: SchoolDetailsRow[]): DirectorySchool[] {
+  const byKey = new Map<string, DirectorySchool>()
+  for (const r of rows) {
+    const key = schoolKey(r.municipality, r.completeName)
+    if (!byKey.has(key)) {
+      byKey.set(key, { municipality: r.municipality.trim(), schoolName: r.completeName.trim(), beneficiaries: 0 })
+    }
+  }
+  return Array.from(byKey.values())
+}
+
+/** Returns a function resolving one spreadsheet name against the directory. */
+export function createSchoolMatcher(schools: DirectorySchool[], aliases: SchoolAliasDto[]) {
+  const byKey = new Map(schools.map((s) => [schoolKey(s.municipality, s.schoolName), s]))
+  const byAlias = new Map<string, DirectorySchool>()
+  for (const a of aliases) {
+    const target = byKey.get(schoolKey(a.targetMunicipality, a.targetSchoolName))
+    if (target) byAlias.set(schoolKey(a.municipality, a.name), target)
+  }
+
+  return (municipality: string, name: string): SchoolMatch => {
+    const key = schoolKey(municipality, name)
+    const exact = byKey.get(key)
+    if (exact) return { status: "exact", school: exact, score: 1, suggestions: [] }
+    const alias = byAlias.get(key)
+    if (alias) return { status: "alias", school: alias, score: 1, suggestions: [] }
+
+    // Look within the municipality when it is recognisable, otherwise everywhere
+    const muni = comparableMunicipality(municipality)
+    const local = schools.filter((s) => comparableMunicipality(s.municipality) === muni)
+    const pool = local.length ? local : schools
+
+    const ranked = pool
+      .map((s) => ({ s, score: nameSimilarity(name, s.schoolName) }))
+      .filter((x) => x.score >= SUGGESTION_SCORE)
+      .sort((a, b) => b.score - a.score)
+    const best = ranked[0]
+    const suggestions = ranked.slice(0, MAX_SUGGESTIONS).map((x) => x.s)
+
+    if (best && best.score >= AUTO_MATCH_SCORE && compatibleSchoolNames(name, best.s.schoolName)) {
+      return { status: "fuzzy", school: best.s, score: best.score, suggestions }
+    }
+    return { status: "unresolved", score: best?.score ?? 0, suggestions }
+  }
+}
+
+/** A spreadsheet name that matched nothing, with how many rows carry it. */
+export type UnresolvedSchoolName = {
+  key: string
+  municipality: string
+  name: string
+  rowCount: number
+  suggestions: DirectorySchool[]
+}
+
+/** Unresolved names in `rows`, one entry per distinct municipality and name. */
+export function unresolvedSchoolNames(
+  rows: Array<{ id: string; municipality: string; school: string }>,
+  matches: Map<string, SchoolMatch>
+) {
+  const byKey = new Map<string, UnresolvedSchoolName>()
+  for (const r of rows) {
+    const match = matches.get(r.id)
+    if (match?.status !== "unresolved") continue
+    const key = schoolKey(r.municipality, r.school)
+    const existing = byKey.get(key)
+    if (existing) existing.rowCount += 1
+    else byKey.set(key, { key, municipality: r.municipality, name: r.school, rowCount: 1, suggestions: match.suggestions })
+  }
+  return Array.from(byKey.values())
+}
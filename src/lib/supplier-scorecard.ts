@@ -0,0 +1,274 @@
+import { eachMonthOfInterval, format, parseISO } from "date-fns"
+import jsPDF from "jspdf"
+import autoTable from "jspdf-autotable"
+
+import type { AdminDeliveryRecordDto, DeliveryScheduleDto, SupplierDto } from "@/lib/api"
+import { schoolKey } from "@/lib/attendance-compliance"
+import {
+  countOutcome,
+  emptyOutcomeCounts,
+  expandSchedules,
+  formatRate,
+  matchSchedules,
+  onTimeRate,
+  type ScheduleResult,
+} from "@/lib/delivery-schedule"
+import { PROGRAM_NAME, safeFileName } from "@/lib/export"
+
+// ─── Attribution ──────────────────────────────────────────────────────────────
+// A delivery belongs to the supplier the server attributed it to. Older
+// records fall back to the supplier scheduled for that school and category on
+// the date, then to the only supplier registered for both.
+
+const recordKey = (municipality: string | undefined, school: string | undefined, categoryKey: string) =>
+  `${schoolKey(municipality, school)}|${categoryKey}`
+
+/** Returns a function naming the supplier id a delivery record belongs to, or null. */
+export function createSupplierAttributor(suppliers: SupplierDto[], schedules: DeliveryScheduleDto[]) {
+  const scheduled = new Map<string, DeliveryScheduleDto[]>()
+  for (const s of schedules) {
+    if (!s.supplierId) continue
+    const key = recordKey(s.municipality, s.school, s.categoryKey)
+    scheduled.set(key, [...(scheduled.get(key) || []), s])
+  }
+
+  const serving = new Map<string, string[]>()
+  for (const supplier of suppliers) {
+    for (const school of supplier.schools || []) {
+      for (const categoryKey of supplier.categories) {
+        const key = recordKey(school.municipality, school.school, categoryKey)
+        serving.set(key, [...(serving.get(key) || []), supplier.id])
+      }
+    }
+  }
+
+  return (record: AdminDeliveryRecordDto): string | null => {
+    if (record.supplierId) return record.supplierId
+    const key = recordKey(record.municipality, record.school, record.categoryKey)
+    const schedule = scheduled
+      .get(key)
+      ?.find((s) => s.startDate <= record.dateKey && (!s.endDate || s.endDate >= record.dateKey))
+    if (schedule?.supplierId) return schedule.supplierId
+    const candidates = serving.get(key) || []
+    return candidates.length === 1 ? candidates[0] : null
+  }
+}
+
+// ─── Scorecards ───────────────────────────────────────────────────────────────
+
+export type ScorecardStats = {
+  deliveries: number
+  /** From scheduled dates when the supplier has any, otherwise Delivered vs. Delayed logs. */
+  onTimeRate: number | null
+  /** Share of deliveries with at least one concern. */
+  concernRate: number | null
+  cancellationRate: number | null
+}
+
+export type ScorecardPeriod = ScorecardStats & { month: string }
+
+export type SupplierScorecard = ScorecardStats & {
+  supplier: SupplierDto
+  delivered: number
+  delayed: number
+  cancelled: number
+  scheduled: number
+  /** Most frequent first; `rate` is per delivery. */
+  concerns: Array<{ concern: string; count: number; rate: number }>
+  /** One entry per calendar month in the range, oldest first. */
+  trend: ScorecardPeriod[]
+}
+
+const ratio = (n: number, d: number) => (d ? n / d : null)
+
+function scorecardStats(records: AdminDeliveryRecordDto[], results: ScheduleResult[]): ScorecardStats {
+  const delivered = records.filter((r) => r.status === "Delivered").length
+  const delayed = records.filter((r) => r.status === "Delayed").length
+  const onTime = results.length
+    ? onTimeRate(results.reduce((c, r) => countOutcome(c, r.outcome), emptyOutcomeCounts()))
+    : ratio(delivered, delivered + delayed)
+  return {
+    deliveries: records.length,
+    onTimeRate: onTime,
+    concernRate: ratio(records.filter((r) => (r.concerns || []).length > 0).length, records.length),
+    cancellationRate: ratio(records.filter((r) => r.status === "Cancelled").length, records.length),
+  }
+}
+
+/**
+ * Scorecards for every supplier with a delivery or scheduled date between
+ * `fromKey` and `toKey`, by supplier name.
+ */
+export function buildScorecards(
+  suppliers: SupplierDto[],
+  records: AdminDeliveryRecordDto[],
+  schedules: DeliveryScheduleDto[],
+  fromKey: string,
+  toKey: string
+): SupplierScorecard[] {
+  const attribute = createSupplierAttributor(suppliers, schedules)
+  const recordsBySupplier = new Map<string, AdminDeliveryRecordDto[]>()
+  for (const r of records) {
+    const id = attribute(r)
+    if (id) recordsBySupplier.set(id, [...(recordsBySupplier.get(id) || []), r])
+  }
+
+  const results = matchSchedules(expandSchedules(schedules.filter((s) => s.supplierId), fromKey, toKey), records)
+  const resultsBySupplier = new Map<string, ScheduleResult[]>()
+  for (const r of results) {
+    const id = r.schedule.supplierId as string
+    resultsBySupplier.set(id, [...(resultsBySupplier.get(id) || []), r])
+  }
+
+  const months = eachMonthOfInterval({ start: parseISO(fromKey), end: parseISO(toKey) }).map((d) =>
+    format(d, "yyyy-MM")
+  )
+
+  return suppliers
+    .filter((s) => recordsBySupplier.has(s.id) || resultsBySupplier.has(s.id))
+    .map((supplier) => {
+      const own = recordsBySupplier.get(supplier.id) || []
+      const ownResults = resultsBySupplier.get(supplier.id) || []
+
+      const concernCounts = new Map<string, number>()
+      for (const r of own) {
+        for (const c of new Set((r.concerns || []).map((c) => c.trim()).filter(Boolean))) {
+          concernCounts.set(c, (concernCounts.get(c) || 0) + 1)
+        }
+      }
+
+      return {
+        supplier,
+        ...scorecardStats(own, ownResults),
+        delivered: own.filter((r) => r.status === "Delivered").length,
+        delayed: own.filter((r) => r.status === "Delayed").length,
+        cancelled: own.filter((r) => r.status === "Cancelled").length,
+        scheduled: ownResults.length,
+        concerns: Array.from(concernCounts.entries())
+          .map(([concern, count]) => ({ concern, count, rate: own.length ? count / own.length : 0 }))
+          .sort((a, b) => b.count - a.count || a.concern.localeCompare(b.concern)),
+        trend: months.map((month) => ({
+          month,
+          ...scorecardStats(
+            own.filter((r) => r.dateKey.startsWith(month)),
+            ownResults.filter((r) => r.dateKey.startsWith(month))
+          ),
+        })),
+      }
+    })
+    .sort((a, b) => a.supplier.name.localeCompare(b.supplier.name))
+}
+
+export function formatMonth(month: string) {
+  return format(parseISO(`${month}-01`), "MMM yyyy")
+}
+
+// ─── PDF ──────────────────────────────────────────────────────────────────────
+
+/** Renders one supplier's scorecard as an A4 PDF for contract reviews and downloads it. */
+export function printScorecardPdf(card: SupplierScorecard, range: { from: string; to: string }) {
+  const pdf = new jsPDF({ orientation: "p", unit: "mm", format: "a4" })
+  const pageWidth = pdf.internal.pageSize.getWidth()
+  const marginX = 14
+  const { supplier } = card
+  const lastY = (fallback: number) =>
+    (pdf as jsPDF & { lastAutoTable?: { finalY?: number } }).lastAutoTable?.finalY ?? fallback
+
+  pdf.setTextColor(15, 23, 42)
+  pdf.setFont("helvetica", "bold")
+  pdf.setFontSize(11)
+  pdf.text(PROGRAM_NAME, pageWidth / 2, 16, { align: "center" })
+  pdf.setFontSize(16)
+  pdf.text("SUPPLIER SCORECARD", pageWidth / 2, 25, { align: "center" })
+
+  pdf.setFont("helvetica", "normal")
+  pdf.setFontSize(9)
+  pdf.setTextColor(71, 85, 105)
+  const period = `${format(parseISO(range.from), "MMM dd, yyyy")} to ${format(parseISO(range.to), "MMM dd, yyyy")}`
+  const facts: Array<[string, string]> = [
+    ["Supplier", supplier.name],
+    ["Contact", [supplier.contactPerson, supplier.contactNumber].filter(Boolean).join(" • ") || "—"],
+    ["TIN", supplier.tin || "—"],
+    ["Period", period],
+  ]
+  let y = 34
+  for (const [label, value] of facts) {
+    pdf.text(`${label}: ${value}`, marginX, y, { maxWidth: pageWidth - marginX * 2 })
+    y += 5
+  }
+
+  const tableStyles = {
+    theme: "grid" as const,
+    styles: { font: "helvetica", fontSize: 8.5, cellPadding: 1.8, overflow: "linebreak" as const },
+    headStyles: { fillColor: [22, 163, 74] as [number, number, number], textColor: 255, fontStyle: "bold" as const },
+    margin: { left: marginX, right: marginX },
+  }
+
+  autoTable(pdf, {
+    ...tableStyles,
+    startY: y + 2,
+    head: [["Deliveries", "Delivered", "Delayed", "Cancelled", "On-time rate", "Concern rate", "Cancellation rate"]],
+    body: [
+      [
+        String(card.deliveries),
+        String(card.delivered),
+        String(card.delayed),
+        String(card.cancelled),
+        formatRate(card.onTimeRate),
+        formatRate(card.concernRate),
+        formatRate(card.cancellationRate),
+      ],
+    ],
+  })
+  y = lastY(y + 20) + 4
+  pdf.setFontSize(8)
+  pdf.text(
+    card.scheduled
+      ? `On-time rate is measured against ${card.scheduled} scheduled delivery date(s).`
+      : "No scheduled dates in the period; on-time rate compares Delivered with Delayed logs.",
+    marginX,
+    y
+  )
+
+  autoTable(pdf, {
+    ...tableStyles,
+    startY: y + 4,
+    head: [["Concern", "Deliveries affected", "Rate"]],
+    body: card.concerns.length
+      ? card.concerns.map((c) => [c.concern, String(c.count), formatRate(c.rate)])
+      : [["No concerns reported", "", ""]],
+    columnStyles: { 1: { halign: "right" }, 2: { halign: "right" } },
+  })
+
+  autoTable(pdf, {
+    ...tableStyles,
+    startY: lastY(y + 30) + 6,
+    head: [["Month", "Deliveries", "On-time rate", "Concern rate", "Cancellation rate"]],
+    body: card.trend.map((t) => [
+      formatMonth(t.month),
+      String(t.deliveries),
+      formatRate(t.onTimeRate),
+      formatRate(t.concernRate),
+      formatRate(t.cancellationRate),
+    ]),
+    columnStyles: { 1: { halign: "right" }, 2: { halign: "right" }, 3: { halign: "right" }, 4: { halign: "right" } },
+  })
+
+  y = lastY(y + 60) + 10
+  if (y > pdf.internal.pageSize.getHeight() - 40) {
+    pdf.addPage()
+    y = 20
+  }
+  const signatures = ["Reviewed by", "Noted by", "Conforme (Supplier)"]
+  const colW = (pageWidth - marginX * 2) / signatures.length
+  signatures.forEach((label, i) => {
+    const x = marginX + colW * i
+    pdf.setTextColor(71, 85, 105)
+    pdf.setFontSize(8)
+    pdf.text(label, x, y + 6)
+    pdf.setDrawColor(148, 163, 184)
+    pdf.line(x, y + 20, x + colW - 8, y + 20)
+  })
+
+  pdf.save(`${safeFileName(`Scorecard-${supplier.name}-${range.from}-${range.to}`)}.pdf`)
+}
@@ -0,0 +1,326 @@
+import * as XLSX from "xlsx"
+
+import type { BhssUser, CreateBhssUserInput } from "@/lib/api"
+import { schoolKey } from "@/lib/attendance-compliance"
+import type { ImportIssue } from "@/lib/distribution-import"
+import type { ExportTable } from "@/lib/export"
+import { comparableName, createSchoolMatcher, type DirectorySchool } from "@/lib/school-matching"
+
+// ─── Columns ──────────────────────────────────────────────────────────────────
+// One account per row. Headings are matched case-insensitively against each
+// column's aliases; only username, municipality and school are required.
+
+type UserImportField =
+  | "username"
+  | "name"
+  | "hlaRoleType"
+  | "municipality"
+  | "school"
+  | "email"
+  | "contactNumber"
+  | "schoolAddress"
+  | "password"
+
+type UserImportColumn = { key: UserImportField; label: string; aliases: string[]; required?: boolean }
+
+export const USER_IMPORT_COLUMNS: UserImportColumn[] = [
+  { key: "username", label: "Username", aliases: ["username", "user name", "login"], required: true },
+  { key: "name", label: "Name", aliases: ["name", "full name", "hla name", "hla manager", "hla coordinator"] },
+  { key: "hlaRoleType", label: "HLA Role", aliases: ["hla role", "hla role type", "role", "role type", "position"] },
+  { key: "municipality", label: "Municipality", aliases: ["municipality", "lgu", "municipal"], required: true },
+  { key: "school", label: "School", aliases: ["school", "school name", "bhss kitchen", "kitchen"], required: true },
+  { key: "email", label: "Email", aliases: ["email", "e-mail", "email address"] },
+  { key: "contactNumber", label: "Contact Number", aliases: ["contact number", "contact", "contact no", "mobile", "phone"] },
+  { key: "schoolAddress", label: "School Address", aliases: ["school address", "address"] },
+  { key: "password", label: "Password", aliases: ["password", "initial password"] },
+]
+
+const MIN_USERNAME_LENGTH = 3
+const MIN_PASSWORD_LENGTH = 6
+
+export type HlaRoleType = "HLA Manager" | "HLA Coordinator"
+
+function hlaRoleFrom(text: string): HlaRoleType | null {
+  const t = text.trim().toLowerCase()
+  if (!t || t.includes("manager")) return "HLA Manager"
+  if (t.includes("coordinator")) return "HLA Coordinator"
+  return null
+}
+
+/** Blank template with the expected headings, for admins to fill in. */
+export function userImportTemplate(): ExportTable {
+  return {
+    title: "BHSS User Accounts",
+    subtitle: [
+      "One account per row. Username, Municipality and School are required.",
+      "HLA Role is HLA Manager or HLA Coordinator (blank means HLA Manager). Leave Password blank to generate one.",
+    ],
+    sheetName: "Users",
+    head: USER_IMPORT_COLUMNS.map((c) => c.label),
+    body: [],
+  }
+}
+
+// ─── Sheet parsing ────────────────────────────────────────────────────────────
+
+export type UserImportRow = {
+  id: string
+  /** 1-based worksheet row. */
+  sourceRow: number
+  input: CreateBhssUserInput & { hlaRoleType: HlaRoleType }
+  /** The sheet left the password blank and one was generated. */
+  generatedPassword: boolean
+}
+
+export type ParsedUserSheet = {
+  rows: UserImportRow[]
+  issues: ImportIssue[]
+}
+
+const headingText = (v: unknown) =>
+  String(v ?? "")
+    .replace(/[*:]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+    .toLowerCase()
+
+/**
+ * Reads the first worksheet whose heading row names a username column. Blank
+ * rows are skipped; every other row becomes an account to validate.
+ */
+export function parseUserSheet(wb: XLSX.WorkBook): ParsedUserSheet {
+  const issues: ImportIssue[] = []
+  const usernameAliases = USER_IMPORT_COLUMNS[0].aliases
+
+  for (const name of wb.SheetNames) {
+    const data = XLSX.utils.sheet_to_json(wb.Sheets[name], { header: 1, defval: "" }) as unknown[][]
+    const headerRowIndex = data.slice(0, 20).findIndex((r) => r.some((c) => usernameAliases.includes(headingText(c))))
+    if (headerRowIndex < 0) continue
+
+    const headings = data[headerRowIndex].map(headingText)
+    const columnIndex = new Map<UserImportField, number>()
+    for (const col of USER_IMPORT_COLUMNS) {
+      const idx = headings.findIndex((h, i) => col.aliases.includes(h) && !Array.from(columnIndex.values()).includes(i))
+      if (idx >= 0) columnIndex.set(col.key, idx)
+      else if (col.required) {
+        issues.push({ row: headerRowIndex + 1, column: col.label, message: `No "${col.label}" column found`, severity: "error" })
+      }
+    }
+    if (issues.length) return { rows: [], issues }
+
+    const rows: UserImportRow[] = []
+    for (let i = headerRowIndex + 1; i < data.length; i++) {
+      const raw = data[i] || []
+      const get = (key: UserImportField) => String(raw[columnIndex.get(key) ?? -1] ?? "").trim()
+      if (USER_IMPORT_COLUMNS.every((c) => !get(c.key))) continue
+
+      const sourceRow = i + 1
+      const roleText = get("hlaRoleType")
+      const hlaRoleType = hlaRoleFrom(roleText)
+      if (!hlaRoleType) {
+        issues.push({
+          row: sourceRow,
+          column: "HLA Role",
+          message: `"${roleText}" is not HLA Manager or HLA Coordinator`,
+          severity: "error",
+        })
+      }
+      const password = get("password")
+      const username = get("username")
+      rows.push({
+        id: `row-${sourceRow}`,
+        sourceRow,
+        input: {
+          username,
+          password: password || generatePassword(),
+          name: get("name") || username,
+          school: get("school"),
+          municipality: get("municipality"),
+          email: get("email"),
+          contactNumber: get("contactNumber"),
+          schoolAddress: get("schoolAddress"),
+          hlaRoleType: hlaRoleType || "HLA Manager",
+          province: "Bataan",
+          role: "user",
+        },
+        generatedPassword: !password,
+      })
+    }
+    if (!rows.length) issues.push({ row: 0, message: `Sheet "${name}" has no accounts below its headings`, severity: "error" })
+    return { rows, issues }
+  }
+
+  issues.push({ row: 0, message: "No sheet has a Username column; start from the template", severity: "error" })
+  return { rows: [], issues }
+}
+
+// ─── Passwords ────────────────────────────────────────────────────────────────
+
+// No 0/O, 1/l/I: the credentials sheet is often printed and typed back in
+const PASSWORD_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnpqrstuvwxyz23456789"
+
+/** Random initial password with at least one letter and one digit. */
+export function generatePassword(length = 10) {
+  for (;;) {
+    const bytes = crypto.getRandomValues(new Uint32Array(length))
+    const password = Array.from(bytes, (b) => PASSWORD_ALPHABET[b % PASSWORD_ALPHABET.length]).join("")
+    if (/\d/.test(password) && /[a-z]/i.test(password)) return password
+  }
+}
+
+// ─── Validation ───────────────────────────────────────────────────────────────
+
+export type UserImportDirectory = {
+  schools: DirectorySchool[]
+  aliases: Parameters<typeof createSchoolMatcher>[1]
+  schoolYear: string
+  /** Set when the directory could not be loaded; nothing is created until it can be. */
+  error: string | null
+}
+
+/**
+ * Checks parsed rows against existing accounts, the school directory and each
+ * other. Returned rows carry the directory's spelling of municipality and
+ * school; rows with an error issue are not created. A school must match the
+ * directory exactly or through a confirmed alias: a close spelling is only a
+ * suggestion, since an account tied to the wrong school sees that school's data.
+ */
+export function validateUserRows(
+  rows: UserImportRow[],
+  users: BhssUser[],
+  directory: UserImportDirectory
+): { rows: UserImportRow[]; issues: ImportIssue[] } {
+  const issues: ImportIssue[] = []
+  const norm = (s?: string) => (s || "").trim().toLowerCase()
+
+  const usernames = new Set(users.map((u) => norm(u.username)))
+  const emails = new Set(users.map((u) => norm(u.email)).filter(Boolean))
+  // Same rule as the create form: a manager takes a school no account has yet
+  const schoolsWithAccounts = new Set(users.map((u) => schoolKey(u.municipality, u.school)))
+  const municipalities = new Map(directory.schools.map((s) => [comparableName(s.municipality), s.municipality]))
+  const match = createSchoolMatcher(directory.schools, directory.aliases)
+
+  if (directory.error) {
+    issues.push({ row: 0, message: `${directory.error}; school names cannot be checked`, severity: "error" })
+  }
+
+  const seenUsernames = new Map<string, number>()
+  const seenEmails = new Map<string, number>()
+  const seenManagers = new Map<string, number>()
+
+  const resolved = rows.map((row) => {
+    const { input, sourceRow } = row
+    const issue = (column: string, message: string, severity: ImportIssue["severity"] = "error") =>
+      issues.push({ row: sourceRow, column, message, severity })
+    let { municipality, school } = input
+
+    const username = norm(input.username)
+    if (username.length < MIN_USERNAME_LENGTH) {
+      issue("Username", `Username must be at least ${MIN_USERNAME_LENGTH} characters`)
+    } else if (usernames.has(username)) {
+      issue("Username", `"${input.username}" is already taken`)
+    } else if (seenUsernames.has(username)) {
+      issue("Username", `"${input.username}" is also on row ${seenUsernames.get(username)}`)
+    } else {
+      seenUsernames.set(username, sourceRow)
+    }
+
+    if (!row.generatedPassword && input.password.length < MIN_PASSWORD_LENGTH) {
+      issue("Password", `Password must be at least ${MIN_PASSWORD_LENGTH} characters`)
+    }
+
+    const email = norm(input.email)
+    if (email && (emails.has(email) || seenEmails.has(email))) {
+      issue(
+        "Email",
+        emails.has(email) ? `${input.email} already belongs to an account` : `${input.email} is also on row ${seenEmails.get(email)}`,
+        "warning"
+      )
+    }
+    if (email) seenEmails.set(email, seenEmails.get(email) ?? sourceRow)
+
+    if (!municipality) issue("Municipality", "Municipality is required")
+    if (!school) issue("School", "School is required")
+
+    if (municipality && school && !directory.error) {
+      const known = municipalities.get(comparableName(municipality))
+      if (!known) {
+        issue("Municipality", `"${municipality}" has no schools in the ${directory.schoolYear} directory`)
+      } else {
+        municipality = known
+        const found = match(municipality, school)
+        if (found.school && found.status !== "fuzzy") {
+          municipality = found.school.municipality
+          school = found.school.schoolName
+        } else {
+          const closest = found.school || found.suggestions[0]
+          const hint = closest ? `; did you mean ${closest.schoolName}? Use the directory spelling` : ""
+          issue("School", `"${school}" is not in the ${directory.schoolYear} directory${hint}`)
+        }
+      }
+    }
+
+    if (input.hlaRoleType === "HLA Manager" && municipality && school) {
+      const key = schoolKey(municipality, school)
+      if (schoolsWithAccounts.has(key)) {
+        issue("School", `${school} already has an account; add this user as an HLA Coordinator instead`)
+      } else if (seenManagers.has(key)) {
+        issue("School", `Row ${seenManagers.get(key)} already adds the HLA Manager for ${school}`)
+      } else {
+        seenManagers.set(key, sourceRow)
+      }
+    }
+
+    return { ...row, input: { ...input, municipality, school } }
+  })
+
+  return { rows: resolved, issues }
+}
+
+// ─── Results ──────────────────────────────────────────────────────────────────
+
+export type UserImportResult = {
+  row: UserImportRow
+  status: "created" | "failed" | "skipped"
+  message?: string
+}
+
+/** Credentials for distribution, plus the rows that still need attention. */
+export function credentialsTables(results: UserImportResult[], generatedAt: string): ExportTable[] {
+  const created = results.filter((r) => r.status === "created")
+  const notCreated = results.filter((r) => r.status !== "created")
+  const tables: ExportTable[] = [
+    {
+      title: "BHSS Account Credentials",
+      subtitle: [`Generated: ${generatedAt}`, "Ask each user to change their password after the first sign-in."],
+      sheetName: "Credentials",
+      head: ["Municipality", "School", "Name", "HLA Role", "Username", "Initial Password", "Email"],
+      body: created
+        .map(({ row: { input } }) => [
+          input.municipality,
+          input.school,
+          input.name,
+          input.hlaRoleType,
+          input.username,
+          input.password,
+          input.email || "",
+        ])
+        .sort((a, b) => a[0].localeCompare(b[0]) || a[1].localeCompare(b[1]) || a[4].localeCompare(b[4])),
+    },
+  ]
+  if (notCreated.length) {
+    tables.push({
+      title: "Accounts Not Created",
+      sheetName: "Not Created",
+      head: ["Sheet Row", "Username", "Municipality", "School", "Reason"],
+      body: notCreated.map(({ row, message }) => [
+        row.sourceRow,
+        row.input.username,
+        row.input.municipality,
+        row.input.school,
+        message || "",
+      ]),
+    })
+  }
+  return tables
+}
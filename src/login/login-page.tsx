@@ -1,4 +1,4 @@
-import { useEffect, useMemo, useState, type FormEvent } from "react"
+import { useEffect, useState, type FormEvent } from "react"
 import { Loader2 } from "lucide-react"
 import { AnimatePresence, motion } from "motion/react"
 
@@ -6,22 +6,23 @@ import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
- 
+import {
+  BackupCodes,
+  ONE_TIME_CODE_LENGTH,
+  OneTimeCodeInput,
+  TwoFactorSetup,
+} from "@/components/two-factor-setup"
+import {
+  authApi,
+  getErrorMessage,
+  isTwoFactorChallenge,
+  twoFactorApi,
+  type LoginResponse,
+  type TwoFactorChallenge,
+  type TwoFactorEnrollment,
+} from "@/lib/api"
 
-export type AuthUser = {
-  id: string
-  username: string
-  email: string
-  name: string
-  role: string
-  school?: string
-  municipality?: string
-}
-
-type LoginResponse = {
-  token: string
-  user: AuthUser
-}
+export type { AuthUser } from "@/lib/api"
 
 export function LoginPage({
   onLogin,
@@ -36,14 +37,31 @@ export function LoginPage({
   const [error, setError] = useState<string | null>(null)
   const [phase, setPhase] = useState<"form" | "loading">("form")
 
-  const apiBaseUrl = useMemo(() => {
-    const envAny = (import.meta as any)?.env as any
-    const fromEnv = (envAny?.VITE_API_BASE_URL || envAny?.VITE_API_URL) as string | undefined
-    return (fromEnv || "http://localhost:8000").replace(/\/+$/, "")
-  }, [])
+  // Second sign-in step, when the password alone is not enough
+  const [challenge, setChallenge] = useState<TwoFactorChallenge | null>(null)
+  const [enrollment, setEnrollment] = useState<TwoFactorEnrollment | null>(null)
+  const [code, setCode] = useState("")
+  const [useBackupCode, setUseBackupCode] = useState(false)
+  // Codes from a setup finished during sign-in; the session waits until they are saved
+  const [newBackupCodes, setNewBackupCodes] = useState<{ codes: string[]; session: LoginResponse } | null>(null)
 
   const canSubmit = username.trim().length > 0 && password.length > 0 && !isSubmitting
 
+  const finishLogin = (payload: LoginResponse) => {
+    // Show interstitial loading screen before navigating
+    setPhase("loading")
+    setIsSubmitting(false)
+    setTimeout(() => onLogin(payload), 5000)
+  }
+
+  const resetChallenge = () => {
+    setChallenge(null)
+    setEnrollment(null)
+    setCode("")
+    setUseBackupCode(false)
+    setError(null)
+  }
+
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault()
     if (!canSubmit) return
@@ -52,33 +70,51 @@ export function LoginPage({
     setError(null)
 
     try {
-      const res = await fetch(`${apiBaseUrl}/api/auth/login`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          username: username.trim(),
-          password,
-        }),
-      })
+      const result = await authApi.login(username.trim(), password)
+      if (!isTwoFactorChallenge(result)) {
+        finishLogin(result)
+        return
+      }
+      if (result.twoFactor === "setup") {
+        setEnrollment(await twoFactorApi.setup(result.challengeToken))
+      }
+      setChallenge(result)
+      setIsSubmitting(false)
+    } catch (err) {
+      setError(getErrorMessage(err, "Login failed"))
+      setIsSubmitting(false)
+    }
+  }
 
-      const data = (await res.json()) as LoginResponse | { message?: string }
+  const verifyCode = async (value: string) => {
+    const trimmed = value.trim()
+    if (!challenge || !trimmed || isSubmitting) return
 
-      if (!res.ok) {
-        const msg = (data as any)?.message || "Login failed"
-        throw new Error(msg)
-      }
+    setIsSubmitting(true)
+    setError(null)
 
-      const payload = data as LoginResponse
-      // Show interstitial loading screen before navigating
-      setPhase("loading")
+    try {
+      finishLogin(await authApi.verifyTwoFactor(challenge.challengeToken, trimmed))
+    } catch (err) {
+      setError(getErrorMessage(err, "Invalid code"))
+      setCode("")
       setIsSubmitting(false)
-      setTimeout(() => {
-        if (payload) onLogin(payload)
-      }, 5000)
-    } catch (err: any) {
-      setError(err?.message || "Login failed")
+    }
+  }
+
+  const confirmSetup = async (value: string) => {
+    if (!challenge || isSubmitting) return
+
+    setIsSubmitting(true)
+    setError(null)
+
+    try {
+      const res = await twoFactorApi.enable(value, challenge.challengeToken)
+      if (!res.token || !res.user) throw new Error("Sign-in could not be completed. Please sign in again.")
+      setNewBackupCodes({ codes: res.backupCodes, session: { token: res.token, user: res.user } })
+    } catch (err) {
+      setError(getErrorMessage(err, "Invalid code"))
+    } finally {
       setIsSubmitting(false)
     }
   }
@@ -187,59 +223,165 @@ export function LoginPage({
             <Card className="relative overflow-hidden rounded-2xl border border-black/5 bg-white/80 [@supports(backdrop-filter:blur(0))]:backdrop-blur-xl shadow-[inset_0_1px_0_rgba(255,255,255,0.7),0_10px_30px_rgba(0,0,0,0.06)]">
               <CardHeader className="px-6 pt-6 pb-2">
                 <div>
-                  <div className="mt-0.5 text-lg font-semibold tracking-tight">Sign in to BHSS</div>
-                  <div className="mt-1 text-xs text-neutral-500">Use your assigned username and password</div>
+                  <div className="mt-0.5 text-lg font-semibold tracking-tight">
+                    {newBackupCodes
+                      ? "Save your backup codes"
+                      : challenge?.twoFactor === "setup"
+                        ? "Set up two-factor authentication"
+                        : challenge
+                          ? "Two-factor authentication"
+                          : "Sign in to BHSS"}
+                  </div>
+                  <div className="mt-1 text-xs text-neutral-500">
+                    {newBackupCodes
+                      ? "Two-factor authentication is on for your account"
+                      : challenge?.twoFactor === "setup"
+                        ? "Your account requires a second step at sign-in"
+                        : challenge
+                          ? useBackupCode
+                            ? "Enter one of your backup codes"
+                            : "Enter the 6-digit code from your authenticator app"
+                          : "Use your assigned username and password"}
+                  </div>
                 </div>
               </CardHeader>
               <CardContent className="px-6 pb-6">
-                <form className="space-y-4" onSubmit={handleSubmit}>
-                  <div className="space-y-2">
-                    <Label htmlFor="username">Username</Label>
-                    <Input
-                      id="username"
-                      autoComplete="username"
-                      value={username}
-                      onChange={(e) => setUsername(e.target.value)}
-                      placeholder="Enter your username"
-                      className="rounded-xl"
-                    />
+                {newBackupCodes ? (
+                  <div className="space-y-4">
+                    <BackupCodes codes={newBackupCodes.codes} />
+                    <Button
+                      type="button"
+                      className="w-full rounded-xl bg-emerald-600 hover:bg-emerald-500"
+                      onClick={() => finishLogin(newBackupCodes.session)}
+                    >
+                      I saved my codes, continue
+                    </Button>
                   </div>
-
-                  <div className="space-y-2">
-                    <Label htmlFor="password">Password</Label>
-                    <Input
-                      id="password"
-                      type="password"
-                      autoComplete="current-password"
-                      value={password}
-                      onChange={(e) => setPassword(e.target.value)}
-                      placeholder="Enter your password"
-                      className="rounded-xl"
-                    />
+                ) : challenge ? (
+                  <div className="space-y-4">
+                    {challenge.twoFactor === "setup" && enrollment ? (
+                      <TwoFactorSetup
+                        enrollment={enrollment}
+                        isConfirming={isSubmitting}
+                        onConfirm={confirmSetup}
+                        onCancel={resetChallenge}
+                      />
+                    ) : (
+                      <form
+                        className="space-y-4"
+                        onSubmit={(e) => {
+                          e.preventDefault()
+                          void verifyCode(code)
+                        }}
+                      >
+                        {useBackupCode ? (
+                          <Input
+                            autoFocus
+                            autoComplete="off"
+                            value={code}
+                            onChange={(e) => setCode(e.target.value)}
+                            placeholder="Backup code"
+                            className="rounded-xl text-center font-mono tracking-wider"
+                          />
+                        ) : (
+                          <OneTimeCodeInput
+                            value={code}
+                            onChange={setCode}
+                            onComplete={verifyCode}
+                            disabled={isSubmitting}
+                            autoFocus
+                          />
+                        )}
+                        <Button
+                          type="submit"
+                          className="w-full rounded-xl bg-emerald-600 hover:bg-emerald-500"
+                          disabled={
+                            isSubmitting || (useBackupCode ? !code.trim() : code.length < ONE_TIME_CODE_LENGTH)
+                          }
+                        >
+                          {isSubmitting ? <Loader2 className="size-4 animate-spin" /> : null}
+                          Verify
+                        </Button>
+                        <div className="flex items-center justify-between text-xs">
+                          <button
+                            type="button"
+                            className="text-emerald-700 hover:underline"
+                            onClick={() => {
+                              setUseBackupCode((v) => !v)
+                              setCode("")
+                              setError(null)
+                            }}
+                          >
+                            {useBackupCode ? "Use authenticator app" : "Use a backup code"}
+                          </button>
+                          <button type="button" className="text-neutral-500 hover:underline" onClick={resetChallenge}>
+                            Back to sign in
+                          </button>
+                        </div>
+                      </form>
+                    )}
+                    {error && (
+                      <div className="rounded-xl border border-red-200/70 bg-red-50/80 px-3 py-2 text-sm text-red-700">
+                        {error}
+                      </div>
+                    )}
+                    {!useBackupCode && challenge.twoFactor === "verify" ? (
+                      <p className="text-center text-xs text-neutral-500">
+                        Lost your phone and your backup codes? Ask a provincial admin to reset two-factor for your
+                        account.
+                      </p>
+                    ) : null}
                   </div>
-                  
+                ) : (
+                  <form className="space-y-4" onSubmit={handleSubmit}>
+                    <div className="space-y-2">
+                      <Label htmlFor="username">Username</Label>
+                      <Input
+                        id="username"
+                        autoComplete="username"
+                        value={username}
+                        onChange={(e) => setUsername(e.target.value)}
+                        placeholder="Enter your username"
+                        className="rounded-xl"
+                      />
+                    </div>
 
-                  {(externalError || error) && (
-                    <div className="rounded-xl border border-red-200/70 bg-red-50/80 px-3 py-2 text-sm text-red-700">
-                      {externalError || error}
+                    <div className="space-y-2">
+                      <Label htmlFor="password">Password</Label>
+                      <Input
+                        id="password"
+                        type="password"
+                        autoComplete="current-password"
+                        value={password}
+                        onChange={(e) => setPassword(e.target.value)}
+                        placeholder="Enter your password"
+                        className="rounded-xl"
+                      />
                     </div>
-                  )}
+                  
 
-                  <Button
-                    type="submit"
-                    className="w-full rounded-xl bg-emerald-600 hover:bg-emerald-500"
-                    disabled={!canSubmit}
-                  >
-                    {isSubmitting ? (
-                      <>
-                        <Loader2 className="size-4 animate-spin" />
-                        Logging in...
-                      </>
-                    ) : (
-                      "Sign in"
+                    {(externalError || error) && (
+                      <div className="rounded-xl border border-red-200/70 bg-red-50/80 px-3 py-2 text-sm text-red-700">
+                        {externalError || error}
+                      </div>
                     )}
-                  </Button>
-                </form>
+
+                    <Button
+                      type="submit"
+                      className="w-full rounded-xl bg-emerald-600 hover:bg-emerald-500"
+                      disabled={!canSubmit}
+                    >
+                      {isSubmitting ? (
+                        <>
+                          <Loader2 className="size-4 animate-spin" />
+                          Logging in...
+                        </>
+                      ) : (
+                        "Sign in"
+                      )}
+                    </Button>
+                  </form>
+                )}
               </CardContent>
             </Card>
             <p className="mt-4 text-center text-xs text-neutral-500">All rights reserved 2026</p>
@@ -5,6 +5,7 @@ import App from './App.tsx'
 import { Toaster } from './components/ui/sonner'
 import { InAppNotificationsViewport } from './components/ui/in-app-notifications'
 import { Toaster as SileoToaster } from 'sileo'
+import { registerServiceWorker } from './lib/pwa'
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
@@ -18,3 +19,5 @@ createRoot(document.getElementById('root')!).render(
     />
   </StrictMode>,
 )
+
+registerServiceWorker()
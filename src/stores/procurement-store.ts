@@ -0,0 +1,169 @@
+import { create } from "zustand"
+
+import {
+  getErrorMessage,
+  procurementApi,
+  type PurchaseOrderAction,
+  type PurchaseOrderDto,
+  type PurchaseRequestAction,
+  type PurchaseRequestDto,
+  type SavePurchaseOrderInput,
+  type SavePurchaseRequestInput,
+  type SaveSupplierInput,
+  type SupplierDto,
+} from "@/lib/api"
+
+type ProcurementStoreState = {
+  suppliers: SupplierDto[]
+  requests: PurchaseRequestDto[]
+  orders: PurchaseOrderDto[]
+  isLoading: boolean
+  error: string | null
+
+  fetchAll: () => Promise<void>
+
+  createSupplier: (input: SaveSupplierInput) => Promise<void>
+  updateSupplier: (id: string, input: Partial<SaveSupplierInput>) => Promise<void>
+  deleteSupplier: (id: string) => Promise<void>
+
+  saveRequest: (id: string | null, input: SavePurchaseRequestInput) => Promise<PurchaseRequestDto | null>
+  deleteRequest: (id: string) => Promise<void>
+  transitionRequest: (id: string, action: PurchaseRequestAction, remarks?: string) => Promise<void>
+  createOrderFromRequest: (id: string, input: { supplierId: string; terms: string }) => Promise<PurchaseOrderDto | null>
+
+  updateOrder: (id: string, input: SavePurchaseOrderInput) => Promise<void>
+  transitionOrder: (id: string, action: PurchaseOrderAction, remarks?: string) => Promise<void>
+}
+
+const upsert = <T extends { id: string }>(rows: T[], row: T | undefined) => {
+  if (!row) return rows
+  return rows.some((r) => r.id === row.id) ? rows.map((r) => (r.id === row.id ? row : r)) : [row, ...rows]
+}
+
+export const useProcurementStore = create<ProcurementStoreState>((set) => ({
+  suppliers: [],
+  requests: [],
+  orders: [],
+  isLoading: false,
+  error: null,
+
+  fetchAll: async () => {
+    set({ isLoading: true, error: null })
+    try {
+      const [s, r, o] = await Promise.all([
+        procurementApi.listSuppliers(),
+        procurementApi.listRequests({}),
+        procurementApi.listOrders({}),
+      ])
+      set({
+        suppliers: Array.isArray(s.suppliers) ? s.suppliers : [],
+        requests: Array.isArray(r.requests) ? r.requests : [],
+        orders: Array.isArray(o.orders) ? o.orders : [],
+      })
+    } catch (e) {
+      set({ error: getErrorMessage(e, "Failed to load procurement records") })
+      throw e
+    } finally {
+      set({ isLoading: false })
+    }
+  },
+
+  createSupplier: async (input) => {
+    try {
+      const data = await procurementApi.createSupplier(input)
+      set((state) => ({ suppliers: upsert(state.suppliers, data.supplier) }))
+    } catch (e) {
+      set({ error: getErrorMessage(e, "Failed to add supplier") })
+      throw e
+    }
+  },
+
+  updateSupplier: async (id, input) => {
+    try {
+      const data = await procurementApi.updateSupplier(id, input)
+      set((state) => ({
+        suppliers: data.supplier
+          ? upsert(state.suppliers, data.supplier)
+          : state.suppliers.map((s) => (s.id === id ? { ...s, ...input } : s)),
+      }))
+    } catch (e) {
+      set({ error: getErrorMessage(e, "Failed to update supplier") })
+      throw e
+    }
+  },
+
+  deleteSupplier: async (id) => {
+    try {
+      await procurementApi.removeSupplier(id)
+      set((state) => ({ suppliers: state.suppliers.filter((s) => s.id !== id) }))
+    } catch (e) {
+      set({ error: getErrorMessage(e, "Failed to delete supplier") })
+      throw e
+    }
+  },
+
+  saveRequest: async (id, input) => {
+    try {
+      const data = id ? await procurementApi.updateRequest(id, input) : await procurementApi.createRequest(input)
+      set((state) => ({ requests: upsert(state.requests, data.request) }))
+      return data.request || null
+    } catch (e) {
+      set({ error: getErrorMessage(e, "Failed to save purchase request") })
+      throw e
+    }
+  },
+
+  deleteRequest: async (id) => {
+    try {
+      await procurementApi.removeRequest(id)
+      set((state) => ({ requests: state.requests.filter((r) => r.id !== id) }))
+    } catch (e) {
+      set({ error: getErrorMessage(e, "Failed to delete purchase request") })
+      throw e
+    }
+  },
+
+  transitionRequest: async (id, action, remarks) => {
+    try {
+      const data = await procurementApi.transitionRequest(id, action, remarks)
+      set((state) => ({ requests: upsert(state.requests, data.request) }))
+    } catch (e) {
+      set({ error: getErrorMessage(e, "Failed to update purchase request") })
+      throw e
+    }
+  },
+
+  createOrderFromRequest: async (id, input) => {
+    try {
+      const data = await procurementApi.createOrderFromRequest(id, input)
+      set((state) => ({
+        requests: upsert(state.requests, data.request),
+        orders: upsert(state.orders, data.order),
+      }))
+      return data.order || null
+    } catch (e) {
+      set({ error: getErrorMessage(e, "Failed to create purchase order") })
+      throw e
+    }
+  },
+
+  updateOrder: async (id, input) => {
+    try {
+      const data = await procurementApi.updateOrder(id, input)
+      set((state) => ({ orders: upsert(state.orders, data.order) }))
+    } catch (e) {
+      set({ error: getErrorMessage(e, "Failed to save purchase order") })
+      throw e
+    }
+  },
+
+  transitionOrder: async (id, action, remarks) => {
+    try {
+      const data = await procurementApi.transitionOrder(id, action, remarks)
+      set((state) => ({ orders: upsert(state.orders, data.order) }))
+    } catch (e) {
+      set({ error: getErrorMessage(e, "Failed to update purchase order") })
+      throw e
+    }
+  },
+}))
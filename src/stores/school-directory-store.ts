@@ -1,71 +1,23 @@
 import { create } from "zustand"
 
-export type SchoolBeneficiaryRow = {
-  id: string
-  municipality: string
-  schoolYear: string
-  bhssKitchenName: string
-  schoolName: string
-  grade2: number
-  grade3: number
-  grade4: number
-  total: number
-  createdAt?: string
-  updatedAt?: string
-}
-
-export type SchoolDetailsRow = {
-  id: string
-  municipality: string
-  schoolYear: string
-  completeName: string
-  principalName: string
-  principalContact: string
-  hlaCoordinatorName: string
-  hlaCoordinatorContact: string
-  hlaCoordinatorFacebook: string
-  hlaManagerName: string
-  hlaManagerContact: string
-  hlaManagerFacebook: string
-  chiefCookName: string
-  chiefCookContact: string
-  chiefCookFacebook: string
-  assistantCookName: string
-  assistantCookContact: string
-  assistantCookFacebook: string
-  nurseName: string
-  nurseContact: string
-  nurseFacebook: string
-  createdAt?: string
-  updatedAt?: string
-}
-
-export type CreateBeneficiaryBulkInput = {
-  municipality: string
-  schoolYear: string
-  items: Array<
-    Pick<
-      SchoolBeneficiaryRow,
-      "bhssKitchenName" | "schoolName" | "grade2" | "grade3" | "grade4"
-    >
-  >
-}
-
-export type UpdateBeneficiaryInput = Partial<
-  Pick<
-    SchoolBeneficiaryRow,
-    "bhssKitchenName" | "schoolName" | "grade2" | "grade3" | "grade4"
-  >
->
-
-export type CreateDetailsInput = Omit<
+import {
+  schoolDirectoryApi,
+  type CreateBeneficiaryBulkInput,
+  type CreateDetailsInput,
+  type SchoolBeneficiaryRow,
+  type SchoolDetailsRow,
+  type UpdateBeneficiaryInput,
+  type UpdateDetailsInput,
+} from "@/lib/api"
+
+export type {
+  SchoolBeneficiaryRow,
   SchoolDetailsRow,
-  "id" | "createdAt" | "updatedAt"
->
-
-export type UpdateDetailsInput = Partial<
-  Omit<SchoolDetailsRow, "id" | "municipality" | "schoolYear" | "createdAt" | "updatedAt">
->
+  CreateBeneficiaryBulkInput,
+  UpdateBeneficiaryInput,
+  CreateDetailsInput,
+  UpdateDetailsInput,
+} from "@/lib/api"
 
 type SchoolDirectoryStoreState = {
   beneficiaryRows: SchoolBeneficiaryRow[]
@@ -87,43 +39,6 @@ type SchoolDirectoryStoreState = {
   deleteDetails: (id: string) => Promise<void>
 }
 
-function getApiBaseUrl() {
-  const envAny = (import.meta as any)?.env as any
-  const fromEnv = (envAny?.VITE_API_BASE_URL || envAny?.VITE_API_URL) as string | undefined
-  return (fromEnv || "http://localhost:8000").replace(/\/+$/, "")
-}
-
-function getAuthToken(): string | null {
-  try {
-    const raw = localStorage.getItem("bhss_auth")
-    if (!raw) return null
-    const parsed = JSON.parse(raw) as { token?: string }
-    return parsed?.token || null
-  } catch {
-    return null
-  }
-}
-
-async function apiFetch(path: string, init?: RequestInit) {
-  const token = getAuthToken()
-  if (!token) throw new Error("Not authenticated")
-
-  const res = await fetch(`${getApiBaseUrl()}${path}`, {
-    ...init,
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${token}`,
-      ...(init?.headers || {}),
-    },
-  })
-
-  const data = await res.json().catch(() => ({}))
-  if (!res.ok) {
-    throw new Error((data as any)?.message || "Request failed")
-  }
-  return data
-}
-
 export const useSchoolDirectoryStore = create<SchoolDirectoryStoreState>((set, get) => ({
   beneficiaryRows: [],
   detailsRows: [],
@@ -133,10 +48,7 @@ export const useSchoolDirectoryStore = create<SchoolDirectoryStoreState>((set, g
   fetchBeneficiaries: async (municipality, schoolYear) => {
     set({ isLoading: true, error: null })
     try {
-      const qs = new URLSearchParams({ municipality, schoolYear })
-      const data = (await apiFetch(
-        `/api/school-directory/beneficiaries?${qs.toString()}`
-      )) as { rows: SchoolBeneficiaryRow[] }
+      const data = await schoolDirectoryApi.listBeneficiaries({ municipality, schoolYear })
       set({ beneficiaryRows: Array.isArray(data.rows) ? data.rows : [] })
     } catch (e: any) {
       set({ error: e?.message || "Failed to load beneficiaries" })
@@ -151,12 +63,7 @@ export const useSchoolDirectoryStore = create<SchoolDirectoryStoreState>((set, g
     set({ isLoading: true, error: null })
     try {
       await Promise.all(
-        updates.map(({ id, input }) =>
-          apiFetch(`/api/school-directory/beneficiaries/${encodeURIComponent(id)}`, {
-            method: "PATCH",
-            body: JSON.stringify(input),
-          })
-        )
+        updates.map(({ id, input }) => schoolDirectoryApi.updateBeneficiary(id, input))
       )
 
       set((state) => ({
@@ -185,10 +92,7 @@ export const useSchoolDirectoryStore = create<SchoolDirectoryStoreState>((set, g
   bulkCreateBeneficiaries: async (input) => {
     set({ isLoading: true, error: null })
     try {
-      await apiFetch(`/api/school-directory/beneficiaries/bulk`, {
-        method: "POST",
-        body: JSON.stringify(input),
-      })
+      await schoolDirectoryApi.bulkCreateBeneficiaries(input)
       await get().fetchBeneficiaries(input.municipality, input.schoolYear)
     } catch (e: any) {
       set({ error: e?.message || "Failed to save schools" })
@@ -201,10 +105,7 @@ export const useSchoolDirectoryStore = create<SchoolDirectoryStoreState>((set, g
   updateBeneficiary: async (id, input) => {
     set({ isLoading: true, error: null })
     try {
-      await apiFetch(`/api/school-directory/beneficiaries/${encodeURIComponent(id)}`, {
-        method: "PATCH",
-        body: JSON.stringify(input),
-      })
+      await schoolDirectoryApi.updateBeneficiary(id, input)
 
       // Optimistic local update to avoid refetching on every inline edit
       set((state) => ({
@@ -232,9 +133,7 @@ export const useSchoolDirectoryStore = create<SchoolDirectoryStoreState>((set, g
   deleteBeneficiary: async (id) => {
     set({ isLoading: true, error: null })
     try {
-      await apiFetch(`/api/school-directory/beneficiaries/${encodeURIComponent(id)}`, {
-        method: "DELETE",
-      })
+      await schoolDirectoryApi.removeBeneficiary(id)
       set((state) => ({
         beneficiaryRows: state.beneficiaryRows.filter((r) => r.id !== id),
       }))
@@ -249,10 +148,7 @@ export const useSchoolDirectoryStore = create<SchoolDirectoryStoreState>((set, g
   fetchDetails: async (municipality, schoolYear) => {
     set({ isLoading: true, error: null })
     try {
-      const qs = new URLSearchParams({ municipality, schoolYear })
-      const data = (await apiFetch(
-        `/api/school-directory/details?${qs.toString()}`
-      )) as { rows: SchoolDetailsRow[] }
+      const data = await schoolDirectoryApi.listDetails({ municipality, schoolYear })
       set({ detailsRows: Array.isArray(data.rows) ? data.rows : [] })
     } catch (e: any) {
       set({ error: e?.message || "Failed to load school details" })
@@ -265,10 +161,7 @@ export const useSchoolDirectoryStore = create<SchoolDirectoryStoreState>((set, g
   createDetails: async (input) => {
     set({ isLoading: true, error: null })
     try {
-      await apiFetch(`/api/school-directory/details`, {
-        method: "POST",
-        body: JSON.stringify(input),
-      })
+      await schoolDirectoryApi.createDetails(input)
       await get().fetchDetails(input.municipality, input.schoolYear)
     } catch (e: any) {
       set({ error: e?.message || "Failed to add school details" })
@@ -281,10 +174,7 @@ export const useSchoolDirectoryStore = create<SchoolDirectoryStoreState>((set, g
   updateDetails: async (id, input) => {
     set({ isLoading: true, error: null })
     try {
-      await apiFetch(`/api/school-directory/details/${encodeURIComponent(id)}`, {
-        method: "PATCH",
-        body: JSON.stringify(input),
-      })
+      await schoolDirectoryApi.updateDetails(id, input)
       set((state) => ({
         detailsRows: state.detailsRows.map((r) => (r.id === id ? { ...r, ...input } : r)),
       }))
@@ -299,9 +189,7 @@ export const useSchoolDirectoryStore = create<SchoolDirectoryStoreState>((set, g
   deleteDetails: async (id) => {
     set({ isLoading: true, error: null })
     try {
-      await apiFetch(`/api/school-directory/details/${encodeURIComponent(id)}`, {
-        method: "DELETE",
-      })
+      await schoolDirectoryApi.removeDetails(id)
       set((state) => ({
         detailsRows: state.detailsRows.filter((r) => r.id !== id),
       }))
@@ -0,0 +1,23 @@
+import { create } from "zustand"
+
+import { getAuthUser, type AuthUser } from "@/lib/api"
+
+// ─── Signed-in account ────────────────────────────────────────────────────────
+// App keeps the session in localStorage; this mirrors its user so pages can
+// read permissions without parsing storage. Starts from the stored session so
+// the first render after a reload already knows the role.
+
+type SessionStoreState = {
+  user: AuthUser | null
+  setUser: (user: AuthUser | null) => void
+  /** Applies profile changes fetched after login, e.g. a new HLA role. */
+  updateUser: (patch: Partial<AuthUser>) => void
+}
+
+export const useSessionStore = create<SessionStoreState>((set) => ({
+  user: getAuthUser(),
+
+  setUser: (user) => set({ user }),
+
+  updateUser: (patch) => set((s) => (s.user ? { user: { ...s.user, ...patch } } : s)),
+}))
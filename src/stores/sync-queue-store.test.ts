@@ -0,0 +1,108 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+
+import {
+  changedElsewhere,
+  queuedBaseUpdatedAt,
+  syncEntryId,
+  useSyncQueueStore,
+  type AttendanceSyncEntry,
+} from "@/stores/sync-queue-store"
+
+const db = vi.hoisted(() => new Map<string, { id: string }>())
+const auth = vi.hoisted(() => ({ userId: null as string | null }))
+
+vi.mock("@/lib/offline-db", () => ({
+  OFFLINE_STORES: { syncQueue: "sync-queue" },
+  offlineDb: {
+    getAll: async () => Array.from(db.values()),
+    put: async (_store: string, value: { id: string }) => {
+      db.set(value.id, value)
+    },
+    remove: async (_store: string, id: string) => {
+      db.delete(id)
+    },
+  },
+}))
+
+vi.mock("@/lib/api", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/api")>()),
+  getAuthUserId: () => auth.userId,
+}))
+
+const entry = (patch: Partial<AttendanceSyncEntry> = {}): AttendanceSyncEntry => ({
+  kind: "attendance",
+  id: syncEntryId("u1", "attendance", "2026-10-19", "Grade 2"),
+  ownerId: "u1",
+  dateKey: "2026-10-19",
+  entry: { grade: "Grade 2", present: 20, absent: 1, notes: "" },
+  status: "pending",
+  baseUpdatedAt: "2026-10-19T01:00:00.000Z",
+  queuedAt: "2026-10-19T02:00:00.000Z",
+  attempts: 0,
+  ...patch,
+})
+
+describe("syncEntryId", () => {
+  it("keeps two accounts queuing the same day and grade apart", () => {
+    expect(syncEntryId("u1", "attendance", "2026-10-19", "Grade 2")).not.toBe(
+      syncEntryId("u2", "attendance", "2026-10-19", "Grade 2")
+    )
+  })
+})
+
+describe("changedElsewhere", () => {
+  it("is false when the server has no copy", () => {
+    expect(changedElsewhere(entry(), undefined)).toBe(false)
+  })
+
+  it("is false when the server copy is the one the edit was based on", () => {
+    expect(changedElsewhere(entry(), "2026-10-19T01:00:00.000Z")).toBe(false)
+  })
+
+  it("is true when the server copy was saved after the base", () => {
+    expect(changedElsewhere(entry(), "2026-10-19T01:30:00.000Z")).toBe(true)
+  })
+
+  it("falls back to the queue time when no base was known", () => {
+    const e = entry({ baseUpdatedAt: null })
+    expect(changedElsewhere(e, "2026-10-19T01:30:00.000Z")).toBe(false)
+    expect(changedElsewhere(e, "2026-10-19T02:30:00.000Z")).toBe(true)
+  })
+})
+
+describe("queuedBaseUpdatedAt", () => {
+  it("uses the known server copy for a first edit", () => {
+    expect(queuedBaseUpdatedAt(undefined, "2026-10-19T01:00:00.000Z")).toBe("2026-10-19T01:00:00.000Z")
+    expect(queuedBaseUpdatedAt(undefined, null)).toBeNull()
+  })
+
+  it("keeps the base of an edit that has not synced yet", () => {
+    const prev = entry({ status: "failed" })
+    expect(queuedBaseUpdatedAt(prev, "2026-10-19T05:00:00.000Z")).toBe("2026-10-19T01:00:00.000Z")
+  })
+
+  it("builds on the last replay once the previous edit synced", () => {
+    const prev = entry({ status: "synced", syncedUpdatedAt: "2026-10-19T03:00:00.000Z" })
+    expect(queuedBaseUpdatedAt(prev, null)).toBe("2026-10-19T03:00:00.000Z")
+  })
+})
+
+describe("useSyncQueueStore", () => {
+  const attendance = { grade: "Grade 2", present: 20, absent: 1, notes: "" }
+
+  beforeEach(() => {
+    db.clear()
+  })
+
+  it("keeps the entries of two accounts sharing a device", async () => {
+    auth.userId = "shared-a"
+    await useSyncQueueStore.getState().queueAttendance("2026-10-19", [attendance], {})
+    auth.userId = "shared-b"
+    await useSyncQueueStore.getState().queueAttendance("2026-10-19", [{ ...attendance, present: 18 }], {})
+
+    expect(db.size).toBe(2)
+    const entries = useSyncQueueStore.getState().entries
+    expect(entries).toHaveLength(1)
+    expect(entries[0].ownerId).toBe("shared-b")
+  })
+})
@@ -0,0 +1,386 @@
+import { create } from "zustand"
+
+import {
+  ApiError,
+  attendanceApi,
+  deliveryApi,
+  getAuthUserId,
+  getErrorMessage,
+  isConnectivityError,
+  type AttendanceEntryInput,
+  type AttendanceRecordDto,
+  type DeliveryRecordDto,
+  type SaveDeliveryItemInput,
+} from "@/lib/api"
+import { OFFLINE_STORES, offlineDb } from "@/lib/offline-db"
+
+// ─── Offline sync queue ───────────────────────────────────────────────────────
+// Attendance and delivery submissions that could not reach the server are kept
+// in IndexedDB and replayed when the connection returns. One entry exists per
+// account and dateKey + grade or dateKey + categoryKey, so a newer local edit
+// replaces the queued one. Before replaying, the server copy is checked: if it changed after
+// the version the edit was based on, the entry becomes a conflict and waits for
+// the user instead of overwriting someone else's work.
+
+export type SyncStatus = "pending" | "synced" | "conflict" | "failed"
+
+type SyncEntryBase = {
+  id: string
+  /** Entries are only replayed for the account that created them. */
+  ownerId: string
+  dateKey: string
+  status: SyncStatus
+  /** Server `updatedAt` the edit was based on; `null` when no copy was known. */
+  baseUpdatedAt: string | null
+  queuedAt: string
+  attempts: number
+  lastError?: string
+  syncedAt?: string
+  /** Server `updatedAt` after the last successful replay. */
+  syncedUpdatedAt?: string
+}
+
+export type AttendanceSyncEntry = SyncEntryBase & {
+  kind: "attendance"
+  entry: AttendanceEntryInput
+  /** The copy changed elsewhere, kept while `status` is "conflict". */
+  server?: AttendanceRecordDto
+}
+
+export type DeliverySyncEntry = SyncEntryBase & {
+  kind: "delivery"
+  item: SaveDeliveryItemInput
+  server?: DeliveryRecordDto
+}
+
+export type SyncEntry = AttendanceSyncEntry | DeliverySyncEntry
+
+const SYNCED_RETENTION_MS = 24 * 60 * 60 * 1000
+const RETRY_INTERVAL_MS = 60_000
+
+/**
+ * Kitchen devices are shared, so the owner is part of the key: two accounts
+ * queuing the same day and grade keep separate entries.
+ */
+export function syncEntryId(ownerId: string, kind: SyncEntry["kind"], dateKey: string, key: string) {
+  return `${ownerId}:${kind}:${dateKey}:${key}`
+}
+
+/** True when the server copy was saved after the version the edit was based on. */
+export function changedElsewhere(entry: SyncEntry, serverUpdatedAt?: string) {
+  if (!serverUpdatedAt) return false
+  const server = Date.parse(serverUpdatedAt)
+  const base = Date.parse(entry.baseUpdatedAt || entry.queuedAt)
+  if (Number.isNaN(server) || Number.isNaN(base)) return false
+  return server > base
+}
+
+/** The server version a new local edit builds on, given the entry it replaces. */
+export function queuedBaseUpdatedAt(prev: SyncEntry | undefined, knownBase: string | null) {
+  // An unsynced edit still builds on the server copy the first one saw
+  if (prev && prev.status !== "synced") return prev.baseUpdatedAt
+  return knownBase || prev?.syncedUpdatedAt || null
+}
+
+/** Errors that mean "try again later" rather than "this edit was rejected". */
+function shouldStopReplay(e: unknown) {
+  if (isConnectivityError(e)) return true
+  return e instanceof ApiError && (e.kind === "unauthenticated" || e.status === 401)
+}
+
+function isRetryable(e: unknown) {
+  if (!(e instanceof ApiError)) return true
+  return e.status >= 500 || e.status === 408 || e.status === 429
+}
+
+type SyncQueueState = {
+  entries: SyncEntry[]
+  isOnline: boolean
+  isSyncing: boolean
+  /** Reads the signed-in user's entries from IndexedDB. */
+  load: () => Promise<void>
+  /** Loads the queue and replays it now, when back online and periodically. */
+  start: () => () => void
+  flush: () => Promise<void>
+  queueAttendance: (
+    dateKey: string,
+    entries: AttendanceEntryInput[],
+    baseUpdatedAtByGrade: Record<string, string | undefined>
+  ) => Promise<void>
+  queueDelivery: (item: SaveDeliveryItemInput, baseUpdatedAt?: string | null) => Promise<void>
+  /** Sends the local version again; for a conflict this overwrites the server copy. */
+  retry: (id: string) => Promise<void>
+  /** Drops the local version, keeping whatever the server has. */
+  discard: (id: string) => Promise<void>
+}
+
+let loadPromise: Promise<void> | null = null
+let loadedOwner: string | null = null
+let flushPromise: Promise<void> | null = null
+
+export const useSyncQueueStore = create<SyncQueueState>((set, get) => {
+  const save = async (entry: SyncEntry) => {
+    await offlineDb.put(OFFLINE_STORES.syncQueue, entry)
+    set((s) => {
+      const idx = s.entries.findIndex((e) => e.id === entry.id)
+      if (idx < 0) return { entries: [...s.entries, entry] }
+      const next = [...s.entries]
+      next[idx] = entry
+      return { entries: next }
+    })
+  }
+
+  /**
+   * Applies the outcome of a replay unless the user queued a newer edit for
+   * the same item meanwhile; that edit is then rebased on what was just saved
+   * so it is not mistaken for a conflict.
+   */
+  const settle = async (
+    sent: SyncEntry,
+    patch: Partial<SyncEntryBase> & { server?: undefined; item?: SaveDeliveryItemInput }
+  ) => {
+    const current = get().entries.find((e) => e.id === sent.id)
+    if (!current) return
+    if (current.queuedAt !== sent.queuedAt) {
+      if (patch.status === "synced" && patch.syncedUpdatedAt) {
+        await save({ ...current, baseUpdatedAt: patch.syncedUpdatedAt })
+      }
+      return
+    }
+    await save({ ...current, ...patch } as SyncEntry)
+  }
+
+  const markConflict = async (sent: SyncEntry, server: AttendanceRecordDto | DeliveryRecordDto) => {
+    const current = get().entries.find((e) => e.id === sent.id)
+    if (!current || current.queuedAt !== sent.queuedAt) return
+    await save({ ...current, status: "conflict", server } as SyncEntry)
+  }
+
+  const markError = async (sent: SyncEntry[], e: unknown) => {
+    if (shouldStopReplay(e)) throw e
+    const status: SyncStatus = isRetryable(e) ? "pending" : "failed"
+    for (const entry of sent) {
+      // Entries flagged as conflicts in the same pass were never sent
+      if (get().entries.find((x) => x.id === entry.id)?.status === "conflict") continue
+      await settle(entry, {
+        status,
+        attempts: entry.attempts + 1,
+        lastError: getErrorMessage(e, "Failed to sync"),
+      })
+    }
+  }
+
+  const enqueue = async (next: SyncEntry, knownBase: string | null) => {
+    await get().load()
+    const prev = get().entries.find((e) => e.id === next.id)
+    await save({ ...next, baseUpdatedAt: queuedBaseUpdatedAt(prev, knownBase) })
+  }
+
+  const replayAttendance = async () => {
+    const pending = get().entries.filter(
+      (e): e is AttendanceSyncEntry => e.kind === "attendance" && e.status === "pending"
+    )
+    const byDate = new Map<string, AttendanceSyncEntry[]>()
+    for (const e of pending) byDate.set(e.dateKey, [...(byDate.get(e.dateKey) || []), e])
+
+    for (const [dateKey, group] of byDate) {
+      try {
+        const data = await attendanceApi.byDate(dateKey)
+        const serverByGrade = new Map((data.records || []).map((r) => [r.grade, r]))
+
+        const ready: AttendanceSyncEntry[] = []
+        for (const e of group) {
+          const server = serverByGrade.get(e.entry.grade)
+          if (server && changedElsewhere(e, server.updatedAt)) await markConflict(e, server)
+          else ready.push(e)
+        }
+        if (!ready.length) continue
+
+        const saved = await attendanceApi.saveBulk(dateKey, ready.map((e) => e.entry))
+        const savedByGrade = new Map((saved.records || []).map((r) => [r.grade, r]))
+        const now = new Date().toISOString()
+        for (const e of ready) {
+          await settle(e, {
+            status: "synced",
+            attempts: e.attempts + 1,
+            lastError: undefined,
+            syncedAt: now,
+            syncedUpdatedAt: savedByGrade.get(e.entry.grade)?.updatedAt || now,
+            server: undefined,
+          })
+        }
+      } catch (e) {
+        await markError(group, e)
+      }
+    }
+  }
+
+  const replayDelivery = async () => {
+    const pending = get().entries.filter(
+      (e): e is DeliverySyncEntry => e.kind === "delivery" && e.status === "pending"
+    )
+    const serverByDate = new Map<string, DeliveryRecordDto[]>()
+
+    for (const e of pending) {
+      try {
+        let records = serverByDate.get(e.dateKey)
+        if (!records) {
+          const data = await deliveryApi.byDate(e.dateKey)
+          records = Array.isArray(data.records) ? data.records : []
+          serverByDate.set(e.dateKey, records)
+        }
+
+        const server = records.find((r) => r.categoryKey === e.item.categoryKey)
+        if (server && changedElsewhere(e, server.updatedAt)) {
+          await markConflict(e, server)
+          continue
+        }
+
+        const saved = await deliveryApi.saveItem(e.item)
+        const now = new Date().toISOString()
+        await settle(e, {
+          status: "synced",
+          attempts: e.attempts + 1,
+          lastError: undefined,
+          syncedAt: now,
+          syncedUpdatedAt: saved.record?.updatedAt || now,
+          server: undefined,
+          // The photos are on the server now; keep the synced entry light
+          item: { ...e.item, images: [] },
+        })
+      } catch (err) {
+        await markError([e], err)
+      }
+    }
+  }
+
+  return {
+    entries: [],
+    isOnline: typeof navigator === "undefined" ? true : navigator.onLine,
+    isSyncing: false,
+
+    load: () => {
+      const owner = getAuthUserId() || ""
+      if (loadPromise && loadedOwner === owner) return loadPromise
+      loadedOwner = owner
+      loadPromise = (async () => {
+        try {
+          const all = await offlineDb.getAll<SyncEntry>(OFFLINE_STORES.syncQueue)
+          const cutoff = Date.now() - SYNCED_RETENTION_MS
+          const kept: SyncEntry[] = []
+          for (const e of all) {
+            if (e.status === "synced" && Date.parse(e.syncedAt || "") < cutoff) {
+              await offlineDb.remove(OFFLINE_STORES.syncQueue, e.id)
+              continue
+            }
+            if (e.ownerId === owner) kept.push(e)
+          }
+          set({ entries: kept })
+        } catch (e) {
+          console.error("Failed to read the offline queue", e)
+          set({ entries: [] })
+        }
+      })()
+      return loadPromise
+    },
+
+    start: () => {
+      const onOnline = () => {
+        set({ isOnline: true })
+        void get().flush()
+      }
+      const onOffline = () => set({ isOnline: false })
+      window.addEventListener("online", onOnline)
+      window.addEventListener("offline", onOffline)
+
+      // `online` does not fire when the network is up but the server was not
+      const timer = window.setInterval(() => {
+        if (get().entries.some((e) => e.status === "pending")) void get().flush()
+      }, RETRY_INTERVAL_MS)
+
+      void get().load().then(() => get().flush())
+
+      return () => {
+        window.removeEventListener("online", onOnline)
+        window.removeEventListener("offline", onOffline)
+        window.clearInterval(timer)
+      }
+    },
+
+    flush: () => {
+      if (flushPromise) return flushPromise
+      flushPromise = (async () => {
+        await get().load()
+        if (!navigator.onLine) return
+        if (!get().entries.some((e) => e.status === "pending")) return
+
+        set({ isSyncing: true })
+        try {
+          await replayAttendance()
+          await replayDelivery()
+        } catch (e) {
+          // Offline again or signed out; the entries stay pending for next time
+          if (!shouldStopReplay(e)) console.error("Offline queue replay failed", e)
+        } finally {
+          set({ isSyncing: false })
+        }
+      })().finally(() => {
+        flushPromise = null
+      })
+      return flushPromise
+    },
+
+    queueAttendance: async (dateKey, entries, baseUpdatedAtByGrade) => {
+      const ownerId = getAuthUserId() || ""
+      const queuedAt = new Date().toISOString()
+      for (const entry of entries) {
+        await enqueue(
+          {
+            kind: "attendance",
+            id: syncEntryId(ownerId, "attendance", dateKey, entry.grade),
+            ownerId,
+            dateKey,
+            entry,
+            status: "pending",
+            baseUpdatedAt: null,
+            queuedAt,
+            attempts: 0,
+          },
+          baseUpdatedAtByGrade[entry.grade] || null
+        )
+      }
+    },
+
+    queueDelivery: async (item, baseUpdatedAt) => {
+      const ownerId = getAuthUserId() || ""
+      await enqueue(
+        {
+          kind: "delivery",
+          id: syncEntryId(ownerId, "delivery", item.dateKey, item.categoryKey),
+          ownerId,
+          dateKey: item.dateKey,
+          item,
+          status: "pending",
+          baseUpdatedAt: null,
+          queuedAt: new Date().toISOString(),
+          attempts: 0,
+        },
+        baseUpdatedAt || null
+      )
+    },
+
+    retry: async (id) => {
+      const entry = get().entries.find((e) => e.id === id)
+      if (!entry) return
+      const baseUpdatedAt =
+        entry.status === "conflict" ? entry.server?.updatedAt || entry.baseUpdatedAt : entry.baseUpdatedAt
+      await save({ ...entry, status: "pending", baseUpdatedAt, server: undefined, lastError: undefined })
+      await get().flush()
+    },
+
+    discard: async (id) => {
+      await offlineDb.remove(OFFLINE_STORES.syncQueue, id)
+      set((s) => ({ entries: s.entries.filter((e) => e.id !== id) }))
+    },
+  }
+})
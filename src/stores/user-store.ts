@@ -1,52 +1,17 @@
 import { create } from "zustand"
 
-export type BhssUser = {
-  id: string
-  email?: string
-  username: string
-  name: string
-  school: string
-  contactNumber?: string
-  schoolAddress?: string
-  hlaManagerName?: string
-  hlaRoleType?: "HLA Manager" | "HLA Coordinator"
-  municipality: string
-  province: string
-  role: "user" | "admin"
-  isActive: boolean
-  createdAt?: string
-}
+import {
+  getErrorMessage,
+  usersApi,
+  type BhssUser,
+  type CreateBhssUserInput,
+  type UpdateBhssUserInput,
+} from "@/lib/api"
 
-export type CreateBhssUserInput = {
-  email?: string
-  username: string
-  password: string
-  name: string
-  school: string
-  municipality: string
-  contactNumber?: string
-  schoolAddress?: string
-  hlaManagerName?: string
-  hlaRoleType?: string
-  province?: string
-  role?: "user" | "admin"
-}
+export type { BhssUser, CreateBhssUserInput, UpdateBhssUserInput } from "@/lib/api"
 
-export type UpdateBhssUserInput = Partial<
-  Pick<
-    BhssUser,
-    | "email"
-    | "username"
-    | "school"
-    | "municipality"
-    | "province"
-    | "role"
-    | "isActive"
-    | "contactNumber"
-    | "schoolAddress"
-    | "hlaManagerName"
-  > & { name: string }
->
+/** Outcome of one account in a batch; `error` is set when the server refused it. */
+export type CreateUserResult = { user?: BhssUser; error?: string }
 
 type UserStoreState = {
   users: BhssUser[]
@@ -54,51 +19,36 @@ type UserStoreState = {
   error: string | null
   fetchUsers: () => Promise<void>
   createUser: (input: CreateBhssUserInput) => Promise<void>
+  createUsers: (
+    inputs: CreateBhssUserInput[],
+    onProgress?: (done: number, total: number) => void
+  ) => Promise<CreateUserResult[]>
   toggleActive: (id: string, isActive: boolean) => Promise<void>
   updateUser: (id: string, input: UpdateBhssUserInput) => Promise<void>
   resetUserPassword: (id: string, password: string) => Promise<void>
+  resetUserTwoFactor: (id: string) => Promise<void>
   deleteUser: (id: string) => Promise<void>
 }
 
-function getApiBaseUrl() {
-  const envAny = (import.meta as any)?.env as any
-  const fromEnv = (envAny?.VITE_API_BASE_URL || envAny?.VITE_API_URL) as string | undefined
-  return (fromEnv || "http://localhost:8000").replace(/\/+$/, "")
-}
-
-function getAuthToken(): string | null {
-  try {
-    const raw = localStorage.getItem("bhss_auth")
-    if (!raw) return null
-    const parsed = JSON.parse(raw) as { token?: string }
-    return parsed?.token || null
-  } catch {
-    return null
+function createPayload(input: CreateBhssUserInput): CreateBhssUserInput {
+  const email = String(input.email || "").trim()
+  const hlaRoleType = String(input.hlaRoleType || "").trim()
+  return {
+    ...(email ? { email } : {}),
+    username: input.username,
+    password: input.password,
+    name: input.name,
+    school: input.school,
+    municipality: input.municipality,
+    contactNumber: input.contactNumber,
+    schoolAddress: input.schoolAddress,
+    hlaManagerName: input.hlaManagerName,
+    ...(hlaRoleType ? { hlaRoleType } : {}),
+    province: input.province || "Bataan",
+    role: input.role || "user",
   }
 }
 
-async function apiFetch(path: string, init?: RequestInit) {
-  const token = getAuthToken()
-  if (!token) {
-    throw new Error("Not authenticated")
-  }
-
-  const res = await fetch(`${getApiBaseUrl()}${path}`, {
-    ...init,
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${token}`,
-      ...(init?.headers || {}),
-    },
-  })
-
-  const data = await res.json().catch(() => ({}))
-  if (!res.ok) {
-    throw new Error((data as any)?.message || "Request failed")
-  }
-  return data
-}
-
 export const useUserStore = create<UserStoreState>((set, get) => ({
   users: [],
   isLoading: false,
@@ -107,7 +57,7 @@ export const useUserStore = create<UserStoreState>((set, get) => ({
   fetchUsers: async () => {
     set({ isLoading: true, error: null })
     try {
-      const data = (await apiFetch("/api/users")) as { users: BhssUser[] }
+      const data = await usersApi.list()
       console.log("API Response users:", data.users)
       const next = Array.isArray(data.users)
         ? data.users.map((u: any) => ({
@@ -127,25 +77,7 @@ export const useUserStore = create<UserStoreState>((set, get) => ({
   createUser: async (input) => {
     set({ isLoading: true, error: null })
     try {
-      const email = String(input.email || "").trim()
-      const hlaRoleType = String(input.hlaRoleType || "").trim()
-      await apiFetch("/api/users", {
-        method: "POST",
-        body: JSON.stringify({
-          ...(email ? { email } : {}),
-          username: input.username,
-          password: input.password,
-          name: input.name,
-          school: input.school,
-          municipality: input.municipality,
-          contactNumber: input.contactNumber,
-          schoolAddress: input.schoolAddress,
-          hlaManagerName: input.hlaManagerName,
-          ...(hlaRoleType ? { hlaRoleType } : {}),
-          province: input.province || "Bataan",
-          role: input.role || "user",
-        }),
-      })
+      await usersApi.create(createPayload(input))
 
       await get().fetchUsers()
     } catch (e: any) {
@@ -156,13 +88,32 @@ export const useUserStore = create<UserStoreState>((set, get) => ({
     }
   },
 
+  // One request per account so a refused row does not stop the rest; the
+  // list is refetched once at the end
+  createUsers: async (inputs, onProgress) => {
+    set({ isLoading: true, error: null })
+    const results: CreateUserResult[] = []
+    try {
+      for (const input of inputs) {
+        try {
+          const res = await usersApi.create(createPayload(input))
+          results.push({ user: res.user })
+        } catch (e) {
+          results.push({ error: getErrorMessage(e, "Failed to create user") })
+        }
+        onProgress?.(results.length, inputs.length)
+      }
+      if (results.some((r) => !r.error)) await get().fetchUsers()
+      return results
+    } finally {
+      set({ isLoading: false })
+    }
+  },
+
   toggleActive: async (id, isActive) => {
     set({ isLoading: true, error: null })
     try {
-      await apiFetch(`/api/users/${encodeURIComponent(id)}/active`, {
-        method: "PATCH",
-        body: JSON.stringify({ isActive }),
-      })
+      await usersApi.setActive(id, isActive)
       await get().fetchUsers()
     } catch (e: any) {
       set({ error: e?.message || "Failed to update user" })
@@ -175,10 +126,7 @@ export const useUserStore = create<UserStoreState>((set, get) => ({
   updateUser: async (id, input) => {
     set({ isLoading: true, error: null })
     try {
-      await apiFetch(`/api/users/${encodeURIComponent(id)}`, {
-        method: "PATCH",
-        body: JSON.stringify(input),
-      })
+      await usersApi.update(id, input)
       await get().fetchUsers()
     } catch (e: any) {
       set({ error: e?.message || "Failed to update user" })
@@ -191,10 +139,7 @@ export const useUserStore = create<UserStoreState>((set, get) => ({
   resetUserPassword: async (id, password) => {
     set({ isLoading: true, error: null })
     try {
-      await apiFetch(`/api/users/${encodeURIComponent(id)}/password`, {
-        method: "PATCH",
-        body: JSON.stringify({ password }),
-      })
+      await usersApi.resetPassword(id, password)
     } catch (e: any) {
       set({ error: e?.message || "Failed to reset password" })
       throw e
@@ -203,12 +148,23 @@ export const useUserStore = create<UserStoreState>((set, get) => ({
     }
   },
 
+  resetUserTwoFactor: async (id) => {
+    set({ isLoading: true, error: null })
+    try {
+      await usersApi.resetTwoFactor(id)
+      await get().fetchUsers()
+    } catch (e) {
+      set({ error: getErrorMessage(e, "Failed to reset two-factor authentication") })
+      throw e
+    } finally {
+      set({ isLoading: false })
+    }
+  },
+
   deleteUser: async (id) => {
     set({ isLoading: true, error: null })
     try {
-      await apiFetch(`/api/users/${encodeURIComponent(id)}`, {
-        method: "DELETE",
-      })
+      await usersApi.remove(id)
       await get().fetchUsers()
     } catch (e: any) {
       set({ error: e?.message || "Failed to delete user" })
@@ -9,6 +9,7 @@ import {
   Pencil,
   Save,
   Shield,
+  ShieldCheck,
   User as UserIcon,
   X,
 } from "lucide-react"
@@ -22,6 +23,21 @@ import { Label } from "@/components/ui/label"
 import { Separator } from "@/components/ui/separator"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { EnablePushNotifications } from "@/components/enable-push-notifications"
+import {
+  BackupCodes,
+  ONE_TIME_CODE_LENGTH,
+  OneTimeCodeInput,
+  TwoFactorSetup,
+} from "@/components/two-factor-setup"
+import {
+  getErrorMessage,
+  isAbortError,
+  resolveApiUrl,
+  twoFactorApi,
+  usersApi,
+  type TwoFactorEnrollment,
+  type TwoFactorStatus,
+} from "@/lib/api"
 
 type AuthState = {
   token: string
@@ -53,17 +69,10 @@ type UserProfile = {
   avatarUrl?: string
 }
 
-function getApiBaseUrl() {
-  const envAny = (import.meta as any)?.env as any
-  const fromEnv = (envAny?.VITE_API_BASE_URL || envAny?.VITE_API_URL) as string | undefined
-  return (fromEnv || "http://localhost:8000").replace(/\/+$/, "")
-}
-
 function resolveAvatarUrl(raw?: string | null) {
   const v = String(raw || "").trim()
   if (!v) return ""
-  if (/^https?:\/\//i.test(v)) return v
-  if (v.startsWith("/")) return `${getApiBaseUrl()}${v}`
+  if (v.startsWith("/")) return resolveApiUrl(v)
   return v
 }
 
@@ -77,25 +86,6 @@ function getAuth(): AuthState | null {
   }
 }
 
-async function apiFetch(path: string, init?: RequestInit) {
-  const auth = getAuth()
-  if (!auth?.token) throw new Error("Not authenticated")
-
-  const res = await fetch(`${getApiBaseUrl()}${path}`, {
-    ...init,
-    headers: {
-      ...(init?.headers || {}),
-      Authorization: `Bearer ${auth.token}`,
-    },
-  })
-
-  const data = await res.json().catch(() => ({}))
-  if (!res.ok) {
-    throw new Error((data as any)?.message || "Request failed")
-  }
-  return data
-}
-
 function initials(name?: string) {
   const n = (name || "").trim()
   if (!n) return "U"
@@ -105,6 +95,166 @@ function initials(name?: string) {
   return `${first}${second}`.toUpperCase()
 }
 
+function TwoFactorSection() {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null)
+  const [mode, setMode] = useState<"idle" | "setup" | "disable" | "regenerate">("idle")
+  const [enrollment, setEnrollment] = useState<TwoFactorEnrollment | null>(null)
+  const [code, setCode] = useState("")
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null)
+  const [isBusy, setIsBusy] = useState(false)
+
+  useEffect(() => {
+    const controller = new AbortController()
+    twoFactorApi
+      .status(controller.signal)
+      .then(setStatus)
+      .catch((e) => {
+        if (isAbortError(e)) return
+        toast.error(getErrorMessage(e, "Failed to load two-factor status"))
+      })
+    return () => controller.abort()
+  }, [])
+
+  const reset = () => {
+    setMode("idle")
+    setEnrollment(null)
+    setCode("")
+  }
+
+  const startSetup = async () => {
+    setIsBusy(true)
+    setBackupCodes(null)
+    try {
+      setEnrollment(await twoFactorApi.setup())
+      setMode("setup")
+    } catch (e) {
+      toast.error(getErrorMessage(e, "Failed to start two-factor setup"))
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const confirmSetup = async (value: string) => {
+    setIsBusy(true)
+    try {
+      const res = await twoFactorApi.enable(value)
+      setBackupCodes(res.backupCodes)
+      setStatus((s) => ({ enforced: false, ...s, enabled: true, backupCodesRemaining: res.backupCodes.length }))
+      reset()
+      toast.success("Two-factor authentication is on")
+    } catch (e) {
+      toast.error(getErrorMessage(e, "Invalid code"))
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const submitCode = async () => {
+    if (code.length < ONE_TIME_CODE_LENGTH) return
+    setIsBusy(true)
+    try {
+      if (mode === "disable") {
+        await twoFactorApi.disable(code)
+        setStatus((s) => ({ enforced: false, ...s, enabled: false, backupCodesRemaining: 0 }))
+        setBackupCodes(null)
+        toast.success("Two-factor authentication is off")
+      } else {
+        const res = await twoFactorApi.regenerateBackupCodes(code)
+        setBackupCodes(res.backupCodes)
+        setStatus((s) => (s ? { ...s, backupCodesRemaining: res.backupCodes.length } : s))
+        toast.success("New backup codes generated")
+      }
+      reset()
+    } catch (e) {
+      toast.error(getErrorMessage(e, "Invalid code"))
+      setCode("")
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  return (
+    <div className="rounded-xl border bg-muted/20 p-4">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <div className="flex items-start gap-3">
+          <div className="mt-0.5 flex size-9 items-center justify-center rounded-xl bg-primary/10 text-primary">
+            <ShieldCheck className="size-5" />
+          </div>
+          <div>
+            <div className="font-medium">Two-Factor Authentication</div>
+            <div className="mt-1 text-sm text-muted-foreground">
+              {!status
+                ? "Checking status…"
+                : status.enabled
+                  ? `On. Sign-in asks for a code from your authenticator app. ${status.backupCodesRemaining ?? 0} backup codes left.`
+                  : status.enforced
+                    ? "Required for your account. You will be asked to set it up at your next sign-in."
+                    : "Add a code from an authenticator app as a second step when you sign in."}
+            </div>
+          </div>
+        </div>
+
+        {status && mode === "idle" ? (
+          status.enabled ? (
+            <div className="flex gap-2">
+              <Button variant="outline" className="rounded-xl" onClick={() => setMode("regenerate")}>
+                New backup codes
+              </Button>
+              {!status.enforced ? (
+                <Button variant="outline" className="rounded-xl" onClick={() => setMode("disable")}>
+                  Turn off
+                </Button>
+              ) : null}
+            </div>
+          ) : (
+            <Button className="rounded-xl" onClick={startSetup} disabled={isBusy}>
+              {isBusy ? <Loader2 className="size-4 animate-spin" /> : <ShieldCheck className="size-4" />}
+              Set up
+            </Button>
+          )
+        ) : null}
+      </div>
+
+      {mode === "setup" && enrollment ? (
+        <div className="mt-4 border-t pt-4">
+          <TwoFactorSetup enrollment={enrollment} isConfirming={isBusy} onConfirm={confirmSetup} onCancel={reset} />
+        </div>
+      ) : null}
+
+      {mode === "disable" || mode === "regenerate" ? (
+        <div className="mt-4 grid gap-3 border-t pt-4">
+          <div className="text-sm text-muted-foreground">
+            {mode === "disable"
+              ? "Enter a code from your authenticator app to turn off two-factor authentication."
+              : "Enter a code from your authenticator app. Your current backup codes will stop working."}
+          </div>
+          <OneTimeCodeInput value={code} onChange={setCode} disabled={isBusy} autoFocus />
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" className="rounded-xl" onClick={reset} disabled={isBusy}>
+              Cancel
+            </Button>
+            <Button
+              className="rounded-xl"
+              variant={mode === "disable" ? "destructive" : "default"}
+              onClick={submitCode}
+              disabled={isBusy || code.length < ONE_TIME_CODE_LENGTH}
+            >
+              {isBusy ? <Loader2 className="size-4 animate-spin" /> : null}
+              {mode === "disable" ? "Turn off" : "Generate codes"}
+            </Button>
+          </div>
+        </div>
+      ) : null}
+
+      {backupCodes ? (
+        <div className="mt-4 border-t pt-4">
+          <BackupCodes codes={backupCodes} />
+        </div>
+      ) : null}
+    </div>
+  )
+}
+
 export function UserAccount() {
   const auth = useMemo(() => getAuth(), [])
 
@@ -146,7 +296,7 @@ export function UserAccount() {
 
     ;(async () => {
       try {
-        const data = (await apiFetch(`/api/users/${encodeURIComponent(auth.user.id)}`)) as any
+        const data = await usersApi.get(auth.user.id)
         const u = (data as any)?.user || (data as any)
         if (!u) return
         const next: UserProfile = {
@@ -225,30 +375,21 @@ export function UserAccount() {
 
     setIsSavingProfile(true)
     try {
-      await apiFetch(`/api/users/${encodeURIComponent(auth.user.id)}`, {
-        method: "PATCH",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          email: draft.email,
-          username: draft.username,
-          name: draft.name,
-          contactNumber: draft.contactNumber,
-          schoolAddress: draft.schoolAddress,
-        }),
+      await usersApi.update(auth.user.id, {
+        email: draft.email,
+        username: draft.username,
+        name: draft.name,
+        contactNumber: draft.contactNumber,
+        schoolAddress: draft.schoolAddress,
       })
 
       let nextProfile: UserProfile = { ...draft }
 
       if (avatarFile) {
-        const fd = new FormData()
-        fd.set("avatar", avatarFile)
-        const data = (await apiFetch(`/api/users/${encodeURIComponent(auth.user.id)}/avatar`, {
-          method: "POST",
-          body: fd,
-        })) as any
+        const data = await usersApi.uploadAvatar(auth.user.id, avatarFile)
         const u = (data as any)?.user || (data as any)
         if (u?.avatarUrl) {
-          const absolute = `${getApiBaseUrl()}${String(u.avatarUrl)}`
+          const absolute = resolveApiUrl(String(u.avatarUrl))
           nextProfile = {
             ...nextProfile,
             avatarUrl: String(u.avatarUrl),
@@ -313,14 +454,7 @@ export function UserAccount() {
 
     setIsChangingPassword(true)
     try {
-      await apiFetch(`/api/users/${encodeURIComponent(auth.user.id)}/password`, {
-        method: "PATCH",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          currentPassword,
-          newPassword,
-        }),
-      })
+      await usersApi.changePassword(auth.user.id, { currentPassword, newPassword })
 
       toast.success("Password updated")
       setCurrentPassword("")
@@ -595,6 +729,8 @@ export function UserAccount() {
                 </div>
               </div>
 
+              <TwoFactorSection />
+
               <div className="rounded-xl border bg-muted/20 p-4">
                 <div className="flex items-start gap-3">
                   <div className="mt-0.5 flex size-9 items-center justify-center rounded-xl bg-primary/10 text-primary">
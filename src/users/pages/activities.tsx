@@ -1,4 +1,4 @@
-import { useCallback, useEffect, useState } from "react"
+import { useCallback, useEffect, useRef, useState } from "react"
 import { toast } from "sonner"
 import {
     CheckCircle2,
@@ -12,64 +12,13 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/u
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Textarea } from "@/components/ui/textarea"
+import { activitiesApi, resolveApiUrl, type Activity } from "@/lib/api"
+import { useSearchParam } from "@/lib/router"
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
-type FieldInputType = "text" | "textarea" | "number" | "date"
-
-type ActivityField = {
-    id: string
-    type: FieldInputType      // what the user fills in
-    label: string             // question title
-    description: string       // question description
-    required: boolean
-    photoUrl: string          // admin-uploaded image shown to user
-    unit: string              // fixed unit (PCS, Unit, Box…) — user just sees this
-    placeholder: string
-}
-
-type Activity = {
-    id: string
-    title: string
-    description: string
-    isActive: boolean
-    fields: ActivityField[]
-    createdAt: string
-}
-
 type AnswerDraft = Record<string, string>
 
-// ─── Helpers ──────────────────────────────────────────────────────────────────
-
-function getApiBaseUrl() {
-    const e = (import.meta as any)?.env as any
-    return ((e?.VITE_API_BASE_URL || e?.VITE_API_URL) as string || "http://localhost:8000").replace(/\/+$/, "")
-}
-
-function getAuthToken(): string | null {
-    try {
-        const raw = localStorage.getItem("bhss_auth")
-        if (!raw) return null
-        return (JSON.parse(raw) as any)?.token || null
-    } catch { return null }
-}
-
-async function apiFetch(path: string, init?: RequestInit) {
-    const token = getAuthToken()
-    if (!token) throw new Error("Not authenticated")
-    const res = await fetch(`${getApiBaseUrl()}${path}`, {
-        ...init,
-        headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${token}`,
-            ...(init?.headers || {}),
-        },
-    })
-    const data = await res.json().catch(() => ({}))
-    if (!res.ok) throw new Error((data as any)?.message || "Request failed")
-    return data
-}
-
 // ─── Activity Answer Form ─────────────────────────────────────────────────────
 
 function ActivityAnswerForm({
@@ -101,10 +50,7 @@ function ActivityAnswerForm({
         setIsSubmitting(true)
         try {
             const payload = Object.entries(answers).map(([fieldId, value]) => ({ fieldId, value }))
-            const data = await apiFetch(`/api/activities/${activity.id}/submit`, {
-                method: "POST",
-                body: JSON.stringify({ answers: payload }),
-            })
+            const data = await activitiesApi.submit(activity.id, payload)
             toast.success("Answers submitted successfully!")
             onSubmitted(answers, data.response?.submittedAt || new Date().toISOString())
         } catch (e: any) {
@@ -161,7 +107,7 @@ function ActivityAnswerForm({
                         {field.photoUrl && (
                             <div className="mt-3 rounded-xl overflow-hidden border border-gray-100 shadow-sm">
                                 <img
-                                    src={`${getApiBaseUrl()}${field.photoUrl}`}
+                                    src={resolveApiUrl(field.photoUrl)}
                                     alt={field.label}
                                     className="w-full object-cover max-h-64"
                                 />
@@ -237,11 +183,13 @@ export function UserActivities() {
     const [existingAnswers, setExistingAnswers] = useState<AnswerDraft | null>(null)
     const [lastSubmittedAt, setLastSubmittedAt] = useState<string | null>(null)
     const [isFetchingExisting, setIsFetchingExisting] = useState(false)
+    const [activityIdParam, setActivityIdParam] = useSearchParam("id")
+    const handledActivityIdRef = useRef<string | null>(null)
 
     const load = useCallback(async () => {
         setIsLoading(true)
         try {
-            const data = await apiFetch("/api/activities")
+            const data = await activitiesApi.list()
             setActivities(Array.isArray(data.activities) ? data.activities : [])
         } catch (e: any) {
             toast.error(e?.message || "Failed to load activities")
@@ -253,12 +201,16 @@ export function UserActivities() {
     useEffect(() => { void load() }, [load])
 
     const openActivityDialog = async (activity: Activity) => {
+        if (activity.id !== handledActivityIdRef.current) {
+            handledActivityIdRef.current = activity.id
+            setActivityIdParam(activity.id)
+        }
         setOpenActivity(activity)
         setExistingAnswers(null)
         setLastSubmittedAt(null)
         setIsFetchingExisting(true)
         try {
-            const data = await apiFetch(`/api/activities/${activity.id}/my-response`)
+            const data = await activitiesApi.myResponse(activity.id)
             if (data.response) {
                 const draft: AnswerDraft = {}
                 for (const a of (data.response.answers || [])) draft[a.fieldId] = a.value
@@ -272,6 +224,26 @@ export function UserActivities() {
         }
     }
 
+    const closeActivityDialog = () => {
+        setOpenActivity(null)
+        setActivityIdParam(null)
+    }
+
+    // Deep links (?id=…) open the activity once the list has loaded
+    useEffect(() => {
+        if (!activityIdParam) {
+            handledActivityIdRef.current = null
+            setOpenActivity(null)
+            return
+        }
+        if (handledActivityIdRef.current === activityIdParam) return
+        const found = activities.find((a) => a.id === activityIdParam)
+        if (!found) return
+        handledActivityIdRef.current = activityIdParam
+        void openActivityDialog(found)
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [activityIdParam, activities])
+
     const handleSubmitted = (answers: AnswerDraft, submittedAt: string) => {
         setExistingAnswers(answers)
         setLastSubmittedAt(submittedAt)
@@ -342,7 +314,7 @@ export function UserActivities() {
             )}
 
             {/* Answer Dialog */}
-            <Dialog open={!!openActivity} onOpenChange={(o) => { if (!o) setOpenActivity(null) }}>
+            <Dialog open={!!openActivity} onOpenChange={(o) => { if (!o) closeActivityDialog() }}>
                 <DialogContent className="w-[calc(100vw-1rem)] max-w-xl max-h-[90vh] overflow-y-auto rounded-2xl border border-gray-100 bg-white p-0 shadow-xl">
                     <DialogHeader className="border-b border-gray-100 px-6 pb-4 pt-6 sticky top-0 bg-white z-10">
                         <div className="flex items-start gap-3">
@@ -387,7 +359,7 @@ export function UserActivities() {
                     </div>
 
                     <div className="border-t border-gray-100 px-6 py-4 sticky bottom-0 bg-white">
-                        <button type="button" onClick={() => setOpenActivity(null)}
+                        <button type="button" onClick={closeActivityDialog}
                             className="inline-flex items-center gap-1.5 rounded-xl border border-gray-200 bg-white px-4 py-2 text-sm font-medium text-gray-600 hover:border-gray-300 transition-all">
                             <ChevronLeft className="size-4" />
                             Close
@@ -16,6 +16,7 @@ import {
   X,
 } from "lucide-react"
 import { toast } from "sonner"
+import { useShallow } from "zustand/react/shallow"
 
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
@@ -57,6 +58,10 @@ import {
   PaginationNext,
   PaginationPrevious,
 } from "@/components/ui/pagination"
+import { SyncQueueList } from "@/components/sync-queue-status"
+import { attendanceApi, isConnectivityError, type AttendanceRecordDto } from "@/lib/api"
+import { useDateSearchParam, useSearchParam } from "@/lib/router"
+import { useSyncQueueStore } from "@/stores/sync-queue-store"
 
 type AuthState = {
   token: string
@@ -111,33 +116,6 @@ function getAuth(): AuthState | null {
   }
 }
 
-function getApiBaseUrl() {
-  const envAny = (import.meta as any)?.env as any
-  const fromEnv = (envAny?.VITE_API_BASE_URL || envAny?.VITE_API_URL) as string | undefined
-  return (fromEnv || "http://localhost:8000").replace(/\/+$/, "")
-}
-
-async function apiFetch(path: string, init?: RequestInit) {
-  const auth = getAuth()
-  const token = auth?.token
-  if (!token) throw new Error("Not authenticated")
-
-  const res = await fetch(`${getApiBaseUrl()}${path}`, {
-    ...init,
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${token}`,
-      ...(init?.headers || {}),
-    },
-  })
-
-  const data = await res.json().catch(() => ({}))
-  if (!res.ok) {
-    throw new Error((data as any)?.message || "Request failed")
-  }
-  return data
-}
-
 function safeInt(v: string) {
   const n = Number(v)
   if (!Number.isFinite(n)) return 0
@@ -161,10 +139,15 @@ export function UserAttendance() {
   const auth = useMemo(() => getAuth(), [])
   const userId = auth?.user?.id || ""
 
-  const [activeTab, setActiveTab] = useState<"record" | "history">("record")
+  // Tab and date live in the URL so a refresh or shared link keeps the view
+  const [tabParam, setTabParam] = useSearchParam("tab")
+  const activeTab: "record" | "history" = tabParam === "history" ? "history" : "record"
   const [isSaving, setIsSaving] = useState(false)
 
-  const [date, setDate] = useState<Date | undefined>(() => new Date())
+  const [today] = useState(() => new Date())
+  const [dateParam, setDate] = useDateSearchParam("date")
+  const date = dateParam ?? today
+  const selectedDateKey = startOfDayKey(date)
   const [gradeOption, setGradeOption] = useState<GradeOption>("Grade 2")
   const [customGrade, setCustomGrade] = useState("")
   const [lastPresetGrade, setLastPresetGrade] = useState<Exclude<GradeOption, "Custom">>(
@@ -180,6 +163,13 @@ export function UserAttendance() {
 
   const [records, setRecords] = useState<AttendanceRecord[]>([])
   const [isDateLoading, setIsDateLoading] = useState(false)
+  // Server copies for the selected date; their `updatedAt` is what offline edits are based on
+  const [dateRecords, setDateRecords] = useState<AttendanceRecordDto[]>([])
+
+  const queuedEntries = useSyncQueueStore(
+    useShallow((s) => s.entries.filter((e) => e.kind === "attendance" && e.dateKey === selectedDateKey))
+  )
+  const syncedCount = queuedEntries.filter((e) => e.status === "synced").length
 
   const [rangeOpen, setRangeOpen] = useState(false)
   const [range, setRange] = useState<{ from?: Date; to?: Date }>({})
@@ -222,9 +212,12 @@ export function UserAttendance() {
     const run = async () => {
       setIsDateLoading(true)
       try {
-        await apiFetch(`/api/attendance/by-date/${encodeURIComponent(dateKey)}/all`)
+        const data = await attendanceApi.byDate(dateKey)
+        setDateRecords(Array.isArray(data.records) ? data.records : [])
       } catch (e: any) {
-        toast.error(e?.message || "Failed to load attendance")
+        setDateRecords([])
+        // Offline is expected here; entries are queued on save instead
+        if (!isConnectivityError(e)) toast.error(e?.message || "Failed to load attendance")
       } finally {
         setIsDateLoading(false)
       }
@@ -232,7 +225,7 @@ export function UserAttendance() {
 
     run()
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [userId, date])
+  }, [userId, date, syncedCount])
 
   const totals = useMemo(() => {
     const now = new Date()
@@ -370,16 +363,13 @@ export function UserAttendance() {
 
     setIsEditSaving(true)
     try {
-      const data = (await apiFetch("/api/attendance/record", {
-        method: "POST",
-        body: JSON.stringify({
-          dateKey,
-          grade,
-          present: p,
-          absent: a,
-          notes: editNotesDraft.trim() || "",
-        }),
-      })) as { record?: any }
+      const data = await attendanceApi.save({
+        dateKey,
+        grade,
+        present: p,
+        absent: a,
+        notes: editNotesDraft.trim() || "",
+      })
 
       const saved = data?.record
       if (saved) {
@@ -422,15 +412,12 @@ export function UserAttendance() {
 
     const t = setTimeout(async () => {
       try {
-        const qs = new URLSearchParams()
-        if (range.from) qs.set("from", startOfDayKey(range.from))
-        if (range.to) qs.set("to", startOfDayKey(range.to))
-        if (search.trim()) qs.set("search", search.trim())
-        if (gradeFilter !== "all") qs.set("grade", gradeFilter)
-
-        const data = (await apiFetch(`/api/attendance/history?${qs.toString()}`)) as {
-          records?: any[]
-        }
+        const data = await attendanceApi.history({
+          from: range.from ? startOfDayKey(range.from) : undefined,
+          to: range.to ? startOfDayKey(range.to) : undefined,
+          search: search.trim(),
+          grade: gradeFilter !== "all" ? gradeFilter : undefined,
+        })
 
         const next = (Array.isArray(data.records) ? data.records : []).map((r) => {
           return {
@@ -499,18 +486,32 @@ export function UserAttendance() {
       return
     }
 
+    const dateKey = startOfDayKey(date)
+    const entries = pendingEntries
+    const label = `${entries.length} grade${entries.length !== 1 ? "s" : ""}`
+
     setIsSaving(true)
     try {
-      const dateKey = startOfDayKey(date)
-      await apiFetch("/api/attendance/record/bulk", {
-        method: "POST",
-        body: JSON.stringify({ dateKey, entries: pendingEntries }),
-      })
+      if (navigator.onLine) {
+        try {
+          await attendanceApi.saveBulk(dateKey, entries)
+
+          toast.success(`Saved ${label}`)
+          setPendingEntries([])
+
+          const refreshed = await attendanceApi.byDate(dateKey).catch(() => null)
+          if (refreshed) setDateRecords(Array.isArray(refreshed.records) ? refreshed.records : [])
+          return
+        } catch (e) {
+          if (!isConnectivityError(e)) throw e
+        }
+      }
 
-      toast.success(`Saved ${pendingEntries.length} grade${pendingEntries.length !== 1 ? "s" : ""}`)
+      // No connection: keep the entries on this device and sync them later
+      const baseUpdatedAtByGrade = Object.fromEntries(dateRecords.map((r) => [r.grade, r.updatedAt]))
+      await useSyncQueueStore.getState().queueAttendance(dateKey, entries, baseUpdatedAtByGrade)
+      toast.info(`Saved ${label} on this device. They will sync when you are back online.`)
       setPendingEntries([])
-
-      await apiFetch(`/api/attendance/by-date/${encodeURIComponent(dateKey)}/all`)
     } catch (e: any) {
       toast.error(e?.message || "Failed to save")
     } finally {
@@ -574,7 +575,7 @@ export function UserAttendance() {
         </div>
       </div>
 
-      <Tabs value={activeTab} onValueChange={(v) => setActiveTab(v as any)} className="space-y-3">
+      <Tabs value={activeTab} onValueChange={(v) => setTabParam(v === "history" ? v : null, { replace: false })} className="space-y-3">
         <TabsList className="rounded-xl bg-emerald-50 border border-emerald-200">
           <TabsTrigger value="record" className="data-[state=active]:bg-emerald-600 data-[state=active]:text-white data-[state=active]:shadow-sm">
             <CheckCircle2 className="size-4" />
@@ -610,7 +611,7 @@ export function UserAttendance() {
                       </Button>
                     </PopoverTrigger>
                     <PopoverContent className="w-auto p-2" align="start">
-                      <Calendar mode="single" selected={date} onSelect={setDate} />
+                      <Calendar mode="single" selected={date} onSelect={(d) => setDate(d)} />
                     </PopoverContent>
                   </Popover>
                 </div>
@@ -777,6 +778,8 @@ export function UserAttendance() {
                     </div>
                   </CardContent>
                 </Card>
+
+                <SyncQueueList entries={queuedEntries} />
               </div>
 
               <Separator />
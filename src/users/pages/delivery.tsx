@@ -1,10 +1,12 @@
 import { useEffect, useMemo, useRef, useState } from "react"
 import type { ComponentType } from "react"
-import { format, parseISO } from "date-fns"
+import { addDays, format, parseISO } from "date-fns"
 import { motion } from "motion/react"
 import { toast } from "sonner"
+import { useShallow } from "zustand/react/shallow"
 import imageCompression from "browser-image-compression"
 import {
+  CalendarClock,
   CalendarDays,
   CheckCircle2,
   Clock,
@@ -12,6 +14,8 @@ import {
   Loader2,
   Info,
   Images,
+  PackageMinus,
+  PenLine,
   Trash2,
   ChevronLeft,
   ChevronRight,
@@ -61,6 +65,42 @@ import {
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Textarea } from "@/components/ui/textarea"
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip"
+import { SignatureDialog } from "@/components/signature-dialog"
+import { SyncQueueList, SyncStatusBadge } from "@/components/sync-queue-status"
+import {
+  DELIVERY_CATEGORY_OPTIONS,
+  DELIVERY_SIGNATURE_ROLES,
+  deliveryApi,
+  getAuthToken,
+  isConnectivityError,
+  resolveApiUrl,
+  UNIT_OPTIONS,
+  type DeliveryCategoryKey,
+  type DeliveryImageMeta,
+  type DeliveryLineDto,
+  type DeliveryRecordDto as DeliveryRecordDtoBase,
+  type DeliveryScheduleDto,
+  type DeliverySignatureRole,
+  type DeliveryStatus,
+  type SaveDeliveryItemInput,
+} from "@/lib/api"
+import {
+  cleanDeliveryLines,
+  emptyDeliveryLine,
+  formatLineQuantity,
+  formatShortage,
+  isDeliveredShort,
+  lineShortage,
+} from "@/lib/delivery-lines"
+import {
+  expandSchedules,
+  SCHEDULE_OUTCOME_META,
+  scheduledStatus,
+  scheduleOutcome,
+} from "@/lib/delivery-schedule"
+import { captureDateFlag, readPhotoEvidence } from "@/lib/photo-evidence"
+import { useDateSearchParam, useSearchParam } from "@/lib/router"
+import { useSyncQueueStore, type DeliverySyncEntry } from "@/stores/sync-queue-store"
 
 // Simple image cache to prevent re-fetching when reopening the modal
 type ImageCacheEntry = {
@@ -151,7 +191,7 @@ const OptimizedImage = ({
       return
     }
 
-    const fullUrl = src.startsWith("http") ? src : `${getApiBaseUrl()}${src}`
+    const fullUrl = resolveApiUrl(src)
 
     const cached = getCachedImage(fullUrl)
     if (cached) {
@@ -263,27 +303,16 @@ const LazyOptimizedImage = ({
   )
 }
 
-type DeliveryStatus =
-  | "Pending"
-  | "Delivered"
-  | "Delayed"
-  | "Cancelled"
-
-const CATEGORY_OPTIONS = [
-  { key: "fruits", label: "Fruits" },
-  { key: "vegetables", label: "Vegetables" },
-  { key: "meat", label: "Meat" },
-  { key: "nutribun", label: "NutriBun" },
-  { key: "patties", label: "Patties" },
-  { key: "groceries", label: "Groceries" },
-  { key: "consumables", label: "Consumables" },
-  { key: "water", label: "Water" },
-  { key: "lpg", label: "LPG" },
-  { key: "rice", label: "Rice" },
-  { key: "others", label: "Others" },
-] as const
-
-type DeliveryCategoryKey = (typeof CATEGORY_OPTIONS)[number]["key"]
+type DeliveryRecordDto = DeliveryRecordDtoBase<DeliveryCategoryKey>
+
+/** A stored signature (`file` null) or one captured on this device and not yet saved. */
+type DeliverySignature = {
+  role: DeliverySignatureRole
+  signerName: string
+  signedAt: string
+  url: string
+  file: File | null
+}
 
 type DeliveryItem = {
   key: DeliveryCategoryKey
@@ -295,90 +324,12 @@ type DeliveryItem = {
   uploadedAt: string
   concerns: string[]
   remarks: string
-  images: Array<{ file: File | null; url: string }>
-}
-
-async function apiFetchNoJson(path: string, init?: RequestInit) {
-  const token = getAuthToken()
-  if (!token) throw new Error("Not authenticated")
-
-  const res = await fetch(`${getApiBaseUrl()}${path}`, {
-    ...init,
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${token}`,
-      ...(init?.headers || {}),
-    },
-  })
-
-  if (!res.ok) {
-    const msg = await readErrorMessage(res)
-    throw new Error(`${msg} (${res.status})`)
-  }
-
-  const text = await res.text().catch(() => "")
-  if (!text) return {}
-  return JSON.parse(text)
-}
-
-type DeliveryImageDto = {
-  filename: string
-  originalName: string
-  mimeType: string
-  size: number
-  url: string
-}
-
-type DeliveryRecordDto = {
-  dateKey: string
-  categoryKey: DeliveryCategoryKey
-  categoryLabel: string
-  status: DeliveryStatus
-  statusReason?: string
-  statusUpdatedAt?: string
-  uploadedAt?: string
-  concerns?: string[]
-  remarks?: string
-  images?: DeliveryImageDto[]
-  hlaManagerName?: string
-}
-
-function getApiBaseUrl() {
-  const envAny = (import.meta as any)?.env as any
-  const fromEnv = (envAny?.VITE_API_BASE_URL || envAny?.VITE_API_URL) as string | undefined
-  return (fromEnv || "http://localhost:8000").replace(/\/+$/, "")
-}
-
-function getAuthToken(): string | null {
-  try {
-    const raw = localStorage.getItem("bhss_auth")
-    if (!raw) return null
-    const parsed = JSON.parse(raw) as { token?: string }
-    return parsed?.token || null
-  } catch {
-    return null
-  }
-}
-
-async function readErrorMessage(res: Response): Promise<string> {
-  try {
-    const text = await res.text()
-    if (!text) return `Request failed (${res.status})`
-
-    try {
-      const data = JSON.parse(text) as any
-      const msg = (data?.message || data?.error || "").toString().trim()
-      if (msg) return msg
-    } catch {
-      // ignore JSON parse
-    }
-
-    const trimmed = text.toString().trim()
-    if (!trimmed) return `Request failed (${res.status})`
-    return trimmed.length > 200 ? trimmed.slice(0, 200) : trimmed
-  } catch {
-    return `Request failed (${res.status})`
-  }
+  lines: DeliveryLineDto[]
+  signatures: DeliverySignature[]
+  /** `meta` is read from new photos before compression and sent with them. */
+  images: Array<{ file: File | null; url: string; meta?: DeliveryImageMeta }>
+  /** Server `updatedAt`; offline edits are checked against it before syncing. */
+  updatedAt: string
 }
 
 function formatBytes(bytes: number): string {
@@ -390,55 +341,6 @@ function formatBytes(bytes: number): string {
   return `${v.toFixed(d)} ${units[i]}`
 }
 
-async function deleteItemFromBackend(dateKey: string, categoryKey: DeliveryCategoryKey) {
-  return apiFetchNoJson("/api/delivery/item", {
-    method: "DELETE",
-    body: JSON.stringify({ dateKey, categoryKey }),
-  })
-}
-
-async function apiFetch(path: string, init?: RequestInit) {
-  const token = getAuthToken()
-  if (!token) throw new Error("Not authenticated")
-
-  const res = await fetch(`${getApiBaseUrl()}${path}`, {
-    ...init,
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${token}`,
-      ...(init?.headers || {}),
-    },
-  })
-
-  const data = await res.json().catch(() => ({}))
-  if (!res.ok) {
-    throw new Error((data as any)?.message || "Request failed")
-  }
-  return data
-}
-
-async function apiFetchFormData(path: string, formData: FormData) {
-  const token = getAuthToken()
-  if (!token) throw new Error("Not authenticated")
-
-  const res = await fetch(`${getApiBaseUrl()}${path}`, {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${token}`,
-    },
-    body: formData,
-  })
-
-  if (!res.ok) {
-    const msg = await readErrorMessage(res)
-    throw new Error(`${msg} (${res.status})`)
-  }
-
-  const text = await res.text().catch(() => "")
-  if (!text) return {}
-  return JSON.parse(text)
-}
-
 const STATUS_OPTIONS: Array<{
   value: DeliveryStatus
   label: string
@@ -477,6 +379,21 @@ function statusMeta(status: DeliveryStatus) {
   return STATUS_OPTIONS.find((s) => s.value === status) ?? STATUS_OPTIONS[0]
 }
 
+const SHORT_DELIVERY_META: (typeof STATUS_OPTIONS)[number] = {
+  value: "Delivered",
+  label: "Delivered with shortage",
+  icon: PackageMinus,
+  badgeClass: "bg-orange-50 text-orange-700 border border-orange-200",
+}
+
+/** Status badge for an item; Delivered reads as short when any line came in under expected. */
+function itemStatusMeta(item: { status: DeliveryStatus; lines?: DeliveryLineDto[] }) {
+  return isDeliveredShort(item) ? SHORT_DELIVERY_META : statusMeta(item.status)
+}
+
+/** How far ahead the "coming up" list looks for scheduled deliveries. */
+const UPCOMING_DAYS = 7
+
 const PRESET_CONCERNS = [
   "Missing items",
   "Late arrival",
@@ -525,19 +442,128 @@ function createEmptyItem(key: DeliveryCategoryKey, label: string): DeliveryItem
     uploadedAt: "",
     concerns: [],
     remarks: "",
+    lines: [],
+    signatures: [],
     images: [],
+    updatedAt: "",
   }
 }
 
+function DeliveryLinesEditor({
+  lines,
+  onChange,
+}: {
+  lines: DeliveryLineDto[]
+  onChange: (lines: DeliveryLineDto[]) => void
+}) {
+  const update = (index: number, patch: Partial<DeliveryLineDto>) =>
+    onChange(lines.map((l, i) => (i === index ? { ...l, ...patch } : l)))
+  const parseQty = (value: string) => Math.max(0, Number(value) || 0)
+
+  return (
+    <div className="grid gap-2">
+      <div className="flex items-center justify-between">
+        <Label className="text-xs text-muted-foreground">Items received (optional)</Label>
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          className="rounded-xl h-7 px-2"
+          onClick={() => onChange([...lines, emptyDeliveryLine()])}
+        >
+          <Plus className="size-4" />
+          Add item
+        </Button>
+      </div>
+
+      {lines.length === 0 ? (
+        <div className="rounded-xl border border-dashed bg-muted/10 p-3 text-xs text-muted-foreground">
+          List what arrived with the expected and received quantity to record any shortage.
+        </div>
+      ) : (
+        <div className="grid gap-2">
+          <div className="hidden grid-cols-[1fr_5rem_5rem_6rem_2rem] gap-2 px-1 text-[11px] font-medium text-muted-foreground sm:grid">
+            <span>Item</span>
+            <span>Expected</span>
+            <span>Received</span>
+            <span>Unit</span>
+            <span />
+          </div>
+          {lines.map((line, index) => {
+            const short = lineShortage(line)
+            return (
+              <div key={index} className="rounded-xl border bg-white p-2">
+                <div className="grid grid-cols-2 gap-2 sm:grid-cols-[1fr_5rem_5rem_6rem_2rem]">
+                  <Input
+                    value={line.name}
+                    onChange={(e) => update(index, { name: e.target.value })}
+                    placeholder="e.g. Banana"
+                    className="col-span-2 h-9 rounded-lg sm:col-span-1"
+                  />
+                  <Input
+                    type="number"
+                    inputMode="decimal"
+                    min={0}
+                    value={line.expectedQty || ""}
+                    onChange={(e) => update(index, { expectedQty: parseQty(e.target.value) })}
+                    placeholder="Expected"
+                    className="h-9 rounded-lg"
+                  />
+                  <Input
+                    type="number"
+                    inputMode="decimal"
+                    min={0}
+                    value={line.receivedQty || ""}
+                    onChange={(e) => update(index, { receivedQty: parseQty(e.target.value) })}
+                    placeholder="Received"
+                    className="h-9 rounded-lg"
+                  />
+                  <Select value={line.unit} onValueChange={(v) => update(index, { unit: v })}>
+                    <SelectTrigger className="h-9 w-full rounded-lg">
+                      <SelectValue placeholder="Unit" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {UNIT_OPTIONS.map((u) => (
+                        <SelectItem key={u} value={u}>
+                          {u}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    type="button"
+                    size="icon"
+                    variant="ghost"
+                    className="size-9 rounded-lg text-rose-700 hover:text-rose-800"
+                    onClick={() => onChange(lines.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="size-4" />
+                  </Button>
+                </div>
+                {short > 0 ? (
+                  <div className="mt-1.5 px-1 text-xs font-medium text-orange-700">
+                    Short by {formatShortage(line)}
+                  </div>
+                ) : null}
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
+
 export function UserDelivery() {
   const today = useMemo(() => new Date(), [])
-  const apiBaseUrl = useMemo(() => getApiBaseUrl(), [])
-  const [selectedDate, setSelectedDate] = useState<Date>(today)
+  // Date, tab and item live in the URL so refreshes and links keep the view
+  const [dateParam, setSelectedDate] = useDateSearchParam("date")
+  const selectedDate = dateParam ?? today
   const [isDatePickerOpen, setIsDatePickerOpen] = useState(false)
   const initialDateKey = useMemo(() => startOfDayKey(today), [today])
   const initialRecords = useMemo(() => {
     const items = Object.fromEntries(
-      CATEGORY_OPTIONS.map(({ key, label }) => [key, createEmptyItem(key, label)])
+      DELIVERY_CATEGORY_OPTIONS.map(({ key, label }) => [key, createEmptyItem(key, label)])
     ) as Record<DeliveryCategoryKey, DeliveryItem>
 
     return {
@@ -551,11 +577,16 @@ export function UserDelivery() {
   const [customConcern, setCustomConcern] = useState<Record<string, string>>({})
   const [customConcernOpen, setCustomConcernOpen] = useState<Record<string, boolean>>({})
 
-  const [activeTab, setActiveTab] = useState<"upload" | "history">("upload")
+  const [tabParam, setTabParam] = useSearchParam("tab")
+  const activeTab: "upload" | "history" = tabParam === "history" ? "history" : "upload"
+  const setActiveTab = (v: "upload" | "history") =>
+    setTabParam(v === "upload" ? null : v, { replace: false })
 
-  const [activeCategory, setActiveCategory] = useState<DeliveryCategoryKey>(
-    CATEGORY_OPTIONS[0].key
-  )
+  const [categoryParam, setCategoryParam] = useSearchParam("category")
+  const activeCategory: DeliveryCategoryKey =
+    DELIVERY_CATEGORY_OPTIONS.find((c) => c.key === categoryParam)?.key ?? DELIVERY_CATEGORY_OPTIONS[0].key
+  const setActiveCategory = (key: DeliveryCategoryKey) =>
+    setCategoryParam(key === DELIVERY_CATEGORY_OPTIONS[0].key ? null : key)
 
   const [historyDate, setHistoryDate] = useState<Date | undefined>(today)
   const [isHistoryDatePickerOpen, setIsHistoryDatePickerOpen] = useState(false)
@@ -607,6 +638,7 @@ export function UserDelivery() {
   const [compressText, setCompressText] = useState("")
 
   const [historyRecords, setHistoryRecords] = useState<DeliveryRecordDto[]>([])
+  const [schedules, setSchedules] = useState<DeliveryScheduleDto[]>([])
   const [isHistoryLoading, setIsHistoryLoading] = useState(false)
 
   const [successModalOpen, setSuccessModalOpen] = useState(false)
@@ -614,8 +646,13 @@ export function UserDelivery() {
 
   const [wizardOpen, setWizardOpen] = useState(false)
   const [wizardStep, setWizardStep] = useState<1 | 2 | 3 | 4>(1)
-  const [wizardCategory, setWizardCategory] = useState<DeliveryCategoryKey>(CATEGORY_OPTIONS[0].key)
+  const [wizardCategory, setWizardCategory] = useState<DeliveryCategoryKey>(DELIVERY_CATEGORY_OPTIONS[0].key)
   const [wizardIsSaving, setWizardIsSaving] = useState(false)
+  const [signTarget, setSignTarget] = useState<{
+    dateKey: string
+    categoryKey: DeliveryCategoryKey
+    role: DeliverySignatureRole
+  } | null>(null)
 
   useEffect(() => {
     return () => {
@@ -631,6 +668,16 @@ export function UserDelivery() {
 
   const selectedDateKey = useMemo(() => startOfDayKey(selectedDate), [selectedDate])
 
+  const queuedEntries = useSyncQueueStore(
+    useShallow((s) =>
+      s.entries.filter(
+        (e): e is DeliverySyncEntry => e.kind === "delivery" && e.dateKey === selectedDateKey
+      )
+    )
+  )
+  // Reload the day once queued items reach the server
+  const syncedCount = queuedEntries.filter((e) => e.status === "synced").length
+
   const openWizard = (categoryKey?: DeliveryCategoryKey) => {
     const key = categoryKey || activeCategory
     ensureDateRecord(selectedDateKey)
@@ -651,7 +698,7 @@ export function UserDelivery() {
     setRecordsByDate((prev) => {
       if (prev[dateKey]) return prev
       const items = Object.fromEntries(
-        CATEGORY_OPTIONS.map(({ key, label }) => [key, createEmptyItem(key, label)])
+        DELIVERY_CATEGORY_OPTIONS.map(({ key, label }) => [key, createEmptyItem(key, label)])
       ) as Record<DeliveryCategoryKey, DeliveryItem>
       return { ...prev, [dateKey]: items }
     })
@@ -659,7 +706,7 @@ export function UserDelivery() {
 
   const dtoToItem = (dto: DeliveryRecordDto): DeliveryItem => {
     const images = Array.isArray(dto.images)
-      ? dto.images.map((img) => ({ file: null, url: `${apiBaseUrl}${img.url}` }))
+      ? dto.images.map((img) => ({ file: null, url: resolveApiUrl(img.url) }))
       : []
 
     return {
@@ -672,16 +719,71 @@ export function UserDelivery() {
       uploadedAt: dto.uploadedAt || "",
       concerns: Array.isArray(dto.concerns) ? dto.concerns : [],
       remarks: dto.remarks || "",
+      lines: Array.isArray(dto.lines) ? dto.lines : [],
+      signatures: Array.isArray(dto.signatures)
+        ? dto.signatures.map((sig) => ({ ...sig, url: resolveApiUrl(sig.url), file: null }))
+        : [],
       images,
+      updatedAt: dto.updatedAt || "",
     }
   }
 
+  /** Shows items still waiting to sync on top of what the server returned. */
+  const applyQueuedItems = async (dateKey: string) => {
+    await useSyncQueueStore.getState().load()
+    const queued = useSyncQueueStore
+      .getState()
+      .entries.filter(
+        (e): e is DeliverySyncEntry => e.kind === "delivery" && e.dateKey === dateKey && e.status === "pending"
+      )
+    if (!queued.length) return
+
+    setRecordsByDate((prev) => {
+      const day = prev[dateKey]
+      if (!day) return prev
+
+      const nextDay = { ...day }
+      for (const q of queued) {
+        const key = q.item.categoryKey as DeliveryCategoryKey
+        const current = nextDay[key]
+        if (!current) continue
+        nextDay[key] = {
+          ...current,
+          status: q.item.status,
+          statusTouched: true,
+          statusReason: q.item.statusReason,
+          statusUpdatedAt: q.item.statusUpdatedAt,
+          uploadedAt: q.item.uploadedAt,
+          concerns: q.item.concerns,
+          remarks: q.item.remarks,
+          lines: q.item.lines || [],
+          signatures: [
+            ...current.signatures.filter((sig) => !q.item.signatures?.some((x) => x.role === sig.role)),
+            ...(q.item.signatures || []).map(({ image, ...sig }) => ({
+              ...sig,
+              file: image,
+              url: URL.createObjectURL(image),
+            })),
+          ],
+          images: [
+            ...current.images.filter((img) => !img.file),
+            ...q.item.images.map((file, i) => ({
+              file,
+              url: URL.createObjectURL(file),
+              meta: q.item.imageMeta?.[i],
+            })),
+          ],
+        }
+      }
+
+      return { ...prev, [dateKey]: nextDay }
+    })
+  }
+
   const loadDateFromBackend = async (dateKey: string) => {
     ensureDateRecord(dateKey)
     try {
-      const data = (await apiFetch(
-        `/api/delivery/by-date/${encodeURIComponent(dateKey)}`
-      )) as { records?: DeliveryRecordDto[] }
+      const data = await deliveryApi.byDate<DeliveryCategoryKey>(dateKey)
       const recs = Array.isArray(data.records) ? data.records : []
 
       setRecordsByDate((prev) => {
@@ -699,38 +801,58 @@ export function UserDelivery() {
         return { ...prev, [dateKey]: nextDay }
       })
     } catch (e: any) {
-      toast.error(e?.message || "Failed to load delivery records")
+      // Offline is expected here; saved items are queued instead
+      if (!isConnectivityError(e)) toast.error(e?.message || "Failed to load delivery records")
     }
+    await applyQueuedItems(dateKey)
   }
 
+  /**
+   * Saves the item, or keeps it on this device when there is no connection.
+   * Resolves with "queued" in the latter case.
+   */
   const saveActiveItemToBackend = async (dateKey: string, categoryKey: DeliveryCategoryKey) => {
     const day = recordsByDate[dateKey]
     const item = day?.[categoryKey]
-    if (!item) return
+    if (!item) return null
 
     const nowIso = new Date().toISOString()
     const effectiveUploadedAt = item.uploadedAt || nowIso
+    const newImages = item.images.filter((x) => x.file instanceof File)
+
+    const input: SaveDeliveryItemInput = {
+      dateKey,
+      categoryKey,
+      categoryLabel: item.label,
+      status: item.status,
+      statusReason: item.statusReason || "",
+      statusUpdatedAt: item.statusUpdatedAt || nowIso,
+      uploadedAt: effectiveUploadedAt,
+      concerns: item.concerns || [],
+      remarks: item.remarks || "",
+      lines: item.status === "Delivered" ? cleanDeliveryLines(item.lines) : [],
+      signatures: item.signatures.flatMap((sig) =>
+        sig.file ? [{ role: sig.role, signerName: sig.signerName, signedAt: sig.signedAt, image: sig.file }] : []
+      ),
+      images: newImages.map((x) => x.file as File),
+      imageMeta: newImages.map((x) => x.meta || {}),
+    }
 
-    const fd = new FormData()
-    fd.set("dateKey", dateKey)
-    fd.set("categoryKey", categoryKey)
-    fd.set("categoryLabel", item.label)
-    fd.set("status", item.status)
-    fd.set("statusReason", item.statusReason || "")
-    fd.set("statusUpdatedAt", item.statusUpdatedAt || nowIso)
-    fd.set("uploadedAt", effectiveUploadedAt)
-    fd.set("concerns", JSON.stringify(item.concerns || []))
-    fd.set("remarks", item.remarks || "")
-
-    const newFiles = item.images.filter((x) => x.file instanceof File)
-    for (const img of newFiles) {
-      if (img.file instanceof File) fd.append("images", img.file)
+    let data: { record?: DeliveryRecordDto } | null = null
+    if (navigator.onLine) {
+      try {
+        data = await deliveryApi.saveItem<DeliveryCategoryKey>(input)
+      } catch (e) {
+        if (!isConnectivityError(e)) throw e
+      }
     }
 
-    const data = (await apiFetchFormData("/api/delivery/item", fd)) as {
-      record?: DeliveryRecordDto
+    if (!data) {
+      await useSyncQueueStore.getState().queueDelivery(input, item.updatedAt)
+      updateDeliveryItem(dateKey, categoryKey, { uploadedAt: effectiveUploadedAt, statusTouched: true })
+      return "queued" as const
     }
-    if (!data.record) return
+    if (!data.record) return "saved" as const
 
     const normalized = dtoToItem(data.record)
     setRecordsByDate((prev) => {
@@ -748,6 +870,7 @@ export function UserDelivery() {
         },
       }
     })
+    return "saved" as const
   }
 
   const updateDeliveryItem = (
@@ -911,11 +1034,15 @@ export function UserDelivery() {
     }
 
     try {
-      const out: Array<{ file: File; url: string }> = []
+      const out: Array<{ file: File; url: string; meta: DeliveryImageMeta }> = []
       for (let i = 0; i < inputFiles.length; i += 1) {
         const f = inputFiles[i]
+        // Compression drops EXIF, so read the evidence from the original
+        const meta = await readPhotoEvidence(f)
+        const dateFlag = captureDateFlag(meta, dateKey)
+        if (dateFlag) toast.warning(`${f.name}: ${dateFlag.message}. Please use a photo taken on delivery.`)
         const processed = await compressOne(f, i, inputFiles.length)
-        out.push({ file: processed, url: URL.createObjectURL(processed) })
+        out.push({ file: processed, url: URL.createObjectURL(processed), meta })
       }
 
       setRecordsByDate((prev) => {
@@ -941,6 +1068,34 @@ export function UserDelivery() {
     }
   }
 
+  const handleSignatureSaved = (signature: { signerName: string; signedAt: string; image: File }) => {
+    if (!signTarget) return
+    const { dateKey, categoryKey, role } = signTarget
+    const url = URL.createObjectURL(signature.image)
+    setRecordsByDate((prev) => {
+      const day = prev[dateKey]
+      const item = day?.[categoryKey]
+      if (!day || !item) return prev
+      for (const old of item.signatures) {
+        if (old.role === role && old.file) URL.revokeObjectURL(old.url)
+      }
+      return {
+        ...prev,
+        [dateKey]: {
+          ...day,
+          [categoryKey]: {
+            ...item,
+            signatures: [
+              ...item.signatures.filter((sig) => sig.role !== role),
+              { role, signerName: signature.signerName, signedAt: signature.signedAt, url, file: signature.image },
+            ],
+          },
+        },
+      }
+    })
+    setSignTarget(null)
+  }
+
   const handleRemoveImage = (dateKey: string, categoryKey: DeliveryCategoryKey, index: number) => {
     setRecordsByDate((prev) => {
       const day = prev[dateKey]
@@ -979,6 +1134,7 @@ export function UserDelivery() {
       imagesCount: Array.isArray(r.images) ? r.images.length : 0,
       concerns: Array.isArray(r.concerns) ? r.concerns : [],
       remarks: r.remarks || "",
+      lines: Array.isArray(r.lines) ? r.lines : [],
       hlaManagerName: String((r as any)?.hlaManagerName || ""),
     }))
   }, [historyRecords])
@@ -991,10 +1147,21 @@ export function UserDelivery() {
     }
   }
 
+  useEffect(() => {
+    const controller = new AbortController()
+    deliveryApi
+      .schedules({}, controller.signal)
+      .then((res) => setSchedules(res.schedules || []))
+      .catch(() => {
+        // Offline or nothing scheduled; logging works the same without it
+      })
+    return () => controller.abort()
+  }, [])
+
   useEffect(() => {
     loadDateFromBackend(selectedDateKey)
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [selectedDateKey])
+  }, [selectedDateKey, syncedCount])
 
   useEffect(() => {
     if (activeTab !== "history") return
@@ -1002,14 +1169,11 @@ export function UserDelivery() {
     const t = setTimeout(async () => {
       setIsHistoryLoading(true)
       try {
-        const qs = new URLSearchParams()
-        if (historyDate) qs.set("dateKey", startOfDayKey(historyDate))
-        if (historySearch.trim()) qs.set("search", historySearch.trim())
-        qs.set("sort", historySort)
-
-        const data = (await apiFetch(`/api/delivery/history?${qs.toString()}`)) as {
-          records?: DeliveryRecordDto[]
-        }
+        const data = await deliveryApi.history<DeliveryCategoryKey>({
+          dateKey: historyDate ? startOfDayKey(historyDate) : undefined,
+          search: historySearch.trim(),
+          sort: historySort,
+        })
         setHistoryRecords(Array.isArray(data.records) ? data.records : [])
       } catch (e: any) {
         toast.error(e?.message || "Failed to load history")
@@ -1039,7 +1203,7 @@ export function UserDelivery() {
 
   const submittedKeys = useMemo(() => {
     if (!dayItems) return [] as DeliveryCategoryKey[]
-    return CATEGORY_OPTIONS.map((c) => c.key).filter((k) => {
+    return DELIVERY_CATEGORY_OPTIONS.map((c) => c.key).filter((k) => {
       const it = dayItems[k]
       if (!it) return false
       return Boolean(
@@ -1048,13 +1212,47 @@ export function UserDelivery() {
         it.statusUpdatedAt ||
         it.remarks.trim() ||
         it.concerns.length ||
+        it.lines.length ||
+        it.signatures.length ||
         it.images.length
       )
     })
   }, [dayItems])
 
+  // Scheduled deliveries for the selected day, settled against the logs loaded
+  // so far. Pending means scheduled but not yet confirmed by the school.
+  const expected = useMemo(() => {
+    const logged = Object.entries(recordsByDate).flatMap(([dateKey, day]) =>
+      Object.values(day)
+        .filter((it) => it.uploadedAt)
+        .map((it) => ({ dateKey, status: it.status, categoryKey: it.key as string }))
+    )
+    return expandSchedules(schedules, selectedDateKey, selectedDateKey)
+      .filter((s) => DELIVERY_CATEGORY_OPTIONS.some((c) => c.key === s.schedule.categoryKey))
+      .map((s) => ({
+        ...s,
+        categoryKey: s.schedule.categoryKey as DeliveryCategoryKey,
+        outcome: scheduleOutcome(
+          s.dateKey,
+          logged.filter((l) => l.categoryKey === s.schedule.categoryKey),
+          initialDateKey
+        ),
+      }))
+  }, [initialDateKey, recordsByDate, schedules, selectedDateKey])
+
+  const upcoming = useMemo(
+    () =>
+      expandSchedules(
+        schedules,
+        format(addDays(today, 1), "yyyy-MM-dd"),
+        format(addDays(today, UPCOMING_DAYS), "yyyy-MM-dd")
+      ),
+    [schedules, today]
+  )
+
   const submittedCount = submittedKeys.length
-  const pendingCount = CATEGORY_OPTIONS.length - submittedCount
+  const pendingCount = expected.filter((e) => scheduledStatus(e.outcome) === "Pending").length
+  const delayedCount = expected.filter((e) => e.outcome === "missed").length
 
   return (
     <motion.div
@@ -1110,7 +1308,7 @@ export function UserDelivery() {
                               setSelectedDate(d)
                               const k = startOfDayKey(d)
                               ensureDateRecord(k)
-                              setActiveCategory(CATEGORY_OPTIONS[0].key)
+                              setActiveCategory(DELIVERY_CATEGORY_OPTIONS[0].key)
                               setIsDatePickerOpen(false)
                             }}
                           />
@@ -1126,7 +1324,7 @@ export function UserDelivery() {
                             <SelectValue placeholder="Select item" />
                           </SelectTrigger>
                           <SelectContent>
-                            {CATEGORY_OPTIONS.map((c) => {
+                            {DELIVERY_CATEGORY_OPTIONS.map((c) => {
                               const status = recordsByDate[selectedDateKey]?.[c.key]?.status ?? "Pending"
                               return (
                                 <SelectItem
@@ -1144,18 +1342,68 @@ export function UserDelivery() {
                     </div>
                   </div>
 
-                  <div className="grid grid-cols-2 gap-2 rounded-2xl border border-emerald-100 bg-emerald-50/60 px-4 py-3 sm:grid-cols-2">
+                  <div className="grid grid-cols-3 gap-2 rounded-2xl border border-emerald-100 bg-emerald-50/60 px-4 py-3">
                     <div>
                       <div className="text-xs font-medium text-emerald-600">Submitted</div>
                       <div className="text-sm font-bold text-emerald-800">{submittedCount}</div>
                     </div>
-                    <div>
+                    <div title="Scheduled for this date and not yet confirmed">
                       <div className="text-xs font-medium text-gray-500">Pending</div>
                       <div className="text-sm font-bold text-gray-700">{pendingCount}</div>
                     </div>
+                    <div title="Scheduled deliveries whose date passed without a confirmed delivery">
+                      <div className="text-xs font-medium text-amber-600">Delayed</div>
+                      <div className="text-sm font-bold text-amber-800">{delayedCount}</div>
+                    </div>
                   </div>
                 </div>
 
+                {expected.length || upcoming.length ? (
+                  <div className="rounded-2xl border border-sky-100 bg-sky-50/40 p-4">
+                    <div className="flex items-center gap-2 text-sm font-semibold text-gray-800">
+                      <CalendarClock className="size-4 text-sky-600" />
+                      Expected deliveries
+                    </div>
+                    {expected.length ? (
+                      <div className="mt-3 flex flex-wrap gap-2">
+                        {expected.map((e) => {
+                          const outcome = SCHEDULE_OUTCOME_META[e.outcome]
+                          return (
+                            <button
+                              key={e.schedule.id}
+                              type="button"
+                              onClick={() => openWizard(e.categoryKey)}
+                              className="rounded-xl border border-gray-100 bg-white px-3 py-2 text-left transition-colors hover:border-emerald-200 hover:bg-emerald-50/50"
+                            >
+                              <div className="flex items-center gap-2">
+                                <span className="text-sm font-semibold leading-tight">{e.schedule.categoryLabel}</span>
+                                <span
+                                  className={`rounded-full border px-2 py-0.5 text-[10px] font-semibold ${outcome.className}`}
+                                >
+                                  {e.outcome === "missed" ? "Delayed" : outcome.label}
+                                </span>
+                              </div>
+                              {e.schedule.supplierName ? (
+                                <div className="mt-0.5 text-xs text-muted-foreground">{e.schedule.supplierName}</div>
+                              ) : null}
+                            </button>
+                          )
+                        })}
+                      </div>
+                    ) : (
+                      <div className="mt-1 text-xs text-muted-foreground">Nothing is scheduled for this date.</div>
+                    )}
+                    {upcoming.length ? (
+                      <div className="mt-3 text-xs text-muted-foreground">
+                        Coming up:{" "}
+                        {upcoming
+                          .map((u) => `${format(parseISO(u.dateKey), "EEE, MMM d")} · ${u.schedule.categoryLabel}`)
+                          .join("  •  ")}
+                      </div>
+                    ) : null}
+                  </div>
+                ) : null}
+
                 {submittedKeys.length ? (
                   <div className="rounded-2xl border bg-white p-4">
                     <div className="flex items-center justify-between gap-3">
@@ -1172,9 +1420,10 @@ export function UserDelivery() {
 
                     <div className="mt-3 flex flex-wrap gap-2">
                       {submittedKeys.map((k) => {
-                        const c = CATEGORY_OPTIONS.find((x) => x.key === k)
+                        const c = DELIVERY_CATEGORY_OPTIONS.find((x) => x.key === k)
                         const it = recordsByDate[selectedDateKey]?.[k]
-                        const meta = statusMeta(it?.status ?? "Pending")
+                        const meta = it ? itemStatusMeta(it) : statusMeta("Pending")
+                        const queued = queuedEntries.find((e) => e.item.categoryKey === k)
                         return (
                           <button
                             key={k}
@@ -1190,6 +1439,7 @@ export function UserDelivery() {
                               {meta.label}
                               {it?.uploadedAt ? ` • ${formatDateTime(it.uploadedAt)}` : ""}
                             </div>
+                            {queued ? <SyncStatusBadge status={queued.status} className="mt-1" /> : null}
                           </button>
                         )
                       })}
@@ -1204,6 +1454,11 @@ export function UserDelivery() {
                   </div>
                 )}
 
+                <SyncQueueList
+                  entries={queuedEntries}
+                  onResolved={() => loadDateFromBackend(selectedDateKey)}
+                />
+
                 <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
                   <Button type="button" className="rounded-xl bg-emerald-600 hover:bg-emerald-500 text-white shadow-sm" onClick={() => openWizard(activeCategory)}>
                     <Plus className="size-4" />
@@ -1236,7 +1491,7 @@ export function UserDelivery() {
                           const item = day?.[wizardCategory]
                           if (!day || !item) return null
 
-                          const meta = statusMeta(item.status)
+                          const meta = itemStatusMeta(item)
                           const StatusIcon = meta.icon
                           const customKey = makeKey(selectedDateKey, wizardCategory)
 
@@ -1273,7 +1528,7 @@ export function UserDelivery() {
                                           <SelectValue placeholder="Select item" />
                                         </SelectTrigger>
                                         <SelectContent>
-                                          {CATEGORY_OPTIONS.map((c) => {
+                                          {DELIVERY_CATEGORY_OPTIONS.map((c) => {
                                             const st =
                                               recordsByDate[selectedDateKey]?.[c.key]?.status ?? "Pending"
                                             return (
@@ -1364,6 +1619,13 @@ export function UserDelivery() {
                                       />
                                     </div>
                                   ) : null}
+
+                                  {item.status === "Delivered" ? (
+                                    <DeliveryLinesEditor
+                                      lines={item.lines}
+                                      onChange={(lines) => updateDeliveryItem(selectedDateKey, wizardCategory, { lines })}
+                                    />
+                                  ) : null}
                                 </div>
                               ) : null}
 
@@ -1608,6 +1870,25 @@ export function UserDelivery() {
                                         <span className="font-medium text-foreground">{item.statusReason}</span>
                                       </div>
                                     ) : null}
+                                    {item.status === "Delivered" && cleanDeliveryLines(item.lines).length ? (
+                                      <div className="mt-1 text-sm text-muted-foreground">
+                                        Items:
+                                        <ul className="mt-1 grid gap-0.5 pl-4">
+                                          {cleanDeliveryLines(item.lines).map((l, i) => (
+                                            <li key={i} className="list-disc">
+                                              <span className="font-medium text-foreground">{l.name || "Unnamed item"}</span>
+                                              {" — "}
+                                              {formatLineQuantity(l)}
+                                              {lineShortage(l) > 0 ? (
+                                                <span className="font-medium text-orange-700">
+                                                  {" "}(short {formatShortage(l)})
+                                                </span>
+                                              ) : null}
+                                            </li>
+                                          ))}
+                                        </ul>
+                                      </div>
+                                    ) : null}
                                     {item.concerns.length ? (
                                       <div className="mt-1 text-sm text-muted-foreground">
                                         Concerns:{" "}
@@ -1627,6 +1908,56 @@ export function UserDelivery() {
                                       <span className="font-medium text-foreground">{item.images.length}</span>
                                     </div>
                                   </div>
+
+                                  {item.status === "Delivered" ? (
+                                    <div className="rounded-2xl border bg-white p-4">
+                                      <div className="text-sm font-semibold">Delivery receipt</div>
+                                      <div className="mt-1 text-xs text-muted-foreground">
+                                        Sign here instead of on paper to acknowledge the delivery.
+                                      </div>
+                                      <div className="mt-3 grid gap-3 sm:grid-cols-2">
+                                        {DELIVERY_SIGNATURE_ROLES.map(({ role, label, optional }) => {
+                                          const sig = item.signatures.find((x) => x.role === role)
+                                          return (
+                                            <div key={role} className="rounded-xl border bg-muted/10 p-3">
+                                              <div className="text-xs text-muted-foreground">
+                                                {label}
+                                                {optional ? " (optional)" : ""}
+                                              </div>
+                                              {sig ? (
+                                                <>
+                                                  <OptimizedImage
+                                                    src={sig.url}
+                                                    alt={`${label} signature`}
+                                                    className="h-20 w-full object-contain"
+                                                    containerClassName="mt-2 h-20 rounded-lg border bg-white"
+                                                  />
+                                                  <div className="mt-2 text-sm font-medium">{sig.signerName}</div>
+                                                  <div className="text-xs text-muted-foreground">
+                                                    {formatDateTime(sig.signedAt)}
+                                                  </div>
+                                                </>
+                                              ) : (
+                                                <div className="mt-2 text-sm text-muted-foreground">Not signed yet</div>
+                                              )}
+                                              <Button
+                                                type="button"
+                                                size="sm"
+                                                variant="outline"
+                                                className="mt-2 w-full rounded-xl"
+                                                onClick={() =>
+                                                  setSignTarget({ dateKey: selectedDateKey, categoryKey: wizardCategory, role })
+                                                }
+                                              >
+                                                <PenLine className="size-4" />
+                                                {sig ? "Sign again" : "Sign"}
+                                              </Button>
+                                            </div>
+                                          )
+                                        })}
+                                      </div>
+                                    </div>
+                                  ) : null}
                                 </div>
                               ) : null}
                             </div>
@@ -1649,6 +1980,14 @@ export function UserDelivery() {
                               toast.error("Please select a status")
                               return
                             }
+                            if (
+                              wizardStep === 2 &&
+                              item.status === "Delivered" &&
+                              cleanDeliveryLines(item.lines).some((l) => !l.name)
+                            ) {
+                              toast.error("Please name each item received")
+                              return
+                            }
                             setWizardStep((s) => (s < 4 ? ((s + 1) as any) : s))
                           }
 
@@ -1664,8 +2003,12 @@ export function UserDelivery() {
                                   uploadedAt: new Date().toISOString(),
                                 })
                               }
-                              await saveActiveItemToBackend(selectedDateKey, wizardCategory)
-                              toast.success("Saved")
+                              const result = await saveActiveItemToBackend(selectedDateKey, wizardCategory)
+                              if (result === "queued") {
+                                toast.info("Saved on this device. It will sync when you are back online.")
+                              } else {
+                                toast.success("Saved")
+                              }
                               closeWizard()
                             } catch (e: any) {
                               toast.error(e?.message || "Failed to save")
@@ -1814,7 +2157,7 @@ export function UserDelivery() {
                         </TableRow>
                       ) : (
                         historyRows.map((r) => {
-                          const meta = statusMeta(r.status)
+                          const meta = itemStatusMeta(r)
                           const StatusIcon = meta.icon
                           return (
                             <TableRow key={`${r.dateKey}-${r.categoryKey}-${r.uploadedAt}`}>
@@ -1928,7 +2271,7 @@ export function UserDelivery() {
                     </div>
                   ) : (
                     historyRows.map((r) => {
-                      const meta = statusMeta(r.status)
+                      const meta = itemStatusMeta(r)
                       const StatusIcon = meta.icon
                       return (
                         <div key={`${r.dateKey}-${r.categoryKey}-${r.uploadedAt}`} className="rounded-xl border bg-white p-4">
@@ -2078,7 +2421,7 @@ export function UserDelivery() {
             const day = viewDetailsTarget ? recordsByDate[viewDetailsTarget.dateKey] : null
             const item = viewDetailsTarget ? day?.[viewDetailsTarget.categoryKey] : null
 
-            const meta = item ? statusMeta(item.status) : statusMeta("Pending")
+            const meta = item ? itemStatusMeta(item) : statusMeta("Pending")
             const StatusIcon = meta.icon
 
             return (
@@ -2167,6 +2510,60 @@ export function UserDelivery() {
                             </div>
                           </div>
 
+                          {item.lines.length ? (
+                            <div className="rounded-2xl border bg-white p-4">
+                              <div className="flex items-center justify-between">
+                                <div className="text-sm font-semibold">Items received</div>
+                                <Badge className="rounded-xl bg-muted text-foreground border">
+                                  {item.lines.length}
+                                </Badge>
+                              </div>
+                              <div className="mt-3 grid gap-2">
+                                {item.lines.map((l, i) => (
+                                  <div
+                                    key={i}
+                                    className="flex items-center justify-between gap-3 rounded-xl border bg-muted/10 px-3 py-2 text-sm"
+                                  >
+                                    <span className="min-w-0 truncate font-medium">{l.name}</span>
+                                    <span className="shrink-0 text-right tabular-nums">
+                                      {formatLineQuantity(l)}
+                                      {lineShortage(l) > 0 ? (
+                                        <span className="block text-xs font-medium text-orange-700">
+                                          Short by {formatShortage(l)}
+                                        </span>
+                                      ) : null}
+                                    </span>
+                                  </div>
+                                ))}
+                              </div>
+                            </div>
+                          ) : null}
+
+                          {item.signatures.length ? (
+                            <div className="rounded-2xl border bg-white p-4">
+                              <div className="text-sm font-semibold">Delivery receipt</div>
+                              <div className="mt-3 grid gap-3 sm:grid-cols-2">
+                                {DELIVERY_SIGNATURE_ROLES.map(({ role, label }) => {
+                                  const sig = item.signatures.find((x) => x.role === role)
+                                  if (!sig) return null
+                                  return (
+                                    <div key={role} className="rounded-xl border bg-muted/10 p-3">
+                                      <div className="text-xs text-muted-foreground">{label}</div>
+                                      <OptimizedImage
+                                        src={sig.url}
+                                        alt={`${label} signature`}
+                                        className="h-20 w-full object-contain"
+                                        containerClassName="mt-2 h-20 rounded-lg border bg-white"
+                                      />
+                                      <div className="mt-2 text-sm font-medium">{sig.signerName}</div>
+                                      <div className="text-xs text-muted-foreground">{formatDateTime(sig.signedAt)}</div>
+                                    </div>
+                                  )
+                                })}
+                              </div>
+                            </div>
+                          ) : null}
+
                           <div className="rounded-2xl border bg-white p-4">
                             <div className="flex items-center justify-between">
                               <div className="text-sm font-semibold">Remarks</div>
@@ -2279,7 +2676,7 @@ export function UserDelivery() {
               onClick={async () => {
                 if (!pendingDeleteTarget) return
                 try {
-                  await deleteItemFromBackend(
+                  await deliveryApi.removeItem(
                     pendingDeleteTarget.dateKey,
                     pendingDeleteTarget.categoryKey
                   )
@@ -2297,7 +2694,7 @@ export function UserDelivery() {
                         [key]: createEmptyItem(
                           key,
                           current?.label ||
-                          CATEGORY_OPTIONS.find((c) => c.key === key)?.label ||
+                          DELIVERY_CATEGORY_OPTIONS.find((c) => c.key === key)?.label ||
                           ""
                         ),
                       },
@@ -2626,6 +3023,20 @@ export function UserDelivery() {
           </div>
         </DialogContent>
       </Dialog>
+
+      {signTarget ? (
+        <SignatureDialog
+          title={DELIVERY_SIGNATURE_ROLES.find((r) => r.role === signTarget.role)?.label || "Signature"}
+          description={`${recordsByDate[signTarget.dateKey]?.[signTarget.categoryKey]?.label || ""} • ${signTarget.dateKey}`}
+          defaultName={
+            recordsByDate[signTarget.dateKey]?.[signTarget.categoryKey]?.signatures.find(
+              (x) => x.role === signTarget.role
+            )?.signerName
+          }
+          onCancel={() => setSignTarget(null)}
+          onSave={handleSignatureSaved}
+        />
+      ) : null}
     </motion.div>
   )
 }
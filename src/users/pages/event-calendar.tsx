@@ -1,4 +1,4 @@
-import { useCallback, useEffect, useMemo, useState } from "react"
+import { useCallback, useEffect, useMemo, useRef, useState } from "react"
 import {
   addDays,
   addMonths,
@@ -21,86 +21,15 @@ import {
   PopoverContent,
   PopoverTrigger,
 } from "@/components/ui/popover"
+import { eventsApi, getApiBaseUrl, resolveApiUrl, type CalendarEventDto } from "@/lib/api"
+import { parseDateParam, setSearchParams, useSearchParam } from "@/lib/router"
 
-type AuthState = {
-  token: string
-  user: {
-    id: string
-    username: string
-    email: string
-    name: string
-    role: string
-  }
-}
-
-type EventAttachment = {
-  url: string
-  originalName: string
-  filename: string
-  mimeType: string
-  size: number
-}
-
-type CalendarEvent = {
-  _id?: string
-  id?: string
-  title: string
-  description?: string
-  dateKey: string
-  startTime: string
-  endTime: string
-  status?: "Scheduled" | "Cancelled"
-  cancelReason?: string
-  cancelledAt?: string
-  attachment?: EventAttachment
-}
-
-function getApiBaseUrl() {
-  const envAny = (import.meta as any)?.env as any
-  const fromEnv = (envAny?.VITE_API_BASE_URL || envAny?.VITE_API_URL) as string | undefined
-  return (fromEnv || "http://localhost:8000").replace(/\/+$/, "")
-}
-
-function getAuth(): AuthState | null {
-  try {
-    const raw = localStorage.getItem("bhss_auth")
-    if (!raw) return null
-    return JSON.parse(raw) as AuthState
-  } catch {
-    return null
-  }
-}
-
-async function apiFetch(path: string, init?: RequestInit) {
-  const auth = getAuth()
-  const token = auth?.token
-  if (!token) throw new Error("Not authenticated")
-
-  const res = await fetch(`${getApiBaseUrl()}${path}`, {
-    ...init,
-    headers: {
-      Authorization: `Bearer ${token}`,
-      ...(init?.headers || {}),
-    },
-  })
-
-  const data = await res.json().catch(() => ({}))
-  if (!res.ok) throw new Error((data as any)?.message || "Request failed")
-  return data
-}
+type CalendarEvent = CalendarEventDto
 
 function asKey(d: Date) {
   return format(d, "yyyy-MM-dd")
 }
 
-function resolveAssetUrl(url?: string) {
-  const u = String(url || "").trim()
-  if (!u) return ""
-  if (u.startsWith("http://") || u.startsWith("https://")) return u
-  const base = getApiBaseUrl()
-  return `${base}${u.startsWith("/") ? "" : "/"}${u}`
-}
-
 export function UserEventCalendar() {
   const [month, setMonth] = useState(() => startOfMonth(new Date()))
   const [events, setEvents] = useState<CalendarEvent[]>([])
@@ -108,6 +37,9 @@ export function UserEventCalendar() {
   const [error, setError] = useState<string | null>(null)
 
   const [pendingOpenEventId, setPendingOpenEventId] = useState<string | null>(null)
+  const [eventIdParam] = useSearchParam("id")
+  const [dateParam] = useSearchParam("date")
+  const handledEventIdRef = useRef<string | null>(null)
 
   const [openDayKey, setOpenDayKey] = useState<string | null>(null)
 
@@ -155,8 +87,8 @@ export function UserEventCalendar() {
     setIsLoading(true)
     setError(null)
     try {
-      const data = (await apiFetch(`/api/events?from=${encodeURIComponent(range.from)}&to=${encodeURIComponent(range.to)}`)) as any
-      const list = Array.isArray(data?.events) ? (data.events as CalendarEvent[]) : []
+      const data = await eventsApi.list({ from: range.from, to: range.to })
+      const list = Array.isArray(data.events) ? data.events : []
       setEvents(list)
     } catch (e: any) {
       setError(e?.message || "Failed to load events")
@@ -170,32 +102,22 @@ export function UserEventCalendar() {
     load()
   }, [load])
 
+  // Deep links (?id=…&date=…) open the event once its month has loaded;
+  // dropping the id (back button) closes it again.
   useEffect(() => {
-    try {
-      const raw = localStorage.getItem("bhss_notif_intent")
-      if (!raw) return
-      const parsed = JSON.parse(raw) as any
-      if (String(parsed?.kind || "") !== "event") return
-
-      const sourceId = String(parsed?.sourceId || "").trim()
-      const dateKey = String(parsed?.dateKey || "").trim()
-      if (!sourceId) return
-
-      localStorage.removeItem("bhss_notif_intent")
-      setPendingOpenEventId(sourceId)
-
-      if (dateKey) {
-        try {
-          const d = new Date(`${dateKey}T00:00:00`)
-          if (!Number.isNaN(d.getTime())) setMonth(startOfMonth(d))
-        } catch {
-          // ignore
-        }
-      }
-    } catch {
-      // ignore
+    const id = String(eventIdParam || "").trim()
+    if (!id) {
+      handledEventIdRef.current = null
+      setDetailsOpen(false)
+      return
     }
-  }, [])
+    if (handledEventIdRef.current === id) return
+    handledEventIdRef.current = id
+
+    const d = parseDateParam(dateParam)
+    if (d) setMonth(startOfMonth(d))
+    setPendingOpenEventId(id)
+  }, [eventIdParam, dateParam])
 
   useEffect(() => {
     if (!pendingOpenEventId) return
@@ -249,6 +171,10 @@ export function UserEventCalendar() {
     setOpenDayKey(null)
 
     const eventId = String(e._id || e.id || "").trim()
+    if (eventId && eventId !== handledEventIdRef.current) {
+      handledEventIdRef.current = eventId
+      setSearchParams({ id: eventId, date: e.dateKey || null })
+    }
     if (!eventId) {
       setSelectedEvent(e)
       setDetailsOpen(true)
@@ -256,8 +182,8 @@ export function UserEventCalendar() {
     }
 
     try {
-      const data = (await apiFetch(`/api/events/${encodeURIComponent(eventId)}`)) as any
-      const ev = (data?.event || null) as CalendarEvent | null
+      const data = await eventsApi.get(eventId)
+      const ev = data.event || null
       setSelectedEvent(ev || e)
     } catch {
       setSelectedEvent(e)
@@ -266,6 +192,12 @@ export function UserEventCalendar() {
     }
   }
 
+  function closeDetails() {
+    setDetailsOpen(false)
+    setSelectedEvent(null)
+    setSearchParams({ id: null, date: null })
+  }
+
   const weekdays = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"]
 
   return (
@@ -515,8 +447,8 @@ export function UserEventCalendar() {
       <Dialog
         open={detailsOpen}
         onOpenChange={(v) => {
-          setDetailsOpen(v)
-          if (!v) setSelectedEvent(null)
+          if (v) setDetailsOpen(true)
+          else closeDetails()
         }}
       >
         <DialogContent className="w-[calc(100vw-2rem)] max-w-md rounded-2xl border border-gray-100 shadow-xl p-0 overflow-hidden">
@@ -562,7 +494,7 @@ export function UserEventCalendar() {
 
               {selectedEvent?.attachment?.url ? (
                 <a
-                  href={resolveAssetUrl(selectedEvent.attachment.url)}
+                  href={resolveApiUrl(selectedEvent.attachment.url)}
                   target="_blank"
                   rel="noreferrer"
                   className="mt-4 inline-flex items-center gap-2 rounded-lg border border-emerald-200 bg-emerald-50 px-3 py-1.5 text-xs font-semibold text-emerald-600 hover:bg-emerald-100 transition-colors"
@@ -577,7 +509,7 @@ export function UserEventCalendar() {
               <Button
                 variant="outline"
                 className="rounded-xl h-9 px-4 text-sm border-gray-200 text-gray-500 hover:border-gray-300"
-                onClick={() => setDetailsOpen(false)}
+                onClick={closeDetails}
               >
                 Close
               </Button>
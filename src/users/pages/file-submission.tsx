@@ -38,6 +38,9 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog"
+import { fileSubmissionsApi, getApiBaseUrl, resolveApiUrl, type FileSubmissionCommentDto } from "@/lib/api"
+import { formatTicketTime } from "@/lib/delivery-concerns"
+import { useDateSearchParam, useSearchParam } from "@/lib/router"
 import { cn } from "@/lib/utils"
 
 type AuthState = {
@@ -78,6 +81,7 @@ type UploadedFile = {
   status: "pending" | "uploaded" | "rejected"
   folder: FolderType
   url?: string
+  comments?: FileSubmissionCommentDto[]
 }
 
 const ALLOWED_IMAGE_TYPES = ["image/jpeg", "image/png"] as const
@@ -121,12 +125,6 @@ function getAuth(): AuthState | null {
   }
 }
 
-function getApiBaseUrl() {
-  const envAny = (import.meta as any)?.env as any
-  const fromEnv = (envAny?.VITE_API_BASE_URL || envAny?.VITE_API_URL) as string | undefined
-  return (fromEnv || "http://localhost:8000").replace(/\/+$/, "")
-}
-
 function formatFileSize(bytes: number): string {
   if (bytes === 0) return "0 B"
   const k = 1024
@@ -171,7 +169,10 @@ export function FileSubmission() {
   const [isCompressing, setIsCompressing] = useState(false)
   const [compressText, setCompressText] = useState("")
 
-  const [currentFolder, setCurrentFolder] = useState<FolderType | null>(null)
+  // Folder and date live in the URL so back/forward leaves a folder and links can be shared
+  const [folderParam, setFolderParam] = useSearchParam("folder")
+  const currentFolder = FOLDERS.find((f) => f === folderParam) ?? null
+  const setCurrentFolder = (folder: FolderType | null) => setFolderParam(folder, { replace: false })
   const [searchQuery, setSearchQuery] = useState("")
   const [files, setFiles] = useState<File[]>([])
   const [description, setDescription] = useState("")
@@ -181,25 +182,14 @@ export function FileSubmission() {
   const [isUploadDialogOpen, setIsUploadDialogOpen] = useState(false)
   const [viewMode, setViewMode] = useState<"grid" | "list">("grid")
   const [deleteFileId, setDeleteFileId] = useState<string | null>(null)
-  const [selectedDate, setSelectedDate] = useState<Date>(new Date())
+  const [today] = useState(() => new Date())
+  const [dateParam, setSelectedDate] = useDateSearchParam("date")
+  const selectedDate = dateParam ?? today
   const [isLoading, setIsLoading] = useState(false)
   const [folderCounts, setFolderCounts] = useState<Record<string, number>>({})
   const [convertingPdf, setConvertingPdf] = useState<{ show: boolean; fileName: string }>({ show: false, fileName: "" })
   const convertTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
 
-  const apiFetch = async (url: string, options?: RequestInit) => {
-    const res = await fetch(`${getApiBaseUrl()}${url}`, {
-      ...options,
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${auth?.token}`,
-        ...options?.headers,
-      },
-    })
-    if (!res.ok) throw new Error(await res.text())
-    return res.json()
-  }
-
   // Socket: listen for PDF ready event to dismiss conversion modal
   useEffect(() => {
     let socket: any = null
@@ -236,12 +226,11 @@ export function FileSubmission() {
   const fetchFiles = async () => {
     setIsLoading(true)
     try {
-      const dateStr = format(selectedDate, "yyyy-MM-dd")
-      const folderParam = currentFolder ? `&folder=${encodeURIComponent(currentFolder)}` : ""
-      const data = await apiFetch(
-        `/api/file-submissions?date=${dateStr}${folderParam}`
-      )
-      setUploadedFiles(data.files || [])
+      const data = await fileSubmissionsApi.list({
+        date: format(selectedDate, "yyyy-MM-dd"),
+        folder: currentFolder,
+      })
+      setUploadedFiles((data.files || []) as UploadedFile[])
     } catch (err) {
       sileo.error({ title: "Failed to fetch files" })
     } finally {
@@ -252,7 +241,7 @@ export function FileSubmission() {
   const fetchFolderCounts = async () => {
     try {
       const dateStr = format(selectedDate, "yyyy-MM-dd")
-      const data = await apiFetch(`/api/file-submissions/stats/counts?date=${dateStr}`)
+      const data = await fileSubmissionsApi.folderCounts(dateStr)
       setFolderCounts(data.folderCounts || {})
     } catch (err) {
       console.error("Failed to fetch folder counts", err)
@@ -280,24 +269,12 @@ export function FileSubmission() {
 
     setIsUploading(true)
     try {
-      const formData = new FormData()
-      // Fields must be appended BEFORE files so multer's fileFilter can read them
-      formData.append("folder", currentFolder)
-      formData.append("description", description)
-      formData.append("uploadDate", format(selectedDate, "yyyy-MM-dd"))
-      files.forEach((file) => formData.append("files", file))
-
-      const res = await fetch(`${getApiBaseUrl()}/api/file-submissions/upload`, {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${auth?.token}`,
-        },
-        body: formData,
+      const data = await fileSubmissionsApi.upload({
+        folder: currentFolder,
+        description,
+        uploadDate: format(selectedDate, "yyyy-MM-dd"),
+        files,
       })
-
-      if (!res.ok) throw new Error(await res.text())
-
-      const data = await res.json()
       sileo.success({ title: data.message || "Files uploaded successfully" })
       setFiles([])
       setDescription("")
@@ -323,7 +300,7 @@ export function FileSubmission() {
 
   const handleDelete = async (fileId: string) => {
     try {
-      await apiFetch(`/api/file-submissions/${fileId}`, { method: "DELETE" })
+      await fileSubmissionsApi.remove(fileId)
       setDeleteFileId(null)
       sileo.success({ title: "File deleted successfully" })
       fetchFiles()
@@ -335,12 +312,7 @@ export function FileSubmission() {
 
   const handleDownload = async (file: UploadedFile) => {
     try {
-      const res = await fetch(`${getApiBaseUrl()}/api/file-submissions/download/${file.id}`, {
-        headers: { Authorization: `Bearer ${auth?.token}` },
-      })
-      if (!res.ok) throw new Error("Download failed")
-
-      const blob = await res.blob()
+      const blob = await fileSubmissionsApi.download(file.id)
       const url = window.URL.createObjectURL(blob)
       const a = document.createElement("a")
       a.href = url
@@ -721,7 +693,7 @@ export function FileSubmission() {
                   {isImage ? (
                     file.url ? (
                       <img
-                        src={`${getApiBaseUrl()}${file.url}`}
+                        src={resolveApiUrl(file.url)}
                         alt={file.name}
                         className="absolute inset-0 h-full w-full object-cover"
                         loading="lazy"
@@ -1009,7 +981,7 @@ export function FileSubmission() {
               {viewFile?.type?.startsWith("image/") && viewFile?.url ? (
                 <div className="size-16 shrink-0 overflow-hidden rounded-xl bg-white shadow-sm">
                   <img
-                    src={`${getApiBaseUrl()}${viewFile.url}`}
+                    src={resolveApiUrl(viewFile.url)}
                     alt={viewFile.name}
                     className="h-full w-full object-cover"
                     loading="lazy"
@@ -1065,6 +1037,21 @@ export function FileSubmission() {
                   </span>
                 </div>
               </div>
+              {viewFile?.comments?.length ? (
+                <div className="rounded-xl border bg-slate-50 p-3">
+                  <p className="text-xs text-muted-foreground mb-1">Reviewer comments</p>
+                  <div className="space-y-2">
+                    {viewFile.comments.map((c) => (
+                      <div key={c.id} className="text-sm">
+                        <p className="text-xs text-muted-foreground">
+                          {c.authorName || "Reviewer"} · {formatTicketTime(c.createdAt)}
+                        </p>
+                        <p className="whitespace-pre-wrap break-words">{c.body}</p>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ) : null}
             </div>
           </div>
           <div className="flex justify-end gap-2">
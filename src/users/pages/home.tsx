@@ -14,6 +14,13 @@ import { DashboardAnnouncements } from "@/admin/components/dashboard-announcemen
 import { Button } from "@/components/ui/button"
 import { Calendar as CalendarPicker } from "@/components/ui/calendar"
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import {
+  announcementsApi,
+  attendanceApi,
+  deliveryApi,
+  type AttendanceRecordDto,
+  type DeliveryRecordDto,
+} from "@/lib/api"
 
 type AuthState = {
   token: string
@@ -28,34 +35,6 @@ type AuthState = {
   }
 }
 
-type AttendanceRecordDto = {
-  _id?: string
-  id?: string
-  dateKey?: string
-  grade?: string
-  present?: number
-  absent?: number
-  notes?: string
-  createdAt?: string
-  updatedAt?: string
-}
-
-type DeliveryRecordDto = {
-  _id?: string
-  id?: string
-  dateKey?: string
-  categoryKey?: string
-  categoryLabel?: string
-  status?: "Pending" | "Delivered" | "Delayed" | "Cancelled"
-  uploadedAt?: string
-  updatedAt?: string
-}
-
-type AnnouncementDto = {
-  _id?: string
-  id?: string
-}
-
 type DashboardKpi = {
   title: string
   value: string
@@ -72,12 +51,6 @@ type ActivityItem = {
   variant: "success" | "warning" | "info"
 }
 
-function getApiBaseUrl() {
-  const envAny = (import.meta as any)?.env as any
-  const fromEnv = (envAny?.VITE_API_BASE_URL || envAny?.VITE_API_URL) as string | undefined
-  return (fromEnv || "http://localhost:8000").replace(/\/+$/, "")
-}
-
 function getAuth(): AuthState | null {
   try {
     const raw = localStorage.getItem("bhss_auth")
@@ -88,25 +61,6 @@ function getAuth(): AuthState | null {
   }
 }
 
-async function apiFetch(path: string, init?: RequestInit) {
-  const auth = getAuth()
-  const token = auth?.token
-  if (!token) throw new Error("Not authenticated")
-
-  const res = await fetch(`${getApiBaseUrl()}${path}`, {
-    ...init,
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${token}`,
-      ...(init?.headers || {}),
-    },
-  })
-
-  const data = await res.json().catch(() => ({}))
-  if (!res.ok) throw new Error((data as any)?.message || "Request failed")
-  return data
-}
-
 function safeKey(d: Date) {
   return format(d, "yyyy-MM-dd")
 }
@@ -158,20 +112,16 @@ export function UserHome() {
       setIsLoading(true)
       try {
         const [attRes, delRes, annRes] = await Promise.all([
-          apiFetch(
-            `/api/attendance/history?from=${encodeURIComponent(selectedDateKey)}&to=${encodeURIComponent(selectedDateKey)}&sort=newest`
-          ),
-          apiFetch(`/api/delivery/history?dateKey=${encodeURIComponent(selectedDateKey)}&sort=newest`),
-          apiFetch(`/api/announcements`),
+          attendanceApi.history({ from: selectedDateKey, to: selectedDateKey, sort: "newest" }),
+          deliveryApi.history({ dateKey: selectedDateKey, sort: "newest" }),
+          announcementsApi.list(),
         ])
 
         if (cancelled) return
 
-        const att = Array.isArray((attRes as any)?.records) ? ((attRes as any).records as any[]) : []
-        const del = Array.isArray((delRes as any)?.records) ? ((delRes as any).records as any[]) : []
-        const ann = Array.isArray((annRes as any)?.announcements)
-          ? (((annRes as any).announcements as any[]) as AnnouncementDto[])
-          : []
+        const att = Array.isArray(attRes.records) ? attRes.records : []
+        const del = Array.isArray(delRes.records) ? delRes.records : []
+        const ann = Array.isArray(annRes.announcements) ? annRes.announcements : []
 
         setAttendance(att)
         setDeliveries(del)
@@ -0,0 +1,402 @@
+import { useEffect, useMemo, useState } from "react"
+import { motion } from "motion/react"
+import { format } from "date-fns"
+import { AlertTriangle, Boxes, Loader2, PackageCheck, Save } from "lucide-react"
+import { toast } from "sonner"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import {
+  deliveryApi,
+  getErrorMessage,
+  inventoryApi,
+  isAbortError,
+  type DeliveryRecordDto,
+  type InventoryItemKey,
+  type InventoryMovementDto,
+} from "@/lib/api"
+import {
+  averageDailyConsumption,
+  balancesByItem,
+  daysOfStock,
+  INVENTORY_ITEMS,
+  inventoryItem,
+  itemForDeliveryKey,
+  MOVEMENT_KIND_LABELS,
+  pendingReceipts,
+  STOCK_LEVEL_META,
+  stockLevel,
+  withRunningBalance,
+} from "@/lib/inventory"
+
+type EntryMode = "consumption" | "adjustment"
+
+const LEDGER_PAGE_SIZE = 50
+
+export function UserInventory() {
+  const [loaded, setLoaded] = useState<{
+    done: boolean
+    movements: InventoryMovementDto[]
+    deliveries: DeliveryRecordDto[]
+  }>({ done: false, movements: [], deliveries: [] })
+
+  const [mode, setMode] = useState<EntryMode>("consumption")
+  const [itemKey, setItemKey] = useState<InventoryItemKey>("rice")
+  const [dateKey, setDateKey] = useState(() => format(new Date(), "yyyy-MM-dd"))
+  const [quantity, setQuantity] = useState("")
+  const [note, setNote] = useState("")
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const [receiptQty, setReceiptQty] = useState<Record<string, string>>({})
+  const [receivingId, setReceivingId] = useState<string | null>(null)
+  const [ledgerItem, setLedgerItem] = useState<InventoryItemKey | "all">("all")
+
+  useEffect(() => {
+    const controller = new AbortController()
+    Promise.all([
+      inventoryApi.ledger(controller.signal),
+      deliveryApi.history({ sort: "newest" }, controller.signal),
+    ])
+      .then(([ledger, history]) =>
+        setLoaded({ done: true, movements: ledger.movements || [], deliveries: history.records || [] })
+      )
+      .catch((e) => {
+        if (isAbortError(e)) return
+        toast.error(getErrorMessage(e, "Failed to load inventory"))
+        setLoaded({ done: true, movements: [], deliveries: [] })
+      })
+    return () => controller.abort()
+  }, [])
+
+  const { movements } = loaded
+  const balances = useMemo(() => balancesByItem(movements), [movements])
+  const stock = useMemo(
+    () =>
+      INVENTORY_ITEMS.map((item) => {
+        const balance = balances[item.key] || 0
+        const avgDaily = averageDailyConsumption(movements, item.key)
+        return { item, balance, avgDaily, level: stockLevel(item, balance, avgDaily), days: daysOfStock(balance, avgDaily) }
+      }),
+    [balances, movements]
+  )
+  const alerts = stock.filter((s) => s.level !== "ok")
+
+  const receipts = useMemo(() => pendingReceipts(loaded.deliveries, movements), [loaded.deliveries, movements])
+
+  const ledger = useMemo(() => {
+    const rows = withRunningBalance(movements).reverse()
+    return ledgerItem === "all" ? rows : rows.filter((r) => r.itemKey === ledgerItem)
+  }, [ledgerItem, movements])
+
+  const addMovement = (movement: InventoryMovementDto | undefined) => {
+    if (!movement) return
+    setLoaded((prev) => ({ ...prev, movements: [...prev.movements, movement] }))
+  }
+
+  const submitEntry = async () => {
+    const qty = Number(quantity)
+    const item = inventoryItem(itemKey)
+    if (!Number.isFinite(qty) || qty === 0 || (mode === "consumption" && qty < 0)) {
+      toast.error("Enter a valid quantity")
+      return
+    }
+    if (mode === "consumption" && qty > (balances[itemKey] || 0)) {
+      toast.error(`Only ${balances[itemKey] || 0} ${item.unit} of ${item.label} on hand; record a stock count first`)
+      return
+    }
+    setIsSubmitting(true)
+    try {
+      const input = { dateKey, itemKey, quantity: qty, note: note.trim() }
+      const res =
+        mode === "consumption" ? await inventoryApi.recordConsumption(input) : await inventoryApi.recordAdjustment(input)
+      addMovement(res.movement)
+      toast.success(mode === "consumption" ? "Consumption recorded" : "Stock count recorded")
+      setQuantity("")
+      setNote("")
+    } catch (e) {
+      toast.error(getErrorMessage(e, "Failed to save entry"))
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const receive = async (record: DeliveryRecordDto) => {
+    const id = String(record.id || record._id || "")
+    const item = itemForDeliveryKey(record.categoryKey)
+    const qty = Number(receiptQty[id])
+    if (!item || !Number.isFinite(qty) || qty <= 0) {
+      toast.error("Enter the quantity that arrived")
+      return
+    }
+    setReceivingId(id)
+    try {
+      const res = await inventoryApi.receive({ deliveryRecordId: id, dateKey: record.dateKey, itemKey: item.key, quantity: qty })
+      addMovement(res.movement)
+      toast.success(`${qty} ${item.unit} of ${item.label} added to stock`)
+    } catch (e) {
+      toast.error(getErrorMessage(e, "Failed to receive delivery"))
+    } finally {
+      setReceivingId(null)
+    }
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 8 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.2 }}
+      className="min-w-0 overflow-x-hidden space-y-5 p-6 bg-gray-50/50 min-h-screen"
+    >
+      <div>
+        <p className="text-xs font-semibold text-gray-400 uppercase tracking-widest mb-0.5">Kitchen</p>
+        <h1 className="text-2xl font-bold tracking-tight text-gray-900">Inventory</h1>
+        <p className="text-sm text-gray-400 mt-0.5">
+          Stock on hand from received deliveries, less what the kitchen has used.
+        </p>
+      </div>
+
+      {alerts.length ? (
+        <div className="flex items-start gap-3 rounded-2xl border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+          <AlertTriangle className="mt-0.5 size-4 shrink-0" />
+          <div>
+            <p className="font-semibold">Stock warning</p>
+            <p>
+              {alerts
+                .map((a) =>
+                  a.level === "out"
+                    ? `${a.item.label} is out of stock`
+                    : `${a.item.label} is running low (${a.balance} ${a.item.unit}${a.days !== null ? `, about ${a.days} day(s) left` : ""})`
+                )
+                .join(" · ")}
+            </p>
+          </div>
+        </div>
+      ) : null}
+
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        {stock.map(({ item, balance, level, days, avgDaily }) => (
+          <div key={item.key} className="rounded-2xl border border-gray-100 bg-white p-4 shadow-sm">
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-sm font-semibold text-gray-600">{item.label}</span>
+              <span
+                className={`inline-flex items-center rounded-full border px-2.5 py-0.5 text-[11px] font-semibold ${STOCK_LEVEL_META[level].className}`}
+              >
+                {STOCK_LEVEL_META[level].label}
+              </span>
+            </div>
+            <div className="mt-2 text-3xl font-bold tracking-tight text-gray-900">
+              {loaded.done ? balance.toLocaleString() : "—"}
+              <span className="ml-1 text-sm font-medium text-gray-400">{item.unit}</span>
+            </div>
+            <p className="mt-1 text-xs text-gray-400">
+              {avgDaily > 0 ? `Using ~${avgDaily.toFixed(1)}/day` : "No recent consumption"}
+              {days !== null ? ` · ${days} day(s) left` : ""}
+            </p>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid gap-5 lg:grid-cols-2">
+        <div className="rounded-2xl border border-gray-100 bg-white p-5 shadow-sm">
+          <h2 className="flex items-center gap-2 text-sm font-bold text-gray-800">
+            <PackageCheck className="size-4 text-emerald-600" />
+            Deliveries to receive ({receipts.length})
+          </h2>
+          <p className="mt-0.5 text-xs text-gray-400">
+            Deliveries marked Delivered add to stock once you enter what actually arrived.
+          </p>
+          <div className="mt-3 space-y-2">
+            {!loaded.done ? (
+              <div className="flex items-center gap-2 text-sm text-gray-400">
+                <Loader2 className="size-4 animate-spin" /> Loading…
+              </div>
+            ) : receipts.length === 0 ? (
+              <p className="text-sm text-gray-400">Every delivered item has been received.</p>
+            ) : (
+              receipts.map((r) => {
+                const id = String(r.id || r._id || "")
+                const item = itemForDeliveryKey(r.categoryKey)
+                return (
+                  <div key={id} className="flex flex-wrap items-center gap-2 rounded-xl border border-gray-100 px-3 py-2">
+                    <div className="min-w-0 flex-1">
+                      <div className="text-sm font-medium text-gray-700">{r.categoryLabel}</div>
+                      <div className="text-xs text-gray-400">{format(new Date(`${r.dateKey}T00:00:00`), "EEE, MMM d, yyyy")}</div>
+                    </div>
+                    <Input
+                      inputMode="decimal"
+                      value={receiptQty[id] ?? ""}
+                      onChange={(e) => setReceiptQty((prev) => ({ ...prev, [id]: e.target.value }))}
+                      placeholder={item?.unit || "Qty"}
+                      className="h-9 w-[110px] rounded-xl"
+                    />
+                    <Button
+                      type="button"
+                      size="sm"
+                      className="rounded-xl bg-emerald-600 text-white hover:bg-emerald-700"
+                      disabled={receivingId === id}
+                      onClick={() => receive(r)}
+                    >
+                      {receivingId === id ? <Loader2 className="mr-1 size-3.5 animate-spin" /> : null}
+                      Receive
+                    </Button>
+                  </div>
+                )
+              })
+            )}
+          </div>
+        </div>
+
+        <div className="rounded-2xl border border-gray-100 bg-white p-5 shadow-sm">
+          <h2 className="flex items-center gap-2 text-sm font-bold text-gray-800">
+            <Boxes className="size-4 text-emerald-600" />
+            Record stock movement
+          </h2>
+          <div className="mt-3 grid gap-3 sm:grid-cols-2">
+            <div className="grid gap-1.5">
+              <Label className="text-xs text-gray-500">Entry</Label>
+              <Select value={mode} onValueChange={(v) => setMode(v as EntryMode)}>
+                <SelectTrigger className="h-9 rounded-xl">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="consumption">Daily consumption</SelectItem>
+                  <SelectItem value="adjustment">Stock count correction</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-1.5">
+              <Label className="text-xs text-gray-500">Item</Label>
+              <Select value={itemKey} onValueChange={(v) => setItemKey(v as InventoryItemKey)}>
+                <SelectTrigger className="h-9 rounded-xl">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {INVENTORY_ITEMS.map((i) => (
+                    <SelectItem key={i.key} value={i.key}>
+                      {i.label} ({i.unit})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-1.5">
+              <Label className="text-xs text-gray-500">Date</Label>
+              <Input type="date" value={dateKey} onChange={(e) => setDateKey(e.target.value)} className="h-9 rounded-xl" />
+            </div>
+            <div className="grid gap-1.5">
+              <Label className="text-xs text-gray-500">
+                {mode === "consumption" ? "Quantity used" : "Difference (e.g. -2 or 3)"}
+              </Label>
+              <Input
+                inputMode="decimal"
+                value={quantity}
+                onChange={(e) => setQuantity(e.target.value)}
+                placeholder={inventoryItem(itemKey).unit}
+                className="h-9 rounded-xl"
+              />
+            </div>
+            <div className="grid gap-1.5 sm:col-span-2">
+              <Label className="text-xs text-gray-500">Note</Label>
+              <Input value={note} onChange={(e) => setNote(e.target.value)} placeholder="Optional" className="h-9 rounded-xl" />
+            </div>
+          </div>
+          <div className="mt-3 flex items-center justify-between gap-2">
+            <span className="text-xs text-gray-400">
+              On hand: {balances[itemKey] || 0} {inventoryItem(itemKey).unit}
+            </span>
+            <Button
+              type="button"
+              className="rounded-xl bg-emerald-600 text-white hover:bg-emerald-700"
+              disabled={isSubmitting || !quantity.trim() || !dateKey}
+              onClick={submitEntry}
+            >
+              {isSubmitting ? <Loader2 className="mr-1 size-4 animate-spin" /> : <Save className="mr-1 size-4" />}
+              Save
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <div className="rounded-2xl border border-gray-100 bg-white p-5 shadow-sm">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <h2 className="text-sm font-bold text-gray-800">Ledger</h2>
+          <Select value={ledgerItem} onValueChange={(v) => setLedgerItem(v as InventoryItemKey | "all")}>
+            <SelectTrigger className="h-8 w-[160px] rounded-xl text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All items</SelectItem>
+              {INVENTORY_ITEMS.map((i) => (
+                <SelectItem key={i.key} value={i.key}>
+                  {i.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="mt-3 overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Item</TableHead>
+                <TableHead>Entry</TableHead>
+                <TableHead className="text-right">Change</TableHead>
+                <TableHead className="text-right">Balance</TableHead>
+                <TableHead>Note</TableHead>
+                <TableHead>By</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {ledger.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="py-8 text-center text-gray-400">
+                    {loaded.done ? "No stock movements yet." : "Loading…"}
+                  </TableCell>
+                </TableRow>
+              ) : (
+                ledger.slice(0, LEDGER_PAGE_SIZE).map((m) => {
+                  const item = inventoryItem(m.itemKey)
+                  return (
+                    <TableRow key={m.id}>
+                      <TableCell className="whitespace-nowrap">{format(new Date(`${m.dateKey}T00:00:00`), "MMM d, yyyy")}</TableCell>
+                      <TableCell>{item.label}</TableCell>
+                      <TableCell>{MOVEMENT_KIND_LABELS[m.kind]}</TableCell>
+                      <TableCell className={`text-right tabular-nums ${m.change < 0 ? "text-red-600" : "text-emerald-700"}`}>
+                        {m.change > 0 ? `+${m.change}` : m.change}
+                      </TableCell>
+                      <TableCell className={`text-right tabular-nums font-semibold ${m.balance <= 0 ? "text-red-600" : ""}`}>
+                        {m.balance} <span className="text-xs font-normal text-gray-400">{item.unit}</span>
+                      </TableCell>
+                      <TableCell className="max-w-[220px] truncate text-gray-500">{m.note || ""}</TableCell>
+                      <TableCell className="text-gray-500">{m.createdByName || ""}</TableCell>
+                    </TableRow>
+                  )
+                })
+              )}
+            </TableBody>
+          </Table>
+          {ledger.length > LEDGER_PAGE_SIZE ? (
+            <p className="mt-2 text-xs text-gray-400">Showing the latest {LEDGER_PAGE_SIZE} of {ledger.length} entries.</p>
+          ) : null}
+        </div>
+      </div>
+    </motion.div>
+  )
+}
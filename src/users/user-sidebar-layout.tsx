@@ -14,6 +14,7 @@ import {
   Mail,
   Settings,
   FileText,
+  Boxes,
 } from "lucide-react"
 import { motion, AnimatePresence } from "motion/react"
 import { io, type Socket } from "socket.io-client"
@@ -44,6 +45,14 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { SyncQueueIndicator } from "@/components/sync-queue-status"
+import { UpdateAvailablePrompt } from "@/components/update-available-prompt"
+import { announcementsApi, eventsApi, getApiBaseUrl, resolveApiUrl, usersApi, type AccessRole } from "@/lib/api"
+import { permissionsFor, type Feature } from "@/lib/permissions"
+import { navigate, useLocation } from "@/lib/router"
+import { links, USER_ROUTES } from "@/lib/routes"
+import { useSessionStore } from "@/stores/session-store"
+import { useSyncQueueStore } from "@/stores/sync-queue-store"
 
 import { UserHome } from "./pages/home"
 import { UserDelivery } from "./pages/delivery"
@@ -54,6 +63,7 @@ import { UserEventCalendar } from "./pages/event-calendar"
 import { UserInstructions } from "./pages/instructions"
 import { FileSubmission } from "@/users/pages/file-submission"
 import { UserActivities } from "@/users/pages/activities"
+import { UserInventory } from "@/users/pages/inventory"
 
 type UserSidebarLayoutProps = {
   userEmail?: string
@@ -75,6 +85,7 @@ type AuthState = {
     municipality?: string
     avatarUrl?: string
     hlaRoleType?: string
+    accessRole?: AccessRole
   }
 }
 
@@ -169,6 +180,30 @@ type AnnouncementCreatedPayload = {
   }
 }
 
+type ConcernTicketUpdatedPayload = {
+  change?: "created" | "assigned" | "status" | "due-date" | "comment"
+  ticket?: {
+    id?: string
+    concern?: string
+    status?: string
+    dateKey?: string
+    municipality?: string
+    school?: string
+    categoryKey?: string
+    categoryLabel?: string
+    resolutionNote?: string
+  }
+  comment?: { body?: string; authorName?: string }
+}
+
+const CONCERN_CHANGE_TITLES: Record<NonNullable<ConcernTicketUpdatedPayload["change"]>, string> = {
+  created: "Delivery concern logged",
+  assigned: "Delivery concern assigned",
+  status: "Delivery concern updated",
+  "due-date": "Delivery concern due date set",
+  comment: "New comment on delivery concern",
+}
+
 function formatClockTime(ts: number) {
   try {
     return new Date(ts).toLocaleTimeString([], {
@@ -221,12 +256,6 @@ function formatRelativeNotifiedAt(ts: number) {
   return `${yearDiff}y ago`
 }
 
-function getApiBaseUrl() {
-  const envAny = (import.meta as any)?.env as any
-  const fromEnv = (envAny?.VITE_API_BASE_URL || envAny?.VITE_API_URL) as string | undefined
-  return (fromEnv || "http://localhost:8000").replace(/\/+$/, "")
-}
-
 function getAuth(): AuthState | null {
   try {
     const raw = localStorage.getItem("bhss_auth")
@@ -237,49 +266,6 @@ function getAuth(): AuthState | null {
   }
 }
 
-async function apiFetch(path: string, init?: RequestInit) {
-  const auth = getAuth()
-  if (!auth?.token) throw new Error("Not authenticated")
-
-  const res = await fetch(`${getApiBaseUrl()}${path}`, {
-    ...init,
-    headers: {
-      ...(init?.headers || {}),
-      Authorization: `Bearer ${auth.token}`,
-    },
-  })
-
-  const data = await res.json().catch(() => ({}))
-  if (!res.ok) {
-    throw new Error((data as any)?.message || "Request failed")
-  }
-  return data
-}
-
-type EventsListResponse = {
-  events?: Array<{
-    _id?: string
-    id?: string
-    title?: string
-    dateKey?: string
-    startTime?: string
-    endTime?: string
-    status?: string
-    cancelReason?: string
-    createdAt?: string
-  }>
-}
-
-type AnnouncementsListResponse = {
-  announcements?: Array<{
-    _id?: string
-    id?: string
-    title?: string
-    message?: string
-    createdAt?: string
-  }>
-}
-
 function initials(name?: string) {
   const n = (name || "").trim()
   if (!n) return "U"
@@ -291,86 +277,92 @@ function initials(name?: string) {
 
 type UserMenuItem = {
   title: string
+  path: string
   icon: React.ComponentType<{ className?: string }>
+  feature: Feature
   component: React.ComponentType
 }
 
 const ALL_MENU_ITEMS: UserMenuItem[] = [
   {
     title: "Home",
+    path: USER_ROUTES.home,
     icon: LayoutDashboard,
+    feature: "dashboard",
     component: UserHome,
   },
   {
     title: "Instructions",
+    path: USER_ROUTES.instructions,
     icon: BookOpen,
+    feature: "instructions",
     component: UserInstructions,
   },
   {
     title: "Announcements",
+    path: USER_ROUTES.announcements,
     icon: Megaphone,
+    feature: "announcements",
     component: UserAnnouncements,
   },
   {
     title: "Calendar",
+    path: USER_ROUTES.calendar,
     icon: CalendarDays,
+    feature: "events",
     component: UserEventCalendar,
   },
   {
     title: "Delivery",
+    path: USER_ROUTES.delivery,
     icon: Truck,
+    feature: "delivery",
     component: UserDelivery,
   },
   {
     title: "Attendance",
+    path: USER_ROUTES.attendance,
     icon: ClipboardCheck,
+    feature: "attendance",
     component: UserAttendance,
   },
+  {
+    title: "Inventory",
+    path: USER_ROUTES.inventory,
+    icon: Boxes,
+    feature: "inventory",
+    component: UserInventory,
+  },
   {
     title: "File Submission",
+    path: USER_ROUTES.fileSubmission,
     icon: FileText,
+    feature: "fileSubmissions",
     component: FileSubmission,
   },
   {
     title: "Activities",
+    path: USER_ROUTES.activities,
     icon: ClipboardList,
+    feature: "activities",
     component: UserActivities,
   },
   {
     title: "Account",
+    path: USER_ROUTES.account,
     icon: Settings,
+    feature: "account",
     component: UserAccount,
   },
 ]
 
-function getMenuItemsForRole(hlaRoleType?: string): UserMenuItem[] {
-  const isCoordinator = hlaRoleType === "HLA Coordinator"
-  const isManager = hlaRoleType === "HLA Manager"
-
-  return ALL_MENU_ITEMS.filter((item) => {
-    // Coordinator cannot see Delivery and Attendance
-    if (isCoordinator && (item.title === "Delivery" || item.title === "Attendance")) {
-      return false
-    }
-    // Instructions is only for managers
-    if (!isManager && item.title === "Instructions") {
-      return false
-    }
-    // Manager cannot see File Submission
-    if (isManager && item.title === "File Submission") {
-      return false
-    }
-    return true
-  })
-}
-
 export function UserSidebarLayout({
   userEmail,
   userSchool,
   userMunicipality,
   onLogout,
 }: UserSidebarLayoutProps) {
-  const [activeItem, setActiveItem] = useState<string>("Home")
+  const { pathname } = useLocation()
 
   const [announcementsBadgeCount, setAnnouncementsBadgeCount] = useState(0)
   const [upcomingEventsBadgeCount, setUpcomingEventsBadgeCount] = useState(0)
@@ -381,8 +373,19 @@ export function UserSidebarLayout({
     return getAuth()?.user || null
   })
 
-  // Get filtered menu items based on user's HLA role type
-  const userMenuItems = useMemo(() => getMenuItemsForRole(authUser?.hlaRoleType), [authUser?.hlaRoleType])
+  // Menu items the account's role may view; see lib/permissions
+  const userMenuItems = useMemo(() => {
+    const permissions = permissionsFor(authUser)
+    return ALL_MENU_ITEMS.filter((item) => permissions.can(item.feature))
+  }, [authUser])
+
+  // Pages read permissions from the session store; keep it in step with profile refreshes
+  const updateSessionUser = useSessionStore((s) => s.updateUser)
+  useEffect(() => {
+    if (!authUser) return
+    const { accessRole, hlaRoleType, municipality, school } = authUser
+    updateSessionUser({ accessRole, hlaRoleType, municipality, school })
+  }, [authUser, updateSessionUser])
 
   const [notifOpen, setNotifOpen] = useState(false)
   const [notifTab, setNotifTab] = useState<"all" | "announcements" | "events">("all")
@@ -406,14 +409,17 @@ export function UserSidebarLayout({
     return key >= todayKey
   }
 
+  // Replays attendance and delivery saved while offline
+  useEffect(() => useSyncQueueStore.getState().start(), [])
+
   useEffect(() => {
     let cancelled = false
 
       ; (async () => {
         try {
           const [annRes, eventsRes] = await Promise.all([
-            apiFetch("/api/announcements") as Promise<AnnouncementsListResponse>,
-            apiFetch("/api/events") as Promise<EventsListResponse>,
+            announcementsApi.list(),
+            eventsApi.list(),
           ])
 
           if (cancelled) return
@@ -460,7 +466,7 @@ export function UserSidebarLayout({
 
       ; (async () => {
         try {
-          const data = (await apiFetch("/api/announcements")) as AnnouncementsListResponse
+          const data = await announcementsApi.list()
           const list = Array.isArray(data?.announcements) ? data.announcements : []
           if (cancelled || !list.length) return
 
@@ -518,7 +524,7 @@ export function UserSidebarLayout({
 
       ; (async () => {
         try {
-          const data = (await apiFetch("/api/events")) as EventsListResponse
+          const data = await eventsApi.list()
           const events = Array.isArray(data?.events) ? data.events : []
           if (cancelled || !events.length) return
 
@@ -655,6 +661,11 @@ export function UserSidebarLayout({
             icon: "/images/bhsslogo.png",
             badge: "/images/bhsslogo.png",
           })
+          n.onclick = () => {
+            window.focus()
+            if (id) navigate(links.event(id, dateKey))
+            n.close()
+          }
           setTimeout(() => n.close(), 5000)
         } catch {
           // ignore
@@ -707,6 +718,11 @@ export function UserSidebarLayout({
             icon: "/images/bhsslogo.png",
             badge: "/images/bhsslogo.png",
           })
+          n.onclick = () => {
+            window.focus()
+            if (id) navigate(links.announcement(id))
+            n.close()
+          }
           setTimeout(() => n.close(), 5000)
         } catch {
           // ignore
@@ -764,6 +780,11 @@ export function UserSidebarLayout({
             icon: "/images/bhsslogo.png",
             badge: "/images/bhsslogo.png",
           })
+          n.onclick = () => {
+            window.focus()
+            if (id) navigate(links.event(id, dateKey))
+            n.close()
+          }
           setTimeout(() => n.close(), 6000)
         } catch {
           // ignore
@@ -801,6 +822,49 @@ export function UserSidebarLayout({
       })
     })
 
+    // Concern tickets are broadcast to everyone; only the reporting school is told
+    socket.on("delivery-concern:updated", (payload: ConcernTicketUpdatedPayload) => {
+      const ticket = payload?.ticket
+      const user = getAuth()?.user
+      if (!ticket || !user?.school) return
+      const same = (a?: string, b?: string) => String(a || "").trim().toLowerCase() === String(b || "").trim().toLowerCase()
+      if (!same(ticket.school, user.school) || !same(ticket.municipality, user.municipality)) return
+
+      const title = CONCERN_CHANGE_TITLES[payload.change || "status"] || CONCERN_CHANGE_TITLES.status
+      const status = ticket.status ? ticket.status.charAt(0).toUpperCase() + ticket.status.slice(1) : ""
+      const detail =
+        payload.change === "comment"
+          ? `${payload.comment?.authorName || "Admin"}: ${payload.comment?.body || ""}`
+          : ticket.status === "resolved" && ticket.resolutionNote
+            ? ticket.resolutionNote
+            : status
+      const body = [ticket.concern, ticket.categoryLabel, ticket.dateKey, detail].filter(Boolean).join(" • ")
+      const url = links.delivery(ticket.dateKey, ticket.categoryKey)
+
+      sileo.info({ title, description: body })
+
+      if (typeof Notification !== "undefined" && Notification.permission === "granted") {
+        try {
+          const timeText = formatClockTime(Date.now())
+          const n = new Notification(title, {
+            body: timeText ? `${body} • ${timeText}` : body,
+            silent: false,
+            tag: `concern-${ticket.id || body}`,
+            icon: "/images/bhsslogo.png",
+            badge: "/images/bhsslogo.png",
+          })
+          n.onclick = () => {
+            window.focus()
+            navigate(url)
+            n.close()
+          }
+          setTimeout(() => n.close(), 6000)
+        } catch {
+          // ignore
+        }
+      }
+    })
+
     return () => {
       socket.disconnect()
     }
@@ -813,7 +877,7 @@ export function UserSidebarLayout({
     let cancelled = false
       ; (async () => {
         try {
-          const data = (await apiFetch(`/api/users/${encodeURIComponent(auth.user.id)}`)) as any
+          const data = await usersApi.get(auth.user.id)
           const u = (data as any)?.user || (data as any)
           if (!u || cancelled) return
           setAuthUser((prev) => ({
@@ -825,6 +889,7 @@ export function UserSidebarLayout({
             municipality: u.municipality ?? prev?.municipality ?? auth.user.municipality,
             avatarUrl: u.avatarUrl ?? prev?.avatarUrl ?? (auth.user as any)?.avatarUrl,
             hlaRoleType: u.hlaRoleType ?? prev?.hlaRoleType ?? (auth.user as any)?.hlaRoleType,
+            accessRole: u.accessRole ?? prev?.accessRole ?? auth.user.accessRole,
           }))
         } catch {
           // ignore
@@ -840,8 +905,9 @@ export function UserSidebarLayout({
     const handler = () => {
       const auth = getAuth()
       if (!auth?.user?.id) return
-      apiFetch(`/api/users/${encodeURIComponent(auth.user.id)}`)
-        .then((data: any) => {
+      usersApi
+        .get(auth.user.id)
+        .then((data) => {
           const u = (data as any)?.user || (data as any)
           if (!u) return
           setAuthUser((prev) => ({
@@ -853,6 +919,7 @@ export function UserSidebarLayout({
             municipality: u.municipality ?? prev?.municipality ?? auth.user.municipality,
             avatarUrl: u.avatarUrl ?? prev?.avatarUrl ?? (auth.user as any)?.avatarUrl,
             hlaRoleType: u.hlaRoleType ?? prev?.hlaRoleType ?? (auth.user as any)?.hlaRoleType,
+            accessRole: u.accessRole ?? prev?.accessRole ?? auth.user.accessRole,
           }))
         })
         .catch(() => { })
@@ -864,13 +931,17 @@ export function UserSidebarLayout({
     }
   }, [])
 
-  const ActiveComponent =
-    userMenuItems.find((item) => item.title === activeItem)?.component || UserHome
+  const activePath = pathname.replace(/\/+$/, "") || "/"
+  const activeMenuItem = userMenuItems.find((item) => item.path === activePath) || null
+
+  // Admin links and pages hidden for this HLA role fall back to Home.
+  useEffect(() => {
+    if (activeMenuItem) return
+    navigate(USER_ROUTES.home, { replace: true })
+  }, [activeMenuItem])
 
-  const headerLabel = useMemo(() => {
-    if (activeItem) return activeItem
-    return "Home"
-  }, [activeItem])
+  const activeItem = activeMenuItem?.title || "Home"
+  const ActiveComponent = activeMenuItem?.component || UserHome
 
   const sidebarTitle = useMemo(() => {
     return userMunicipality?.trim() || "Municipality"
@@ -879,8 +950,7 @@ export function UserSidebarLayout({
   const avatarSrc = useMemo(() => {
     const raw = authUser?.avatarUrl || ""
     if (!raw) return ""
-    if (/^https?:\/\//i.test(raw)) return raw
-    if (raw.startsWith("/")) return `${getApiBaseUrl()}${raw}`
+    if (raw.startsWith("/")) return resolveApiUrl(raw)
     return raw
   }, [authUser?.avatarUrl])
 
@@ -909,59 +979,10 @@ export function UserSidebarLayout({
       className="bg-[#f5faf7] has-data-[variant=inset]:!bg-[#f5faf7]"
       style={{ fontFamily: '"Artico Soft-Medium","Mona Sans","Helvetica Neue",Helvetica,Arial,sans-serif' }}
     >
-      <AnimatePresence>
-        {updateAvailable && (
-          <motion.div
-            key="update-available"
-            initial={{ opacity: 0 }}
-            animate={{ opacity: 1 }}
-            exit={{ opacity: 0 }}
-            transition={{ duration: 0.18 }}
-            className="fixed inset-0 z-[9999] grid place-items-center bg-black/40 p-4"
-          >
-            <motion.div
-              initial={{ opacity: 0, y: 10, scale: 0.98 }}
-              animate={{ opacity: 1, y: 0, scale: 1 }}
-              exit={{ opacity: 0, y: 10, scale: 0.98 }}
-              transition={{ duration: 0.22 }}
-              className="w-full max-w-md rounded-3xl border border-emerald-100 bg-white p-5 shadow-xl"
-            >
-              <div className="flex items-start justify-between gap-3">
-                <div className="min-w-0">
-                  <div className="text-sm font-semibold text-gray-900">New update available</div>
-                  <div className="mt-1 text-xs text-gray-500">
-                    The system was updated. Refresh to load the latest version.
-                  </div>
-                </div>
-                <button
-                  type="button"
-                  onClick={() => setUpdateAvailable(false)}
-                  className="rounded-xl px-2 py-1 text-sm text-gray-400 hover:text-gray-600"
-                  aria-label="Dismiss"
-                >
-                  ✕
-                </button>
-              </div>
-
-              <div className="mt-4 flex items-center justify-end gap-2">
-                <Button
-                  variant="ghost"
-                  className="rounded-xl"
-                  onClick={() => setUpdateAvailable(false)}
-                >
-                  Later
-                </Button>
-                <Button
-                  className="rounded-xl bg-emerald-600 hover:bg-emerald-500"
-                  onClick={() => window.location.reload()}
-                >
-                  Refresh
-                </Button>
-              </div>
-            </motion.div>
-          </motion.div>
-        )}
-      </AnimatePresence>
+      <UpdateAvailablePrompt
+        serverUpdated={updateAvailable}
+        onDismissServerUpdate={() => setUpdateAvailable(false)}
+      />
 
 
 
@@ -1007,7 +1028,7 @@ export function UserSidebarLayout({
                     <SidebarMenuButton
                       className="w-full my-0.5 text-[15px] text-neutral-800 [&>svg]:size-5 rounded-2xl border border-transparent bg-transparent hover:bg-emerald-600 hover:text-white hover:[&>svg]:text-white data-[active=true]:bg-emerald-600 data-[active=true]:text-white data-[active=true]:border-transparent data-[active=true]:shadow-none transition-colors px-3.5 py-2.5 h-11 gap-2.5"
                       isActive={activeItem === item.title}
-                      onClick={() => setActiveItem(item.title)}
+                      onClick={() => navigate(item.path)}
                       tooltip={item.title}
                     >
                       <item.icon />
@@ -1061,8 +1082,9 @@ export function UserSidebarLayout({
         <header className="flex h-16 shrink-0 items-center gap-2 border-b px-4 bg-white">
           <SidebarTrigger className="-ml-1" />
           <Separator orientation="vertical" className="mr-2 h-4" />
-          <h1 className="text-lg font-semibold">{headerLabel}</h1>
-          <div className="ml-auto">
+          <h1 className="text-lg font-semibold">{activeItem}</h1>
+          <div className="ml-auto flex items-center gap-2">
+            <SyncQueueIndicator />
             <DropdownMenu open={notifOpen} onOpenChange={(v) => setNotifOpen(v)}>
               <DropdownMenuTrigger asChild>
                 <Button variant="ghost" size="icon" className="relative rounded-xl">
@@ -1141,31 +1163,18 @@ export function UserSidebarLayout({
                                 exit={{ opacity: 0, x: 80, scale: 0.98 }}
                                 transition={{ type: "spring", stiffness: 260, damping: 26, mass: 0.9 }}
                                 onClick={() => {
-                                  try {
-                                    const rawId = String(n.id || "")
-                                    const sourceId = rawId.startsWith("announcement-")
-                                      ? rawId.replace(/^announcement-/, "")
-                                      : rawId.startsWith("event-")
-                                        ? rawId.replace(/^event-/, "")
-                                        : ""
-
-                                    const dateKey = (() => {
-                                      if (n.kind !== "event") return ""
-                                      const m = String(n.message || "").match(/\b\d{4}-\d{2}-\d{2}\b/)
-                                      return m ? String(m[0]) : ""
-                                    })()
-
-                                    localStorage.setItem(
-                                      "bhss_notif_intent",
-                                      JSON.stringify({
-                                        kind: n.kind,
-                                        sourceId,
-                                        dateKey,
-                                      })
-                                    )
-                                  } catch {
-                                    // ignore
-                                  }
+                                  const rawId = String(n.id || "")
+                                  const sourceId = rawId.startsWith("announcement-")
+                                    ? rawId.replace(/^announcement-/, "")
+                                    : rawId.startsWith("event-")
+                                      ? rawId.replace(/^event-/, "")
+                                      : ""
+
+                                  const dateKey = (() => {
+                                    if (n.kind !== "event") return ""
+                                    const m = String(n.message || "").match(/\b\d{4}-\d{2}-\d{2}\b/)
+                                    return m ? String(m[0]) : ""
+                                  })()
 
                                   setReadIds((prev) => {
                                     const next = new Set(prev)
@@ -1174,8 +1183,8 @@ export function UserSidebarLayout({
                                   })
 
                                   setNotifOpen(false)
-                                  if (n.kind === "announcement") setActiveItem("Announcements")
-                                  if (n.kind === "event") setActiveItem("Calendar")
+                                  if (n.kind === "announcement") navigate(links.announcement(sourceId))
+                                  if (n.kind === "event") navigate(links.event(sourceId, dateKey))
 
                                   setNotifications((prev) => prev.filter((x) => x.id !== n.id))
                                 }}
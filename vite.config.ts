@@ -1,11 +1,64 @@
-import { defineConfig } from 'vite'
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 import tailwind from '@tailwindcss/vite'
+import { createHash } from 'node:crypto'
+import fs from 'node:fs'
 import path from 'path'
 
+const SERVICE_WORKER_FILE = 'bhss-push-sw.js'
+
+// Precached next to the bundle; the large gallery photos are left to the network
+const PRECACHE_STATIC = [
+  '/',
+  '/manifest.webmanifest',
+  '/images/bhsslogo.png',
+  '/images/bataanlogo.png',
+  '/images/pwa-192.png',
+]
+
+/**
+ * Writes the build's file list into public/bhss-push-sw.js so it can precache
+ * the app shell. The list also sets the worker's version, so every deploy
+ * ships a changed worker and open tabs get the update prompt.
+ */
+function precacheServiceWorker(): Plugin {
+  let outDir = 'dist'
+  let bundleFiles: string[] = []
+
+  return {
+    name: 'bhss-precache-service-worker',
+    apply: 'build',
+    configResolved(config) {
+      outDir = path.resolve(config.root, config.build.outDir)
+    },
+    writeBundle(_options, bundle) {
+      bundleFiles = Object.keys(bundle).filter((f) => !f.endsWith('.map') && f !== 'index.html')
+    },
+    closeBundle() {
+      const swPath = path.join(outDir, SERVICE_WORKER_FILE)
+      const source = fs.readFileSync(swPath, 'utf8')
+      const urls = [...PRECACHE_STATIC, ...bundleFiles.map((f) => `/${f}`)]
+      const version = createHash('sha256').update(urls.join('\n')).digest('hex').slice(0, 12)
+
+      const versionLine = 'const BUILD_VERSION = "dev"'
+      const urlsLine = 'const PRECACHE_URLS = []'
+      if (!source.includes(versionLine) || !source.includes(urlsLine)) {
+        throw new Error(`${SERVICE_WORKER_FILE}: precache placeholders not found`)
+      }
+
+      fs.writeFileSync(
+        swPath,
+        source
+          .replace(versionLine, `const BUILD_VERSION = ${JSON.stringify(version)}`)
+          .replace(urlsLine, `const PRECACHE_URLS = ${JSON.stringify(urls)}`)
+      )
+    },
+  }
+}
+
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react(), tailwind()],
+  plugins: [react(), tailwind(), precacheServiceWorker()],
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),